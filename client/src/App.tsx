@@ -8,6 +8,8 @@ import { AppSidebar } from "@/components/app-sidebar";
 import { ThemeProvider } from "@/components/theme-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { NavActions } from "@/components/nav-actions";
+import { AccountMenu } from "@/components/account-menu";
+import { SearchAlertsMenu } from "@/components/search-alerts-menu";
 import { LiveCounter } from "@/components/live-counter";
 import { AppBreadcrumbs } from "@/components/breadcrumbs";
 import { useKeyboardShortcuts, shortcutsList } from "@/hooks/use-keyboard-shortcuts";
@@ -23,15 +25,22 @@ import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
 import PeoplePage from "@/pages/people";
 import PersonDetail from "@/pages/person-detail";
+import EntityDetailPage from "@/pages/entity-detail";
 import DocumentsPage from "@/pages/documents";
 import DocumentDetailPage from "@/pages/document-detail";
 import DocumentComparePage from "@/pages/document-compare";
 import TimelinePage from "@/pages/timeline";
 import NetworkPage from "@/pages/network";
+import MapPage from "@/pages/map";
 import SearchPage from "@/pages/search";
 import AIInsightsPage from "@/pages/ai-insights";
 import AskArchivePage from "@/pages/ask-archive";
 import BookmarksPage from "@/pages/bookmarks";
+import AnnotationsPage from "@/pages/annotations";
+import WorkspacesPage from "@/pages/workspaces";
+import WorkspaceDetailPage from "@/pages/workspace-detail";
+import AuthPage from "@/pages/auth";
+import AdminPipelinePage from "@/pages/admin-pipeline";
 
 function Router() {
   return (
@@ -39,15 +48,22 @@ function Router() {
       <Route path="/" component={Dashboard} />
       <Route path="/people" component={PeoplePage} />
       <Route path="/people/:id" component={PersonDetail} />
+      <Route path="/entities/:id" component={EntityDetailPage} />
       <Route path="/documents" component={DocumentsPage} />
       <Route path="/documents/compare" component={DocumentComparePage} />
       <Route path="/documents/:id" component={DocumentDetailPage} />
       <Route path="/timeline" component={TimelinePage} />
       <Route path="/network" component={NetworkPage} />
+      <Route path="/map" component={MapPage} />
       <Route path="/search" component={SearchPage} />
       <Route path="/bookmarks" component={BookmarksPage} />
+      <Route path="/annotations" component={AnnotationsPage} />
+      <Route path="/workspaces" component={WorkspacesPage} />
+      <Route path="/workspaces/:id" component={WorkspaceDetailPage} />
+      <Route path="/login" component={AuthPage} />
       <Route path="/ai-insights" component={AIInsightsPage} />
       <Route path="/ask-the-archive" component={AskArchivePage} />
+      <Route path="/admin/pipeline" component={AdminPipelinePage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -76,6 +92,8 @@ function AppShell() {
               <LiveCounter />
               <NavActions />
               <ThemeToggle />
+              <SearchAlertsMenu />
+              <AccountMenu />
             </div>
           </header>
           <main className="flex-1 overflow-auto">
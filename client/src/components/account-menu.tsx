@@ -0,0 +1,63 @@
+import { Link } from "wouter";
+import { LogIn, LogOut, User, Bookmark, Highlighter, FolderKanban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+
+export function AccountMenu() {
+  const { user, isLoading, logoutMutation } = useAuth();
+
+  if (isLoading) return null;
+
+  if (!user) {
+    return (
+      <Link href="/login">
+        <Button variant="ghost" size="sm" className="gap-1.5" data-testid="button-sign-in">
+          <LogIn className="h-4 w-4" />
+          <span className="hidden sm:inline">Sign in</span>
+        </Button>
+      </Link>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Account" data-testid="button-account">
+          <User className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          Signed in as <span className="font-medium text-foreground">{user.username}</span>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/bookmarks">
+            <Bookmark className="h-4 w-4 mr-2" /> Bookmarks
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href="/annotations">
+            <Highlighter className="h-4 w-4 mr-2" /> Annotations
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href="/workspaces">
+            <FolderKanban className="h-4 w-4 mr-2" /> Workspaces
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => logoutMutation.mutate()} data-testid="button-sign-out">
+          <LogOut className="h-4 w-4 mr-2" /> Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
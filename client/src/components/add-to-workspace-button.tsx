@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { WorkspaceDialog } from "@/components/workspace-dialog";
+import { FolderPlus, Plus } from "lucide-react";
+import { useWorkspaces, type NewWorkspaceItem } from "@/hooks/use-workspaces";
+import { toast } from "@/hooks/use-toast";
+
+interface AddToWorkspaceButtonProps {
+  item: NewWorkspaceItem;
+  /** Icon-only trigger, sized like the neighbouring bookmark buttons */
+  compact?: boolean;
+  className?: string;
+}
+
+export function AddToWorkspaceButton({ item, compact, className = "h-8 w-8" }: AddToWorkspaceButtonProps) {
+  const { workspaces, canUseWorkspaces, createWorkspace, addItem, isSaving } = useWorkspaces();
+  const [creating, setCreating] = useState(false);
+
+  const add = async (workspaceId: number, workspaceName: string) => {
+    try {
+      await addItem({ workspaceId, ...item });
+      toast({ title: `Added to ${workspaceName}` });
+    } catch {
+      // The mutation shows the error toast
+    }
+  };
+
+  const handleCreate = async ({ name, description }: { name: string; description: string | null }) => {
+    try {
+      const workspace = await createWorkspace({ name, description: description ?? undefined });
+      setCreating(false);
+      await add(workspace.id, workspace.name);
+    } catch {
+      // Keep the dialog open; the mutation shows the error toast
+    }
+  };
+
+  const trigger = compact ? (
+    <Button variant="ghost" size="icon" className={className} aria-label="Add to workspace" data-testid="button-add-to-workspace">
+      <FolderPlus className="w-4 h-4 text-muted-foreground" />
+    </Button>
+  ) : (
+    <Button variant="outline" size="sm" className="gap-1.5" data-testid="button-add-to-workspace">
+      <FolderPlus className="w-3.5 h-3.5" />
+      Add to workspace
+    </Button>
+  );
+
+  if (!canUseWorkspaces) {
+    return (
+      <span
+        className="contents"
+        onClickCapture={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          toast({ title: "Sign in to use workspaces", description: "Workspaces are stored in your account." });
+        }}
+      >
+        {trigger}
+      </span>
+    );
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>{trigger}</DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="max-h-72 overflow-y-auto">
+          <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Add to workspace</DropdownMenuLabel>
+          {workspaces.map((w) => (
+            <DropdownMenuItem
+              key={w.id}
+              className="cursor-pointer"
+              disabled={isSaving}
+              onClick={() => add(w.id, w.name)}
+            >
+              <span className="truncate max-w-[14rem]">{w.name}</span>
+              <span className="ml-auto pl-3 text-[10px] text-muted-foreground">{w.itemCount}</span>
+            </DropdownMenuItem>
+          ))}
+          {workspaces.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem className="cursor-pointer gap-2" onClick={() => setCreating(true)}>
+            <Plus className="w-4 h-4" /> New workspace…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <WorkspaceDialog
+        open={creating}
+        onOpenChange={setCreating}
+        title="New workspace"
+        submitLabel="Create and add"
+        isSaving={isSaving}
+        onSave={handleCreate}
+      />
+    </>
+  );
+}
@@ -0,0 +1,90 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import type { DocumentAnnotation } from "@shared/schema";
+import { FileText, Pencil, SquareDashed, X } from "lucide-react";
+import { Link } from "wouter";
+
+interface AnnotationCardProps {
+  annotation: DocumentAnnotation & { documentTitle?: string };
+  /** Link the card to its document (used on the cross-document annotations page) */
+  showDocument?: boolean;
+  onEdit?: (annotation: DocumentAnnotation) => void;
+  onRemove?: (id: number) => void;
+  onTagClick?: (tag: string) => void;
+}
+
+export function AnnotationCard({ annotation, showDocument, onEdit, onRemove, onTagClick }: AnnotationCardProps) {
+  const pageHref = `/documents/${annotation.documentId}?page=${annotation.pageNumber}`;
+
+  return (
+    <Card className="group" data-testid={`card-annotation-${annotation.id}`}>
+      <CardContent className="p-3 flex items-start gap-3">
+        <div className="flex flex-col gap-1.5 min-w-0 flex-1">
+          <div className="flex items-center gap-2 flex-wrap text-[11px] text-muted-foreground">
+            {showDocument && (
+              <Link href={pageHref} className="flex items-center gap-1 font-medium text-foreground hover:underline min-w-0">
+                <FileText className="w-3 h-3 shrink-0" />
+                <span className="truncate">{annotation.documentTitle}</span>
+              </Link>
+            )}
+            <Link href={pageHref} className="hover:underline">Page {annotation.pageNumber}</Link>
+            <span>{new Date(annotation.createdAt).toLocaleDateString()}</span>
+          </div>
+
+          {annotation.quote ? (
+            <p className="text-sm border-l-2 border-yellow-400 pl-2 italic line-clamp-3">{annotation.quote}</p>
+          ) : (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <SquareDashed className="w-3 h-3" /> Page region
+            </span>
+          )}
+
+          {annotation.note && (
+            <p className="text-sm text-muted-foreground whitespace-pre-wrap">{annotation.note}</p>
+          )}
+
+          {annotation.tags.length > 0 && (
+            <div className="flex items-center gap-1 flex-wrap">
+              {annotation.tags.map((tag) => (
+                <Badge
+                  key={tag}
+                  variant="secondary"
+                  className={`text-[10px] ${onTagClick ? "cursor-pointer hover:bg-primary/10" : ""}`}
+                  onClick={onTagClick ? () => onTagClick(tag) : undefined}
+                >
+                  #{tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-0.5 shrink-0 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          {onEdit && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onEdit(annotation)}
+              aria-label="Edit annotation"
+            >
+              <Pencil className="w-3.5 h-3.5" />
+            </Button>
+          )}
+          {onRemove && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onRemove(annotation.id)}
+              aria-label="Delete annotation"
+            >
+              <X className="w-3.5 h-3.5" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Trash2 } from "lucide-react";
+
+interface AnnotationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  /** Highlighted passage, shown read-only above the note */
+  quote?: string | null;
+  initialNote?: string | null;
+  initialTags?: string[];
+  isSaving?: boolean;
+  onSave: (values: { note: string | null; tags: string[] }) => void;
+  /** Shown when editing an existing annotation */
+  onDelete?: () => void;
+}
+
+function parseTags(value: string): string[] {
+  return value.split(",").map((t) => t.trim()).filter(Boolean);
+}
+
+export function AnnotationDialog({
+  open,
+  onOpenChange,
+  title,
+  quote,
+  initialNote,
+  initialTags,
+  isSaving,
+  onSave,
+  onDelete,
+}: AnnotationDialogProps) {
+  const [note, setNote] = useState("");
+  const [tags, setTags] = useState("");
+
+  // Reset the form each time the dialog opens; later prop changes must not clobber typing
+  useEffect(() => {
+    if (open) {
+      setNote(initialNote ?? "");
+      setTags((initialTags ?? []).join(", "));
+    }
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ note: note.trim() || null, tags: parseTags(tags) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            {quote && (
+              <DialogDescription className="border-l-2 border-yellow-400 pl-3 italic line-clamp-4">
+                {quote}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="annotation-note">Note</Label>
+            <Textarea
+              id="annotation-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={5000}
+              rows={4}
+              placeholder="What did you find here?"
+              data-testid="input-annotation-note"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="annotation-tags">Tags</Label>
+            <Input
+              id="annotation-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="flights, finances"
+              data-testid="input-annotation-tags"
+            />
+            <span className="text-[11px] text-muted-foreground">Separate tags with commas.</span>
+          </div>
+
+          <DialogFooter className="gap-2">
+            {onDelete && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="sm:mr-auto text-destructive hover:text-destructive gap-1"
+                onClick={onDelete}
+                data-testid="button-delete-annotation"
+              >
+                <Trash2 className="w-4 h-4" /> Delete
+              </Button>
+            )}
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving} data-testid="button-save-annotation">
+              {isSaving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
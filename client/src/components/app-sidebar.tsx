@@ -13,6 +13,7 @@ import {
 } from "@/components/ui/sidebar";
 import { Link, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
 import {
   LayoutDashboard,
   Users,
@@ -35,7 +36,11 @@ import {
   Video,
   VideoOff,
   Bookmark,
+  Highlighter,
+  FolderKanban,
   Code2,
+  MapPin,
+  Workflow,
 } from "lucide-react";
 
 interface SidebarCounts {
@@ -127,6 +132,7 @@ function isNavActive(itemUrl: string, currentLocation: string): boolean {
 
 export function AppSidebar() {
   const [location] = useLocation();
+  const { user } = useAuth();
   const fullLocation = location + (typeof window !== "undefined" ? window.location.search : "");
 
   const { data: counts } = useQuery<SidebarCounts>({
@@ -162,16 +168,23 @@ export function AppSidebar() {
     { title: "People", url: "/people", icon: Users, count: counts?.persons },
     { title: "Timeline", url: "/timeline", icon: Clock, count: counts?.events },
     { title: "Network", url: "/network", icon: Network },
+    { title: "Map", url: "/map", icon: MapPin },
     { title: "AI Insights", url: "/ai-insights", icon: Brain },
   ];
 
   const toolItems: NavItem[] = [
     { title: "Search", url: "/search", icon: Search },
     { title: "Bookmarks", url: "/bookmarks", icon: Bookmark },
+    { title: "Annotations", url: "/annotations", icon: Highlighter },
+    { title: "Workspaces", url: "/workspaces", icon: FolderKanban },
     { title: "Ask the Archive", url: "/ask-the-archive", icon: MessageSquare },
     { title: "Public API", url: "/api/v1/docs", icon: Code2, external: true },
   ];
 
+  const adminItems: NavItem[] = [
+    { title: "Pipeline", url: "/admin/pipeline", icon: Workflow },
+  ];
+
   return (
     <Sidebar>
       <SidebarHeader className="p-4">
@@ -191,6 +204,7 @@ export function AppSidebar() {
         {mediaItems.length > 0 && <NavGroup label="Media" items={mediaItems} location={fullLocation} />}
         <NavGroup label="Investigation" items={investigationItems} location={fullLocation} />
         <NavGroup label="Tools" items={toolItems} location={fullLocation} />
+        {user?.isAdmin && <NavGroup label="Admin" items={adminItems} location={fullLocation} />}
       </SidebarContent>
       <SidebarFooter className="p-4">
         <div className="flex flex-col gap-2 text-[10px] text-muted-foreground">
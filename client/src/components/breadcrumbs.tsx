@@ -9,7 +9,7 @@ import {
   BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb";
 import { Home } from "lucide-react";
-import type { Person, Document } from "@shared/schema";
+import type { Person, Document, Entity, WorkspaceDetail } from "@shared/schema";
 
 interface BreadcrumbSegment {
   label: string;
@@ -21,9 +21,14 @@ const staticRoutes: Record<string, string> = {
   documents: "Documents",
   timeline: "Timeline",
   network: "Network",
+  map: "Map",
   search: "Search",
   compare: "Compare",
   "ai-insights": "AI Insights",
+  bookmarks: "Bookmarks",
+  annotations: "Annotations",
+  workspaces: "Workspaces",
+  login: "Sign in",
   // "ask-the-archive": "Ask the Archive",
 };
 
@@ -36,9 +41,13 @@ export function AppBreadcrumbs() {
   const isPersonDetail = segments[0] === "people" && segments[1] && !isNaN(Number(segments[1]));
   const isDocumentDetail = segments[0] === "documents" && segments[1] && segments[1] !== "compare" && !isNaN(Number(segments[1]));
   const isDocumentCompare = segments[0] === "documents" && segments[1] === "compare";
+  const isEntityDetail = segments[0] === "entities" && segments[1] && !isNaN(Number(segments[1]));
+  const isWorkspaceDetail = segments[0] === "workspaces" && segments[1] && !isNaN(Number(segments[1]));
 
   const personId = isPersonDetail ? segments[1] : undefined;
   const documentId = isDocumentDetail ? segments[1] : undefined;
+  const entityId = isEntityDetail ? segments[1] : undefined;
+  const workspaceId = isWorkspaceDetail ? segments[1] : undefined;
 
   const { data: person } = useQuery<Person>({
     queryKey: ["/api/persons", personId],
@@ -50,6 +59,16 @@ export function AppBreadcrumbs() {
     enabled: !!documentId,
   });
 
+  const { data: entity } = useQuery<Entity>({
+    queryKey: ["/api/entities", entityId],
+    enabled: !!entityId,
+  });
+
+  const { data: workspace } = useQuery<WorkspaceDetail>({
+    queryKey: ["/api/workspaces", workspaceId],
+    enabled: !!workspaceId,
+  });
+
   if (location === "/") return null;
 
   const crumbs: BreadcrumbSegment[] = [];
@@ -60,6 +79,12 @@ export function AppBreadcrumbs() {
   } else if (isDocumentDetail) {
     crumbs.push({ label: "Documents", href: "/documents" });
     crumbs.push({ label: document?.title || `Document #${documentId}` });
+  } else if (isEntityDetail) {
+    crumbs.push({ label: "Network", href: "/network" });
+    crumbs.push({ label: entity?.name || `Entity #${entityId}` });
+  } else if (isWorkspaceDetail) {
+    crumbs.push({ label: "Workspaces", href: "/workspaces" });
+    crumbs.push({ label: workspace?.name || `Workspace #${workspaceId}` });
   } else if (isDocumentCompare) {
     crumbs.push({ label: "Documents", href: "/documents" });
     crumbs.push({ label: "Compare" });
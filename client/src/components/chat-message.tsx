@@ -37,9 +37,13 @@ function renderContent(text: string) {
   });
 }
 
+function citationHref(documentId: number, pageNumber?: number): string {
+  return pageNumber ? `/documents/${documentId}?page=${pageNumber}` : `/documents/${documentId}`;
+}
+
 function renderInline(text: string) {
   const parts: (string | JSX.Element)[] = [];
-  const regex = /(\*\*(.+?)\*\*|\[Doc #(\d+)\])/g;
+  const regex = /(\*\*(.+?)\*\*|\[Doc #(\d+)(?:,?\s*p(?:age|\.)?\s*(\d+))?\])/g;
   let lastIndex = 0;
   let match: RegExpExecArray | null;
 
@@ -52,14 +56,15 @@ function renderInline(text: string) {
       parts.push(<strong key={match.index}>{match[2]}</strong>);
     } else if (match[3]) {
       const docId = match[3];
+      const pageNumber = match[4];
       parts.push(
         <Link
           key={match.index}
-          href={`/documents/${docId}`}
+          href={citationHref(Number(docId), pageNumber ? Number(pageNumber) : undefined)}
           className="inline-flex items-center gap-0.5 text-primary hover:underline font-medium"
         >
           <FileText className="w-3 h-3" />
-          Doc #{docId}
+          Doc #{docId}{pageNumber && `, p. ${pageNumber}`}
         </Link>,
       );
     }
@@ -108,15 +113,17 @@ export function ChatMessage({ role, content, citations, isStreaming }: ChatMessa
             <p className="text-xs text-muted-foreground mb-2">Sources</p>
             <div className="flex flex-wrap gap-1.5">
               {citations.map((citation, i) => (
-                <Link key={i} href={`/documents/${citation.documentId}`}>
+                <Link key={i} href={citationHref(citation.documentId, citation.pageNumber)}>
                   <Badge
                     variant="outline"
                     className="text-[10px] cursor-pointer hover:bg-primary/10"
+                    title={citation.relevance}
                   >
                     <FileText className="w-3 h-3 mr-1" />
                     {citation.documentTitle.length > 40
                       ? citation.documentTitle.slice(0, 40) + "..."
                       : citation.documentTitle}
+                    {citation.pageNumber && <span className="ml-1 text-muted-foreground">p. {citation.pageNumber}</span>}
                   </Badge>
                 </Link>
               ))}
@@ -0,0 +1,256 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { DocumentAnnotation } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, FileText, Highlighter } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+
+interface PageText {
+  pageNumber: number;
+  content: string;
+  pageType: string | null;
+}
+
+interface TextSelection {
+  charStart: number;
+  charEnd: number;
+  quote: string;
+}
+
+interface DocumentPageTextProps {
+  documentId: number;
+  initialPage?: number;
+  /** Character-range annotations are highlighted in the text of their page */
+  annotations?: DocumentAnnotation[];
+  /** Enables annotating a text selection; omit for read-only */
+  onAnnotateRange?: (pageNumber: number, selection: TextSelection) => void;
+  onSelectAnnotation?: (annotation: DocumentAnnotation) => void;
+  /** A character range (e.g. a person mention) to mark and scroll into view */
+  highlightRange?: HighlightRange;
+}
+
+interface HighlightRange {
+  pageNumber: number;
+  charStart: number;
+  charEnd: number;
+}
+
+interface TextSegment {
+  text: string;
+  annotations: DocumentAnnotation[];
+  highlighted: boolean;
+}
+
+/** Split page text at every annotation and highlight boundary so overlapping highlights render correctly. */
+function segmentText(
+  content: string,
+  annotations: DocumentAnnotation[],
+  highlight?: { charStart: number; charEnd: number },
+): TextSegment[] {
+  const ranged = annotations.filter((a) => a.charStart != null && a.charEnd != null);
+  const cuts = new Set<number>([0, content.length]);
+  for (const a of ranged) {
+    cuts.add(Math.min(a.charStart!, content.length));
+    cuts.add(Math.min(a.charEnd!, content.length));
+  }
+  if (highlight) {
+    cuts.add(Math.min(highlight.charStart, content.length));
+    cuts.add(Math.min(highlight.charEnd, content.length));
+  }
+  const points = Array.from(cuts).sort((a, b) => a - b);
+
+  const segments: TextSegment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    if (start === end) continue;
+    segments.push({
+      text: content.slice(start, end),
+      annotations: ranged.filter((a) => a.charStart! <= start && a.charEnd! >= end),
+      highlighted: !!highlight && highlight.charStart <= start && highlight.charEnd >= end,
+    });
+  }
+  return segments;
+}
+
+/** Character offset of a DOM position within `container`'s text content. */
+function textOffset(container: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.setStart(container, 0);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+export function DocumentPageText({
+  documentId,
+  initialPage,
+  annotations,
+  onAnnotateRange,
+  onSelectAnnotation,
+  highlightRange,
+}: DocumentPageTextProps) {
+  const textRef = useRef<HTMLDivElement>(null);
+  const highlightRef = useRef<HTMLElement | null>(null);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [selection, setSelection] = useState<TextSelection | null>(null);
+
+  const { data: pages, isLoading } = useQuery<PageText[]>({
+    queryKey: [`/api/documents/${documentId}/pages`],
+    staleTime: 600_000,
+  });
+
+  // Start on the requested page once the page list is known
+  useEffect(() => {
+    if (!pages || !initialPage) return;
+    const idx = pages.findIndex((p) => p.pageNumber === initialPage);
+    if (idx >= 0) setPageIndex(idx);
+  }, [pages, initialPage]);
+
+  useEffect(() => setSelection(null), [pageIndex]);
+
+  const page = pages?.[pageIndex];
+  const highlightStart = page && highlightRange?.pageNumber === page.pageNumber ? highlightRange.charStart : null;
+  const highlightEnd = highlightStart !== null ? highlightRange!.charEnd : null;
+  const segments = useMemo(
+    () => (page
+      ? segmentText(
+          page.content,
+          (annotations ?? []).filter((a) => a.pageNumber === page.pageNumber),
+          highlightStart !== null ? { charStart: highlightStart, charEnd: highlightEnd! } : undefined,
+        )
+      : []),
+    [page, annotations, highlightStart, highlightEnd],
+  );
+
+  const firstHighlighted = segments.findIndex((seg) => seg.highlighted);
+
+  useEffect(() => {
+    if (highlightStart !== null) highlightRef.current?.scrollIntoView({ block: "center" });
+  }, [page, highlightStart]);
+
+  const handleMouseUp = () => {
+    const container = textRef.current;
+    const sel = window.getSelection();
+    if (!container || !sel || sel.isCollapsed || sel.rangeCount === 0) {
+      setSelection(null);
+      return;
+    }
+    const range = sel.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) {
+      setSelection(null);
+      return;
+    }
+    const charStart = textOffset(container, range.startContainer, range.startOffset);
+    const charEnd = textOffset(container, range.endContainer, range.endOffset);
+    if (charEnd <= charStart) {
+      setSelection(null);
+      return;
+    }
+    setSelection({ charStart, charEnd, quote: page!.content.slice(charStart, charEnd) });
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  if (!pages || pages.length === 0 || !page) {
+    return (
+      <Card className="bg-muted/30">
+        <CardContent className="flex flex-col items-center gap-2 py-8">
+          <FileText className="w-8 h-8 text-muted-foreground/40" />
+          <p className="text-sm text-muted-foreground">No extracted text for this document yet.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="flex flex-col border rounded-lg overflow-hidden">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 bg-muted/50 border-b flex-wrap">
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setPageIndex((i) => i - 1)}
+            disabled={pageIndex <= 0}
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page.pageNumber} / {pages[pages.length - 1].pageNumber}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setPageIndex((i) => i + 1)}
+            disabled={pageIndex >= pages.length - 1}
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {page.pageType && (
+          <span className="text-[10px] px-2 py-0.5 rounded-full bg-muted text-muted-foreground capitalize whitespace-nowrap">
+            {page.pageType}
+          </span>
+        )}
+
+        {onAnnotateRange && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            disabled={!selection}
+            onClick={() => {
+              if (!selection) return;
+              onAnnotateRange(page.pageNumber, selection);
+              window.getSelection()?.removeAllRanges();
+              setSelection(null);
+            }}
+            data-testid="button-annotate-selection"
+          >
+            <Highlighter className="w-4 h-4" /> Annotate selection
+          </Button>
+        )}
+      </div>
+
+      <div className="max-h-[70vh] overflow-auto p-4">
+        <div
+          ref={textRef}
+          className="text-sm leading-relaxed whitespace-pre-wrap font-mono"
+          onMouseUp={onAnnotateRange ? handleMouseUp : undefined}
+          data-testid="text-page-content"
+        >
+          {segments.map((seg, i) =>
+            seg.highlighted ? (
+              <mark
+                key={i}
+                ref={i === firstHighlighted ? highlightRef : undefined}
+                className="bg-orange-300/60 dark:bg-orange-500/40 text-inherit rounded-sm ring-1 ring-orange-500/70"
+                data-testid="text-mention-highlight"
+              >
+                {seg.text}
+              </mark>
+            ) : seg.annotations.length > 0 ? (
+              <mark
+                key={i}
+                className="bg-yellow-300/50 dark:bg-yellow-500/30 text-inherit rounded-sm cursor-pointer"
+                title={seg.annotations.map((a) => a.note).filter(Boolean).join("\n") || undefined}
+                onClick={() => onSelectAnnotation?.(seg.annotations[0])}
+              >
+                {seg.text}
+              </mark>
+            ) : (
+              <span key={i}>{seg.text}</span>
+            ),
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
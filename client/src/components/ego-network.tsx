@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQueries, useQuery, type UseQueryResult } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { EgoNetwork } from "@shared/schema";
+import NetworkGraph from "@/components/network-graph";
+
+const EGO_STALE_TIME = 300_000;
+
+function egoUrl(personId: number, hops: number, minStrength: number): string {
+  return `/api/network/ego/${personId}?hops=${hops}&minStrength=${minStrength}`;
+}
+
+// Module-level so useQueries can memoize the combined result; the default queryFn leaves data untyped
+function combineExpansions(results: UseQueryResult<unknown>[]): EgoNetwork[] {
+  return results.flatMap((r) => (r.data ? [r.data as EgoNetwork] : []));
+}
+
+interface EgoNetworkPanelProps {
+  personId: number;
+}
+
+/**
+ * Subgraph around one person from /api/network/ego. Clicking a frontier node
+ * (dashed ring) pulls in its own neighbours; double-clicking opens a profile.
+ */
+export function EgoNetworkPanel({ personId }: EgoNetworkPanelProps) {
+  const [, navigate] = useLocation();
+  const [hops, setHops] = useState(2);
+  const [minStrength, setMinStrength] = useState(1);
+  const [expandedIds, setExpandedIds] = useState<number[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    setExpandedIds([]);
+    setSelectedId(null);
+  }, [personId, hops, minStrength]);
+
+  const { data: base, isLoading } = useQuery<EgoNetwork>({
+    queryKey: [egoUrl(personId, hops, minStrength)],
+    staleTime: EGO_STALE_TIME,
+  });
+
+  const expansions = useQueries({
+    queries: expandedIds.map((id) => ({
+      queryKey: [egoUrl(id, 1, minStrength)],
+      staleTime: EGO_STALE_TIME,
+    })),
+    combine: combineExpansions,
+  });
+
+  // Union of the base ego network and every expansion
+  const merged = useMemo(() => {
+    if (!base) return null;
+    const persons = new Map(base.persons.map((p) => [p.id, p]));
+    const connections = new Map(base.connections.map((c) => [c.id, c]));
+    for (const fragment of expansions) {
+      for (const p of fragment.persons) {
+        const existing = persons.get(p.id);
+        // A person's hidden count is smallest in the fragment that saw most of its neighbours
+        if (!existing || p.hiddenNeighborCount < existing.hiddenNeighborCount) {
+          persons.set(p.id, existing ? { ...existing, hiddenNeighborCount: p.hiddenNeighborCount } : p);
+        }
+      }
+      for (const c of fragment.connections) connections.set(c.id, c);
+    }
+    return { persons: Array.from(persons.values()), connections: Array.from(connections.values()) };
+  }, [base, expansions]);
+
+  const expandableIds = useMemo(() => {
+    const expanded = new Set(expandedIds);
+    return new Set(
+      (merged?.persons ?? [])
+        .filter((p) => p.hiddenNeighborCount > 0 && !expanded.has(p.id))
+        .map((p) => p.id),
+    );
+  }, [merged, expandedIds]);
+
+  const handleSelectPerson = useCallback((id: number | null) => {
+    if (id !== null && expandableIds.has(id)) {
+      setExpandedIds((prev) => [...prev, id]);
+    }
+    setSelectedId(id);
+  }, [expandableIds]);
+
+  const handleOpenProfile = useCallback((id: number | null) => {
+    if (id !== null && id !== personId && id > 0) navigate(`/people/${id}`);
+  }, [navigate, personId]);
+
+  return (
+    <div className="flex flex-col gap-2" data-testid="ego-network">
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="flex items-center gap-1.5">
+          <span className="text-xs text-muted-foreground">Hops</span>
+          <Select value={String(hops)} onValueChange={(v) => setHops(parseInt(v))}>
+            <SelectTrigger className="h-7 w-14 text-xs" data-testid="select-ego-hops">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[1, 2, 3].map((n) => (
+                <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <span className="text-xs text-muted-foreground">Min. strength</span>
+          <Select value={String(minStrength)} onValueChange={(v) => setMinStrength(parseInt(v))}>
+            <SelectTrigger className="h-7 w-14 text-xs" data-testid="select-ego-strength">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[1, 2, 3, 4, 5].map((n) => (
+                <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {expandedIds.length > 0 && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setExpandedIds([])}>
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Collapse
+          </Button>
+        )}
+        <span className="text-[11px] text-muted-foreground ml-auto">
+          {merged && `${merged.persons.length} people · ${merged.connections.length} connections`}
+          {base?.truncated && " (limited)"}
+        </span>
+      </div>
+      <div className="relative h-[420px]">
+        {isLoading || !merged ? (
+          <div className="h-full rounded-lg border border-border bg-card flex items-center justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <NetworkGraph
+            persons={merged.persons}
+            connections={merged.connections}
+            searchQuery=""
+            selectedPersonId={selectedId}
+            focusedNodeId={null}
+            onSelectPerson={handleSelectPerson}
+            onFocusNode={handleOpenProfile}
+            expandableNodeIds={expandableIds}
+          />
+        )}
+      </div>
+      <p className="text-[11px] text-muted-foreground">
+        Click a person with a dashed ring to expand their connections · double-click to open a profile.
+      </p>
+    </div>
+  );
+}
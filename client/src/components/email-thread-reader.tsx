@@ -0,0 +1,109 @@
+import { Link } from "wouter";
+import { MessagesSquare } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import type { EmailContact, EmailThread } from "@shared/schema";
+
+type ThreadEmail = EmailThread["emails"][number];
+
+export function documentEmailsUrl(documentId: number): string {
+  return `/api/documents/${documentId}/emails`;
+}
+
+function formatSentAt(email: ThreadEmail): string | null {
+  // Dates arrive as ISO strings over JSON
+  if (email.sentAt) return new Date(email.sentAt).toLocaleString();
+  return email.dateRaw;
+}
+
+function contactLabel(contact: EmailContact): string {
+  if (contact.name && contact.address) return `${contact.name} <${contact.address}>`;
+  return contact.name ?? contact.address;
+}
+
+function Contact({ contact }: { contact: EmailContact }) {
+  const label = contactLabel(contact);
+  if (contact.personId === null) return <span>{label}</span>;
+  return (
+    <Link href={`/people/${contact.personId}`} className="font-medium text-primary hover:underline">
+      {label}
+    </Link>
+  );
+}
+
+function ContactList({ label, contacts }: { label: string; contacts: EmailContact[] }) {
+  if (contacts.length === 0) return null;
+  return (
+    <div className="flex gap-1.5 text-xs text-muted-foreground min-w-0">
+      <span className="shrink-0 w-8">{label}</span>
+      <span className="flex flex-wrap gap-x-1.5 gap-y-0.5 min-w-0">
+        {contacts.map((c, i) => (
+          <span key={`${c.address}-${c.name}-${i}`}>
+            <Contact contact={c} />
+            {i < contacts.length - 1 && ","}
+          </span>
+        ))}
+      </span>
+    </div>
+  );
+}
+
+function EmailMessage({ email, documentId }: { email: ThreadEmail; documentId: number }) {
+  const sentAt = formatSentAt(email);
+  return (
+    <div className="flex flex-col gap-2" data-testid={`email-message-${email.id}`}>
+      <div className="flex items-start justify-between gap-2 flex-wrap">
+        <div className="flex flex-col gap-0.5 min-w-0">
+          <div className="text-sm min-w-0 truncate">
+            {email.sender ? <Contact contact={email.sender} /> : <span className="text-muted-foreground">Unknown sender</span>}
+          </div>
+          <ContactList label="To" contacts={email.recipients} />
+          <ContactList label="Cc" contacts={email.cc} />
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {email.documentId !== documentId && (
+            <Link href={`/documents/${email.documentId}`}>
+              <Badge variant="outline" className="text-[10px] cursor-pointer max-w-48 truncate">
+                In {email.documentTitle}
+              </Badge>
+            </Link>
+          )}
+          {sentAt && <span className="text-xs text-muted-foreground">{sentAt}</span>}
+        </div>
+      </div>
+      <p className="text-sm whitespace-pre-wrap leading-relaxed break-words">
+        {email.body || <span className="text-muted-foreground italic">No message body</span>}
+      </p>
+    </div>
+  );
+}
+
+/** Parsed messages of an email document, grouped into reply threads in sending order. */
+export function EmailThreadReader({ threads, documentId }: { threads: EmailThread[]; documentId: number }) {
+  return (
+    <div className="flex flex-col gap-3" data-testid="email-thread-reader">
+      {threads.map((thread) => (
+        <Card key={thread.threadId} data-testid="email-thread">
+          <CardContent className="p-4 flex flex-col gap-3">
+            <div className="flex items-center gap-2 min-w-0">
+              <MessagesSquare className="w-4 h-4 text-primary shrink-0" />
+              <h3 className="text-sm font-semibold truncate">{thread.subject || "(no subject)"}</h3>
+              {thread.messageCount > 1 && (
+                <Badge variant="secondary" className="text-[10px] shrink-0">
+                  {thread.messageCount} messages
+                </Badge>
+              )}
+            </div>
+            {thread.emails.map((email, i) => (
+              <div key={email.id} className="flex flex-col gap-3">
+                {i > 0 && <Separator />}
+                <EmailMessage email={email} documentId={documentId} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { AlertTriangle, FileText, GitMerge, Layers } from "lucide-react";
+import type { TimelineEventSourceDetail, TimelineEventSources } from "@shared/schema";
+
+function sourceHref(source: TimelineEventSourceDetail): string {
+  return source.pageNumber ? `/documents/${source.documentId}?page=${source.pageNumber}` : `/documents/${source.documentId}`;
+}
+
+function SourceItem({ source, showDate }: { source: TimelineEventSourceDetail; showDate: boolean }) {
+  return (
+    <li className="flex flex-col gap-1 rounded-md border p-2.5" data-testid={`event-source-${source.documentId}`}>
+      <div className="flex items-center gap-1.5 min-w-0">
+        <FileText className="w-3 h-3 text-muted-foreground shrink-0" />
+        <Link href={sourceHref(source)}>
+          <span className="text-xs font-medium text-primary hover:underline cursor-pointer truncate">
+            {source.documentTitle}
+          </span>
+        </Link>
+        {source.pageNumber && <span className="text-[11px] text-muted-foreground shrink-0">p. {source.pageNumber}</span>}
+      </div>
+      <div className="flex items-center gap-1.5 flex-wrap">
+        {source.dataSet && (
+          <Badge variant="secondary" className="text-[10px] px-1.5 py-0">DS {source.dataSet}</Badge>
+        )}
+        {showDate && source.dateOriginal && (
+          <Badge variant="outline" className="text-[10px] px-1.5 py-0 font-mono">{source.dateOriginal}</Badge>
+        )}
+      </div>
+      {source.excerpt ? (
+        <blockquote className="border-l-2 border-primary/40 pl-2 text-xs text-muted-foreground leading-relaxed">
+          {source.excerpt}
+        </blockquote>
+      ) : (
+        <p className="text-[11px] text-muted-foreground italic">No supporting passage found in the page text.</p>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Side drawer listing where a timeline event comes from: each source document
+ * with its supporting page and excerpt, the corroboration score, dates that
+ * disagree, and events merged in as duplicates.
+ */
+export function EventSourcesDrawer({ eventId, onClose }: { eventId: number | null; onClose: () => void }) {
+  const { data, isLoading } = useQuery<TimelineEventSources>({
+    queryKey: [`/api/timeline/${eventId}/sources`],
+    enabled: eventId !== null,
+  });
+  const event = data?.event;
+  const dates = new Set(data?.sources.map((s) => s.dateOriginal));
+
+  return (
+    <Sheet open={eventId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-base leading-tight pr-6">{event?.title ?? "Sources"}</SheetTitle>
+          <SheetDescription className="font-mono text-xs">{event ? event.dateOriginal ?? event.date : ""}</SheetDescription>
+        </SheetHeader>
+
+        {isLoading || !data || !event ? (
+          <div className="flex flex-col gap-2 mt-4">
+            {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-20 w-full" />)}
+          </div>
+        ) : (
+          <div className="flex flex-col gap-4 mt-4">
+            <div className="flex items-center gap-1.5 flex-wrap">
+              <Badge variant="secondary" className="gap-1 text-[11px]" data-testid="badge-event-corroboration">
+                <Layers className="w-3 h-3" />
+                {event.corroboration} data set{event.corroboration !== 1 ? "s" : ""}
+              </Badge>
+              <Badge variant="secondary" className="text-[11px]">
+                {data.sources.length} source{data.sources.length !== 1 ? "s" : ""}
+              </Badge>
+            </div>
+
+            {event.sourcesDisagree && (
+              <div className="flex items-start gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 p-2.5 text-xs">
+                <AlertTriangle className="w-3.5 h-3.5 text-amber-600 shrink-0 mt-0.5" />
+                <span>Sources disagree on the date; each source's date is shown below.</span>
+              </div>
+            )}
+
+            {event.mergedFrom && event.mergedFrom.length > 0 && (
+              <div>
+                <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-1.5 flex items-center gap-1.5">
+                  <GitMerge className="w-3 h-3" /> Merged duplicates
+                </h3>
+                <ul className="flex flex-col gap-1">
+                  {event.mergedFrom.map((m) => (
+                    <li key={m.id} className="flex gap-2 text-xs">
+                      <span className="font-mono text-muted-foreground shrink-0">{m.dateOriginal ?? m.date}</span>
+                      <span className="min-w-0">{m.title}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {data.sources.length > 0 ? (
+              <ul className="flex flex-col gap-2">
+                {data.sources.map((source) => (
+                  <SourceItem key={source.documentId} source={source} showDate={dates.size > 1} />
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No source documents are linked to this event.</p>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
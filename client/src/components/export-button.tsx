@@ -6,33 +6,43 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Download, FileSpreadsheet, FileJson, Loader2 } from "lucide-react";
+import { Download, FileSpreadsheet, FileJson, Loader2, NotebookText } from "lucide-react";
+
+type ExportFormat = "csv" | "json" | "obsidian";
 
 interface ExportButtonProps {
   endpoint: string;
   filename: string;
   label?: string;
+  /** Also offer an Obsidian vault (.tar.gz) — only for endpoints that support format=obsidian */
+  obsidian?: boolean;
 }
 
-async function triggerDownload(endpoint: string, format: "csv" | "json", filename: string) {
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: "csv",
+  json: "json",
+  obsidian: "tar.gz",
+};
+
+async function triggerDownload(endpoint: string, format: ExportFormat, filename: string) {
   const separator = endpoint.includes("?") ? "&" : "?";
   const url = `${endpoint}${separator}format=${format}`;
-  const res = await fetch(url);
+  const res = await fetch(url, { credentials: "include" });
   if (!res.ok) throw new Error("Export failed");
   const blob = await res.blob();
   const a = document.createElement("a");
   a.href = URL.createObjectURL(blob);
-  a.download = `${filename}.${format}`;
+  a.download = `${filename}.${FILE_EXTENSIONS[format]}`;
   document.body.appendChild(a);
   a.click();
   a.remove();
   URL.revokeObjectURL(a.href);
 }
 
-export function ExportButton({ endpoint, filename, label = "Export" }: ExportButtonProps) {
+export function ExportButton({ endpoint, filename, label = "Export", obsidian }: ExportButtonProps) {
   const [isExporting, setIsExporting] = useState(false);
 
-  async function handleExport(format: "csv" | "json") {
+  async function handleExport(format: ExportFormat) {
     setIsExporting(true);
     try {
       await triggerDownload(endpoint, format, filename);
@@ -66,6 +76,15 @@ export function ExportButton({ endpoint, filename, label = "Export" }: ExportBut
           <FileJson className="w-4 h-4" />
           Export JSON
         </DropdownMenuItem>
+        {obsidian && (
+          <DropdownMenuItem
+            className="cursor-pointer gap-2"
+            onClick={() => handleExport("obsidian")}
+          >
+            <NotebookText className="w-4 h-4" />
+            Export Obsidian vault
+          </DropdownMenuItem>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   );
@@ -0,0 +1,164 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { scaleSqrt } from "d3-scale";
+import { select } from "d3-selection";
+import { zoom, zoomIdentity, type ZoomBehavior, type ZoomTransform } from "d3-zoom";
+import { Maximize2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { LocationDensity } from "@shared/schema";
+
+// Equirectangular projection onto a 2:1 viewBox; the poles are cropped
+const WIDTH = 960;
+const HEIGHT = 480;
+const MIN_RADIUS = 3;
+const MAX_RADIUS = 26;
+const LABEL_LIMIT = 12;
+
+export const KIND_COLORS: Record<string, string> = {
+  site: "#e11d48",
+  city: "#2563eb",
+  region: "#d97706",
+  country: "#16a34a",
+};
+
+function project(lat: number, lon: number): [number, number] {
+  return [((lon + 180) / 360) * WIDTH, ((90 - lat) / 180) * HEIGHT];
+}
+
+const GRATICULE = (() => {
+  const lines: { key: string; x1: number; y1: number; x2: number; y2: number; major: boolean }[] = [];
+  for (let lon = -180; lon <= 180; lon += 30) {
+    const [x] = project(0, lon);
+    lines.push({ key: `lon${lon}`, x1: x, y1: 0, x2: x, y2: HEIGHT, major: lon === 0 });
+  }
+  for (let lat = -60; lat <= 60; lat += 30) {
+    const [, y] = project(lat, 0);
+    lines.push({ key: `lat${lat}`, x1: 0, y1: y, x2: WIDTH, y2: y, major: lat === 0 });
+  }
+  return lines;
+})();
+
+interface LocationMapProps {
+  locations: LocationDensity[];
+  selectedId: number | null;
+  onSelect: (id: number | null) => void;
+}
+
+/**
+ * Places as circles sized by document count on a zoomable world grid.
+ * Circles and labels keep their screen size while zooming.
+ */
+export function LocationMap({ locations, selectedId, onSelect }: LocationMapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const zoomRef = useRef<ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const [transform, setTransform] = useState<ZoomTransform>(zoomIdentity);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const behavior = zoom<SVGSVGElement, unknown>()
+      .scaleExtent([1, 60])
+      .translateExtent([[0, 0], [WIDTH, HEIGHT]])
+      .on("zoom", (event) => setTransform(event.transform));
+    zoomRef.current = behavior;
+    const svg = select(svgRef.current);
+    svg.call(behavior);
+    return () => {
+      svg.on(".zoom", null);
+    };
+  }, []);
+
+  const radius = useMemo(() => {
+    const max = Math.max(1, ...locations.map((l) => l.documentCount));
+    return scaleSqrt().domain([0, max]).range([MIN_RADIUS, MAX_RADIUS]);
+  }, [locations]);
+
+  // Largest circles are drawn first so small places on top stay clickable
+  const drawn = useMemo(
+    () => [...locations].sort((a, b) => b.documentCount - a.documentCount),
+    [locations],
+  );
+  const labelled = new Set(drawn.slice(0, LABEL_LIMIT).map((l) => l.id));
+  if (selectedId !== null) labelled.add(selectedId);
+
+  const k = transform.k;
+  const resetZoom = () => {
+    if (svgRef.current && zoomRef.current) select(svgRef.current).call(zoomRef.current.transform, zoomIdentity);
+  };
+
+  return (
+    <div className="relative w-full">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto rounded-md border bg-muted/30 cursor-grab active:cursor-grabbing"
+        onClick={(e) => {
+          if (e.target === svgRef.current) onSelect(null);
+        }}
+        data-testid="location-map"
+      >
+        <g transform={transform.toString()}>
+          {GRATICULE.map((line) => (
+            <line
+              key={line.key}
+              x1={line.x1}
+              y1={line.y1}
+              x2={line.x2}
+              y2={line.y2}
+              stroke="currentColor"
+              strokeOpacity={line.major ? 0.25 : 0.1}
+              strokeWidth={1 / k}
+              className="text-muted-foreground pointer-events-none"
+            />
+          ))}
+          {drawn.map((location) => {
+            const [x, y] = project(location.latitude, location.longitude);
+            const selected = location.id === selectedId;
+            return (
+              <circle
+                key={location.id}
+                cx={x}
+                cy={y}
+                r={radius(location.documentCount) / Math.sqrt(k)}
+                fill={KIND_COLORS[location.kind] ?? "#64748b"}
+                fillOpacity={selected ? 0.9 : 0.55}
+                stroke={selected ? "hsl(var(--foreground))" : "white"}
+                strokeWidth={(selected ? 2 : 0.75) / k}
+                className="cursor-pointer"
+                onClick={() => onSelect(selected ? null : location.id)}
+                data-testid={`location-dot-${location.id}`}
+              >
+                <title>{`${location.name} — ${location.documentCount.toLocaleString()} documents`}</title>
+              </circle>
+            );
+          })}
+          {drawn.filter((l) => labelled.has(l.id)).map((location) => {
+            const [x, y] = project(location.latitude, location.longitude);
+            return (
+              <text
+                key={`label-${location.id}`}
+                x={x + (radius(location.documentCount) / Math.sqrt(k) + 2 / k)}
+                y={y}
+                dominantBaseline="middle"
+                fontSize={11 / k}
+                className="fill-foreground pointer-events-none select-none"
+                style={{ paintOrder: "stroke", stroke: "hsl(var(--background))", strokeWidth: 3 / k }}
+              >
+                {location.name}
+              </text>
+            );
+          })}
+        </g>
+      </svg>
+      {k > 1 && (
+        <Button
+          variant="outline"
+          size="icon"
+          className="absolute top-2 right-2 h-7 w-7"
+          onClick={resetZoom}
+          aria-label="Reset zoom"
+        >
+          <Maximize2 className="w-3.5 h-3.5" />
+        </Button>
+      )}
+    </div>
+  );
+}
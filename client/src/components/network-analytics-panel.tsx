@@ -0,0 +1,152 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarChart3, Waypoints } from "lucide-react";
+import type { NetworkAnalytics, NetworkNodeMetrics } from "@shared/schema";
+import { getCommunityColor } from "@/components/network-graph";
+
+export type NodeSizeMetric = "connections" | "degree" | "betweenness" | "eigenvector";
+export type NodeColorMode = "category" | "community";
+
+export const NODE_SIZE_LABELS: Record<NodeSizeMetric, string> = {
+  connections: "Visible connections",
+  degree: "Degree",
+  betweenness: "Betweenness",
+  eigenvector: "Eigenvector",
+};
+
+/** Value of a centrality metric for a node; "connections" is computed client-side from the filtered graph. */
+export function metricValue(node: NetworkNodeMetrics, metric: Exclude<NodeSizeMetric, "connections">): number {
+  if (metric === "degree") return node.degreeCentrality;
+  return node[metric];
+}
+
+function formatScore(value: number): string {
+  return value >= 0.01 ? value.toFixed(2) : value.toExponential(1);
+}
+
+interface AnalyticsDisplayControlsProps {
+  sizeBy: NodeSizeMetric;
+  onSizeByChange: (metric: NodeSizeMetric) => void;
+  colorBy: NodeColorMode;
+  onColorByChange: (mode: NodeColorMode) => void;
+  showBrokers: boolean;
+  onShowBrokersChange: (show: boolean) => void;
+}
+
+/** Size/colour pickers for the network graph plus the "Top brokers" toggle. */
+export function AnalyticsDisplayControls({
+  sizeBy,
+  onSizeByChange,
+  colorBy,
+  onColorByChange,
+  showBrokers,
+  onShowBrokersChange,
+}: AnalyticsDisplayControlsProps) {
+  return (
+    <div className="flex flex-col gap-2" data-testid="network-analytics-controls">
+      <Label className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground flex items-center gap-1.5">
+        <BarChart3 className="w-3 h-3" />
+        Centrality
+      </Label>
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="flex items-center gap-1.5">
+          <span className="text-xs text-muted-foreground">Size by</span>
+          <Select value={sizeBy} onValueChange={(v) => onSizeByChange(v as NodeSizeMetric)}>
+            <SelectTrigger className="h-7 w-40 text-xs" data-testid="select-size-by">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(NODE_SIZE_LABELS) as NodeSizeMetric[]).map((metric) => (
+                <SelectItem key={metric} value={metric}>{NODE_SIZE_LABELS[metric]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <span className="text-xs text-muted-foreground">Color by</span>
+          <Select value={colorBy} onValueChange={(v) => onColorByChange(v as NodeColorMode)}>
+            <SelectTrigger className="h-7 w-32 text-xs" data-testid="select-color-by">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="category">Category</SelectItem>
+              <SelectItem value="community">Community</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          variant={showBrokers ? "secondary" : "outline"}
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => onShowBrokersChange(!showBrokers)}
+          data-testid="button-top-brokers"
+        >
+          <Waypoints className="w-3 h-3 mr-1" />
+          Top brokers
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface BrokerRankingProps {
+  analytics: NetworkAnalytics | undefined;
+  isLoading: boolean;
+  onSelectNode: (node: NetworkNodeMetrics) => void;
+}
+
+/** Nodes that link separate communities, ranked by betweenness. */
+export function BrokerRanking({ analytics, isLoading, onSelectNode }: BrokerRankingProps) {
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading network analytics...</p>;
+  }
+  if (!analytics) return null;
+  if (!analytics.computedAt) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Network analytics have not been computed yet; they appear after the network-analytics pipeline stage runs.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2" data-testid="network-broker-ranking">
+      <div className="flex flex-col gap-0.5">
+        <h4 className="text-xs font-semibold">Top brokers</h4>
+        <p className="text-[10px] text-muted-foreground">
+          People who sit on the most shortest paths and link {analytics.communities.length} detected communities.
+          {` Computed ${new Date(analytics.computedAt).toLocaleDateString()}.`}
+        </p>
+      </div>
+      {analytics.bridges.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No bridges between communities found.</p>
+      ) : (
+        analytics.bridges.map((node, index) => (
+          <div
+            key={`${node.nodeType}-${node.nodeId}`}
+            className="flex items-center gap-2 p-2 rounded-md hover:bg-accent/50 cursor-pointer transition-colors"
+            onClick={() => onSelectNode(node)}
+            data-testid={`network-broker-${node.nodeType}-${node.nodeId}`}
+          >
+            <span className="text-[10px] text-muted-foreground w-4 shrink-0 tabular-nums">{index + 1}</span>
+            <span
+              className={`w-2 h-2 shrink-0 ${node.nodeType === "entity" ? "rounded-[1px]" : "rounded-full"}`}
+              style={{ backgroundColor: getCommunityColor(node.communityId) }}
+            />
+            <div className="flex flex-col min-w-0 flex-1">
+              <span className="text-xs truncate">{node.name}</span>
+              <span className="text-[10px] text-muted-foreground">
+                links {node.bridgeCommunities + 1} communities · {node.degree} ties
+              </span>
+            </div>
+            <Badge variant="secondary" className="text-[9px] shrink-0 tabular-nums" title="Betweenness centrality">
+              {formatScore(node.betweenness)}
+            </Badge>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
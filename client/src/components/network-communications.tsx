@@ -0,0 +1,415 @@
+import { useState, useMemo, useCallback, type ComponentProps } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, ArrowRight, ChevronRight, Loader2, Mail, Search, Send, Users, X } from "lucide-react";
+import type { CommunicationEdge, CommunicationGraph, CommunicationPerson, EmailSummary } from "@shared/schema";
+import NetworkGraph from "@/components/network-graph";
+
+type EdgeRef = Pick<CommunicationEdge, "fromPersonId" | "toPersonId">;
+
+interface TimelinePage {
+  data: EmailSummary[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+const MIN_MESSAGE_OPTIONS = [1, 2, 5, 10, 25];
+const TIMELINE_LIMIT = 100;
+const MOBILE_EDGE_LIMIT = 50;
+// Stable empty prop so the graph does not re-run its layout on every render
+const NO_CONNECTIONS: ComponentProps<typeof NetworkGraph>["connections"] = [];
+
+// Dates arrive as ISO strings over JSON
+function formatDate(value: Date | string | null): string | null {
+  return value ? new Date(value).toLocaleDateString() : null;
+}
+
+function formatDateRange(edge: CommunicationEdge): string | null {
+  const first = formatDate(edge.firstSentAt);
+  const last = formatDate(edge.lastSentAt);
+  if (!first || !last) return first ?? last;
+  return first === last ? first : `${first} – ${last}`;
+}
+
+function communicationsUrl(opts: { minMessages: number; dataSet: string; includeCc: boolean }): string {
+  const params = new URLSearchParams();
+  if (opts.minMessages > 1) params.set("minMessages", String(opts.minMessages));
+  if (opts.dataSet !== "all") params.set("dataSet", opts.dataSet);
+  if (!opts.includeCc) params.set("includeCc", "false");
+  const query = params.toString();
+  return query ? `/api/network/communications?${query}` : "/api/network/communications";
+}
+
+interface CommunicationTimelineProps {
+  edge: CommunicationEdge;
+  /** The opposite direction, when the recipient also wrote back */
+  reverse: CommunicationEdge | undefined;
+  personById: Map<number, CommunicationPerson>;
+  includeCc: boolean;
+  onClose?: () => void;
+}
+
+/** Messages exchanged between the two persons of a communication edge, oldest first. */
+export function CommunicationTimeline({ edge, reverse, personById, includeCc, onClose }: CommunicationTimelineProps) {
+  const from = personById.get(edge.fromPersonId);
+  const to = personById.get(edge.toPersonId);
+  const params = new URLSearchParams({ limit: String(TIMELINE_LIMIT) });
+  if (!includeCc) params.set("includeCc", "false");
+  const url = `/api/network/communications/${edge.fromPersonId}/${edge.toPersonId}?${params}`;
+
+  const { data, isLoading } = useQuery<TimelinePage>({
+    queryKey: [url],
+    staleTime: 300_000,
+  });
+
+  const range = formatDateRange(edge);
+
+  return (
+    <div className="flex flex-col gap-3" data-testid="communication-timeline">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex flex-col gap-1 min-w-0">
+          <div className="flex items-center gap-1.5 text-sm font-semibold min-w-0">
+            <Link href={`/people/${edge.fromPersonId}`} className="truncate hover:underline">{from?.name}</Link>
+            <ArrowRight className="w-3.5 h-3.5 text-primary shrink-0" />
+            <Link href={`/people/${edge.toPersonId}`} className="truncate hover:underline">{to?.name}</Link>
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            {edge.messageCount} sent{reverse ? `, ${reverse.messageCount} back` : ""}
+            {range && ` · ${range}`}
+          </p>
+        </div>
+        {onClose && (
+          <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={onClose} data-testid="button-close-timeline">
+            <X className="w-3.5 h-3.5" />
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          Loading messages...
+        </div>
+      ) : data && (
+        <div className="flex flex-col border-l border-border ml-1.5">
+          {data.data.map((email) => {
+            const outgoing = email.sender?.personId === edge.fromPersonId;
+            const sentAt = formatDate(email.sentAt) ?? email.dateRaw;
+            return (
+              <Link key={email.id} href={`/documents/${email.documentId}`}>
+                <div
+                  className="relative flex flex-col gap-0.5 pl-4 py-2 pr-1 rounded-r-md hover:bg-accent/50 cursor-pointer transition-colors"
+                  data-testid={`timeline-email-${email.id}`}
+                >
+                  <span className={`absolute -left-1.5 top-3 w-3 h-3 rounded-full border-2 border-card ${outgoing ? "bg-primary" : "bg-muted-foreground"}`} />
+                  <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+                    {outgoing ? <ArrowRight className="w-3 h-3" /> : <ArrowLeft className="w-3 h-3" />}
+                    <span>{sentAt ?? "Undated"}</span>
+                  </div>
+                  <span className="text-xs font-medium truncate">{email.subject || "(no subject)"}</span>
+                  {email.preview && (
+                    <span className="text-[10px] text-muted-foreground line-clamp-2">{email.preview}</span>
+                  )}
+                </div>
+              </Link>
+            );
+          })}
+          {data.total > data.data.length && (
+            <p className="pl-4 pt-1 text-[10px] text-muted-foreground">
+              Showing the first {data.data.length} of {data.total} messages.
+            </p>
+          )}
+          {data.total === 0 && (
+            <p className="pl-4 text-xs text-muted-foreground">No messages found.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Directed sender → recipient graph from parsed emails, with a message timeline per clicked edge. */
+export function CommunicationsView() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [minMessages, setMinMessages] = useState(1);
+  const [dataSet, setDataSet] = useState("all");
+  const [includeCc, setIncludeCc] = useState(true);
+  const [selectedPerson, setSelectedPerson] = useState<number | null>(null);
+  const [focusedNode, setFocusedNode] = useState<number | null>(null);
+  const [selectedEdge, setSelectedEdge] = useState<EdgeRef | null>(null);
+  const [graphReady, setGraphReady] = useState(false);
+
+  const url = communicationsUrl({ minMessages, dataSet, includeCc });
+  const { data, isLoading } = useQuery<CommunicationGraph>({
+    queryKey: [url],
+    staleTime: 300_000,
+  });
+
+  const { data: filters } = useQuery<{ types: string[]; dataSets: string[]; mediaTypes: string[] }>({
+    queryKey: ["/api/documents/filters"],
+    staleTime: 600_000,
+  });
+
+  const personById = useMemo(() => new Map((data?.persons ?? []).map((p) => [p.id, p])), [data]);
+  const edgeByKey = useMemo(
+    () => new Map((data?.edges ?? []).map((e) => [`${e.fromPersonId}>${e.toPersonId}`, e])),
+    [data],
+  );
+  const totalMessages = useMemo(() => (data?.edges ?? []).reduce((sum, e) => sum + e.messageCount, 0), [data]);
+
+  const activeEdge = selectedEdge ? edgeByKey.get(`${selectedEdge.fromPersonId}>${selectedEdge.toPersonId}`) : undefined;
+  const reverseEdge = activeEdge ? edgeByKey.get(`${activeEdge.toPersonId}>${activeEdge.fromPersonId}`) : undefined;
+
+  const resetGraph = () => {
+    setGraphReady(false);
+    setSelectedEdge(null);
+    setSelectedPerson(null);
+    setFocusedNode(null);
+  };
+
+  const handleSelectEdge = useCallback((edge: CommunicationEdge) => {
+    setSelectedPerson(null);
+    setSelectedEdge({ fromPersonId: edge.fromPersonId, toPersonId: edge.toPersonId });
+  }, []);
+
+  const handleSelectPerson = useCallback((id: number | null) => {
+    setSelectedPerson(id);
+    if (id !== null) setSelectedEdge(null);
+  }, []);
+
+  const handleGraphReady = useCallback(() => setGraphReady(true), []);
+
+  const mobileEdges = useMemo(() => {
+    const q = searchQuery.trim().toLowerCase();
+    return (data?.edges ?? [])
+      .filter((e) => {
+        if (!q) return true;
+        return [e.fromPersonId, e.toPersonId].some((id) => personById.get(id)?.name.toLowerCase().includes(q));
+      })
+      .slice(0, MOBILE_EDGE_LIMIT);
+  }, [data, searchQuery, personById]);
+
+  const controls = (
+    <div className="flex items-center gap-3 flex-wrap" data-testid="communications-controls">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+        <Input
+          type="search"
+          placeholder="Search by name..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-8 h-8 w-48 text-sm"
+          data-testid="input-communications-search"
+        />
+      </div>
+      <div className="flex items-center gap-1.5">
+        <span className="text-xs text-muted-foreground">Data set</span>
+        <Select value={dataSet} onValueChange={(v) => { setDataSet(v); resetGraph(); }}>
+          <SelectTrigger className="h-8 w-32 text-xs" data-testid="select-communications-data-set">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All data sets</SelectItem>
+            {(filters?.dataSets ?? []).map((ds) => (
+              <SelectItem key={ds} value={ds}>Data set {ds}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center gap-1.5">
+        <span className="text-xs text-muted-foreground">Min. messages</span>
+        <Select value={String(minMessages)} onValueChange={(v) => { setMinMessages(parseInt(v)); resetGraph(); }}>
+          <SelectTrigger className="h-8 w-20 text-xs" data-testid="select-communications-min-messages">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MIN_MESSAGE_OPTIONS.map((n) => (
+              <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center gap-1.5">
+        <Checkbox
+          id="communications-include-cc"
+          checked={includeCc}
+          onCheckedChange={(checked) => { setIncludeCc(checked === true); resetGraph(); }}
+          data-testid="checkbox-communications-cc"
+        />
+        <Label htmlFor="communications-include-cc" className="text-xs cursor-pointer">Include Cc</Label>
+      </div>
+    </div>
+  );
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex flex-col gap-3 flex-1">
+        {controls}
+        <div className="flex-1 min-h-[500px] w-full rounded-lg border border-border bg-card flex items-center justify-center">
+          <div className="flex flex-col items-center gap-3">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            <span className="text-sm text-muted-foreground">Loading email communications...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 flex-1">
+      {controls}
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <Badge variant="secondary" className="gap-1.5 text-xs font-normal">
+          <Users className="w-3 h-3" />
+          {data.persons.length} People
+        </Badge>
+        <Badge variant="secondary" className="gap-1.5 text-xs font-normal">
+          <Send className="w-3 h-3" />
+          {data.edges.length} Sender → recipient links
+        </Badge>
+        <Badge variant="secondary" className="gap-1.5 text-xs font-normal">
+          <Mail className="w-3 h-3" />
+          {totalMessages} Messages
+        </Badge>
+      </div>
+
+      {data.edges.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 gap-3 border border-border rounded-lg bg-card">
+          <Mail className="w-10 h-10 text-muted-foreground/40" />
+          <p className="text-sm text-muted-foreground">No emails between linked persons match these filters.</p>
+        </div>
+      ) : (
+        <>
+          {/* Desktop: graph + timeline sidebar */}
+          <div className="hidden md:flex flex-1 gap-4 min-h-[500px]">
+            <div className="flex-1 relative min-w-0">
+              {!graphReady && (
+                <div className="absolute inset-0 z-10 flex items-center justify-center bg-background/60 rounded-lg">
+                  <div className="flex flex-col items-center gap-3">
+                    <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                    <span className="text-sm text-muted-foreground">Computing layout...</span>
+                  </div>
+                </div>
+              )}
+              <NetworkGraph
+                persons={data.persons}
+                connections={NO_CONNECTIONS}
+                communications={data.edges}
+                selectedCommunication={selectedEdge}
+                onSelectCommunication={handleSelectEdge}
+                searchQuery={searchQuery}
+                selectedPersonId={selectedPerson}
+                focusedNodeId={focusedNode}
+                onSelectPerson={handleSelectPerson}
+                onFocusNode={setFocusedNode}
+                onReady={handleGraphReady}
+              />
+            </div>
+            <div className="w-80 shrink-0 border border-border rounded-lg bg-card p-4 overflow-y-auto max-h-[calc(100vh-260px)]">
+              {activeEdge ? (
+                <CommunicationTimeline
+                  edge={activeEdge}
+                  reverse={reverseEdge}
+                  personById={personById}
+                  includeCc={includeCc}
+                  onClose={() => setSelectedEdge(null)}
+                />
+              ) : selectedPerson !== null && personById.has(selectedPerson) ? (
+                <CorrespondentList
+                  person={personById.get(selectedPerson)!}
+                  edges={data.edges}
+                  personById={personById}
+                  onSelectEdge={handleSelectEdge}
+                />
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Arrows point from sender to recipient and grow with the number of messages. Click an arrow to read the
+                  messages between two people, or a person to list their correspondents.
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Mobile: heaviest links as a list */}
+          <div className="flex flex-col gap-2 md:hidden">
+            {mobileEdges.map((edge) => {
+              const key = `${edge.fromPersonId}>${edge.toPersonId}`;
+              const isExpanded = activeEdge === edge;
+              return (
+                <div key={key} className="border border-border rounded-lg bg-card">
+                  <div
+                    className="flex items-center gap-2 p-3 cursor-pointer"
+                    onClick={() => (isExpanded ? setSelectedEdge(null) : handleSelectEdge(edge))}
+                    data-testid={`communication-edge-${key}`}
+                  >
+                    <span className="text-sm truncate">{personById.get(edge.fromPersonId)?.name}</span>
+                    <ArrowRight className="w-3.5 h-3.5 text-primary shrink-0" />
+                    <span className="text-sm truncate flex-1">{personById.get(edge.toPersonId)?.name}</span>
+                    <Badge variant="secondary" className="text-[10px] shrink-0">{edge.messageCount}</Badge>
+                    <ChevronRight className={`w-4 h-4 text-muted-foreground transition-transform ${isExpanded ? "rotate-90" : ""}`} />
+                  </div>
+                  {isExpanded && (
+                    <div className="border-t border-border p-3">
+                      <CommunicationTimeline
+                        edge={edge}
+                        reverse={reverseEdge}
+                        personById={personById}
+                        includeCc={includeCc}
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface CorrespondentListProps {
+  person: CommunicationPerson;
+  edges: CommunicationEdge[];
+  personById: Map<number, CommunicationPerson>;
+  onSelectEdge: (edge: CommunicationEdge) => void;
+}
+
+function CorrespondentList({ person, edges, personById, onSelectEdge }: CorrespondentListProps) {
+  const personEdges = edges.filter((e) => e.fromPersonId === person.id || e.toPersonId === person.id);
+  return (
+    <div className="flex flex-col gap-3" data-testid="communication-correspondents">
+      <div className="flex flex-col gap-0.5">
+        <Link href={`/people/${person.id}`} className="text-sm font-semibold hover:underline">{person.name}</Link>
+        <p className="text-[10px] text-muted-foreground">
+          {person.sentCount} sent · {person.receivedCount} received
+        </p>
+      </div>
+      <div className="flex flex-col gap-1">
+        {personEdges.map((edge) => {
+          const outgoing = edge.fromPersonId === person.id;
+          const other = personById.get(outgoing ? edge.toPersonId : edge.fromPersonId);
+          return (
+            <div
+              key={`${edge.fromPersonId}>${edge.toPersonId}`}
+              className="flex items-center gap-2 p-2 rounded-md hover:bg-accent/50 cursor-pointer transition-colors"
+              onClick={() => onSelectEdge(edge)}
+            >
+              {outgoing ? <ArrowRight className="w-3 h-3 text-primary shrink-0" /> : <ArrowLeft className="w-3 h-3 text-muted-foreground shrink-0" />}
+              <span className="text-xs truncate flex-1">{other?.name}</span>
+              <Badge variant="secondary" className="text-[9px] shrink-0">{edge.messageCount}</Badge>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -10,20 +10,28 @@ import {
 } from "d3-force";
 import { scaleLinear } from "d3-scale";
 import { quadtree, type Quadtree } from "d3-quadtree";
-import type { Connection } from "@shared/schema";
+import type { CommunicationEdge, Connection, EntityConnectionDetail } from "@shared/schema";
 
 export interface GraphNode extends SimulationNodeDatum {
   id: number;
+  kind: "person" | "entity";
   name: string;
   category: string;
   connectionCount: number;
 }
 
+// Entity nodes share the graph with persons, so their IDs are negated to avoid collisions
+function entityNodeId(entityId: number): number {
+  return -entityId;
+}
+
 export interface GraphLink extends SimulationLinkDatum<GraphNode> {
   id: number;
   connectionType: string;
   description: string | null;
   strength: number;
+  /** Set on directed email links from the `communications` prop */
+  communication?: CommunicationEdge;
 }
 
 // --- Dynamic color helpers ---
@@ -46,6 +54,12 @@ export function getCategoryColor(cat: string): string {
   return `hsl(${h}, 50%, 65%)`;
 }
 
+// Golden-angle hue steps keep neighbouring community IDs visually distinct
+export function getCommunityColor(communityId: number): string {
+  const h = Math.round((communityId * 137.508) % 360);
+  return `hsl(${h}, 65%, 52%)`;
+}
+
 const KNOWN_EDGE_COLORS: Record<string, string> = {
   "business associate": "hsl(221, 83%, 53%)",
   "social connection": "hsl(173, 58%, 39%)",
@@ -75,23 +89,98 @@ function hslToCanvasColor(hsl: string, alpha = 1): string {
 interface NetworkGraphProps {
   persons: { id: number; name: string; category: string }[];
   connections: (Connection & { person1Name: string; person2Name: string })[];
+  entities?: { id: number; name: string; entityType: string }[];
+  entityConnections?: EntityConnectionDetail[];
   searchQuery: string;
   selectedPersonId: number | null;
   focusedNodeId: number | null;
   onSelectPerson: (id: number | null) => void;
   onFocusNode: (id: number | null) => void;
+  onSelectEntity?: (id: number) => void;
   onReady?: () => void;
+  /** Person ID sequences to highlight, e.g. paths between two persons */
+  highlightedPaths?: number[][];
+  /** Relative node size (0..1) by graph node ID; sized by connection count when omitted */
+  nodeSizes?: Map<number, number>;
+  /** Fill colour by graph node ID, overriding the category colour */
+  nodeColors?: Map<number, string>;
+  /** Replaces the category legend when nodes are coloured by something else */
+  colorLegend?: { title: string; items: { label: string; color: string }[] };
+  /** Nodes with more neighbours outside the graph, drawn with a dashed ring */
+  expandableNodeIds?: Set<number>;
+  /** Directed sender → recipient links drawn with arrowheads, thicker for more messages */
+  communications?: CommunicationEdge[];
+  selectedCommunication?: Pick<CommunicationEdge, "fromPersonId" | "toPersonId"> | null;
+  /** Makes communication links clickable */
+  onSelectCommunication?: (edge: CommunicationEdge) => void;
+}
+
+const NO_ENTITIES: NonNullable<NetworkGraphProps["entities"]> = [];
+const NO_ENTITY_CONNECTIONS: EntityConnectionDetail[] = [];
+const NO_PATHS: number[][] = [];
+const NO_COMMUNICATIONS: CommunicationEdge[] = [];
+const PATH_COLOR = "hsl(48, 100%, 50%)";
+const COMMUNICATION_COLOR = "hsl(221, 83%, 53%)";
+const MIN_RADIUS = 5;
+const MAX_RADIUS = 24;
+// Directed links are shifted to their right-hand side so A → B and B → A stay apart
+const DIRECTED_OFFSET = 3;
+
+function pairKey(a: number, b: number): string {
+  return a < b ? `${a}-${b}` : `${b}-${a}`;
+}
+
+function communicationKey(edge: Pick<CommunicationEdge, "fromPersonId" | "toPersonId">): string {
+  return `${edge.fromPersonId}>${edge.toPersonId}`;
+}
+
+/** A directed link's line, offset sideways and trimmed to the node rims, with its unit direction. */
+function directedSegment(src: GraphNode, tgt: GraphNode, srcRadius: number, tgtRadius: number) {
+  const sx = src.x ?? 0;
+  const sy = src.y ?? 0;
+  const len = Math.hypot((tgt.x ?? 0) - sx, (tgt.y ?? 0) - sy) || 1;
+  const ux = ((tgt.x ?? 0) - sx) / len;
+  const uy = ((tgt.y ?? 0) - sy) / len;
+  const ox = -uy * DIRECTED_OFFSET;
+  const oy = ux * DIRECTED_OFFSET;
+  return {
+    x1: sx + ux * srcRadius + ox,
+    y1: sy + uy * srcRadius + oy,
+    x2: (tgt.x ?? 0) - ux * tgtRadius + ox,
+    y2: (tgt.y ?? 0) - uy * tgtRadius + oy,
+    ux,
+    uy,
+  };
+}
+
+function distanceToSegment(px: number, py: number, x1: number, y1: number, x2: number, y2: number): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSq));
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
 }
 
 export default function NetworkGraph({
   persons,
   connections,
+  entities = NO_ENTITIES,
+  entityConnections = NO_ENTITY_CONNECTIONS,
   searchQuery,
   selectedPersonId,
   focusedNodeId,
   onSelectPerson,
   onFocusNode,
+  onSelectEntity,
   onReady,
+  highlightedPaths = NO_PATHS,
+  nodeSizes,
+  nodeColors,
+  colorLegend,
+  expandableNodeIds,
+  communications = NO_COMMUNICATIONS,
+  selectedCommunication = null,
+  onSelectCommunication,
 }: NetworkGraphProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -108,7 +197,13 @@ export default function NetworkGraph({
   const selectedIdRef = useRef(selectedPersonId);
   const focusedIdRef = useRef(focusedNodeId);
   const searchRef = useRef(searchQuery);
-  const connectionsRef = useRef(connections);
+  const pathsRef = useRef(highlightedPaths);
+  const sizesRef = useRef(nodeSizes);
+  const colorsRef = useRef(nodeColors);
+  const expandableRef = useRef(expandableNodeIds);
+  const selectedCommunicationRef = useRef(selectedCommunication);
+  const maxMessagesRef = useRef(1);
+  const pointerDownRef = useRef<{ x: number; y: number } | null>(null);
   const hoveredIdRef = useRef<number | null>(null);
   const animFrameRef = useRef<number>(0);
 
@@ -122,13 +217,34 @@ export default function NetworkGraph({
   useEffect(() => { selectedIdRef.current = selectedPersonId; }, [selectedPersonId]);
   useEffect(() => { focusedIdRef.current = focusedNodeId; }, [focusedNodeId]);
   useEffect(() => { searchRef.current = searchQuery; }, [searchQuery]);
-  useEffect(() => { connectionsRef.current = connections; }, [connections]);
+  useEffect(() => { pathsRef.current = highlightedPaths; }, [highlightedPaths]);
+  useEffect(() => { colorsRef.current = nodeColors; }, [nodeColors]);
+  useEffect(() => { expandableRef.current = expandableNodeIds; }, [expandableNodeIds]);
+  useEffect(() => { selectedCommunicationRef.current = selectedCommunication; }, [selectedCommunication]);
 
   // Request a redraw whenever visual-only props change
   useEffect(() => {
     drawFrame();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedPersonId, focusedNodeId, searchQuery]);
+  }, [selectedPersonId, focusedNodeId, searchQuery, highlightedPaths, nodeColors, expandableNodeIds, selectedCommunication]);
+
+  const radiusOf = useCallback((node: GraphNode): number => {
+    const sizes = sizesRef.current;
+    if (sizes) return MIN_RADIUS + (MAX_RADIUS - MIN_RADIUS) * (sizes.get(node.id) ?? 0);
+    return radiusScaleRef.current(node.connectionCount) as number;
+  }, []);
+
+  // Resizing nodes changes their collision radius, so nudge the layout as well as redrawing
+  useEffect(() => {
+    sizesRef.current = nodeSizes;
+    const simulation = simulationRef.current;
+    if (simulation) {
+      simulation.force("collide", forceCollide<GraphNode>().radius((d) => radiusOf(d) + 4));
+      simulation.alpha(0.3).restart();
+    }
+    drawFrame();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nodeSizes]);
 
   const findNodeAt = useCallback((canvasX: number, canvasY: number): GraphNode | null => {
     const qt = quadtreeRef.current;
@@ -137,7 +253,6 @@ export default function NetworkGraph({
     // Convert canvas coords to simulation coords
     const sx = (canvasX - t.x) / t.k;
     const sy = (canvasY - t.y) / t.k;
-    const rScale = radiusScaleRef.current;
     let found: GraphNode | null = null;
     const searchRadius = 30 / t.k;
     qt.visit((quadNode, x0, y0, x1, y1) => {
@@ -150,7 +265,7 @@ export default function NetworkGraph({
       let node = quadNode as { data: GraphNode; next?: typeof quadNode };
       do {
         const d = node.data;
-        const r = rScale(d.connectionCount) as number;
+        const r = radiusOf(d);
         const dx = sx - (d.x ?? 0);
         const dy = sy - (d.y ?? 0);
         if (dx * dx + dy * dy < r * r) {
@@ -161,8 +276,34 @@ export default function NetworkGraph({
       return false;
     });
     return found;
+  }, [radiusOf]);
+
+  // Line width in screen pixels, log-scaled by message count
+  const communicationWidthOf = useCallback((edge: CommunicationEdge): number => {
+    return 0.75 + 3.25 * Math.log1p(edge.messageCount) / Math.log1p(maxMessagesRef.current);
   }, []);
 
+  const findCommunicationAt = useCallback((canvasX: number, canvasY: number): CommunicationEdge | null => {
+    const t = transformRef.current;
+    const sx = (canvasX - t.x) / t.k;
+    const sy = (canvasY - t.y) / t.k;
+    let found: CommunicationEdge | null = null;
+    let bestDistance = Infinity;
+    for (const link of linksRef.current) {
+      if (!link.communication) continue;
+      const src = link.source as GraphNode;
+      const tgt = link.target as GraphNode;
+      const seg = directedSegment(src, tgt, radiusOf(src), radiusOf(tgt));
+      const distance = distanceToSegment(sx, sy, seg.x1, seg.y1, seg.x2, seg.y2);
+      const tolerance = Math.max(5, communicationWidthOf(link.communication) / 2) / t.k;
+      if (distance < tolerance && distance < bestDistance) {
+        found = link.communication;
+        bestDistance = distance;
+      }
+    }
+    return found;
+  }, [radiusOf, communicationWidthOf]);
+
   const drawFrame = useCallback(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -175,7 +316,8 @@ export default function NetworkGraph({
     const t = transformRef.current;
     const nodes = nodesRef.current;
     const links = linksRef.current;
-    const rScale = radiusScaleRef.current;
+    const colors = colorsRef.current;
+    const expandable = expandableRef.current;
     const selectedId = selectedIdRef.current;
     const focusedId = focusedIdRef.current;
     const search = searchRef.current.toLowerCase();
@@ -191,26 +333,76 @@ export default function NetworkGraph({
     const hoveredId = hoveredIdRef.current;
     const activeId = focusedId ?? selectedId ?? hoveredId;
 
-    // Build active neighborhood (1-hop from active node)
+    // Build active neighborhood (1-hop from active node, across person and entity links)
     let activeNeighborIds: Set<number> | null = null;
     if (activeId !== null) {
       activeNeighborIds = new Set<number>([activeId]);
-      const conns = connectionsRef.current;
-      for (const c of conns) {
-        if (c.personId1 === activeId) activeNeighborIds.add(c.personId2);
-        if (c.personId2 === activeId) activeNeighborIds.add(c.personId1);
+      for (const link of links) {
+        const srcId = (link.source as GraphNode).id;
+        const tgtId = (link.target as GraphNode).id;
+        if (srcId === activeId) activeNeighborIds.add(tgtId);
+        if (tgtId === activeId) activeNeighborIds.add(srcId);
       }
     }
 
     const isFocusMode = focusedId !== null;
 
+    // Highlighted paths take over the dimming: only path persons and hops stay bright
+    const pathNodeIds = new Set<number>();
+    const pathEdgeKeys = new Set<string>();
+    for (const path of pathsRef.current) {
+      path.forEach((id, i) => {
+        pathNodeIds.add(id);
+        if (i > 0) pathEdgeKeys.add(pairKey(path[i - 1], id));
+      });
+    }
+    const isPathMode = pathNodeIds.size > 0;
+    const pathLinks: GraphLink[] = [];
+
+    const selectedCommunicationKey = selectedCommunicationRef.current
+      ? communicationKey(selectedCommunicationRef.current)
+      : null;
+    let selectedCommunicationLink: GraphLink | null = null;
+
+    const drawDirected = (link: GraphLink, color: string, width: number) => {
+      const src = link.source as GraphNode;
+      const tgt = link.target as GraphNode;
+      const seg = directedSegment(src, tgt, radiusOf(src), radiusOf(tgt));
+      ctx.beginPath();
+      ctx.moveTo(seg.x1, seg.y1);
+      ctx.lineTo(seg.x2, seg.y2);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = width / t.k;
+      ctx.stroke();
+
+      const head = (4 + width * 1.5) / t.k;
+      ctx.beginPath();
+      ctx.moveTo(seg.x2, seg.y2);
+      ctx.lineTo(seg.x2 - seg.ux * head - seg.uy * head * 0.5, seg.y2 - seg.uy * head + seg.ux * head * 0.5);
+      ctx.lineTo(seg.x2 - seg.ux * head + seg.uy * head * 0.5, seg.y2 - seg.uy * head - seg.ux * head * 0.5);
+      ctx.closePath();
+      ctx.fillStyle = color;
+      ctx.fill();
+    };
+
     // Draw links
     for (const link of links) {
       const src = link.source as GraphNode;
       const tgt = link.target as GraphNode;
 
+      if (link.communication && communicationKey(link.communication) === selectedCommunicationKey) {
+        selectedCommunicationLink = link;
+        continue;
+      }
+
       let alpha: number;
-      if (activeNeighborIds) {
+      if (isPathMode) {
+        if (pathEdgeKeys.has(pairKey(src.id, tgt.id))) {
+          pathLinks.push(link);
+          continue;
+        }
+        alpha = 0.04;
+      } else if (activeNeighborIds) {
         if (isFocusMode) {
           const inNeighborhood = activeNeighborIds.has(src.id) && activeNeighborIds.has(tgt.id);
           alpha = inNeighborhood ? 0.5 : 0.05;
@@ -222,6 +414,12 @@ export default function NetworkGraph({
         alpha = 0.4;
       }
 
+      if (link.communication) {
+        const dimmed = selectedCommunicationKey !== null && !activeNeighborIds;
+        drawDirected(link, hslToCanvasColor(COMMUNICATION_COLOR, dimmed ? 0.15 : alpha), communicationWidthOf(link.communication));
+        continue;
+      }
+
       ctx.beginPath();
       ctx.moveTo(src.x ?? 0, src.y ?? 0);
       ctx.lineTo(tgt.x ?? 0, tgt.y ?? 0);
@@ -230,16 +428,34 @@ export default function NetworkGraph({
       ctx.stroke();
     }
 
+    if (selectedCommunicationLink?.communication) {
+      drawDirected(selectedCommunicationLink, PATH_COLOR, communicationWidthOf(selectedCommunicationLink.communication) + 1.5);
+    }
+
+    // Path hops go on top of the other links
+    for (const link of pathLinks) {
+      const src = link.source as GraphNode;
+      const tgt = link.target as GraphNode;
+      ctx.beginPath();
+      ctx.moveTo(src.x ?? 0, src.y ?? 0);
+      ctx.lineTo(tgt.x ?? 0, tgt.y ?? 0);
+      ctx.strokeStyle = PATH_COLOR;
+      ctx.lineWidth = 2.5 / t.k;
+      ctx.stroke();
+    }
+
     // Draw nodes
     for (const node of nodes) {
       const nx = node.x ?? 0;
       const ny = node.y ?? 0;
-      const r = rScale(node.connectionCount) as number;
-      const color = getCategoryColor(node.category);
+      const r = radiusOf(node);
+      const color = colors?.get(node.id) ?? getCategoryColor(node.category);
       const matchesSearch = hasSearch && node.name.toLowerCase().includes(search);
 
       let alpha: number;
-      if (activeNeighborIds) {
+      if (isPathMode) {
+        alpha = pathNodeIds.has(node.id) ? 1 : 0.1;
+      } else if (activeNeighborIds) {
         if (isFocusMode) {
           alpha = activeNeighborIds.has(node.id) ? 0.9 : 0.15;
         } else {
@@ -250,34 +466,56 @@ export default function NetworkGraph({
       }
 
       ctx.beginPath();
-      ctx.arc(nx, ny, r, 0, Math.PI * 2);
+      if (node.kind === "entity") {
+        // Entities are drawn as squares so they stand apart from person circles
+        ctx.rect(nx - r * 0.85, ny - r * 0.85, r * 1.7, r * 1.7);
+      } else {
+        ctx.arc(nx, ny, r, 0, Math.PI * 2);
+      }
       ctx.fillStyle = hslToCanvasColor(color, alpha);
       ctx.fill();
 
-      // Search highlight ring only
-      if (matchesSearch) {
+      if (isPathMode && pathNodeIds.has(node.id)) {
+        ctx.strokeStyle = PATH_COLOR;
+        ctx.lineWidth = 2 / t.k;
+        ctx.stroke();
+      } else if (matchesSearch) {
+        // Search highlight ring
         ctx.strokeStyle = hslToCanvasColor("hsl(48, 100%, 60%)", alpha);
         ctx.lineWidth = 3 / t.k;
         ctx.stroke();
       }
+
+      if (expandable?.has(node.id)) {
+        ctx.beginPath();
+        ctx.arc(nx, ny, r + 3, 0, Math.PI * 2);
+        ctx.setLineDash([3 / t.k, 2 / t.k]);
+        ctx.strokeStyle = `rgba(120, 120, 130, ${alpha})`;
+        ctx.lineWidth = 1 / t.k;
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
     }
 
-    // Draw labels — nodes above 70th percentile
-    const sortedByConn = [...nodes].sort((a, b) => a.connectionCount - b.connectionCount);
-    const medianConn = sortedByConn[Math.floor(nodes.length * 0.7)]?.connectionCount ?? 0;
+    // Draw labels — nodes above 70th percentile by size
+    const sortedBySize = nodes.map(radiusOf).sort((a, b) => a - b);
+    const labelThreshold = sortedBySize[Math.floor(nodes.length * 0.7)] ?? 0;
 
     ctx.textAlign = "center";
     ctx.textBaseline = "top";
     ctx.font = "9px system-ui, sans-serif";
 
     for (const node of nodes) {
-      if (node.connectionCount <= medianConn) continue;
+      const onPath = pathNodeIds.has(node.id);
+      const r = radiusOf(node);
+      if (r <= labelThreshold && !onPath) continue;
       const nx = node.x ?? 0;
       const ny = node.y ?? 0;
-      const r = rScale(node.connectionCount) as number;
 
       let alpha: number;
-      if (activeNeighborIds) {
+      if (isPathMode) {
+        alpha = onPath ? 0.9 : 0.08;
+      } else if (activeNeighborIds) {
         if (isFocusMode) {
           alpha = activeNeighborIds.has(node.id) ? 0.7 : 0.1;
         } else {
@@ -299,7 +537,7 @@ export default function NetworkGraph({
       .x((d) => d.x ?? 0)
       .y((d) => d.y ?? 0)
       .addAll(nodes);
-  }, []);
+  }, [radiusOf, communicationWidthOf]);
 
   const handleZoom = useCallback((delta: number) => {
     const canvas = canvasRef.current;
@@ -348,6 +586,7 @@ export default function NetworkGraph({
     persons.forEach((p) => {
       nodeMap.set(p.id, {
         id: p.id,
+        kind: "person",
         name: p.name,
         category: p.category,
         connectionCount: 0,
@@ -371,12 +610,58 @@ export default function NetworkGraph({
       });
     });
 
+    entities.forEach((e) => {
+      nodeMap.set(entityNodeId(e.id), {
+        id: entityNodeId(e.id),
+        kind: "entity",
+        name: e.name,
+        category: e.entityType,
+        connectionCount: 0,
+      });
+    });
+
+    entityConnections.forEach((c) => {
+      const n1 = nodeMap.get(entityNodeId(c.entityId));
+      const n2 = c.personId != null
+        ? (personIdSet.has(c.personId) ? nodeMap.get(c.personId) : undefined)
+        : c.otherEntityId != null ? nodeMap.get(entityNodeId(c.otherEntityId)) : undefined;
+      if (!n1 || !n2) return;
+      n1.connectionCount++;
+      n2.connectionCount++;
+      builtLinks.push({
+        source: n1,
+        target: n2,
+        id: entityNodeId(c.id),
+        connectionType: c.connectionType,
+        description: c.description,
+        strength: c.strength,
+      });
+    });
+
+    communications.forEach((c, i) => {
+      const n1 = nodeMap.get(c.fromPersonId);
+      const n2 = nodeMap.get(c.toPersonId);
+      if (!n1 || !n2) return;
+      n1.connectionCount++;
+      n2.connectionCount++;
+      builtLinks.push({
+        source: n1,
+        target: n2,
+        id: i,
+        connectionType: "email",
+        description: null,
+        strength: c.messageCount,
+        communication: c,
+      });
+    });
+    maxMessagesRef.current = Math.max(1, ...communications.map((c) => c.messageCount));
+
     const builtNodes = Array.from(nodeMap.values());
     nodesRef.current = builtNodes;
     linksRef.current = builtLinks;
 
     const maxConn = Math.max(1, ...builtNodes.map((n) => n.connectionCount));
-    radiusScaleRef.current = scaleLinear().domain([0, maxConn]).range([5, 24]);
+    radiusScaleRef.current = scaleLinear().domain([0, maxConn]).range([MIN_RADIUS, MAX_RADIUS]);
 
     // Simulation
     let tickCount = 0;
@@ -391,7 +676,7 @@ export default function NetworkGraph({
       )
       .force("charge", forceManyBody().strength(-200))
       .force("center", forceCenter(width / 2, height / 2))
-      .force("collide", forceCollide<GraphNode>().radius((d) => (radiusScaleRef.current(d.connectionCount) as number) + 4))
+      .force("collide", forceCollide<GraphNode>().radius((d) => radiusOf(d) + 4))
       .on("tick", () => {
         drawFrame();
         tickCount++;
@@ -408,7 +693,7 @@ export default function NetworkGraph({
       cancelAnimationFrame(animFrameRef.current);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [persons, connections, onReady, drawFrame]);
+  }, [persons, connections, entities, entityConnections, communications, onReady, drawFrame, radiusOf]);
 
   // Canvas interaction handlers
   useEffect(() => {
@@ -422,6 +707,7 @@ export default function NetworkGraph({
 
     const handleMouseDown = (e: MouseEvent) => {
       const pos = getCanvasPos(e);
+      pointerDownRef.current = pos;
       const node = findNodeAt(pos.x, pos.y);
       if (node) {
         dragNodeRef.current = node;
@@ -465,7 +751,8 @@ export default function NetworkGraph({
         hoveredIdRef.current = node.id;
         setTooltip({ x: e.pageX, y: e.pageY, node });
       } else {
-        canvas.style.cursor = "default";
+        const overLink = onSelectCommunication && findCommunicationAt(pos.x, pos.y);
+        canvas.style.cursor = overLink ? "pointer" : "default";
         hoveredIdRef.current = null;
         setTooltip(null);
       }
@@ -493,8 +780,16 @@ export default function NetworkGraph({
         if (Math.abs(dx) > 3 || Math.abs(dy) > 3) return;
       }
       const node = findNodeAt(pos.x, pos.y);
-      if (node) {
+      if (node?.kind === "entity") {
+        onSelectEntity?.(-node.id);
+      } else if (node) {
         onSelectPerson(selectedIdRef.current === node.id ? null : node.id);
+      } else if (onSelectCommunication) {
+        // Releasing a pan over a link is not a click on it
+        const down = pointerDownRef.current;
+        if (down && (Math.abs(pos.x - down.x) > 3 || Math.abs(pos.y - down.y) > 3)) return;
+        const edge = findCommunicationAt(pos.x, pos.y);
+        if (edge) onSelectCommunication(edge);
       }
     };
 
@@ -546,7 +841,7 @@ export default function NetworkGraph({
       canvas.removeEventListener("wheel", handleWheel);
       canvas.removeEventListener("mouseleave", handleMouseLeave);
     };
-  }, [findNodeAt, onSelectPerson, onFocusNode, drawFrame]);
+  }, [findNodeAt, findCommunicationAt, onSelectPerson, onFocusNode, onSelectEntity, onSelectCommunication, drawFrame]);
 
   // Resize handler
   useEffect(() => {
@@ -572,6 +867,7 @@ export default function NetworkGraph({
 
   // Build legend categories from persons prop
   const legendCategories = Array.from(new Set(persons.map((p) => p.category))).sort();
+  const legendEntityTypes = Array.from(new Set(entities.map((e) => e.entityType))).sort();
 
   return (
     <div ref={containerRef} className="relative w-full h-full min-h-[400px]">
@@ -580,7 +876,7 @@ export default function NetworkGraph({
         className="w-full h-full bg-background rounded-lg border border-border"
         style={{ touchAction: "none" }}
         role="img"
-        aria-label="Network graph showing connections between people"
+        aria-label="Network graph showing connections between people and entities"
       />
 
       {/* Zoom controls */}
@@ -627,7 +923,7 @@ export default function NetworkGraph({
           <div className="font-medium">{tooltip.node.name}</div>
           <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
             <span
-              className="w-2 h-2 rounded-full inline-block"
+              className={`w-2 h-2 inline-block ${tooltip.node.kind === "entity" ? "rounded-[1px]" : "rounded-full"}`}
               style={{ backgroundColor: getCategoryColor(tooltip.node.category) }}
             />
             <span className="capitalize">{tooltip.node.category}</span>
@@ -640,16 +936,44 @@ export default function NetworkGraph({
       {/* Legend */}
       <div className="absolute top-3 left-3 bg-card/90 backdrop-blur-sm border border-border rounded-lg p-2.5">
         <div className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1.5">
-          Categories
+          {colorLegend?.title ?? "Categories"}
         </div>
         <div className="flex flex-col gap-1">
-          {legendCategories.map((cat) => (
-            <div key={cat} className="flex items-center gap-1.5">
-              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: getCategoryColor(cat) }} />
-              <span className="text-[10px] text-muted-foreground capitalize">{cat}</span>
-            </div>
-          ))}
+          {colorLegend
+            ? colorLegend.items.map((item) => (
+                <div key={item.label} className="flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: item.color }} />
+                  <span className="text-[10px] text-muted-foreground max-w-[140px] truncate">{item.label}</span>
+                </div>
+              ))
+            : legendCategories.map((cat) => (
+                <div key={cat} className="flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: getCategoryColor(cat) }} />
+                  <span className="text-[10px] text-muted-foreground capitalize">{cat}</span>
+                </div>
+              ))}
         </div>
+        {!colorLegend && legendEntityTypes.length > 0 && (
+          <>
+            <div className="text-[10px] text-muted-foreground uppercase tracking-wider mt-2 mb-1.5">
+              Entities
+            </div>
+            <div className="flex flex-col gap-1">
+              {legendEntityTypes.map((type) => (
+                <div key={type} className="flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-[1px] shrink-0" style={{ backgroundColor: getCategoryColor(type) }} />
+                  <span className="text-[10px] text-muted-foreground capitalize">{type}</span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+        {communications.length > 0 && (
+          <div className="flex items-center gap-1.5 mt-2">
+            <span className="text-[10px] font-medium" style={{ color: COMMUNICATION_COLOR }}>→</span>
+            <span className="text-[10px] text-muted-foreground">Sender to recipient; width = messages</span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,273 @@
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeftRight, ChevronsUpDown, FileText, Route, X } from "lucide-react";
+import type { NetworkPathResult } from "@shared/schema";
+import { getCategoryColor } from "@/components/network-graph";
+
+export interface PathPickerPerson {
+  id: number;
+  name: string;
+  category: string;
+}
+
+export interface PathQuery {
+  from: number | null;
+  to: number | null;
+  maxHops: number;
+  weighted: boolean;
+}
+
+const PICKER_RESULT_LIMIT = 50;
+
+/** Searchable person combobox; also used for the map's person filter. */
+export function PersonPicker({
+  persons,
+  value,
+  onChange,
+  placeholder,
+  testId,
+}: {
+  persons: PathPickerPerson[];
+  value: number | null;
+  onChange: (id: number | null) => void;
+  placeholder: string;
+  testId: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const selected = persons.find((p) => p.id === value) ?? null;
+
+  // Filter here rather than in cmdk so thousands of persons never render at once
+  const matches = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    const list = q ? persons.filter((p) => p.name.toLowerCase().includes(q)) : persons;
+    return list.slice(0, PICKER_RESULT_LIMIT);
+  }, [persons, search]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          role="combobox"
+          aria-expanded={open}
+          className="h-8 flex-1 min-w-0 justify-between font-normal text-sm"
+          data-testid={testId}
+        >
+          <span className={`truncate ${selected ? "" : "text-muted-foreground"}`}>
+            {selected?.name ?? placeholder}
+          </span>
+          <ChevronsUpDown className="w-3.5 h-3.5 ml-1 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search people..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>No people found.</CommandEmpty>
+            {matches.map((p) => (
+              <CommandItem
+                key={p.id}
+                value={String(p.id)}
+                onSelect={() => {
+                  onChange(p.id);
+                  setOpen(false);
+                  setSearch("");
+                }}
+              >
+                <span className="w-2 h-2 rounded-full shrink-0 mr-2" style={{ backgroundColor: getCategoryColor(p.category) }} />
+                <span className="truncate">{p.name}</span>
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface PathFinderFormProps {
+  persons: PathPickerPerson[];
+  query: PathQuery;
+  onChange: (query: PathQuery) => void;
+  onClear: () => void;
+}
+
+/** "How are X and Y connected?" — two person pickers plus path search options. */
+export function PathFinderForm({ persons, query, onChange, onClear }: PathFinderFormProps) {
+  const hasSelection = query.from !== null || query.to !== null;
+
+  return (
+    <div className="flex flex-col gap-2" data-testid="network-path-finder">
+      <Label className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground flex items-center gap-1.5">
+        <Route className="w-3 h-3" />
+        How are they connected?
+      </Label>
+      <div className="flex items-center gap-2 flex-wrap">
+        <PersonPicker
+          persons={persons}
+          value={query.from}
+          onChange={(from) => onChange({ ...query, from })}
+          placeholder="First person..."
+          testId="select-path-from"
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          aria-label="Swap persons"
+          onClick={() => onChange({ ...query, from: query.to, to: query.from })}
+        >
+          <ArrowLeftRight className="w-3.5 h-3.5" />
+        </Button>
+        <PersonPicker
+          persons={persons}
+          value={query.to}
+          onChange={(to) => onChange({ ...query, to })}
+          placeholder="Second person..."
+          testId="select-path-to"
+        />
+      </div>
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="flex items-center gap-1.5">
+          <span className="text-xs text-muted-foreground">Max hops</span>
+          <Select value={String(query.maxHops)} onValueChange={(v) => onChange({ ...query, maxHops: parseInt(v) })}>
+            <SelectTrigger className="h-7 w-16 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[2, 3, 4, 5, 6].map((n) => (
+                <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <Checkbox
+            checked={query.weighted}
+            onCheckedChange={(v) => onChange({ ...query, weighted: v === true })}
+            className="h-3.5 w-3.5"
+          />
+          <span className="text-xs">Prefer strong ties</span>
+        </label>
+        {hasSelection && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs ml-auto" onClick={onClear} data-testid="button-clear-path">
+            <X className="w-3 h-3 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface PathResultsProps {
+  result: NetworkPathResult | undefined;
+  isLoading: boolean;
+  selectedIndex: number | null;
+  onSelectPath: (index: number | null) => void;
+}
+
+/** Paths found between the two persons, each hop with its connection types and source documents. */
+export function PathResults({ result, isLoading, selectedIndex, onSelectPath }: PathResultsProps) {
+  const personNames = useMemo(
+    () => new Map(result?.persons.map((p) => [p.id, p.name]) ?? []),
+    [result],
+  );
+  const documentTitles = useMemo(
+    () => new Map(result?.documents.map((d) => [d.id, d.title]) ?? []),
+    [result],
+  );
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Finding paths...</p>;
+  }
+  if (!result) return null;
+  if (result.paths.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground" data-testid="text-no-paths">
+        No path between {personNames.get(result.fromPersonId)} and {personNames.get(result.toPersonId)} within the hop limit.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2" data-testid="network-path-results">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-semibold">
+          {result.paths.length} {result.paths.length === 1 ? "path" : "paths"} found
+        </h4>
+        {selectedIndex !== null && (
+          <Button variant="ghost" size="sm" className="h-6 text-[11px]" onClick={() => onSelectPath(null)}>
+            Show all
+          </Button>
+        )}
+      </div>
+      {result.paths.map((path, index) => (
+        <div
+          key={path.personIds.join("-")}
+          className={`rounded-md border p-2.5 flex flex-col gap-2 cursor-pointer transition-colors ${
+            selectedIndex === index ? "border-primary bg-primary/5" : "border-border hover:bg-accent/50"
+          }`}
+          onClick={() => onSelectPath(selectedIndex === index ? null : index)}
+          data-testid={`network-path-${index}`}
+        >
+          <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+            <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+              {path.hops} {path.hops === 1 ? "hop" : "hops"}
+            </Badge>
+            <span>cost {path.cost}</span>
+          </div>
+          {path.edges.map((edge) => (
+            <div key={`${edge.fromPersonId}-${edge.toPersonId}`} className="flex flex-col gap-1 text-xs">
+              <div className="flex items-center gap-1 flex-wrap">
+                <Link href={`/people/${edge.fromPersonId}`} onClick={(e) => e.stopPropagation()} className="font-medium hover:underline">
+                  {personNames.get(edge.fromPersonId)}
+                </Link>
+                <span className="text-muted-foreground">→</span>
+                <Link href={`/people/${edge.toPersonId}`} onClick={(e) => e.stopPropagation()} className="font-medium hover:underline">
+                  {personNames.get(edge.toPersonId)}
+                </Link>
+              </div>
+              <div className="flex items-center gap-1 flex-wrap">
+                {edge.connections.map((c) => (
+                  <Badge key={c.id} variant="outline" className="text-[9px] capitalize" title={c.description ?? undefined}>
+                    {c.connectionType} · {c.strength}
+                  </Badge>
+                ))}
+              </div>
+              {edge.documentIds.length > 0 && (
+                <div className="flex flex-col gap-0.5 pl-1">
+                  {edge.documentIds.slice(0, 3).map((id) => (
+                    <Link
+                      key={id}
+                      href={`/documents/${id}`}
+                      onClick={(e) => e.stopPropagation()}
+                      className="flex items-center gap-1 text-[11px] text-muted-foreground hover:text-foreground truncate"
+                    >
+                      <FileText className="w-3 h-3 shrink-0" />
+                      <span className="truncate">{documentTitles.get(id) ?? `Document #${id}`}</span>
+                    </Link>
+                  ))}
+                  {edge.documentIds.length > 3 && (
+                    <span className="text-[10px] text-muted-foreground pl-4">
+                      +{edge.documentIds.length - 3} more
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
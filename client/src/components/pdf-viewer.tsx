@@ -1,3 +1,4 @@
+import { DocumentTableGrid } from "@/components/spreadsheet-table-viewer";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import {
@@ -5,13 +6,17 @@ import {
   ChevronLeft,
   ChevronRight,
   ExternalLink,
+  Highlighter,
   Loader2,
   Maximize,
   Minimize,
+  SquareDashed,
+  Table2,
   ZoomIn,
   ZoomOut,
 } from "lucide-react";
-import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+import type { AnnotationBBox, DocumentAnnotation, DocumentTable, PageRedaction } from "@shared/schema";
+import type { PDFDocumentProxy, PDFPageProxy, RenderTask } from "pdfjs-dist";
 import * as pdfjsLib from "pdfjs-dist";
 import { useCallback, useEffect, useRef, useState } from "react";
 
@@ -31,6 +36,17 @@ interface PdfViewerProps {
   publicUrl?: string | null;
   initialPage?: number;
   pageTypes?: PageTypeInfo[];
+  /** Region annotations (those with a bbox) are drawn over the page they belong to */
+  annotations?: DocumentAnnotation[];
+  /** Enables the highlight tool; called with the dragged region as page fractions */
+  onAnnotateRegion?: (pageNumber: number, bbox: AnnotationBBox) => void;
+  onSelectAnnotation?: (annotation: DocumentAnnotation) => void;
+  /** Text to highlight wherever it appears in the current page's PDF text layer */
+  highlightText?: string;
+  /** Detected redaction boxes; outlined on their page when toggled on */
+  redactions?: PageRedaction[];
+  /** Document tables; those detected on the current page can replace it with a grid */
+  tables?: DocumentTable[];
 }
 
 type ViewerState = "loading" | "ready" | "iframe" | "error";
@@ -38,6 +54,68 @@ type ViewerState = "loading" | "ready" | "iframe" | "error";
 const ZOOM_STEP = 0.25;
 const MIN_ZOOM = 0.5;
 const MAX_ZOOM = 3;
+// Drags smaller than this (as a fraction of the page) are treated as clicks
+const MIN_REGION_SIZE = 0.01;
+
+interface PagePoint {
+  x: number;
+  y: number;
+}
+
+function toBBox(a: PagePoint, b: PagePoint): AnnotationBBox {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  };
+}
+
+/** Lowercase and collapse whitespace so OCR line breaks still match. */
+function normalizeForMatch(text: string): string {
+  return text.replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Boxes (as page fractions) around each occurrence of `needle` in the page's
+ * text items. Character positions are interpolated across the item's width,
+ * which is close enough for a highlight. Scans without a text layer yield none.
+ */
+async function findTextBoxes(page: PDFPageProxy, needle: string): Promise<AnnotationBBox[]> {
+  const target = normalizeForMatch(needle.trim());
+  if (!target) return [];
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+  const boxes: AnnotationBBox[] = [];
+
+  for (const item of content.items) {
+    if (!("str" in item) || !item.str) continue;
+    const text = normalizeForMatch(item.str);
+    if (text.length !== item.str.length) continue;
+    const [, , c, d, x, y] = pdfjsLib.Util.transform(viewport.transform, item.transform);
+    const fontHeight = Math.hypot(c, d);
+    const charWidth = item.width / item.str.length;
+
+    for (let at = text.indexOf(target); at >= 0; at = text.indexOf(target, at + target.length)) {
+      boxes.push({
+        x: (x + at * charWidth) / viewport.width,
+        y: (y - fontHeight) / viewport.height,
+        width: (target.length * charWidth) / viewport.width,
+        height: (fontHeight * 1.2) / viewport.height,
+      });
+    }
+  }
+  return boxes;
+}
+
+function bboxStyle(bbox: AnnotationBBox): React.CSSProperties {
+  return {
+    left: `${bbox.x * 100}%`,
+    top: `${bbox.y * 100}%`,
+    width: `${bbox.width * 100}%`,
+    height: `${bbox.height * 100}%`,
+  };
+}
 
 export default function PdfViewer({
   documentId,
@@ -45,6 +123,12 @@ export default function PdfViewer({
   publicUrl,
   initialPage,
   pageTypes,
+  annotations,
+  onAnnotateRegion,
+  onSelectAnnotation,
+  highlightText,
+  redactions,
+  tables,
 }: PdfViewerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -60,6 +144,11 @@ export default function PdfViewer({
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [pageInputValue, setPageInputValue] = useState("1");
   const [isRendering, setIsRendering] = useState(false);
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  const [dragRegion, setDragRegion] = useState<{ start: PagePoint; end: PagePoint } | null>(null);
+  const [highlightBoxes, setHighlightBoxes] = useState<AnnotationBBox[]>([]);
+  const [showRedactions, setShowRedactions] = useState(false);
+  const [showTables, setShowTables] = useState(false);
 
   const renderPage = useCallback(
     async (pageNum: number) => {
@@ -211,6 +300,27 @@ export default function PdfViewer({
     }
   }, [currentPage, scale, viewerState, renderPage]);
 
+  useEffect(() => {
+    const pdfDoc = pdfDocRef.current;
+    if (viewerState !== "ready" || !pdfDoc || !highlightText) {
+      setHighlightBoxes([]);
+      return;
+    }
+    let cancelled = false;
+    pdfDoc
+      .getPage(currentPage)
+      .then((page) => findTextBoxes(page, highlightText))
+      .then((boxes) => {
+        if (!cancelled) setHighlightBoxes(boxes);
+      })
+      .catch(() => {
+        if (!cancelled) setHighlightBoxes([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentPage, viewerState, highlightText]);
+
   const goToPage = (page: number) => {
     const clamped = Math.max(1, Math.min(page, totalPages));
     if (clamped === currentPage) return;
@@ -256,6 +366,42 @@ export default function PdfViewer({
     }
   };
 
+  const toPagePoint = (e: React.PointerEvent<HTMLDivElement>): PagePoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handleRegionStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toPagePoint(e);
+    setDragRegion({ start: point, end: point });
+  };
+
+  const handleRegionMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRegion) return;
+    setDragRegion({ ...dragRegion, end: toPagePoint(e) });
+  };
+
+  const handleRegionEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRegion) return;
+    const bbox = toBBox(dragRegion.start, toPagePoint(e));
+    setDragRegion(null);
+    if (bbox.width < MIN_REGION_SIZE || bbox.height < MIN_REGION_SIZE) return;
+    setIsAnnotating(false);
+    onAnnotateRegion?.(currentPage, bbox);
+  };
+
+  const pageAnnotations = (annotations ?? []).filter(
+    (a) => a.pageNumber === currentPage && a.bbox,
+  );
+  const pageRedaction = redactions?.find((r) => r.pageNumber === currentPage);
+  const pageTables = (tables ?? []).filter((t) => t.pageNumber === currentPage);
+  // Stays on while paging, but pages without a detected table show the scan
+  const viewingTables = showTables && pageTables.length > 0;
+
   useEffect(() => {
     const handleFsChange = () => {
       setIsFullscreen(!!document.fullscreenElement);
@@ -366,6 +512,48 @@ export default function PdfViewer({
 
         {/* Zoom controls */}
         <div className="flex items-center gap-1">
+          {redactions && redactions.length > 0 && (
+            <Button
+              variant={showRedactions ? "secondary" : "ghost"}
+              size="sm"
+              className="h-8 gap-1 text-xs"
+              onClick={() => setShowRedactions((v) => !v)}
+              aria-pressed={showRedactions}
+              title="Outline detected redactions"
+              data-testid="button-pdf-redactions"
+            >
+              <SquareDashed className="w-4 h-4" />
+              {pageRedaction ? pageRedaction.redactionCount : 0}
+            </Button>
+          )}
+          {pageTables.length > 0 && (
+            <Button
+              variant={showTables ? "secondary" : "ghost"}
+              size="sm"
+              className="h-8 gap-1 text-xs"
+              onClick={() => setShowTables((v) => !v)}
+              aria-pressed={showTables}
+              title="View as table"
+              data-testid="button-pdf-tables"
+            >
+              <Table2 className="w-4 h-4" />
+              Table
+            </Button>
+          )}
+          {onAnnotateRegion && (
+            <Button
+              variant={isAnnotating ? "secondary" : "ghost"}
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setIsAnnotating((v) => !v)}
+              aria-pressed={isAnnotating}
+              aria-label="Highlight a region"
+              title="Highlight a region"
+              data-testid="button-pdf-annotate"
+            >
+              <Highlighter className="w-4 h-4" />
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="icon"
@@ -405,13 +593,70 @@ export default function PdfViewer({
         </div>
       </div>
 
-      {/* Canvas area */}
-      <div className={`overflow-auto bg-muted/20 flex justify-center p-4 ${isFullscreen ? "flex-1" : "max-h-[70vh]"}`}>
+      {viewingTables && (
+        <div className={`overflow-auto p-3 flex flex-col gap-4 ${isFullscreen ? "flex-1" : ""}`} data-testid="pdf-table-view">
+          {pageTables.map((table) => (
+            <div key={table.id} className="flex flex-col gap-1.5">
+              {pageTables.length > 1 && <h3 className="text-xs font-semibold">{table.name}</h3>}
+              <DocumentTableGrid documentId={documentId} table={table} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Canvas area; kept mounted under the table view so the page need not re-render */}
+      <div className={`overflow-auto bg-muted/20 flex justify-center p-4 ${isFullscreen ? "flex-1" : "max-h-[70vh]"} ${viewingTables ? "hidden" : ""}`}>
         <div className="relative">
           {isRendering && (
             <div className="absolute inset-0 z-10 rounded-md bg-muted/40 animate-pulse" />
           )}
-          <canvas ref={canvasRef} className="shadow-md" />
+          <canvas ref={canvasRef} className="block shadow-md" />
+          {!isRendering &&
+            pageAnnotations.map((a) => (
+              <button
+                key={a.id}
+                type="button"
+                className="absolute rounded-sm bg-yellow-300/30 border border-yellow-500/70 hover:bg-yellow-300/50"
+                style={bboxStyle(a.bbox!)}
+                title={a.note ?? undefined}
+                onClick={() => onSelectAnnotation?.(a)}
+                data-testid={`pdf-annotation-${a.id}`}
+              />
+            ))}
+          {!isRendering && showRedactions &&
+            pageRedaction?.boxes.map((bbox, i) => (
+              <div
+                key={`redaction-${i}`}
+                className="absolute pointer-events-none border-2 border-dashed border-red-500"
+                style={bboxStyle(bbox)}
+                data-testid="pdf-redaction-box"
+              />
+            ))}
+          {!isRendering &&
+            highlightBoxes.map((bbox, i) => (
+              <div
+                key={i}
+                className="absolute pointer-events-none rounded-sm bg-orange-400/40 ring-2 ring-orange-500/70"
+                style={bboxStyle(bbox)}
+                data-testid="pdf-text-highlight"
+              />
+            ))}
+          {isAnnotating && (
+            <div
+              className="absolute inset-0 z-20 cursor-crosshair touch-none"
+              onPointerDown={handleRegionStart}
+              onPointerMove={handleRegionMove}
+              onPointerUp={handleRegionEnd}
+              onPointerCancel={() => setDragRegion(null)}
+            >
+              {dragRegion && (
+                <div
+                  className="absolute border-2 border-dashed border-yellow-500 bg-yellow-300/20"
+                  style={bboxStyle(toBBox(dragRegion.start, dragRegion.end))}
+                />
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
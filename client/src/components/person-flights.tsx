@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowRight, ChevronLeft, ChevronRight, FileText, Plane, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { CoPassenger, FlightDetail } from "@shared/schema";
+
+export const FLIGHTS_PER_PAGE = 25;
+
+interface FlightsPage {
+  data: FlightDetail[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+function flightSourceHref(flight: FlightDetail): string {
+  return flight.pageNumber ? `/documents/${flight.documentId}?page=${flight.pageNumber}` : `/documents/${flight.documentId}`;
+}
+
+function dateRange(first: string | null, last: string | null): string | null {
+  if (!first) return null;
+  return first === last || !last ? first : `${first} – ${last}`;
+}
+
+/** Persons who shared the most flights with this person. */
+function CoPassengers({ personId }: { personId: number }) {
+  const { data } = useQuery<CoPassenger[]>({
+    queryKey: [`/api/flights/co-passengers/${personId}`],
+  });
+  if (!data || data.length === 0) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground mb-3 flex items-center gap-2">
+          <Users className="w-3.5 h-3.5 text-primary" /> Flew with
+        </h2>
+        <div className="flex flex-wrap gap-1.5" data-testid="co-passengers">
+          {data.map((p) => (
+            <Link key={p.personId} href={`/people/${p.personId}`}>
+              <Badge
+                variant="secondary"
+                className="gap-1.5 cursor-pointer hover:bg-secondary/70"
+                title={dateRange(p.firstDate, p.lastDate) ?? undefined}
+                data-testid={`co-passenger-${p.personId}`}
+              >
+                {p.name}
+                <span className="text-muted-foreground tabular-nums">{p.flightCount}</span>
+              </Badge>
+            </Link>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function FlightCard({ flight, personId }: { flight: FlightDetail; personId: number }) {
+  const others = flight.passengers.filter((p) => p.personId !== personId);
+  return (
+    <Card data-testid={`card-flight-${flight.id}`}>
+      <CardContent className="p-3">
+        <div className="flex items-start gap-3">
+          <span className="text-xs font-mono text-muted-foreground shrink-0 w-20 pt-0.5" title={flight.dateRaw ?? undefined}>
+            {flight.date ?? flight.dateRaw ?? "Undated"}
+          </span>
+          <div className="flex flex-col gap-1 min-w-0 flex-1">
+            <div className="flex items-center gap-1.5 text-sm font-medium flex-wrap">
+              <span>{flight.origin ?? "?"}</span>
+              <ArrowRight className="w-3.5 h-3.5 text-muted-foreground" />
+              <span>{flight.destination ?? "?"}</span>
+              {(flight.aircraftEntityName ?? flight.aircraftName) && (
+                <Badge variant="outline" className="text-[10px] gap-1 ml-1">
+                  <Plane className="w-3 h-3" />
+                  {flight.aircraftEntityName ?? flight.aircraftName}
+                </Badge>
+              )}
+            </div>
+            {others.length > 0 && (
+              <div className="flex items-center gap-1 flex-wrap">
+                <Users className="w-3 h-3 text-muted-foreground shrink-0" />
+                {others.map((p, i) => {
+                  const label = `${p.personName ?? p.rawName}${i < others.length - 1 ? "," : ""}`;
+                  return p.personId ? (
+                    <Link key={`p${p.personId}`} href={`/people/${p.personId}`}>
+                      <span className="text-[11px] text-primary hover:underline cursor-pointer">{label}</span>
+                    </Link>
+                  ) : (
+                    <span key={`n${i}`} className="text-[11px] text-muted-foreground">{label}</span>
+                  );
+                })}
+              </div>
+            )}
+            <Link href={flightSourceHref(flight)}>
+              <span className="text-[11px] text-primary hover:underline cursor-pointer inline-flex items-center gap-1">
+                <FileText className="w-3 h-3" />
+                {flight.documentTitle}
+                {flight.pageNumber ? `, page ${flight.pageNumber}` : ""}
+              </span>
+            </Link>
+          </div>
+          <Badge variant="secondary" className="text-[10px] shrink-0">
+            {flight.source === "table" ? "Log" : "AI"}
+          </Badge>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/** The person's flights in date order, with the persons they flew with most often. */
+export function PersonFlights({ personId }: { personId: number }) {
+  const [page, setPage] = useState(1);
+  const { data, isLoading } = useQuery<FlightsPage>({
+    queryKey: [`/api/flights?personId=${personId}&page=${page}&limit=${FLIGHTS_PER_PAGE}`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col gap-2">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!data || data.data.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 gap-2">
+        <Plane className="w-8 h-8 text-muted-foreground/30" />
+        <p className="text-sm text-muted-foreground">No flights found in flight logs.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3" data-testid="person-flights">
+      <CoPassengers personId={personId} />
+      <div className="flex flex-col gap-2">
+        {data.data.map((flight) => (
+          <FlightCard key={flight.id} flight={flight} personId={personId} />
+        ))}
+      </div>
+      {data.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2 pt-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page <= 1}
+            className="gap-1"
+          >
+            <ChevronLeft className="w-4 h-4" /> Previous
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            Page {data.page} of {data.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => Math.min(data.totalPages, p + 1))}
+            disabled={page >= data.totalPages}
+            className="gap-1"
+          >
+            Next <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
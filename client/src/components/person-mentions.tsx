@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ChevronLeft, ChevronRight, Quote } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { PersonMentionDetail } from "@shared/schema";
+
+export const MENTIONS_PER_PAGE = 25;
+
+export interface PersonMentionsPage {
+  data: PersonMentionDetail[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export function personMentionsUrl(personId: number, page: number): string {
+  return `/api/persons/${personId}/mentions?page=${page}&limit=${MENTIONS_PER_PAGE}`;
+}
+
+/** Document link that opens the mention's page with the name highlighted in the scan and the page text. */
+export function mentionHref(mention: PersonMentionDetail): string {
+  const params = new URLSearchParams({
+    page: String(mention.pageNumber),
+    highlight: mention.surfaceForm,
+    charStart: String(mention.charStart),
+    charEnd: String(mention.charEnd),
+  });
+  return `/documents/${mention.documentId}?${params.toString()}`;
+}
+
+function MentionSnippet({ mention }: { mention: PersonMentionDetail }) {
+  const start = mention.snippetOffset;
+  const end = start + (mention.charEnd - mention.charStart);
+  return (
+    <p className="text-xs text-muted-foreground leading-relaxed">
+      {mention.snippet.slice(0, start)}
+      <mark className="bg-yellow-200 dark:bg-yellow-900/50 text-foreground px-0.5 rounded-sm">
+        {mention.snippet.slice(start, end)}
+      </mark>
+      {mention.snippet.slice(end)}
+    </p>
+  );
+}
+
+interface PersonMentionsProps {
+  personId: number;
+}
+
+/** Every place the person's name or an alias appears in page text, in document and page order. */
+export function PersonMentions({ personId }: PersonMentionsProps) {
+  const [page, setPage] = useState(1);
+  const { data, isLoading } = useQuery<PersonMentionsPage>({
+    queryKey: [personMentionsUrl(personId, page)],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col gap-2">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!data || data.data.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 gap-2">
+        <Quote className="w-8 h-8 text-muted-foreground/30" />
+        <p className="text-sm text-muted-foreground">No name mentions found in page text.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2" data-testid="person-mentions">
+      {data.data.map((mention) => (
+        <Link key={mention.id} href={mentionHref(mention)}>
+          <Card className="hover-elevate cursor-pointer" data-testid={`card-mention-${mention.id}`}>
+            <CardContent className="p-3">
+              <div className="flex flex-col gap-1.5">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-sm font-medium truncate">{mention.documentTitle}</span>
+                  <Badge variant="secondary" className="text-[10px] shrink-0">
+                    Page {mention.pageNumber}
+                  </Badge>
+                </div>
+                <MentionSnippet mention={mention} />
+              </div>
+            </CardContent>
+          </Card>
+        </Link>
+      ))}
+      {data.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2 pt-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page <= 1}
+            className="gap-1"
+          >
+            <ChevronLeft className="w-4 h-4" /> Previous
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            Page {data.page} of {data.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => Math.min(data.totalPages, p + 1))}
+            disabled={page >= data.totalPages}
+            className="gap-1"
+          >
+            Next <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,11 +5,13 @@ import type { Bookmark as BookmarkType } from "@shared/schema";
 
 interface SavedSearchesProps {
   savedSearches: BookmarkType[];
-  onSelect: (query: string) => void;
+  onSelect: (bookmark: BookmarkType) => void;
   onRemove: (id: number) => void;
+  /** Unread new-document counts from search alerts, keyed by bookmark ID */
+  newResultCounts?: Map<number, number>;
 }
 
-export function SavedSearches({ savedSearches, onSelect, onRemove }: SavedSearchesProps) {
+export function SavedSearches({ savedSearches, onSelect, onRemove, newResultCounts }: SavedSearchesProps) {
   if (savedSearches.length === 0) return null;
 
   return (
@@ -19,28 +21,40 @@ export function SavedSearches({ savedSearches, onSelect, onRemove }: SavedSearch
         Saved Searches
       </span>
       <div className="flex items-center gap-1.5 flex-wrap">
-        {savedSearches.map((bookmark) => (
-          <Badge
-            key={bookmark.id}
-            variant="secondary"
-            className="cursor-pointer group gap-1 pr-1"
-            data-testid={`saved-search-${bookmark.id}`}
-          >
-            <span onClick={() => onSelect(bookmark.searchQuery || bookmark.label || "")}>
-              {bookmark.label || bookmark.searchQuery}
-            </span>
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                onRemove(bookmark.id);
-              }}
-              className="ml-0.5 rounded-full p-0.5 hover:bg-muted-foreground/20 opacity-0 group-hover:opacity-100 transition-opacity"
-              aria-label={`Remove saved search: ${bookmark.label || bookmark.searchQuery}`}
+        {savedSearches.map((bookmark) => {
+          const newCount = newResultCounts?.get(bookmark.id) ?? 0;
+          return (
+            <Badge
+              key={bookmark.id}
+              variant="secondary"
+              className="cursor-pointer group gap-1 pr-1"
+              data-testid={`saved-search-${bookmark.id}`}
             >
-              <X className="w-3 h-3" />
-            </button>
-          </Badge>
-        ))}
+              <span onClick={() => onSelect(bookmark)}>
+                {bookmark.label || bookmark.searchQuery}
+              </span>
+              {newCount > 0 && (
+                <span
+                  className="rounded-full bg-primary text-primary-foreground px-1.5 text-[10px] font-semibold tabular-nums"
+                  title={`${newCount} new ${newCount === 1 ? "document" : "documents"} since you last checked`}
+                  data-testid={`saved-search-new-${bookmark.id}`}
+                >
+                  {newCount} new
+                </span>
+              )}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemove(bookmark.id);
+                }}
+                className="ml-0.5 rounded-full p-0.5 hover:bg-muted-foreground/20 opacity-0 group-hover:opacity-100 transition-opacity"
+                aria-label={`Remove saved search: ${bookmark.label || bookmark.searchQuery}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          );
+        })}
       </div>
     </div>
   );
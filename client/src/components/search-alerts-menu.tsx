@@ -0,0 +1,84 @@
+import { Link } from "wouter";
+import { Bell, CheckCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+import { useSearchAlerts } from "@/hooks/use-search-alerts";
+import { cn } from "@/lib/utils";
+
+export function SearchAlertsMenu() {
+  const { user } = useAuth();
+  const { alerts, unreadCount, markRead } = useSearchAlerts();
+
+  if (!user) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={unreadCount > 0 ? `Search alerts (${unreadCount} unread)` : "Search alerts"}
+          data-testid="button-search-alerts"
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold leading-4 tabular-nums">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72 max-h-96 overflow-y-auto">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          Saved search alerts
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {alerts.length === 0 ? (
+          <p className="px-2 py-3 text-xs text-muted-foreground">
+            No alerts yet. Save a search to hear when new pages match it.
+          </p>
+        ) : (
+          alerts.map((alert) => (
+            <DropdownMenuItem key={alert.id} asChild className="cursor-pointer">
+              <Link
+                href={`/search?q=${encodeURIComponent(alert.searchQuery)}`}
+                onClick={() => !alert.readAt && markRead([alert.id])}
+                data-testid={`search-alert-${alert.id}`}
+              >
+                <div className="flex flex-col gap-0.5 min-w-0">
+                  <span className={cn("truncate text-sm", !alert.readAt && "font-semibold")}>
+                    {alert.searchQuery}
+                  </span>
+                  <span className="text-[11px] text-muted-foreground">
+                    {alert.newDocumentCount} new {alert.newDocumentCount === 1 ? "document" : "documents"}
+                    {" · "}
+                    {alert.newPageCount} {alert.newPageCount === 1 ? "page" : "pages"}
+                    {" · "}
+                    {new Date(alert.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+              </Link>
+            </DropdownMenuItem>
+          ))
+        )}
+        {unreadCount > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem className="cursor-pointer gap-2" onClick={() => markRead(undefined)} data-testid="button-mark-alerts-read">
+              <CheckCheck className="h-4 w-4" /> Mark all read
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, Download, Loader2, Search, Sheet } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { DocumentTable, DocumentTableRow } from "@shared/schema";
+
+interface TableRowsPage {
+  table: DocumentTable;
+  data: DocumentTableRow[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+type SortState = { column: number; order: "asc" | "desc" } | null;
+
+const ROWS_PER_PAGE = 50;
+const FILTER_DEBOUNCE_MS = 300;
+
+function useDebounced<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+  return debounced;
+}
+
+function tableRowsUrl(documentId: number, tableId: number, opts: {
+  page: number;
+  search: string;
+  filters: Record<number, string>;
+  sort: SortState;
+}): string {
+  const params = new URLSearchParams({ page: String(opts.page), limit: String(ROWS_PER_PAGE) });
+  if (opts.search.trim()) params.set("q", opts.search.trim());
+  for (const [column, value] of Object.entries(opts.filters)) {
+    if (value.trim()) params.append("filter", `${column}:${value.trim()}`);
+  }
+  if (opts.sort) {
+    params.set("sort", String(opts.sort.column));
+    params.set("order", opts.sort.order);
+  }
+  return `/api/documents/${documentId}/tables/${tableId}/rows?${params}`;
+}
+
+/** Clicking a header cycles ascending → descending → sheet order. */
+function nextSort(sort: SortState, column: number): SortState {
+  if (sort?.column !== column) return { column, order: "asc" };
+  return sort.order === "asc" ? { column, order: "desc" } : null;
+}
+
+function SortIcon({ sort, column }: { sort: SortState; column: number }) {
+  if (sort?.column !== column) return <ArrowUpDown className="w-3 h-3 opacity-40" />;
+  return sort.order === "asc" ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />;
+}
+
+/** One table with a row filter, per-column filters, sortable headers and CSV download. */
+export function DocumentTableGrid({ documentId, table }: { documentId: number; table: DocumentTable }) {
+  const [search, setSearch] = useState("");
+  const [filters, setFilters] = useState<Record<number, string>>({});
+  const [sort, setSort] = useState<SortState>(null);
+  const [page, setPage] = useState(1);
+  const debouncedSearch = useDebounced(search, FILTER_DEBOUNCE_MS);
+  const debouncedFilters = useDebounced(filters, FILTER_DEBOUNCE_MS);
+
+  // Any change to what is shown starts again from the first page
+  useEffect(() => setPage(1), [debouncedSearch, debouncedFilters, sort]);
+
+  const url = tableRowsUrl(documentId, table.id, { page, search: debouncedSearch, filters: debouncedFilters, sort });
+  const { data, isLoading, isFetching } = useQuery<TableRowsPage>({
+    queryKey: [url],
+    placeholderData: keepPreviousData,
+    staleTime: 300_000,
+  });
+
+  const isFiltered = debouncedSearch.trim() !== "" || Object.values(debouncedFilters).some((v) => v.trim() !== "");
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Filter rows..."
+            className="h-8 pl-7 text-xs"
+            data-testid="input-table-search"
+          />
+        </div>
+        <span className="text-xs text-muted-foreground flex items-center gap-1.5">
+          {isFetching && <Loader2 className="w-3 h-3 animate-spin" />}
+          {data ? `${data.total.toLocaleString()}${isFiltered ? ` of ${table.rowCount.toLocaleString()}` : ""} rows` : null}
+        </span>
+        <a href={`/api/documents/${documentId}/tables/${table.id}/csv`} download>
+          <Button variant="outline" size="sm" className="h-8 gap-1.5 text-xs" data-testid="button-table-csv">
+            <Download className="w-3.5 h-3.5" />
+            CSV
+          </Button>
+        </a>
+      </div>
+
+      <div className="rounded-md border max-h-[70vh] overflow-auto">
+        <Table className="text-xs">
+          <TableHeader className="sticky top-0 bg-card z-10">
+            <TableRow>
+              <TableHead className="w-12 text-right">#</TableHead>
+              {table.columns.map((column, i) => (
+                <TableHead key={i} className="whitespace-nowrap">
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 font-medium hover:text-foreground"
+                    onClick={() => setSort(nextSort(sort, i))}
+                    data-testid={`sort-column-${i}`}
+                  >
+                    {column}
+                    <SortIcon sort={sort} column={i} />
+                  </button>
+                </TableHead>
+              ))}
+            </TableRow>
+            <TableRow className="hover:bg-transparent">
+              <TableHead />
+              {table.columns.map((column, i) => (
+                <TableHead key={i} className="py-1">
+                  <Input
+                    value={filters[i] ?? ""}
+                    onChange={(e) => setFilters((prev) => ({ ...prev, [i]: e.target.value }))}
+                    placeholder="Filter"
+                    aria-label={`Filter ${column}`}
+                    className="h-7 min-w-[6rem] text-xs"
+                    data-testid={`filter-column-${i}`}
+                  />
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data?.data.map((row) => (
+              <TableRow key={row.id} data-testid={`table-row-${row.rowIndex}`}>
+                <TableCell className="text-right text-muted-foreground tabular-nums">{row.rowIndex + 1}</TableCell>
+                {table.columns.map((_, i) => (
+                  <TableCell key={i} className="whitespace-pre-wrap align-top">{row.cells[i] ?? ""}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+            {data && data.total === 0 && (
+              <TableRow>
+                <TableCell colSpan={table.columns.length + 1} className="text-center text-muted-foreground py-6">
+                  No matching rows.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+        {isLoading && (
+          <div className="flex items-center justify-center gap-2 py-6 text-xs text-muted-foreground">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            Loading rows...
+          </div>
+        )}
+      </div>
+
+      {data && data.totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7"
+            disabled={page <= 1}
+            onClick={() => setPage(page - 1)}
+            data-testid="button-table-prev"
+          >
+            <ChevronLeft className="w-3.5 h-3.5" />
+          </Button>
+          <span>Page {data.page} of {data.totalPages}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7"
+            disabled={page >= data.totalPages}
+            onClick={() => setPage(page + 1)}
+            data-testid="button-table-next"
+          >
+            <ChevronRight className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Sheets of a spreadsheet/CSV document as sortable, filterable grids, paged on the server. */
+export function SpreadsheetTableViewer({ tables, documentId }: { tables: DocumentTable[]; documentId: number }) {
+  const [selectedId, setSelectedId] = useState(tables[0]?.id);
+  const selected = tables.find((t) => t.id === selectedId) ?? tables[0];
+  if (!selected) return null;
+
+  return (
+    <div className="flex flex-col gap-2" data-testid="spreadsheet-viewer">
+      {tables.length > 1 && (
+        <div className="flex items-center gap-1.5 flex-wrap">
+          {tables.map((table) => (
+            <Button
+              key={table.id}
+              variant={table.id === selected.id ? "default" : "outline"}
+              size="sm"
+              className="h-7 gap-1.5 text-xs"
+              onClick={() => setSelectedId(table.id)}
+              data-testid={`button-sheet-${table.position}`}
+            >
+              <Sheet className="w-3.5 h-3.5" />
+              {table.name}
+              <Badge variant="secondary" className="text-[10px] px-1 py-0">{table.rowCount.toLocaleString()}</Badge>
+            </Button>
+          ))}
+        </div>
+      )}
+      {/* Keyed so filters and sorting reset when switching sheets */}
+      <DocumentTableGrid key={selected.id} documentId={documentId} table={selected} />
+    </div>
+  );
+}
@@ -14,6 +14,8 @@ import {
   Building2,
   ChevronRight,
   User,
+  Layers,
+  GitMerge,
 } from "lucide-react";
 import type { TimelineEvent } from "@shared/schema";
 
@@ -105,11 +107,54 @@ function formatDate(date: string): string {
   return date;
 }
 
+const DAY_MS = 86_400_000;
+
+/** Number of days an uncertain event may fall on, or null for a single known day. */
+function uncertainDays(event: TimelineEvent): number | null {
+  if (!event.dateEarliest || !event.dateLatest || event.datePrecision === "day") return null;
+  const days = (Date.parse(event.dateLatest) - Date.parse(event.dateEarliest)) / DAY_MS + 1;
+  return days > 1 ? days : null;
+}
+
+// Span length grows with the log of the range: about 20px for a month, 36px for a year, 53px for a decade
+function spanHeight(days: number): number {
+  return Math.round(Math.min(56, 8 + 5 * Math.log2(days / 7 + 1)));
+}
+
+/** Uncertain dates read as written ("circa 2002", "spring 1999"); exact ones are formatted. */
+function eventDateLabel(event: TimelineEvent): string {
+  return uncertainDays(event) !== null && event.dateOriginal ? event.dateOriginal : formatDate(event.date);
+}
+
+/** The event's mark on the spine: a dot for a known day, a bar as long as the range for an uncertain date. */
+function EventNode({ event, nodeColor, isHigh }: { event: TimelineEvent; nodeColor: string; isHigh: boolean }) {
+  const size = significanceSize[event.significance] || significanceSize[1];
+  const days = uncertainDays(event);
+  if (days !== null) {
+    return (
+      <div className="w-7 flex items-center justify-center" title={`${event.dateEarliest} – ${event.dateLatest}`}>
+        <div
+          className={`w-2.5 rounded-full ${nodeColor} ${isHigh ? "opacity-80" : "opacity-50"} ring-2 ring-background`}
+          style={{ height: spanHeight(days) }}
+          data-testid={`span-event-${event.id}`}
+        />
+      </div>
+    );
+  }
+  return (
+    <div className={`${size.ring} rounded-full flex items-center justify-center ${isHigh ? "bg-primary/15" : ""}`}>
+      <div className={`${size.dot} rounded-full ${nodeColor} ring-2 ring-background`} />
+    </div>
+  );
+}
+
 interface TimelineVizProps {
   events: EnrichedTimelineEvent[];
+  /** Extra controls rendered in each event card's header (e.g. "Add to workspace") */
+  renderEventActions?: (event: EnrichedTimelineEvent) => React.ReactNode;
 }
 
-export default function TimelineViz({ events }: TimelineVizProps) {
+export default function TimelineViz({ events, renderEventActions }: TimelineVizProps) {
   const [collapsedYears, setCollapsedYears] = useState<Set<number>>(new Set());
 
   const yearGroups = useMemo(() => groupByYear(events), [events]);
@@ -177,7 +222,6 @@ export default function TimelineViz({ events }: TimelineVizProps) {
                 {group.events.map((event, idx) => {
                   const Icon = categoryIcons[event.category] || Clock;
                   const nodeColor = categoryNodeColors[event.category] || "bg-muted-foreground";
-                  const size = significanceSize[event.significance] || significanceSize[1];
                   const isHigh = event.significance >= 3;
                   const isLeft = idx % 2 === 0;
 
@@ -191,30 +235,26 @@ export default function TimelineViz({ events }: TimelineVizProps) {
                       <div className="md:hidden flex items-start gap-3 pl-0">
                         {/* Node on the spine */}
                         <div className="relative z-10 flex items-center justify-center shrink-0 w-8">
-                          <div className={`${size.ring} rounded-full flex items-center justify-center ${isHigh ? "bg-primary/15" : ""}`}>
-                            <div className={`${size.dot} rounded-full ${nodeColor} ring-2 ring-background`} />
-                          </div>
+                          <EventNode event={event} nodeColor={nodeColor} isHigh={isHigh} />
                         </div>
-                        <EventCard event={event} Icon={Icon} nodeColor={nodeColor} isHigh={isHigh} />
+                        <EventCard event={event} Icon={Icon} nodeColor={nodeColor} isHigh={isHigh} actions={renderEventActions?.(event)} />
                       </div>
 
                       {/* Desktop: alternating left/right */}
                       <div className="hidden md:grid md:grid-cols-[1fr_auto_1fr] md:gap-4 items-start">
                         {/* Left column */}
                         <div className={`flex ${isLeft ? "justify-end" : ""}`}>
-                          {isLeft && <EventCard event={event} Icon={Icon} nodeColor={nodeColor} isHigh={isHigh} align="right" />}
+                          {isLeft && <EventCard event={event} Icon={Icon} nodeColor={nodeColor} isHigh={isHigh} actions={renderEventActions?.(event)} align="right" />}
                         </div>
 
                         {/* Center node */}
                         <div className="relative z-10 flex items-center justify-center w-8">
-                          <div className={`${size.ring} rounded-full flex items-center justify-center ${isHigh ? "bg-primary/15" : ""}`}>
-                            <div className={`${size.dot} rounded-full ${nodeColor} ring-2 ring-background`} />
-                          </div>
+                          <EventNode event={event} nodeColor={nodeColor} isHigh={isHigh} />
                         </div>
 
                         {/* Right column */}
                         <div className={`flex ${!isLeft ? "justify-start" : ""}`}>
-                          {!isLeft && <EventCard event={event} Icon={Icon} nodeColor={nodeColor} isHigh={isHigh} align="left" />}
+                          {!isLeft && <EventCard event={event} Icon={Icon} nodeColor={nodeColor} isHigh={isHigh} actions={renderEventActions?.(event)} align="left" />}
                         </div>
                       </div>
                     </div>
@@ -235,12 +275,14 @@ function EventCard({
   nodeColor,
   isHigh,
   align = "left",
+  actions,
 }: {
   event: EnrichedTimelineEvent;
   Icon: React.ComponentType<{ className?: string }>;
   nodeColor: string;
   isHigh: boolean;
   align?: "left" | "right";
+  actions?: React.ReactNode;
 }) {
   const hasPersons = event.persons && event.persons.length > 0;
   const hasDocs = event.documents && event.documents.length > 0;
@@ -250,7 +292,12 @@ function EventCard({
       <CardContent className="p-3">
         <div className={`flex flex-col gap-1.5 ${align === "right" ? "items-end" : "items-start"}`}>
           <div className={`flex items-center gap-1.5 flex-wrap ${align === "right" ? "flex-row-reverse" : ""}`}>
-            <span className="text-[11px] font-mono text-muted-foreground">{formatDate(event.date)}</span>
+            <span
+              className="text-[11px] font-mono text-muted-foreground"
+              title={event.dateEarliest && event.dateLatest ? `${event.dateEarliest} – ${event.dateLatest}` : undefined}
+            >
+              {eventDateLabel(event)}
+            </span>
             <Badge
               variant="secondary"
               className={`text-[10px] px-1 py-0 ${categoryBadgeColors[event.category] || ""}`}
@@ -258,6 +305,27 @@ function EventCard({
               <Icon className="w-2.5 h-2.5 mr-0.5" />
               {event.category}
             </Badge>
+            {event.corroboration > 1 && (
+              <Badge
+                variant="secondary"
+                className="text-[10px] px-1 py-0 gap-0.5"
+                title={`Mentioned in ${event.corroboration} independent data sets`}
+              >
+                <Layers className="w-2.5 h-2.5" />
+                {event.corroboration}
+              </Badge>
+            )}
+            {event.mergedFrom && event.mergedFrom.length > 0 && (
+              <span title={`Merged from ${event.mergedFrom.length + 1} likely-duplicate events`}>
+                <GitMerge className="w-3 h-3 text-muted-foreground" />
+              </span>
+            )}
+            {event.sourcesDisagree && (
+              <span title="Sources disagree on the date">
+                <AlertTriangle className="w-3 h-3 text-amber-500" />
+              </span>
+            )}
+            {actions}
           </div>
           <h3 className={`text-sm font-semibold leading-tight ${isHigh ? "text-foreground" : "text-foreground/80"}`}>
             {event.title}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+
+interface WorkspaceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  initialName?: string;
+  initialDescription?: string | null;
+  submitLabel?: string;
+  isSaving?: boolean;
+  onSave: (values: { name: string; description: string | null }) => void;
+}
+
+export function WorkspaceDialog({
+  open,
+  onOpenChange,
+  title,
+  initialName,
+  initialDescription,
+  submitLabel = "Save",
+  isSaving,
+  onSave,
+}: WorkspaceDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  // Reset the form each time the dialog opens; later prop changes must not clobber typing
+  useEffect(() => {
+    if (open) {
+      setName(initialName ?? "");
+      setDescription(initialDescription ?? "");
+    }
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({ name: name.trim(), description: description.trim() || null });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+          </DialogHeader>
+
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input
+              id="workspace-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={120}
+              placeholder="e.g. 2002 flight logs"
+              autoFocus
+              data-testid="input-workspace-name"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="workspace-description">Description</Label>
+            <Textarea
+              id="workspace-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={2000}
+              rows={3}
+              placeholder="What is this line of inquiry about?"
+              data-testid="input-workspace-description"
+            />
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()} data-testid="button-save-workspace">
+              {isSaving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
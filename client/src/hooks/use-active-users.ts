@@ -1,10 +1,19 @@
 import { useState, useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { PIPELINE_LIVE_KEYS } from "@/hooks/use-pipeline-admin";
+import { SEARCH_ALERTS_KEY } from "@/hooks/use-search-alerts";
+import { toast } from "@/hooks/use-toast";
 
 export function useActiveUsers() {
   const [count, setCount] = useState(0);
   const [isConnected, setIsConnected] = useState(false);
   const reconnectDelay = useRef(1000);
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
 
+  // The server reads the session when the socket opens, so reconnect on sign-in/out
   useEffect(() => {
     let ws: WebSocket | null = null;
     let timer: ReturnType<typeof setTimeout> | null = null;
@@ -25,6 +34,15 @@ export function useActiveUsers() {
           const data = JSON.parse(event.data);
           if (data.type === "active-users") {
             setCount(data.count);
+          } else if (data.type === "search-alerts") {
+            queryClient.invalidateQueries({ queryKey: SEARCH_ALERTS_KEY });
+            toast({
+              title: "New results for your saved searches",
+              description: `${data.unreadCount} unread ${data.unreadCount === 1 ? "alert" : "alerts"}`,
+            });
+          } else if (data.type === "pipeline-jobs") {
+            // Sent to admins only, batched per second; the dashboard refetches what it shows
+            for (const key of PIPELINE_LIVE_KEYS) queryClient.invalidateQueries({ queryKey: key });
           }
         } catch {
           // ignore malformed messages
@@ -49,7 +67,7 @@ export function useActiveUsers() {
       if (timer) clearTimeout(timer);
       ws?.close();
     };
-  }, []);
+  }, [userId, queryClient]);
 
   return { count, isConnected };
 }
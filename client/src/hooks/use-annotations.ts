@@ -0,0 +1,79 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
+import type { AnnotationBBox, DocumentAnnotation, DocumentAnnotationWithDocument } from "@shared/schema";
+
+const ANNOTATIONS_KEY = ["/api/annotations"];
+
+export interface NewAnnotation {
+  documentId: number;
+  pageNumber: number;
+  charStart?: number;
+  charEnd?: number;
+  bbox?: AnnotationBBox;
+  note?: string;
+  tags?: string[];
+}
+
+/**
+ * The session user's annotations — for one document when `documentId` is given,
+ * otherwise across all documents (newest first).
+ */
+export function useAnnotations(documentId?: number, tag?: string) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const params = new URLSearchParams();
+  if (documentId !== undefined) params.set("documentId", String(documentId));
+  if (tag) params.set("tag", tag);
+  const qs = params.toString();
+
+  const { data: annotations = [], isLoading } = useQuery<DocumentAnnotationWithDocument[]>({
+    queryKey: [...ANNOTATIONS_KEY, userId, documentId ?? "all", tag ?? ""],
+    queryFn: async () => {
+      const res = await fetch(`/api/annotations${qs ? `?${qs}` : ""}`, { cache: "no-store", credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch annotations");
+      return res.json();
+    },
+    enabled: userId !== null,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ANNOTATIONS_KEY });
+
+  const createMutation = useMutation({
+    mutationFn: async (annotation: NewAnnotation) => {
+      const res = await apiRequest("POST", "/api/annotations", annotation);
+      return res.json() as Promise<DocumentAnnotation>;
+    },
+    onError: () => toast({ title: "Could not save annotation", variant: "destructive" }),
+    onSettled: invalidate,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...update }: { id: number; note?: string | null; tags?: string[] }) => {
+      const res = await apiRequest("PATCH", `/api/annotations/${id}`, update);
+      return res.json() as Promise<DocumentAnnotation>;
+    },
+    onError: () => toast({ title: "Could not update annotation", variant: "destructive" }),
+    onSettled: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/annotations/${id}`);
+    },
+    onSettled: invalidate,
+  });
+
+  return {
+    annotations,
+    isLoading,
+    canAnnotate: userId !== null,
+    createAnnotation: createMutation.mutateAsync,
+    updateAnnotation: updateMutation.mutateAsync,
+    deleteAnnotation: deleteMutation.mutate,
+    isSaving: createMutation.isPending || updateMutation.isPending,
+  };
+}
@@ -0,0 +1,63 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { getClientId } from "@/lib/client-id";
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  /** Flagged is_admin on the server; unlocks the pipeline dashboard */
+  isAdmin: boolean;
+}
+
+const USER_KEY = ["/api/auth/user"];
+
+// Per-user data that must be refetched whenever the session changes
+const USER_SCOPED_KEYS = [["/api/bookmarks"], ["/api/votes"], ["/api/person-votes"], ["/api/annotations"], ["/api/workspaces"], ["/api/search-alerts"]];
+
+export function useAuth() {
+  const queryClient = useQueryClient();
+
+  const { data: user = null, isLoading } = useQuery<AuthUser | null>({
+    queryKey: USER_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onSessionChange = (next: AuthUser | null) => {
+    queryClient.setQueryData(USER_KEY, next);
+    for (const key of USER_SCOPED_KEYS) {
+      queryClient.invalidateQueries({ queryKey: key });
+    }
+  };
+
+  // The anonymous client ID lets the server move pre-login bookmarks and votes into the account
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: { username: string; password: string }) => {
+      const res = await apiRequest("POST", "/api/auth/login", { ...credentials, clientId: getClientId() });
+      return res.json() as Promise<AuthUser>;
+    },
+    onSuccess: onSessionChange,
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: { username: string; password: string }) => {
+      const res = await apiRequest("POST", "/api/auth/register", { ...credentials, clientId: getClientId() });
+      return res.json() as Promise<AuthUser>;
+    },
+    onSuccess: onSessionChange,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => onSessionChange(null),
+  });
+
+  return {
+    user,
+    isLoading,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+  };
+}
@@ -1,7 +1,8 @@
 import { useMemo, useState, useCallback, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { getClientId } from "@/lib/client-id";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
 import type { Bookmark } from "@shared/schema";
 
 const BOOKMARKS_KEY = ["/api/bookmarks"];
@@ -13,8 +14,9 @@ function toKey(entityType: string, entityId?: number | null, searchQuery?: strin
 
 export function useBookmarks() {
   const queryClient = useQueryClient();
-  const clientId = getClientId();
-  const queryKey = [...BOOKMARKS_KEY, clientId];
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const queryKey = [...BOOKMARKS_KEY, userId];
 
   // Local optimistic state for instant feedback
   const [pendingAdds, setPendingAdds] = useState<Set<string>>(new Set());
@@ -23,10 +25,11 @@ export function useBookmarks() {
   const { data: serverBookmarks = [], ...queryRest } = useQuery<Bookmark[]>({
     queryKey,
     queryFn: async () => {
-      const res = await fetch(`/api/bookmarks?userId=${encodeURIComponent(clientId)}`, { cache: "no-store" });
+      const res = await fetch("/api/bookmarks", { cache: "no-store", credentials: "include" });
       if (!res.ok) throw new Error("Failed to fetch bookmarks");
       return res.json();
     },
+    enabled: userId !== null,
   });
 
   // Auto-clear pending state once server data catches up
@@ -57,7 +60,7 @@ export function useBookmarks() {
         const [entityType, rest] = key.split(":", 2);
         result = [...result, {
           id: -Date.now(),
-          userId: clientId,
+          userId: userId ?? "",
           entityType,
           entityId: entityType !== "search" ? Number(rest) : null,
           searchQuery: entityType === "search" ? rest : null,
@@ -67,7 +70,7 @@ export function useBookmarks() {
       }
     }
     return result;
-  }, [serverBookmarks, pendingAdds, pendingRemoves, clientId]);
+  }, [serverBookmarks, pendingAdds, pendingRemoves, userId]);
 
   const createMutation = useMutation({
     mutationFn: async (params: {
@@ -76,7 +79,7 @@ export function useBookmarks() {
       searchQuery?: string;
       label?: string;
     }) => {
-      const res = await apiRequest("POST", "/api/bookmarks", { ...params, userId: clientId });
+      const res = await apiRequest("POST", "/api/bookmarks", params);
       return res.json() as Promise<Bookmark>;
     },
     onSettled: () => {
@@ -117,6 +120,10 @@ export function useBookmarks() {
     searchQuery?: string,
     label?: string,
   ) => {
+    if (!userId) {
+      toast({ title: "Sign in to save bookmarks", description: "Bookmarks are stored in your account." });
+      return;
+    }
     const key = toKey(entityType, entityId, searchQuery);
     const existing = bookmarks.find((b) => {
       if (b.entityType !== entityType) return false;
@@ -136,7 +143,7 @@ export function useBookmarks() {
       setPendingAdds((prev) => new Set(prev).add(key));
       createMutation.mutate({ entityType, entityId, searchQuery, label });
     }
-  }, [bookmarks, createMutation, deleteMutation]);
+  }, [bookmarks, createMutation, deleteMutation, userId]);
 
   const deleteBookmark = useCallback((id: number) => {
     const bookmark = serverBookmarks.find((b) => b.id === id);
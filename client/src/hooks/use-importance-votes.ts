@@ -1,7 +1,8 @@
 import { useMemo, useState, useCallback, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { getClientId } from "@/lib/client-id";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
 
 interface DocumentVote {
   id: number;
@@ -16,19 +17,21 @@ const MOST_VOTED_DOCS_KEY = ["/api/most-voted/documents?limit=5"];
 
 export function useImportanceVotes(documentIds: number[] = []) {
   const queryClient = useQueryClient();
-  const clientId = getClientId();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
 
   // Optimistic local state
   const [pendingVotes, setPendingVotes] = useState<Set<number>>(new Set());
   const [pendingUnvotes, setPendingUnvotes] = useState<Set<number>>(new Set());
 
   const { data: serverVotes = [], ...queryRest } = useQuery<DocumentVote[]>({
-    queryKey: [...VOTES_KEY, clientId],
+    queryKey: [...VOTES_KEY, userId],
     queryFn: async () => {
-      const res = await fetch(`/api/votes?userId=${encodeURIComponent(clientId)}`, { cache: "no-store" });
+      const res = await fetch("/api/votes", { cache: "no-store", credentials: "include" });
       if (!res.ok) throw new Error("Failed to fetch votes");
       return res.json();
     },
+    enabled: userId !== null,
   });
 
   const sortedIds = useMemo(() => [...documentIds].sort((a, b) => a - b), [documentIds]);
@@ -71,14 +74,14 @@ export function useImportanceVotes(documentIds: number[] = []) {
       if (!result.some((v) => v.documentId === docId)) {
         result = [...result, {
           id: -Date.now(),
-          userId: clientId,
+          userId: userId ?? "",
           documentId: docId,
           createdAt: new Date().toISOString(),
         }];
       }
     }
     return result;
-  }, [serverVotes, pendingVotes, pendingUnvotes, clientId]);
+  }, [serverVotes, pendingVotes, pendingUnvotes, userId]);
 
   // Optimistic vote counts
   const voteCounts = useMemo(() => {
@@ -98,7 +101,7 @@ export function useImportanceVotes(documentIds: number[] = []) {
 
   const createMutation = useMutation({
     mutationFn: async (documentId: number) => {
-      const res = await apiRequest("POST", "/api/votes", { documentId, userId: clientId });
+      const res = await apiRequest("POST", "/api/votes", { documentId });
       return res.json() as Promise<DocumentVote>;
     },
     onSettled: () => {
@@ -133,6 +136,10 @@ export function useImportanceVotes(documentIds: number[] = []) {
   }, [voteCounts]);
 
   const toggleVote = useCallback((documentId: number) => {
+    if (!userId) {
+      toast({ title: "Sign in to vote", description: "Votes are recorded against your account." });
+      return;
+    }
     const existing = votes.find((v) => v.documentId === documentId);
     if (existing) {
       if (existing.id < 0) {
@@ -146,7 +153,7 @@ export function useImportanceVotes(documentIds: number[] = []) {
       setPendingVotes((prev) => new Set(prev).add(documentId));
       createMutation.mutate(documentId);
     }
-  }, [votes, createMutation, deleteMutation]);
+  }, [votes, createMutation, deleteMutation, userId]);
 
   return {
     votes,
@@ -64,6 +64,7 @@ export function useKeyboardShortcuts(navigate: (path: string) => void) {
           d: "/documents",
           t: "/timeline",
           n: "/network",
+          m: "/map",
           h: "/",
           s: "/search",
           a: "/ai-insights",
@@ -98,6 +99,7 @@ export const shortcutsList: { keys: string; label: string }[] = [
   { keys: "g d", label: "Go to Documents" },
   { keys: "g t", label: "Go to Timeline" },
   { keys: "g n", label: "Go to Network" },
+  { keys: "g m", label: "Go to Map" },
   { keys: "g h", label: "Go to Home" },
   { keys: "g s", label: "Go to Search" },
   { keys: "g a", label: "Go to AI Insights" },
@@ -1,7 +1,8 @@
 import { useMemo, useState, useCallback, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { getClientId } from "@/lib/client-id";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
 
 interface PersonVote {
   id: number;
@@ -16,18 +17,20 @@ const MOST_VOTED_PERSONS_KEY = ["/api/most-voted/persons?limit=6"];
 
 export function usePersonVotes(personIds: number[] = []) {
   const queryClient = useQueryClient();
-  const clientId = getClientId();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
 
   const [pendingVotes, setPendingVotes] = useState<Set<number>>(new Set());
   const [pendingUnvotes, setPendingUnvotes] = useState<Set<number>>(new Set());
 
   const { data: serverVotes = [], ...queryRest } = useQuery<PersonVote[]>({
-    queryKey: [...VOTES_KEY, clientId],
+    queryKey: [...VOTES_KEY, userId],
     queryFn: async () => {
-      const res = await fetch(`/api/person-votes?userId=${encodeURIComponent(clientId)}`, { cache: "no-store" });
+      const res = await fetch("/api/person-votes", { cache: "no-store", credentials: "include" });
       if (!res.ok) throw new Error("Failed to fetch person votes");
       return res.json();
     },
+    enabled: userId !== null,
   });
 
   const sortedIds = useMemo(() => [...personIds].sort((a, b) => a - b), [personIds]);
@@ -68,14 +71,14 @@ export function usePersonVotes(personIds: number[] = []) {
       if (!result.some((v) => v.personId === id)) {
         result = [...result, {
           id: -Date.now(),
-          userId: clientId,
+          userId: userId ?? "",
           personId: id,
           createdAt: new Date().toISOString(),
         }];
       }
     }
     return result;
-  }, [serverVotes, pendingVotes, pendingUnvotes, clientId]);
+  }, [serverVotes, pendingVotes, pendingUnvotes, userId]);
 
   const voteCounts = useMemo(() => {
     const counts = { ...serverCounts };
@@ -94,7 +97,7 @@ export function usePersonVotes(personIds: number[] = []) {
 
   const createMutation = useMutation({
     mutationFn: async (personId: number) => {
-      const res = await apiRequest("POST", "/api/person-votes", { personId, userId: clientId });
+      const res = await apiRequest("POST", "/api/person-votes", { personId });
       return res.json() as Promise<PersonVote>;
     },
     onSettled: () => {
@@ -129,6 +132,10 @@ export function usePersonVotes(personIds: number[] = []) {
   }, [voteCounts]);
 
   const toggleVote = useCallback((personId: number) => {
+    if (!userId) {
+      toast({ title: "Sign in to vote", description: "Votes are recorded against your account." });
+      return;
+    }
     const existing = votes.find((v) => v.personId === personId);
     if (existing) {
       if (existing.id < 0) {
@@ -141,7 +148,7 @@ export function usePersonVotes(personIds: number[] = []) {
       setPendingVotes((prev) => new Set(prev).add(personId));
       createMutation.mutate(personId);
     }
-  }, [votes, createMutation, deleteMutation]);
+  }, [votes, createMutation, deleteMutation, userId]);
 
   return {
     votes,
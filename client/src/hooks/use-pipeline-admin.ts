@@ -0,0 +1,112 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
+import type { BudgetSpendRow, PipelineJob, PipelineRunProgress, PipelineThroughput } from "@shared/schema";
+
+/** Queries refreshed when /ws pushes a "pipeline-jobs" message */
+export const PIPELINE_LIVE_KEYS = [
+  ["/api/pipeline/stats"],
+  ["/api/pipeline/runs"],
+  ["/api/pipeline/jobs"],
+  ["/api/pipeline/throughput"],
+];
+
+export type SpendPeriod = "day" | "month";
+
+interface PipelineStats {
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+}
+
+async function fetchJson<T>(url: string, errorMessage: string): Promise<T> {
+  const res = await fetch(url, { cache: "no-store", credentials: "include" });
+  if (!res.ok) throw new Error(errorMessage);
+  return res.json();
+}
+
+/** Pipeline and AI spend data for the admin dashboard, plus retry and priority controls. */
+export function usePipelineAdmin({ hours, period }: { hours: number; period: SpendPeriod }) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const enabled = user?.isAdmin === true;
+
+  const stats = useQuery<PipelineStats>({
+    queryKey: ["/api/pipeline/stats"],
+    queryFn: () => fetchJson("/api/pipeline/stats", "Failed to fetch pipeline stats"),
+    enabled,
+  });
+
+  const runs = useQuery<PipelineRunProgress[]>({
+    queryKey: ["/api/pipeline/runs"],
+    queryFn: () => fetchJson("/api/pipeline/runs?limit=5", "Failed to fetch pipeline runs"),
+    enabled,
+  });
+
+  const throughput = useQuery<PipelineThroughput>({
+    queryKey: ["/api/pipeline/throughput", hours],
+    queryFn: () => fetchJson(`/api/pipeline/throughput?hours=${hours}`, "Failed to fetch pipeline throughput"),
+    enabled,
+  });
+
+  const failed = useQuery<PipelineJob[]>({
+    queryKey: ["/api/pipeline/jobs", "failed"],
+    queryFn: () => fetchJson("/api/pipeline/jobs?status=failed&limit=200", "Failed to fetch failed jobs"),
+    enabled,
+  });
+
+  const pending = useQuery<PipelineJob[]>({
+    queryKey: ["/api/pipeline/jobs", "pending"],
+    queryFn: () => fetchJson("/api/pipeline/jobs?status=pending&limit=200", "Failed to fetch pending jobs"),
+    enabled,
+  });
+
+  const spend = useQuery<BudgetSpendRow[]>({
+    queryKey: ["/api/budget/spend", period],
+    queryFn: () => fetchJson(`/api/budget/spend?period=${period}`, "Failed to fetch AI spend"),
+    enabled,
+  });
+
+  const invalidate = () => {
+    for (const key of PIPELINE_LIVE_KEYS) queryClient.invalidateQueries({ queryKey: key });
+  };
+
+  const retryMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const res = await apiRequest("POST", "/api/pipeline/jobs/retry", { ids });
+      return res.json() as Promise<{ retried: number }>;
+    },
+    onSuccess: ({ retried }) => toast({
+      title: `${retried} ${retried === 1 ? "job" : "jobs"} queued for retry`,
+      description: "A pipeline worker picks them up on its next claim (run-pipeline.ts --worker).",
+    }),
+    onError: () => toast({ title: "Could not retry jobs", variant: "destructive" }),
+    onSettled: invalidate,
+  });
+
+  const priorityMutation = useMutation({
+    mutationFn: async ({ id, priority }: { id: number; priority: number }) => {
+      const res = await apiRequest("PATCH", `/api/pipeline/jobs/${id}`, { priority });
+      return res.json() as Promise<PipelineJob>;
+    },
+    onError: () => toast({ title: "Could not change priority", variant: "destructive" }),
+    onSettled: invalidate,
+  });
+
+  return {
+    isAdmin: enabled,
+    stats: stats.data,
+    runs: runs.data ?? [],
+    throughput: throughput.data,
+    failedJobs: failed.data ?? [],
+    pendingJobs: pending.data ?? [],
+    spend: spend.data ?? [],
+    isLoading: stats.isLoading || throughput.isLoading,
+    lastUpdatedAt: Math.max(stats.dataUpdatedAt, runs.dataUpdatedAt, failed.dataUpdatedAt, pending.dataUpdatedAt),
+    retryJobs: retryMutation.mutate,
+    isRetrying: retryMutation.isPending,
+    setPriority: priorityMutation.mutate,
+  };
+}
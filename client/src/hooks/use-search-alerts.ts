@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import type { SearchAlert } from "@shared/schema";
+
+export const SEARCH_ALERTS_KEY = ["/api/search-alerts"];
+
+interface SearchAlertsResponse {
+  alerts: SearchAlert[];
+  unreadCount: number;
+}
+
+/** Saved-search alerts for the session user; refreshed when /ws pushes a "search-alerts" message. */
+export function useSearchAlerts() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const { data, isLoading } = useQuery<SearchAlertsResponse>({
+    queryKey: [...SEARCH_ALERTS_KEY, userId],
+    queryFn: async () => {
+      const res = await fetch("/api/search-alerts", { cache: "no-store", credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch search alerts");
+      return res.json();
+    },
+    enabled: userId !== null,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      await apiRequest("POST", "/api/search-alerts/read", ids ? { ids } : {});
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: SEARCH_ALERTS_KEY }),
+  });
+
+  const alerts = data?.alerts ?? [];
+
+  /** New results per saved-search bookmark, summed over its unread alerts. */
+  const unreadByBookmark = new Map<number, number>();
+  for (const alert of alerts) {
+    if (alert.readAt) continue;
+    unreadByBookmark.set(alert.bookmarkId, (unreadByBookmark.get(alert.bookmarkId) ?? 0) + alert.newDocumentCount);
+  }
+
+  const markBookmarkRead = (bookmarkId: number) => {
+    const ids = alerts.filter((a) => a.bookmarkId === bookmarkId && !a.readAt).map((a) => a.id);
+    if (ids.length > 0) markReadMutation.mutate(ids);
+  };
+
+  return {
+    alerts,
+    unreadCount: data?.unreadCount ?? 0,
+    unreadByBookmark,
+    isLoading,
+    markRead: markReadMutation.mutate,
+    markBookmarkRead,
+  };
+}
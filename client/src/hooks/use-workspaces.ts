@@ -0,0 +1,171 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
+import type {
+  Workspace,
+  WorkspaceDetail,
+  WorkspaceItem,
+  WorkspaceItemType,
+  WorkspaceSummary,
+  WorkspaceVisualization,
+} from "@shared/schema";
+
+const WORKSPACES_KEY = ["/api/workspaces"];
+
+export interface NewWorkspaceItem {
+  itemType: WorkspaceItemType;
+  entityId?: number;
+  searchQuery?: string;
+  noteText?: string;
+  comment?: string;
+}
+
+async function fetchJson<T>(url: string, errorMessage: string): Promise<T> {
+  const res = await fetch(url, { cache: "no-store", credentials: "include" });
+  if (!res.ok) throw new Error(errorMessage);
+  return res.json();
+}
+
+/** The session user's workspaces, plus creating workspaces and adding items to them. */
+export function useWorkspaces() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  const { data: workspaces = [], isLoading } = useQuery<WorkspaceSummary[]>({
+    queryKey: [...WORKSPACES_KEY, userId],
+    queryFn: () => fetchJson("/api/workspaces", "Failed to fetch workspaces"),
+    enabled: userId !== null,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: WORKSPACES_KEY });
+
+  const createMutation = useMutation({
+    mutationFn: async (workspace: { name: string; description?: string }) => {
+      const res = await apiRequest("POST", "/api/workspaces", workspace);
+      return res.json() as Promise<Workspace>;
+    },
+    onError: () => toast({ title: "Could not create workspace", variant: "destructive" }),
+    onSettled: invalidate,
+  });
+
+  const addItemMutation = useMutation({
+    mutationFn: async ({ workspaceId, ...item }: NewWorkspaceItem & { workspaceId: number }) => {
+      const res = await apiRequest("POST", `/api/workspaces/${workspaceId}/items`, item);
+      return res.json() as Promise<WorkspaceItem>;
+    },
+    onError: () => toast({ title: "Could not add to workspace", variant: "destructive" }),
+    onSettled: invalidate,
+  });
+
+  return {
+    workspaces,
+    isLoading,
+    canUseWorkspaces: userId !== null,
+    createWorkspace: createMutation.mutateAsync,
+    addItem: addItemMutation.mutateAsync,
+    isSaving: createMutation.isPending || addItemMutation.isPending,
+  };
+}
+
+/** One workspace with its ordered items, graph/timeline data and item mutations. */
+export function useWorkspace(id: number) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const detailKey = [...WORKSPACES_KEY, userId, id];
+
+  const { data: workspace, isLoading, error } = useQuery<WorkspaceDetail>({
+    queryKey: detailKey,
+    queryFn: () => fetchJson(`/api/workspaces/${id}`, "Failed to fetch workspace"),
+    enabled: userId !== null && !isNaN(id),
+  });
+
+  const { data: visualization, isLoading: visualizationLoading } = useQuery<WorkspaceVisualization>({
+    queryKey: [...detailKey, "visualization"],
+    queryFn: () => fetchJson(`/api/workspaces/${id}/visualization`, "Failed to fetch workspace visualization"),
+    enabled: userId !== null && !!workspace,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: WORKSPACES_KEY });
+
+  const updateMutation = useMutation({
+    mutationFn: async (update: { name?: string; description?: string | null }) => {
+      const res = await apiRequest("PATCH", `/api/workspaces/${id}`, update);
+      return res.json() as Promise<Workspace>;
+    },
+    onError: () => toast({ title: "Could not update workspace", variant: "destructive" }),
+    onSettled: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/workspaces/${id}`);
+    },
+    onError: () => toast({ title: "Could not delete workspace", variant: "destructive" }),
+    onSettled: invalidate,
+  });
+
+  const addItemMutation = useMutation({
+    mutationFn: async (item: NewWorkspaceItem) => {
+      const res = await apiRequest("POST", `/api/workspaces/${id}/items`, item);
+      return res.json() as Promise<WorkspaceItem>;
+    },
+    onError: () => toast({ title: "Could not add item", variant: "destructive" }),
+    onSettled: invalidate,
+  });
+
+  const updateItemMutation = useMutation({
+    mutationFn: async ({ itemId, ...update }: { itemId: number; comment?: string | null; noteText?: string }) => {
+      const res = await apiRequest("PATCH", `/api/workspaces/${id}/items/${itemId}`, update);
+      return res.json() as Promise<WorkspaceItem>;
+    },
+    onError: () => toast({ title: "Could not update item", variant: "destructive" }),
+    onSettled: invalidate,
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: async (itemId: number) => {
+      await apiRequest("DELETE", `/api/workspaces/${id}/items/${itemId}`);
+    },
+    onSettled: invalidate,
+  });
+
+  // Reordering is optimistic so up/down moves feel instant
+  const reorderMutation = useMutation({
+    mutationFn: async (itemIds: number[]) => {
+      await apiRequest("PUT", `/api/workspaces/${id}/items/order`, { itemIds });
+    },
+    onMutate: async (itemIds) => {
+      await queryClient.cancelQueries({ queryKey: detailKey });
+      const previous = queryClient.getQueryData<WorkspaceDetail>(detailKey);
+      if (previous) {
+        const byId = new Map(previous.items.map((item) => [item.id, item]));
+        const items = itemIds.map((itemId) => byId.get(itemId)).filter((item) => item !== undefined);
+        queryClient.setQueryData<WorkspaceDetail>(detailKey, { ...previous, items });
+      }
+      return { previous };
+    },
+    onError: (_err, _itemIds, context) => {
+      if (context?.previous) queryClient.setQueryData(detailKey, context.previous);
+      toast({ title: "Could not reorder items", variant: "destructive" });
+    },
+    onSettled: invalidate,
+  });
+
+  return {
+    workspace,
+    isLoading,
+    notFound: !!error,
+    visualization,
+    visualizationLoading,
+    updateWorkspace: updateMutation.mutateAsync,
+    deleteWorkspace: deleteMutation.mutateAsync,
+    addItem: addItemMutation.mutateAsync,
+    updateItem: updateItemMutation.mutateAsync,
+    removeItem: removeItemMutation.mutate,
+    reorderItems: reorderMutation.mutate,
+    isSaving: updateMutation.isPending || addItemMutation.isPending || updateItemMutation.isPending,
+  };
+}
@@ -5,3 +5,10 @@ export function isVideoDocument(doc: Document): boolean {
   const docType = doc.documentType?.toLowerCase() || "";
   return mediaType === "video" || docType === "video";
 }
+
+/** Redaction density (0–1 mean page area) as a short percentage, e.g. "12%" or "<1%". */
+export function formatRedactionDensity(density: number): string {
+  const pct = density * 100;
+  if (pct > 0 && pct < 1) return "<1%";
+  return `${Math.round(pct)}%`;
+}
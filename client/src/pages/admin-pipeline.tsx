@@ -0,0 +1,382 @@
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import type { BudgetSpendRow, PipelineJob } from "@shared/schema";
+import { Activity, AlertTriangle, ArrowDown, ArrowUp, DollarSign, Gauge, ListOrdered, RotateCcw, Workflow } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts";
+import { useAuth } from "@/hooks/use-auth";
+import { usePipelineAdmin, type SpendPeriod } from "@/hooks/use-pipeline-admin";
+
+const hourlyChartConfig: ChartConfig = {
+  completed: { label: "Completed", color: "hsl(var(--primary))" },
+  failed: { label: "Failed", color: "hsl(var(--destructive))" },
+};
+
+const spendChartConfig: ChartConfig = {
+  dollars: { label: "Spend ($)", color: "hsl(var(--chart-2))" },
+};
+
+const WINDOWS = [6, 24, 168];
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function formatDuration(seconds: number | null): string {
+  if (seconds == null) return "—";
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  return `${(seconds / 3600).toFixed(1)}h`;
+}
+
+function jobLabel(job: PipelineJob): string {
+  return job.batchKey && job.batchKey !== "all" ? `${job.jobType} [${job.batchKey}]` : job.jobType;
+}
+
+/** Totals of the spend rows by one key, largest first. */
+function sumBy(rows: BudgetSpendRow[], key: (row: BudgetSpendRow) => string): [string, number][] {
+  const totals = new Map<string, number>();
+  for (const row of rows) totals.set(key(row), (totals.get(key(row)) ?? 0) + row.costCents);
+  return Array.from(totals.entries()).sort((a, b) => b[1] - a[1]);
+}
+
+export default function AdminPipelinePage() {
+  const { user, isLoading: authLoading } = useAuth();
+  const [hours, setHours] = useState(24);
+  const [period, setPeriod] = useState<SpendPeriod>("day");
+  const admin = usePipelineAdmin({ hours, period });
+
+  const spendByPeriod = useMemo(
+    () => sumBy(admin.spend, (r) => r.period)
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([label, cents]) => ({ period: label, dollars: Math.round(cents) / 100 })),
+    [admin.spend],
+  );
+  const spendByModel = useMemo(() => sumBy(admin.spend, (r) => r.model), [admin.spend]);
+  const spendByJobType = useMemo(() => sumBy(admin.spend, (r) => r.jobType ?? "unspecified"), [admin.spend]);
+
+  if (authLoading) {
+    return <p className="p-6 text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  if (!user || !admin.isAdmin) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 gap-4 p-6">
+        <Workflow className="w-10 h-10 text-muted-foreground/40" />
+        <p className="text-sm text-muted-foreground text-center max-w-md">
+          {user ? "The pipeline dashboard is only available to admins." : "Sign in with an admin account to see the pipeline dashboard."}
+        </p>
+        {!user && (
+          <Link href="/login">
+            <Button variant="outline" size="sm" data-testid="button-admin-sign-in">Sign in</Button>
+          </Link>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-8 p-6 max-w-7xl mx-auto w-full">
+      {/* Header */}
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2" data-testid="text-admin-pipeline-title">
+          <Workflow className="w-6 h-6 text-primary" />
+          Pipeline
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Live job state from all pipeline workers
+          {admin.lastUpdatedAt > 0 && <> &middot; updated {new Date(admin.lastUpdatedAt).toLocaleTimeString()}</>}
+        </p>
+      </div>
+
+      {/* Job counts */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        {(["pending", "running", "completed", "failed"] as const).map((status) => (
+          <Card key={status}>
+            <CardContent className="p-4 flex flex-col gap-1">
+              <span className="text-xs text-muted-foreground capitalize">{status}</span>
+              {admin.stats ? (
+                <span className="text-2xl font-bold" data-testid={`text-pipeline-${status}`}>{admin.stats[status].toLocaleString()}</span>
+              ) : (
+                <Skeleton className="h-8 w-16" />
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Runs */}
+      {admin.runs.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-semibold flex items-center gap-2">
+              <Activity className="w-4 h-4 text-primary" />
+              Recent Runs
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-5">
+            {admin.runs.map((run) => (
+              <div key={run.id} className="flex flex-col gap-2" data-testid={`run-${run.id}`}>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-semibold">Run #{run.id}</span>
+                  <Badge variant={run.status === "failed" ? "destructive" : run.status === "completed" ? "secondary" : "default"}>
+                    {run.status}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">started {new Date(run.createdAt).toLocaleString()}</span>
+                </div>
+                <div className="grid gap-1.5 sm:grid-cols-2">
+                  {run.stageProgress.map((stage) => (
+                    <div key={stage.stage} className="flex items-center gap-2 text-xs">
+                      <span className="w-40 truncate">{stage.stage}</span>
+                      <Progress value={(stage.completed / stage.total) * 100} className="h-2 flex-1" />
+                      <span className="w-28 text-right text-muted-foreground">
+                        {stage.completed}/{stage.total}
+                        {stage.failed > 0 && <span className="text-destructive"> &middot; {stage.failed} failed</span>}
+                        {stage.blocked > 0 && <> &middot; {stage.blocked} blocked</>}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Throughput */}
+      <Card>
+        <CardHeader className="pb-2 flex flex-row items-center justify-between gap-4 space-y-0">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <Gauge className="w-4 h-4 text-primary" />
+            Throughput by Stage
+          </CardTitle>
+          <ToggleGroup type="single" size="sm" value={String(hours)} onValueChange={(v) => v && setHours(Number(v))}>
+            {WINDOWS.map((h) => (
+              <ToggleGroupItem key={h} value={String(h)} data-testid={`toggle-window-${h}`}>
+                {h === 168 ? "7d" : `${h}h`}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          {!admin.throughput ? (
+            <Skeleton className="h-[200px] w-full" />
+          ) : admin.throughput.stages.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No pipeline jobs in this window.</p>
+          ) : (
+            <>
+              {admin.throughput.hourly.length > 0 && (
+                <ChartContainer config={hourlyChartConfig} className="h-[180px] w-full">
+                  <BarChart data={admin.throughput.hourly} margin={{ left: 8, right: 16 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="hour" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} tickFormatter={(h: string) => h.slice(11, 16)} />
+                    <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="completed" stackId="jobs" fill="var(--color-completed)" />
+                    <Bar dataKey="failed" stackId="jobs" fill="var(--color-failed)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Stage</TableHead>
+                    <TableHead className="text-right">Completed</TableHead>
+                    <TableHead className="text-right">Per hour</TableHead>
+                    <TableHead className="text-right">Avg time</TableHead>
+                    <TableHead className="text-right">Failed</TableHead>
+                    <TableHead className="text-right">Queued</TableHead>
+                    <TableHead className="text-right">Running</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {admin.throughput.stages.map((s) => (
+                    <TableRow key={s.stage} data-testid={`row-throughput-${s.stage}`}>
+                      <TableCell className="font-medium">{s.stage}</TableCell>
+                      <TableCell className="text-right">{s.completed.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{(s.completed / admin.throughput!.hours).toFixed(1)}</TableCell>
+                      <TableCell className="text-right">{formatDuration(s.avgDurationSeconds)}</TableCell>
+                      <TableCell className={`text-right ${s.failed > 0 ? "text-destructive" : ""}`}>{s.failed}</TableCell>
+                      <TableCell className="text-right">{s.pending}</TableCell>
+                      <TableCell className="text-right">{s.running}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Failures */}
+      <Card>
+        <CardHeader className="pb-2 flex flex-row items-center justify-between gap-4 space-y-0">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-destructive" />
+            Failed Jobs
+            {admin.failedJobs.length > 0 && <Badge variant="destructive">{admin.failedJobs.length}</Badge>}
+          </CardTitle>
+          {admin.failedJobs.length > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-1.5"
+              disabled={admin.isRetrying}
+              onClick={() => admin.retryJobs(admin.failedJobs.map((j) => j.id))}
+              data-testid="button-retry-all"
+            >
+              <RotateCcw className="w-3.5 h-3.5" /> Retry all
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {admin.failedJobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">No failed jobs.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Job</TableHead>
+                  <TableHead>Stage</TableHead>
+                  <TableHead className="w-20 text-right">Attempts</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead className="w-20" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {admin.failedJobs.map((job) => (
+                  <TableRow key={job.id} data-testid={`row-failed-${job.id}`}>
+                    <TableCell className="text-muted-foreground">#{job.id}</TableCell>
+                    <TableCell className="font-medium whitespace-nowrap">
+                      {jobLabel(job)}
+                      {job.runId && <span className="text-xs text-muted-foreground"> &middot; run #{job.runId}</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{job.attempts}/{job.maxAttempts}</TableCell>
+                    <TableCell className="text-xs font-mono text-destructive break-all max-w-xl">{job.errorMessage ?? "—"}</TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={admin.isRetrying}
+                        onClick={() => admin.retryJobs([job.id])}
+                        data-testid={`button-retry-${job.id}`}
+                      >
+                        Retry
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Queue */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <ListOrdered className="w-4 h-4 text-primary" />
+            Queue
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {admin.pendingJobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">No pending jobs.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Job</TableHead>
+                  <TableHead>Stage</TableHead>
+                  <TableHead>Next attempt</TableHead>
+                  <TableHead className="w-40 text-right">Priority</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...admin.pendingJobs].sort((a, b) => b.priority - a.priority || a.id - b.id).map((job) => (
+                  <TableRow key={job.id} data-testid={`row-pending-${job.id}`}>
+                    <TableCell className="text-muted-foreground">#{job.id}</TableCell>
+                    <TableCell className="font-medium whitespace-nowrap">{jobLabel(job)}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {job.nextAttemptAt ? new Date(job.nextAttemptAt).toLocaleTimeString() : "when its dependencies complete"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-1">
+                        <Button size="icon" variant="ghost" className="h-7 w-7" aria-label="Lower priority"
+                          onClick={() => admin.setPriority({ id: job.id, priority: Math.max(-100, job.priority - 1) })}>
+                          <ArrowDown className="w-3.5 h-3.5" />
+                        </Button>
+                        <span className="w-8 text-center tabular-nums" data-testid={`text-priority-${job.id}`}>{job.priority}</span>
+                        <Button size="icon" variant="ghost" className="h-7 w-7" aria-label="Raise priority"
+                          onClick={() => admin.setPriority({ id: job.id, priority: Math.min(100, job.priority + 1) })}>
+                          <ArrowUp className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* AI spend */}
+      <Card>
+        <CardHeader className="pb-2 flex flex-row items-center justify-between gap-4 space-y-0">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <DollarSign className="w-4 h-4 text-primary" />
+            AI Spend
+          </CardTitle>
+          <ToggleGroup type="single" size="sm" value={period} onValueChange={(v) => v && setPeriod(v as SpendPeriod)}>
+            <ToggleGroupItem value="day" data-testid="toggle-spend-day">Daily</ToggleGroupItem>
+            <ToggleGroupItem value="month" data-testid="toggle-spend-month">Monthly</ToggleGroupItem>
+          </ToggleGroup>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          {admin.spend.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No AI spend recorded in this period.</p>
+          ) : (
+            <>
+              <ChartContainer config={spendChartConfig} className="h-[200px] w-full">
+                <BarChart data={spendByPeriod} margin={{ left: 8, right: 16 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} />
+                  <YAxis tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="dollars" fill="var(--color-dollars)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+              <div className="grid gap-6 sm:grid-cols-2">
+                {([["By model", spendByModel], ["By job type", spendByJobType]] as const).map(([title, rows]) => (
+                  <div key={title} className="flex flex-col gap-1.5">
+                    <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">{title}</span>
+                    {rows.map(([name, cents]) => (
+                      <div key={name} className="flex items-center justify-between text-sm">
+                        <span className="truncate">{name}</span>
+                        <span className="tabular-nums">{formatCents(cents)}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import type { AIAnalysisAggregate } from "@shared/schema";
+import type { AIAnalysisAggregate, AIAnalysisListDiff, AIAnalysisVersions } from "@shared/schema";
 import {
   Brain,
   Users,
@@ -7,9 +8,12 @@ import {
   Link2,
   FileText,
   CalendarDays,
+  GitCompare,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   ChartContainer,
@@ -216,6 +220,139 @@ export default function AIInsightsPage() {
           <p className="text-sm text-muted-foreground py-4">No location data available.</p>
         )}
       </div>
+
+      <VersionDiffCard />
+    </div>
+  );
+}
+
+function VersionDiffCard() {
+  const [input, setInput] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [from, setFrom] = useState<number | null>(null);
+
+  const url = `/api/ai-analyses/${encodeURIComponent(fileName)}/versions${from ? `?from=${from}` : ""}`;
+  const { data, isLoading, isError } = useQuery<AIAnalysisVersions>({
+    queryKey: [url],
+    enabled: fileName.length > 0,
+  });
+
+  const diff = data?.diff;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-semibold flex items-center gap-2">
+          <GitCompare className="w-4 h-4 text-primary" />
+          Analysis Versions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setFileName(input.trim());
+            setFrom(null);
+          }}
+        >
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="EFTA00001234.pdf"
+            data-testid="input-version-file"
+          />
+          <Button type="submit" disabled={!input.trim()} data-testid="button-load-versions">
+            Compare
+          </Button>
+        </form>
+
+        {!fileName ? (
+          <p className="text-sm text-muted-foreground">
+            Enter a file name to compare its analysis runs.
+          </p>
+        ) : isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : isError || !data ? (
+          <p className="text-sm text-muted-foreground">No analysis versions found for {fileName}.</p>
+        ) : (
+          <>
+            <div className="flex flex-col gap-1">
+              {data.versions.map((v) => (
+                <button
+                  key={v.version}
+                  type="button"
+                  onClick={() => setFrom(v.version === data.versions[0].version ? null : v.version)}
+                  className={`flex flex-wrap items-center gap-2 rounded-md px-2 py-1 text-left text-sm hover-elevate ${
+                    diff?.from === v.version || diff?.to === v.version ? "bg-muted" : ""
+                  }`}
+                  data-testid={`button-version-${v.version}`}
+                >
+                  <span className="font-medium">v{v.version}</span>
+                  {v.current && <Badge variant="default">current</Badge>}
+                  <Badge variant="outline">Tier {v.tier}</Badge>
+                  {v.model && <span className="text-xs text-muted-foreground">{v.model}</span>}
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    {v.personCount} persons · {v.connectionCount} connections · {v.eventCount} events · {v.keyFactCount} facts
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {diff ? (
+              <div className="flex flex-col gap-3">
+                <p className="text-xs text-muted-foreground">
+                  Changes from v{diff.from} to v{diff.to}. Select an older version to compare it with the newest.
+                </p>
+                <DiffSection title="Persons" diff={diff.persons} label={(p) => p.name} />
+                <DiffSection
+                  title="Connections"
+                  diff={diff.connections}
+                  label={(c) => `${c.person1} ↔ ${c.person2}${c.relationshipType ?? c.type ? ` (${c.relationshipType ?? c.type})` : ""}`}
+                />
+                <DiffSection title="Events" diff={diff.events} label={(e) => (e.date ? `${e.date}: ${e.title}` : e.title)} />
+                <DiffSection title="Key facts" diff={diff.keyFacts} label={(f) => f} />
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Only one version of this file has been analyzed.</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function DiffSection<T>({
+  title,
+  diff,
+  label,
+}: {
+  title: string;
+  diff: AIAnalysisListDiff<T>;
+  label: (item: T) => string;
+}) {
+  return (
+    <div className="flex flex-col gap-1">
+      <span className="text-xs text-muted-foreground uppercase tracking-wider">
+        {title} (+{diff.added.length} / -{diff.removed.length})
+      </span>
+      {diff.added.length + diff.removed.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {diff.added.map((item, i) => (
+            <Badge key={`a${i}`} className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+              + {label(item)}
+            </Badge>
+          ))}
+          {diff.removed.map((item, i) => (
+            <Badge key={`r${i}`} className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 line-through">
+              - {label(item)}
+            </Badge>
+          ))}
+        </div>
+      ) : (
+        <span className="text-sm text-muted-foreground">No changes</span>
+      )}
     </div>
   );
 }
@@ -0,0 +1,156 @@
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AnnotationCard } from "@/components/annotation-card";
+import { AnnotationDialog } from "@/components/annotation-dialog";
+import { Highlighter, Search, X } from "lucide-react";
+import { useAnnotations } from "@/hooks/use-annotations";
+import { useAuth } from "@/hooks/use-auth";
+import type { DocumentAnnotation } from "@shared/schema";
+
+export default function AnnotationsPage() {
+  const { user, isLoading: authLoading } = useAuth();
+  const { annotations, isLoading, updateAnnotation, deleteAnnotation, isSaving } = useAnnotations();
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+  const [editing, setEditing] = useState<DocumentAnnotation | null>(null);
+
+  const tagCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const a of annotations) {
+      for (const tag of a.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  }, [annotations]);
+
+  const visible = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return annotations.filter((a) => {
+      if (activeTag && !a.tags.includes(activeTag)) return false;
+      if (!needle) return true;
+      return [a.documentTitle, a.quote, a.note].some((text) => text?.toLowerCase().includes(needle));
+    });
+  }, [annotations, activeTag, filter]);
+
+  const documentCount = new Set(annotations.map((a) => a.documentId)).size;
+
+  const handleSave = async ({ note, tags }: { note: string | null; tags: string[] }) => {
+    if (!editing) return;
+    try {
+      await updateAnnotation({ id: editing.id, note, tags });
+      setEditing(null);
+    } catch {
+      // Keep the dialog open; the mutation shows the error toast
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6 p-6 max-w-5xl mx-auto w-full">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+          <Highlighter className="w-6 h-6 text-primary" />
+          Annotations
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Your highlights and notes across all documents.
+        </p>
+      </div>
+
+      {isLoading || authLoading ? (
+        <p className="text-sm text-muted-foreground">Loading annotations...</p>
+      ) : !user ? (
+        <div className="flex flex-col items-center justify-center py-16 gap-4">
+          <Highlighter className="w-10 h-10 text-muted-foreground/40" />
+          <p className="text-sm text-muted-foreground text-center max-w-md">
+            Sign in to highlight passages and keep notes on documents.
+          </p>
+          <Link href="/login">
+            <Button variant="outline" size="sm" data-testid="button-annotations-sign-in">Sign in</Button>
+          </Link>
+        </div>
+      ) : annotations.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 gap-4">
+          <Highlighter className="w-10 h-10 text-muted-foreground/40" />
+          <p className="text-sm text-muted-foreground text-center max-w-md">
+            No annotations yet. Open a document and use the highlighter on the page, or select
+            text in the page-text view.
+          </p>
+          <Link href="/documents">
+            <Button variant="outline" size="sm">Browse Documents</Button>
+          </Link>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-col gap-3">
+            <div className="flex items-center gap-3 flex-wrap">
+              <div className="relative flex-1 min-w-[12rem] max-w-sm">
+                <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder="Filter notes and highlights"
+                  className="pl-8 h-9"
+                  data-testid="input-annotation-filter"
+                />
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {annotations.length} annotations in {documentCount} documents
+              </span>
+            </div>
+
+            {tagCounts.length > 0 && (
+              <div className="flex items-center gap-1.5 flex-wrap">
+                {tagCounts.map(([tag, count]) => (
+                  <Badge
+                    key={tag}
+                    variant={activeTag === tag ? "default" : "secondary"}
+                    className="text-[11px] cursor-pointer"
+                    onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                    data-testid={`badge-annotation-tag-${tag}`}
+                  >
+                    #{tag} <span className="ml-1 opacity-70">{count}</span>
+                  </Badge>
+                ))}
+                {activeTag && (
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs gap-1" onClick={() => setActiveTag(null)}>
+                    <X className="w-3 h-3" /> Clear
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No annotations match.</p>
+          ) : (
+            <div className="flex flex-col gap-2">
+              {visible.map((a) => (
+                <AnnotationCard
+                  key={a.id}
+                  annotation={a}
+                  showDocument
+                  onEdit={setEditing}
+                  onRemove={deleteAnnotation}
+                  onTagClick={setActiveTag}
+                />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <AnnotationDialog
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+        title={editing ? `Edit annotation — page ${editing.pageNumber}` : "Edit annotation"}
+        quote={editing?.quote}
+        initialNote={editing?.note}
+        initialTags={editing?.tags}
+        isSaving={isSaving}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, LogIn, UserPlus } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+type Mode = "login" | "register";
+
+/** Strip the "401: " status prefix that apiRequest puts on error messages. */
+function formatAuthError(err: unknown): string {
+  const message = err instanceof Error ? err.message : String(err);
+  const body = message.replace(/^\d{3}:\s*/, "");
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
+
+export default function AuthPage() {
+  const [, navigate] = useLocation();
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<Mode>("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  useEffect(() => {
+    if (user) navigate("/bookmarks");
+  }, [user, navigate]);
+
+  const mutation = mode === "login" ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ username: username.trim(), password });
+  };
+
+  return (
+    <div className="min-h-[80vh] w-full flex items-center justify-center">
+      <Card className="w-full max-w-sm mx-4">
+        <CardContent className="pt-6 flex flex-col gap-4">
+          <div>
+            <h1 className="text-xl font-bold" data-testid="text-auth-title">
+              {mode === "login" ? "Sign in" : "Create an account"}
+            </h1>
+            <p className="mt-1 text-sm text-muted-foreground">
+              Bookmarks and votes are saved to your account. Anything you saved on this
+              device before signing in is moved over automatically.
+            </p>
+          </div>
+
+          <Tabs value={mode} onValueChange={(v) => { setMode(v as Mode); mutation.reset(); }}>
+            <TabsList className="w-full">
+              <TabsTrigger value="login" className="flex-1 gap-1">
+                <LogIn className="w-3 h-3" /> Sign in
+              </TabsTrigger>
+              <TabsTrigger value="register" className="flex-1 gap-1">
+                <UserPlus className="w-3 h-3" /> Register
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+            <div className="flex flex-col gap-1.5">
+              <Label htmlFor="auth-username">Username</Label>
+              <Input
+                id="auth-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                required
+                data-testid="input-username"
+              />
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <Label htmlFor="auth-password">Password</Label>
+              <Input
+                id="auth-password"
+                type="password"
+                autoComplete={mode === "login" ? "current-password" : "new-password"}
+                minLength={mode === "register" ? 8 : undefined}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                data-testid="input-password"
+              />
+            </div>
+
+            {mutation.error && (
+              <p className="text-sm text-destructive" data-testid="text-auth-error">
+                {formatAuthError(mutation.error)}
+              </p>
+            )}
+
+            <Button type="submit" disabled={mutation.isPending} data-testid="button-auth-submit">
+              {mutation.isPending && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+              {mode === "login" ? "Sign in" : "Create account"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import {
   AlertTriangle,
 } from "lucide-react";
 import { useBookmarks } from "@/hooks/use-bookmarks";
+import { useAuth } from "@/hooks/use-auth";
 import type { Person, Document } from "@shared/schema";
 
 const typeIcons: Record<string, any> = {
@@ -42,6 +43,7 @@ export default function BookmarksPage() {
     deleteBookmark,
     isLoading,
   } = useBookmarks();
+  const { user, isLoading: authLoading } = useAuth();
 
   const personIds = personBookmarks.map((b) => b.entityId).filter(Boolean);
   const documentIds = documentBookmarks.map((b) => b.entityId).filter(Boolean);
@@ -66,8 +68,19 @@ export default function BookmarksPage() {
         </p>
       </div>
 
-      {isLoading ? (
+      {isLoading || authLoading ? (
         <p className="text-sm text-muted-foreground">Loading bookmarks...</p>
+      ) : !user ? (
+        <div className="flex flex-col items-center justify-center py-16 gap-4">
+          <Bookmark className="w-10 h-10 text-muted-foreground/40" />
+          <p className="text-sm text-muted-foreground text-center max-w-md">
+            Sign in to see your bookmarks. Items saved on this device before you had an
+            account are moved into it on your first sign-in.
+          </p>
+          <Link href="/login">
+            <Button variant="outline" size="sm" data-testid="button-bookmarks-sign-in">Sign in</Button>
+          </Link>
+        </div>
       ) : bookmarks.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-16 gap-4">
           <Bookmark className="w-10 h-10 text-muted-foreground/40" />
@@ -1,13 +1,23 @@
+import { AddToWorkspaceButton } from "@/components/add-to-workspace-button";
+import { AnnotationCard } from "@/components/annotation-card";
+import { AnnotationDialog } from "@/components/annotation-dialog";
+import { DocumentPageText } from "@/components/document-page-text";
+import { documentEmailsUrl, EmailThreadReader } from "@/components/email-thread-reader";
 import PdfViewer from "@/components/pdf-viewer";
+import { SpreadsheetTableViewer } from "@/components/spreadsheet-table-viewer";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAnnotations, type NewAnnotation } from "@/hooks/use-annotations";
 import { useBookmarks } from "@/hooks/use-bookmarks";
+import { toast } from "@/hooks/use-toast";
 import { useTrackView } from "@/hooks/use-track-view";
-import type { AIAnalysisConnection, AIAnalysisDocument, AIAnalysisEvent, AIAnalysisPerson, Document, Person, PublicDocument } from "@shared/schema";
+import { formatRedactionDensity } from "@/lib/document-utils";
+import type { AIAnalysisConnection, AIAnalysisDocument, AIAnalysisEvent, AIAnalysisPerson, Document, DocumentAnnotation, DocumentTable, EmailThread, PageRedaction, Person, PublicDocument } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
 import {
   AlertTriangle,
@@ -25,6 +35,7 @@ import {
   FileText,
   Globe,
   Hash,
+  Highlighter,
   Image as ImageIcon,
   Layers,
   Link2,
@@ -80,6 +91,8 @@ interface DocumentDetail extends PublicDocument {
   persons: (Person & { mentionType: string; context: string | null })[];
   timelineEvents?: DocumentEvent[];
   pageTypes?: PageTypeInfo[];
+  redactions?: PageRedaction[];
+  tables?: DocumentTable[];
 }
 
 export default function DocumentDetailPage() {
@@ -89,6 +102,14 @@ export default function DocumentDetailPage() {
   const { isBookmarked, toggleBookmark } = useBookmarks();
   const searchParams = new URLSearchParams(window.location.search);
   const initialPage = parseInt(searchParams.get("page") || "1", 10) || 1;
+  // Person mention deep links: ?highlight=<surface form>&charStart=&charEnd= on that page
+  const highlightText = searchParams.get("highlight") || undefined;
+  const highlightStart = parseInt(searchParams.get("charStart") || "", 10);
+  const highlightEnd = parseInt(searchParams.get("charEnd") || "", 10);
+  const highlightRange =
+    !isNaN(highlightStart) && !isNaN(highlightEnd) && highlightEnd > highlightStart
+      ? { pageNumber: initialPage, charStart: highlightStart, charEnd: highlightEnd }
+      : undefined;
 
   const { data: doc, isLoading } = useQuery<DocumentDetail>({
     queryKey: ["/api/documents", params.id],
@@ -239,6 +260,7 @@ export default function DocumentDetailPage() {
               <Bookmark className="w-4 h-4 text-muted-foreground" />
             )}
           </Button>
+          <AddToWorkspaceButton compact item={{ itemType: "document", entityId: doc.id }} />
           <Link href={`/documents/compare?a=${doc.id}`}>
             <Button
               variant="outline"
@@ -286,6 +308,8 @@ export default function DocumentDetailPage() {
               className="bg-destructive/10 text-destructive"
             >
               Contains Redactions
+              {!!doc.redactionCount && doc.redactionDensity != null &&
+                ` · ${doc.redactionCount} boxes, ${formatRedactionDensity(doc.redactionDensity)} of page area`}
             </Badge>
           )}
           {doc.tags?.map((tag) => (
@@ -405,12 +429,12 @@ export default function DocumentDetailPage() {
             <AIAnalysisSection analysis={aiAnalysis} />
           )}
 
-          <div className="flex flex-col gap-2">
-            <h2 className="text-sm font-semibold flex items-center gap-2">
-              <Eye className="w-4 h-4 text-primary" /> Document Viewer
-            </h2>
-            <DocumentViewer doc={doc} initialPage={initialPage} />
-          </div>
+          <AnnotatedDocumentViewer
+            doc={doc}
+            initialPage={searchParams.has("page") ? initialPage : undefined}
+            highlightText={highlightText}
+            highlightRange={highlightRange}
+          />
         </>
       )}
 
@@ -814,12 +838,171 @@ function VideoPlayer({ doc }: { doc: DocumentDetail }) {
   );
 }
 
+type AnnotationDraft =
+  | { mode: "create"; annotation: NewAnnotation; quote?: string }
+  | { mode: "edit"; annotation: DocumentAnnotation };
+
+/** Document viewer and page text with the signed-in user's highlights and notes. */
+function AnnotatedDocumentViewer({
+  doc,
+  initialPage,
+  highlightText,
+  highlightRange,
+}: {
+  doc: DocumentDetail;
+  initialPage?: number;
+  highlightText?: string;
+  highlightRange?: React.ComponentProps<typeof DocumentPageText>["highlightRange"];
+}) {
+  const { annotations, canAnnotate, createAnnotation, updateAnnotation, deleteAnnotation, isSaving } =
+    useAnnotations(doc.id);
+  const [draft, setDraft] = useState<AnnotationDraft | null>(null);
+  const [tab, setTab] = useState<string | null>(null);
+
+  const isEmail = doc.mediaType?.toLowerCase() === "email" || doc.documentType?.toLowerCase() === "email";
+  const { data: emailThreads } = useQuery<EmailThread[]>({
+    queryKey: [documentEmailsUrl(doc.id)],
+    enabled: isEmail,
+  });
+  const hasEmails = !!emailThreads && emailThreads.length > 0;
+  // Sheets get their own tab; tables detected on PDF pages are viewed from the PDF toolbar
+  const sheets = useMemo(() => (doc.tables ?? []).filter((t) => t.pageNumber === null), [doc.tables]);
+  const hasTables = sheets.length > 0;
+  // Parsed emails and sheets read better than page text, so they open first unless a page was deep-linked
+  const defaultTab = hasEmails ? "email" : hasTables ? "tables" : "viewer";
+  const activeTab = tab ?? (initialPage ? "viewer" : defaultTab);
+
+  const startDraft = (annotation: NewAnnotation, quote?: string) => {
+    if (!canAnnotate) {
+      toast({ title: "Sign in to annotate", description: "Annotations are stored in your account." });
+      return;
+    }
+    setDraft({ mode: "create", annotation, quote });
+  };
+
+  const handleSave = async ({ note, tags }: { note: string | null; tags: string[] }) => {
+    if (!draft) return;
+    try {
+      if (draft.mode === "create") {
+        await createAnnotation({ ...draft.annotation, note: note ?? undefined, tags });
+      } else {
+        await updateAnnotation({ id: draft.annotation.id, note, tags });
+      }
+      setDraft(null);
+    } catch {
+      // Error toast comes from the mutation; keep the dialog open so the note isn't lost
+    }
+  };
+
+  const editAnnotation = (annotation: DocumentAnnotation) => setDraft({ mode: "edit", annotation });
+
+  return (
+    <>
+      <div className="flex flex-col gap-2">
+        <Tabs value={activeTab} onValueChange={setTab}>
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <h2 className="text-sm font-semibold flex items-center gap-2">
+              <Eye className="w-4 h-4 text-primary" /> Document Viewer
+            </h2>
+            <TabsList className="h-8">
+              {hasEmails && (
+                <TabsTrigger value="email" className="text-xs" data-testid="tab-email">Email</TabsTrigger>
+              )}
+              {hasTables && (
+                <TabsTrigger value="tables" className="text-xs" data-testid="tab-tables">Tables</TabsTrigger>
+              )}
+              <TabsTrigger value="viewer" className="text-xs">Original</TabsTrigger>
+              <TabsTrigger value="text" className="text-xs" data-testid="tab-page-text">Page text</TabsTrigger>
+            </TabsList>
+          </div>
+          {hasEmails && (
+            <TabsContent value="email" className="mt-2">
+              <EmailThreadReader threads={emailThreads} documentId={doc.id} />
+            </TabsContent>
+          )}
+          {hasTables && (
+            <TabsContent value="tables" className="mt-2">
+              <SpreadsheetTableViewer tables={sheets} documentId={doc.id} />
+            </TabsContent>
+          )}
+          <TabsContent value="viewer" className="mt-2">
+            <DocumentViewer
+              doc={doc}
+              initialPage={initialPage}
+              highlightText={highlightText}
+              annotations={annotations}
+              onAnnotateRegion={(pageNumber, bbox) => startDraft({ documentId: doc.id, pageNumber, bbox })}
+              onSelectAnnotation={editAnnotation}
+            />
+          </TabsContent>
+          <TabsContent value="text" className="mt-2">
+            <DocumentPageText
+              documentId={doc.id}
+              initialPage={initialPage}
+              highlightRange={highlightRange}
+              annotations={annotations}
+              onAnnotateRange={(pageNumber, { charStart, charEnd, quote }) =>
+                startDraft({ documentId: doc.id, pageNumber, charStart, charEnd }, quote)
+              }
+              onSelectAnnotation={editAnnotation}
+            />
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      {annotations.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <h2 className="text-sm font-semibold flex items-center gap-2">
+            <Highlighter className="w-4 h-4 text-primary" /> My Annotations ({annotations.length})
+          </h2>
+          <div className="flex flex-col gap-2">
+            {annotations.map((a) => (
+              <AnnotationCard key={a.id} annotation={a} onEdit={editAnnotation} onRemove={deleteAnnotation} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <AnnotationDialog
+        open={draft !== null}
+        onOpenChange={(open) => !open && setDraft(null)}
+        title={
+          draft?.mode === "edit"
+            ? `Edit annotation — page ${draft.annotation.pageNumber}`
+            : `Annotate page ${draft?.annotation.pageNumber ?? ""}`
+        }
+        quote={draft?.mode === "edit" ? draft.annotation.quote : draft?.quote}
+        initialNote={draft?.mode === "edit" ? draft.annotation.note : null}
+        initialTags={draft?.mode === "edit" ? draft.annotation.tags : []}
+        isSaving={isSaving}
+        onSave={handleSave}
+        onDelete={
+          draft?.mode === "edit"
+            ? () => {
+                deleteAnnotation(draft.annotation.id);
+                setDraft(null);
+              }
+            : undefined
+        }
+      />
+    </>
+  );
+}
+
 function DocumentViewer({
   doc,
   initialPage,
+  highlightText,
+  annotations,
+  onAnnotateRegion,
+  onSelectAnnotation,
 }: {
   doc: DocumentDetail;
   initialPage?: number;
+  highlightText?: string;
+  annotations?: DocumentAnnotation[];
+  onAnnotateRegion?: React.ComponentProps<typeof PdfViewer>["onAnnotateRegion"];
+  onSelectAnnotation?: (annotation: DocumentAnnotation) => void;
 }) {
   const mediaType = doc.mediaType?.toLowerCase() || "";
   const docType = doc.documentType?.toLowerCase() || "";
@@ -877,7 +1060,13 @@ function DocumentViewer({
       sourceUrl={doc.sourceUrl ?? undefined}
       publicUrl={doc.publicUrl}
       initialPage={initialPage}
+      highlightText={highlightText}
       pageTypes={doc.pageTypes}
+      redactions={doc.redactions}
+      tables={doc.tables}
+      annotations={annotations}
+      onAnnotateRegion={onAnnotateRegion}
+      onSelectAnnotation={onSelectAnnotation}
     />
   );
 }
@@ -36,7 +36,7 @@ import { ImportanceVoteButton } from "@/components/importance-vote-button";
 import { useViewCounts } from "@/hooks/use-view-counts";
 import { useVideoPlayer } from "@/hooks/use-video-player";
 import { useDocumentViewer } from "@/hooks/use-document-viewer";
-import { isVideoDocument } from "@/lib/document-utils";
+import { formatRedactionDensity, isVideoDocument } from "@/lib/document-utils";
 import { VideoPlayerModal } from "@/components/video-player-modal";
 import { DocumentViewerModal } from "@/components/document-viewer-modal";
 import type { Document, PublicDocument } from "@shared/schema";
@@ -95,6 +95,7 @@ const filterLabels: Record<string, string> = {
   type: "Type",
   dataSet: "Data Set",
   redacted: "Redaction",
+  minRedaction: "Min. redacted",
   mediaType: "Media Type",
 };
 
@@ -239,8 +240,10 @@ export default function DocumentsPage() {
     type: "all",
     dataSet: "all",
     redacted: "all",
+    minRedaction: "all",
     mediaType: "all",
     tag: "",
+    sort: "popular",
     page: "1",
     view: "grid",
   });
@@ -256,9 +259,10 @@ export default function DocumentsPage() {
   if (filters.type !== "all") queryParams.set("type", filters.type);
   if (filters.dataSet !== "all") queryParams.set("dataSet", filters.dataSet);
   if (filters.redacted !== "all") queryParams.set("redacted", filters.redacted);
+  if (filters.minRedaction !== "all") queryParams.set("minRedaction", filters.minRedaction);
   if (filters.mediaType !== "all") queryParams.set("mediaType", filters.mediaType);
   if (filters.tag) queryParams.set("tag", filters.tag);
-  queryParams.set("sort", "popular");
+  queryParams.set("sort", filters.sort === "redaction" ? "redaction" : "popular");
 
   const pageTitle = filters.tag === "extension-resolved"
     ? "Hidden Videos"
@@ -292,7 +296,7 @@ export default function DocumentsPage() {
 
   const activeFilters = Object.entries(filters).filter(
     ([key, value]) =>
-      key !== "page" && key !== "view" &&
+      key !== "page" && key !== "view" && key !== "sort" &&
       value !== "" && value !== "all"
   );
 
@@ -368,6 +372,18 @@ export default function DocumentsPage() {
               <SelectItem value="unredacted">Unredacted</SelectItem>
             </SelectContent>
           </Select>
+          <Select value={filters.minRedaction} onValueChange={(v) => { setFilter("minRedaction", v); resetPage(); }}>
+            <SelectTrigger className="w-40" data-testid="select-redaction-density-filter">
+              <SelectValue placeholder="Redaction density" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any density</SelectItem>
+              <SelectItem value="1">≥ 1% blacked out</SelectItem>
+              <SelectItem value="10">≥ 10% blacked out</SelectItem>
+              <SelectItem value="25">≥ 25% blacked out</SelectItem>
+              <SelectItem value="50">≥ 50% blacked out</SelectItem>
+            </SelectContent>
+          </Select>
           <Select value={filters.mediaType} onValueChange={(v) => { setFilter("mediaType", v); resetPage(); }}>
             <SelectTrigger className="w-36" data-testid="select-media-type-filter">
               <SelectValue placeholder="Media Type" />
@@ -390,7 +406,16 @@ export default function DocumentsPage() {
               Clear
             </Button>
           )}
-          <div className="ml-auto flex items-center border rounded-md">
+          <Select value={filters.sort} onValueChange={(v) => { setFilter("sort", v); resetPage(); }}>
+            <SelectTrigger className="w-40 ml-auto" data-testid="select-document-sort">
+              <SelectValue placeholder="Sort" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="popular">Most viewed</SelectItem>
+              <SelectItem value="redaction">Most redacted</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex items-center border rounded-md">
             <Button
               variant={viewMode === "list" ? "secondary" : "ghost"}
               size="icon"
@@ -496,6 +521,7 @@ export default function DocumentsPage() {
                               {doc.isRedacted && (
                                 <Badge variant="secondary" className="text-[10px] bg-destructive/10 text-destructive">
                                   Redacted
+                                  {!!doc.redactionDensity && ` · ${formatRedactionDensity(doc.redactionDensity)}`}
                                 </Badge>
                               )}
                               {doc.tags?.map((tag) => (
@@ -626,6 +652,7 @@ export default function DocumentsPage() {
                 {filters.search && ` Try a different search term.`}
                 {filters.type !== "all" && ` Try removing the "${filters.type}" type filter.`}
                 {filters.redacted !== "all" && ` Try removing the "${filters.redacted}" filter.`}
+                {filters.minRedaction !== "all" && ` Try lowering the redaction density filter.`}
                 {filters.dataSet !== "all" && ` Try removing the "Data Set ${filters.dataSet}" filter.`}
                 {filters.mediaType !== "all" && ` Try removing the "${filters.mediaType}" media type filter.`}
               </p>
@@ -637,7 +664,7 @@ export default function DocumentsPage() {
                       variant="outline"
                       size="sm"
                       className="h-7 gap-1 text-xs"
-                      onClick={() => setFilter(key as keyof typeof filters, ["type", "dataSet", "redacted"].includes(key) ? "all" : "")}
+                      onClick={() => setFilter(key as keyof typeof filters, ["type", "dataSet", "redacted", "minRedaction"].includes(key) ? "all" : "")}
                     >
                       {filterLabels[key] || key}: {value}
                       <X className="w-3 h-3" />
@@ -0,0 +1,286 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useDocumentViewer } from "@/hooks/use-document-viewer";
+import { DocumentViewerModal } from "@/components/document-viewer-modal";
+import type {
+  Document,
+  Entity,
+  EntityConnectionDetail,
+} from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ArrowLeft,
+  Building2,
+  ChevronLeft,
+  ChevronRight,
+  FileText,
+  Home,
+  Network,
+  Plane,
+  Tag,
+  Users,
+} from "lucide-react";
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+
+interface EntityDetail extends Entity {
+  connections: EntityConnectionDetail[];
+}
+
+interface EntityDocumentsPage {
+  data: (Document & { context: string | null })[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+const DOCUMENTS_PAGE_SIZE = 25;
+
+const entityTypeIcons: Record<string, typeof Building2> = {
+  organization: Building2,
+  property: Home,
+  aircraft: Plane,
+};
+
+export default function EntityDetailPage() {
+  const params = useParams<{ id: string }>();
+  const [docPage, setDocPage] = useState(1);
+
+  const { data: entity, isLoading } = useQuery<EntityDetail>({
+    queryKey: ["/api/entities", params.id],
+  });
+
+  const { data: documents, isLoading: documentsLoading } = useQuery<EntityDocumentsPage>({
+    queryKey: [`/api/entities/${params.id}/documents?page=${docPage}&limit=${DOCUMENTS_PAGE_SIZE}`],
+    enabled: !!entity,
+  });
+
+  const docViewer = useDocumentViewer();
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col gap-6 p-6 max-w-5xl mx-auto w-full">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-6 w-64" />
+        <Skeleton className="h-16 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!entity) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-4 p-6">
+        <Tag className="w-12 h-12 text-muted-foreground/40" />
+        <p className="text-muted-foreground">Entity not found.</p>
+        <Link href="/network">
+          <Button variant="outline" size="sm" data-testid="button-back-to-network">
+            <ArrowLeft className="w-4 h-4 mr-1" /> Back to network
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const TypeIcon = entityTypeIcons[entity.entityType] ?? Tag;
+  const attributes = Object.entries((entity.attributes as Record<string, unknown> | null) ?? {})
+    .filter(([, value]) => value !== null && value !== undefined && value !== "");
+
+  return (
+    <div className="flex flex-col gap-6 p-6 max-w-5xl mx-auto w-full">
+      <Link href="/network">
+        <Button variant="ghost" size="sm" className="gap-1 -ml-2" data-testid="button-back">
+          <ArrowLeft className="w-4 h-4" /> Network
+        </Button>
+      </Link>
+
+      <div className="flex flex-col sm:flex-row items-start gap-4">
+        <div className="flex items-center justify-center w-20 h-20 rounded-md border-2 border-border bg-muted shrink-0">
+          <TypeIcon className="w-8 h-8 text-muted-foreground" />
+        </div>
+        <div className="flex flex-col gap-2 flex-1 min-w-0">
+          <div className="flex items-start justify-between gap-2 flex-wrap">
+            <div>
+              <h1 className="text-2xl font-bold tracking-tight" data-testid="text-entity-name">
+                {entity.name}
+              </h1>
+              {entity.aliases && entity.aliases.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  Also known as: {entity.aliases.join(", ")}
+                </p>
+              )}
+            </div>
+            <Badge variant="secondary" className="capitalize">
+              {entity.entityType}
+            </Badge>
+          </div>
+
+          <div className="flex items-center gap-4 flex-wrap text-sm text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <FileText className="w-3 h-3" /> {entity.documentCount} documents
+            </span>
+            <span className="flex items-center gap-1">
+              <Network className="w-3 h-3" /> {entity.connectionCount} connections
+            </span>
+          </div>
+
+          {entity.description && (
+            <p className="text-sm text-muted-foreground mt-1">{entity.description}</p>
+          )}
+
+          {attributes.length > 0 && (
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs mt-1">
+              {attributes.map(([key, value]) => (
+                <div key={key} className="contents">
+                  <dt className="text-muted-foreground capitalize">{key.replace(/_/g, " ")}</dt>
+                  <dd>{String(value)}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+      </div>
+
+      <Tabs defaultValue="connections" className="w-full">
+        <TabsList data-testid="tabs-entity-detail" className="flex-wrap h-auto gap-1">
+          <TabsTrigger value="connections" className="gap-1">
+            <Network className="w-3 h-3" /> Connections ({entity.connections.length})
+          </TabsTrigger>
+          <TabsTrigger value="documents" className="gap-1">
+            <FileText className="w-3 h-3" /> Documents ({documents?.total ?? entity.documentCount})
+          </TabsTrigger>
+        </TabsList>
+
+        {/* Connections Tab */}
+        <TabsContent value="connections" className="mt-4">
+          {entity.connections.length > 0 ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {entity.connections.map((conn) => {
+                // The other endpoint is either a person or another entity
+                const isPerson = conn.personId != null;
+                const otherEntityId = conn.entityId === entity.id ? conn.otherEntityId : conn.entityId;
+                const otherEntityName = conn.entityId === entity.id ? conn.otherEntityName : conn.entityName;
+                const href = isPerson ? `/people/${conn.personId}` : `/entities/${otherEntityId}`;
+                const name = isPerson ? conn.personName : otherEntityName;
+
+                return (
+                  <Link key={conn.id} href={href}>
+                    <Card className="hover-elevate cursor-pointer h-full" data-testid={`card-entity-connection-${conn.id}`}>
+                      <CardContent className="p-4">
+                        <div className="flex items-start gap-3">
+                          <div className="flex items-center justify-center w-9 h-9 rounded-md bg-muted shrink-0">
+                            {isPerson ? (
+                              <Users className="w-4 h-4 text-muted-foreground" />
+                            ) : (
+                              <Tag className="w-4 h-4 text-muted-foreground" />
+                            )}
+                          </div>
+                          <div className="flex flex-col gap-1 min-w-0 flex-1">
+                            <span className="text-sm font-semibold hover:underline">{name ?? "Unknown"}</span>
+                            <div className="flex items-center gap-1.5 flex-wrap">
+                              <Badge variant="outline" className="text-[10px] w-fit">
+                                {conn.connectionType}
+                              </Badge>
+                              {(conn.documentIds?.length ?? 0) > 0 && (
+                                <span className="text-[10px] text-muted-foreground">
+                                  {conn.documentIds!.length} source docs
+                                </span>
+                              )}
+                            </div>
+                            {conn.description && (
+                              <p className="text-xs text-muted-foreground mt-0.5">{conn.description}</p>
+                            )}
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </Link>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 gap-2">
+              <Network className="w-8 h-8 text-muted-foreground/30" />
+              <p className="text-sm text-muted-foreground">No mapped connections yet.</p>
+            </div>
+          )}
+        </TabsContent>
+
+        {/* Documents Tab */}
+        <TabsContent value="documents" className="mt-4">
+          {documentsLoading ? (
+            <div className="flex flex-col gap-2">
+              {Array.from({ length: 4 }).map((_, i) => (
+                <Skeleton key={i} className="h-20 w-full" />
+              ))}
+            </div>
+          ) : documents && documents.data.length > 0 ? (
+            <div className="flex flex-col gap-2">
+              {documents.data.map((doc) => (
+                <div key={doc.id} onClick={() => docViewer.open(doc)}>
+                  <Card className="hover-elevate cursor-pointer" data-testid={`card-doc-${doc.id}`}>
+                    <CardContent className="p-4">
+                      <div className="flex items-start gap-3">
+                        <div className="flex items-center justify-center w-9 h-9 rounded-md bg-muted shrink-0">
+                          <FileText className="w-4 h-4 text-muted-foreground" />
+                        </div>
+                        <div className="flex flex-col gap-1 min-w-0 flex-1">
+                          <span className="text-sm font-medium">{doc.title}</span>
+                          {doc.context && (
+                            <p className="text-xs text-muted-foreground line-clamp-2">{doc.context}</p>
+                          )}
+                          <div className="flex items-center gap-2 flex-wrap mt-1">
+                            <Badge variant="outline" className="text-[10px]">{doc.documentType}</Badge>
+                            {doc.dataSet && (
+                              <span className="text-[10px] text-muted-foreground">Data Set {doc.dataSet}</span>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+              ))}
+
+              {documents.totalPages > 1 && (
+                <div className="flex items-center justify-center gap-2 mt-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={docPage <= 1}
+                    onClick={() => setDocPage((p) => p - 1)}
+                    aria-label="Previous page"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <span className="text-xs text-muted-foreground">
+                    Page {documents.page} of {documents.totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={docPage >= documents.totalPages}
+                    onClick={() => setDocPage((p) => p + 1)}
+                    aria-label="Next page"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-12 gap-2">
+              <FileText className="w-8 h-8 text-muted-foreground/30" />
+              <p className="text-sm text-muted-foreground">No associated documents found.</p>
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <DocumentViewerModal doc={docViewer.viewerDoc} open={docViewer.isOpen} onClose={docViewer.close} />
+    </div>
+  );
+}
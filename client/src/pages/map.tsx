@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Clock, FileText, MapPin, Users, X } from "lucide-react";
+import type { Document, LocationDensity, LocationDetail } from "@shared/schema";
+import { KIND_COLORS, LocationMap } from "@/components/location-map";
+import { PersonPicker, type PathPickerPerson } from "@/components/network-path-finder";
+
+const DOCUMENTS_PAGE_SIZE = 20;
+const KINDS = ["all", "site", "city", "region", "country"];
+
+interface NetworkSummary {
+  persons: PathPickerPerson[];
+  timelineYearRange: [number, number];
+}
+
+interface LocationDocumentsPage {
+  data: (Document & { year: number | null })[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+function LocationPanel({ id, filterQuery, onClose }: { id: number; filterQuery: string; onClose: () => void }) {
+  const [page, setPage] = useState(1);
+  const { data: location, isLoading } = useQuery<LocationDetail>({
+    queryKey: [`/api/locations/${id}`],
+  });
+  const { data: documents } = useQuery<LocationDocumentsPage>({
+    queryKey: [`/api/locations/${id}/documents?page=${page}&limit=${DOCUMENTS_PAGE_SIZE}${filterQuery ? `&${filterQuery}` : ""}`],
+    placeholderData: keepPreviousData,
+  });
+
+  if (isLoading || !location) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  return (
+    <Card data-testid={`location-panel-${id}`}>
+      <CardContent className="p-4 flex flex-col gap-4">
+        <div className="flex items-start gap-2">
+          <MapPin className="w-4 h-4 mt-0.5 shrink-0" style={{ color: KIND_COLORS[location.kind] }} />
+          <div className="flex-1 min-w-0">
+            <h2 className="font-semibold leading-tight">{location.name}</h2>
+            <p className="text-xs text-muted-foreground">
+              {[location.admin, location.country].filter((p) => p && p !== location.name).join(", ") || location.kind}
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={onClose} aria-label="Close">
+            <X className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+
+        {location.persons.length > 0 && (
+          <div>
+            <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2 flex items-center gap-1.5">
+              <Users className="w-3 h-3" /> People
+            </h3>
+            <div className="flex flex-wrap gap-1.5">
+              {location.persons.map((p) => (
+                <Link key={p.id} href={`/people/${p.id}`}>
+                  <Badge variant="secondary" className="gap-1.5 cursor-pointer hover:bg-secondary/70">
+                    {p.name}
+                    <span className="text-muted-foreground tabular-nums">{p.documentCount}</span>
+                  </Badge>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {location.timelineEvents.length > 0 && (
+          <div>
+            <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2 flex items-center gap-1.5">
+              <Clock className="w-3 h-3" /> Events
+            </h3>
+            <div className="flex flex-col gap-1.5">
+              {location.timelineEvents.slice(0, 8).map((event) => (
+                <div key={event.id} className="flex gap-2 text-xs">
+                  <span className="font-mono text-muted-foreground shrink-0 w-20">{event.date}</span>
+                  <span className="min-w-0">{event.title}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2 flex items-center gap-1.5">
+            <FileText className="w-3 h-3" /> Documents
+            {documents && <span className="tabular-nums normal-case font-normal">({documents.total.toLocaleString()})</span>}
+          </h3>
+          <div className="flex flex-col gap-1">
+            {documents?.data.map((doc) => (
+              <Link key={doc.id} href={`/documents/${doc.id}`}>
+                <div className="flex items-center gap-2 text-xs py-0.5 cursor-pointer hover:text-primary">
+                  <span className="font-mono text-muted-foreground shrink-0 w-10">{doc.year ?? "—"}</span>
+                  <span className="truncate">{doc.title}</span>
+                </div>
+              </Link>
+            ))}
+          </div>
+          {documents && documents.totalPages > 1 && (
+            <div className="flex items-center justify-between pt-2">
+              <Button variant="ghost" size="sm" className="h-7 text-xs" disabled={page <= 1} onClick={() => setPage((p) => p - 1)}>
+                Previous
+              </Button>
+              <span className="text-xs text-muted-foreground">{documents.page} / {documents.totalPages}</span>
+              <Button variant="ghost" size="sm" className="h-7 text-xs" disabled={page >= documents.totalPages} onClick={() => setPage((p) => p + 1)}>
+                Next
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function MapPage() {
+  const [personId, setPersonId] = useState<number | null>(null);
+  const [kind, setKind] = useState("all");
+  const [yearDraft, setYearDraft] = useState<[number, number] | null>(null);
+  const [years, setYears] = useState<[number, number] | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  // Same payload the network page loads: person list for the picker and the timeline's year range
+  const { data: network } = useQuery<NetworkSummary>({
+    queryKey: ["/api/network"],
+    staleTime: 300_000,
+  });
+  const yearRange = network?.timelineYearRange ?? null;
+  if (yearDraft === null && yearRange) {
+    setYearDraft(yearRange);
+    setYears(yearRange);
+  }
+
+  // Undated documents only drop out once the range is actually narrowed
+  const params = new URLSearchParams();
+  if (personId !== null) params.set("personId", String(personId));
+  const yearFiltered = !!years && !!yearRange && (years[0] !== yearRange[0] || years[1] !== yearRange[1]);
+  if (yearFiltered) {
+    params.set("yearFrom", String(years![0]));
+    params.set("yearTo", String(years![1]));
+  }
+  const filterQuery = params.toString();
+  if (kind !== "all") params.set("kind", kind);
+  const mapQuery = params.toString();
+
+  const { data: locations, isLoading } = useQuery<LocationDensity[]>({
+    queryKey: [`/api/locations${mapQuery ? `?${mapQuery}` : ""}`],
+    placeholderData: keepPreviousData,
+  });
+
+  const totalDocuments = locations?.reduce((sum, l) => sum + l.documentCount, 0) ?? 0;
+  const hasFilters = personId !== null || kind !== "all" || yearFiltered;
+
+  return (
+    <div className="flex flex-col gap-6 p-6 max-w-7xl mx-auto w-full">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2" data-testid="text-map-title">
+          <MapPin className="w-6 h-6 text-primary" />
+          Map
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Places named in the documents, sized by how many documents mention them. Filter by person or year to see where they appear.
+        </p>
+      </div>
+
+      <div className="flex items-end gap-4 flex-wrap">
+        <div className="flex flex-col gap-1.5 w-64">
+          <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Person</Label>
+          <div className="flex items-center gap-1">
+            <PersonPicker
+              persons={network?.persons ?? []}
+              value={personId}
+              onChange={setPersonId}
+              placeholder="Anyone"
+              testId="select-map-person"
+            />
+            {personId !== null && (
+              <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => setPersonId(null)} aria-label="Clear person">
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1.5">
+          <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Kind</Label>
+          <Select value={kind} onValueChange={setKind}>
+            <SelectTrigger className="w-36 h-8 text-xs" data-testid="select-map-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {KINDS.map((k) => (
+                <SelectItem key={k} value={k}>
+                  {k === "all" ? "All places" : k.charAt(0).toUpperCase() + k.slice(1)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {yearRange && yearDraft && (
+          <div className="flex flex-col gap-1.5 flex-1 min-w-[200px] max-w-md">
+            <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+              Years {yearDraft[0]} – {yearDraft[1]}
+            </Label>
+            <Slider
+              min={yearRange[0]}
+              max={yearRange[1]}
+              step={1}
+              value={yearDraft}
+              onValueChange={(v) => setYearDraft(v as [number, number])}
+              onValueCommit={(v) => setYears(v as [number, number])}
+              className="h-8"
+              data-testid="slider-map-years"
+            />
+          </div>
+        )}
+
+        {hasFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() => {
+              setPersonId(null);
+              setKind("all");
+              setYearDraft(yearRange);
+              setYears(yearRange);
+            }}
+          >
+            <X className="w-3 h-3 mr-1" /> Clear filters
+          </Button>
+        )}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_320px]">
+        <div className="flex flex-col gap-2 min-w-0">
+          {isLoading ? (
+            <Skeleton className="w-full aspect-[2/1]" />
+          ) : (
+            <LocationMap locations={locations ?? []} selectedId={selectedId} onSelect={setSelectedId} />
+          )}
+          <div className="flex items-center gap-3 text-xs text-muted-foreground flex-wrap">
+            <span>
+              {(locations?.length ?? 0).toLocaleString()} places, {totalDocuments.toLocaleString()} document mentions
+            </span>
+            {Object.entries(KIND_COLORS).map(([k, color]) => (
+              <span key={k} className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+                {k}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2 min-w-0">
+          {selectedId !== null ? (
+            <LocationPanel key={`${selectedId}?${filterQuery}`} id={selectedId} filterQuery={filterQuery} onClose={() => setSelectedId(null)} />
+          ) : (
+            <Card>
+              <CardContent className="p-4 flex flex-col gap-1">
+                <h2 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-1">Top places</h2>
+                {locations?.slice(0, 15).map((location) => (
+                  <button
+                    key={location.id}
+                    className="flex items-center gap-2 text-sm py-0.5 text-left hover:text-primary"
+                    onClick={() => setSelectedId(location.id)}
+                    data-testid={`location-row-${location.id}`}
+                  >
+                    <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: KIND_COLORS[location.kind] }} />
+                    <span className="truncate flex-1">{location.name}</span>
+                    <span className="text-xs text-muted-foreground tabular-nums">{location.documentCount.toLocaleString()}</span>
+                  </button>
+                ))}
+                {locations?.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No places match these filters.</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useMemo, useCallback, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Link } from "wouter";
+import { Link, useLocation } from "wouter";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
@@ -28,9 +28,20 @@ import {
   Users,
   Link2,
   Focus,
+  Tag,
+  Mail,
 } from "lucide-react";
-import type { Connection } from "@shared/schema";
-import NetworkGraph, { getCategoryColor } from "@/components/network-graph";
+import type { Connection, EntityNetworkData, NetworkAnalytics, NetworkNodeMetrics, NetworkPathResult } from "@shared/schema";
+import NetworkGraph, { getCategoryColor, getCommunityColor } from "@/components/network-graph";
+import { PathFinderForm, PathResults, type PathQuery } from "@/components/network-path-finder";
+import {
+  AnalyticsDisplayControls,
+  BrokerRanking,
+  metricValue,
+  type NodeColorMode,
+  type NodeSizeMetric,
+} from "@/components/network-analytics-panel";
+import { CommunicationsView } from "@/components/network-communications";
 
 interface NetworkPerson {
   id: number;
@@ -42,6 +53,17 @@ interface NetworkPerson {
   occupation: string | null;
 }
 
+// "communications" swaps the connections graph for the directed email graph
+type NetworkView = "connections" | "communications";
+
+const EMPTY_PATH_QUERY: PathQuery = { from: null, to: null, maxHops: 4, weighted: false };
+const COMMUNITY_LEGEND_LIMIT = 8;
+
+// Graph node IDs negate entity IDs (see NetworkGraph)
+function graphNodeId(node: Pick<NetworkNodeMetrics, "nodeType" | "nodeId">): number {
+  return node.nodeType === "entity" ? -node.nodeId : node.nodeId;
+}
+
 interface NetworkData {
   persons: NetworkPerson[];
   connections: (Connection & { person1Name: string; person2Name: string })[];
@@ -68,6 +90,7 @@ function FilterControlsSidebar(props: FilterControlsProps) {
       <FilterSliders {...props} />
       <FilterConnectionTypes {...props} />
       <FilterTimeRange {...props} />
+      <FilterEntityToggle {...props} />
     </div>
   );
 }
@@ -178,6 +201,15 @@ function FilterBar(props: FilterControlsProps) {
           Connection Types
           <ChevronRight className={`w-3 h-3 ml-1 transition-transform ${showConnectionTypes ? "rotate-90" : ""}`} />
         </Button>
+        <label className="flex items-center gap-1.5 cursor-pointer ml-auto">
+          <Checkbox
+            checked={props.showEntities}
+            onCheckedChange={(v) => props.setShowEntities(v === true)}
+            className="h-3.5 w-3.5"
+            data-testid="checkbox-show-entities"
+          />
+          <span className="text-xs">Show organizations, properties &amp; aircraft</span>
+        </label>
       </div>
 
       {/* Expandable: Categories */}
@@ -240,6 +272,8 @@ interface FilterControlsProps {
   timeRange: [number, number] | null;
   setTimeRange: (v: [number, number]) => void;
   yearRange: [number, number] | null;
+  showEntities: boolean;
+  setShowEntities: (v: boolean) => void;
 }
 
 function FilterSearchInputs({ searchQuery, setSearchQuery, keyword, setKeyword }: FilterControlsProps) {
@@ -392,7 +426,25 @@ function FilterTimeRange({ timeRange, setTimeRange, yearRange }: FilterControlsP
   );
 }
 
+function FilterEntityToggle({ showEntities, setShowEntities }: FilterControlsProps) {
+  return (
+    <div>
+      <Label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2 block">
+        Entities
+      </Label>
+      <label className="flex items-center gap-2 cursor-pointer py-0.5">
+        <Checkbox
+          checked={showEntities}
+          onCheckedChange={(v) => setShowEntities(v === true)}
+        />
+        <span className="text-sm">Show organizations, properties &amp; aircraft</span>
+      </label>
+    </div>
+  );
+}
+
 export default function NetworkPage() {
+  const [, navigate] = useLocation();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedPerson, setSelectedPerson] = useState<number | null>(null);
   const [focusedNode, setFocusedNode] = useState<number | null>(null);
@@ -405,12 +457,33 @@ export default function NetworkPage() {
   const [timeRange, setTimeRange] = useState<[number, number] | null>(null);
   const [graphReady, setGraphReady] = useState(false);
   const [filterSheetOpen, setFilterSheetOpen] = useState(false);
+  const [showEntities, setShowEntities] = useState(false);
+  const [pathQuery, setPathQuery] = useState<PathQuery>(EMPTY_PATH_QUERY);
+  const [selectedPathIndex, setSelectedPathIndex] = useState<number | null>(null);
+  const [sizeBy, setSizeBy] = useState<NodeSizeMetric>("connections");
+  const [colorBy, setColorBy] = useState<NodeColorMode>("category");
+  const [showBrokers, setShowBrokers] = useState(false);
+  const [view, setView] = useState<NetworkView>("connections");
 
   const { data, isLoading } = useQuery<NetworkData>({
     queryKey: ["/api/network"],
     staleTime: 300_000,
   });
 
+  const { data: entityData } = useQuery<EntityNetworkData>({
+    queryKey: ["/api/network/entities"],
+    staleTime: 300_000,
+    enabled: showEntities,
+  });
+
+  // Centrality and communities are precomputed over the whole graph, entities included when shown
+  const analyticsEnabled = sizeBy !== "connections" || colorBy === "community" || showBrokers;
+  const { data: analytics, isLoading: analyticsLoading } = useQuery<NetworkAnalytics>({
+    queryKey: [showEntities ? "/api/network/analytics?includeEntities=true" : "/api/network/analytics"],
+    staleTime: 300_000,
+    enabled: analyticsEnabled,
+  });
+
   // Derive all categories from data
   const allCategories = useMemo(() => {
     if (!data) return [];
@@ -443,6 +516,29 @@ export default function NetworkPage() {
 
   const effectiveConnectionTypes = activeConnectionTypes ?? new Set(connectionTypes);
 
+  // Path search honours the connection-type filter once the user has narrowed it
+  const pathUrl = useMemo(() => {
+    if (pathQuery.from === null || pathQuery.to === null || pathQuery.from === pathQuery.to) return null;
+    const params = new URLSearchParams({
+      from: String(pathQuery.from),
+      to: String(pathQuery.to),
+      maxHops: String(pathQuery.maxHops),
+      k: "5",
+    });
+    if (pathQuery.weighted) params.set("weighted", "true");
+    if (effectiveConnectionTypes.size < connectionTypes.length) {
+      params.set("connectionType", Array.from(effectiveConnectionTypes).join(","));
+    }
+    return `/api/network/path?${params}`;
+  }, [pathQuery, effectiveConnectionTypes, connectionTypes.length]);
+
+  const { data: pathResult, isFetching: pathLoading } = useQuery<NetworkPathResult>({
+    queryKey: [pathUrl],
+    enabled: pathUrl !== null,
+    staleTime: 300_000,
+  });
+  const activePathResult = pathUrl !== null ? pathResult : undefined;
+
   // Filter chain
   // 0. Only persons mentioned in documents
   const docPersons = useMemo(() => {
@@ -535,6 +631,79 @@ export default function NetworkPage() {
     );
   }, [filteredConnections, graphPersonIds]);
 
+  // 7b. Paths between two persons stay visible even when other filters would hide them
+  const highlightedPaths = useMemo(() => {
+    if (!activePathResult) return [];
+    const paths = selectedPathIndex !== null
+      ? activePathResult.paths.slice(selectedPathIndex, selectedPathIndex + 1)
+      : activePathResult.paths;
+    return paths.map((p) => p.personIds);
+  }, [activePathResult, selectedPathIndex]);
+
+  const displayPersons = useMemo(() => {
+    if (!data || !activePathResult) return graphPersons;
+    const missing = new Set(activePathResult.paths.flatMap((p) => p.personIds).filter((id) => !graphPersonIds.has(id)));
+    if (missing.size === 0) return graphPersons;
+    return [...graphPersons, ...data.persons.filter((p) => missing.has(p.id))];
+  }, [data, activePathResult, graphPersons, graphPersonIds]);
+
+  const displayConnections = useMemo(() => {
+    if (!data || !activePathResult) return graphConnections;
+    const shown = new Set(graphConnections.map((c) => c.id));
+    const pathConnectionIds = new Set(
+      activePathResult.paths.flatMap((p) => p.edges.flatMap((e) => e.connections.map((c) => c.id))),
+    );
+    const missing = data.connections.filter((c) => pathConnectionIds.has(c.id) && !shown.has(c.id));
+    return missing.length > 0 ? [...graphConnections, ...missing] : graphConnections;
+  }, [data, activePathResult, graphConnections]);
+
+  // 8. Entity overlay: keep entity links that attach to a visible person or to another entity
+  const graphEntityConnections = useMemo(() => {
+    if (!showEntities || !entityData) return [];
+    return entityData.connections.filter((c) =>
+      c.personId != null ? graphPersonIds.has(c.personId) : c.otherEntityId != null,
+    );
+  }, [showEntities, entityData, graphPersonIds]);
+
+  const graphEntities = useMemo(() => {
+    if (graphEntityConnections.length === 0) return [];
+    const ids = new Set<number>();
+    graphEntityConnections.forEach((c) => {
+      ids.add(c.entityId);
+      if (c.otherEntityId != null) ids.add(c.otherEntityId);
+    });
+    return entityData!.entities.filter((e) => ids.has(e.id));
+  }, [graphEntityConnections, entityData]);
+
+  // 9. Centrality display: node sizes, community colours and legend
+  const nodeSizes = useMemo(() => {
+    if (sizeBy === "connections" || !analytics) return undefined;
+    const max = analytics.nodes.reduce((m, n) => Math.max(m, metricValue(n, sizeBy)), 0);
+    if (max <= 0) return undefined;
+    return new Map(analytics.nodes.map((n) => [graphNodeId(n), metricValue(n, sizeBy) / max]));
+  }, [analytics, sizeBy]);
+
+  const nodeColors = useMemo(() => {
+    if (colorBy !== "community" || !analytics) return undefined;
+    return new Map(analytics.nodes.map((n) => [graphNodeId(n), getCommunityColor(n.communityId)]));
+  }, [analytics, colorBy]);
+
+  const colorLegend = useMemo(() => {
+    if (!nodeColors || !analytics) return undefined;
+    return {
+      title: "Communities",
+      items: analytics.communities.slice(0, COMMUNITY_LEGEND_LIMIT).map((c) => ({
+        label: `${c.label} (${c.size})`,
+        color: getCommunityColor(c.id),
+      })),
+    };
+  }, [nodeColors, analytics]);
+
+  const personMetrics = useMemo(() => {
+    if (!analytics) return new Map<number, NetworkNodeMetrics>();
+    return new Map(analytics.nodes.filter((n) => n.nodeType === "person").map((n) => [n.nodeId, n]));
+  }, [analytics]);
+
   // Max connections for slider range
   const maxConnections = useMemo(() => {
     const vals = Object.values(connCountPerPerson);
@@ -576,6 +745,35 @@ export default function NetworkPage() {
     setFocusedNode(id);
   }, []);
 
+  const handleSelectEntity = useCallback((id: number) => {
+    navigate(`/entities/${id}`);
+  }, [navigate]);
+
+  const handleShowEntitiesChange = useCallback((v: boolean) => {
+    setShowEntities(v);
+    setGraphReady(false);
+  }, []);
+
+  const handlePathQueryChange = useCallback((next: PathQuery) => {
+    setPathQuery(next);
+    setSelectedPathIndex(null);
+  }, []);
+
+  const handleClearPath = useCallback(() => {
+    setPathQuery(EMPTY_PATH_QUERY);
+    setSelectedPathIndex(null);
+  }, []);
+
+  const pickerPersons = useMemo(
+    () => [...docPersons].sort((a, b) => a.name.localeCompare(b.name)),
+    [docPersons],
+  );
+
+  const handleSelectBroker = useCallback((node: NetworkNodeMetrics) => {
+    if (node.nodeType === "entity") navigate(`/entities/${node.nodeId}`);
+    else setSelectedPerson(node.nodeId);
+  }, [navigate]);
+
   const handleGraphReady = useCallback(() => {
     setGraphReady(true);
   }, []);
@@ -625,12 +823,31 @@ export default function NetworkPage() {
     setGraphReady(false);
   }, []);
 
-  // Mobile list data: persons sorted by connection count
+  // Mobile list data: persons ranked by connection count, or by the chosen centrality
   const mobileListPersons = useMemo(() => {
-    return graphPersons
-      .map((p) => ({ ...p, connCount: connCountPerPerson[p.id] || 0 }))
-      .sort((a, b) => b.connCount - a.connCount);
-  }, [graphPersons, connCountPerPerson]);
+    const ranked = graphPersons.map((p) => {
+      const metrics = personMetrics.get(p.id);
+      return {
+        ...p,
+        connCount: connCountPerPerson[p.id] || 0,
+        score: sizeBy === "connections" || !metrics ? null : metricValue(metrics, sizeBy),
+      };
+    });
+    return sizeBy === "connections"
+      ? ranked.sort((a, b) => b.connCount - a.connCount)
+      : ranked.sort((a, b) => (b.score ?? -1) - (a.score ?? -1) || b.connCount - a.connCount);
+  }, [graphPersons, connCountPerPerson, personMetrics, sizeBy]);
+
+  const analyticsControls = (
+    <AnalyticsDisplayControls
+      sizeBy={sizeBy}
+      onSizeByChange={setSizeBy}
+      colorBy={colorBy}
+      onColorByChange={setColorBy}
+      showBrokers={showBrokers}
+      onShowBrokersChange={setShowBrokers}
+    />
+  );
 
   const filterProps = {
     searchQuery,
@@ -653,6 +870,8 @@ export default function NetworkPage() {
     timeRange,
     setTimeRange: handleTimeRangeChange,
     yearRange,
+    showEntities,
+    setShowEntities: handleShowEntitiesChange,
   };
 
   return (
@@ -665,32 +884,61 @@ export default function NetworkPage() {
             Relationship Network
           </h1>
 
-          {/* Mobile filter button */}
-          <Sheet open={filterSheetOpen} onOpenChange={setFilterSheetOpen}>
-            <SheetTrigger asChild>
-              <Button variant="outline" size="sm" className="md:hidden">
-                <SlidersHorizontal className="w-4 h-4 mr-1.5" />
-                Filters
+          <div className="flex items-center gap-2">
+            <div className="flex items-center rounded-md border border-border p-0.5" data-testid="toggle-network-view">
+              <Button
+                variant={view === "connections" ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setView("connections")}
+                data-testid="button-view-connections"
+              >
+                <Link2 className="w-3 h-3 mr-1" />
+                Connections
               </Button>
-            </SheetTrigger>
-            <SheetContent side="left" className="w-[280px] overflow-y-auto">
-              <SheetHeader>
-                <SheetTitle>Filters</SheetTitle>
-                <SheetDescription>Refine the network graph</SheetDescription>
-              </SheetHeader>
-              <div className="mt-4">
-                <FilterControlsSidebar {...filterProps} />
-              </div>
-            </SheetContent>
-          </Sheet>
+              <Button
+                variant={view === "communications" ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setView("communications")}
+                data-testid="button-view-communications"
+              >
+                <Mail className="w-3 h-3 mr-1" />
+                Emails
+              </Button>
+            </div>
+
+            {/* Mobile filter button */}
+            {view === "connections" && (
+              <Sheet open={filterSheetOpen} onOpenChange={setFilterSheetOpen}>
+                <SheetTrigger asChild>
+                  <Button variant="outline" size="sm" className="md:hidden">
+                    <SlidersHorizontal className="w-4 h-4 mr-1.5" />
+                    Filters
+                  </Button>
+                </SheetTrigger>
+                <SheetContent side="left" className="w-[280px] overflow-y-auto">
+                  <SheetHeader>
+                    <SheetTitle>Filters</SheetTitle>
+                    <SheetDescription>Refine the network graph</SheetDescription>
+                  </SheetHeader>
+                  <div className="mt-4">
+                    <FilterControlsSidebar {...filterProps} />
+                  </div>
+                </SheetContent>
+              </Sheet>
+            )}
+          </div>
         </div>
         <p className="text-sm text-muted-foreground">
-          Interactive force-directed graph of connections between individuals. Click nodes to explore relationships.
+          {view === "connections"
+            ? "Interactive force-directed graph of connections between individuals. Click nodes to explore relationships."
+            : "Who emailed whom, from parsed email senders and recipients. Click an arrow for the messages between two people."}
         </p>
       </div>
 
       {/* Stats bar */}
-      {!isLoading && data && (
+      {view === "connections" && !isLoading && data && (
         <div className="flex items-center gap-3 flex-wrap">
           <Badge variant="secondary" className="gap-1.5 text-xs font-normal">
             <Users className="w-3 h-3" />
@@ -704,6 +952,12 @@ export default function NetworkPage() {
             <FileText className="w-3 h-3" />
             {totalDocs} Documents
           </Badge>
+          {graphEntities.length > 0 && (
+            <Badge variant="secondary" className="gap-1.5 text-xs font-normal">
+              <Tag className="w-3 h-3" />
+              {graphEntities.length} Entities
+            </Badge>
+          )}
           {focusedPersonName && (
             <Badge variant="default" className="gap-1.5 text-xs font-normal">
               <Focus className="w-3 h-3" />
@@ -725,7 +979,9 @@ export default function NetworkPage() {
         </div>
       )}
 
-      {isLoading ? (
+      {view === "communications" ? (
+        <CommunicationsView />
+      ) : isLoading ? (
         <div className="flex-1 min-h-[500px] w-full rounded-lg border border-border bg-card flex items-center justify-center">
           <div className="flex flex-col items-center gap-3">
             <Loader2 className="w-8 h-8 animate-spin text-primary" />
@@ -735,13 +991,26 @@ export default function NetworkPage() {
       ) : (
         <>
           {/* Desktop: Filter bar on top + Graph + optional detail sidebar */}
-          <div className="hidden md:block">
+          <div className="hidden md:flex flex-col gap-3">
             <FilterBar {...filterProps} />
+            <div className="border border-border rounded-lg bg-card p-4 flex flex-col lg:flex-row gap-4">
+              <div className="flex-1 min-w-0">
+                <PathFinderForm
+                  persons={pickerPersons}
+                  query={pathQuery}
+                  onChange={handlePathQueryChange}
+                  onClear={handleClearPath}
+                />
+              </div>
+              <div className="lg:border-l lg:border-border lg:pl-4">
+                {analyticsControls}
+              </div>
+            </div>
           </div>
           <div className="hidden md:flex flex-1 gap-4 min-h-[500px]">
 
             {/* Graph area */}
-            <div className={`flex-1 relative transition-all ${selectedPersonData ? "md:w-2/3" : "w-full"}`}>
+            <div className={`flex-1 relative transition-all ${selectedPersonData || pathUrl || showBrokers ? "md:w-2/3" : "w-full"}`}>
               {/* Spinner overlay while graph computes */}
               {!graphReady && (
                 <div className="absolute inset-0 z-10 flex items-center justify-center bg-background/60 rounded-lg">
@@ -752,19 +1021,45 @@ export default function NetworkPage() {
                 </div>
               )}
               <NetworkGraph
-                persons={graphPersons}
-                connections={graphConnections}
+                persons={displayPersons}
+                connections={displayConnections}
+                entities={graphEntities}
+                entityConnections={graphEntityConnections}
                 searchQuery={searchQuery}
                 selectedPersonId={selectedPerson}
                 focusedNodeId={focusedNode}
                 onSelectPerson={handleSelectPerson}
                 onFocusNode={handleFocusNode}
+                onSelectEntity={handleSelectEntity}
                 onReady={handleGraphReady}
+                highlightedPaths={highlightedPaths}
+                nodeSizes={nodeSizes}
+                nodeColors={nodeColors}
+                colorLegend={colorLegend}
               />
             </div>
 
+            {/* Path results sidebar */}
+            {pathUrl && (
+              <div className="w-80 shrink-0 border border-border rounded-lg bg-card p-4 overflow-y-auto max-h-[calc(100vh-260px)]">
+                <PathResults
+                  result={activePathResult}
+                  isLoading={pathLoading && !activePathResult}
+                  selectedIndex={selectedPathIndex}
+                  onSelectPath={setSelectedPathIndex}
+                />
+              </div>
+            )}
+
+            {/* Broker ranking sidebar */}
+            {showBrokers && !pathUrl && !selectedPersonData && (
+              <div className="w-80 shrink-0 border border-border rounded-lg bg-card p-4 overflow-y-auto max-h-[calc(100vh-260px)]">
+                <BrokerRanking analytics={analytics} isLoading={analyticsLoading} onSelectNode={handleSelectBroker} />
+              </div>
+            )}
+
             {/* Detail sidebar */}
-            {selectedPersonData && (
+            {selectedPersonData && !pathUrl && (
               <div className="w-80 shrink-0 border border-border rounded-lg bg-card p-4 flex flex-col gap-4 overflow-y-auto max-h-[calc(100vh-260px)]">
                 <div className="flex items-start justify-between">
                   <div className="flex items-center gap-3">
@@ -836,6 +1131,28 @@ export default function NetworkPage() {
 
           {/* Mobile: List view */}
           <div className="flex flex-col gap-2 md:hidden">
+            <div className="border border-border rounded-lg bg-card p-3 flex flex-col gap-3">
+              <PathFinderForm
+                persons={pickerPersons}
+                query={pathQuery}
+                onChange={handlePathQueryChange}
+                onClear={handleClearPath}
+              />
+              {pathUrl && (
+                <PathResults
+                  result={activePathResult}
+                  isLoading={pathLoading && !activePathResult}
+                  selectedIndex={selectedPathIndex}
+                  onSelectPath={setSelectedPathIndex}
+                />
+              )}
+            </div>
+            <div className="border border-border rounded-lg bg-card p-3 flex flex-col gap-3">
+              {analyticsControls}
+              {showBrokers && (
+                <BrokerRanking analytics={analytics} isLoading={analyticsLoading} onSelectNode={handleSelectBroker} />
+              )}
+            </div>
             {mobileListPersons.map((person) => {
               const isExpanded = selectedPerson === person.id;
               const initials = person.name.split(" ").map((n) => n[0]).join("").slice(0, 2);
@@ -860,11 +1177,12 @@ export default function NetworkPage() {
                       <span className="text-sm font-medium truncate">{person.name}</span>
                       <span className="text-[10px] text-muted-foreground">
                         {person.connCount} connections
+                        {person.score !== null && ` · ${sizeBy} ${person.score.toFixed(2)}`}
                       </span>
                     </div>
                     <span
                       className="w-2.5 h-2.5 rounded-full shrink-0"
-                      style={{ backgroundColor: getCategoryColor(person.category) }}
+                      style={{ backgroundColor: nodeColors?.get(person.id) ?? getCategoryColor(person.category) }}
                     />
                     <ChevronRight
                       className={`w-4 h-4 text-muted-foreground transition-transform ${isExpanded ? "rotate-90" : ""}`}
@@ -1,5 +1,9 @@
+import { AddToWorkspaceButton } from "@/components/add-to-workspace-button";
+import { EgoNetworkPanel } from "@/components/ego-network";
 import { ExportButton } from "@/components/export-button";
+import { PersonFlights } from "@/components/person-flights";
 import { PersonHoverCard } from "@/components/person-hover-card";
+import { PersonMentions, personMentionsUrl, type PersonMentionsPage } from "@/components/person-mentions";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -29,6 +33,8 @@ import {
   Mail,
   MapPin,
   Network,
+  Plane,
+  Quote,
   Scale,
   Sparkles,
   Users
@@ -72,6 +78,13 @@ export default function PersonDetail() {
   const { data: person, isLoading } = useQuery<PersonDetail>({
     queryKey: ["/api/persons", params.id],
   });
+  // Shares its cache entry with the first page of the Mentions tab
+  const mentionsPersonId = parseInt(params.id);
+  const { data: firstMentions } = useQuery<PersonMentionsPage>({
+    queryKey: [personMentionsUrl(mentionsPersonId, 1)],
+    enabled: !isNaN(mentionsPersonId),
+  });
+  const mentionCount = firstMentions?.total ?? 0;
 
   const videoPlayer = useVideoPlayer();
   const docViewer = useDocumentViewer();
@@ -189,6 +202,7 @@ export default function PersonDetail() {
                   <Bookmark className="w-4 h-4 text-muted-foreground" />
                 )}
               </Button>
+              <AddToWorkspaceButton compact item={{ itemType: "person", entityId: person.id }} />
             </div>
           </div>
 
@@ -261,6 +275,16 @@ export default function PersonDetail() {
             <Network className="w-3 h-3" /> Connections (
             {person.connections?.length || 0})
           </TabsTrigger>
+          {mentionCount > 0 && (
+            <TabsTrigger value="mentions" className="gap-1">
+              <Quote className="w-3 h-3" /> Mentions ({mentionCount})
+            </TabsTrigger>
+          )}
+          {person.flightCount > 0 && (
+            <TabsTrigger value="flights" className="gap-1">
+              <Plane className="w-3 h-3" /> Flights ({person.flightCount})
+            </TabsTrigger>
+          )}
           {hasTimeline && (
             <TabsTrigger value="timeline" className="gap-1">
               <Clock className="w-3 h-3" /> Timeline (
@@ -407,6 +431,11 @@ export default function PersonDetail() {
         <TabsContent value="connections" className="mt-4">
           {person.connections && person.connections.length > 0 ? (
             <div className="flex flex-col gap-3">
+              <Card>
+                <CardContent className="p-4">
+                  <EgoNetworkPanel personId={person.id} />
+                </CardContent>
+              </Card>
               <div className="flex justify-end">
                 <ExportButton
                   endpoint={`/api/export/persons`}
@@ -478,6 +507,20 @@ export default function PersonDetail() {
           )}
         </TabsContent>
 
+        {/* Mentions Tab */}
+        {mentionCount > 0 && (
+          <TabsContent value="mentions" className="mt-4">
+            <PersonMentions personId={person.id} />
+          </TabsContent>
+        )}
+
+        {/* Flights Tab */}
+        {person.flightCount > 0 && (
+          <TabsContent value="flights" className="mt-4">
+            <PersonFlights personId={person.id} />
+          </TabsContent>
+        )}
+
         {/* Timeline Tab */}
         {hasTimeline && (
           <TabsContent value="timeline" className="mt-4">
@@ -1,6 +1,6 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Link } from "wouter";
+import { Link, useSearch } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -33,14 +33,19 @@ import {
   ChevronRight,
   BookOpen,
   Loader2,
+  Type,
+  Brain,
+  Blend,
 } from "lucide-react";
-import type { Person, Document, TimelineEvent } from "@shared/schema";
+import type { Person, Document, TimelineEvent, Bookmark as BookmarkType } from "@shared/schema";
 import { getClientId } from "@/lib/client-id";
 import { useBookmarks } from "@/hooks/use-bookmarks";
+import { useSearchAlerts } from "@/hooks/use-search-alerts";
 import { useImportanceVotes } from "@/hooks/use-importance-votes";
 import { ImportanceVoteButton } from "@/components/importance-vote-button";
 import { useSearchHistory } from "@/hooks/use-search-history";
 import { SavedSearches } from "@/components/saved-searches";
+import { AddToWorkspaceButton } from "@/components/add-to-workspace-button";
 import { useVideoPlayer } from "@/hooks/use-video-player";
 import { useDocumentViewer } from "@/hooks/use-document-viewer";
 import { isVideoDocument } from "@/lib/document-utils";
@@ -63,6 +68,14 @@ interface PageSearchResult {
   pageType: string | null;
 }
 
+type PageSearchMode = "keyword" | "semantic" | "hybrid";
+
+const PAGE_SEARCH_MODES: { value: PageSearchMode; label: string; icon: React.ComponentType<{ className?: string }>; hint: string }[] = [
+  { value: "keyword", label: "Keyword", icon: Type, hint: "Pages containing the query's words" },
+  { value: "semantic", label: "Semantic", icon: Brain, hint: "Pages about the same thing, even in other words" },
+  { value: "hybrid", label: "Hybrid", icon: Blend, hint: "Keyword and semantic scores combined" },
+];
+
 interface PageSearchResponse {
   results: PageSearchResult[];
   total: number;
@@ -79,10 +92,13 @@ export default function SearchPage() {
   const [debouncedQuery, setDebouncedQuery] = useState("");
   const { searchBookmarks, isBookmarked, toggleBookmark, deleteBookmark } = useBookmarks();
   const { history, addSearch, clearHistory } = useSearchHistory();
+  const { unreadByBookmark, markBookmarkRead } = useSearchAlerts();
+  const searchString = useSearch();
 
   const [ftPage, setFtPage] = useState(1);
   const [docTypeFilter, setDocTypeFilter] = useState("__all__");
   const [dataSetFilter, setDataSetFilter] = useState("__all__");
+  const [pageSearchMode, setPageSearchMode] = useState<PageSearchMode>("keyword");
   const debounceRef = useRef<ReturnType<typeof setTimeout>>();
 
   // Debounce query input — 200ms delay for type-as-you-search
@@ -114,13 +130,20 @@ export default function SearchPage() {
     }
   }, [addSearch]);
 
+  // Links from alerts, bookmarks and workspaces open a search via ?q=
+  useEffect(() => {
+    const q = new URLSearchParams(searchString).get("q");
+    if (q) executeSearch(q);
+  }, [searchString, executeSearch]);
+
   // Build page search URL with optional facet filters
   const pageSearchUrl = useMemo(() => {
     let url = `/api/search/pages?q=${encodeURIComponent(debouncedQuery)}&page=${ftPage}&limit=20`;
     if (docTypeFilter !== "__all__") url += `&documentType=${encodeURIComponent(docTypeFilter)}`;
     if (dataSetFilter !== "__all__") url += `&dataSet=${encodeURIComponent(dataSetFilter)}`;
+    if (pageSearchMode !== "keyword") url += `&mode=${pageSearchMode}`;
     return url;
-  }, [debouncedQuery, ftPage, docTypeFilter, dataSetFilter]);
+  }, [debouncedQuery, ftPage, docTypeFilter, dataSetFilter, pageSearchMode]);
 
   const { data, isLoading, isFetching } = useQuery<SearchResults>({
     queryKey: ["/api/search?q=" + encodeURIComponent(debouncedQuery)],
@@ -128,7 +151,7 @@ export default function SearchPage() {
     staleTime: 60_000,
   });
 
-  const { data: pageData } = useQuery<PageSearchResponse>({
+  const { data: pageData, isError: pageSearchFailed } = useQuery<PageSearchResponse>({
     queryKey: [pageSearchUrl],
     enabled: debouncedQuery.length >= 2,
     staleTime: 60_000,
@@ -183,9 +206,10 @@ export default function SearchPage() {
     return Array.from(groups.values());
   }, [pageData?.results]);
 
-  const handleSavedSearchSelect = useCallback((searchQuery: string) => {
-    executeSearch(searchQuery);
-  }, [executeSearch]);
+  const handleSavedSearchSelect = useCallback((bookmark: BookmarkType) => {
+    executeSearch(bookmark.searchQuery || bookmark.label || "");
+    markBookmarkRead(bookmark.id);
+  }, [executeSearch, markBookmarkRead]);
 
   const handleHistorySelect = useCallback((term: string) => {
     executeSearch(term);
@@ -213,6 +237,7 @@ export default function SearchPage() {
         savedSearches={searchBookmarks}
         onSelect={handleSavedSearchSelect}
         onRemove={deleteBookmark}
+        newResultCounts={unreadByBookmark}
       />
 
       {/* Search Input with Bookmark Toggle */}
@@ -251,6 +276,9 @@ export default function SearchPage() {
               {searchIsBookmarked ? <BookmarkCheck className="w-5 h-5" /> : <Bookmark className="w-5 h-5" />}
             </Button>
           )}
+          {debouncedQuery.length >= 2 && (
+            <AddToWorkspaceButton compact className="h-9 w-9" item={{ itemType: "search", searchQuery: debouncedQuery }} />
+          )}
         </div>
 
         {/* Search History */}
@@ -424,6 +452,27 @@ export default function SearchPage() {
             </TabsContent>
 
             <TabsContent value="fulltext" className="mt-4 flex flex-col gap-2">
+              <div className="flex items-center border border-border rounded-md overflow-hidden self-start" data-testid="toggle-page-search-mode">
+                {PAGE_SEARCH_MODES.map(({ value, label, icon: Icon, hint }) => (
+                  <Button
+                    key={value}
+                    variant={pageSearchMode === value ? "default" : "ghost"}
+                    size="sm"
+                    className="h-8 text-xs rounded-none px-2.5"
+                    title={hint}
+                    onClick={() => { setPageSearchMode(value); setFtPage(1); }}
+                    data-testid={`button-page-search-${value}`}
+                  >
+                    <Icon className="w-3 h-3 mr-1" />
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              {pageSearchFailed && pageSearchMode !== "keyword" && (
+                <p className="text-xs text-muted-foreground">
+                  Semantic search is not available right now. Switch back to keyword search.
+                </p>
+              )}
               {pageData?.facets && (pageData.facets.documentTypes.length > 1 || pageData.facets.dataSets.length > 1) && (
                 <div className="flex items-center gap-2 flex-wrap">
                   {pageData.facets.documentTypes.length > 1 && (
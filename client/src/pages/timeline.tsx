@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -12,9 +13,12 @@ import {
   X,
   ChevronLeft,
   ChevronRight,
+  Quote,
 } from "lucide-react";
 import type { TimelineEvent } from "@shared/schema";
 import TimelineViz from "@/components/timeline-viz";
+import { AddToWorkspaceButton } from "@/components/add-to-workspace-button";
+import { EventSourcesDrawer } from "@/components/event-sources-drawer";
 import { useUrlFilters } from "@/hooks/use-url-filters";
 
 interface EnrichedTimelineEvent extends TimelineEvent {
@@ -48,6 +52,8 @@ export default function TimelinePage() {
     page: "1",
   });
 
+  const [sourcesEventId, setSourcesEventId] = useState<number | null>(null);
+
   const currentPage = Math.max(1, parseInt(filters.page) || 1);
 
   const queryParams = new URLSearchParams();
@@ -236,9 +242,29 @@ export default function TimelinePage() {
           ))}
         </div>
       ) : (
-        <TimelineViz events={events} />
+        <TimelineViz
+          events={events}
+          renderEventActions={(event) => (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5"
+                onClick={() => setSourcesEventId(event.id)}
+                aria-label="Sources"
+                title="Sources"
+                data-testid={`button-event-sources-${event.id}`}
+              >
+                <Quote className="w-3 h-3" />
+              </Button>
+              <AddToWorkspaceButton compact className="h-5 w-5" item={{ itemType: "event", entityId: event.id }} />
+            </>
+          )}
+        />
       )}
 
+      <EventSourcesDrawer eventId={sourcesEventId} onClose={() => setSourcesEventId(null)} />
+
       {/* Pagination */}
       {totalPages > 1 && (
         <div className="flex items-center justify-center gap-2 pt-2">
@@ -0,0 +1,426 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ExportButton } from "@/components/export-button";
+import NetworkGraph from "@/components/network-graph";
+import TimelineViz from "@/components/timeline-viz";
+import { WorkspaceDialog } from "@/components/workspace-dialog";
+import {
+  ArrowDown,
+  ArrowUp,
+  Clock,
+  FileText,
+  FolderKanban,
+  MessageSquare,
+  Network,
+  Pencil,
+  Search,
+  StickyNote,
+  Trash2,
+  User,
+  X,
+} from "lucide-react";
+import { useWorkspace } from "@/hooks/use-workspaces";
+import { useAuth } from "@/hooks/use-auth";
+import type { WorkspaceItemDetail } from "@shared/schema";
+
+const itemIcons: Record<string, React.ComponentType<{ className?: string }>> = {
+  person: User,
+  document: FileText,
+  event: Clock,
+  search: Search,
+  note: StickyNote,
+};
+
+function itemLink(item: WorkspaceItemDetail): { href: string; label: string; subtitle?: string | null } | null {
+  switch (item.itemType) {
+    case "person":
+      return { href: `/people/${item.entityId}`, label: item.person?.name ?? `Person #${item.entityId}`, subtitle: item.person?.role };
+    case "document":
+      return { href: `/documents/${item.entityId}`, label: item.document?.title ?? `Document #${item.entityId}`, subtitle: item.document?.documentType };
+    case "event":
+      return { href: "/timeline", label: item.event?.title ?? `Event #${item.entityId}`, subtitle: item.event?.date };
+    case "search":
+      return { href: `/search?q=${encodeURIComponent(item.searchQuery ?? "")}`, label: item.searchQuery ?? "" };
+    default:
+      return null;
+  }
+}
+
+interface WorkspaceItemRowProps {
+  item: WorkspaceItemDetail;
+  isFirst: boolean;
+  isLast: boolean;
+  onMove: (direction: -1 | 1) => void;
+  onSave: (update: { comment?: string | null; noteText?: string }) => Promise<unknown>;
+  onRemove: () => void;
+}
+
+function WorkspaceItemRow({ item, isFirst, isLast, onMove, onSave, onRemove }: WorkspaceItemRowProps) {
+  const [editing, setEditing] = useState(false);
+  const [comment, setComment] = useState(item.comment ?? "");
+  const [noteText, setNoteText] = useState(item.noteText ?? "");
+  const Icon = itemIcons[item.itemType] ?? StickyNote;
+  const link = itemLink(item);
+  const isNote = item.itemType === "note";
+
+  useEffect(() => {
+    if (!editing) {
+      setComment(item.comment ?? "");
+      setNoteText(item.noteText ?? "");
+    }
+  }, [item, editing]);
+
+  const handleSave = async () => {
+    if (isNote && !noteText.trim()) return;
+    try {
+      await onSave(isNote ? { noteText: noteText.trim(), comment: comment.trim() || null } : { comment: comment.trim() || null });
+      setEditing(false);
+    } catch {
+      // Keep editing; the mutation shows the error toast
+    }
+  };
+
+  return (
+    <Card className="group" data-testid={`card-workspace-item-${item.id}`}>
+      <CardContent className="p-3 flex items-start gap-3">
+        <div className="flex flex-col gap-0.5 shrink-0">
+          <Button variant="ghost" size="icon" className="h-6 w-6" disabled={isFirst} onClick={() => onMove(-1)} aria-label="Move up">
+            <ArrowUp className="w-3.5 h-3.5" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-6 w-6" disabled={isLast} onClick={() => onMove(1)} aria-label="Move down">
+            <ArrowDown className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+
+        <div className="flex flex-col gap-1.5 min-w-0 flex-1">
+          <div className="flex items-center gap-2 min-w-0">
+            <Icon className="w-4 h-4 text-muted-foreground shrink-0" />
+            {link ? (
+              <Link href={link.href} className="text-sm font-medium hover:underline truncate">
+                {link.label}
+              </Link>
+            ) : (
+              <span className="text-sm font-medium text-muted-foreground">Note</span>
+            )}
+            {link?.subtitle && (
+              <span className="text-[11px] text-muted-foreground capitalize truncate">{link.subtitle}</span>
+            )}
+          </div>
+
+          {editing ? (
+            <div className="flex flex-col gap-2">
+              {isNote && (
+                <Textarea
+                  value={noteText}
+                  onChange={(e) => setNoteText(e.target.value)}
+                  maxLength={10000}
+                  rows={4}
+                  data-testid={`input-workspace-note-${item.id}`}
+                />
+              )}
+              <Textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                maxLength={2000}
+                rows={2}
+                placeholder="Why does this matter?"
+                data-testid={`input-workspace-comment-${item.id}`}
+              />
+              <div className="flex items-center gap-2">
+                <Button size="sm" onClick={handleSave} data-testid={`button-save-workspace-item-${item.id}`}>Save</Button>
+                <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>Cancel</Button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {isNote && <p className="text-sm whitespace-pre-wrap">{item.noteText}</p>}
+              {item.comment && (
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap flex items-start gap-1.5">
+                  <MessageSquare className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                  {item.comment}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        {!editing && (
+          <div className="flex items-center gap-0.5 shrink-0 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditing(true)} aria-label="Edit item">
+              <Pencil className="w-3.5 h-3.5" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onRemove} aria-label="Remove item">
+              <X className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function WorkspaceDetailPage() {
+  const params = useParams<{ id: string }>();
+  const id = parseInt(params.id || "");
+  const [, navigate] = useLocation();
+  const { user, isLoading: authLoading } = useAuth();
+  const {
+    workspace,
+    isLoading,
+    notFound,
+    visualization,
+    visualizationLoading,
+    updateWorkspace,
+    deleteWorkspace,
+    addItem,
+    updateItem,
+    removeItem,
+    reorderItems,
+    isSaving,
+  } = useWorkspace(id);
+
+  const [renaming, setRenaming] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [newNote, setNewNote] = useState("");
+  const [selectedPerson, setSelectedPerson] = useState<number | null>(null);
+  const [focusedNode, setFocusedNode] = useState<number | null>(null);
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    if (!workspace) return;
+    const ids = workspace.items.map((i) => i.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderItems(ids);
+  };
+
+  const handleAddNote = async () => {
+    if (!newNote.trim()) return;
+    try {
+      await addItem({ itemType: "note", noteText: newNote.trim() });
+      setNewNote("");
+    } catch {
+      // The mutation shows the error toast
+    }
+  };
+
+  const handleRename = async ({ name, description }: { name: string; description: string | null }) => {
+    try {
+      await updateWorkspace({ name, description });
+      setRenaming(false);
+    } catch {
+      // Keep the dialog open; the mutation shows the error toast
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteWorkspace();
+      navigate("/workspaces");
+    } catch {
+      // The mutation shows the error toast
+    }
+  };
+
+  if (isLoading || authLoading) {
+    return (
+      <div className="flex flex-col gap-4 p-6 max-w-6xl mx-auto w-full">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!user || notFound || !workspace) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 gap-4">
+        <FolderKanban className="w-10 h-10 text-muted-foreground/40" />
+        <p className="text-sm text-muted-foreground">
+          {user ? "Workspace not found." : "Sign in to view your workspaces."}
+        </p>
+        <Link href={user ? "/workspaces" : "/login"}>
+          <Button variant="outline" size="sm">{user ? "All workspaces" : "Sign in"}</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const selectedPersonName = visualization?.persons.find((p) => p.id === selectedPerson)?.name;
+
+  return (
+    <div className="flex flex-col gap-6 p-6 max-w-6xl mx-auto w-full">
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div className="flex flex-col gap-2 min-w-0">
+          <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2" data-testid="text-workspace-name">
+            <FolderKanban className="w-6 h-6 text-primary shrink-0" />
+            <span className="truncate">{workspace.name}</span>
+          </h1>
+          {workspace.description && (
+            <p className="text-sm text-muted-foreground whitespace-pre-wrap">{workspace.description}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" className="gap-1.5" onClick={() => setRenaming(true)}>
+            <Pencil className="w-3.5 h-3.5" /> Edit
+          </Button>
+          <ExportButton endpoint={`/api/export/workspaces/${workspace.id}`} filename={`workspace-${workspace.id}`} obsidian />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1.5 text-destructive hover:text-destructive"
+            onClick={() => setConfirmDelete(true)}
+            data-testid="button-delete-workspace"
+          >
+            <Trash2 className="w-3.5 h-3.5" /> Delete
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <div className="flex flex-col gap-3">
+          <div className="flex items-center gap-2">
+            <h2 className="text-sm font-semibold">Items</h2>
+            <Badge variant="secondary" className="text-[10px] px-1.5 py-0">{workspace.items.length}</Badge>
+          </div>
+
+          {workspace.items.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">
+              Nothing here yet. Use "Add to workspace" on people, documents, timeline events and searches,
+              or write a note below.
+            </p>
+          ) : (
+            <div className="flex flex-col gap-2">
+              {workspace.items.map((item, index) => (
+                <WorkspaceItemRow
+                  key={item.id}
+                  item={item}
+                  isFirst={index === 0}
+                  isLast={index === workspace.items.length - 1}
+                  onMove={(direction) => handleMove(index, direction)}
+                  onSave={(update) => updateItem({ itemId: item.id, ...update })}
+                  onRemove={() => removeItem(item.id)}
+                />
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-col gap-2">
+            <Textarea
+              value={newNote}
+              onChange={(e) => setNewNote(e.target.value)}
+              maxLength={10000}
+              rows={3}
+              placeholder="Add a note to this workspace"
+              data-testid="input-workspace-new-note"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              className="self-end gap-1.5"
+              disabled={!newNote.trim() || isSaving}
+              onClick={handleAddNote}
+              data-testid="button-add-workspace-note"
+            >
+              <StickyNote className="w-3.5 h-3.5" /> Add note
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <Network className="w-4 h-4" /> Connections
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-2">
+            {visualizationLoading ? (
+              <Skeleton className="h-[400px] w-full" />
+            ) : !visualization || visualization.persons.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">
+                Add people to this workspace to see how they are connected.
+              </p>
+            ) : (
+              <>
+                <div className="h-[400px]">
+                  <NetworkGraph
+                    persons={visualization.persons}
+                    connections={visualization.connections}
+                    searchQuery=""
+                    selectedPersonId={selectedPerson}
+                    focusedNodeId={focusedNode}
+                    onSelectPerson={setSelectedPerson}
+                    onFocusNode={setFocusedNode}
+                  />
+                </div>
+                {selectedPersonName && (
+                  <Link href={`/people/${selectedPerson}`} className="text-xs text-primary hover:underline self-start">
+                    Open {selectedPersonName}
+                  </Link>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <h2 className="text-sm font-semibold flex items-center gap-2">
+          <Clock className="w-4 h-4" /> Timeline
+        </h2>
+        <p className="text-xs text-muted-foreground -mt-2">
+          Events added to this workspace and events sourced from its documents.
+        </p>
+        {visualizationLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : !visualization || visualization.events.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No timeline events yet.</p>
+        ) : (
+          <TimelineViz events={visualization.events} />
+        )}
+      </div>
+
+      <WorkspaceDialog
+        open={renaming}
+        onOpenChange={setRenaming}
+        title="Edit workspace"
+        initialName={workspace.name}
+        initialDescription={workspace.description}
+        isSaving={isSaving}
+        onSave={handleRename}
+      />
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{workspace.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The workspace and its notes and comments are removed. The people, documents and events
+              themselves are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} data-testid="button-confirm-delete-workspace">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { WorkspaceDialog } from "@/components/workspace-dialog";
+import { FolderKanban, Plus } from "lucide-react";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function WorkspacesPage() {
+  const { user, isLoading: authLoading } = useAuth();
+  const { workspaces, isLoading, createWorkspace, isSaving } = useWorkspaces();
+  const [creating, setCreating] = useState(false);
+  const [, navigate] = useLocation();
+
+  const handleCreate = async ({ name, description }: { name: string; description: string | null }) => {
+    try {
+      const workspace = await createWorkspace({ name, description: description ?? undefined });
+      setCreating(false);
+      navigate(`/workspaces/${workspace.id}`);
+    } catch {
+      // Keep the dialog open; the mutation shows the error toast
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6 p-6 max-w-5xl mx-auto w-full">
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+            <FolderKanban className="w-6 h-6 text-primary" />
+            Workspaces
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Collect people, documents, events, searches and notes for a line of inquiry.
+          </p>
+        </div>
+        {user && (
+          <Button size="sm" className="gap-1.5" onClick={() => setCreating(true)} data-testid="button-new-workspace">
+            <Plus className="w-4 h-4" /> New workspace
+          </Button>
+        )}
+      </div>
+
+      {isLoading || authLoading ? (
+        <p className="text-sm text-muted-foreground">Loading workspaces...</p>
+      ) : !user ? (
+        <div className="flex flex-col items-center justify-center py-16 gap-4">
+          <FolderKanban className="w-10 h-10 text-muted-foreground/40" />
+          <p className="text-sm text-muted-foreground text-center max-w-md">
+            Sign in to build workspaces for your investigations.
+          </p>
+          <Link href="/login">
+            <Button variant="outline" size="sm" data-testid="button-workspaces-sign-in">Sign in</Button>
+          </Link>
+        </div>
+      ) : workspaces.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 gap-4">
+          <FolderKanban className="w-10 h-10 text-muted-foreground/40" />
+          <p className="text-sm text-muted-foreground text-center max-w-md">
+            No workspaces yet. Create one here, or use "Add to workspace" on a person, document,
+            timeline event or search.
+          </p>
+          <Button variant="outline" size="sm" className="gap-1.5" onClick={() => setCreating(true)}>
+            <Plus className="w-4 h-4" /> New workspace
+          </Button>
+        </div>
+      ) : (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {workspaces.map((w) => (
+            <Link key={w.id} href={`/workspaces/${w.id}`}>
+              <Card className="hover-elevate cursor-pointer h-full" data-testid={`card-workspace-${w.id}`}>
+                <CardContent className="p-4 flex flex-col gap-1.5">
+                  <span className="font-semibold truncate">{w.name}</span>
+                  {w.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-2">{w.description}</p>
+                  )}
+                  <div className="flex items-center gap-3 text-[11px] text-muted-foreground mt-auto pt-1">
+                    <span>{w.itemCount} {w.itemCount === 1 ? "item" : "items"}</span>
+                    <span>Updated {new Date(w.updatedAt).toLocaleDateString()}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <WorkspaceDialog
+        open={creating}
+        onOpenChange={setCreating}
+        title="New workspace"
+        submitLabel="Create"
+        isSaving={isSaving}
+        onSave={handleCreate}
+      />
+    </div>
+  );
+}
@@ -2,11 +2,11 @@ import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
 import { getAIPriority } from "./media-classifier";
-import { getClient, getModelConfig, calculateCostCents as calcCost, AVAILABLE_MODELS, DEFAULT_MODEL_ID } from "../../server/chat/models";
+import { getClient, getModelConfig } from "../../server/chat/models";
+import { assertWithinBudget, BudgetExceededError, recordAIUsage } from "../../server/budget";
 import { db } from "../../server/db";
-import { aiAnalyses, aiAnalysisPersons } from "../../shared/schema";
-import { normalizeName } from "../../server/storage";
-import { eq } from "drizzle-orm";
+import { aiAnalyses } from "../../shared/schema";
+import { saveAnalysisVersion } from "./analysis-versions";
 import { GENERATED_TIER0_PERSONS } from "./tier0-persons-generated";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -76,6 +76,8 @@ export type AnalysisTier = 0 | 1;
 
 export interface TieredAnalysisResult extends AIAnalysisResult {
   tier: AnalysisTier;
+  /** Model registry id; null for Tier 0 */
+  model: string | null;
   costCents: number;
   inputTokens: number;
   outputTokens: number;
@@ -229,6 +231,7 @@ export function analyzeDocumentTier0(text: string, fileName: string, dataSet: st
     keyFacts: [],
     analyzedAt: new Date().toISOString(),
     tier: 0,
+    model: null,
     costCents: 0,
     inputTokens: 0,
     outputTokens: 0,
@@ -416,19 +419,29 @@ function mergeAnalyses(results: AIAnalysisResult[]): AIAnalysisResult {
   return merged;
 }
 
-function calculateCostCents(inputTokens: number, outputTokens: number, modelId?: string): number {
-  return calcCost(inputTokens, outputTokens, modelId);
-}
-
 interface AnalyzeChunkResult {
   analysis: AIAnalysisResult;
   inputTokens: number;
   outputTokens: number;
 }
 
-async function analyzeDocumentWithTokens(text: string, fileName: string, dataSet: string, modelId?: string): Promise<{ result: AIAnalysisResult; inputTokens: number; outputTokens: number }> {
+/** What an analysis is billed to; budget policies are checked against it before the first chunk. */
+export interface AnalysisUsage {
+  jobType: string;
+  documentId?: number;
+}
+
+async function analyzeDocumentWithTokens(
+  text: string,
+  fileName: string,
+  dataSet: string,
+  modelId: string | undefined,
+  usage: AnalysisUsage,
+): Promise<{ result: AIAnalysisResult; inputTokens: number; outputTokens: number; costCents: number }> {
   const client = getClient(modelId);
   const config = getModelConfig(modelId);
+  const usageContext = { ...usage, model: config.id, dataSet };
+  await assertWithinBudget(usageContext);
   const chunks = chunkText(text, MAX_CHUNK_CHARS);
   console.log(`  Analyzing ${fileName} (${text.length} chars, ${chunks.length} chunk(s))...`);
 
@@ -439,7 +452,7 @@ async function analyzeDocumentWithTokens(text: string, fileName: string, dataSet
     const chunkLabel = chunks.length > 1 ? ` (chunk ${i + 1}/${chunks.length})` : "";
 
     try {
-      const response = await client.chat.completions.create({
+      const response = await client.complete({
         model: config.model,
         messages: [
           { role: "system", content: SYSTEM_PROMPT },
@@ -448,19 +461,18 @@ async function analyzeDocumentWithTokens(text: string, fileName: string, dataSet
             content: `Analyze this Epstein case document text${chunkLabel}. File: ${fileName}, Data Set: ${dataSet}\n\n---\n${chunk}`,
           },
         ],
-        max_tokens: config.maxTokens,
+        maxTokens: config.maxTokens,
         temperature: 0.1,
       });
 
-      let content = response.choices[0]?.message?.content;
+      let content = response.content;
       if (!content) {
         console.warn(`    No response for ${fileName}${chunkLabel}`);
         continue;
       }
 
-      const usage = response.usage;
-      const inTok = usage?.prompt_tokens ?? 0;
-      const outTok = usage?.completion_tokens ?? 0;
+      const inTok = response.inputTokens;
+      const outTok = response.outputTokens;
 
       content = content.replace(/^```(?:json)?\s*\n?/i, "").replace(/\n?```\s*$/i, "").trim();
 
@@ -527,14 +539,16 @@ async function analyzeDocumentWithTokens(text: string, fileName: string, dataSet
       },
       inputTokens: 0,
       outputTokens: 0,
+      costCents: 0,
     };
   }
 
   const totalInput = chunkResults.reduce((sum, c) => sum + c.inputTokens, 0);
   const totalOutput = chunkResults.reduce((sum, c) => sum + c.outputTokens, 0);
   const merged = mergeAnalyses(chunkResults.map(c => c.analysis));
+  const costCents = await recordAIUsage(usageContext, { inputTokens: totalInput, outputTokens: totalOutput });
 
-  return { result: merged, inputTokens: totalInput, outputTokens: totalOutput };
+  return { result: merged, inputTokens: totalInput, outputTokens: totalOutput, costCents };
 }
 
 export async function analyzeDocumentTiered(
@@ -542,19 +556,20 @@ export async function analyzeDocumentTiered(
   fileName: string,
   dataSet: string,
   tier: AnalysisTier,
-  modelId?: string,
+  modelId: string | undefined,
+  usage: AnalysisUsage,
 ): Promise<TieredAnalysisResult> {
   if (tier === 0) {
     return analyzeDocumentTier0(text, fileName, dataSet);
   }
 
   // Tier 1: AI API analysis
-  const { result, inputTokens, outputTokens } = await analyzeDocumentWithTokens(text, fileName, dataSet, modelId);
-  const costCents = calculateCostCents(inputTokens, outputTokens, modelId);
+  const { result, inputTokens, outputTokens, costCents } = await analyzeDocumentWithTokens(text, fileName, dataSet, modelId, usage);
 
   return {
     ...result,
     tier: 1,
+    model: getModelConfig(modelId).id,
     costCents,
     inputTokens,
     outputTokens,
@@ -684,52 +699,18 @@ export async function runAIAnalysis(options: {
         continue;
       }
 
-      const { result, inputTokens, outputTokens } = await analyzeDocumentWithTokens(data.text, fileName, entry.dataSet, modelId);
-      const costCents = calculateCostCents(inputTokens, outputTokens, modelId);
+      const { result, inputTokens, outputTokens, costCents } = await analyzeDocumentWithTokens(data.text, fileName, entry.dataSet, modelId, { jobType: "analyze-ai" });
       totalCostCents += costCents;
 
-      // Save to database
-      const analysisValues: Record<string, any> = {
-        fileName,
-        dataSet: entry.dataSet,
-        documentType: result.documentType,
-        dateOriginal: result.dateOriginal,
-        summary: result.summary,
-        personCount: result.persons.length,
-        connectionCount: result.connections.length,
-        eventCount: result.events.length,
-        locationCount: result.locations.length,
-        keyFactCount: result.keyFacts.length,
-        persons: result.persons,
-        connectionsData: result.connections,
-        events: result.events,
-        locations: result.locations,
-        keyFacts: result.keyFacts,
-        analyzedAt: new Date(),
-      };
-      // Include entity data if the schema supports it (Phase 3)
-      if (result.entities && result.entities.length > 0) {
-        analysisValues.entities = result.entities;
-        analysisValues.entityCount = result.entities.length;
-      }
-      const [analysisRow] = await db.insert(aiAnalyses).values(analysisValues)
-        .onConflictDoUpdate({ target: aiAnalyses.fileName, set: analysisValues })
-        .returning({ id: aiAnalyses.id });
-
-      await db.delete(aiAnalysisPersons).where(eq(aiAnalysisPersons.aiAnalysisId, analysisRow.id));
-      if (result.persons.length > 0) {
-        await db.insert(aiAnalysisPersons).values(
-          result.persons.map((p: any) => ({
-            aiAnalysisId: analysisRow.id,
-            name: p.name,
-            normalizedName: normalizeName(p.name),
-            role: p.role ?? null,
-            category: p.category ?? null,
-            context: p.context ?? null,
-            mentionCount: p.mentionCount ?? 1,
-          }))
-        );
-      }
+      const { version, promoted } = await saveAnalysisVersion({
+        ...result,
+        tier: 1,
+        model: modelConfig.id,
+        costCents,
+        inputTokens,
+        outputTokens,
+      });
+      if (!promoted) console.log(`    Saved as version ${version}; promote with load-ai-results --promote ${fileName}@${version}`);
 
       results.push(result);
       processed++;
@@ -751,6 +732,10 @@ export async function runAIAnalysis(options: {
         await sleep(delayMs);
       }
     } catch (error: any) {
+      if (error instanceof BudgetExceededError) {
+        console.log(`\n  ${error.message}`);
+        break;
+      }
       console.error(`  Error processing ${entry.file}: ${error.message}`);
       if (error.message?.includes("429")) {
         console.log("  Rate limited, waiting 30s...");
@@ -0,0 +1,199 @@
+import { and, desc, eq, sql } from "drizzle-orm";
+import { db } from "../../server/db";
+import { normalizeName } from "../../server/storage";
+import { aiAnalyses, aiAnalysisPersons, aiAnalysisVersions, type AIAnalysisVersion } from "../../shared/schema";
+import type { AIPersonMention, TieredAnalysisResult } from "./ai-analyzer";
+
+/**
+ * Every analysis run of a file is kept in ai_analysis_versions, numbered per
+ * file. ai_analyses and ai_analysis_persons hold the promoted version, which
+ * is what load-ai-results and the site read; server/ai-analysis-versions.ts
+ * diffs versions for review before a re-analysis is promoted.
+ */
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function jsonArrayLength(value: unknown): number {
+  return Array.isArray(value) ? value.length : 0;
+}
+
+/**
+ * Serialize version writes per file until `tx` ends: batch-processor and
+ * find-high-value-unanalyzed can analyze the same file at once.
+ */
+async function lockFileVersions(tx: Transaction, fileName: string): Promise<void> {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('ai_analysis_versions'), hashtext(${fileName}))`);
+}
+
+/**
+ * Keep a file's pre-versioning analysis as version 1 before its first new
+ * version is numbered, in case the server's backfill migration has not run
+ * yet. Returns the file's latest version afterwards (0 if it had none).
+ */
+async function seedFromCurrentAnalysis(tx: Transaction, fileName: string): Promise<number> {
+  const [current] = await tx.select().from(aiAnalyses).where(eq(aiAnalyses.fileName, fileName)).limit(1);
+  if (!current) return 0;
+
+  await tx.insert(aiAnalysisVersions).values({
+    fileName,
+    version: 1,
+    dataSet: current.dataSet,
+    documentType: current.documentType,
+    dateOriginal: current.dateOriginal,
+    summary: current.summary,
+    tier: current.tier,
+    schemaVersion: current.schemaVersion,
+    costCents: current.costCents,
+    inputTokens: current.inputTokens,
+    outputTokens: current.outputTokens,
+    persons: current.persons,
+    connectionsData: current.connectionsData,
+    events: current.events,
+    locations: current.locations,
+    keyFacts: current.keyFacts,
+    entities: current.entities,
+    analyzedAt: current.analyzedAt,
+  });
+  await tx.update(aiAnalyses).set({ version: 1 }).where(eq(aiAnalyses.id, current.id));
+  return 1;
+}
+
+/** Make `row` the file's current analysis, replacing its person mentions. */
+async function writeCurrentAnalysis(tx: Transaction, row: AIAnalysisVersion): Promise<void> {
+  const analysisValues = {
+    fileName: row.fileName,
+    dataSet: row.dataSet,
+    documentType: row.documentType,
+    dateOriginal: row.dateOriginal,
+    summary: row.summary,
+    personCount: jsonArrayLength(row.persons),
+    connectionCount: jsonArrayLength(row.connectionsData),
+    eventCount: jsonArrayLength(row.events),
+    locationCount: jsonArrayLength(row.locations),
+    keyFactCount: jsonArrayLength(row.keyFacts),
+    entityCount: jsonArrayLength(row.entities),
+    tier: row.tier,
+    // ai_analyses keeps whole cents; the version keeps the exact cost
+    costCents: Math.ceil(row.costCents),
+    inputTokens: row.inputTokens,
+    outputTokens: row.outputTokens,
+    persons: row.persons,
+    connectionsData: row.connectionsData,
+    events: row.events,
+    locations: row.locations,
+    keyFacts: row.keyFacts,
+    entities: row.entities,
+    schemaVersion: row.schemaVersion,
+    version: row.version,
+    analyzedAt: row.analyzedAt,
+  };
+  const persons = (row.persons as AIPersonMention[] | null) ?? [];
+
+  const [analysisRow] = await tx.insert(aiAnalyses).values(analysisValues)
+    .onConflictDoUpdate({ target: aiAnalyses.fileName, set: analysisValues })
+    .returning({ id: aiAnalyses.id });
+
+  await tx.delete(aiAnalysisPersons).where(eq(aiAnalysisPersons.aiAnalysisId, analysisRow.id));
+  if (persons.length > 0) {
+    await tx.insert(aiAnalysisPersons).values(
+      persons.map((p) => ({
+        aiAnalysisId: analysisRow.id,
+        name: p.name,
+        normalizedName: normalizeName(p.name),
+        role: p.role ?? null,
+        category: p.category ?? null,
+        context: p.context ?? null,
+        mentionCount: p.mentionCount ?? 1,
+      })),
+    );
+  }
+}
+
+/**
+ * Store `result` as the file's next version. It is promoted straight away when
+ * the file has no current analysis or only a lower-tier one; a re-analysis
+ * at the same tier waits for `load-ai-results --promote`. Numbering and
+ * promotion happen in one transaction under a per-file lock.
+ */
+export async function saveAnalysisVersion(result: TieredAnalysisResult): Promise<{ version: number; promoted: boolean }> {
+  return db.transaction(async (tx) => {
+    await lockFileVersions(tx, result.fileName);
+
+    let [{ latest }] = await tx.select({ latest: sql<number>`coalesce(max(${aiAnalysisVersions.version}), 0)::int` })
+      .from(aiAnalysisVersions)
+      .where(eq(aiAnalysisVersions.fileName, result.fileName));
+    if (latest === 0) latest = await seedFromCurrentAnalysis(tx, result.fileName);
+
+    const [row] = await tx.insert(aiAnalysisVersions).values({
+      fileName: result.fileName,
+      version: latest + 1,
+      dataSet: result.dataSet,
+      documentType: result.documentType,
+      dateOriginal: result.dateOriginal,
+      summary: result.summary,
+      tier: result.tier,
+      model: result.model,
+      costCents: result.costCents,
+      inputTokens: result.inputTokens,
+      outputTokens: result.outputTokens,
+      persons: result.persons,
+      connectionsData: result.connections,
+      events: result.events,
+      locations: result.locations,
+      keyFacts: result.keyFacts,
+      entities: result.entities ?? [],
+      analyzedAt: new Date(result.analyzedAt),
+    }).returning();
+
+    const [current] = await tx.select({ tier: aiAnalyses.tier }).from(aiAnalyses)
+      .where(eq(aiAnalyses.fileName, result.fileName))
+      .limit(1);
+    const promoted = !current || result.tier > current.tier;
+    if (promoted) await writeCurrentAnalysis(tx, row);
+
+    return { version: row.version, promoted };
+  });
+}
+
+/**
+ * Make a version of `fileName` current: the given one, or else the newest.
+ * Also returns the version it replaced, whose loaded links the caller
+ * retracts; null when there was none or it is the same version.
+ */
+export async function promoteAnalysisVersion(
+  fileName: string,
+  version?: number,
+): Promise<{ promoted: AIAnalysisVersion; replaced: AIAnalysisVersion | null }> {
+  return db.transaction(async (tx) => {
+    await lockFileVersions(tx, fileName);
+
+    const [row] = await tx.select().from(aiAnalysisVersions)
+      .where(version === undefined
+        ? eq(aiAnalysisVersions.fileName, fileName)
+        : and(eq(aiAnalysisVersions.fileName, fileName), eq(aiAnalysisVersions.version, version)))
+      .orderBy(desc(aiAnalysisVersions.version))
+      .limit(1);
+    if (!row) {
+      throw new Error(version === undefined ? `No analysis versions of ${fileName}` : `${fileName} has no analysis version ${version}`);
+    }
+
+    const [current] = await tx.select({ version: aiAnalyses.version }).from(aiAnalyses)
+      .where(eq(aiAnalyses.fileName, fileName))
+      .limit(1);
+    let replaced: AIAnalysisVersion | null = null;
+    if (current?.version != null && current.version !== row.version) {
+      [replaced = null] = await tx.select().from(aiAnalysisVersions)
+        .where(and(eq(aiAnalysisVersions.fileName, fileName), eq(aiAnalysisVersions.version, current.version)))
+        .limit(1);
+    }
+
+    await writeCurrentAnalysis(tx, row);
+    return { promoted: row, replaced };
+  });
+}
+
+/** `EFTA00001234.pdf@2`, or just the file name for its newest version */
+export function parsePromoteTarget(raw: string): { fileName: string; version?: number } {
+  const match = raw.match(/^(.+)@(\d+)$/);
+  return match ? { fileName: match[1], version: parseInt(match[2], 10) } : { fileName: raw };
+}
@@ -4,8 +4,9 @@ import * as path from "path";
 import { fileURLToPath } from "url";
 import { eq, and } from "drizzle-orm";
 import { db } from "../../server/db";
-import { aiAnalyses } from "../../shared/schema";
-import { getClient, getModelConfig, calculateCostCents } from "../../server/chat/models";
+import { aiAnalyses, aiAnalysisVersions } from "../../shared/schema";
+import { getClient, getModelConfig } from "../../server/chat/models";
+import { assertWithinBudget, BudgetExceededError, recordAIUsage } from "../../server/budget";
 import { chunkText, type AIEntityMention, type AIConnection } from "./ai-analyzer";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -119,7 +120,7 @@ async function extractEntitiesFromChunk(
   const client = getClient(modelId);
   const config = getModelConfig(modelId);
 
-  const response = await client.chat.completions.create({
+  const response = await client.complete({
     model: config.model,
     messages: [
       { role: "system", content: ENTITY_EXTRACTION_PROMPT },
@@ -128,16 +129,15 @@ async function extractEntitiesFromChunk(
         content: `Extract entities from this Epstein case document. File: ${fileName}, Data Set: ${dataSet}\n\n---\n${text}`,
       },
     ],
-    max_tokens: 2048,
+    maxTokens: 2048,
     temperature: 0.1,
   });
 
-  const usage = response.usage;
-  const inTok = usage?.prompt_tokens ?? 0;
-  const outTok = usage?.completion_tokens ?? 0;
+  const inTok = response.inputTokens;
+  const outTok = response.outputTokens;
   const empty = { result: { entities: [], entityConnections: [] }, inputTokens: inTok, outputTokens: outTok };
 
-  let content = response.choices[0]?.message?.content;
+  let content = response.content;
   if (!content) return empty;
 
   content = content.replace(/^```(?:json)?\s*\n?/i, "").replace(/\n?```\s*$/i, "").trim();
@@ -220,6 +220,7 @@ export async function backfillEntities(config: BackfillConfig): Promise<Backfill
     fileName: aiAnalyses.fileName,
     dataSet: aiAnalyses.dataSet,
     connectionsData: aiAnalyses.connectionsData,
+    version: aiAnalyses.version,
   }).from(aiAnalyses)
     .where(and(
       eq(aiAnalyses.schemaVersion, 1),
@@ -255,6 +256,8 @@ export async function backfillEntities(config: BackfillConfig): Promise<Backfill
     }
 
     try {
+      const usageContext = { jobType: "backfill-entities", model: modelConfig.id, dataSet: row.dataSet };
+      await assertWithinBudget(usageContext);
       const chunks = chunkText(text, MAX_CHUNK_CHARS);
       const chunkResults: { result: BackfillResult; inputTokens: number; outputTokens: number }[] = [];
 
@@ -271,7 +274,7 @@ export async function backfillEntities(config: BackfillConfig): Promise<Backfill
 
       const totalInput = chunkResults.reduce((s, c) => s + c.inputTokens, 0);
       const totalOutput = chunkResults.reduce((s, c) => s + c.outputTokens, 0);
-      const costCents = calculateCostCents(totalInput, totalOutput, config.model);
+      const costCents = await recordAIUsage(usageContext, { inputTokens: totalInput, outputTokens: totalOutput });
       progress.totalCostCents += costCents;
 
       const merged = mergeEntityResults(chunkResults.map(c => c.result));
@@ -287,6 +290,14 @@ export async function backfillEntities(config: BackfillConfig): Promise<Backfill
         connectionCount: enrichedConns.length,
         schemaVersion: 2,
       }).where(eq(aiAnalyses.id, row.id));
+      // ...and the version it was promoted from, so version diffs see the entities too
+      if (row.version !== null) {
+        await db.update(aiAnalysisVersions).set({
+          entities: merged.entities,
+          connectionsData: enrichedConns,
+          schemaVersion: 2,
+        }).where(and(eq(aiAnalysisVersions.fileName, row.fileName), eq(aiAnalysisVersions.version, row.version)));
+      }
 
       progress.processed++;
       progress.totalEntities += merged.entities.length;
@@ -300,6 +311,11 @@ export async function backfillEntities(config: BackfillConfig): Promise<Backfill
         await sleep(config.delayMs);
       }
     } catch (error: any) {
+      if (error instanceof BudgetExceededError) {
+        if (error.policy.dataSet !== null) continue;
+        console.log(`\n  ${error.message}`);
+        break;
+      }
       console.error(`  Error processing ${row.fileName}: ${error.message}`);
       progress.errors++;
       if (error.message?.includes("429") || error.status === 429) {
@@ -0,0 +1,47 @@
+import "dotenv/config";
+import { eq, isNull } from "drizzle-orm";
+import { db } from "../../server/db";
+import { timelineEvents } from "../../shared/schema";
+import { eventDateColumns, parseEventDate } from "../../server/event-dates";
+
+/**
+ * Backfill the uncertain-date columns (earliest/latest day, precision,
+ * original text) on timeline events loaded before they existed, reading the
+ * stored date. `date` itself is left alone, since loaders de-duplicate events
+ * on date and title.
+ */
+export async function backfillEventDates(): Promise<number> {
+  console.log("Backfilling timeline event date ranges...");
+
+  const events = await db.select({ id: timelineEvents.id, date: timelineEvents.date })
+    .from(timelineEvents)
+    .where(isNull(timelineEvents.dateEarliest));
+  console.log(`  Found ${events.length} events without a date range`);
+
+  let updated = 0;
+  let unparsed = 0;
+  const BATCH_SIZE = 500;
+
+  for (let i = 0; i < events.length; i += BATCH_SIZE) {
+    const batch = events.slice(i, i + BATCH_SIZE);
+    await Promise.all(batch.map(e => {
+      const range = parseEventDate(e.date);
+      if (!range) {
+        unparsed++;
+        return Promise.resolve();
+      }
+      updated++;
+      const { date: _date, ...columns } = eventDateColumns(range);
+      return db.update(timelineEvents)
+        .set(columns)
+        .where(eq(timelineEvents.id, e.id));
+    }));
+
+    if ((i / BATCH_SIZE) % 10 === 0 || i + BATCH_SIZE >= events.length) {
+      console.log(`  Processed ${Math.min(i + BATCH_SIZE, events.length)}/${events.length} (${updated} updated)`);
+    }
+  }
+
+  console.log(`  Backfill complete: ${updated} events updated, ${unparsed} dates unreadable`);
+  return updated;
+}
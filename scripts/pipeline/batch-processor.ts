@@ -2,11 +2,12 @@ import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
 import { db } from "../../server/db";
-import { documents, pipelineJobs, budgetTracking, aiAnalyses, aiAnalysisPersons } from "../../shared/schema";
+import { documents, pipelineJobs } from "../../shared/schema";
 import { eq, sql, and, desc, inArray } from "drizzle-orm";
 import { analyzeDocumentTiered, type AnalysisTier, type TieredAnalysisResult } from "./ai-analyzer";
-import { normalizeName } from "../../server/storage";
-import { getModelConfig, AVAILABLE_MODELS } from "../../server/chat/models";
+import { saveAnalysisVersion } from "./analysis-versions";
+import { getModelConfig } from "../../server/chat/models";
+import { BudgetExceededError, describeBudgetPolicy, getBudgetPolicyStatuses, policyMatches } from "../../server/budget";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -32,14 +33,12 @@ const DATASET_PRIORITY: Record<string, number> = {
 };
 
 const DEFAULT_PRIORITY = 10;
-const DEFAULT_MONTHLY_CAP_CENTS = 500; // $5.00 monthly default
 const DEFAULT_BATCH_SIZE = 10;
 const MIN_TEXT_LENGTH = 200;
 const DELAY_BETWEEN_DOCS_MS = 1500;
 
 interface BatchConfig {
   batchSize: number;
-  monthlyCapCents: number;
   forceTier?: AnalysisTier;
   dryRun: boolean;
   dataSets?: string[];
@@ -172,28 +171,24 @@ async function ensureJobsExist(config: BatchConfig): Promise<number> {
 
 // --- Budget Enforcement ---
 
-async function getMonthlySpend(): Promise<{ totalCents: number; docCount: number }> {
-  const now = new Date();
-  const monthStart = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-01`;
+const JOB_TYPE = "ai_analysis";
 
-  const result = await db
-    .select({
-      totalCents: sql<number>`COALESCE(SUM(${budgetTracking.costCents}), 0)::int`,
-      docCount: sql<number>`COUNT(*)::int`,
-    })
-    .from(budgetTracking)
-    .where(sql`${budgetTracking.date} >= ${monthStart}`);
-
-  return {
-    totalCents: result[0]?.totalCents ?? 0,
-    docCount: result[0]?.docCount ?? 0,
-  };
+/** Budget policies that can cap this script's Tier 1 calls, including those tied to one data set */
+async function logBudgetPolicies(modelId?: string): Promise<void> {
+  const model = getModelConfig(modelId).id;
+  const policies = (await getBudgetPolicyStatuses())
+    .filter(p => policyMatches({ ...p, dataSet: null }, { jobType: JOB_TYPE, model }));
+  if (policies.length === 0) {
+    console.log("Budget policies: none apply, Tier 1 is uncapped");
+    return;
+  }
+  console.log("Budget policies:");
+  for (const policy of policies) console.log(`  ${describeBudgetPolicy(policy)}`);
 }
 
 function determineTier(
   hasText: boolean,
   textLength: number,
-  budgetRemaining: number,
   forceTier?: AnalysisTier,
 ): AnalysisTier {
   if (forceTier !== undefined) return forceTier;
@@ -201,10 +196,7 @@ function determineTier(
   // No text or very short text: Tier 0 only
   if (!hasText || textLength < MIN_TEXT_LENGTH) return 0;
 
-  // Budget exhausted: fall back to Tier 0
-  if (budgetRemaining <= 0) return 0;
-
-  // Has text and budget: use Tier 1
+  // Has text: use Tier 1 (falls back to Tier 0 if a budget policy is exhausted)
   return 1;
 }
 
@@ -273,40 +265,6 @@ async function markJobFailed(jobId: number, error: string, attempts: number, max
     .where(eq(pipelineJobs.id, jobId));
 }
 
-async function recordCost(
-  documentId: number,
-  costCents: number,
-  inputTokens: number,
-  outputTokens: number,
-  modelId?: string,
-): Promise<void> {
-  const today = new Date().toISOString().slice(0, 10);
-  const config = getModelConfig(modelId);
-
-  await db.insert(budgetTracking).values({
-    date: today,
-    model: config.model,
-    inputTokens,
-    outputTokens,
-    costCents: Math.round(costCents * 100) / 100,
-    documentId,
-    jobType: "ai_analysis",
-  });
-
-  // Update per-document cost
-  const existing = await db
-    .select({ aiCostCents: documents.aiCostCents })
-    .from(documents)
-    .where(eq(documents.id, documentId))
-    .limit(1);
-
-  const currentCost = existing[0]?.aiCostCents ?? 0;
-  await db
-    .update(documents)
-    .set({ aiCostCents: currentCost + Math.ceil(costCents) })
-    .where(eq(documents.id, documentId));
-}
-
 function formatETA(progress: BatchProgress): string {
   if (progress.completed === 0) return "calculating...";
 
@@ -360,19 +318,10 @@ async function processBatch(config: BatchConfig): Promise<BatchProgress> {
 
   console.log(`\nTotal pending jobs: ${progress.total}`);
 
-  // Check budget
-  const { totalCents: monthlySpent, docCount: monthlyDocs } = await getMonthlySpend();
-  const budgetRemaining = config.monthlyCapCents - monthlySpent;
-
-  console.log(`Monthly budget: ${formatCents(config.monthlyCapCents)} (spent: ${formatCents(monthlySpent)} on ${monthlyDocs} docs, remaining: ${formatCents(budgetRemaining)})`);
-
-  if (budgetRemaining <= 0 && config.forceTier !== 0) {
-    console.log("Monthly budget exhausted. Tier 1 analysis disabled, falling back to Tier 0.");
-  }
+  if (config.forceTier !== 0) await logBudgetPolicies(config.model);
 
   let processedInSession = 0;
   const limit = config.limit ?? Infinity;
-  let currentBudgetRemaining = budgetRemaining;
 
   while (processedInSession < limit) {
     const batch = await getNextBatch(Math.min(config.batchSize, limit - processedInSession));
@@ -417,49 +366,10 @@ async function processBatch(config: BatchConfig): Promise<BatchProgress> {
         }
 
         await markJobProcessing(job.jobId);
-        const result = await analyzeDocumentTiered("", fileName, dataSet, 0, config.model);
-
-        // Save to database
-        const analysisValues = {
-          fileName,
-          dataSet,
-          documentType: result.documentType,
-          dateOriginal: result.dateOriginal,
-          summary: result.summary,
-          personCount: result.persons.length,
-          connectionCount: result.connections.length,
-          eventCount: result.events.length,
-          locationCount: result.locations.length,
-          keyFactCount: result.keyFacts.length,
-          tier: 0 as number,
-          costCents: 0,
-          inputTokens: result.inputTokens,
-          outputTokens: result.outputTokens,
-          persons: result.persons,
-          connectionsData: result.connections,
-          events: result.events,
-          locations: result.locations,
-          keyFacts: result.keyFacts,
-          analyzedAt: new Date(),
-        };
-        const [analysisRow] = await db.insert(aiAnalyses).values(analysisValues)
-          .onConflictDoUpdate({ target: aiAnalyses.fileName, set: analysisValues })
-          .returning({ id: aiAnalyses.id });
-
-        await db.delete(aiAnalysisPersons).where(eq(aiAnalysisPersons.aiAnalysisId, analysisRow.id));
-        if (result.persons.length > 0) {
-          await db.insert(aiAnalysisPersons).values(
-            result.persons.map((p: any) => ({
-              aiAnalysisId: analysisRow.id,
-              name: p.name,
-              normalizedName: normalizeName(p.name),
-              role: p.role ?? null,
-              category: p.category ?? null,
-              context: p.context ?? null,
-              mentionCount: p.mentionCount ?? 1,
-            }))
-          );
-        }
+        const result = await analyzeDocumentTiered("", fileName, dataSet, 0, config.model, { jobType: JOB_TYPE, documentId: job.documentId });
+
+        const { version, promoted } = await saveAnalysisVersion(result);
+        if (!promoted) console.log(`    Saved as version ${version}; promote with load-ai-results --promote ${fileName}@${version}`);
 
         await db
           .update(documents)
@@ -474,7 +384,7 @@ async function processBatch(config: BatchConfig): Promise<BatchProgress> {
       }
 
       // Determine tier
-      const tier = determineTier(true, text.length, currentBudgetRemaining, config.forceTier);
+      let tier = determineTier(true, text.length, config.forceTier);
 
       if (config.dryRun) {
         console.log(`  [DRY RUN] ${fileName} (DS${dataSet}, ${text.length} chars, priority ${job.priority}) → Tier ${tier}`);
@@ -487,50 +397,21 @@ async function processBatch(config: BatchConfig): Promise<BatchProgress> {
       await markJobProcessing(job.jobId);
 
       try {
-        const result = await analyzeDocumentTiered(text, fileName, dataSet, tier, config.model);
-
-        // Save to database
-        const analysisValues = {
-          fileName,
-          dataSet,
-          documentType: result.documentType,
-          dateOriginal: result.dateOriginal,
-          summary: result.summary,
-          personCount: result.persons.length,
-          connectionCount: result.connections.length,
-          eventCount: result.events.length,
-          locationCount: result.locations.length,
-          keyFactCount: result.keyFacts.length,
-          tier,
-          costCents: Math.ceil(result.costCents),
-          inputTokens: result.inputTokens,
-          outputTokens: result.outputTokens,
-          persons: result.persons,
-          connectionsData: result.connections,
-          events: result.events,
-          locations: result.locations,
-          keyFacts: result.keyFacts,
-          analyzedAt: new Date(),
-        };
-        const [analysisRow] = await db.insert(aiAnalyses).values(analysisValues)
-          .onConflictDoUpdate({ target: aiAnalyses.fileName, set: analysisValues })
-          .returning({ id: aiAnalyses.id });
-
-        await db.delete(aiAnalysisPersons).where(eq(aiAnalysisPersons.aiAnalysisId, analysisRow.id));
-        if (result.persons.length > 0) {
-          await db.insert(aiAnalysisPersons).values(
-            result.persons.map((p: any) => ({
-              aiAnalysisId: analysisRow.id,
-              name: p.name,
-              normalizedName: normalizeName(p.name),
-              role: p.role ?? null,
-              category: p.category ?? null,
-              context: p.context ?? null,
-              mentionCount: p.mentionCount ?? 1,
-            }))
-          );
+        const usage = { jobType: JOB_TYPE, documentId: job.documentId };
+        let result: TieredAnalysisResult;
+        try {
+          result = await analyzeDocumentTiered(text, fileName, dataSet, tier, config.model, usage);
+        } catch (error) {
+          if (!(error instanceof BudgetExceededError)) throw error;
+          // Budget exhausted: fall back to Tier 0
+          console.log(`  ${error.message}; ${fileName} falls back to Tier 0`);
+          tier = 0;
+          result = await analyzeDocumentTiered(text, fileName, dataSet, tier, config.model, usage);
         }
 
+        const { version, promoted } = await saveAnalysisVersion(result);
+        if (!promoted) console.log(`    Saved as version ${version}; promote with load-ai-results --promote ${fileName}@${version}`);
+
         // Update document status
         await db
           .update(documents)
@@ -540,12 +421,8 @@ async function processBatch(config: BatchConfig): Promise<BatchProgress> {
           })
           .where(eq(documents.id, job.documentId));
 
-        // Track cost for Tier 1
-        if (tier === 1 && result.costCents > 0) {
-          await recordCost(job.documentId, result.costCents, result.inputTokens, result.outputTokens, config.model);
-          currentBudgetRemaining -= result.costCents;
-          progress.totalCostCents += result.costCents;
-        }
+        // Tier 1 calls are recorded in budget_tracking by the analyzer
+        if (tier === 1) progress.totalCostCents += result.costCents;
 
         await markJobCompleted(job.jobId);
 
@@ -594,14 +471,15 @@ function printUsage() {
 Batch Processor - AI Document Analysis Pipeline
 
 Processes documents through tiered AI analysis with budget enforcement
-and priority-based queue management.
+and priority-based queue management. Tier 1 is capped by the budget
+policies for job type "${JOB_TYPE}" (budget_policies table); a document
+whose policy is exhausted falls back to Tier 0.
 
 USAGE:
   npx tsx scripts/pipeline/batch-processor.ts [options]
 
 OPTIONS:
   --batch-size N      Documents per batch (default: ${DEFAULT_BATCH_SIZE})
-  --monthly-cap N     Monthly budget cap in cents (default: ${DEFAULT_MONTHLY_CAP_CENTS} = ${formatCents(DEFAULT_MONTHLY_CAP_CENTS)})
   --tier 0|1          Force a specific tier (default: auto)
   --dry-run           Show what would be processed without doing it
   --data-sets 9,1,5   Only process specific data sets
@@ -631,8 +509,8 @@ EXAMPLES:
   # Dry run to see what would be processed
   npx tsx scripts/pipeline/batch-processor.ts --dry-run
 
-  # Process high-priority data sets with $2 budget
-  npx tsx scripts/pipeline/batch-processor.ts --data-sets 9,1,5 --monthly-cap 200
+  # Process high-priority data sets only
+  npx tsx scripts/pipeline/batch-processor.ts --data-sets 9,1,5
 
   # Free tier only (no API costs)
   npx tsx scripts/pipeline/batch-processor.ts --tier 0
@@ -679,8 +557,8 @@ async function showStatus(): Promise<void> {
   }
 
   // Budget
-  const { totalCents, docCount } = await getMonthlySpend();
-  console.log(`\nMonthly Spend: ${formatCents(totalCents)} across ${docCount} documents`);
+  console.log("");
+  await logBudgetPolicies();
 
   // Top priority pending
   const topJobs = await db
@@ -725,7 +603,6 @@ async function main(): Promise<void> {
 
   const config: BatchConfig = {
     batchSize: DEFAULT_BATCH_SIZE,
-    monthlyCapCents: DEFAULT_MONTHLY_CAP_CENTS,
     dryRun: false,
   };
 
@@ -733,8 +610,6 @@ async function main(): Promise<void> {
     const arg = args[i];
     if (arg === "--batch-size" && args[i + 1]) {
       config.batchSize = parseInt(args[++i], 10);
-    } else if (arg === "--monthly-cap" && args[i + 1]) {
-      config.monthlyCapCents = parseInt(args[++i], 10);
     } else if (arg === "--tier" && args[i + 1]) {
       const t = parseInt(args[++i], 10);
       if (t === 0 || t === 1) config.forceTier = t as AnalysisTier;
@@ -753,7 +628,6 @@ async function main(): Promise<void> {
   console.log("\n=== Batch Processor: Tiered AI Analysis ===\n");
   console.log(`Model: ${modelConfig.label} (${modelConfig.model})`);
   console.log(`Batch size: ${config.batchSize}`);
-  console.log(`Monthly cap: ${formatCents(config.monthlyCapCents)}`);
   console.log(`Tier: ${config.forceTier !== undefined ? config.forceTier : "auto"}`);
   console.log(`Data sets: ${config.dataSets?.join(", ") || "all"}`);
   console.log(`Limit: ${config.limit ?? "none"}`);
@@ -776,8 +650,7 @@ async function main(): Promise<void> {
     console.log(`Avg cost per Tier 1 doc: ${formatCents(avgCost)}`);
   }
 
-  const { totalCents } = await getMonthlySpend();
-  console.log(`Monthly spend to date: ${formatCents(totalCents)} / ${formatCents(config.monthlyCapCents)}`);
+  if (progress.tier1Count > 0) await logBudgetPolicies(config.model);
 }
 
 main()
@@ -1,28 +1,17 @@
 import "dotenv/config";
-import OpenAI from "openai";
 import { db } from "../../server/db";
-import { documents, documentPages, budgetTracking } from "../../shared/schema";
+import { documents, documentPages } from "../../shared/schema";
 import { eq, and, sql, asc } from "drizzle-orm";
+import { assertWithinBudget, BudgetExceededError, recordAIUsage, type AIUsageContext } from "../../server/budget";
+import { getClient, getModelConfig } from "../../server/chat/models";
 
-// --- DeepSeek client ---
+// --- AI model ---
 
-const DEEPSEEK_MODEL = "deepseek-chat";
-const DEEPSEEK_INPUT_COST_PER_M = 0.27;
-const DEEPSEEK_OUTPUT_COST_PER_M = 1.10;
+/** Model registry id (server/chat/models.ts) */
+const CLASSIFY_MODEL_ID = "deepseek-chat";
 const MAX_CHARS_PER_REQUEST = 24000;
 const DELAY_BETWEEN_DOCS_MS = 1500;
 
-let _deepseek: OpenAI | null = null;
-function getDeepSeek(): OpenAI {
-  if (!_deepseek) {
-    _deepseek = new OpenAI({
-      baseURL: "https://api.deepseek.com",
-      apiKey: process.env.DEEPSEEK_API_KEY,
-    });
-  }
-  return _deepseek;
-}
-
 // --- Canonical type normalization (from backfill-document-types.ts) ---
 
 const CANONICAL_TYPE_MAP: [string, RegExp][] = [
@@ -99,27 +88,25 @@ function buildPageText(pages: { pageNumber: number; content: string }[]): string
 async function classifyPages(
   docTitle: string,
   pages: { pageNumber: number; content: string }[],
+  usageContext: AIUsageContext,
 ): Promise<ClassificationResult> {
   const pageText = buildPageText(pages);
+  await assertWithinBudget(usageContext);
 
-  const response = await getDeepSeek().chat.completions.create({
-    model: DEEPSEEK_MODEL,
+  const response = await getClient(CLASSIFY_MODEL_ID).complete({
+    model: getModelConfig(CLASSIFY_MODEL_ID).model,
     messages: [
       { role: "system", content: SYSTEM_PROMPT },
       { role: "user", content: `Classify each page of: "${docTitle}"\n\n${pageText}` },
     ],
-    max_tokens: 2048,
+    maxTokens: 2048,
     temperature: 0.1,
   });
 
-  const usage = response.usage;
-  const inputTokens = usage?.prompt_tokens ?? 0;
-  const outputTokens = usage?.completion_tokens ?? 0;
-  const costCents =
-    (inputTokens / 1_000_000) * DEEPSEEK_INPUT_COST_PER_M +
-    (outputTokens / 1_000_000) * DEEPSEEK_OUTPUT_COST_PER_M;
+  const { inputTokens, outputTokens } = response;
+  const costCents = await recordAIUsage(usageContext, response);
 
-  let content = response.choices[0]?.message?.content ?? "";
+  let content = response.content;
   content = content.replace(/^```(?:json)?\s*\n?/i, "").replace(/\n?```\s*$/i, "").trim();
 
   let parsed: any;
@@ -142,36 +129,10 @@ async function classifyPages(
   return { pageTypes, inputTokens, outputTokens, costCents };
 }
 
-// --- Budget tracking ---
-
-async function getMonthlySpend(): Promise<number> {
-  const now = new Date();
-  const monthStart = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-01`;
-  const result = await db
-    .select({ totalCents: sql<number>`COALESCE(SUM(${budgetTracking.costCents}), 0)::int` })
-    .from(budgetTracking)
-    .where(sql`${budgetTracking.date} >= ${monthStart}`);
-  return result[0]?.totalCents ?? 0;
-}
-
-async function recordCost(documentId: number, costCents: number, inputTokens: number, outputTokens: number): Promise<void> {
-  const today = new Date().toISOString().slice(0, 10);
-  await db.insert(budgetTracking).values({
-    date: today,
-    model: "deepseek/deepseek-chat-v3-0324",
-    inputTokens,
-    outputTokens,
-    costCents: Math.round(costCents * 100) / 100,
-    documentId,
-    jobType: "page_classification",
-  });
-}
-
 // --- Main ---
 
 interface Config {
   limit: number;
-  monthlyCapCents: number;
   dryRun: boolean;
   batchSize: number;
 }
@@ -190,13 +151,13 @@ Classify Document Pages (DeepSeek AI)
 Reads document_pages content from the database, sends to DeepSeek for
 per-page classification, and updates document_pages.pageType.
 Does NOT modify documents.documentType (use ai-analyzer for that).
+Spend is capped by the budget policies for job type "page_classification".
 
 USAGE:
   npx tsx scripts/pipeline/classify-from-pages.ts [options]
 
 OPTIONS:
   --limit N          Max documents to process (default: 100)
-  --monthly-cap N    Budget cap in cents (default: 500 = $5.00)
   --dry-run          Preview without making API calls or DB updates
   --batch-size N     Documents per DB fetch batch (default: 20)
 `);
@@ -205,34 +166,21 @@ OPTIONS:
 
   const config: Config = {
     limit: 100,
-    monthlyCapCents: 500,
     dryRun: false,
     batchSize: 20,
   };
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === "--limit" && args[i + 1]) config.limit = parseInt(args[++i], 10);
-    else if (args[i] === "--monthly-cap" && args[i + 1]) config.monthlyCapCents = parseInt(args[++i], 10);
     else if (args[i] === "--dry-run") config.dryRun = true;
     else if (args[i] === "--batch-size" && args[i + 1]) config.batchSize = parseInt(args[++i], 10);
   }
 
   console.log("\n=== Page-Level Classifier (DeepSeek) ===\n");
   console.log(`Limit: ${config.limit}`);
-  console.log(`Monthly cap: $${(config.monthlyCapCents / 100).toFixed(2)}`);
   console.log(`Batch size: ${config.batchSize}`);
   if (config.dryRun) console.log("MODE: DRY RUN\n");
 
-  // Check budget
-  const monthlySpent = await getMonthlySpend();
-  let budgetRemaining = config.monthlyCapCents - monthlySpent;
-  console.log(`Monthly spend: $${(monthlySpent / 100).toFixed(2)} / $${(config.monthlyCapCents / 100).toFixed(2)} (remaining: $${(budgetRemaining / 100).toFixed(2)})`);
-
-  if (budgetRemaining <= 0 && !config.dryRun) {
-    console.log("\nMonthly budget exhausted. Exiting.");
-    process.exit(0);
-  }
-
   // Find documents that have pages with NULL pageType
   const unclassifiedDocs = await db
     .select({
@@ -260,11 +208,6 @@ OPTIONS:
   const typeDistribution = new Map<string, number>();
 
   for (const doc of unclassifiedDocs) {
-    if (budgetRemaining <= 0 && !config.dryRun) {
-      console.log("Budget exhausted, stopping.");
-      break;
-    }
-
     // Fetch unclassified pages for this document
     const pages = await db
       .select({ pageNumber: documentPages.pageNumber, content: documentPages.content })
@@ -283,7 +226,12 @@ OPTIONS:
     }
 
     try {
-      const result = await classifyPages(doc.title, pages);
+      const result = await classifyPages(doc.title, pages, {
+        jobType: "page_classification",
+        model: CLASSIFY_MODEL_ID,
+        dataSet: doc.dataSet,
+        documentId: doc.id,
+      });
 
       // Update page types from AI response
       // If normalizeType returned "other", fall back to the document's own type
@@ -316,12 +264,7 @@ OPTIONS:
         }
       }
 
-      // Track cost
-      if (result.costCents > 0) {
-        await recordCost(doc.id, result.costCents, result.inputTokens, result.outputTokens);
-        budgetRemaining -= result.costCents;
-        totalCost += result.costCents;
-      }
+      totalCost += result.costCents;
 
       classified++;
       const pageTypeCounts = new Map<string, number>();
@@ -338,6 +281,12 @@ OPTIONS:
       // Rate limiting
       await sleep(DELAY_BETWEEN_DOCS_MS);
     } catch (error: any) {
+      if (error instanceof BudgetExceededError) {
+        // A data set's own cap only holds back that data set's documents
+        if (error.policy.dataSet !== null) continue;
+        console.log(`${error.message}, stopping.`);
+        break;
+      }
       failed++;
       console.error(`  Error classifying ${doc.title}: ${error.message}`);
 
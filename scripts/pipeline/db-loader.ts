@@ -1,12 +1,16 @@
 import "dotenv/config";
-import { eq, inArray, or, sql } from "drizzle-orm";
+import { and, eq, inArray, or, sql } from "drizzle-orm";
 import * as fs from "fs";
-import OpenAI from "openai";
 import * as path from "path";
 import { fileURLToPath } from "url";
 import { db } from "../../server/db";
+import { assertWithinBudget, recordAIUsage } from "../../server/budget";
+import { getClient, getDefaultModelId, getModelConfig, isModelAvailable, listModels, type ModelConfig } from "../../server/chat/models";
+import type { LLMClient } from "../../server/chat/llm-client";
 import { isSamePerson, normalizeName } from "../../server/storage";
-import type { Person } from "../../shared/schema";
+import { eventDateColumns, parseEventDate } from "../../server/event-dates";
+import { diffAnalysisVersions } from "../../server/ai-analysis-versions";
+import type { AIAnalysisVersion, Person } from "../../shared/schema";
 import {
   connections,
   documents,
@@ -15,10 +19,12 @@ import {
   entityDocuments,
   personDocuments,
   persons,
+  timelineEventSources,
   timelineEvents,
 } from "../../shared/schema";
 import { aiAnalyses } from "../../shared/schema";
-import type { AIAnalysisResult } from "./ai-analyzer";
+import type { AIAnalysisResult, AIEntityMention } from "./ai-analyzer";
+import { promoteAnalysisVersion } from "./analysis-versions";
 import type { DOJCatalog } from "./doj-scraper";
 import { classifyAllDocuments } from "./media-classifier";
 import type { RawPerson } from "./wikipedia-scraper";
@@ -157,91 +163,6 @@ function normalizeConnectionType(aiType: string): string {
   return "associated";
 }
 
-// --- Event date normalization ---
-
-const MONTH_MAP: Record<string, string> = {
-  january: "01",
-  february: "02",
-  march: "03",
-  april: "04",
-  may: "05",
-  june: "06",
-  july: "07",
-  august: "08",
-  september: "09",
-  october: "10",
-  november: "11",
-  december: "12",
-};
-
-function normalizeEventDate(raw: string | null): string | null {
-  if (!raw) return null;
-  const s = raw.trim();
-  if (!s) return null;
-
-  // Already valid YYYY-MM-DD
-  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
-  // Already valid YYYY-MM
-  if (/^\d{4}-\d{2}$/.test(s)) return s;
-  // Already valid YYYY
-  if (/^\d{4}$/.test(s)) return s;
-
-  // Malformed "YYYY-MM-YYYY" → "YYYY-MM"
-  const malformed = s.match(/^(\d{4}-\d{2})-\d{4}$/);
-  if (malformed) return malformed[1];
-
-  // Ranges with "to": "2019-05-28 to 2019-05-30" → start date
-  const toRange = s.match(/^(\d{4}(?:-\d{2}(?:-\d{2})?)?)\s+to\s/i);
-  if (toRange) return normalizeEventDate(toRange[1]);
-
-  // Year ranges: "1994-1997" (two 4-digit years separated by dash)
-  const yearRange = s.match(/^(\d{4})-(\d{4})$/);
-  if (yearRange) return yearRange[1];
-
-  // Named months: "November 2021", "March 15, 2020"
-  const namedMonth = s.match(
-    /^(january|february|march|april|may|june|july|august|september|october|november|december)\s+(\d{1,2},?\s+)?(\d{4})/i,
-  );
-  if (namedMonth) {
-    const mm = MONTH_MAP[namedMonth[1].toLowerCase()];
-    const yyyy = namedMonth[3];
-    const dayMatch = namedMonth[2]?.match(/(\d{1,2})/);
-    if (dayMatch) {
-      const dd = dayMatch[1].padStart(2, "0");
-      return `${yyyy}-${mm}-${dd}`;
-    }
-    return `${yyyy}-${mm}`;
-  }
-
-  // Seasons: "2016-summer", "spring 2020"
-  const seasonYear =
-    s.match(/(\d{4})[- ]?(spring|summer|fall|autumn|winter)/i) ||
-    s.match(/(spring|summer|fall|autumn|winter)[- ]?(\d{4})/i);
-  if (seasonYear) {
-    const year = seasonYear[1].match(/\d{4}/) ? seasonYear[1] : seasonYear[2];
-    return year;
-  }
-
-  // Approximate: "2004 (approximate)", "circa 2004", "approximately 2004"
-  const approx =
-    s.match(/(\d{4})\s*\(approximate\)/i) ||
-    s.match(/(?:circa|approximately|approx\.?)\s*(\d{4})/i);
-  if (approx) {
-    const year = approx[1].match(/\d{4}/) ? approx[1] : approx[2];
-    return year;
-  }
-
-  // Decades: "late 1990s", "early 2000s", "1990s"
-  const decade = s.match(/(\d{4})s/i);
-  if (decade) return decade[1];
-
-  // Last resort: extract any 4-digit year in 1900-2030 range
-  const yearExtract = s.match(/\b(19\d{2}|20[0-2]\d|2030)\b/);
-  if (yearExtract) return yearExtract[1];
-
-  return null;
-}
-
 const __dirname = path.dirname(__filename);
 
 const DATA_DIR = path.resolve(__dirname, "../../data");
@@ -265,24 +186,13 @@ function editDistance(a: string, b: string): number {
   return dp[a.length][b.length];
 }
 
-let _aiClient: OpenAI | null = null;
-let _aiModel: string = "deepseek-chat";
-
-function getAIClient(): { client: OpenAI; model: string } | null {
-  if (_aiClient) return { client: _aiClient, model: _aiModel };
-  if (process.env.OPENAI_API_KEY) {
-    _aiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    _aiModel = "gpt-4o-mini";
-  } else if (process.env.DEEPSEEK_API_KEY) {
-    _aiClient = new OpenAI({
-      baseURL: "https://api.deepseek.com",
-      apiKey: process.env.DEEPSEEK_API_KEY,
-    });
-    _aiModel = "deepseek-chat";
-  } else {
-    return null;
-  }
-  return { client: _aiClient, model: _aiModel };
+/** The registry's default model, or else the first one with credentials; null falls back to regex */
+function getAIClient(): { client: LLMClient; config: ModelConfig } | null {
+  const modelId = isModelAvailable(getDefaultModelId())
+    ? getDefaultModelId()
+    : listModels().find((m) => isModelAvailable(m.id))?.id;
+  if (!modelId) return null;
+  return { client: getClient(modelId), config: getModelConfig(modelId) };
 }
 
 export async function loadPersonsFromFile(filePath?: string): Promise<number> {
@@ -392,7 +302,12 @@ export async function loadDocumentsFromCatalog(
   return loaded;
 }
 
-export async function loadAIResults(options?: { dryRun?: boolean; schemaVersion?: number }): Promise<{
+export async function loadAIResults(options?: {
+  dryRun?: boolean;
+  schemaVersion?: number;
+  /** Analysis versions to make current first; only their files are then loaded */
+  promote?: { fileName: string; version?: number }[];
+}): Promise<{
   persons: number;
   connections: number;
   events: number;
@@ -460,6 +375,21 @@ export async function loadAIResults(options?: { dryRun?: boolean; schemaVersion?
         docsToMark: [] as { efta: string; documentType: string }[],
       }
     : null;
+  const promotedFiles = new Set<string>();
+  const promotions: { promoted: AIAnalysisVersion; replaced: AIAnalysisVersion | null }[] = [];
+  for (const target of options?.promote ?? []) {
+    const label = `${target.fileName}@${target.version ?? "latest"}`;
+    if (isDryRun) {
+      console.log(`  [DRY RUN] Would promote ${label}`);
+    } else {
+      const promotion = await promoteAnalysisVersion(target.fileName, target.version);
+      const row = promotion.promoted;
+      console.log(`  Promoted ${row.fileName} version ${row.version} (tier ${row.tier}${row.model ? `, ${row.model}` : ""})`);
+      promotions.push(promotion);
+    }
+    promotedFiles.add(target.fileName);
+  }
+
   // Load all AI analyses from the database
   const allAnalysisRows = await db.select().from(aiAnalyses);
   if (allAnalysisRows.length === 0) {
@@ -469,7 +399,10 @@ export async function loadAIResults(options?: { dryRun?: boolean; schemaVersion?
 
   // Filter analyses to process
   let analysisRows: typeof allAnalysisRows;
-  if (options?.schemaVersion != null) {
+  if (promotedFiles.size > 0) {
+    // Promoted files are reloaded whether or not their documents were loaded before
+    analysisRows = allAnalysisRows.filter((row) => promotedFiles.has(row.fileName));
+  } else if (options?.schemaVersion != null) {
     // When schemaVersion is specified, filter by it (bypass "already loaded" check)
     analysisRows = allAnalysisRows.filter((row) => row.schemaVersion === options.schemaVersion);
   } else {
@@ -654,6 +587,103 @@ export async function loadAIResults(options?: { dryRun?: boolean; schemaVersion?
   }
   console.log(`  Resolved ${docByEfta.size} EFTA→doc mappings`);
 
+  async function resolveSourceDocId(fileName: string): Promise<number | undefined> {
+    const efta = fileName.replace(/\.json$/i, "").replace(/\.pdf$/i, "");
+    const mapped = docByEfta.get(efta.toLowerCase());
+    if (mapped !== undefined) return mapped;
+    // Fallback to DB query if not in pre-loaded map
+    const [sourceDoc] = await db
+      .select({ id: documents.id })
+      .from(documents)
+      .where(
+        sql`${documents.title} ILIKE ${"%" + efta + "%"} OR ${documents.sourceUrl} ILIKE ${"%" + efta + "%"}`,
+      )
+      .limit(1);
+    return sourceDoc?.id;
+  }
+
+  // --- Retract what only a replaced version put on its document ---
+  // Reloading a promoted file only adds, so first take the file's document off
+  // the person links, connections, events and entity links of everything the
+  // replaced version had and the promoted one doesn't. Connections and events
+  // left with no document are deleted; persons and entities themselves stay.
+  let linksRetracted = 0;
+  for (const { promoted, replaced } of promotions) {
+    if (!replaced) continue;
+    const sourceDocId = await resolveSourceDocId(promoted.fileName);
+    if (sourceDocId === undefined) continue;
+    const diff = diffAnalysisVersions(replaced, promoted);
+
+    for (const mention of diff.persons.removed) {
+      const person = findPerson(mention.name);
+      if (!person) continue;
+      const removed = await db.delete(personDocuments)
+        .where(and(eq(personDocuments.personId, person.id), eq(personDocuments.documentId, sourceDocId)))
+        .returning({ id: personDocuments.id });
+      existingLinks.delete(`${person.id}-${sourceDocId}`);
+      linksRetracted += removed.length;
+    }
+
+    for (const conn of diff.connections.removed) {
+      const person1 = findPerson(conn.person1);
+      const person2 = findPerson(conn.person2);
+      if (!person1 || !person2 || person1.id === person2.id) continue;
+      const pairKey = `${Math.min(person1.id, person2.id)}-${Math.max(person1.id, person2.id)}`;
+      const existing = existingPairMap.get(pairKey);
+      if (!existing || !existing.documentIds.includes(sourceDocId)) continue;
+
+      existing.documentIds = existing.documentIds.filter((id) => id !== sourceDocId);
+      if (existing.documentIds.length === 0) {
+        await db.delete(connections).where(eq(connections.id, existing.id));
+        existingPairMap.delete(pairKey);
+      } else {
+        await db.update(connections)
+          .set({ documentIds: existing.documentIds })
+          .where(eq(connections.id, existing.id));
+      }
+      linksRetracted++;
+    }
+
+    for (const event of diff.events.removed) {
+      const eventDate = parseEventDate(event.date);
+      if (!eventDate) continue;
+      const [ex] = await db
+        .select({ id: timelineEvents.id, documentIds: timelineEvents.documentIds })
+        .from(timelineEvents)
+        .where(
+          sql`${timelineEvents.date} = ${eventDate.date} AND LOWER(${timelineEvents.title}) = LOWER(${event.title})`,
+        )
+        .limit(1);
+      if (!ex || !(ex.documentIds ?? []).includes(sourceDocId)) continue;
+
+      const remaining = ex.documentIds!.filter((id) => id !== sourceDocId);
+      if (remaining.length === 0) {
+        await db.delete(timelineEvents).where(eq(timelineEvents.id, ex.id));
+      } else {
+        await db.update(timelineEvents).set({ documentIds: remaining }).where(eq(timelineEvents.id, ex.id));
+        await db.delete(timelineEventSources)
+          .where(and(eq(timelineEventSources.eventId, ex.id), eq(timelineEventSources.documentId, sourceDocId)));
+      }
+      linksRetracted++;
+    }
+
+    const entityKey = (e: AIEntityMention) => `${e.name.toLowerCase()}|${e.entityType}`;
+    const keptEntities = new Set(((promoted.entities as AIEntityMention[] | null) ?? []).map(entityKey));
+    for (const ent of (replaced.entities as AIEntityMention[] | null) ?? []) {
+      if (!ent?.name || keptEntities.has(entityKey(ent))) continue;
+      const entityRow = entitiesByKey.get(entityKey(ent));
+      if (!entityRow) continue;
+      const removed = await db.delete(entityDocuments)
+        .where(and(eq(entityDocuments.entityId, entityRow.id), eq(entityDocuments.documentId, sourceDocId)))
+        .returning({ entityId: entityDocuments.entityId });
+      existingEntityDocLinks.delete(`${entityRow.id}-${sourceDocId}`);
+      linksRetracted += removed.length;
+    }
+  }
+  if (promotions.length > 0) {
+    console.log(`  Retracted ${linksRetracted} links only the replaced versions had`);
+  }
+
   for (let fi = 0; fi < analysisRows.length; fi++) {
     const row = analysisRows[fi];
     if (fi % 100 === 0) {
@@ -801,18 +831,7 @@ export async function loadAIResults(options?: { dryRun?: boolean; schemaVersion?
       const eventEfta = data.fileName
         .replace(/\.json$/i, "")
         .replace(/\.pdf$/i, "");
-      let sourceDocId = docByEfta.get(eventEfta.toLowerCase());
-      if (sourceDocId === undefined) {
-        // Fallback to DB query if not in pre-loaded map
-        const [sourceDoc] = await db
-          .select({ id: documents.id })
-          .from(documents)
-          .where(
-            sql`${documents.title} ILIKE ${"%" + eventEfta + "%"} OR ${documents.sourceUrl} ILIKE ${"%" + eventEfta + "%"}`,
-          )
-          .limit(1);
-        sourceDocId = sourceDoc?.id;
-      }
+      const sourceDocId = await resolveSourceDocId(data.fileName);
 
       // --- Connections ---
       for (const conn of data.connections) {
@@ -876,8 +895,9 @@ export async function loadAIResults(options?: { dryRun?: boolean; schemaVersion?
       for (const event of data.events) {
         if (typeof event !== "object" || !event?.title) continue;
         try {
-          const normalizedDate = normalizeEventDate(event.date);
-          if (!normalizedDate) continue; // skip unparseable dates (date is NOT NULL)
+          const eventDate = parseEventDate(event.date);
+          if (!eventDate) continue; // skip unparseable dates (date is NOT NULL)
+          const normalizedDate = eventDate.date;
 
           const personIds: number[] = [];
           const involvedArr = Array.isArray(event.personsInvolved) ? event.personsInvolved : typeof event.personsInvolved === "string" ? event.personsInvolved.split(",").map(s => s.trim()) : [];
@@ -894,6 +914,7 @@ export async function loadAIResults(options?: { dryRun?: boolean; schemaVersion?
               significance: timelineEvents.significance,
               personIds: timelineEvents.personIds,
               documentIds: timelineEvents.documentIds,
+              dateEarliest: timelineEvents.dateEarliest,
             })
             .from(timelineEvents)
             .where(
@@ -915,7 +936,7 @@ export async function loadAIResults(options?: { dryRun?: boolean; schemaVersion?
               });
             } else {
               await db.insert(timelineEvents).values({
-                date: normalizedDate,
+                ...eventDateColumns(eventDate),
                 title: event.title,
                 description: event.description,
                 category: event.category,
@@ -928,6 +949,10 @@ export async function loadAIResults(options?: { dryRun?: boolean; schemaVersion?
           } else {
             const ex = existingEvent[0];
             const updates: Record<string, any> = {};
+            if (!ex.dateEarliest) {
+              const { date: _date, ...range } = eventDateColumns(eventDate);
+              Object.assign(updates, range);
+            }
             if (
               event.description &&
               event.description.length > (ex.description?.length || 0)
@@ -3683,8 +3708,9 @@ export async function extractConnectionsFromDescriptions(): Promise<number> {
   // --- Classify uncached connections via AI or regex ---
   const ai = getAIClient();
   if (ai && uncached.length > 0) {
-    console.log(`  Using AI (${ai.model}) to classify connection types...`);
+    console.log(`  Using AI (${ai.config.id}) to classify connection types...`);
     const BATCH_SIZE = 25;
+    const usageContext = { jobType: "extract-connections", model: ai.config.id };
 
     for (let i = 0; i < uncached.length; i += BATCH_SIZE) {
       const batch = uncached.slice(i, i + BATCH_SIZE);
@@ -3696,8 +3722,10 @@ export async function extractConnectionsFromDescriptions(): Promise<number> {
           )
           .join("\n");
 
-        const response = await ai.client.chat.completions.create({
-          model: ai.model,
+        // An exhausted budget policy falls back to regex like any other AI failure
+        await assertWithinBudget(usageContext);
+        const response = await ai.client.complete({
+          model: ai.config.model,
           messages: [
             {
               role: "system",
@@ -3717,8 +3745,9 @@ Respond with a JSON array only.`,
           ],
           temperature: 0.1,
         });
+        await recordAIUsage(usageContext, response);
 
-        const text = response.choices[0]?.message?.content?.trim() || "[]";
+        const text = response.content.trim() || "[]";
         const jsonMatch = text.match(/\[[\s\S]*\]/);
         if (jsonMatch) {
           const classifications = JSON.parse(jsonMatch[0]) as {
@@ -0,0 +1,72 @@
+import "dotenv/config";
+import { asc, gt, inArray } from "drizzle-orm";
+import { db } from "../../server/db";
+import { documentPages, personMentions, persons, type InsertPersonMention } from "../../shared/schema";
+import { createMentionMatcher } from "../../server/person-mentions";
+
+const DEFAULT_BATCH_SIZE = 200;
+const INSERT_CHUNK_SIZE = 1000;
+
+/**
+ * Scan every loaded page for person names and aliases and record each hit with
+ * its character offsets in person_mentions. Documents are processed in batches;
+ * each batch's old mentions are replaced, so the stage can be re-run after new
+ * pages or persons are loaded.
+ */
+export async function extractMentions(options: { batchSize?: number } = {}): Promise<number> {
+  const batchSize = options.batchSize && options.batchSize > 0 ? options.batchSize : DEFAULT_BATCH_SIZE;
+  console.log("Extracting person mentions from document pages...");
+
+  const candidates = await db
+    .select({ id: persons.id, name: persons.name, aliases: persons.aliases })
+    .from(persons);
+  const match = createMentionMatcher(candidates);
+  console.log(`  Matching ${candidates.length} persons`);
+
+  let lastDocumentId = 0;
+  let documentCount = 0;
+  let total = 0;
+
+  for (;;) {
+    const batch = await db
+      .selectDistinct({ documentId: documentPages.documentId })
+      .from(documentPages)
+      .where(gt(documentPages.documentId, lastDocumentId))
+      .orderBy(asc(documentPages.documentId))
+      .limit(batchSize);
+    if (batch.length === 0) break;
+
+    const documentIds = batch.map((b) => b.documentId);
+    lastDocumentId = documentIds[documentIds.length - 1];
+
+    const pages = await db
+      .select({
+        documentId: documentPages.documentId,
+        pageNumber: documentPages.pageNumber,
+        content: documentPages.content,
+      })
+      .from(documentPages)
+      .where(inArray(documentPages.documentId, documentIds));
+
+    const rows: InsertPersonMention[] = [];
+    for (const page of pages) {
+      for (const m of match(page.content)) {
+        rows.push({ ...m, documentId: page.documentId, pageNumber: page.pageNumber });
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(personMentions).where(inArray(personMentions.documentId, documentIds));
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+        await tx.insert(personMentions).values(rows.slice(i, i + INSERT_CHUNK_SIZE));
+      }
+    });
+
+    documentCount += documentIds.length;
+    total += rows.length;
+    console.log(`  Processed ${documentCount} documents (${total} mentions)`);
+  }
+
+  console.log(`  Mention extraction complete: ${total} mentions in ${documentCount} documents`);
+  return total;
+}
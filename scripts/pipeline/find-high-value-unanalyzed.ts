@@ -5,14 +5,12 @@ import { db } from "../../server/db";
 import {
   documents,
   documentPages,
-  aiAnalyses,
-  budgetTracking,
-  aiAnalysisPersons,
 } from "../../shared/schema";
 import { eq, sql, and } from "drizzle-orm";
 import { analyzeDocumentTiered } from "./ai-analyzer";
-import { normalizeName } from "../../server/storage";
+import { saveAnalysisVersion } from "./analysis-versions";
 import { getModelConfig } from "../../server/chat/models";
+import { BudgetExceededError } from "../../server/budget";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -124,7 +122,6 @@ interface ScoredDocument {
 
 interface ProcessConfig {
   limit: number;
-  monthlyCapCents: number;
   dryRun: boolean;
   model?: string;
 }
@@ -255,40 +252,11 @@ async function getDocumentText(documentId: number, maxChars: number = 10000): Pr
 
 // --- Budget ---
 
-async function getMonthlySpend(): Promise<number> {
-  const now = new Date();
-  const monthStart = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-01`;
-
-  const result = await db
-    .select({
-      totalCents: sql<number>`COALESCE(SUM(${budgetTracking.costCents}), 0)::int`,
-    })
-    .from(budgetTracking)
-    .where(sql`${budgetTracking.date} >= ${monthStart}`);
-
-  return result[0]?.totalCents ?? 0;
-}
-
-async function recordCost(
-  documentId: number,
-  costCents: number,
-  inputTokens: number,
-  outputTokens: number,
-  modelId?: string,
-): Promise<void> {
-  const today = new Date().toISOString().slice(0, 10);
-  const config = getModelConfig(modelId);
-
-  await db.insert(budgetTracking).values({
-    date: today,
-    model: config.model,
-    inputTokens,
-    outputTokens,
-    costCents: Math.round(costCents * 100) / 100,
-    documentId,
-    jobType: "high_value_analysis",
-  });
+// Spend is capped by the budget policies for this job type; the analyzer
+// checks them before each document and records its cost in budget_tracking
+const JOB_TYPE = "high_value_analysis";
 
+async function addDocumentCost(documentId: number, costCents: number): Promise<void> {
   const existing = await db
     .select({ aiCostCents: documents.aiCostCents })
     .from(documents)
@@ -309,12 +277,10 @@ async function processTopDocuments(
   config: ProcessConfig,
 ): Promise<void> {
   const modelConfig = getModelConfig(config.model);
-  const monthlySpent = await getMonthlySpend();
-  let budgetRemaining = config.monthlyCapCents - monthlySpent;
 
   console.log(`\n=== Processing Top ${config.limit} High-Value Documents ===\n`);
   console.log(`Model: ${modelConfig.label} (${modelConfig.model})`);
-  console.log(`Budget: $${(config.monthlyCapCents / 100).toFixed(2)} (spent: $${(monthlySpent / 100).toFixed(2)}, remaining: $${(budgetRemaining / 100).toFixed(2)})`);
+  console.log(`Budget: capped by the "${JOB_TYPE}" budget policies`);
   if (config.dryRun) console.log("MODE: DRY RUN\n");
 
   if (!fs.existsSync(AI_OUTPUT_DIR)) {
@@ -327,11 +293,6 @@ async function processTopDocuments(
   let totalCost = 0;
 
   for (const doc of toProcess) {
-    if (budgetRemaining <= 0) {
-      console.log(`\n  Budget exhausted after ${completed} documents.`);
-      break;
-    }
-
     const fileName = doc.eftaNumber || doc.title;
 
     if (config.dryRun) {
@@ -361,6 +322,7 @@ async function processTopDocuments(
         doc.dataSet || "unknown",
         1,
         config.model,
+        { jobType: JOB_TYPE, documentId: doc.id },
       );
 
       // Save to JSON file
@@ -369,50 +331,8 @@ async function processTopDocuments(
 
       // Save to database
       try {
-        const analysisValues = {
-          fileName,
-          dataSet: doc.dataSet,
-          documentType: result.documentType,
-          dateOriginal: result.dateOriginal,
-          summary: result.summary,
-          personCount: result.persons.length,
-          connectionCount: result.connections.length,
-          eventCount: result.events.length,
-          locationCount: result.locations.length,
-          keyFactCount: result.keyFacts.length,
-          tier: 1 as const,
-          costCents: Math.ceil(result.costCents),
-          inputTokens: result.inputTokens,
-          outputTokens: result.outputTokens,
-          persons: result.persons,
-          connectionsData: result.connections,
-          events: result.events,
-          locations: result.locations,
-          keyFacts: result.keyFacts,
-          analyzedAt: new Date(),
-        };
-        const [analysisRow] = await db
-          .insert(aiAnalyses)
-          .values(analysisValues)
-          .onConflictDoUpdate({ target: aiAnalyses.fileName, set: analysisValues })
-          .returning({ id: aiAnalyses.id });
-
-        await db
-          .delete(aiAnalysisPersons)
-          .where(eq(aiAnalysisPersons.aiAnalysisId, analysisRow.id));
-        if (result.persons.length > 0) {
-          await db.insert(aiAnalysisPersons).values(
-            result.persons.map((p: any) => ({
-              aiAnalysisId: analysisRow.id,
-              name: p.name,
-              normalizedName: normalizeName(p.name),
-              role: p.role ?? null,
-              category: p.category ?? null,
-              context: p.context ?? null,
-              mentionCount: p.mentionCount ?? 1,
-            })),
-          );
-        }
+        const { version, promoted } = await saveAnalysisVersion(result);
+        if (!promoted) console.log(`    Saved as version ${version}; promote with load-ai-results --promote ${fileName}@${version}`);
       } catch (dbErr) {
         console.warn(`  DB write failed for ${fileName}: ${(dbErr as Error).message}`);
       }
@@ -425,8 +345,7 @@ async function processTopDocuments(
 
       // Track cost
       if (result.costCents > 0) {
-        await recordCost(doc.id, result.costCents, result.inputTokens, result.outputTokens, config.model);
-        budgetRemaining -= result.costCents;
+        await addDocumentCost(doc.id, result.costCents);
         totalCost += result.costCents;
       }
 
@@ -438,6 +357,12 @@ async function processTopDocuments(
       // Rate limit between docs
       await sleep(1500);
     } catch (error: any) {
+      if (error instanceof BudgetExceededError) {
+        // A data set's own cap only holds back that data set's documents
+        if (error.policy.dataSet !== null) continue;
+        console.log(`\n  ${error.message} after ${completed} documents.`);
+        break;
+      }
       console.error(`  Error processing #${doc.id} ${fileName}: ${error.message}`);
       failed++;
       if (error.message?.includes("429")) {
@@ -475,7 +400,6 @@ USAGE:
 OPTIONS:
   --top N             Number of top documents to output (default: 1000)
   --process N         Run Tier 1 analysis on the top N documents
-  --monthly-cap N     Monthly budget cap in cents (default: 500 = $5.00)
   --dry-run           Show what --process would do without calling AI
   --model ID          AI model: deepseek-chat (default) or gpt-4o-mini
   --min-score N       Minimum score to include (default: 0)
@@ -497,8 +421,8 @@ EXAMPLES:
   # Dry run: see what would be processed
   npx tsx scripts/pipeline/find-high-value-unanalyzed.ts --process 50 --dry-run
 
-  # Process top 200 with $3 budget
-  npx tsx scripts/pipeline/find-high-value-unanalyzed.ts --process 200 --monthly-cap 300
+  # Process the top 200 (capped by the "high_value_analysis" budget policies)
+  npx tsx scripts/pipeline/find-high-value-unanalyzed.ts --process 200
 
   # Export full ranked list to file
   npx tsx scripts/pipeline/find-high-value-unanalyzed.ts --top 5000 --output ranked.json
@@ -515,7 +439,6 @@ async function main(): Promise<void> {
 
   let topN = 1000;
   let processN: number | null = null;
-  let monthlyCapCents = 500;
   let dryRun = false;
   let model: string | undefined;
   let minScore = 0;
@@ -527,7 +450,6 @@ async function main(): Promise<void> {
     const arg = args[i];
     if (arg === "--top" && args[i + 1]) topN = parseInt(args[++i], 10);
     else if (arg === "--process" && args[i + 1]) processN = parseInt(args[++i], 10);
-    else if (arg === "--monthly-cap" && args[i + 1]) monthlyCapCents = parseInt(args[++i], 10);
     else if (arg === "--dry-run") dryRun = true;
     else if (arg === "--model" && args[i + 1]) model = args[++i];
     else if (arg === "--min-score" && args[i + 1]) minScore = parseFloat(args[++i]);
@@ -699,7 +621,6 @@ async function main(): Promise<void> {
   if (processN !== null) {
     await processTopDocuments(topResults, {
       limit: processN,
-      monthlyCapCents,
       dryRun,
       model,
     });
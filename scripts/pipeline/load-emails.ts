@@ -0,0 +1,204 @@
+import "dotenv/config";
+import * as fs from "fs";
+import * as path from "path";
+import { and, asc, eq, gt, inArray, or, sql } from "drizzle-orm";
+import { db } from "../../server/db";
+import {
+  documentPages, documents, emailParticipants, emails, persons,
+  type EmailContact, type EmailRole, type InsertEmail, type InsertEmailParticipant,
+} from "../../shared/schema";
+import {
+  createParticipantResolver,
+  parseEmailSource,
+  threadEmails,
+  type EmailAddress,
+  type ParsedEmail,
+} from "../../server/email-parsing";
+
+const DEFAULT_BATCH_SIZE = 100;
+const INSERT_CHUNK_SIZE = 1000;
+// Text formats we can parse directly; .msg and .pst are binary containers, so those
+// documents (like printed emails) are parsed from their extracted page text instead
+const RAW_EXTENSIONS = new Set([".eml", ".mbox"]);
+
+type ParticipantResolver = ReturnType<typeof createParticipantResolver>;
+
+async function readSource(doc: { id: number; localPath: string | null }): Promise<{ text: string; raw: boolean }> {
+  if (doc.localPath && RAW_EXTENSIONS.has(path.extname(doc.localPath).toLowerCase()) && fs.existsSync(doc.localPath)) {
+    return { text: fs.readFileSync(doc.localPath, "utf-8"), raw: true };
+  }
+  const pages = await db
+    .select({ content: documentPages.content })
+    .from(documentPages)
+    .where(eq(documentPages.documentId, doc.id))
+    .orderBy(asc(documentPages.pageNumber));
+  return { text: pages.map((p) => p.content).join("\n"), raw: false };
+}
+
+function toContact(resolver: ParticipantResolver, participant: EmailAddress): EmailContact {
+  const personId = resolver.resolve(participant);
+  if (personId !== null) resolver.learn(participant, personId);
+  return { ...participant, personId };
+}
+
+function toRow(resolver: ParticipantResolver, documentId: number, position: number, email: ParsedEmail): InsertEmail {
+  return {
+    documentId,
+    position,
+    messageId: email.messageId,
+    inReplyTo: email.inReplyTo,
+    references: email.references,
+    // Provisional; the threading pass over all messages replaces it
+    threadId: email.messageId ?? `email:${documentId}:${position}`,
+    subject: email.subject,
+    sender: email.from ? toContact(resolver, email.from) : null,
+    recipients: email.to.map((c) => toContact(resolver, c)),
+    cc: email.cc.map((c) => toContact(resolver, c)),
+    sentAt: email.sentAt,
+    dateRaw: email.dateRaw,
+    body: email.body,
+  };
+}
+
+/** Resolve contacts left unlinked when their address was only learned from a later message. */
+function relink(resolver: ParticipantResolver, contacts: EmailContact[]): { contacts: EmailContact[]; changed: boolean } {
+  let changed = false;
+  const relinked = contacts.map((c) => {
+    if (c.personId !== null) return c;
+    const personId = resolver.resolve(c);
+    if (personId === null) return c;
+    changed = true;
+    return { ...c, personId };
+  });
+  return { contacts: relinked, changed };
+}
+
+/**
+ * Parse email documents into the emails table, rebuild reply threads across all
+ * documents and link senders and recipients to persons. Raw .eml/.mbox files are
+ * read from disk when available; everything else falls back to the page text,
+ * which covers printed Outlook/Gmail emails. Re-running replaces each
+ * document's messages, so the stage can follow new downloads or persons.
+ */
+export async function loadEmails(options: { batchSize?: number } = {}): Promise<number> {
+  const batchSize = options.batchSize && options.batchSize > 0 ? options.batchSize : DEFAULT_BATCH_SIZE;
+  console.log("\n=== Email Loader ===\n");
+
+  const candidates = await db
+    .select({ id: persons.id, name: persons.name, aliases: persons.aliases })
+    .from(persons);
+  const resolver = createParticipantResolver(candidates);
+  console.log(`  Linking participants against ${candidates.length} persons`);
+
+  const emailDocuments = or(eq(documents.mediaType, "email"), eq(documents.documentType, "email"));
+  let lastDocumentId = 0;
+  let documentCount = 0;
+  let fromRaw = 0;
+  let withoutHeaders = 0;
+  let total = 0;
+
+  for (;;) {
+    const batch = await db
+      .select({ id: documents.id, localPath: documents.localPath })
+      .from(documents)
+      .where(and(gt(documents.id, lastDocumentId), emailDocuments))
+      .orderBy(asc(documents.id))
+      .limit(batchSize);
+    if (batch.length === 0) break;
+    lastDocumentId = batch[batch.length - 1].id;
+
+    const rows: InsertEmail[] = [];
+    for (const doc of batch) {
+      try {
+        const source = await readSource(doc);
+        const parsed = parseEmailSource(source.text);
+        if (source.raw) fromRaw++;
+        if (parsed.length === 0) withoutHeaders++;
+        parsed.forEach((email, position) => rows.push(toRow(resolver, doc.id, position, email)));
+      } catch (err: any) {
+        console.warn(`  Error parsing document ${doc.id}: ${err.message}`);
+      }
+    }
+
+    const documentIds = batch.map((d) => d.id);
+    await db.transaction(async (tx) => {
+      await tx.delete(emails).where(inArray(emails.documentId, documentIds));
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+        await tx.insert(emails).values(rows.slice(i, i + INSERT_CHUNK_SIZE));
+      }
+    });
+
+    documentCount += batch.length;
+    total += rows.length;
+    console.log(`  Processed ${documentCount} documents (${total} messages)`);
+  }
+
+  console.log(`  Parsed ${total} messages from ${documentCount} documents (${fromRaw} raw files, ${withoutHeaders} without email headers)`);
+
+  await rebuildThreadsAndParticipants(resolver);
+  return total;
+}
+
+/**
+ * Second pass over every stored message: assign thread ids (replies may sit in
+ * other documents than their originals), relink contacts whose address was
+ * learned later in the run, rebuild email_participants and refresh persons.emailCount.
+ */
+async function rebuildThreadsAndParticipants(resolver: ParticipantResolver): Promise<void> {
+  console.log("  Threading messages and linking participants...");
+  const stored = await db.select({
+    id: emails.id,
+    messageId: emails.messageId,
+    inReplyTo: emails.inReplyTo,
+    references: emails.references,
+    subject: emails.subject,
+    threadId: emails.threadId,
+    sender: emails.sender,
+    recipients: emails.recipients,
+    cc: emails.cc,
+  }).from(emails);
+
+  const threadIds = threadEmails(stored.map((e) => ({ ...e, key: e.id })));
+  const participants: InsertEmailParticipant[] = [];
+  let updated = 0;
+
+  for (const email of stored) {
+    const threadId = threadIds.get(email.id) ?? email.threadId;
+    const sender = email.sender ? relink(resolver, [email.sender]) : { contacts: [], changed: false };
+    const recipients = relink(resolver, email.recipients);
+    const cc = relink(resolver, email.cc);
+
+    if (threadId !== email.threadId || sender.changed || recipients.changed || cc.changed) {
+      await db.update(emails)
+        .set({ threadId, sender: sender.contacts[0] ?? null, recipients: recipients.contacts, cc: cc.contacts })
+        .where(eq(emails.id, email.id));
+      updated++;
+    }
+
+    const seen = new Set<string>();
+    const add = (contacts: EmailContact[], role: EmailRole) => {
+      for (const c of contacts) {
+        if (c.personId === null || seen.has(`${c.personId}:${role}`)) continue;
+        seen.add(`${c.personId}:${role}`);
+        participants.push({ emailId: email.id, personId: c.personId, role });
+      }
+    };
+    add(sender.contacts, "from");
+    add(recipients.contacts, "to");
+    add(cc.contacts, "cc");
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(emailParticipants);
+    for (let i = 0; i < participants.length; i += INSERT_CHUNK_SIZE) {
+      await tx.insert(emailParticipants).values(participants.slice(i, i + INSERT_CHUNK_SIZE));
+    }
+    await tx.execute(sql`
+      UPDATE persons SET email_count = COALESCE(
+        (SELECT count(DISTINCT email_id)::int FROM email_participants WHERE person_id = persons.id), 0)
+    `);
+  });
+
+  const threadCount = new Set(threadIds.values()).size;
+  console.log(`  ${threadCount} threads, ${participants.length} person links, ${updated} messages updated`);
+}
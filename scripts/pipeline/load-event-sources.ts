@@ -0,0 +1,228 @@
+import "dotenv/config";
+import { eq, inArray, isNull, sql } from "drizzle-orm";
+import { db } from "../../server/db";
+import {
+  documentPages, documents, timelineEventSources, timelineEvents,
+  type MergedTimelineEvent, type TimelineEvent,
+} from "../../shared/schema";
+import { parseEventDate } from "../../server/event-dates";
+import {
+  corroborationScore,
+  findDuplicateGroups,
+  findSupportingExcerpt,
+  sourceDatesDisagree,
+  type DuplicateCandidate,
+} from "../../server/event-sources";
+
+const DOCUMENT_BATCH_SIZE = 200;
+
+function union(...lists: (number[] | null)[]): number[] | null {
+  const ids = Array.from(new Set(lists.flatMap((list) => list ?? [])));
+  return ids.length > 0 ? ids : null;
+}
+
+/** A source row for every listed document that has none yet, carrying the event's own date. */
+async function addMissingSources(): Promise<number> {
+  const result = await db.execute(sql`
+    INSERT INTO timeline_event_sources (event_id, document_id, date_original)
+    SELECT e.id, d.id, COALESCE(e.date_original, e.date)
+    FROM timeline_events e
+    CROSS JOIN LATERAL unnest(e.document_ids) AS doc(id)
+    JOIN documents d ON d.id = doc.id
+    ON CONFLICT (event_id, document_id) DO NOTHING
+  `);
+  return (result as any).rowCount ?? 0;
+}
+
+/**
+ * Fold each group of likely duplicates into its survivor: sources, persons,
+ * documents and places are unioned, the longest description and highest
+ * significance kept, workspace items re-pointed, and the folded events
+ * recorded in `merged_from` before they are deleted.
+ */
+async function mergeDuplicates(events: TimelineEvent[]): Promise<number> {
+  const byId = new Map(events.map((e) => [e.id, e]));
+  const candidates: DuplicateCandidate[] = [];
+  for (const e of events) {
+    const range = e.dateEarliest && e.dateLatest ? { earliest: e.dateEarliest, latest: e.dateLatest } : parseEventDate(e.date);
+    if (!range) continue;
+    candidates.push({ id: e.id, title: e.title, earliest: range.earliest, latest: range.latest, documentCount: e.documentIds?.length ?? 0 });
+  }
+
+  const groups = findDuplicateGroups(candidates);
+  let merged = 0;
+  for (const group of groups) {
+    const survivor = byId.get(group[0].id)!;
+    const duplicates = group.slice(1).map((c) => byId.get(c.id)!);
+    const duplicateIds = duplicates.map((d) => d.id);
+
+    const mergedFrom: MergedTimelineEvent[] = [
+      ...(survivor.mergedFrom ?? []),
+      ...duplicates.flatMap((d) => [
+        { id: d.id, title: d.title, date: d.date, dateOriginal: d.dateOriginal },
+        ...(d.mergedFrom ?? []),
+      ]),
+    ];
+    const all = [survivor, ...duplicates];
+    const description = all.reduce((longest, e) => (e.description.length > longest.length ? e.description : longest), "");
+
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`
+        INSERT INTO timeline_event_sources (event_id, document_id, page_number, excerpt, date_original)
+        SELECT ${survivor.id}, document_id, page_number, excerpt, date_original
+        FROM timeline_event_sources
+        WHERE event_id IN (${sql.join(duplicateIds.map((id) => sql`${id}`), sql`, `)})
+        ON CONFLICT (event_id, document_id) DO NOTHING
+      `);
+      // One at a time so two duplicates saved in the same workspace don't both take the survivor's slot
+      for (const id of duplicateIds) {
+        await tx.execute(sql`
+          UPDATE workspace_items w SET entity_id = ${survivor.id}
+          WHERE w.item_type = 'event' AND w.entity_id = ${id}
+            AND NOT EXISTS (
+              SELECT 1 FROM workspace_items o
+              WHERE o.workspace_id = w.workspace_id AND o.item_type = 'event' AND o.entity_id = ${survivor.id}
+            )
+        `);
+      }
+      await tx.execute(sql`
+        DELETE FROM workspace_items
+        WHERE item_type = 'event' AND entity_id IN (${sql.join(duplicateIds.map((id) => sql`${id}`), sql`, `)})
+      `);
+      await tx.delete(timelineEvents).where(inArray(timelineEvents.id, duplicateIds));
+      await tx.update(timelineEvents).set({
+        description,
+        significance: Math.max(...all.map((e) => e.significance)),
+        personIds: union(...all.map((e) => e.personIds)),
+        documentIds: union(...all.map((e) => e.documentIds)),
+        locationIds: union(...all.map((e) => e.locationIds)),
+        mergedFrom,
+      }).where(eq(timelineEvents.id, survivor.id));
+    });
+    merged += duplicates.length;
+  }
+  console.log(`  ${merged} likely-duplicate events merged into ${groups.length}`);
+  return merged;
+}
+
+/**
+ * Find the supporting page and passage for sources that have none, a batch of
+ * documents at a time. Sources whose document has no matching passage stay
+ * empty and are tried again on the next run.
+ */
+async function fillExcerpts(): Promise<number> {
+  const pending = await db.select({
+    id: timelineEventSources.id,
+    documentId: timelineEventSources.documentId,
+    title: timelineEvents.title,
+    description: timelineEvents.description,
+  }).from(timelineEventSources)
+    .innerJoin(timelineEvents, eq(timelineEvents.id, timelineEventSources.eventId))
+    .where(isNull(timelineEventSources.pageNumber));
+
+  const byDocument = new Map<number, typeof pending>();
+  for (const source of pending) {
+    const list = byDocument.get(source.documentId);
+    if (list) list.push(source);
+    else byDocument.set(source.documentId, [source]);
+  }
+
+  const documentIds = Array.from(byDocument.keys());
+  let found = 0;
+  for (let i = 0; i < documentIds.length; i += DOCUMENT_BATCH_SIZE) {
+    const batch = documentIds.slice(i, i + DOCUMENT_BATCH_SIZE);
+    const pages = await db.select({
+      documentId: documentPages.documentId,
+      pageNumber: documentPages.pageNumber,
+      content: documentPages.content,
+    }).from(documentPages)
+      .where(inArray(documentPages.documentId, batch));
+
+    const pagesByDocument = new Map<number, typeof pages>();
+    for (const page of pages) {
+      const list = pagesByDocument.get(page.documentId);
+      if (list) list.push(page);
+      else pagesByDocument.set(page.documentId, [page]);
+    }
+
+    for (const documentId of batch) {
+      const docPages = pagesByDocument.get(documentId);
+      if (!docPages) continue;
+      for (const source of byDocument.get(documentId)!) {
+        const match = findSupportingExcerpt(docPages, source);
+        if (!match) continue;
+        await db.update(timelineEventSources)
+          .set({ pageNumber: match.pageNumber, excerpt: match.excerpt })
+          .where(eq(timelineEventSources.id, source.id));
+        found++;
+      }
+    }
+    console.log(`  Excerpts: ${Math.min(i + DOCUMENT_BATCH_SIZE, documentIds.length)}/${documentIds.length} documents`);
+  }
+  console.log(`  ${found} of ${pending.length} sources matched to a page`);
+  return found;
+}
+
+/** Recompute each event's corroboration score and date disagreement from its sources. */
+async function updateCorroboration(events: { id: number; corroboration: number; sourcesDisagree: boolean }[]): Promise<number> {
+  const rows = await db.select({
+    eventId: timelineEventSources.eventId,
+    dataSet: documents.dataSet,
+    dateOriginal: timelineEventSources.dateOriginal,
+  }).from(timelineEventSources)
+    .innerJoin(documents, eq(documents.id, timelineEventSources.documentId));
+
+  const byEvent = new Map<number, { dataSets: (string | null)[]; dates: (string | null)[] }>();
+  for (const row of rows) {
+    let entry = byEvent.get(row.eventId);
+    if (!entry) {
+      entry = { dataSets: [], dates: [] };
+      byEvent.set(row.eventId, entry);
+    }
+    entry.dataSets.push(row.dataSet);
+    entry.dates.push(row.dateOriginal);
+  }
+
+  let updated = 0;
+  for (const event of events) {
+    const entry = byEvent.get(event.id);
+    const corroboration = entry ? corroborationScore(entry.dataSets) : 0;
+    const sourcesDisagree = entry ? sourceDatesDisagree(entry.dates) : false;
+    if (corroboration === event.corroboration && sourcesDisagree === event.sourcesDisagree) continue;
+    await db.update(timelineEvents)
+      .set({ corroboration, sourcesDisagree })
+      .where(eq(timelineEvents.id, event.id));
+    updated++;
+  }
+  return updated;
+}
+
+/**
+ * Build timeline event provenance (server/event-sources.ts): a source row per
+ * event document, likely duplicates across analyses merged, the supporting
+ * page and excerpt for each source, and each event's corroboration score.
+ * Safe to re-run; merged events stay merged and found excerpts are kept.
+ */
+export async function loadEventSources(): Promise<number> {
+  console.log("\n=== Timeline Event Sources ===\n");
+
+  const added = await addMissingSources();
+  console.log(`  ${added} new source rows`);
+
+  const merged = await mergeDuplicates(await db.select().from(timelineEvents));
+  const excerpts = await fillExcerpts();
+
+  const events = await db.select({
+    id: timelineEvents.id,
+    corroboration: timelineEvents.corroboration,
+    sourcesDisagree: timelineEvents.sourcesDisagree,
+  }).from(timelineEvents);
+  const updated = await updateCorroboration(events);
+
+  const [{ count: sourceCount }] = await db.select({ count: sql<number>`count(*)::int` }).from(timelineEventSources);
+  console.log("\n=== Event Sources Summary ===");
+  console.log(`Sources: ${sourceCount} (${excerpts} new excerpts)`);
+  console.log(`Events merged: ${merged}`);
+  console.log(`Corroboration updated: ${updated} of ${events.length} events`);
+  return sourceCount;
+}
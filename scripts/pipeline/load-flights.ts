@@ -0,0 +1,236 @@
+import "dotenv/config";
+import { and, eq, isNotNull, or, sql } from "drizzle-orm";
+import { db } from "../../server/db";
+import {
+  aiAnalyses, documentTableRows, documentTables, documents, entities, entityDocuments,
+  flightPassengers, flights, persons,
+  type InsertFlightPassenger,
+} from "../../shared/schema";
+import { createWholeNameMatcher } from "../../server/person-mentions";
+import {
+  findFlightColumns,
+  flightFromEvent,
+  flightsFromTable,
+  mergeFlights,
+  type FlightEventSource,
+  type ParsedFlight,
+} from "../../server/flight-logs";
+
+const EFTA_BATCH_SIZE = 2000;
+const INSERT_CHUNK_SIZE = 1000;
+// Attribute keys the analyzer uses for an aircraft's registration
+const TAIL_NUMBER_KEYS = ["tail_number", "registration", "tail"];
+
+/** Tail numbers and names compare without case, spaces or dashes ("N-908JE" = "n908je"). */
+function aircraftKey(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Index aircraft entities by name, aliases and tail-number attributes. Keys
+ * shared by two aircraft are dropped as ambiguous.
+ */
+async function buildAircraftIndex(): Promise<Map<string, { id: number; name: string } | null>> {
+  const rows = await db.select({
+    id: entities.id,
+    name: entities.name,
+    aliases: entities.aliases,
+    attributes: entities.attributes,
+  }).from(entities).where(eq(entities.entityType, "aircraft"));
+
+  const index = new Map<string, { id: number; name: string } | null>();
+  for (const row of rows) {
+    const attributes = (row.attributes ?? {}) as Record<string, unknown>;
+    const forms = [row.name, ...(row.aliases ?? [])];
+    for (const key of TAIL_NUMBER_KEYS) {
+      if (typeof attributes[key] === "string") forms.push(attributes[key] as string);
+    }
+    for (const form of forms) {
+      const key = aircraftKey(form);
+      if (key.length < 3) continue;
+      const existing = index.get(key);
+      if (existing === undefined) index.set(key, { id: row.id, name: row.name });
+      else if (existing && existing.id !== row.id) index.set(key, null);
+    }
+  }
+  return index;
+}
+
+/** Documents linked to exactly one aircraft entity, used for legs whose row names no aircraft. */
+async function buildDocumentAircraft(): Promise<Map<number, { id: number; name: string }>> {
+  const rows = await db.select({
+    documentId: entityDocuments.documentId,
+    id: entities.id,
+    name: entities.name,
+  }).from(entityDocuments)
+    .innerJoin(entities, eq(entities.id, entityDocuments.entityId))
+    .where(eq(entities.entityType, "aircraft"));
+
+  const byDocument = new Map<number, Map<number, string>>();
+  for (const row of rows) {
+    const aircraft = byDocument.get(row.documentId) ?? new Map<number, string>();
+    aircraft.set(row.id, row.name);
+    byDocument.set(row.documentId, aircraft);
+  }
+  const result = new Map<number, { id: number; name: string }>();
+  byDocument.forEach((aircraft, documentId) => {
+    if (aircraft.size !== 1) return;
+    const [[id, name]] = Array.from(aircraft.entries());
+    result.set(documentId, { id, name });
+  });
+  return result;
+}
+
+/** Flights from every stored table whose header looks like a flight log, by document. */
+async function readTableFlights(): Promise<Map<number, ParsedFlight[]>> {
+  const tables = await db.select({
+    id: documentTables.id,
+    documentId: documentTables.documentId,
+    columns: documentTables.columns,
+    pageNumber: documentTables.pageNumber,
+  }).from(documentTables)
+    .where(sql`array_to_string(${documentTables.columns}, ' ') ILIKE '%date%'`);
+
+  const byDocument = new Map<number, ParsedFlight[]>();
+  let logTables = 0;
+  for (const table of tables) {
+    if (!findFlightColumns(table.columns)) continue;
+    const rows = await db.select({ cells: documentTableRows.cells })
+      .from(documentTableRows)
+      .where(eq(documentTableRows.tableId, table.id))
+      .orderBy(documentTableRows.rowIndex);
+    const parsed = flightsFromTable({ columns: table.columns, rows: rows.map((r) => r.cells), pageNumber: table.pageNumber });
+    if (parsed.length === 0) continue;
+    logTables++;
+    byDocument.set(table.documentId, [...(byDocument.get(table.documentId) ?? []), ...parsed]);
+  }
+  console.log(`  ${logTables} flight-log tables in ${byDocument.size} documents`);
+  return byDocument;
+}
+
+/**
+ * Flights from analyses of flight logs and from travel events elsewhere, by
+ * document. Analyses are keyed by file name, which is the EFTA prefix of the
+ * document title (the same mapping load-ai-results uses).
+ */
+async function readAnalysisFlights(): Promise<Map<number, ParsedFlight[]>> {
+  const rows = await db.select({
+    fileName: aiAnalyses.fileName,
+    events: aiAnalyses.events,
+    locations: aiAnalyses.locations,
+  }).from(aiAnalyses)
+    .where(and(
+      isNotNull(aiAnalyses.events),
+      or(
+        eq(aiAnalyses.documentType, "flight log"),
+        sql`${aiAnalyses.events} @> '[{"category": "travel"}]'::jsonb`,
+      ),
+    ));
+
+  const parsedByEfta = new Map<string, ParsedFlight[]>();
+  for (const row of rows) {
+    const events = Array.isArray(row.events) ? (row.events as FlightEventSource[]) : [];
+    const locations = Array.isArray(row.locations) ? (row.locations as unknown[]).filter((l): l is string => typeof l === "string") : [];
+    const parsed = events
+      .map((event) => (event && typeof event === "object" ? flightFromEvent(event, locations) : null))
+      .filter((f): f is ParsedFlight => f !== null);
+    if (parsed.length > 0) parsedByEfta.set(row.fileName.replace(/\.json$/i, "").replace(/\.pdf$/i, ""), parsed);
+  }
+
+  const eftas = Array.from(parsedByEfta.keys());
+  const byDocument = new Map<number, ParsedFlight[]>();
+  for (let i = 0; i < eftas.length; i += EFTA_BATCH_SIZE) {
+    const batch = eftas.slice(i, i + EFTA_BATCH_SIZE);
+    const docs = await db.select({
+      id: documents.id,
+      efta: sql<string>`substring(${documents.title} from '^[A-Za-z0-9]+')`,
+    }).from(documents)
+      .where(sql`substring(${documents.title} from '^[A-Za-z0-9]+') = ANY(ARRAY[${sql.join(batch.map((e) => sql`${e}`), sql`, `)}]::text[])`);
+    for (const doc of docs) {
+      if (!byDocument.has(doc.id)) byDocument.set(doc.id, parsedByEfta.get(doc.efta) ?? []);
+    }
+  }
+  console.log(`  ${rows.length} analyses with travel events, ${byDocument.size} matched to documents`);
+  return byDocument;
+}
+
+/**
+ * Rebuild flights and flight_passengers from flight-log tables (load-tables)
+ * and AI analysis travel events (load-ai-results), resolve passengers to
+ * persons and aircraft to entities, and refresh persons.flightCount. The
+ * tables are rebuilt wholesale, so the stage can be re-run after either source
+ * changes.
+ */
+export async function loadFlights(): Promise<number> {
+  console.log("\n=== Flight Log Loader ===\n");
+
+  const candidates = await db.select({ id: persons.id, name: persons.name, aliases: persons.aliases }).from(persons);
+  const resolvePerson = createWholeNameMatcher(candidates);
+  const aircraftIndex = await buildAircraftIndex();
+  const documentAircraft = await buildDocumentAircraft();
+  console.log(`  ${candidates.length} persons, ${aircraftIndex.size} aircraft names`);
+
+  const fromTables = await readTableFlights();
+  const fromAnalyses = await readAnalysisFlights();
+  const documentIds = Array.from(new Set([...fromTables.keys(), ...fromAnalyses.keys()]));
+
+  let flightCount = 0;
+  let passengerCount = 0;
+  let resolvedCount = 0;
+
+  await db.transaction(async (tx) => {
+    await tx.delete(flights);
+
+    for (const documentId of documentIds) {
+      const merged = mergeFlights([...(fromTables.get(documentId) ?? []), ...(fromAnalyses.get(documentId) ?? [])]);
+      const passengers: InsertFlightPassenger[] = [];
+
+      for (const flight of merged) {
+        const named = flight.aircraft ? aircraftIndex.get(aircraftKey(flight.aircraft)) : undefined;
+        const aircraft = named ?? (flight.aircraft ? null : documentAircraft.get(documentId) ?? null);
+
+        const seen = new Set<string>();
+        const rows: Omit<InsertFlightPassenger, "flightId">[] = [];
+        for (const rawName of flight.passengerNames) {
+          const personId = resolvePerson(rawName);
+          const key = personId !== null ? `p:${personId}` : `n:${rawName.toLowerCase()}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          rows.push({ personId, rawName });
+        }
+
+        const [inserted] = await tx.insert(flights).values({
+          date: flight.date,
+          dateRaw: flight.dateRaw,
+          origin: flight.origin,
+          destination: flight.destination,
+          aircraftEntityId: aircraft?.id ?? null,
+          aircraftName: flight.aircraft ?? aircraft?.name ?? null,
+          documentId,
+          pageNumber: flight.pageNumber,
+          source: flight.source,
+          passengerCount: rows.length,
+        }).returning({ id: flights.id });
+
+        for (const row of rows) passengers.push({ ...row, flightId: inserted.id });
+        flightCount++;
+      }
+
+      for (let i = 0; i < passengers.length; i += INSERT_CHUNK_SIZE) {
+        await tx.insert(flightPassengers).values(passengers.slice(i, i + INSERT_CHUNK_SIZE));
+      }
+      passengerCount += passengers.length;
+      resolvedCount += passengers.filter((p) => p.personId !== null).length;
+    }
+
+    await tx.execute(sql`
+      UPDATE persons SET flight_count = COALESCE(
+        (SELECT count(DISTINCT flight_id)::int FROM flight_passengers WHERE person_id = persons.id), 0)
+    `);
+  });
+
+  console.log("\n=== Flight Summary ===");
+  console.log(`Flights: ${flightCount} in ${documentIds.length} documents`);
+  console.log(`Passengers: ${passengerCount} (${resolvedCount} linked to persons)`);
+  return flightCount;
+}
@@ -0,0 +1,179 @@
+import "dotenv/config";
+import { isNotNull, sql } from "drizzle-orm";
+import { db } from "../../server/db";
+import {
+  aiAnalyses, documents, locationDocuments, locations, timelineEvents,
+  type InsertLocationDocument,
+} from "../../shared/schema";
+import type { GazetteerPlace } from "../../server/gazetteer";
+import { createPlaceMatcher, createPlaceResolver, normalizePlaceName, placeKey, yearFromDate } from "../../server/locations";
+
+const EFTA_BATCH_SIZE = 2000;
+const INSERT_CHUNK_SIZE = 1000;
+
+interface AnalysisPlaces {
+  placeKeys: Set<string>;
+  dateOriginal: string | null;
+}
+
+/**
+ * Resolve the `locations` of every AI analysis against the gazetteer, keyed by
+ * EFTA (the analysis file name without extension). Unresolved names are
+ * counted so the summary shows how much the gazetteer misses.
+ */
+async function readAnalysisPlaces(places: Map<string, GazetteerPlace>): Promise<Map<string, AnalysisPlaces>> {
+  const rows = await db.select({
+    fileName: aiAnalyses.fileName,
+    locations: aiAnalyses.locations,
+    dateOriginal: aiAnalyses.dateOriginal,
+  }).from(aiAnalyses)
+    .where(isNotNull(aiAnalyses.locations));
+
+  const resolve = createPlaceResolver();
+  const byEfta = new Map<string, AnalysisPlaces>();
+  let mentions = 0;
+  let unresolved = 0;
+  for (const row of rows) {
+    const names = Array.isArray(row.locations) ? (row.locations as unknown[]).filter((l): l is string => typeof l === "string") : [];
+    const placeKeys = new Set<string>();
+    for (const name of names) {
+      mentions++;
+      const place = resolve(name);
+      if (!place) {
+        unresolved++;
+        continue;
+      }
+      const key = placeKey(place);
+      places.set(key, place);
+      placeKeys.add(key);
+    }
+    if (placeKeys.size > 0) {
+      byEfta.set(row.fileName.replace(/\.json$/i, "").replace(/\.pdf$/i, ""), { placeKeys, dateOriginal: row.dateOriginal });
+    }
+  }
+  console.log(`  ${rows.length} analyses, ${mentions} location mentions (${unresolved} not in the gazetteer)`);
+  return byEfta;
+}
+
+/** Document ids and original dates for the analysed EFTAs (the same mapping load-ai-results uses). */
+async function readDocuments(eftas: string[]): Promise<{ id: number; efta: string; dateOriginal: string | null }[]> {
+  const result: { id: number; efta: string; dateOriginal: string | null }[] = [];
+  for (let i = 0; i < eftas.length; i += EFTA_BATCH_SIZE) {
+    const batch = eftas.slice(i, i + EFTA_BATCH_SIZE);
+    const docs = await db.select({
+      id: documents.id,
+      efta: sql<string>`substring(${documents.title} from '^[A-Za-z0-9]+')`,
+      dateOriginal: documents.dateOriginal,
+    }).from(documents)
+      .where(sql`substring(${documents.title} from '^[A-Za-z0-9]+') = ANY(ARRAY[${sql.join(batch.map((e) => sql`${e}`), sql`, `)}]::text[])`);
+    result.push(...docs);
+  }
+  return result;
+}
+
+/**
+ * Build the geospatial layer: resolve AI analysis locations to gazetteer
+ * places (server/gazetteer.ts), upsert them into locations, rebuild
+ * location_documents with each document's year, and tag timeline events with
+ * the places their text names. Locations are upserted by normalized name and
+ * kind so ids stay stable across runs; places no longer referenced are removed.
+ */
+export async function loadLocations(): Promise<number> {
+  console.log("\n=== Location Loader ===\n");
+
+  const places = new Map<string, GazetteerPlace>();
+  const analysisPlaces = await readAnalysisPlaces(places);
+  const docs = await readDocuments(Array.from(analysisPlaces.keys()));
+  console.log(`  ${docs.length} documents matched to analyses`);
+
+  const matchPlaces = createPlaceMatcher();
+  const events = await db.select({
+    id: timelineEvents.id,
+    title: timelineEvents.title,
+    description: timelineEvents.description,
+  }).from(timelineEvents);
+  const eventPlaces = new Map<number, string[]>();
+  for (const event of events) {
+    const keys = matchPlaces(`${event.title}. ${event.description}`).map((place) => {
+      const key = placeKey(place);
+      places.set(key, place);
+      return key;
+    });
+    if (keys.length > 0) eventPlaces.set(event.id, keys);
+  }
+  console.log(`  ${eventPlaces.size} of ${events.length} timeline events name a place`);
+
+  let linkCount = 0;
+  let locationCount = 0;
+
+  await db.transaction(async (tx) => {
+    const idByKey = new Map<string, number>();
+    for (const [key, place] of Array.from(places.entries())) {
+      const [row] = await tx.insert(locations).values({
+        name: place.name,
+        normalizedName: normalizePlaceName(place.name),
+        kind: place.kind,
+        country: place.country,
+        admin: place.admin ?? null,
+        latitude: place.lat,
+        longitude: place.lon,
+      }).onConflictDoUpdate({
+        target: [locations.normalizedName, locations.kind],
+        set: {
+          name: place.name,
+          country: place.country,
+          admin: place.admin ?? null,
+          latitude: place.lat,
+          longitude: place.lon,
+        },
+      }).returning({ id: locations.id });
+      idByKey.set(key, row.id);
+    }
+
+    await tx.delete(locationDocuments);
+    const links: InsertLocationDocument[] = [];
+    const linked = new Set<string>();
+    for (const doc of docs) {
+      const analysis = analysisPlaces.get(doc.efta);
+      if (!analysis) continue;
+      const year = yearFromDate(doc.dateOriginal ?? analysis.dateOriginal);
+      for (const key of Array.from(analysis.placeKeys)) {
+        const locationId = idByKey.get(key)!;
+        const pair = `${locationId}:${doc.id}`;
+        if (linked.has(pair)) continue;
+        linked.add(pair);
+        links.push({ locationId, documentId: doc.id, year });
+      }
+    }
+    for (let i = 0; i < links.length; i += INSERT_CHUNK_SIZE) {
+      await tx.insert(locationDocuments).values(links.slice(i, i + INSERT_CHUNK_SIZE));
+    }
+    linkCount = links.length;
+
+    await tx.execute(sql`UPDATE timeline_events SET location_ids = NULL WHERE location_ids IS NOT NULL`);
+    for (const [eventId, keys] of Array.from(eventPlaces.entries())) {
+      const ids = keys.map((key) => idByKey.get(key)!);
+      await tx.execute(sql`
+        UPDATE timeline_events SET location_ids = ARRAY[${sql.join(ids.map((id) => sql`${id}`), sql`, `)}]::int[]
+        WHERE id = ${eventId}
+      `);
+    }
+
+    await tx.execute(sql`
+      UPDATE locations SET document_count = COALESCE(
+        (SELECT count(*)::int FROM location_documents WHERE location_id = locations.id), 0)
+    `);
+    await tx.execute(sql`
+      DELETE FROM locations
+      WHERE document_count = 0
+        AND NOT EXISTS (SELECT 1 FROM timeline_events WHERE location_ids @> ARRAY[locations.id])
+    `);
+    locationCount = idByKey.size;
+  });
+
+  console.log("\n=== Location Summary ===");
+  console.log(`Locations: ${locationCount}`);
+  console.log(`Document links: ${linkCount}`);
+  console.log(`Timeline events with places: ${eventPlaces.size}`);
+  return locationCount;
+}
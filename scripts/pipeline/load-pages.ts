@@ -3,6 +3,7 @@ import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
 import { db } from "../../server/db";
+import { runSearchAlerts } from "../../server/search-alerts";
 import { documents, documentPages } from "../../shared/schema";
 import { sql } from "drizzle-orm";
 
@@ -124,6 +125,11 @@ async function loadPages() {
   console.log(`Files processed: ${totalFiles}`);
   console.log(`Pages inserted: ${totalInserted}`);
   console.log(`Files skipped (no document match): ${totalSkipped}`);
+
+  if (totalInserted > 0) {
+    const alerts = await runSearchAlerts();
+    console.log(`Saved-search alerts created: ${alerts}`);
+  }
 }
 
 loadPages()
@@ -0,0 +1,126 @@
+import "dotenv/config";
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { eq, sql } from "drizzle-orm";
+import { db } from "../../server/db";
+import { documents, pageRedactions } from "../../shared/schema";
+import { redactionDensity } from "../../server/redaction-detection";
+import { detectPdfRedactions, type ExtractedDocument } from "./pdf-processor";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const EXTRACTED_DIR = path.resolve(__dirname, "../../data/extracted");
+
+/** eftaNumber (or EFTA-style title prefix) → document id, the same mapping load-pages.ts uses. */
+async function buildEftaLookup(): Promise<Map<string, number>> {
+  const rows = await db.select({
+    id: documents.id,
+    eftaNumber: documents.eftaNumber,
+    title: documents.title,
+  }).from(documents);
+
+  const lookup = new Map<string, number>();
+  for (const row of rows) {
+    if (row.eftaNumber) lookup.set(row.eftaNumber, row.id);
+    const match = row.title.match(/^([A-Z]{2,6}[-_]?\d{4,})/i);
+    if (match && !lookup.has(match[1])) lookup.set(match[1], row.id);
+  }
+  return lookup;
+}
+
+/**
+ * Store per-page redaction boxes from the extraction JSON files and roll them up
+ * into documents.redactionCount / redactionDensity. Files extracted before
+ * redaction detection existed are scanned now (when the PDF is still on disk)
+ * and the JSON is updated so the scan only happens once.
+ */
+export async function loadRedactions(options: { dataSetIds?: number[] } = {}): Promise<number> {
+  console.log("\n=== Redaction Loader ===\n");
+
+  if (!fs.existsSync(EXTRACTED_DIR)) {
+    console.log(`No extracted data at ${EXTRACTED_DIR}. Run the process stage first.`);
+    return 0;
+  }
+
+  const eftaLookup = await buildEftaLookup();
+  console.log(`  Loaded ${eftaLookup.size} document mappings`);
+
+  const dsDirs = fs.readdirSync(EXTRACTED_DIR)
+    .filter(d => /^ds\d+$/.test(d) && fs.statSync(path.join(EXTRACTED_DIR, d)).isDirectory())
+    .filter(d => !options.dataSetIds || options.dataSetIds.includes(parseInt(d.slice(2), 10)))
+    .sort();
+
+  let files = 0;
+  let scanned = 0;
+  let loaded = 0;
+  let redactedDocs = 0;
+  let skipped = 0;
+
+  for (const dsDir of dsDirs) {
+    const dsPath = path.join(EXTRACTED_DIR, dsDir);
+    const jsonFiles = fs.readdirSync(dsPath).filter(f => f.endsWith(".json"));
+    console.log(`  ${dsDir}: ${jsonFiles.length} files`);
+
+    for (const file of jsonFiles) {
+      files++;
+      const jsonPath = path.join(dsPath, file);
+      try {
+        const doc: ExtractedDocument = JSON.parse(fs.readFileSync(jsonPath, "utf-8"));
+        const documentId = eftaLookup.get(path.basename(file, ".json"));
+        if (!documentId || doc.fileType !== "pdf") {
+          skipped++;
+          continue;
+        }
+
+        if (doc.redactions === undefined) {
+          if (!fs.existsSync(doc.filePath)) {
+            skipped++;
+            continue;
+          }
+          doc.redactions = await detectPdfRedactions(doc.filePath);
+          fs.writeFileSync(jsonPath, JSON.stringify(doc, null, 2));
+          scanned++;
+        }
+
+        const pages = doc.redactions;
+        const count = pages.reduce((sum, p) => sum + p.redactionCount, 0);
+        await db.transaction(async (tx) => {
+          await tx.delete(pageRedactions).where(eq(pageRedactions.documentId, documentId));
+          if (pages.length > 0) {
+            await tx.insert(pageRedactions).values(pages.map(p => ({
+              documentId,
+              pageNumber: p.pageNumber,
+              redactionCount: p.redactionCount,
+              redactedArea: p.redactedArea,
+              boxes: p.boxes,
+            })));
+          }
+          await tx.update(documents)
+            .set({
+              redactionCount: count,
+              redactionDensity: redactionDensity(pages, doc.pageCount),
+              // Keep the catalog flag, but detected boxes always count as redacted
+              isRedacted: count > 0 ? true : sql`${documents.isRedacted}`,
+            })
+            .where(eq(documents.id, documentId));
+        });
+        loaded++;
+        if (count > 0) redactedDocs++;
+      } catch (err: any) {
+        console.warn(`  Error processing ${file}: ${err.message}`);
+      }
+
+      if (files % 1000 === 0) {
+        console.log(`  Progress: ${files} files, ${loaded} loaded (${scanned} newly scanned), ${redactedDocs} with redactions`);
+      }
+    }
+  }
+
+  console.log("\n=== Redaction Summary ===");
+  console.log(`Files: ${files}`);
+  console.log(`Documents updated: ${loaded} (${redactedDocs} with redactions)`);
+  console.log(`Newly scanned: ${scanned}`);
+  console.log(`Skipped (no document match or PDF missing): ${skipped}`);
+  return loaded;
+}
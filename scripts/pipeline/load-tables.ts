@@ -0,0 +1,153 @@
+import "dotenv/config";
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { eq } from "drizzle-orm";
+import { db } from "../../server/db";
+import { documents, documentTables, documentTableRows, type AnnotationBBox } from "../../shared/schema";
+import type { ParsedTable } from "../../server/spreadsheet-parsing";
+import { detectPdfTables, type ExtractedDocument, type ExtractedPageTable } from "./pdf-processor";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const EXTRACTED_DIR = path.resolve(__dirname, "../../data/extracted");
+
+// Keeps each INSERT well under Postgres' bind-parameter limit
+const ROW_BATCH_SIZE = 1000;
+
+/** eftaNumber (or EFTA-style title prefix) → document id, the same mapping load-pages.ts uses. */
+async function buildEftaLookup(): Promise<Map<string, number>> {
+  const rows = await db.select({
+    id: documents.id,
+    eftaNumber: documents.eftaNumber,
+    title: documents.title,
+  }).from(documents);
+
+  const lookup = new Map<string, number>();
+  for (const row of rows) {
+    if (row.eftaNumber) lookup.set(row.eftaNumber, row.id);
+    const match = row.title.match(/^([A-Z]{2,6}[-_]?\d{4,})/i);
+    if (match && !lookup.has(match[1])) lookup.set(match[1], row.id);
+  }
+  return lookup;
+}
+
+type TableToLoad = ParsedTable & { pageNumber?: number; bbox?: AnnotationBBox };
+
+/** "Page 4", or "Page 4, table 2" when a page holds several tables. */
+function namePageTables(tables: ExtractedPageTable[]): TableToLoad[] {
+  const perPage = new Map<number, number>();
+  for (const t of tables) perPage.set(t.pageNumber, (perPage.get(t.pageNumber) ?? 0) + 1);
+  const seen = new Map<number, number>();
+  return tables.map(t => {
+    const index = (seen.get(t.pageNumber) ?? 0) + 1;
+    seen.set(t.pageNumber, index);
+    const name = perPage.get(t.pageNumber)! > 1 ? `Page ${t.pageNumber}, table ${index}` : `Page ${t.pageNumber}`;
+    return { ...t, name };
+  });
+}
+
+/**
+ * Store the sheets of extracted spreadsheet/CSV files, and tables detected on
+ * PDF pages, as document_tables rows plus one document_table_rows row per data
+ * row. A document's tables are replaced wholesale, so re-running after a
+ * re-extraction is safe. PDFs extracted before table detection existed are
+ * scanned now (pdf.js text layer only) and the JSON is updated.
+ */
+export async function loadTables(options: { dataSetIds?: number[] } = {}): Promise<number> {
+  console.log("\n=== Table Loader ===\n");
+
+  if (!fs.existsSync(EXTRACTED_DIR)) {
+    console.log(`No extracted data at ${EXTRACTED_DIR}. Run the process stage first.`);
+    return 0;
+  }
+
+  const eftaLookup = await buildEftaLookup();
+  console.log(`  Loaded ${eftaLookup.size} document mappings`);
+
+  const dsDirs = fs.readdirSync(EXTRACTED_DIR)
+    .filter(d => /^ds\d+$/.test(d) && fs.statSync(path.join(EXTRACTED_DIR, d)).isDirectory())
+    .filter(d => !options.dataSetIds || options.dataSetIds.includes(parseInt(d.slice(2), 10)))
+    .sort();
+
+  let loaded = 0;
+  let scanned = 0;
+  let tableCount = 0;
+  let rowCount = 0;
+  let skipped = 0;
+
+  for (const dsDir of dsDirs) {
+    const dsPath = path.join(EXTRACTED_DIR, dsDir);
+    const jsonFiles = fs.readdirSync(dsPath).filter(f => f.endsWith(".json"));
+
+    for (const file of jsonFiles) {
+      try {
+        const jsonPath = path.join(dsPath, file);
+        const doc: ExtractedDocument = JSON.parse(fs.readFileSync(jsonPath, "utf-8"));
+        if (doc.method !== "spreadsheet" && doc.fileType !== "pdf") continue;
+
+        const documentId = eftaLookup.get(path.basename(file, ".json"));
+        if (!documentId) {
+          skipped++;
+          continue;
+        }
+
+        let tables: TableToLoad[];
+        if (doc.method === "spreadsheet") {
+          tables = doc.tables ?? [];
+        } else {
+          if (doc.pageTables === undefined) {
+            if (!fs.existsSync(doc.filePath)) {
+              skipped++;
+              continue;
+            }
+            doc.pageTables = await detectPdfTables(doc.filePath);
+            fs.writeFileSync(jsonPath, JSON.stringify(doc, null, 2));
+            scanned++;
+          }
+          tables = namePageTables(doc.pageTables);
+        }
+
+        await db.transaction(async (tx) => {
+          await tx.delete(documentTables).where(eq(documentTables.documentId, documentId));
+          for (const [position, table] of tables.entries()) {
+            const [inserted] = await tx.insert(documentTables).values({
+              documentId,
+              position,
+              name: table.name,
+              columns: table.columns,
+              rowCount: table.rows.length,
+              pageNumber: table.pageNumber ?? null,
+              bbox: table.bbox ?? null,
+            }).returning({ id: documentTables.id });
+
+            for (let i = 0; i < table.rows.length; i += ROW_BATCH_SIZE) {
+              await tx.insert(documentTableRows).values(
+                table.rows.slice(i, i + ROW_BATCH_SIZE).map((cells, j) => ({
+                  tableId: inserted.id,
+                  rowIndex: i + j,
+                  cells,
+                })),
+              );
+            }
+          }
+        });
+
+        if (tables.length === 0) continue;
+        loaded++;
+        tableCount += tables.length;
+        rowCount += tables.reduce((sum, t) => sum + t.rows.length, 0);
+      } catch (err: any) {
+        console.warn(`  Error processing ${file}: ${err.message}`);
+      }
+    }
+    console.log(`  ${dsDir}: ${loaded} documents with tables so far (${scanned} newly scanned)`);
+  }
+
+  console.log("\n=== Table Summary ===");
+  console.log(`Documents with tables: ${loaded}`);
+  console.log(`Newly scanned PDFs: ${scanned}`);
+  console.log(`Tables: ${tableCount}, rows: ${rowCount.toLocaleString()}`);
+  console.log(`Skipped (no document match or PDF missing): ${skipped}`);
+  return loaded;
+}
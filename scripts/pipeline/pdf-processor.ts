@@ -4,6 +4,9 @@ import { fileURLToPath } from "url";
 import * as pdfjsLib from "pdfjs-dist/legacy/build/pdf.mjs";
 import { createRequire } from "module";
 import { createCanvas } from "canvas";
+import { detectRedactions, type PageRedactionScan } from "../../server/redaction-detection";
+import { detectTables, type DetectedTable, type TextBox } from "../../server/table-detection";
+import { parseSpreadsheet, renderTablePages, SPREADSHEET_EXTENSIONS, type ParsedTable } from "../../server/spreadsheet-parsing";
 
 // Prevent corrupted PDFs from crashing the process with unhandled rejections
 process.on("unhandledRejection", (reason: any) => {
@@ -26,6 +29,18 @@ const OCR_SCALE = OCR_DPI / 72; // PDF default is 72 DPI
 const CHARS_PER_PAGE_THRESHOLD = 50;
 const SINGLE_PAGE_CHARS_THRESHOLD = 20;
 
+// Redaction boxes are large, so a coarser render than OCR is plenty
+const REDACTION_DPI = 100;
+const REDACTION_SCALE = REDACTION_DPI / 72;
+
+export interface ExtractedPageRedactions extends PageRedactionScan {
+  pageNumber: number;
+}
+
+export interface ExtractedPageTable extends DetectedTable {
+  pageNumber: number;
+}
+
 export interface ExtractedDocument {
   filePath: string;
   fileName: string;
@@ -34,9 +49,15 @@ export interface ExtractedDocument {
   pageCount: number;
   metadata: Record<string, any>;
   extractedAt: string;
-  method: "pdfjs" | "ocr" | "image-metadata";
+  method: "pdfjs" | "ocr" | "image-metadata" | "spreadsheet";
   fileType: string;
   fileSizeBytes: number;
+  /** Pages with detected redaction boxes; absent when the file was never scanned */
+  redactions?: ExtractedPageRedactions[];
+  /** Tables detected from text positions; absent when the file was never scanned */
+  pageTables?: ExtractedPageTable[];
+  /** Sheets of spreadsheet/CSV files, loaded by load-tables.ts; `text` holds them rendered as pages */
+  tables?: ParsedTable[];
 }
 
 interface ExtractionLog {
@@ -80,6 +101,14 @@ function getOutputPath(outputDir: string, dataSetId: number, fileName: string):
   return path.join(outputDir, `ds${dataSetId}`, `${path.basename(fileName, ".pdf")}.json`);
 }
 
+function getSpreadsheetOutputPath(outputDir: string, dataSetId: number, fileName: string): string {
+  return path.join(outputDir, `ds${dataSetId}`, `${path.basename(fileName, path.extname(fileName))}.json`);
+}
+
+function isSpreadsheetFile(fileName: string): boolean {
+  return SPREADSHEET_EXTENSIONS.has(path.extname(fileName).slice(1).toLowerCase());
+}
+
 function isTextQualityPoor(text: string, pageCount: number): boolean {
   const totalChars = text.trim().length;
   if (pageCount <= 1) return totalChars < SINGLE_PAGE_CHARS_THRESHOLD;
@@ -106,7 +135,39 @@ async function terminateTesseractWorker(): Promise<void> {
   }
 }
 
-async function extractPdfText(filePath: string): Promise<{ text: string; pageCount: number; metadata: Record<string, any> }> {
+/** pdf.js text items as top-left-origin boxes in viewport units. */
+function textItemsToBoxes(items: any[], viewport: any): TextBox[] {
+  const boxes: TextBox[] = [];
+  for (const item of items) {
+    if (!item.str?.trim()) continue;
+    const [, , c, d, x, y] = pdfjsLib.Util.transform(viewport.transform, item.transform);
+    const fontHeight = Math.hypot(c, d);
+    boxes.push({ text: item.str, x, y: y - fontHeight, width: item.width * viewport.scale, height: fontHeight });
+  }
+  return boxes;
+}
+
+/** Tesseract words (from the `blocks` output) as boxes in image pixels. */
+function ocrWordsToBoxes(blocks: any[] | null): TextBox[] {
+  const boxes: TextBox[] = [];
+  for (const block of blocks ?? []) {
+    for (const paragraph of block.paragraphs ?? []) {
+      for (const line of paragraph.lines ?? []) {
+        for (const word of line.words ?? []) {
+          const { x0, y0, x1, y1 } = word.bbox;
+          boxes.push({ text: word.text, x: x0, y: y0, width: x1 - x0, height: y1 - y0 });
+        }
+      }
+    }
+  }
+  return boxes;
+}
+
+function pageTables(boxes: TextBox[], width: number, height: number, pageNumber: number): ExtractedPageTable[] {
+  return detectTables(boxes, width, height).map(table => ({ pageNumber, ...table }));
+}
+
+async function extractPdfText(filePath: string): Promise<{ text: string; pageCount: number; metadata: Record<string, any>; pageTables: ExtractedPageTable[] }> {
   const buffer = fs.readFileSync(filePath);
   const data = new Uint8Array(buffer);
 
@@ -125,6 +186,7 @@ async function extractPdfText(filePath: string): Promise<{ text: string; pageCou
 
     let fullText = "";
     const pageCount = doc.numPages;
+    const tables: ExtractedPageTable[] = [];
 
     for (let i = 1; i <= pageCount; i++) {
       try {
@@ -137,6 +199,8 @@ async function extractPdfText(filePath: string): Promise<{ text: string; pageCou
           .trim();
         if (pageText.length > 0) {
           fullText += pageText + "\n\n";
+          const viewport = page.getViewport({ scale: 1 });
+          tables.push(...pageTables(textItemsToBoxes(content.items, viewport), viewport.width, viewport.height, i));
         }
         page.cleanup();
       } catch {
@@ -155,16 +219,16 @@ async function extractPdfText(filePath: string): Promise<{ text: string; pageCou
     } catch {
     }
 
-    return { text: fullText.trim(), pageCount, metadata };
+    return { text: fullText.trim(), pageCount, metadata, pageTables: tables };
   } catch (error: any) {
     console.warn(`    PDF parse error: ${error.message?.substring(0, 100)}`);
-    return { text: "", pageCount: 0, metadata: { error: error.message } };
+    return { text: "", pageCount: 0, metadata: { error: error.message }, pageTables: [] };
   } finally {
     if (doc) doc.destroy();
   }
 }
 
-async function extractPdfTextWithOCR(filePath: string): Promise<{ text: string; pageCount: number; metadata: Record<string, any> }> {
+async function extractPdfTextWithOCR(filePath: string): Promise<{ text: string; pageCount: number; metadata: Record<string, any>; pageTables: ExtractedPageTable[] }> {
   const buffer = fs.readFileSync(filePath);
   const data = new Uint8Array(buffer);
 
@@ -183,6 +247,7 @@ async function extractPdfTextWithOCR(filePath: string): Promise<{ text: string;
     const pageCount = doc.numPages;
     const worker = await getTesseractWorker();
     let fullText = "";
+    const tables: ExtractedPageTable[] = [];
 
     for (let i = 1; i <= pageCount; i++) {
       let page: any = null;
@@ -198,11 +263,13 @@ async function extractPdfTextWithOCR(filePath: string): Promise<{ text: string;
         await page.render({ canvasContext: ctx as any, viewport }).promise;
 
         const pngBuffer = canvas.toBuffer("image/png");
-        const { data: ocrResult } = await worker.recognize(pngBuffer);
+        // Word boxes come from the blocks output, which tesseract.js leaves off by default
+        const { data: ocrResult } = await worker.recognize(pngBuffer, {}, { text: true, blocks: true });
         const pageText = ocrResult.text.trim();
 
         if (pageText.length > 0) {
           fullText += pageText + "\n\n";
+          tables.push(...pageTables(ocrWordsToBoxes(ocrResult.blocks), width, height, i));
         }
 
         page.cleanup();
@@ -226,15 +293,77 @@ async function extractPdfTextWithOCR(filePath: string): Promise<{ text: string;
     }
     metadata.ocrDpi = OCR_DPI;
 
-    return { text: fullText.trim(), pageCount, metadata };
+    return { text: fullText.trim(), pageCount, metadata, pageTables: tables };
   } catch (error: any) {
     console.warn(`    OCR extraction error: ${error.message?.substring(0, 100)}`);
-    return { text: "", pageCount: 0, metadata: { error: error.message } };
+    return { text: "", pageCount: 0, metadata: { error: error.message }, pageTables: [] };
+  } finally {
+    if (doc) doc.destroy();
+  }
+}
+
+/**
+ * Render every page and look for black-box redactions. Returns only pages with
+ * at least one box; pages that fail to render are skipped.
+ */
+export async function detectPdfRedactions(filePath: string): Promise<ExtractedPageRedactions[]> {
+  const buffer = fs.readFileSync(filePath);
+  const data = new Uint8Array(buffer);
+
+  let doc: any = null;
+  try {
+    const loadingTask = pdfjsLib.getDocument({
+      data,
+      useSystemFonts: true,
+      standardFontDataUrl: STANDARD_FONT_DATA_URL,
+      disableAutoFetch: true,
+      isEvalSupported: false,
+    });
+    loadingTask.onUnsupportedFeature = () => {};
+    doc = await loadingTask.promise;
+
+    const pages: ExtractedPageRedactions[] = [];
+    for (let i = 1; i <= doc.numPages; i++) {
+      let page: any = null;
+      try {
+        page = await doc.getPage(i);
+        const viewport = page.getViewport({ scale: REDACTION_SCALE });
+        const width = Math.floor(viewport.width);
+        const height = Math.floor(viewport.height);
+
+        const canvas = createCanvas(width, height);
+        const ctx = canvas.getContext("2d");
+        ctx.fillStyle = "#ffffff";
+        ctx.fillRect(0, 0, width, height);
+        await page.render({ canvasContext: ctx as any, viewport }).promise;
+
+        const scan = detectRedactions(ctx.getImageData(0, 0, width, height).data, width, height);
+        if (scan.redactionCount > 0) pages.push({ pageNumber: i, ...scan });
+
+        page.cleanup();
+        page = null;
+      } catch (pageError: any) {
+        console.warn(`    Redaction scan page ${i} error: ${pageError.message?.substring(0, 100)}`);
+        if (page) page.cleanup();
+      }
+    }
+    return pages;
+  } catch (error: any) {
+    console.warn(`    Redaction scan error: ${error.message?.substring(0, 100)}`);
+    return [];
   } finally {
     if (doc) doc.destroy();
   }
 }
 
+/**
+ * Detect tables from the pdf.js text layer of an already-extracted PDF. Scans
+ * without a text layer yield none; their tables only come from OCR at extraction.
+ */
+export async function detectPdfTables(filePath: string): Promise<ExtractedPageTable[]> {
+  return (await extractPdfText(filePath)).pageTables;
+}
+
 export async function processDocuments(options: {
   inputDir?: string;
   dataSetIds?: number[];
@@ -282,7 +411,7 @@ export async function processDocuments(options: {
         const jsonPath = path.join(dsOutputDir, jsonFile);
         try {
           const doc: ExtractedDocument = JSON.parse(fs.readFileSync(jsonPath, "utf-8"));
-          if (doc.method === "ocr") continue; // Already OCR'd, skip
+          if (doc.method === "ocr" || doc.method === "spreadsheet") continue; // Already OCR'd or not a PDF, skip
           if (isTextQualityPoor(doc.text, doc.pageCount)) {
             log.totalPages -= doc.pageCount;
             log.totalChars -= doc.text.length;
@@ -302,6 +431,7 @@ export async function processDocuments(options: {
   let skipped = 0;
   let failed = 0;
   let ocrCount = 0;
+  let spreadsheetCount = 0;
   let totalFiles = 0;
 
   for (const dir of dirs) {
@@ -351,6 +481,8 @@ export async function processDocuments(options: {
           }
         }
 
+        const redactions = finalExtracted.pageCount > 0 ? await detectPdfRedactions(filePath) : [];
+
         const result: ExtractedDocument = {
           filePath,
           fileName,
@@ -362,6 +494,8 @@ export async function processDocuments(options: {
           method,
           fileType: "pdf",
           fileSizeBytes: stats.size,
+          redactions,
+          pageTables: finalExtracted.pageTables,
         };
 
         // Write to disk immediately, don't accumulate in memory
@@ -383,14 +517,64 @@ export async function processDocuments(options: {
         console.log(`  Progress: ${processed} extracted, ${skipped} skipped, ${failed} failed, ${log.totalPages} pages, ${log.totalChars.toLocaleString()} chars`);
       }
     }
+
+    // Spreadsheets (flight logs, ledgers) keep their cell structure for load-tables.ts
+    const sheetFiles = fs.readdirSync(dsPath).filter(isSpreadsheetFile);
+    totalFiles += sheetFiles.length;
+    if (sheetFiles.length > 0) console.log(`  DS ${dsId}: ${sheetFiles.length} spreadsheets`);
+
+    for (const fileName of sheetFiles) {
+      if (processed + skipped >= maxFiles) break;
+
+      const outPath = getSpreadsheetOutputPath(outputDir, dsId, fileName);
+      if (fs.existsSync(outPath)) {
+        skipped++;
+        continue;
+      }
+
+      const filePath = path.join(dsPath, fileName);
+
+      try {
+        const stats = fs.statSync(filePath);
+        const tables = parseSpreadsheet(fs.readFileSync(filePath), fileName);
+        const pages = renderTablePages(tables);
+
+        const result: ExtractedDocument = {
+          filePath,
+          fileName,
+          dataSetId: dsId,
+          text: pages.join("\n\n"),
+          pageCount: pages.length,
+          metadata: { sheetCount: tables.length },
+          extractedAt: new Date().toISOString(),
+          method: "spreadsheet",
+          fileType: path.extname(fileName).slice(1).toLowerCase(),
+          fileSizeBytes: stats.size,
+          tables,
+        };
+
+        if (!fs.existsSync(dsOutputDir)) fs.mkdirSync(dsOutputDir, { recursive: true });
+        fs.writeFileSync(outPath, JSON.stringify(result, null, 2));
+
+        log.totalPages += result.pageCount;
+        log.totalChars += result.text.length;
+        log.totalProcessed++;
+        processed++;
+        spreadsheetCount++;
+      } catch (error: any) {
+        console.warn(`  Error processing ${fileName}: ${error.message}`);
+        log.totalFailed++;
+        failed++;
+      }
+    }
   }
 
   await terminateTesseractWorker();
   saveLog(log);
 
   console.log("\n=== Extraction Summary ===");
-  console.log(`Total PDFs found: ${totalFiles}`);
-  console.log(`Extracted: ${processed} (${ocrCount} via OCR)`);
+  console.log(`Total files found: ${totalFiles}`);
+  console.log(`Extracted: ${processed} (${ocrCount} via OCR, ${spreadsheetCount} spreadsheets)`);
   console.log(`Skipped (already done): ${skipped}`);
   console.log(`Failed: ${failed}`);
   console.log(`Total pages: ${log.totalPages}`);
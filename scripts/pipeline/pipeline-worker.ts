@@ -0,0 +1,99 @@
+import * as os from "os";
+import type { PipelineJob } from "../../shared/schema";
+import { HEARTBEAT_MS, LEASE_MS, retryDelayMs } from "../../server/pipeline-plan";
+import { storage } from "../../server/storage";
+
+/** How long an idle worker waits before looking for claimable jobs again */
+const IDLE_POLL_MS = 15_000;
+
+export interface PipelineWorkerOptions {
+  /** Only work this run; otherwise any running run */
+  runId?: number;
+  /** Runs one claimed job; a throw fails the attempt */
+  runJob: (job: PipelineJob) => Promise<void>;
+  workerId?: string;
+}
+
+export interface PipelineWorkerResult {
+  completed: number;
+  failed: number;
+}
+
+export function defaultWorkerId(): string {
+  return `${os.hostname()}:${process.pid}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether the worker can stop: the run (or every running run) has been closed.
+ * Otherwise other workers still hold jobs, or jobs wait for a retry.
+ */
+async function nothingLeft(runId?: number): Promise<boolean> {
+  const runIds = runId
+    ? [runId]
+    : (await storage.getPipelineRuns(100)).filter((r) => r.status === "running").map((r) => r.id);
+  let open = 0;
+  for (const id of runIds) {
+    const progress = await storage.getPipelineRunProgress(id);
+    if (!progress || progress.status !== "running") continue;
+    if (!(await storage.finishPipelineRun(id))) open++;
+  }
+  return open === 0;
+}
+
+/**
+ * Claim and run jobs until nothing is left. The lease is renewed while a job
+ * runs, so a worker that dies leaves its job to be taken over once the lease
+ * lapses; failed attempts go back to pending with an exponential delay until
+ * max_attempts is used up.
+ */
+export async function runPipelineWorker(options: PipelineWorkerOptions): Promise<PipelineWorkerResult> {
+  const workerId = options.workerId ?? defaultWorkerId();
+  const result: PipelineWorkerResult = { completed: 0, failed: 0 };
+  console.log(`Pipeline worker ${workerId} started${options.runId ? ` on run #${options.runId}` : ""}`);
+
+  while (true) {
+    await storage.expirePipelineLeases();
+    const job = await storage.claimPipelineJob(workerId, LEASE_MS, options.runId);
+    if (!job) {
+      if (await nothingLeft(options.runId)) break;
+      await sleep(IDLE_POLL_MS);
+      continue;
+    }
+
+    const label = `${job.jobType} [${job.batchKey}] (job #${job.id}, attempt ${job.attempts}/${job.maxAttempts})`;
+    console.log(`\nClaimed ${label}`);
+    const heartbeat = setInterval(() => {
+      storage.renewPipelineJobLease(job.id, workerId, LEASE_MS)
+        .then((held) => {
+          if (!held) console.warn(`Lost the lease on job #${job.id}; another worker may take it over`);
+        })
+        .catch((error) => console.warn(`Lease renewal for job #${job.id} failed: ${error.message}`));
+    }, HEARTBEAT_MS);
+
+    try {
+      await options.runJob(job);
+      await storage.completePipelineJob(job.id, workerId);
+      result.completed++;
+    } catch (error: any) {
+      const retryAt = job.attempts < job.maxAttempts ? new Date(Date.now() + retryDelayMs(job.attempts)) : null;
+      await storage.failPipelineJob(job.id, workerId, error?.message ?? String(error), retryAt);
+      if (retryAt) {
+        console.warn(`${label} failed; retrying after ${retryAt.toISOString()}`);
+      } else {
+        result.failed++;
+        console.error(`${label} failed on its last attempt; dependent jobs will not run`);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    if (job.runId) await storage.finishPipelineRun(job.runId);
+  }
+
+  console.log(`Pipeline worker ${workerId} done: ${result.completed} completed, ${result.failed} failed`);
+  return result;
+}
@@ -3,6 +3,7 @@ import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
 import { runAIAnalysis } from "./ai-analyzer";
+import { parsePromoteTarget } from "./analysis-versions";
 import {
   deduplicateConnections,
   deduplicatePersonsInDB,
@@ -15,6 +16,14 @@ import {
 } from "./db-loader";
 import { backfillConnectionDocs } from "./backfill-connection-docs";
 import { backfillEntities } from "./backfill-entities";
+import { backfillEventDates } from "./backfill-event-dates";
+import { extractMentions } from "./extract-mentions";
+import { loadEmails } from "./load-emails";
+import { loadFlights } from "./load-flights";
+import { loadLocations } from "./load-locations";
+import { loadEventSources } from "./load-event-sources";
+import { loadRedactions } from "./load-redactions";
+import { loadTables } from "./load-tables";
 import { generateProfiles } from "./generate-profiles";
 import { classifyAllDocuments } from "./media-classifier";
 import { processDocuments } from "./pdf-processor";
@@ -22,6 +31,11 @@ import { migrateToR2 } from "./r2-migration";
 import { downloadTorrents } from "./torrent-downloader";
 import { generateTier0Persons } from "./generate-tier0-persons";
 import { scrapeWikipediaPersons } from "./wikipedia-scraper";
+import { runPipelineWorker } from "./pipeline-worker";
+import { runSearchAlerts } from "../../server/search-alerts";
+import { storage } from "../../server/storage";
+import { DATA_SET_IDS, orderStages, planJobs } from "../../server/pipeline-plan";
+import type { PipelineJob } from "../../shared/schema";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -44,6 +58,14 @@ interface PipelineConfig {
   dryRun?: boolean;
   model?: string;
   schemaVersion?: number;
+  /** load-ai-results: analysis versions to promote, e.g. "EFTA00001234.pdf@2" */
+  promote?: string[];
+  /** Run the stages one after another in this process instead of as queued jobs */
+  direct?: boolean;
+  /** Resume this run instead of starting a new one */
+  resumeRunId?: number;
+  /** Work jobs of whatever runs are open, without starting one */
+  worker?: boolean;
 }
 
 const STAGES = [
@@ -57,14 +79,23 @@ const STAGES = [
   "load-persons",
   "load-documents",
   "import-downloads",
+  "load-redactions",
+  "load-tables",
   "load-ai-results",
   "dedup-persons",
+  "extract-mentions",
+  "load-emails",
+  "load-flights",
+  "load-locations",
+  "load-event-sources",
   "extract-connections",
   "dedup-connections",
   "update-counts",
+  "network-analytics",
   "generate-profiles",
   "backfill-connection-docs",
   "backfill-entities",
+  "backfill-event-dates",
 ];
 
 function printUsage() {
@@ -97,11 +128,20 @@ STAGES:
   load-persons     Load scraped persons into PostgreSQL database
   load-documents   Load document catalog into PostgreSQL database
   import-downloads Import downloaded PDFs from filesystem into database
+  load-redactions  Store detected redaction boxes per page (scans PDFs extracted before detection existed)
+  load-tables      Store spreadsheet sheets and tables detected on PDF pages as queryable rows and columns
   load-ai-results  Load AI-analyzed persons, connections, events, and person↔document links
   dedup-persons    Deduplicate persons in database
+  extract-mentions Record where each person's name/aliases appear in page text
+  load-emails      Parse email documents (headers, reply threads) and link senders/recipients to persons
+  load-flights     Build flights and passenger lists from flight-log tables and AI travel events
+  load-locations   Geocode AI-analysis locations against the bundled gazetteer and link them to documents and timeline events
+  load-event-sources Cite the supporting page of each timeline event source, merge duplicate events, score corroboration
   extract-connections  Extract relationships from person descriptions
   dedup-connections  Deduplicate connections in database
   update-counts    Recalculate document/connection counts per person
+                   (also runs network-analytics afterwards)
+  network-analytics  Recompute centrality, communities and bridge persons
   generate-profiles  Generate profile sections and fetch Wikipedia images for all persons
 
 SHORTCUTS:
@@ -121,12 +161,26 @@ OPTIONS:
   --max-process 50     Limit number of files to process
   --rate-limit 2000    Milliseconds between downloads (default: 2000)
   --types pdf,jpg      File types to download/process
-  --budget 500         AI analysis budget cap in cents (default: unlimited)
+  --budget 500         Per-run AI cap in cents, on top of budget_policies (default: none)
   --priority 3         Minimum priority level for analyze-priority (1-5, default: 1)
   --batch-size 20      Number of documents per batch (default: 50)
   --concurrency 4      Max parallel operations (default: 1)
   --model gpt-4o-mini  AI model for analysis (deepseek-chat or gpt-4o-mini)
   --reprocess-empty    Re-extract PDFs where text quality is poor (OCR fallback)
+  --promote EFTA00001234.pdf@2  load-ai-results: make that analysis version current first
+                       and reload only its file (no @N: newest version; comma-separate several)
+
+RUNS:
+  Stages run as durable jobs in pipeline_jobs: the file-based stages
+  (download-torrent, upload-r2, process, load-redactions, load-tables) as one
+  job per data set, the rest as one job each. A job starts once the jobs it
+  depends on have completed, is retried up to 3 times with backoff, and is
+  leased to the worker running it, so several workers can share a run and a
+  crashed worker's job is taken over once its lease lapses.
+
+  --resume 12          Resume run #12: retry its failed jobs and carry on
+  --worker             Join open runs as an extra worker (no stages needed)
+  --direct             Run the stages in order in this process, without a run
 
 EXAMPLES:
   # Quick start: populate database with Wikipedia data
@@ -150,12 +204,19 @@ EXAMPLES:
   # Process already-downloaded documents and load AI results
   npx tsx scripts/pipeline/run-pipeline.ts process analyze-ai load-ai-results
 
+  # After re-analyzing a file, review the diff on AI Insights, then make the new version current
+  npx tsx scripts/pipeline/run-pipeline.ts load-ai-results --promote EFTA00001234.pdf@2
+
   # Classify media types for downloaded files
   npx tsx scripts/pipeline/run-pipeline.ts classify-media --data-sets 10
 
   # Run AI analysis with concurrency and batch size
   npx tsx scripts/pipeline/run-pipeline.ts analyze-ai --batch-size 10 --concurrency 2 --budget 1000
 
+  # Resume run 12 after a crash, with a second worker in another shell
+  npx tsx scripts/pipeline/run-pipeline.ts --resume 12
+  npx tsx scripts/pipeline/run-pipeline.ts --worker
+
 DATA FLOW:
   1. scrape-wikipedia  → data/persons-raw.json
   2. download-torrent  → data/downloads/data-set-{N}/ (via BitTorrent + aria2c)
@@ -223,7 +284,11 @@ async function runStage(stage: string, config: PipelineConfig): Promise<void> {
         break;
 
       case "load-ai-results":
-        await loadAIResults({ dryRun: config.dryRun, schemaVersion: config.schemaVersion });
+        await loadAIResults({
+          dryRun: config.dryRun,
+          schemaVersion: config.schemaVersion,
+          promote: config.promote?.map(parsePromoteTarget),
+        });
         break;
 
       case "load-persons":
@@ -234,8 +299,19 @@ async function runStage(stage: string, config: PipelineConfig): Promise<void> {
         await loadDocumentsFromCatalog();
         break;
 
-      case "import-downloads":
+      case "import-downloads": {
         await importDownloadedFiles();
+        const alerts = await runSearchAlerts();
+        console.log(`Saved-search alerts created: ${alerts}`);
+        break;
+      }
+
+      case "load-redactions":
+        await loadRedactions({ dataSetIds: config.dataSetIds });
+        break;
+
+      case "load-tables":
+        await loadTables({ dataSetIds: config.dataSetIds });
         break;
 
       case "extract-connections":
@@ -246,6 +322,16 @@ async function runStage(stage: string, config: PipelineConfig): Promise<void> {
         await updateDocumentCounts();
         break;
 
+      case "network-analytics": {
+        const summaries = await storage.refreshNetworkAnalytics();
+        for (const s of summaries) {
+          console.log(
+            `Network analytics (${s.graph}): ${s.nodeCount} nodes, ${s.communityCount} communities, modularity ${s.modularity.toFixed(3)}`,
+          );
+        }
+        break;
+      }
+
       case "dedup-persons":
         await deduplicatePersonsInDB({
           dryRun: config.dryRun,
@@ -253,6 +339,26 @@ async function runStage(stage: string, config: PipelineConfig): Promise<void> {
         });
         break;
 
+      case "extract-mentions":
+        await extractMentions({ batchSize: config.batchSize });
+        break;
+
+      case "load-emails":
+        await loadEmails({ batchSize: config.batchSize });
+        break;
+
+      case "load-flights":
+        await loadFlights();
+        break;
+
+      case "load-locations":
+        await loadLocations();
+        break;
+
+      case "load-event-sources":
+        await loadEventSources();
+        break;
+
       case "dedup-connections":
         await deduplicateConnections();
         break;
@@ -265,6 +371,10 @@ async function runStage(stage: string, config: PipelineConfig): Promise<void> {
         await backfillConnectionDocs();
         break;
 
+      case "backfill-event-dates":
+        await backfillEventDates();
+        break;
+
       case "backfill-entities":
         await backfillEntities({
           budget: config.budget,
@@ -329,6 +439,14 @@ async function main() {
       config.dryRun = true;
     } else if (arg === "--schema-version" && args[i + 1]) {
       config.schemaVersion = parseInt(args[++i], 10);
+    } else if (arg === "--promote" && args[i + 1]) {
+      config.promote = [...(config.promote ?? []), ...args[++i].split(",")];
+    } else if (arg === "--direct") {
+      config.direct = true;
+    } else if (arg === "--resume" && args[i + 1]) {
+      config.resumeRunId = parseInt(args[++i], 10);
+    } else if (arg === "--worker") {
+      config.worker = true;
     } else if (arg === "all") {
       config.stages = [...STAGES];
     } else if (arg === "quick") {
@@ -371,14 +489,91 @@ async function main() {
     }
   }
 
+  if (!fs.existsSync(DATA_DIR)) fs.mkdirSync(DATA_DIR, { recursive: true });
+
+  if (config.resumeRunId) {
+    await storage.expirePipelineLeases();
+    const run = await storage.resumePipelineRun(config.resumeRunId);
+    if (!run) {
+      console.error(`Pipeline run #${config.resumeRunId} not found.`);
+      process.exitCode = 1;
+      return;
+    }
+    console.log(`\nResuming pipeline run #${run.id}: ${run.stages.join(" → ")}\n`);
+    await workRuns(run.id);
+    return;
+  }
+  if (config.worker) {
+    await workRuns();
+    return;
+  }
+
   if (config.stages.length === 0) {
     console.error("No stages specified.");
     printUsage();
     return;
   }
 
-  if (!fs.existsSync(DATA_DIR)) fs.mkdirSync(DATA_DIR, { recursive: true });
+  // Centrality and communities depend on the counts/connections update-counts settles
+  const countsIndex = config.stages.indexOf("update-counts");
+  if (countsIndex >= 0 && !config.stages.includes("network-analytics")) {
+    config.stages.splice(countsIndex + 1, 0, "network-analytics");
+  }
+
+  if (config.direct) {
+    await runDirect(config);
+    return;
+  }
+
+  const stages = orderStages(config.stages);
+  const options = { ...config, stages: undefined, direct: undefined };
+  const run = await storage.createPipelineRun(stages, options, planJobs(stages, config.dataSetIds ?? DATA_SET_IDS));
+  console.log(`\nStarted pipeline run #${run.id} with stages: ${stages.join(" → ")}`);
+  console.log(`Resume it after an interruption with --resume ${run.id}\n`);
+  await workRuns(run.id);
+}
+
+/** Run options of each run, as stored when it was started */
+const runConfigs = new Map<number, PipelineConfig>();
+
+async function runJob(job: PipelineJob): Promise<void> {
+  let runConfig = runConfigs.get(job.runId!);
+  if (!runConfig) {
+    const run = await storage.getPipelineRunProgress(job.runId!);
+    if (!run) throw new Error(`Pipeline run #${job.runId} not found`);
+    runConfig = { ...(run.config as Omit<PipelineConfig, "stages">), stages: run.stages };
+    runConfigs.set(job.runId!, runConfig);
+  }
+  const metadata = (job.metadata ?? {}) as Partial<PipelineConfig>;
+  await runStage(job.jobType, { ...runConfig, ...metadata });
+}
+
+/** Work one run, or every open run, then print per-stage progress of the runs worked on. */
+async function workRuns(runId?: number): Promise<void> {
+  const pipelineStart = Date.now();
+  await runPipelineWorker({ runId, runJob });
+  const totalElapsed = ((Date.now() - pipelineStart) / 1000).toFixed(1);
+
+  const runIds = runId ? [runId] : Array.from(runConfigs.keys());
+  const runs = await Promise.all(runIds.map((id) => storage.getPipelineRunProgress(id)));
+  console.log(`\n${"=".repeat(60)}`);
+  console.log("PIPELINE COMPLETE");
+  console.log(`${"=".repeat(60)}`);
+  console.log(`Total time: ${totalElapsed}s\n`);
+  for (const run of runs) {
+    if (!run) continue;
+    console.log(`Run #${run.id}: ${run.status}`);
+    for (const s of run.stageProgress) {
+      const icon = s.completed === s.total ? "[OK]" : s.failed > 0 ? "[FAIL]" : "[..]";
+      const blocked = s.blocked > 0 ? `, ${s.blocked} blocked` : "";
+      console.log(`  ${icon} ${s.stage}: ${s.completed}/${s.total} completed, ${s.failed} failed${blocked}`);
+    }
+  }
+  console.log("");
+}
 
+/** The stages in order in this process, stopping at the first failure. */
+async function runDirect(config: PipelineConfig): Promise<void> {
   const pipelineStart = Date.now();
   console.log(
     `\nStarting pipeline with stages: ${config.stages.join(" → ")}\n`,
@@ -3,7 +3,8 @@ import * as cheerio from "cheerio";
 import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
-import OpenAI from "openai";
+import { assertWithinBudget, recordAIUsage } from "../../server/budget";
+import { getClient, getModelConfig, isModelAvailable } from "../../server/chat/models";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -14,21 +15,10 @@ const PERSONS_FILE = path.join(DATA_DIR, "persons-raw.json");
 const WIKIPEDIA_URL = "https://en.wikipedia.org/wiki/Prominent_individuals_mentioned_in_the_Epstein_files";
 const EPSTEIN_FILES_URL = "https://en.wikipedia.org/wiki/Epstein_files";
 
-const DEEPSEEK_MODEL = "deepseek-chat";
+/** Model registry id (server/chat/models.ts) */
+const CLASSIFY_MODEL_ID = "deepseek-chat";
 const CLASSIFY_BATCH_SIZE = 25;
 
-let _deepseek: OpenAI | null = null;
-function getDeepSeek(): OpenAI | null {
-  if (!process.env.DEEPSEEK_API_KEY) return null;
-  if (!_deepseek) {
-    _deepseek = new OpenAI({
-      baseURL: "https://api.deepseek.com",
-      apiKey: process.env.DEEPSEEK_API_KEY,
-    });
-  }
-  return _deepseek;
-}
-
 export interface RawPerson {
   name: string;
   description: string;
@@ -352,16 +342,18 @@ interface AIClassification {
 }
 
 async function classifyWithAI(persons: RawPerson[]): Promise<RawPerson[]> {
-  const client = getDeepSeek();
-  if (!client) {
-    console.log("  No DEEPSEEK_API_KEY — using regex classification fallback");
+  if (!isModelAvailable(CLASSIFY_MODEL_ID)) {
+    console.log(`  ${CLASSIFY_MODEL_ID} not available — using regex classification fallback`);
     return persons;
   }
+  const client = getClient(CLASSIFY_MODEL_ID);
+  const config = getModelConfig(CLASSIFY_MODEL_ID);
 
-  console.log(`\nClassifying ${persons.length} persons with DeepSeek AI...`);
+  console.log(`\nClassifying ${persons.length} persons with ${config.label}...`);
   const classified = [...persons];
   const nameToIndex = new Map<string, number>();
   classified.forEach((p, i) => nameToIndex.set(p.name.toLowerCase(), i));
+  const usageContext = { jobType: "scrape-wikipedia", model: config.id };
 
   for (let i = 0; i < persons.length; i += CLASSIFY_BATCH_SIZE) {
     const batch = persons.slice(i, i + CLASSIFY_BATCH_SIZE);
@@ -374,16 +366,19 @@ async function classifyWithAI(persons: RawPerson[]): Promise<RawPerson[]> {
       .join("\n");
 
     try {
-      const response = await client.chat.completions.create({
-        model: DEEPSEEK_MODEL,
+      // An exhausted budget policy falls through to the regex fallback below
+      await assertWithinBudget(usageContext);
+      const response = await client.complete({
+        model: config.model,
         messages: [
           { role: "system", content: CLASSIFY_SYSTEM_PROMPT },
           { role: "user", content: `Classify these individuals. Use the description to determine their role in the Epstein case.\n\n${userMessage}` },
         ],
         temperature: 0.1,
       });
+      await recordAIUsage(usageContext, response);
 
-      const content = response.choices[0]?.message?.content?.trim();
+      const content = response.content.trim();
       if (!content) {
         console.log(`    ⚠️ Empty response — keeping regex classifications for this batch`);
         continue;
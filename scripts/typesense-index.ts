@@ -6,6 +6,7 @@
  *   npx tsx scripts/typesense-index.ts --start-from=2500000   # resume from ID
  *   npx tsx scripts/typesense-index.ts --dry-run               # validate without writing
  *   npx tsx scripts/typesense-index.ts --collection=persons    # index persons table
+ *   npx tsx scripts/typesense-index.ts --collection=page_chunks # embed page chunks for semantic search
  */
 import "dotenv/config";
 import Typesense from "typesense";
@@ -13,11 +14,15 @@ import pg from "pg";
 import {
   COLLECTION_NAME, COLLECTION_SCHEMA,
   PERSONS_COLLECTION, PERSONS_SCHEMA,
+  CHUNKS_COLLECTION, CHUNKS_SCHEMA, EMBEDDING_MODEL,
   DOCUMENT_PAGE_SYNONYMS, PERSONS_SYNONYMS,
   upsertSynonyms, upsertOneWaySynonyms, buildAliasSynonyms,
 } from "../server/typesense";
+import { chunkPageText } from "../server/semantic-search";
 
 const BATCH_SIZE = 5000;
+// Typesense embeds every chunk on import, on its own CPU, so chunk batches stay small
+const CHUNK_BATCH_SIZE = 250;
 const LOG_EVERY = 50_000;
 
 interface RawRow {
@@ -244,6 +249,106 @@ async function indexDocumentPages(
   return failed;
 }
 
+async function indexPageChunks(
+  pool: pg.Pool,
+  tsClient: InstanceType<typeof Typesense.Client>,
+  startFrom: number,
+  dryRun: boolean,
+  r2Configured: boolean,
+) {
+  // Drop and recreate collection (unless resuming)
+  if (startFrom === 0 && !dryRun) {
+    try {
+      await tsClient.collections(CHUNKS_COLLECTION).delete();
+      console.log(`Dropped existing collection: ${CHUNKS_COLLECTION}`);
+    } catch {
+      // Collection may not exist
+    }
+    await tsClient.collections().create(CHUNKS_SCHEMA);
+    console.log(`Created collection: ${CHUNKS_COLLECTION}`);
+  }
+
+  const startTime = Date.now();
+  let cursor = startFrom;
+  let pages = 0;
+  let indexed = 0;
+  let failed = 0;
+  let lastLogAt = 0;
+
+  const query = `
+    SELECT dp.id, dp.document_id, dp.page_number, dp.content, dp.page_type,
+           d.title, d.document_type, d.data_set, d.r2_key, d.file_size_bytes
+    FROM document_pages dp
+    JOIN documents d ON d.id = dp.document_id
+    WHERE dp.id > $1
+    ORDER BY dp.id ASC
+    LIMIT $2
+  `;
+
+  while (true) {
+    const { rows } = await pool.query<RawRow>(query, [cursor, CHUNK_BATCH_SIZE]);
+    if (rows.length === 0) break;
+
+    const docs = rows.flatMap((row) =>
+      chunkPageText(row.content || "").map((content, i) => ({
+        id: `pg_${row.id}_${i}`,
+        pg_id: row.id,
+        document_id: row.document_id,
+        page_number: row.page_number,
+        chunk_index: i,
+        content,
+        title: row.title || "",
+        document_type: row.document_type || "",
+        data_set: row.data_set || undefined,
+        page_type: row.page_type || undefined,
+        is_viewable: isViewable(row, r2Configured),
+      })),
+    );
+
+    if (!dryRun && docs.length > 0) {
+      const results = await tsClient
+        .collections(CHUNKS_COLLECTION)
+        .documents()
+        .import(docs, { action: "upsert" });
+
+      const failures = results.filter((r) => !r.success);
+      failed += failures.length;
+      indexed += docs.length - failures.length;
+
+      if (failures.length > 0) {
+        console.warn(
+          `  ${failures.length} failures in batch starting at id=${cursor}`,
+        );
+        for (const f of failures.slice(0, 3)) {
+          console.warn(`    Error: ${(f as any).error}`);
+        }
+      }
+    } else {
+      indexed += docs.length;
+    }
+
+    pages += rows.length;
+    cursor = rows[rows.length - 1].id;
+
+    if (indexed - lastLogAt >= LOG_EVERY / 10) {
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+      console.log(
+        `  ${indexed.toLocaleString()} chunks from ${pages.toLocaleString()} pages (cursor=${cursor}, ${elapsed}s elapsed)`,
+      );
+      lastLogAt = indexed;
+    }
+  }
+
+  const totalElapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(`\nDone!`);
+  console.log(`  Pages:   ${pages.toLocaleString()}`);
+  console.log(`  Chunks:  ${indexed.toLocaleString()}`);
+  console.log(`  Failed:  ${failed.toLocaleString()}`);
+  console.log(`  Time:    ${totalElapsed}s`);
+
+  return failed;
+}
+
 async function main() {
   const args = process.argv.slice(2);
   const startFrom = parseInt(
@@ -303,6 +408,9 @@ async function main() {
   if (collection === "persons") {
     console.log("Indexing persons collection...");
     failed = await indexPersons(pool, tsClient, dryRun);
+  } else if (collection === CHUNKS_COLLECTION) {
+    console.log(`Indexing ${CHUNKS_COLLECTION} collection (embedding model ${EMBEDDING_MODEL})...`);
+    failed = await indexPageChunks(pool, tsClient, startFrom, dryRun, r2Configured);
   } else {
     console.log("Indexing document_pages collection...");
     failed = await indexDocumentPages(pool, tsClient, startFrom, dryRun, r2Configured);
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import type { AIAnalysisVersion } from "@shared/schema";
+import {
+  buildAnalysisVersions,
+  diffAnalysisVersions,
+  parseVersionsQuery,
+  summarizeAnalysisVersion,
+  UnknownVersionError,
+} from "../ai-analysis-versions";
+
+function version(n: number, overrides: Partial<AIAnalysisVersion> = {}): AIAnalysisVersion {
+  return {
+    id: n,
+    fileName: "EFTA00001234.pdf",
+    version: n,
+    dataSet: "9",
+    documentType: "deposition",
+    dateOriginal: null,
+    summary: null,
+    tier: 1,
+    model: "deepseek-chat",
+    schemaVersion: 2,
+    costCents: 0.35,
+    inputTokens: 1000,
+    outputTokens: 200,
+    persons: [],
+    connectionsData: [],
+    events: [],
+    locations: [],
+    keyFacts: [],
+    entities: [],
+    analyzedAt: new Date("2026-01-0" + n + "T00:00:00Z"),
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("diffAnalysisVersions", () => {
+  it("reports persons, connections, events and key facts added and removed", () => {
+    const before = version(1, {
+      persons: [{ name: "Jeffrey Epstein" }, { name: "Jean-Luc Brunel" }],
+      connectionsData: [{ person1: "Jeffrey Epstein", person2: "Jean-Luc Brunel", relationshipType: "business" }],
+      events: [{ date: "1997-03-01", title: "Flight to St. Thomas" }],
+      keyFacts: ["Deposition taken in New York"],
+    });
+    const after = version(2, {
+      persons: [{ name: "Jeffrey Epstein" }, { name: "Ghislaine Maxwell" }],
+      connectionsData: [{ person1: "Ghislaine Maxwell", person2: "Jeffrey Epstein", relationshipType: "associate" }],
+      events: [{ date: "1997-03-01", title: "Flight to St. Thomas" }, { date: "2005-06-01", title: "Police investigation opened" }],
+      keyFacts: ["Deposition taken in New York"],
+    });
+
+    const diff = diffAnalysisVersions(before, after);
+
+    expect(diff.from).toBe(1);
+    expect(diff.to).toBe(2);
+    expect(diff.persons).toEqual({ added: [{ name: "Ghislaine Maxwell" }], removed: [{ name: "Jean-Luc Brunel" }] });
+    expect(diff.connections.added).toHaveLength(1);
+    expect(diff.connections.removed).toHaveLength(1);
+    expect(diff.events).toEqual({ added: [{ date: "2005-06-01", title: "Police investigation opened" }], removed: [] });
+    expect(diff.keyFacts).toEqual({ added: [], removed: [] });
+  });
+
+  it("ignores case, punctuation and the order of a connection's persons", () => {
+    const before = version(1, {
+      persons: [{ name: "Ghislaine Maxwell" }],
+      connectionsData: [{ person1: "Jeffrey Epstein", person2: "Ghislaine Maxwell", type: "associate" }],
+      keyFacts: ["Flew to St. Thomas."],
+    });
+    const after = version(2, {
+      persons: [{ name: "ghislaine  maxwell" }, { name: "Ghislaine Maxwell" }],
+      connectionsData: [{ person1: "Ghislaine Maxwell", person2: "Jeffrey Epstein", relationshipType: "Associate" }],
+      keyFacts: ["flew to St Thomas"],
+    });
+
+    const diff = diffAnalysisVersions(before, after);
+
+    expect(diff.persons).toEqual({ added: [], removed: [] });
+    expect(diff.connections).toEqual({ added: [], removed: [] });
+    expect(diff.keyFacts).toEqual({ added: [], removed: [] });
+  });
+
+  it("treats missing lists as empty", () => {
+    const diff = diffAnalysisVersions(version(1, { persons: null, keyFacts: null }), version(2, { keyFacts: ["New fact"] }));
+    expect(diff.keyFacts.added).toEqual(["New fact"]);
+    expect(diff.persons).toEqual({ added: [], removed: [] });
+  });
+});
+
+describe("summarizeAnalysisVersion", () => {
+  it("counts the lists, keeps the exact cost and marks the current version", () => {
+    const row = version(2, { persons: [{ name: "A" }, { name: "B" }], keyFacts: ["x"] });
+    expect(summarizeAnalysisVersion(row, 2)).toMatchObject({
+      version: 2,
+      personCount: 2,
+      connectionCount: 0,
+      keyFactCount: 1,
+      costCents: 0.35,
+      analyzedAt: "2026-01-02T00:00:00.000Z",
+      current: true,
+    });
+    expect(summarizeAnalysisVersion(row, 1).current).toBe(false);
+  });
+});
+
+describe("parseVersionsQuery", () => {
+  it("accepts positive versions and omitted ones", () => {
+    expect(parseVersionsQuery({})).toEqual({ ok: true, options: {} });
+    expect(parseVersionsQuery({ from: "1", to: "3" })).toEqual({ ok: true, options: { from: 1, to: 3 } });
+    expect(parseVersionsQuery({ to: "" })).toEqual({ ok: true, options: {} });
+  });
+
+  it("rejects anything else", () => {
+    for (const query of [{ from: "0" }, { to: "-1" }, { from: "1.5" }, { from: "abc" }, { to: ["1", "2"] }]) {
+      expect(parseVersionsQuery(query).ok).toBe(false);
+    }
+  });
+});
+
+describe("buildAnalysisVersions", () => {
+  const rows = [version(1), version(3), version(2)];
+
+  it("lists versions newest first and diffs the newest against the current one", () => {
+    const result = buildAnalysisVersions("EFTA00001234.pdf", 1, rows);
+    expect(result.versions.map((v) => v.version)).toEqual([3, 2, 1]);
+    expect(result.diff).toMatchObject({ from: 1, to: 3 });
+  });
+
+  it("diffs against the previous version when the newest is current", () => {
+    expect(buildAnalysisVersions("EFTA00001234.pdf", 3, rows).diff).toMatchObject({ from: 2, to: 3 });
+  });
+
+  it("has no diff for a single version", () => {
+    expect(buildAnalysisVersions("EFTA00001234.pdf", 1, [version(1)]).diff).toBeNull();
+  });
+
+  it("diffs the requested versions, defaulting to the newest and its predecessor", () => {
+    expect(buildAnalysisVersions("f", 3, rows, { from: 1, to: 2 }).diff).toMatchObject({ from: 1, to: 2 });
+    expect(buildAnalysisVersions("f", 3, rows, { from: 1 }).diff).toMatchObject({ from: 1, to: 3 });
+    expect(buildAnalysisVersions("f", 3, rows, { to: 2 }).diff).toMatchObject({ from: 1, to: 2 });
+    expect(buildAnalysisVersions("f", 3, rows, { to: 1 }).diff).toBeNull();
+  });
+
+  it("throws UnknownVersionError for a version the file doesn't have", () => {
+    expect(() => buildAnalysisVersions("f", 3, rows, { from: 7 })).toThrow(UnknownVersionError);
+    expect(() => buildAnalysisVersions("f", 3, rows, { to: 9 })).toThrow("Unknown analysis version 9");
+  });
+});
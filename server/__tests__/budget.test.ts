@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { BudgetPolicy } from "@shared/schema";
+
+const mockInsertValues = vi.fn();
+
+vi.mock("../db", () => ({
+  db: { insert: () => ({ values: (...args: any[]) => mockInsertValues(...args) }) },
+}));
+
+vi.mock("../storage", () => ({
+  storage: { getBudgetPolicyUsage: vi.fn() },
+}));
+
+import {
+  assertWithinBudget,
+  budgetPolicyStatus,
+  BudgetExceededError,
+  exceededWindow,
+  policyMatches,
+  recordAIUsage,
+} from "../budget";
+import { storage } from "../storage";
+
+const mockedStorage = vi.mocked(storage);
+
+function makePolicy(overrides: Partial<BudgetPolicy> = {}): BudgetPolicy {
+  return {
+    id: 1,
+    name: "Analysis",
+    jobType: null,
+    model: null,
+    dataSet: null,
+    dailyCapCents: null,
+    monthlyCapCents: null,
+    softLimitPercent: 80,
+    enabled: true,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+const analysis = { jobType: "ai_analysis", model: "deepseek-chat", dataSet: "9" };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("policyMatches", () => {
+  it("treats null columns as matching anything", () => {
+    expect(policyMatches(makePolicy(), analysis)).toBe(true);
+  });
+
+  it("matches on job type, model and data set", () => {
+    expect(policyMatches(makePolicy({ jobType: "ai_analysis", model: "deepseek-chat", dataSet: "9" }), analysis)).toBe(true);
+    expect(policyMatches(makePolicy({ jobType: "chat" }), analysis)).toBe(false);
+    expect(policyMatches(makePolicy({ model: "gpt-4o-mini" }), analysis)).toBe(false);
+    expect(policyMatches(makePolicy({ dataSet: "1" }), analysis)).toBe(false);
+  });
+
+  it("does not apply a data set policy to calls outside any data set", () => {
+    expect(policyMatches(makePolicy({ dataSet: "9" }), { jobType: "chat", model: "deepseek-chat" })).toBe(false);
+  });
+
+  it("ignores disabled policies", () => {
+    expect(policyMatches(makePolicy({ enabled: false }), analysis)).toBe(false);
+  });
+});
+
+describe("budgetPolicyStatus", () => {
+  it("reports headroom per window", () => {
+    const status = budgetPolicyStatus(makePolicy({ dailyCapCents: 100, monthlyCapCents: 1000 }), 25.5, 300.125);
+    expect(status.remainingDailyCents).toBe(74.5);
+    expect(status.remainingMonthlyCents).toBe(699.87);
+    expect(status.state).toBe("ok");
+    expect(exceededWindow(status)).toBeNull();
+  });
+
+  it("has no remaining figure for a window without a cap", () => {
+    const status = budgetPolicyStatus(makePolicy({ monthlyCapCents: 500 }), 10, 10);
+    expect(status.remainingDailyCents).toBeNull();
+  });
+
+  it("warns past the soft limit", () => {
+    const status = budgetPolicyStatus(makePolicy({ monthlyCapCents: 500, softLimitPercent: 90 }), 0, 450);
+    expect(status.state).toBe("warning");
+  });
+
+  it("is exceeded once spend reaches a cap", () => {
+    const status = budgetPolicyStatus(makePolicy({ dailyCapCents: 100, monthlyCapCents: 500 }), 20, 512);
+    expect(status.state).toBe("exceeded");
+    expect(status.remainingMonthlyCents).toBe(0);
+    expect(exceededWindow(status)).toBe("monthly");
+  });
+
+  it("blocks everything with a zero cap", () => {
+    expect(exceededWindow(budgetPolicyStatus(makePolicy({ dailyCapCents: 0 }), 0, 0))).toBe("daily");
+  });
+});
+
+describe("assertWithinBudget", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("throws for an exhausted matching policy", async () => {
+    mockedStorage.getBudgetPolicyUsage.mockResolvedValue([
+      { policy: makePolicy({ name: "DS9", dataSet: "9", dailyCapCents: 50 }), spentTodayCents: 50, spentMonthCents: 50 },
+    ]);
+
+    const error = await assertWithinBudget(analysis).catch((err) => err);
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.window).toBe("daily");
+    expect(error.policy.name).toBe("DS9");
+  });
+
+  it("ignores exhausted policies that don't match", async () => {
+    mockedStorage.getBudgetPolicyUsage.mockResolvedValue([
+      { policy: makePolicy({ jobType: "chat", dailyCapCents: 50 }), spentTodayCents: 80, spentMonthCents: 80 },
+    ]);
+
+    await expect(assertWithinBudget(analysis)).resolves.toBeUndefined();
+  });
+
+  it("warns once per policy and day past the soft limit", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockedStorage.getBudgetPolicyUsage.mockResolvedValue([
+      { policy: makePolicy({ id: 7, monthlyCapCents: 100 }), spentTodayCents: 5, spentMonthCents: 85 },
+    ]);
+
+    await assertWithinBudget(analysis);
+    await assertWithinBudget(analysis);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain("80% soft limit");
+  });
+});
+
+describe("recordAIUsage", () => {
+  it("records the call's cost against its job, model and data set", async () => {
+    const cost = await recordAIUsage({ ...analysis, documentId: 42 }, { inputTokens: 1_000_000, outputTokens: 1_000_000 });
+
+    expect(cost).toBeCloseTo(1.37);
+    expect(mockInsertValues).toHaveBeenCalledWith(expect.objectContaining({
+      model: "deepseek-chat",
+      jobType: "ai_analysis",
+      dataSet: "9",
+      documentId: 42,
+      costCents: cost,
+    }));
+  });
+
+  it("skips calls that used no tokens", async () => {
+    await recordAIUsage(analysis, { inputTokens: 0, outputTokens: 0 });
+    expect(mockInsertValues).not.toHaveBeenCalled();
+  });
+});
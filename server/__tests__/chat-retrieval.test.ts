@@ -0,0 +1,209 @@
+import { describe, it, expect } from "vitest";
+import fixture from "./fixtures/chat-retrieval.json";
+import {
+  excerptPage,
+  expandQuery,
+  packPages,
+  reciprocalRankFusion,
+  rerankByCoverage,
+  retrievePages,
+  type ExpandedQuery,
+  type PageKey,
+  type PageRetriever,
+  type RankedPage,
+} from "../chat/retrieval";
+
+type FixturePage = (typeof fixture.pages)[number];
+
+const STOP = new Set(["the", "to", "on", "of", "a", "in", "and", "was", "were", "what", "did", "who", "for", "there", "when", "made"]);
+
+function words(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .map((t) => (t.length > 3 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t))
+    .filter((t) => !STOP.has(t));
+}
+
+const toRetrieved = (p: FixturePage) => ({ documentId: p.documentId, pageNumber: p.pageNumber, title: p.title, snippet: p.content });
+
+// In-memory stand-ins for the production retrievers, over the fixture pages
+
+const keywordRetriever: PageRetriever = {
+  name: "keyword",
+  async retrieve(query, limit) {
+    const terms = new Set(words(query.terms.join(" ")));
+    return fixture.pages
+      .map((p) => ({ p, score: words(p.content).filter((w) => terms.has(w)).length }))
+      .filter((x) => x.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map((x) => toRetrieved(x.p));
+  },
+};
+
+// Bag-of-concepts cosine: words in one fixture concept group share a dimension, like neighbours in embedding space
+const conceptOf = new Map(fixture.concepts.flatMap((group, i) => group.map((w) => [w, `c${i}`] as const)));
+function conceptVector(text: string): Map<string, number> {
+  const vector = new Map<string, number>();
+  for (const w of words(text)) {
+    const dim = conceptOf.get(w) ?? w;
+    vector.set(dim, (vector.get(dim) ?? 0) + 1);
+  }
+  return vector;
+}
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  a.forEach((v, k) => { dot += v * (b.get(k) ?? 0); });
+  const norm = (m: Map<string, number>) => Math.sqrt(Array.from(m.values()).reduce((s, v) => s + v * v, 0));
+  return dot === 0 ? 0 : dot / (norm(a) * norm(b));
+}
+
+const semanticRetriever: PageRetriever = {
+  name: "semantic",
+  async retrieve(query, limit) {
+    const q = conceptVector(query.question);
+    return fixture.pages
+      .map((p) => ({ p, score: cosine(q, conceptVector(p.content)) }))
+      .filter((x) => x.score > 0.1)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map((x) => toRetrieved(x.p));
+  },
+};
+
+const personRetriever: PageRetriever = {
+  name: "person",
+  async retrieve(query, limit) {
+    return fixture.pages
+      .map((p) => ({ p, count: p.persons.filter((id) => query.personIds.includes(id)).length }))
+      .filter((x) => x.count > 0)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, limit)
+      .map((x) => ({ ...toRetrieved(x.p), snippet: "" }));
+  },
+};
+
+async function loadPages(keys: PageKey[]) {
+  return fixture.pages.filter((p) => keys.some((k) => k.documentId === p.documentId && k.pageNumber === p.pageNumber));
+}
+
+function expand(question: string): ExpandedQuery {
+  const keywords = question.toLowerCase().split(/[^a-z0-9]+/).filter((w) => w.length > 1);
+  const matched = fixture.persons.filter((p) =>
+    [p.name, ...p.aliases].some((n) => n.toLowerCase().split(/[^a-z0-9]+/).some((part) => part.length > 2 && keywords.includes(part))));
+  return expandQuery(question, null, matched);
+}
+
+const BUDGET = 1_000;
+
+async function meanRecall(retrievers: PageRetriever[]): Promise<number> {
+  let total = 0;
+  for (const { question, expected } of fixture.questions) {
+    const { packed } = await retrievePages(expand(question), { retrievers, loadPages, budgetChars: BUDGET });
+    const found = expected.filter((e) => packed.some((p) => p.documentId === e.documentId && p.pageNumber === e.pageNumber));
+    total += found.length / expected.length;
+  }
+  return total / fixture.questions.length;
+}
+
+describe("retrieval recall on the fixture question set", () => {
+  it("finds the expected pages within the budget", async () => {
+    const recall = await meanRecall([keywordRetriever, semanticRetriever, personRetriever]);
+    expect(recall).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it("recalls more than keyword retrieval alone", async () => {
+    const hybrid = await meanRecall([keywordRetriever, semanticRetriever, personRetriever]);
+    const keywordOnly = await meanRecall([keywordRetriever]);
+    expect(hybrid).toBeGreaterThan(keywordOnly);
+  });
+
+  it("labels every packed page with its exact page and stays inside the budget", async () => {
+    const { contextText, packed } = await retrievePages(expand("Did Prince Andrew fly on the plane?"), {
+      retrievers: [keywordRetriever, semanticRetriever, personRetriever],
+      loadPages,
+      budgetChars: BUDGET,
+    });
+    expect(packed.length).toBeGreaterThan(0);
+    expect(contextText.length).toBeLessThanOrEqual(BUDGET);
+    for (const page of packed) {
+      expect(contextText).toContain(`[Doc #${page.documentId}, p. ${page.pageNumber}]`);
+    }
+    expect(packed).toContainEqual(expect.objectContaining({ documentId: 301, pageNumber: 4 }));
+  });
+
+  it("carries on when a retriever fails", async () => {
+    const failing: PageRetriever = { name: "semantic", retrieve: () => Promise.reject(new Error("down")) };
+    const { packed } = await retrievePages(expand("When was the island bought?"), {
+      retrievers: [keywordRetriever, failing],
+      loadPages,
+    });
+    expect(packed[0]).toMatchObject({ documentId: 205, pageNumber: 1 });
+  });
+});
+
+describe("expandQuery", () => {
+  it("adds matched persons' names and aliases to the terms", () => {
+    const query = expandQuery("Did Prince Andrew fly?", { searchTerms: ["fly"] }, [
+      { id: 3, name: "Prince Andrew", aliases: ["Duke of York", "prince andrew"] },
+    ]);
+    expect(query.terms).toEqual(["fly", "Prince Andrew", "Duke of York"]);
+    expect(query.keywords).toEqual(["prince", "andrew", "fly"]);
+    expect(query.personIds).toEqual([3]);
+  });
+});
+
+describe("reciprocalRankFusion", () => {
+  const page = (documentId: number, pageNumber = 1) => ({ documentId, pageNumber, title: `Doc ${documentId}`, snippet: "" });
+
+  it("ranks pages found by several retrievers above single-list leaders", () => {
+    const fused = reciprocalRankFusion([
+      { name: "keyword", pages: [page(1), page(2), page(3)] },
+      { name: "semantic", pages: [page(4), page(2)] },
+    ]);
+    expect(fused.map((p) => p.documentId)).toEqual([2, 1, 4, 3]);
+    expect(fused[0].retrievers).toEqual(["keyword", "semantic"]);
+    expect(fused[0].fusedScore).toBeCloseTo(1 / 62 + 1 / 62);
+  });
+
+  it("keeps pages of one document apart", () => {
+    const fused = reciprocalRankFusion([{ name: "keyword", pages: [page(1, 1), page(1, 2), page(1, 1)] }]);
+    expect(fused.map((p) => p.pageNumber)).toEqual([1, 2]);
+  });
+});
+
+describe("rerankByCoverage", () => {
+  it("moves the page covering the question's terms up", () => {
+    const query = expandQuery("island purchase", null, []);
+    const ranked = rerankByCoverage(query, [
+      { documentId: 1, pageNumber: 1, title: "a", snippet: "", fusedScore: 0.02, retrievers: ["keyword"], content: "The island." },
+      { documentId: 2, pageNumber: 1, title: "b", snippet: "", fusedScore: 0.015, retrievers: ["keyword"], content: "Purchase of the island in 1998." },
+    ]);
+    expect(ranked.map((p) => p.documentId)).toEqual([2, 1]);
+  });
+});
+
+describe("packPages", () => {
+  const query = expandQuery("zorro ranch", null, []);
+  const ranked = (documentId: number, content: string): RankedPage => ({
+    documentId, pageNumber: 1, title: `Doc ${documentId}`, snippet: "", fusedScore: 0, retrievers: ["keyword"], score: 0, content,
+  });
+
+  it("trims long pages to the window around the query terms", () => {
+    const filler = "lorem ipsum dolor ".repeat(400);
+    const text = excerptPage(`${filler} flight to the Zorro Ranch in New Mexico ${filler}`, query, 500);
+    expect(text.length).toBeLessThanOrEqual(500);
+    expect(text).toContain("Zorro Ranch");
+    expect(text.startsWith("…")).toBe(true);
+    expect(text.endsWith("…")).toBe(true);
+  });
+
+  it("skips a page that no longer fits for a later one", () => {
+    const { packed, contextText } = packPages(
+      [ranked(1, "x ".repeat(300)), ranked(2, "y ".repeat(300)), ranked(3, "short zorro page")],
+      query,
+      1_000,
+    );
+    expect(packed.map((p) => p.documentId)).toEqual([1, 3]);
+    expect(contextText.length).toBeLessThanOrEqual(1_000);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { lastDay, normalizeDate } from "../dates";
+
+describe("normalizeDate", () => {
+  it("reads ISO, US slashed and written-out dates", () => {
+    expect(normalizeDate("1997-03-01")).toBe("1997-03-01");
+    expect(normalizeDate("1997-03-01 00:00:00")).toBe("1997-03-01");
+    expect(normalizeDate("3/1/97")).toBe("1997-03-01");
+    expect(normalizeDate("03/01/2002")).toBe("2002-03-01");
+    expect(normalizeDate("March 1, 1997")).toBe("1997-03-01");
+    expect(normalizeDate("1 Mar 1997")).toBe("1997-03-01");
+  });
+
+  it("keeps partial dates partial and rejects the rest", () => {
+    expect(normalizeDate("1997-03")).toBe("1997-03");
+    expect(normalizeDate("Sept 1999")).toBe("1999-09");
+    expect(normalizeDate("1999")).toBe("1999");
+    expect(normalizeDate("13/45/97")).toBeNull();
+    expect(normalizeDate("unknown")).toBeNull();
+    expect(normalizeDate("")).toBeNull();
+  });
+
+  it("rejects days the month does not have", () => {
+    expect(normalizeDate("2004-02-30")).toBeNull();
+    expect(normalizeDate("April 31, 1999")).toBeNull();
+    expect(normalizeDate("31 Jun 2001")).toBeNull();
+    expect(normalizeDate("2/29/01")).toBeNull();
+    expect(normalizeDate("2/29/04")).toBe("2004-02-29");
+    expect(normalizeDate("2004-12-31")).toBe("2004-12-31");
+  });
+});
+
+describe("lastDay", () => {
+  it("knows month lengths and leap years", () => {
+    expect(lastDay(1999, 4)).toBe(30);
+    expect(lastDay(2000, 2)).toBe(29);
+    expect(lastDay(1900, 2)).toBe(28);
+    expect(lastDay(2003, 12)).toBe(31);
+  });
+});
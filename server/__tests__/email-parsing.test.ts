@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import {
+  createParticipantResolver,
+  normalizeSubject,
+  parseAddressList,
+  parseEmail,
+  parseEmailSource,
+  threadEmails,
+} from "../email-parsing";
+
+const RAW = [
+  "Message-ID: <reply-1@example.com>",
+  "In-Reply-To: <root@example.com>",
+  "References: <root@example.com>",
+  "From: \"Epstein, Jeffrey\" <JEEVACATION@gmail.com>",
+  "To: Ghislaine Maxwell <gmax@example.com>, someone@example.org",
+  "Cc: =?utf-8?B?Sm9zw6k=?= <jose@example.com>",
+  "Subject: Re: Dinner",
+  "  on Friday",
+  "Date: Tue, 5 Mar 2002 14:03:00 -0500 (EST)",
+  "Content-Type: text/plain; charset=utf-8",
+  "Content-Transfer-Encoding: quoted-printable",
+  "",
+  "See you th=",
+  "ere =E2=80=94 J",
+].join("\r\n");
+
+describe("parseEmail", () => {
+  it("parses headers, folded lines, encoded words and quoted-printable bodies", () => {
+    const email = parseEmail(RAW);
+    expect(email.messageId).toBe("reply-1@example.com");
+    expect(email.inReplyTo).toBe("root@example.com");
+    expect(email.from).toEqual({ name: "Epstein, Jeffrey", address: "jeevacation@gmail.com" });
+    expect(email.to.map((a) => a.address)).toEqual(["gmax@example.com", "someone@example.org"]);
+    expect(email.cc[0].name).toBe("José");
+    expect(email.subject).toBe("Re: Dinner on Friday");
+    expect(email.sentAt?.toISOString()).toBe("2002-03-05T19:03:00.000Z");
+    expect(email.body).toBe("See you there — J");
+  });
+
+  it("prefers the text/plain part of a multipart message", () => {
+    const raw = [
+      "From: a@example.com",
+      "To: b@example.com",
+      "Content-Type: multipart/alternative; boundary=\"XYZ\"",
+      "",
+      "--XYZ",
+      "Content-Type: text/html",
+      "",
+      "<p>html body</p>",
+      "--XYZ",
+      "Content-Type: text/plain",
+      "",
+      "plain body",
+      "--XYZ--",
+    ].join("\n");
+    expect(parseEmail(raw).body).toBe("plain body");
+  });
+});
+
+describe("parseAddressList", () => {
+  it("keeps Outlook's \"Last, First\" names when recipients are separated by semicolons", () => {
+    const list = parseAddressList("Maxwell, Ghislaine; Kellen, Sarah [mailto:sk@example.com]");
+    expect(list).toEqual([
+      { name: "Maxwell, Ghislaine", address: "" },
+      { name: "Kellen, Sarah", address: "sk@example.com" },
+    ]);
+  });
+});
+
+describe("parseEmailSource", () => {
+  it("splits mbox files into messages", () => {
+    const mbox = [
+      "From a@example.com Mon Jan  1 00:00:00 2001",
+      "From: a@example.com",
+      "Subject: One",
+      "",
+      ">From the desk of A",
+      "From b@example.com Mon Jan  1 00:00:00 2001",
+      "From: b@example.com",
+      "Subject: Two",
+      "",
+      "Body two",
+    ].join("\n");
+    const messages = parseEmailSource(mbox);
+    expect(messages.map((m) => m.subject)).toEqual(["One", "Two"]);
+    expect(messages[0].body).toBe("From the desk of A");
+  });
+
+  it("splits printed reply chains and reads Outlook's Sent header as the date", () => {
+    const text = [
+      "From: Jeffrey Epstein",
+      "Sent: Monday, March 4, 2002 9:15 AM",
+      "To: Ghislaine Maxwell",
+      "Subject: RE: Dinner",
+      "",
+      "Yes.",
+      "",
+      "-----Original Message-----",
+      "From: Ghislaine Maxwell",
+      "Sent: Sunday, March 3, 2002 8:00 PM",
+      "To: Jeffrey Epstein",
+      "Subject: Dinner",
+      "",
+      "Friday?",
+    ].join("\n");
+    const messages = parseEmailSource(text);
+    expect(messages).toHaveLength(2);
+    expect(messages[0].dateRaw).toBe("Monday, March 4, 2002 9:15 AM");
+    expect(messages[1].from?.name).toBe("Ghislaine Maxwell");
+    expect(messages[1].body).toBe("Friday?");
+  });
+
+  it("returns nothing for text without an email header block", () => {
+    expect(parseEmailSource("FLIGHT LOG\nFrom: Palm Beach\nTail N908JE")).toEqual([]);
+  });
+});
+
+describe("threadEmails", () => {
+  it("threads replies on their root and falls back to the subject without message ids", () => {
+    const threads = threadEmails([
+      { key: 1, messageId: "root@x", inReplyTo: null, references: [], subject: "Dinner" },
+      { key: 2, messageId: "r1@x", inReplyTo: "root@x", references: ["root@x"], subject: "Re: Dinner" },
+      { key: 3, messageId: "r2@x", inReplyTo: "r1@x", references: [], subject: "Re: Re: Dinner" },
+      { key: 4, messageId: null, inReplyTo: null, references: [], subject: "FW: dinner" },
+      { key: 5, messageId: null, inReplyTo: null, references: [], subject: "Flights" },
+      { key: 6, messageId: null, inReplyTo: null, references: [], subject: null },
+    ]);
+    expect(threads.get(1)).toBe("root@x");
+    expect(threads.get(2)).toBe("root@x");
+    expect(threads.get(3)).toBe("root@x");
+    expect(threads.get(4)).toBe("root@x");
+    expect(threads.get(5)).toBe("subject:flights");
+    expect(threads.get(6)).toBe("email:6");
+  });
+
+  it("normalizes reply and forward prefixes", () => {
+    expect(normalizeSubject("RE: Fwd:  Travel   plans")).toBe("travel plans");
+  });
+});
+
+describe("createParticipantResolver", () => {
+  const candidates = [
+    { id: 1, name: "Jeffrey Epstein", aliases: ["jeevacation@gmail.com"] },
+    { id: 2, name: "Ghislaine Maxwell", aliases: null },
+    { id: 3, name: "Sarah Kellen", aliases: null },
+  ];
+
+  it("links by address alias, display name, Last, First and first.last local part", () => {
+    const { resolve } = createParticipantResolver(candidates);
+    expect(resolve({ name: null, address: "jeevacation@gmail.com" })).toBe(1);
+    expect(resolve({ name: "Ghislaine Maxwell", address: "" })).toBe(2);
+    expect(resolve({ name: "Maxwell, Ghislaine", address: "" })).toBe(2);
+    expect(resolve({ name: null, address: "sarah.kellen@example.com" })).toBe(3);
+    expect(resolve({ name: "Ghislaine Maxwell's assistant", address: "" })).toBeNull();
+  });
+
+  it("remembers learned addresses", () => {
+    const { resolve, learn } = createParticipantResolver(candidates);
+    expect(resolve({ name: null, address: "gm@example.com" })).toBeNull();
+    learn({ name: "Ghislaine Maxwell", address: "gm@example.com" }, 2);
+    expect(resolve({ name: null, address: "gm@example.com" })).toBe(2);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { eventDateColumns, parseDateBound, parseEventDate } from "../event-dates";
+
+function range(raw: string) {
+  const parsed = parseEventDate(raw);
+  return parsed && [parsed.earliest, parsed.latest, parsed.precision];
+}
+
+describe("parseEventDate", () => {
+  it("reads exact dates at their own precision", () => {
+    expect(range("1999-03-15")).toEqual(["1999-03-15", "1999-03-15", "day"]);
+    expect(range("March 15, 2020")).toEqual(["2020-03-15", "2020-03-15", "day"]);
+    expect(range("2000-02")).toEqual(["2000-02-01", "2000-02-29", "month"]);
+    expect(range("1999")).toEqual(["1999-01-01", "1999-12-31", "year"]);
+  });
+
+  it("keeps the sort point and the original text", () => {
+    expect(parseEventDate("  circa   2002 ")).toEqual({
+      date: "2002", earliest: "2001-01-01", latest: "2003-12-31", precision: "approximate", original: "circa 2002",
+    });
+  });
+
+  it("widens approximate, seasonal and decade dates", () => {
+    expect(range("2004 (approximate)")).toEqual(["2003-01-01", "2005-12-31", "approximate"]);
+    expect(range("approximately March 1999")).toEqual(["1999-03-01", "1999-03-31", "approximate"]);
+    expect(range("spring 1999")).toEqual(["1999-03-01", "1999-05-31", "season"]);
+    expect(range("2016-summer")).toEqual(["2016-06-01", "2016-08-31", "season"]);
+    expect(range("winter 2003")).toEqual(["2002-12-01", "2003-02-28", "season"]);
+    expect(range("early 2003")).toEqual(["2003-01-01", "2003-04-30", "season"]);
+    expect(range("late 1990s")).toEqual(["1996-01-01", "1999-12-31", "decade"]);
+    expect(range("mid-1990s")).toEqual(["1993-01-01", "1996-12-31", "decade"]);
+  });
+
+  it("reads both ends of a range on their own", () => {
+    expect(range("2001-2003")).toEqual(["2001-01-01", "2003-12-31", "range"]);
+    expect(range("2019-05-28 to 2019-05-30")).toEqual(["2019-05-28", "2019-05-30", "range"]);
+    expect(range("March to June 1999")).toEqual(["1999-03-01", "1999-06-30", "range"]);
+    expect(range("March 3-5, 2004")).toEqual(["2004-03-03", "2004-03-05", "range"]);
+    expect(range("between 1999 and 2001")).toEqual(["1999-01-01", "2001-12-31", "range"]);
+    expect(range("late 1990s to early 2000s")).toEqual(["1996-01-01", "2003-12-31", "range"]);
+    expect(range("circa March 1999 to June 2000")).toEqual(["1999-03-01", "2000-06-30", "approximate"]);
+  });
+
+  it("falls back to the start or any plausible year", () => {
+    expect(range("2019-05-28 to present")).toEqual(["2019-05-28", "2019-05-28", "day"]);
+    expect(range("2002-06-2003")).toEqual(["2002-06-01", "2002-06-30", "month"]);
+    expect(range("Some time in 1996, perhaps")).toEqual(["1996-01-01", "1996-12-31", "year"]);
+    expect(parseEventDate("unknown")).toBeNull();
+    expect(parseEventDate(null)).toBeNull();
+  });
+
+  it("never reads an impossible day as a day", () => {
+    expect(range("2004-02-30")).toEqual(["2004-01-01", "2004-12-31", "year"]);
+    expect(range("April 31, 1999")).toEqual(["1999-01-01", "1999-12-31", "year"]);
+    expect(range("February 28-30, 2001")).toEqual(["2001-01-01", "2001-12-31", "year"]);
+    expect(range("2000-02-29")).toEqual(["2000-02-29", "2000-02-29", "day"]);
+  });
+
+  it("maps to timeline_events columns", () => {
+    expect(eventDateColumns(parseEventDate("spring 1999")!)).toEqual({
+      date: "1999", dateEarliest: "1999-03-01", dateLatest: "1999-05-31", datePrecision: "season", dateOriginal: "spring 1999",
+    });
+  });
+});
+
+describe("parseDateBound", () => {
+  it("accepts ISO dates at any precision", () => {
+    expect(parseDateBound("2001")).toEqual({ earliest: "2001-01-01", latest: "2001-12-31" });
+    expect(parseDateBound("2001-02")).toEqual({ earliest: "2001-02-01", latest: "2001-02-28" });
+    expect(parseDateBound("2001-02-03")).toEqual({ earliest: "2001-02-03", latest: "2001-02-03" });
+  });
+
+  it("rejects anything else", () => {
+    expect(parseDateBound("circa 2001")).toBeNull();
+    expect(parseDateBound("2001-13")).toBeNull();
+    expect(parseDateBound("2001-02-29")).toBeNull();
+    expect(parseDateBound("3/1/97")).toBeNull();
+  });
+});
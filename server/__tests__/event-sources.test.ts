@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  corroborationScore,
+  eventTokens,
+  findDuplicateGroups,
+  findSupportingExcerpt,
+  pickSurvivor,
+  sourceDatesDisagree,
+  titleSimilarity,
+  type DuplicateCandidate,
+} from "../event-sources";
+
+function candidate(id: number, title: string, earliest: string, latest = earliest, documentCount = 1): DuplicateCandidate {
+  return { id, title, earliest, latest, documentCount };
+}
+
+describe("titleSimilarity", () => {
+  it("compares content words, ignoring case, stop words and plurals", () => {
+    expect(eventTokens("The Flights to Paris")).toEqual(eventTokens("flight paris"));
+    expect(eventTokens("Flights to Paris")).toHaveLength(2);
+    expect(titleSimilarity("Epstein arrested in New York", "Arrest of Epstein in New York")).toBeCloseTo(0.6);
+    expect(titleSimilarity("Epstein flies to Paris", "Epstein flies to Paris")).toBe(1);
+    expect(titleSimilarity("Grand jury convened", "Property purchased")).toBe(0);
+    expect(titleSimilarity("", "Anything")).toBe(0);
+  });
+});
+
+describe("findDuplicateGroups", () => {
+  it("groups similar titles whose dates fall in the same window", () => {
+    const groups = findDuplicateGroups([
+      candidate(1, "Epstein flies to Paris with Maxwell", "2002-03-01", "2002-03-31"),
+      candidate(2, "Epstein flies to Paris with Maxwell", "2002-03-14", "2002-03-14", 2),
+      candidate(3, "Epstein flies to Paris with Maxwell", "2005-03-14"),
+      candidate(4, "Palm Beach police open investigation", "2002-03-14"),
+    ]);
+    expect(groups.map((g) => g.map((e) => e.id))).toEqual([[2, 1]]);
+  });
+
+  it("chains matches and allows a gap up to the window", () => {
+    const groups = findDuplicateGroups([
+      candidate(1, "Plea agreement signed in Florida", "2008-06-30"),
+      candidate(2, "Plea agreement signed", "2008-07-20"),
+      candidate(3, "Florida plea agreement signed", "2008-08-15"),
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].map((e) => e.id).sort()).toEqual([1, 2, 3]);
+  });
+});
+
+describe("pickSurvivor", () => {
+  it("prefers more documents, then the narrower date, then the older row", () => {
+    expect(pickSurvivor([candidate(1, "a", "2002-01-01", "2002-12-31", 1), candidate(2, "a", "2002-01-01", "2002-12-31", 3)]).id).toBe(2);
+    expect(pickSurvivor([candidate(1, "a", "2002-01-01", "2002-12-31"), candidate(2, "a", "2002-05-01", "2002-05-31")]).id).toBe(2);
+    expect(pickSurvivor([candidate(5, "a", "2002-05-01"), candidate(4, "a", "2002-05-01")]).id).toBe(4);
+  });
+});
+
+describe("findSupportingExcerpt", () => {
+  const pages = [
+    { pageNumber: 1, content: "Index of exhibits. Exhibit A: travel records." },
+    {
+      pageNumber: 2,
+      content: "The witness was asked about the trip. In March 2002 the aircraft flew from Teterboro to Paris with four passengers aboard. Nothing else was recorded.",
+    },
+  ];
+
+  it("returns the page and sentence with the most event terms", () => {
+    const match = findSupportingExcerpt(pages, { title: "Flight from Teterboro to Paris", description: "Aircraft carried passengers to Paris." });
+    expect(match).toMatchObject({ pageNumber: 2, excerpt: "In March 2002 the aircraft flew from Teterboro to Paris with four passengers aboard." });
+  });
+
+  it("returns null when no passage names the event", () => {
+    expect(findSupportingExcerpt(pages, { title: "Property purchase in New Mexico", description: null })).toBeNull();
+  });
+
+  it("shortens long passages", () => {
+    const long = `Teterboro Paris ${"word ".repeat(200)}`;
+    const match = findSupportingExcerpt([{ pageNumber: 1, content: long }], { title: "Teterboro to Paris" });
+    expect(match!.excerpt.length).toBeLessThanOrEqual(320);
+    expect(match!.excerpt.endsWith("…")).toBe(true);
+  });
+});
+
+describe("corroborationScore", () => {
+  it("counts distinct data sets", () => {
+    expect(corroborationScore(["1", "1", "9"])).toBe(2);
+    expect(corroborationScore(["1", null, null])).toBe(2);
+    expect(corroborationScore([])).toBe(0);
+  });
+});
+
+describe("sourceDatesDisagree", () => {
+  it("flags dates that cannot all hold", () => {
+    expect(sourceDatesDisagree(["2002-03-14", "March 2002", "circa 2002"])).toBe(false);
+    expect(sourceDatesDisagree(["2002-03-14", "2004"])).toBe(true);
+    expect(sourceDatesDisagree(["2002", null, "unknown"])).toBe(false);
+  });
+});
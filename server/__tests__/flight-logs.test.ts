@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import {
+  findFlightColumns,
+  flightFromEvent,
+  flightsFromTable,
+  mergeFlights,
+  normalizeAirport,
+  parseFlightsQuery,
+  splitPassengerNames,
+} from "../flight-logs";
+
+describe("normalizeAirport", () => {
+  it("upper-cases codes and maps known names", () => {
+    expect(normalizeAirport("teb")).toBe("TEB");
+    expect(normalizeAirport("KPBI")).toBe("PBI");
+    expect(normalizeAirport("Teterboro Airport")).toBe("TEB");
+    expect(normalizeAirport("St. Thomas")).toBe("STT");
+    expect(normalizeAirport("  Little   Rock ")).toBe("Little Rock");
+    expect(normalizeAirport(" ")).toBeNull();
+  });
+});
+
+describe("splitPassengerNames", () => {
+  it("splits on separators and 'and'", () => {
+    expect(splitPassengerNames("JE, GM; Sarah Kellen and Nadia / 1 female")).toEqual([
+      "JE", "GM", "Sarah Kellen", "Nadia", "1 female",
+    ]);
+    expect(splitPassengerNames(" , ")).toEqual([]);
+  });
+});
+
+describe("findFlightColumns", () => {
+  it("finds date, route, passengers and aircraft columns", () => {
+    expect(findFlightColumns(["Date", "Aircraft", "From", "To", "Passengers", "Departure time"])).toEqual({
+      date: 0, aircraft: 1, origin: 2, destination: 3, passengers: 4, route: null,
+    });
+    expect(findFlightColumns(["DATE", "ROUTE", "PAX"])).toMatchObject({ date: 0, route: 1, passengers: 2 });
+  });
+
+  it("rejects dated tables that are not flight logs", () => {
+    expect(findFlightColumns(["Date", "Amount", "Payee"])).toBeNull();
+    expect(findFlightColumns(["From", "To", "Passengers"])).toBeNull();
+  });
+});
+
+describe("flightsFromTable", () => {
+  it("reads one flight per row, carrying the date down and skipping blank rows", () => {
+    const flights = flightsFromTable({
+      columns: ["Date", "Tail #", "Route", "Passengers"],
+      rows: [
+        ["3/1/97", "N908JE", "PBI-TEB", "JE, GM"],
+        ["", "N908JE", "TEB - CMH", "JE"],
+        ["3/4/97", "", "", ""],
+      ],
+      pageNumber: 4,
+    });
+    expect(flights).toEqual([
+      {
+        date: "1997-03-01", dateRaw: "3/1/97", origin: "PBI", destination: "TEB",
+        aircraft: "N908JE", passengerNames: ["JE", "GM"], pageNumber: 4, source: "table",
+      },
+      expect.objectContaining({ date: "1997-03-01", origin: "TEB", destination: "CMH", passengerNames: ["JE"] }),
+    ]);
+  });
+
+  it("returns nothing for tables without flight columns", () => {
+    expect(flightsFromTable({ columns: ["Name", "Phone"], rows: [["a", "b"]], pageNumber: null })).toEqual([]);
+  });
+});
+
+describe("flightFromEvent", () => {
+  const event = {
+    date: "1997-03-01",
+    title: "Flight to Teterboro",
+    description: "Flew from Palm Beach to Teterboro aboard N908JE.",
+    category: "travel",
+    personsInvolved: ["Jeffrey Epstein", " "],
+  };
+
+  it("reads the route, tail number and passengers from a travel event", () => {
+    expect(flightFromEvent(event)).toEqual({
+      date: "1997-03-01", dateRaw: "1997-03-01", origin: "PBI", destination: "TEB",
+      aircraft: "N908JE", passengerNames: ["Jeffrey Epstein"], pageNumber: null, source: "analysis",
+    });
+  });
+
+  it("falls back to the analysis locations in text order", () => {
+    const flight = flightFromEvent(
+      { ...event, title: "Trip", description: "The group flew out of Santa Fe, landing in Columbus." },
+      ["Columbus", "Santa Fe", "Paris"],
+    );
+    expect(flight).toMatchObject({ origin: "SAF", destination: "CMH", aircraft: null });
+  });
+
+  it("ignores events that are not air travel", () => {
+    expect(flightFromEvent({ ...event, category: "legal" })).toBeNull();
+    expect(flightFromEvent({ ...event, title: "Drove to Teterboro", description: "By car." })).toBeNull();
+  });
+});
+
+describe("mergeFlights", () => {
+  it("folds analysis passengers into the matching table leg", () => {
+    const table = flightsFromTable({
+      columns: ["Date", "From", "To", "Passengers"],
+      rows: [["3/1/97", "PBI", "TEB", "JE"]],
+      pageNumber: 2,
+    });
+    const analysis = flightFromEvent({
+      date: "1997-03-01",
+      title: "Flight",
+      description: "Flew PBI-TEB",
+      category: "travel",
+      personsInvolved: ["je", "Ghislaine Maxwell"],
+    })!;
+    const other = { ...analysis, date: "1997-04-01" };
+
+    const merged = mergeFlights([analysis, ...table, other]);
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({ source: "table", pageNumber: 2, passengerNames: ["JE", "Ghislaine Maxwell"] });
+    expect(merged[1]).toMatchObject({ source: "analysis", date: "1997-04-01" });
+  });
+});
+
+describe("parseFlightsQuery", () => {
+  it("applies defaults and normalises filters", () => {
+    expect(parseFlightsQuery({})).toEqual({
+      ok: true,
+      options: { page: 1, limit: 50, personId: null, aircraftId: null, airport: null, dateFrom: null, dateTo: null },
+    });
+    expect(parseFlightsQuery({ personId: "3", airport: "teterboro", dateFrom: "1997", dateTo: "3/31/97", limit: "999" }))
+      .toMatchObject({ ok: true, options: { personId: 3, airport: "TEB", dateFrom: "1997", dateTo: "1997-03-31", limit: 200 } });
+  });
+
+  it("rejects bad ids and dates", () => {
+    expect(parseFlightsQuery({ personId: "abc" }).ok).toBe(false);
+    expect(parseFlightsQuery({ dateFrom: "soon" }).ok).toBe(false);
+  });
+});
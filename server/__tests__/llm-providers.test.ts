@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { RetrievalResult } from "../chat/retriever";
+import type { LLMClient } from "../chat/llm-client";
+
+vi.mock("../db", () => ({ db: {} }));
+
+vi.mock("../budget", () => ({
+  assertWithinBudget: vi.fn(),
+  recordAIUsage: vi.fn(async () => 0),
+  BudgetExceededError: class extends Error {},
+}));
+
+import {
+  calculateCostCents,
+  configureModels,
+  getClient,
+  getDefaultModelId,
+  getModelConfig,
+  isModelAvailable,
+  listModels,
+} from "../chat/models";
+import { createFixtureClient, fixtureKey, RECORDED_FIXTURES_FILE } from "../chat/fixture-client";
+import { analyzeDocument } from "../chat/analyze";
+import { extractSearchQuery } from "../chat/extractor";
+import { streamChatResponse } from "../chat/service";
+import { analyzeDocumentTiered } from "../../scripts/pipeline/ai-analyzer";
+import { recordAIUsage } from "../budget";
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures", "llm");
+
+/** deepseek-chat, served from the recorded replies instead of the API */
+const offline = {
+  providers: { replay: { type: "fixture" as const, fixturesDir: FIXTURES_DIR } },
+  models: [{ id: "deepseek-chat", label: "DeepSeek V3", provider: "replay", inputCostPerM: 0.27, outputCostPerM: 1.10 }],
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+afterEach(() => {
+  delete process.env.LLM_CONFIG;
+  configureModels();
+});
+
+describe("model registry", () => {
+  it("has the built-in models without a config file", () => {
+    expect(listModels().map((m) => m.id)).toEqual(["deepseek-chat", "gpt-4o-mini"]);
+    expect(getDefaultModelId()).toBe("deepseek-chat");
+    expect(isModelAvailable("deepseek-chat")).toBe(false);
+    expect(() => getClient("deepseek-chat")).toThrow("DEEPSEEK_API_KEY not set");
+  });
+
+  it("adds OpenAI-compatible local servers that need no key", () => {
+    configureModels({
+      providers: { ollama: { type: "openai-compatible", baseURL: "http://localhost:11434/v1" } },
+      models: [{ id: "llama3.1", provider: "ollama", inputCostPerM: 0, outputCostPerM: 0 }],
+      defaultModel: "llama3.1",
+    });
+
+    expect(getDefaultModelId()).toBe("llama3.1");
+    expect(getModelConfig()).toMatchObject({ id: "llama3.1", label: "llama3.1", model: "llama3.1", maxTokens: 4096 });
+    expect(isModelAvailable("llama3.1")).toBe(true);
+    expect(() => getClient("llama3.1")).not.toThrow();
+    expect(calculateCostCents(1_000_000, 1_000_000, "llama3.1")).toBe(0);
+  });
+
+  it("prices calls with the configured per-model rates", () => {
+    configureModels({
+      models: [{ id: "deepseek-chat", provider: "deepseek", inputCostPerM: 0.5, outputCostPerM: 2 }],
+    });
+    expect(calculateCostCents(1_000_000, 500_000, "deepseek-chat")).toBe(1.5);
+  });
+
+  it("rejects models on unknown providers and a missing default", () => {
+    expect(() => configureModels({
+      models: [{ id: "x", provider: "nowhere", inputCostPerM: 0, outputCostPerM: 0 }],
+    })).toThrow("unknown provider nowhere");
+    expect(() => configureModels({ defaultModel: "missing" })).toThrow("missing is not configured");
+  });
+
+  it("loads LLM_CONFIG, resolving fixture dirs against the config file", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-config-"));
+    fs.writeFileSync(path.join(dir, "llm.json"), JSON.stringify({
+      ...offline,
+      providers: { replay: { type: "fixture", fixturesDir: path.relative(dir, FIXTURES_DIR) } },
+    }));
+    process.env.LLM_CONFIG = path.join(dir, "llm.json");
+    configureModels();
+
+    expect(getModelConfig("deepseek-chat").provider).toBe("replay");
+    expect(isModelAvailable("deepseek-chat")).toBe(true);
+    fs.rmSync(dir, { recursive: true });
+  });
+});
+
+describe("fixture client", () => {
+  const request = { model: "deepseek-chat", messages: [{ role: "user" as const, content: "Which flights did Prince Andrew take?" }] };
+
+  it("replays by key before falling back to match", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-fixtures-"));
+    fs.writeFileSync(path.join(dir, "a.json"), JSON.stringify([
+      { match: "Prince Andrew", content: "by match", inputTokens: 1, outputTokens: 1 },
+      { key: fixtureKey(request), content: "by key", inputTokens: 2, outputTokens: 3 },
+    ]));
+    const client = createFixtureClient({ fixturesDir: dir });
+
+    expect(await client.complete(request)).toEqual({ content: "by key", inputTokens: 2, outputTokens: 3 });
+    expect((await client.complete({ ...request, model: "other" })).content).toBe("by match");
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it("fails on a request with no fixture", async () => {
+    const client = createFixtureClient({ fixturesDir: FIXTURES_DIR });
+    await expect(client.complete({ model: "deepseek-chat", messages: [{ role: "user", content: "unknown" }] }))
+      .rejects.toThrow("No LLM fixture for request");
+  });
+
+  it("streams the reply in pieces and ends with its usage", async () => {
+    const client = createFixtureClient({ fixturesDir: FIXTURES_DIR });
+    const chunks = [];
+    for await (const chunk of client.stream(request)) chunks.push(chunk);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.map((c) => c.content ?? "").join("")).toContain("Prince Andrew");
+    expect(chunks[chunks.length - 1]).toEqual({ usage: { inputTokens: 90, outputTokens: 25 } });
+  });
+
+  it("records upstream replies for requests it has no fixture for", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-record-"));
+    const upstream: LLMClient = {
+      complete: vi.fn(async () => ({ content: "live", inputTokens: 5, outputTokens: 6 })),
+      stream: vi.fn(),
+    };
+    const client = createFixtureClient({ fixturesDir: dir, recordFrom: upstream });
+
+    await client.complete(request);
+    await client.complete(request);
+
+    expect(upstream.complete).toHaveBeenCalledTimes(1);
+    const recorded = JSON.parse(fs.readFileSync(path.join(dir, RECORDED_FIXTURES_FILE), "utf-8"));
+    expect(recorded).toEqual([{ key: fixtureKey(request), content: "live", inputTokens: 5, outputTokens: 6 }]);
+    expect((await createFixtureClient({ fixturesDir: dir }).complete(request)).content).toBe("live");
+    fs.rmSync(dir, { recursive: true });
+  });
+});
+
+describe("offline analysis and chat", () => {
+  beforeEach(() => {
+    configureModels(offline);
+  });
+
+  it("analyzeDocument parses a replayed analysis", async () => {
+    const result = await analyzeDocument("Passengers: J. Epstein. Departing Teterboro.", "Flight manifest 1997");
+
+    expect(result.documentType).toBe("flight log");
+    expect(result.persons.map((p) => p.name)).toEqual(["Jeffrey Epstein"]);
+    expect(result.locations).toEqual(["Teterboro", "St. Thomas"]);
+    expect(result).toMatchObject({ inputTokens: 1200, outputTokens: 300, model: "deepseek-chat" });
+    expect(result.costCents).toBe(calculateCostCents(1200, 300, "deepseek-chat"));
+  });
+
+  it("analyzeDocumentTiered runs a Tier 1 analysis and bills it", async () => {
+    vi.mocked(recordAIUsage).mockResolvedValue(0.1);
+    const text = "Q. Please state your name. A. Ghislaine Maxwell. ".repeat(10);
+    const result = await analyzeDocumentTiered(text, "EFTA00001234.pdf", "9", 1, "deepseek-chat", { jobType: "ai_analysis" });
+
+    expect(result).toMatchObject({ tier: 1, documentType: "deposition", inputTokens: 2000, outputTokens: 400, costCents: 0.1 });
+    expect(result.connections[0]).toMatchObject({ person1: "Ghislaine Maxwell", person2: "Jeffrey Epstein" });
+    expect(recordAIUsage).toHaveBeenCalledWith(
+      { jobType: "ai_analysis", model: "deepseek-chat", dataSet: "9" },
+      { inputTokens: 2000, outputTokens: 400 },
+    );
+  });
+
+  it("extractSearchQuery reads the replayed JSON", async () => {
+    const query = await extractSearchQuery("Which flights did Prince Andrew take?");
+    expect(query).toEqual({ searchTerms: ["flight"], personNames: ["Prince Andrew"], documentType: "flight log", intent: "person_lookup" });
+  });
+
+  it("streamChatResponse streams the replayed answer and records its usage", async () => {
+    const context: RetrievalResult = {
+      contextText: "[Doc #7, p. 1] Passenger manifest",
+      citations: [{ documentId: 7, documentTitle: "Manifest", pageNumber: 1, relevance: "keyword" }],
+      retrievedDocumentIds: [7],
+    };
+    let answer = "";
+    const events = [];
+    for await (const event of streamChatResponse("What does the manifest show?", [], context)) {
+      if (event.content) answer += event.content;
+      events.push(event);
+    }
+
+    expect(answer).toBe("The manifest lists two passengers [Doc #7, p. 1].");
+    expect(events[events.length - 1]).toEqual({ done: true, citations: context.citations });
+    expect(recordAIUsage).toHaveBeenCalledWith({ jobType: "chat", model: "deepseek-chat" }, { inputTokens: 800, outputTokens: 12 });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { GAZETTEER } from "../gazetteer";
+import {
+  createPlaceMatcher,
+  createPlaceResolver,
+  normalizePlaceName,
+  parseLocationsQuery,
+  placeKey,
+  yearFromDate,
+} from "../locations";
+
+describe("normalizePlaceName", () => {
+  it("folds case, accents, dots and Saint", () => {
+    expect(normalizePlaceName("Saint-Tropez")).toBe("st tropez");
+    expect(normalizePlaceName("St. Tropez")).toBe("st tropez");
+    expect(normalizePlaceName("  Bogotá ,  Colombia ")).toBe("bogota, colombia");
+    expect(normalizePlaceName("The Bahamas")).toBe("bahamas");
+  });
+});
+
+describe("gazetteer", () => {
+  it("has one entry per kind and name", () => {
+    const keys = GAZETTEER.map(placeKey);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it("has coordinates in range", () => {
+    for (const place of GAZETTEER) {
+      expect(Math.abs(place.lat)).toBeLessThanOrEqual(90);
+      expect(Math.abs(place.lon)).toBeLessThanOrEqual(180);
+    }
+  });
+});
+
+describe("createPlaceResolver", () => {
+  const resolve = createPlaceResolver();
+
+  it("resolves names, aliases and descriptive variants", () => {
+    expect(resolve("Palm Beach")?.name).toBe("Palm Beach");
+    expect(resolve("Little Saint James")?.name).toBe("Little St. James");
+    expect(resolve("Manhattan")?.name).toBe("New York");
+    expect(resolve("Teterboro airport")?.name).toBe("Teterboro Airport");
+    expect(resolve("downtown Miami")?.name).toBe("Miami");
+    expect(resolve("USA")?.kind).toBe("country");
+  });
+
+  it("uses qualifiers to pick and check the place", () => {
+    expect(resolve("Palm Beach, Florida")?.name).toBe("Palm Beach");
+    expect(resolve("Santa Fe, NM")?.name).toBe("Santa Fe");
+    expect(resolve("Paris, France")?.name).toBe("Paris");
+    // Not in the gazetteer as a city, so it falls back to the state rather than France
+    expect(resolve("Paris, Texas")?.name).toBe("Texas");
+    expect(resolve("Seattle, Washington")?.name).toBe("Seattle");
+    expect(resolve("9 East 71st Street, Manhattan, New York")?.name).toBe("New York");
+  });
+
+  it("returns null for unknown places and bare two-letter codes", () => {
+    expect(resolve("Springfield")).toBeNull();
+    expect(resolve("FL")).toBeNull();
+    expect(resolve("  ")).toBeNull();
+  });
+});
+
+describe("createPlaceMatcher", () => {
+  const match = createPlaceMatcher();
+
+  it("finds places named in event text, longest form first", () => {
+    const names = match("Flew from West Palm Beach to Teterboro, then on to Paris.").map((p) => p.name);
+    expect(names).toEqual(expect.arrayContaining(["West Palm Beach", "Teterboro Airport", "Paris"]));
+    expect(names).not.toContain("Palm Beach");
+  });
+
+  it("is case-sensitive on whole words", () => {
+    expect(match("They had a nice dinner in romeo's kitchen")).toEqual([]);
+    expect(match("A dinner in Nice")[0]?.name).toBe("Nice");
+  });
+});
+
+describe("yearFromDate", () => {
+  it("finds the first plausible year", () => {
+    expect(yearFromDate("March 3, 2005")).toBe(2005);
+    expect(yearFromDate("1997-03-01")).toBe(1997);
+    expect(yearFromDate("Case 08-80736")).toBeNull();
+    expect(yearFromDate(null)).toBeNull();
+  });
+});
+
+describe("parseLocationsQuery", () => {
+  it("applies defaults and validates filters", () => {
+    expect(parseLocationsQuery({})).toEqual({ ok: true, options: { personId: null, yearFrom: null, yearTo: null, kind: null } });
+    expect(parseLocationsQuery({ personId: "4", yearFrom: "1999", yearTo: "2005", kind: "city" }))
+      .toEqual({ ok: true, options: { personId: 4, yearFrom: 1999, yearTo: 2005, kind: "city" } });
+    expect(parseLocationsQuery({ personId: "x" }).ok).toBe(false);
+    expect(parseLocationsQuery({ yearFrom: "2005", yearTo: "1999" }).ok).toBe(false);
+    expect(parseLocationsQuery({ kind: "planet" }).ok).toBe(false);
+  });
+});
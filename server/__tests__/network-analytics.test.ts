@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { computeNetworkAnalytics, indexGraph, louvainCommunities, modularity, type AnalyticsEdge } from "../network-analytics";
+
+function edge(a: number, b: number, weight = 1): AnalyticsEdge {
+  return { source: `person:${a}`, target: `person:${b}`, weight };
+}
+
+function clique(ids: number[]): AnalyticsEdge[] {
+  const edges: AnalyticsEdge[] = [];
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) edges.push(edge(ids[i], ids[j]));
+  }
+  return edges;
+}
+
+// Two four-person cliques joined only through person 9
+const barbell: AnalyticsEdge[] = [...clique([1, 2, 3, 4]), ...clique([5, 6, 7, 8]), edge(4, 9), edge(9, 5)];
+
+function byKey(edges: AnalyticsEdge[]) {
+  return new Map(computeNetworkAnalytics(edges).nodes.map((n) => [n.key, n]));
+}
+
+describe("computeNetworkAnalytics", () => {
+  it("gives the broker between two clusters the highest betweenness", () => {
+    const nodes = byKey(barbell);
+    const ranked = Array.from(nodes.values()).sort((a, b) => b.betweenness - a.betweenness);
+    expect(ranked[0].key).toBe("person:9");
+    expect(nodes.get("person:1")!.betweenness).toBe(0);
+    // 4 and 5 each sit on every path out of their clique
+    expect(nodes.get("person:4")!.betweenness).toBeGreaterThan(nodes.get("person:1")!.betweenness);
+  });
+
+  it("normalizes betweenness to 0..1", () => {
+    // Centre of a star lies on every shortest path between the leaves
+    const nodes = byKey([edge(1, 2), edge(1, 3), edge(1, 4)]);
+    expect(nodes.get("person:1")!.betweenness).toBeCloseTo(1);
+    expect(nodes.get("person:2")!.betweenness).toBe(0);
+  });
+
+  it("computes degree and degree centrality", () => {
+    const nodes = byKey(barbell);
+    expect(nodes.get("person:9")!.degree).toBe(2);
+    expect(nodes.get("person:4")!.degree).toBe(4);
+    expect(nodes.get("person:4")!.degreeCentrality).toBeCloseTo(4 / 8);
+  });
+
+  it("scales eigenvector centrality so the top node is 1", () => {
+    const nodes = byKey([edge(1, 2), edge(1, 3), edge(1, 4), edge(2, 3)]);
+    const values = Array.from(nodes.values()).map((n) => n.eigenvector);
+    expect(Math.max(...values)).toBeCloseTo(1);
+    expect(nodes.get("person:1")!.eigenvector).toBeCloseTo(1);
+    expect(nodes.get("person:4")!.eigenvector).toBeLessThan(nodes.get("person:2")!.eigenvector);
+  });
+
+  it("separates the two cliques into communities", () => {
+    const result = computeNetworkAnalytics(barbell);
+    const nodes = new Map(result.nodes.map((n) => [n.key, n]));
+    const left = nodes.get("person:1")!.communityId;
+    const right = nodes.get("person:8")!.communityId;
+    expect(left).not.toBe(right);
+    for (const id of [2, 3, 4]) expect(nodes.get(`person:${id}`)!.communityId).toBe(left);
+    for (const id of [5, 6, 7]) expect(nodes.get(`person:${id}`)!.communityId).toBe(right);
+    expect(result.communityCount).toBe(2);
+    expect(result.modularity).toBeGreaterThan(0.3);
+  });
+
+  it("counts the other communities a node links to", () => {
+    const nodes = byKey(barbell);
+    const bridgeCommunities = Array.from(nodes.values()).filter((n) => n.bridgeCommunities > 0);
+    // Person 9 joins one side, so exactly one edge crosses between the communities
+    expect(bridgeCommunities).toHaveLength(2);
+    expect(nodes.get("person:1")!.bridgeCommunities).toBe(0);
+  });
+
+  it("merges parallel edges and ignores self loops", () => {
+    const graph = indexGraph([edge(1, 2, 2), edge(2, 1, 3), edge(1, 1)]);
+    expect(graph.keys).toEqual(["person:1", "person:2"]);
+    expect(graph.adjacency[0].get(1)).toBe(5);
+  });
+
+  it("handles an empty graph", () => {
+    expect(computeNetworkAnalytics([])).toEqual({ nodes: [], communityCount: 0, modularity: 0 });
+  });
+});
+
+describe("louvainCommunities", () => {
+  it("numbers communities largest first", () => {
+    const graph = indexGraph([...clique([1, 2, 3]), ...clique([4, 5, 6, 7, 8]), edge(3, 4)]);
+    const communities = louvainCommunities(graph);
+    expect(communities[graph.keys.indexOf("person:5")]).toBe(0);
+    expect(communities[graph.keys.indexOf("person:1")]).toBe(1);
+    expect(modularity(graph, communities)).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import type { CommunicationEdge, NetworkPerson } from "@shared/schema";
+import { buildCommunicationGraph, parseCommunicationsQuery } from "../network-communications";
+
+function person(id: number): NetworkPerson {
+  return { id, name: `Person ${id}`, category: "associate", documentCount: 1, connectionCount: 0, imageUrl: null, occupation: null };
+}
+
+function edge(fromPersonId: number, toPersonId: number, messageCount: number): CommunicationEdge {
+  return { fromPersonId, toPersonId, messageCount, firstSentAt: null, lastSentAt: null };
+}
+
+describe("buildCommunicationGraph", () => {
+  const persons = [1, 2, 3, 4].map(person);
+
+  it("keeps edge direction and totals sent and received messages per person", () => {
+    const graph = buildCommunicationGraph(persons, [edge(1, 2, 5), edge(2, 1, 2), edge(1, 3, 1)], { minMessages: 1, limit: 10 });
+
+    expect(graph.edges.map((e) => [e.fromPersonId, e.toPersonId])).toEqual([[1, 2], [2, 1], [1, 3]]);
+    expect(graph.persons.map((p) => p.id)).toEqual([1, 2, 3]);
+    expect(graph.persons[0]).toMatchObject({ sentCount: 6, receivedCount: 2 });
+    expect(graph.persons[2]).toMatchObject({ sentCount: 0, receivedCount: 1 });
+  });
+
+  it("drops light, self and unknown-person edges before applying the limit", () => {
+    const graph = buildCommunicationGraph(
+      persons,
+      [edge(1, 2, 1), edge(3, 3, 9), edge(1, 99, 9), edge(2, 3, 4), edge(3, 4, 3)],
+      { minMessages: 2, limit: 1 },
+    );
+
+    expect(graph.edges).toEqual([edge(2, 3, 4)]);
+    expect(graph.persons.map((p) => p.id)).toEqual([2, 3]);
+  });
+});
+
+describe("parseCommunicationsQuery", () => {
+  it("applies defaults and includes Cc recipients", () => {
+    expect(parseCommunicationsQuery({})).toEqual({
+      ok: true,
+      options: { minMessages: 1, includeCc: true, dataSet: null, yearFrom: null, yearTo: null, limit: 500 },
+    });
+  });
+
+  it("parses filters and rejects an inverted year range", () => {
+    const parsed = parseCommunicationsQuery({ minMessages: "3", includeCc: "false", dataSet: " 9 ", yearFrom: "2001", limit: "5000" });
+    expect(parsed).toEqual({
+      ok: true,
+      options: { minMessages: 3, includeCc: false, dataSet: "9", yearFrom: 2001, yearTo: null, limit: 2000 },
+    });
+    expect(parseCommunicationsQuery({ yearFrom: "2010", yearTo: "2000" }).ok).toBe(false);
+  });
+});
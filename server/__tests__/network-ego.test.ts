@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import type { Connection, NetworkPerson } from "@shared/schema";
+import { buildEgoNetwork, parseEgoQuery, type EgoNetworkOptions, type EgoNetworkSource } from "../network-ego";
+
+function person(id: number): NetworkPerson {
+  return { id, name: `Person ${id}`, category: "associate", documentCount: 1, connectionCount: 0, imageUrl: null, occupation: null };
+}
+
+let nextId = 1;
+
+function conn(personId1: number, personId2: number, overrides: Partial<Connection> = {}) {
+  return {
+    id: nextId++,
+    personId1,
+    personId2,
+    connectionType: "social connection",
+    description: null,
+    strength: 1,
+    documentIds: [1],
+    person1Name: `Person ${personId1}`,
+    person2Name: `Person ${personId2}`,
+    ...overrides,
+  } as Connection & { person1Name: string; person2Name: string };
+}
+
+const defaults: EgoNetworkOptions = {
+  hops: 2, minStrength: 1, minDocuments: 0, connectionTypes: [], yearFrom: null, yearTo: null, limit: 150,
+};
+
+// 1 - 2 - 3 - 4 chain, plus 1 - 5 (strong, employee) and 5 - 6
+const source: EgoNetworkSource = {
+  persons: [1, 2, 3, 4, 5, 6].map(person),
+  connections: [
+    conn(1, 2),
+    conn(2, 3),
+    conn(3, 4),
+    conn(1, 5, { strength: 4, connectionType: "employee", documentIds: [1, 2, 3] }),
+    conn(5, 6),
+  ],
+  personYears: { 6: [1980, 1985] },
+};
+
+function ids(result: ReturnType<typeof buildEgoNetwork>) {
+  return result!.persons.map((p) => p.id).sort((a, b) => a - b);
+}
+
+describe("buildEgoNetwork", () => {
+  it("expands up to the hop limit and records each person's distance", () => {
+    const result = buildEgoNetwork(source, 1, defaults)!;
+    expect(ids(result)).toEqual([1, 2, 3, 5, 6]);
+    const hops = Object.fromEntries(result.persons.map((p) => [p.id, p.hop]));
+    expect(hops).toEqual({ 1: 0, 2: 1, 5: 1, 3: 2, 6: 2 });
+  });
+
+  it("marks frontier persons with neighbours beyond the hop limit", () => {
+    const result = buildEgoNetwork(source, 1, defaults)!;
+    const hidden = Object.fromEntries(result.persons.map((p) => [p.id, p.hiddenNeighborCount]));
+    expect(hidden[3]).toBe(1);
+    expect(hidden[6]).toBe(0);
+    expect(hidden[1]).toBe(0);
+  });
+
+  it("returns only connections between included persons", () => {
+    const result = buildEgoNetwork(source, 1, { ...defaults, hops: 1 })!;
+    expect(result.connections.map((c) => [c.personId1, c.personId2])).toEqual([[1, 2], [1, 5]]);
+  });
+
+  it("filters by strength, source documents and connection type", () => {
+    expect(ids(buildEgoNetwork(source, 1, { ...defaults, minStrength: 3 }))).toEqual([1, 5]);
+    expect(ids(buildEgoNetwork(source, 1, { ...defaults, minDocuments: 2 }))).toEqual([1, 5]);
+    expect(ids(buildEgoNetwork(source, 1, { ...defaults, connectionTypes: ["social connection"] }))).toEqual([1, 2, 3]);
+  });
+
+  it("drops persons whose timeline years fall outside the range", () => {
+    expect(ids(buildEgoNetwork(source, 1, { ...defaults, yearFrom: 1990 }))).toEqual([1, 2, 3, 5]);
+  });
+
+  it("keeps the strongest ties when the person limit is reached", () => {
+    const result = buildEgoNetwork(source, 1, { ...defaults, limit: 2 })!;
+    expect(ids(result)).toEqual([1, 5]);
+    expect(result.truncated).toBe(true);
+    expect(result.persons.find((p) => p.id === 1)!.hiddenNeighborCount).toBe(1);
+  });
+
+  it("returns null for an unknown person", () => {
+    expect(buildEgoNetwork(source, 99, defaults)).toBeNull();
+  });
+});
+
+describe("parseEgoQuery", () => {
+  it("applies defaults", () => {
+    expect(parseEgoQuery({})).toEqual({ ok: true, options: defaults });
+  });
+
+  it("clamps numeric options and splits types", () => {
+    const parsed = parseEgoQuery({ hops: "9", minStrength: "0", limit: "5000", types: "Employee, legal counsel" });
+    expect(parsed.ok && parsed.options).toMatchObject({
+      hops: 3,
+      minStrength: 1,
+      limit: 500,
+      connectionTypes: ["employee", "legal counsel"],
+    });
+  });
+
+  it("rejects invalid year ranges", () => {
+    expect(parseEgoQuery({ yearFrom: "abc" }).ok).toBe(false);
+    expect(parseEgoQuery({ yearFrom: "2005", yearTo: "2000" }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { findShortestPaths, parsePathQuery, type PathConnection, type PathSearchOptions } from "../network-paths";
+
+let nextId = 1;
+
+function conn(personId1: number, personId2: number, overrides: Partial<PathConnection> = {}): PathConnection {
+  return {
+    id: nextId++,
+    personId1,
+    personId2,
+    connectionType: "social connection",
+    description: null,
+    strength: 1,
+    documentIds: null,
+    ...overrides,
+  };
+}
+
+const defaults: PathSearchOptions = { maxHops: 4, k: 3, weighted: false, connectionTypes: [] };
+
+// 1 - 2 - 3 - 4 is the short route; 1 - 5 - 6 - 7 - 4 is longer but uses strong ties
+const graph: PathConnection[] = [
+  conn(1, 2, { documentIds: [10] }),
+  conn(2, 3, { documentIds: [11, 12] }),
+  conn(3, 4, { connectionType: "employee", documentIds: [12] }),
+  conn(1, 5, { strength: 5 }),
+  conn(5, 6, { strength: 5 }),
+  conn(6, 7, { strength: 5 }),
+  conn(7, 4, { strength: 5 }),
+];
+
+describe("findShortestPaths", () => {
+  it("finds the fewest-hop path first", () => {
+    const paths = findShortestPaths(graph, 1, 4, defaults);
+    expect(paths[0].personIds).toEqual([1, 2, 3, 4]);
+    expect(paths[0].hops).toBe(3);
+    expect(paths[0].cost).toBe(3);
+  });
+
+  it("returns alternative loopless paths up to k", () => {
+    const paths = findShortestPaths(graph, 1, 4, defaults);
+    expect(paths.map((p) => p.personIds)).toEqual([
+      [1, 2, 3, 4],
+      [1, 5, 6, 7, 4],
+    ]);
+  });
+
+  it("prefers strong ties when weighted by strength", () => {
+    const paths = findShortestPaths(graph, 1, 4, { ...defaults, weighted: true, k: 1 });
+    expect(paths[0].personIds).toEqual([1, 5, 6, 7, 4]);
+    expect(paths[0].cost).toBe(0.8);
+  });
+
+  it("never exceeds maxHops", () => {
+    const paths = findShortestPaths(graph, 1, 4, { ...defaults, maxHops: 3, weighted: true });
+    expect(paths.map((p) => p.personIds)).toEqual([[1, 2, 3, 4]]);
+  });
+
+  it("only traverses the requested connection types", () => {
+    const paths = findShortestPaths(graph, 1, 4, { ...defaults, connectionTypes: ["social connection"] });
+    expect(paths.map((p) => p.personIds)).toEqual([[1, 5, 6, 7, 4]]);
+  });
+
+  it("attaches each hop's connections and documents as evidence", () => {
+    const parallel = [...graph, conn(2, 3, { connectionType: "employee", strength: 3, documentIds: [13] })];
+    const [path] = findShortestPaths(parallel, 1, 4, { ...defaults, k: 1 });
+    const hop = path.edges[1];
+    expect(hop.fromPersonId).toBe(2);
+    expect(hop.toPersonId).toBe(3);
+    expect(hop.connections.map((c) => c.connectionType)).toEqual(["employee", "social connection"]);
+    expect(hop.documentIds).toEqual([11, 12, 13]);
+  });
+
+  it("walks connections in either direction", () => {
+    const paths = findShortestPaths([conn(2, 1), conn(3, 2)], 1, 3, defaults);
+    expect(paths[0].personIds).toEqual([1, 2, 3]);
+    expect(paths[0].edges[0]).toMatchObject({ fromPersonId: 1, toPersonId: 2 });
+  });
+
+  it("returns no paths when the persons are not connected", () => {
+    expect(findShortestPaths([conn(1, 2), conn(3, 4)], 1, 4, defaults)).toEqual([]);
+  });
+});
+
+describe("parsePathQuery", () => {
+  it("applies defaults", () => {
+    expect(parsePathQuery({ from: "1", to: "2" })).toEqual({
+      ok: true,
+      from: 1,
+      to: 2,
+      options: { maxHops: 4, k: 3, weighted: false, connectionTypes: [] },
+    });
+  });
+
+  it("clamps hop and path limits", () => {
+    const parsed = parsePathQuery({ from: "1", to: "2", maxHops: "0", k: "50" });
+    expect(parsed.ok && parsed.options).toMatchObject({ maxHops: 1, k: 10 });
+  });
+
+  it("accepts repeated and comma-separated connection types", () => {
+    const parsed = parsePathQuery({ from: "1", to: "2", connectionType: ["Employee", "legal counsel, social connection"] });
+    expect(parsed.ok && parsed.options.connectionTypes).toEqual(["employee", "legal counsel", "social connection"]);
+  });
+
+  it("rejects missing or identical persons", () => {
+    expect(parsePathQuery({ from: "1" }).ok).toBe(false);
+    expect(parsePathQuery({ from: "abc", to: "2" }).ok).toBe(false);
+    expect(parsePathQuery({ from: "3", to: "3" }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { createMentionMatcher, mentionSnippet } from "../person-mentions";
+
+const candidates = [
+  { id: 1, name: "Jeffrey Epstein", aliases: ["Jeffrey E. Epstein", "Epstein"] },
+  { id: 2, name: "Ghislaine Maxwell", aliases: null },
+  { id: 3, name: "Robert Maxwell", aliases: ["Bob Maxwell"] },
+  { id: 4, name: "John Smith", aliases: null },
+  { id: 5, name: "John Smith Jr", aliases: null },
+];
+
+describe("createMentionMatcher", () => {
+  const match = createMentionMatcher(candidates);
+
+  it("finds names with exact offsets and surface forms", () => {
+    const text = "Flight log: Jeffrey Epstein and Ghislaine Maxwell departed.";
+    const found = match(text);
+    expect(found.map((m) => m.personId)).toEqual([1, 2]);
+    for (const m of found) {
+      expect(text.slice(m.charStart, m.charEnd)).toBe(m.surfaceForm);
+    }
+    expect(found[1].surfaceForm).toBe("Ghislaine Maxwell");
+  });
+
+  it("matches across line breaks and preserves the page's casing", () => {
+    const text = "signed by JEFFREY\nEPSTEIN on";
+    const [m] = match(text);
+    expect(m.personId).toBe(1);
+    expect(m.surfaceForm).toBe("JEFFREY\nEPSTEIN");
+  });
+
+  it("matches aliases and prefers the longest form", () => {
+    expect(match("Bob Maxwell said")[0].personId).toBe(3);
+    const [m] = match("Mr. Jeffrey E. Epstein arrived");
+    expect(m.surfaceForm).toBe("Jeffrey E. Epstein");
+    expect(match("John Smith Jr was present")[0].personId).toBe(5);
+  });
+
+  it("ignores single-word aliases and lowercase words", () => {
+    expect(match("Epstein was there")).toEqual([]);
+    expect(match("the jeffrey epstein case")).toEqual([]);
+  });
+
+  it("matches 'Last, First' only with a comma", () => {
+    const [m] = match("Passengers: Maxwell, Ghislaine; Smith, John");
+    expect(m.personId).toBe(2);
+    expect(m.surfaceForm).toBe("Maxwell, Ghislaine");
+    expect(match("Maxwell Ghislaine")).toEqual([]);
+  });
+
+  it("does not match names split by other punctuation", () => {
+    expect(match("Jeffrey - Epstein")).toEqual([]);
+  });
+
+  it("drops forms shared by different persons", () => {
+    const ambiguous = createMentionMatcher([
+      { id: 1, name: "Jane Doe", aliases: null },
+      { id: 2, name: "Jane Doe", aliases: null },
+    ]);
+    expect(ambiguous("Jane Doe testified")).toEqual([]);
+  });
+});
+
+describe("mentionSnippet", () => {
+  it("keeps offsets aligned while flattening whitespace", () => {
+    const content = "Line one\nwith Jeffrey\nEpstein here\tand more";
+    const start = content.indexOf("Jeffrey");
+    const end = start + "Jeffrey\nEpstein".length;
+    const { snippet, snippetOffset } = mentionSnippet(content, start, end);
+    expect(snippet).toBe("Line one with Jeffrey Epstein here and more");
+    expect(snippet.slice(snippetOffset, snippetOffset + end - start)).toBe("Jeffrey Epstein");
+  });
+
+  it("trims long pages to whole words around the mention", () => {
+    const content = `${"alpha ".repeat(40)}Ghislaine Maxwell${" omega".repeat(40)}`;
+    const start = content.indexOf("Ghislaine");
+    const { snippet, snippetOffset } = mentionSnippet(content, start, start + 17, 20);
+    expect(snippet.startsWith("alpha")).toBe(true);
+    expect(snippet.endsWith("omega")).toBe(true);
+    expect(snippet.slice(snippetOffset, snippetOffset + 17)).toBe("Ghislaine Maxwell");
+  });
+});
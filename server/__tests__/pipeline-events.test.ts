@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("../db", () => ({ pool: {} }));
+
+import { createChangeBatcher, parsePipelineJobChange } from "../pipeline-events";
+
+describe("parsePipelineJobChange", () => {
+  it("reads a trigger payload", () => {
+    const payload = '{"id":7,"runId":2,"jobType":"process","status":"failed","priority":0,"attempts":3}';
+    expect(parsePipelineJobChange(payload)).toEqual({ id: 7, runId: 2, jobType: "process", status: "failed", priority: 0, attempts: 3 });
+  });
+
+  it("accepts jobs outside a run", () => {
+    const payload = '{"id":8,"runId":null,"jobType":"chat-triggered-analysis","status":"pending","priority":1,"attempts":0}';
+    expect(parsePipelineJobChange(payload)?.runId).toBeNull();
+  });
+
+  it("rejects malformed payloads", () => {
+    expect(parsePipelineJobChange(undefined)).toBeNull();
+    expect(parsePipelineJobChange("not json")).toBeNull();
+    expect(parsePipelineJobChange('{"id":"7","jobType":"process","status":"failed"}')).toBeNull();
+  });
+});
+
+describe("createChangeBatcher", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends the latest state of each job once per window", () => {
+    vi.useFakeTimers();
+    const onFlush = vi.fn();
+    const batcher = createChangeBatcher(onFlush, 1_000);
+    const change = (id: number, status: string) => ({ id, runId: 1, jobType: "process", status, priority: 0, attempts: 1 });
+
+    batcher.add(change(1, "running"));
+    batcher.add(change(2, "pending"));
+    batcher.add(change(1, "completed"));
+    expect(onFlush).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1_000);
+    expect(onFlush).toHaveBeenCalledTimes(1);
+    expect(onFlush.mock.calls[0][0].map((c: { id: number; status: string }) => [c.id, c.status])).toEqual([[1, "completed"], [2, "pending"]]);
+
+    batcher.add(change(3, "failed"));
+    batcher.stop();
+    vi.advanceTimersByTime(1_000);
+    expect(onFlush).toHaveBeenCalledTimes(1);
+  });
+});
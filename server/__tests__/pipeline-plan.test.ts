@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { orderStages, planJobs, retryDelayMs, STAGE_DEPENDENCIES } from "../pipeline-plan";
+
+describe("orderStages", () => {
+  it("moves a stage after the stages it depends on", () => {
+    expect(orderStages(["load-ai-results", "analyze-ai", "process"])).toEqual(["process", "analyze-ai", "load-ai-results"]);
+  });
+
+  it("keeps the given order for independent stages and drops duplicates", () => {
+    expect(orderStages(["load-locations", "scrape-wikipedia", "load-locations"])).toEqual(["load-locations", "scrape-wikipedia"]);
+  });
+
+  it("ignores dependencies outside the run", () => {
+    expect(orderStages(["update-counts", "network-analytics"])).toEqual(["update-counts", "network-analytics"]);
+  });
+
+  it("throws on a dependency cycle", () => {
+    STAGE_DEPENDENCIES["scrape-wikipedia"] = ["load-persons"];
+    try {
+      expect(() => orderStages(["load-persons", "scrape-wikipedia"])).toThrow(/Stage dependency cycle/);
+    } finally {
+      delete STAGE_DEPENDENCIES["scrape-wikipedia"];
+    }
+  });
+});
+
+describe("planJobs", () => {
+  it("splits file-based stages per data set and chains each data set separately", () => {
+    const plan = planJobs(["download-torrent", "process"], [9, 10]);
+    expect(plan.map((j) => `${j.stage}:${j.batchKey}`)).toEqual([
+      "download-torrent:ds:9",
+      "download-torrent:ds:10",
+      "process:ds:9",
+      "process:ds:10",
+    ]);
+    expect(plan[2]).toMatchObject({ metadata: { dataSetIds: [9] }, dependsOn: [0] });
+    expect(plan[3]).toMatchObject({ metadata: { dataSetIds: [10] }, dependsOn: [1] });
+  });
+
+  it("makes a corpus-wide stage wait for every job of its dependencies", () => {
+    const plan = planJobs(["process", "analyze-ai", "load-ai-results"], [1, 2, 3]);
+    const analyze = plan.findIndex((j) => j.stage === "analyze-ai");
+    expect(plan[analyze]).toMatchObject({ batchKey: "all", metadata: {}, dependsOn: [0, 1, 2] });
+    expect(plan[plan.length - 1]).toMatchObject({ stage: "load-ai-results", dependsOn: [analyze] });
+  });
+
+  it("makes a data-set job wait for the whole of a corpus-wide dependency", () => {
+    const plan = planJobs(["import-downloads", "load-tables"], [1, 2]);
+    expect(plan.map((j) => j.dependsOn)).toEqual([[], [0], [0]]);
+  });
+
+  it("only points dependencies at earlier jobs", () => {
+    const plan = planJobs(["update-counts", "load-ai-results", "dedup-persons", "network-analytics"]);
+    plan.forEach((job, i) => job.dependsOn.forEach((dep) => expect(dep).toBeLessThan(i)));
+  });
+});
+
+describe("retryDelayMs", () => {
+  it("doubles from 30 seconds up to 30 minutes", () => {
+    expect(retryDelayMs(1)).toBe(30_000);
+    expect(retryDelayMs(2)).toBe(60_000);
+    expect(retryDelayMs(3)).toBe(120_000);
+    expect(retryDelayMs(20)).toBe(30 * 60_000);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { detectRedactions, redactionDensity } from "../redaction-detection";
+
+const WIDTH = 200;
+const HEIGHT = 100;
+
+function blankPage(): Uint8ClampedArray {
+  return new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(255);
+}
+
+function fillRect(pixels: Uint8ClampedArray, x: number, y: number, w: number, h: number, value = 0) {
+  for (let row = y; row < y + h; row++) {
+    for (let col = x; col < x + w; col++) {
+      const p = (row * WIDTH + col) * 4;
+      pixels[p] = value;
+      pixels[p + 1] = value;
+      pixels[p + 2] = value;
+      pixels[p + 3] = 255;
+    }
+  }
+}
+
+describe("detectRedactions", () => {
+  it("finds a solid black box with its page-fraction bbox and area", () => {
+    const page = blankPage();
+    fillRect(page, 20, 10, 40, 10);
+
+    const scan = detectRedactions(page, WIDTH, HEIGHT);
+    expect(scan.redactionCount).toBe(1);
+    expect(scan.boxes[0]).toEqual({ x: 0.1, y: 0.1, width: 0.2, height: 0.1 });
+    expect(scan.redactedArea).toBeCloseTo(0.02);
+  });
+
+  it("ignores rules, glyph-sized marks and grey fills", () => {
+    const page = blankPage();
+    fillRect(page, 10, 50, 150, 1); // horizontal rule
+    fillRect(page, 10, 60, 2, 2); // glyph-sized speck
+    fillRect(page, 100, 70, 40, 10, 160); // grey shading
+    for (let col = 20; col < 80; col += 2) fillRect(page, col, 80, 1, 8); // text-like strokes
+
+    expect(detectRedactions(page, WIDTH, HEIGHT).redactionCount).toBe(0);
+  });
+
+  it("merges adjacent bars into one redaction and orders boxes top to bottom", () => {
+    const page = blankPage();
+    fillRect(page, 20, 60, 40, 5);
+    fillRect(page, 20, 65, 40, 5);
+    fillRect(page, 100, 10, 30, 8);
+
+    const scan = detectRedactions(page, WIDTH, HEIGHT);
+    expect(scan.redactionCount).toBe(2);
+    expect(scan.boxes[0].y).toBeCloseTo(0.1);
+    expect(scan.boxes[1]).toEqual({ x: 0.1, y: 0.6, width: 0.2, height: 0.1 });
+  });
+
+  it("treats transparent pixels as background", () => {
+    const page = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+    expect(detectRedactions(page, WIDTH, HEIGHT).redactionCount).toBe(0);
+  });
+});
+
+describe("redactionDensity", () => {
+  it("averages redacted area over every page in the document", () => {
+    expect(redactionDensity([{ redactedArea: 0.5 }, { redactedArea: 0.1 }], 4)).toBeCloseTo(0.15);
+  });
+
+  it("returns 0 for documents without pages", () => {
+    expect(redactionDensity([], 0)).toBe(0);
+  });
+});
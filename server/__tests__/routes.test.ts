@@ -1,8 +1,9 @@
-import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from "vitest";
 import express from "express";
 import { createServer } from "http";
 import request from "supertest";
-import type { Person, Document, TimelineEvent, Bookmark } from "@shared/schema";
+import { gunzipSync } from "zlib";
+import type { Person, Document, TimelineEvent, Bookmark, User, DocumentAnnotation, Workspace, WorkspaceDetail, SearchAlert } from "@shared/schema";
 
 // Mock the storage module before importing routes
 vi.mock("../storage", () => ({
@@ -11,28 +12,92 @@ vi.mock("../storage", () => ({
     getPersons: vi.fn(),
     getPerson: vi.fn(),
     getPersonWithDetails: vi.fn(),
+    getPersonMentions: vi.fn(),
+    getEmails: vi.fn(),
+    getEmail: vi.fn(),
+    getEmailThread: vi.fn(),
+    getDocumentEmailThreads: vi.fn(),
+    getCommunicationGraph: vi.fn(),
+    getCommunicationTimeline: vi.fn(),
+    getDocumentTables: vi.fn(),
+    getDocumentTableRows: vi.fn(),
+    getDocumentTableCells: vi.fn(),
+    searchDocumentTables: vi.fn(),
+    getFlights: vi.fn(),
+    getFlight: vi.fn(),
+    getCoPassengers: vi.fn(),
+    getLocations: vi.fn(),
+    getLocation: vi.fn(),
+    getLocationDocuments: vi.fn(),
+    getTimelineEventSources: vi.fn(),
+    getPersonMentionPages: vi.fn(),
+    getPagesContent: vi.fn(),
     getPersonsPaginated: vi.fn(),
     getDocuments: vi.fn(),
     getDocument: vi.fn(),
     getDocumentWithDetails: vi.fn(),
+    getDocumentPages: vi.fn(),
+    getDocumentPage: vi.fn(),
     getDocumentsFiltered: vi.fn(),
     getDocumentFilters: vi.fn(),
     getAdjacentDocumentIds: vi.fn(),
     getSidebarCounts: vi.fn(),
     getTimelineEvents: vi.fn(),
+    getTimelineEvent: vi.fn(),
     getTimelineFiltered: vi.fn(),
     getNetworkData: vi.fn(),
+    getNetworkPaths: vi.fn(),
+    getNetworkAnalytics: vi.fn(),
+    getEgoNetwork: vi.fn(),
+    getEntitiesPaginated: vi.fn(),
+    getEntityTypes: vi.fn(),
+    getEntity: vi.fn(),
+    getEntityWithDetails: vi.fn(),
+    getEntityDocuments: vi.fn(),
+    getEntityNetworkData: vi.fn(),
     search: vi.fn(),
     searchWithTypesense: vi.fn(),
     searchPages: vi.fn(),
+    getUser: vi.fn(),
+    getUserByUsername: vi.fn(),
+    createUser: vi.fn(),
+    claimAnonymousData: vi.fn(),
     getBookmarks: vi.fn(),
     createBookmark: vi.fn(),
     deleteBookmark: vi.fn(),
+    createVote: vi.fn(),
+    deletePersonVote: vi.fn(),
+    getAnnotations: vi.fn(),
+    createAnnotation: vi.fn(),
+    updateAnnotation: vi.fn(),
+    deleteAnnotation: vi.fn(),
+    getSearchAlerts: vi.fn(),
+    getUnreadSearchAlertCount: vi.fn(),
+    markSearchAlertsRead: vi.fn(),
+    getWorkspaces: vi.fn(),
+    getWorkspace: vi.fn(),
+    getWorkspaceDetail: vi.fn(),
+    createWorkspace: vi.fn(),
+    updateWorkspace: vi.fn(),
+    deleteWorkspace: vi.fn(),
+    addWorkspaceItem: vi.fn(),
+    updateWorkspaceItem: vi.fn(),
+    deleteWorkspaceItem: vi.fn(),
+    reorderWorkspaceItems: vi.fn(),
+    getWorkspaceVisualization: vi.fn(),
     getPipelineJobs: vi.fn(),
+    getPipelineRuns: vi.fn(),
+    getPipelineRunProgress: vi.fn(),
     getPipelineStats: vi.fn(),
+    getPipelineThroughput: vi.fn(),
+    retryPipelineJobs: vi.fn(),
+    setPipelineJobPriority: vi.fn(),
+    getBudgetSpend: vi.fn(),
     getBudgetSummary: vi.fn(),
+    getBudgetPolicyUsage: vi.fn(),
     getAIAnalysisList: vi.fn(),
     getAIAnalysis: vi.fn(),
+    getAIAnalysisVersions: vi.fn(),
     getAIAnalysisAggregate: vi.fn(),
     getConnections: vi.fn(),
     createConnection: vi.fn(),
@@ -56,11 +121,14 @@ const mockIsTypesenseConfigured = vi.fn(() => false);
 const mockTypesenseSearchPages = vi.fn();
 const mockTypesenseSearchInstant = vi.fn();
 const mockTypesenseDocumentSearch = vi.fn();
+const mockTypesenseSemanticSearchPages = vi.fn();
 vi.mock("../typesense", () => ({
   isTypesenseConfigured: (...args: any[]) => mockIsTypesenseConfigured(...args),
   typesenseSearchPages: (...args: any[]) => mockTypesenseSearchPages(...args),
   typesenseSearchInstant: (...args: any[]) => mockTypesenseSearchInstant(...args),
   typesenseDocumentSearch: (...args: any[]) => mockTypesenseDocumentSearch(...args),
+  typesenseSemanticSearchPages: (...args: any[]) => mockTypesenseSemanticSearchPages(...args),
+  typesenseHybridSearchPages: vi.fn(),
   getTypesenseClient: vi.fn(() => null),
 }));
 
@@ -70,20 +138,41 @@ vi.mock("../chat", () => ({
 }));
 
 import { registerRoutes } from "../routes";
+import { setupAuth, hashPassword } from "../auth";
 import { storage } from "../storage";
 
 const mockedStorage = vi.mocked(storage);
 
 let app: express.Express;
 let httpServer: ReturnType<typeof createServer>;
+let testUser: User;
+let adminUser: User;
 
 beforeAll(async () => {
   app = express();
   app.use(express.json());
+  setupAuth(app);
   httpServer = createServer(app);
   await registerRoutes(httpServer, app);
+  testUser = { id: "user-1", username: "tester", password: await hashPassword("correct horse"), isAdmin: false };
+  adminUser = { ...testUser, id: "user-9", username: "admin", isAdmin: true };
 });
 
+let loginCount = 0;
+
+/** Supertest agent holding a session cookie for `user` (testUser by default). */
+async function loggedInAgent(user: User = testUser) {
+  mockedStorage.getUserByUsername.mockResolvedValue(user);
+  mockedStorage.getUser.mockResolvedValue(user);
+  const agent = request.agent(app);
+  // A distinct client IP per login keeps the suite under the per-IP auth rate limit
+  await agent.post("/api/auth/login")
+    .set("X-Forwarded-For", `10.0.0.${++loginCount}`)
+    .send({ username: user.username, password: "correct horse" })
+    .expect(200);
+  return agent;
+}
+
 beforeEach(() => {
   vi.clearAllMocks();
 });
@@ -133,17 +222,27 @@ const mockDocument: Document = {
   mimeType: "application/pdf",
   extractedTextLength: 500,
   aiCostCents: 10,
+  redactionCount: null,
+  redactionDensity: null,
 };
 
 const mockEvent: TimelineEvent = {
   id: 1,
   date: "2008-06-30",
+  dateEarliest: "2008-06-30",
+  dateLatest: "2008-06-30",
+  datePrecision: "day",
+  dateOriginal: "2008-06-30",
   title: "Test Event",
   description: "A test event",
   category: "legal",
   personIds: [1],
   documentIds: [1],
   significance: 5,
+  locationIds: null,
+  corroboration: 1,
+  sourcesDisagree: false,
+  mergedFrom: null,
 };
 
 // -- Tests --
@@ -221,6 +320,76 @@ describe("GET /api/persons/:id", () => {
   });
 });
 
+describe("GET /api/persons/:id/mentions", () => {
+  it("clamps pagination and returns mentions", async () => {
+    const paginated = { data: [], total: 0, page: 2, totalPages: 0 };
+    mockedStorage.getPersonMentions.mockResolvedValue(paginated);
+
+    const res = await request(app).get("/api/persons/1/mentions?page=2&limit=500");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(paginated);
+    expect(mockedStorage.getPersonMentions).toHaveBeenCalledWith(1, 2, 100);
+  });
+
+  it("returns 400 for invalid ID", async () => {
+    const res = await request(app).get("/api/persons/abc/mentions");
+    expect(res.status).toBe(400);
+    expect(mockedStorage.getPersonMentions).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/entities", () => {
+  it("returns paginated entities filtered by type", async () => {
+    const paginated = { data: [], total: 0, page: 2, totalPages: 0 };
+    mockedStorage.getEntitiesPaginated.mockResolvedValue(paginated);
+
+    const res = await request(app).get("/api/entities?page=2&entityType=property");
+    expect(res.status).toBe(200);
+    expect(mockedStorage.getEntitiesPaginated).toHaveBeenCalledWith({
+      page: 2, limit: 50, entityType: "property", search: undefined,
+    });
+  });
+});
+
+describe("GET /api/entities/:id", () => {
+  it("returns 400 for invalid ID", async () => {
+    const res = await request(app).get("/api/entities/abc");
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("Invalid ID");
+  });
+
+  it("returns 404 when entity not found", async () => {
+    mockedStorage.getEntityWithDetails.mockResolvedValue(undefined);
+
+    const res = await request(app).get("/api/entities/999");
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe("Entity not found");
+  });
+});
+
+describe("GET /api/entities/:id/documents", () => {
+  it("strips internal fields from documents", async () => {
+    mockedStorage.getEntity.mockResolvedValue({ id: 1, name: "Zorro Ranch" } as any);
+    mockedStorage.getEntityDocuments.mockResolvedValue({
+      data: [{ ...mockDocument, context: null }], total: 1, page: 1, totalPages: 1,
+    });
+
+    const res = await request(app).get("/api/entities/1/documents");
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].localPath).toBeUndefined();
+    expect(res.body.data[0].r2Key).toBeUndefined();
+  });
+
+  it("returns 404 when entity not found", async () => {
+    mockedStorage.getEntity.mockResolvedValue(undefined);
+
+    const res = await request(app).get("/api/entities/999/documents");
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe("Entity not found");
+    expect(mockedStorage.getEntityDocuments).not.toHaveBeenCalled();
+  });
+});
+
 describe("GET /api/documents", () => {
   it("returns paginated filtered documents", async () => {
     const filtered = { data: [mockDocument], total: 1, page: 1, totalPages: 1 };
@@ -276,6 +445,19 @@ describe("GET /api/documents", () => {
       }),
     );
   });
+
+  it("passes redaction sort and density filter as a fraction", async () => {
+    const filtered = { data: [mockDocument], total: 1, page: 1, totalPages: 1 };
+    mockedStorage.getDocumentsFiltered.mockResolvedValue(filtered);
+
+    await request(app).get("/api/documents?sort=redaction&minRedaction=25");
+    expect(mockedStorage.getDocumentsFiltered).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sort: "redaction",
+        minRedaction: 0.25,
+      }),
+    );
+  });
 });
 
 describe("GET /api/documents/:id", () => {
@@ -362,6 +544,20 @@ describe("GET /api/timeline", () => {
     });
   });
 
+  it("passes date range filters through", async () => {
+    mockedStorage.getTimelineFiltered.mockResolvedValue({ data: [], total: 0, page: 1, totalPages: 0 });
+
+    const res = await request(app).get("/api/timeline?dateFrom=1999-06&dateTo=2001");
+    expect(res.status).toBe(200);
+    expect(mockedStorage.getTimelineFiltered).toHaveBeenCalledWith(expect.objectContaining({ dateFrom: "1999-06", dateTo: "2001" }));
+  });
+
+  it("returns 400 for a date filter that is not ISO", async () => {
+    const res = await request(app).get("/api/timeline?dateFrom=circa%202001");
+    expect(res.status).toBe(400);
+    expect(mockedStorage.getTimelineFiltered).not.toHaveBeenCalled();
+  });
+
   it("returns 500 on error", async () => {
     mockedStorage.getTimelineFiltered.mockRejectedValue(new Error("DB error"));
     const res = await request(app).get("/api/timeline");
@@ -381,6 +577,120 @@ describe("GET /api/network", () => {
   });
 });
 
+describe("GET /api/network/entities", () => {
+  it("returns entity network data", async () => {
+    mockedStorage.getEntityNetworkData.mockResolvedValue({ entities: [], connections: [] });
+
+    const res = await request(app).get("/api/network/entities");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ entities: [], connections: [] });
+  });
+});
+
+describe("GET /api/network/path", () => {
+  it("returns paths between two persons", async () => {
+    const result = { fromPersonId: 1, toPersonId: 2, paths: [], persons: [], documents: [] };
+    mockedStorage.getNetworkPaths.mockResolvedValue(result);
+
+    const res = await request(app).get("/api/network/path?from=1&to=2");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(result);
+    expect(mockedStorage.getNetworkPaths).toHaveBeenCalledWith(1, 2, expect.objectContaining({ maxHops: 4, k: 3 }));
+  });
+
+  it("returns 400 for a missing person ID", async () => {
+    const res = await request(app).get("/api/network/path?to=2");
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 404 for an unknown person", async () => {
+    mockedStorage.getNetworkPaths.mockResolvedValue(null);
+
+    const res = await request(app).get("/api/network/path?from=1&to=999");
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("GET /api/network/ego/:personId", () => {
+  it("returns the filtered subgraph around a person", async () => {
+    const result = { centerPersonId: 1, hops: 1, persons: [], connections: [], truncated: false };
+    mockedStorage.getEgoNetwork.mockResolvedValue(result);
+
+    const res = await request(app).get("/api/network/ego/1?hops=1&minStrength=3&types=employee");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(result);
+    expect(mockedStorage.getEgoNetwork).toHaveBeenCalledWith(1, expect.objectContaining({
+      hops: 1,
+      minStrength: 3,
+      connectionTypes: ["employee"],
+    }));
+  });
+
+  it("returns 400 for an invalid person ID", async () => {
+    const res = await request(app).get("/api/network/ego/abc");
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 404 for an unknown person", async () => {
+    mockedStorage.getEgoNetwork.mockResolvedValue(null);
+
+    const res = await request(app).get("/api/network/ego/999");
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("GET /api/network/analytics", () => {
+  const analytics = { graph: "persons" as const, computedAt: null, nodeCount: 0, nodes: [], communities: [], bridges: [] };
+
+  it("returns person network analytics by default", async () => {
+    mockedStorage.getNetworkAnalytics.mockResolvedValue(analytics);
+
+    const res = await request(app).get("/api/network/analytics");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(analytics);
+    expect(mockedStorage.getNetworkAnalytics).toHaveBeenCalledWith("persons");
+  });
+
+  it("uses the combined graph when entities are included", async () => {
+    mockedStorage.getNetworkAnalytics.mockResolvedValue({ ...analytics, graph: "combined" });
+
+    const res = await request(app).get("/api/network/analytics?includeEntities=true");
+    expect(res.status).toBe(200);
+    expect(mockedStorage.getNetworkAnalytics).toHaveBeenCalledWith("combined");
+  });
+});
+
+describe("GET /api/network/communications", () => {
+  it("returns the communication graph with parsed filters", async () => {
+    const graph = {
+      persons: [{ ...mockPerson, sentCount: 2, receivedCount: 0 }],
+      edges: [{ fromPersonId: 1, toPersonId: 2, messageCount: 2, firstSentAt: null, lastSentAt: null }],
+    };
+    mockedStorage.getCommunicationGraph.mockResolvedValue(graph);
+
+    const res = await request(app).get("/api/network/communications?dataSet=9&minMessages=2");
+    expect(res.status).toBe(200);
+    expect(res.body.edges).toHaveLength(1);
+    expect(mockedStorage.getCommunicationGraph).toHaveBeenCalledWith(
+      expect.objectContaining({ dataSet: "9", minMessages: 2, includeCc: true }),
+    );
+  });
+
+  it("returns the messages between two persons", async () => {
+    mockedStorage.getCommunicationTimeline.mockResolvedValue({ data: [], total: 0, page: 1, totalPages: 0 });
+
+    const res = await request(app).get("/api/network/communications/1/2?includeCc=false");
+    expect(res.status).toBe(200);
+    expect(mockedStorage.getCommunicationTimeline).toHaveBeenCalledWith(1, 2, { page: 1, limit: 50, includeCc: false });
+  });
+
+  it("returns 400 for invalid person IDs", async () => {
+    const res = await request(app).get("/api/network/communications/1/abc");
+    expect(res.status).toBe(400);
+    expect(mockedStorage.getCommunicationTimeline).not.toHaveBeenCalled();
+  });
+});
+
 describe("GET /api/search", () => {
   it("returns search results for valid query", async () => {
     const results = { persons: [mockPerson], documents: [mockDocument], events: [mockEvent] };
@@ -416,75 +726,789 @@ describe("GET /api/search/pages", () => {
     expect(res.status).toBe(200);
     expect(res.body).toEqual({ results: [], total: 0, page: 1, totalPages: 0 });
   });
+
+  it("returns 400 for an unknown mode", async () => {
+    const res = await request(app).get("/api/search/pages?q=test&mode=fuzzy");
+    expect(res.status).toBe(400);
+    expect(mockedStorage.searchPages).not.toHaveBeenCalled();
+  });
+
+  it("returns 503 for semantic mode without Typesense", async () => {
+    const res = await request(app).get("/api/search/pages?q=payments to recruiters&mode=semantic");
+    expect(res.status).toBe(503);
+    expect(mockedStorage.searchPages).not.toHaveBeenCalled();
+  });
 });
 
 describe("Bookmark routes", () => {
-  it("GET /api/bookmarks returns bookmarks", async () => {
+  it("GET /api/bookmarks requires a session", async () => {
+    const res = await request(app).get("/api/bookmarks?userId=user-1");
+    expect(res.status).toBe(401);
+    expect(mockedStorage.getBookmarks).not.toHaveBeenCalled();
+  });
+
+  it("GET /api/bookmarks returns the session user's bookmarks", async () => {
     const bookmarks: Bookmark[] = [{
       id: 1,
-      userId: "anonymous",
+      userId: "user-1",
       entityType: "person",
       entityId: 1,
       searchQuery: null,
       label: "Test",
       createdAt: new Date(),
+      alertsCheckedPageId: null,
     }];
     mockedStorage.getBookmarks.mockResolvedValue(bookmarks);
+    const agent = await loggedInAgent();
 
-    const res = await request(app).get("/api/bookmarks?userId=anonymous");
+    const res = await agent.get("/api/bookmarks?userId=someone-else");
     expect(res.status).toBe(200);
     expect(res.body).toHaveLength(1);
+    expect(mockedStorage.getBookmarks).toHaveBeenCalledWith("user-1");
   });
 
-  it("POST /api/bookmarks creates bookmark", async () => {
+  it("POST /api/bookmarks creates bookmark for the session user", async () => {
     const newBookmark: Bookmark = {
       id: 1,
-      userId: "anonymous",
+      userId: "user-1",
       entityType: "person",
       entityId: 1,
       searchQuery: null,
       label: "Test",
       createdAt: new Date(),
+      alertsCheckedPageId: null,
     };
     mockedStorage.createBookmark.mockResolvedValue(newBookmark);
+    const agent = await loggedInAgent();
 
-    const res = await request(app)
+    const res = await agent
       .post("/api/bookmarks")
-      .send({ entityType: "person", entityId: 1, label: "Test" });
+      .send({ entityType: "person", entityId: 1, label: "Test", userId: "someone-else" });
     expect(res.status).toBe(201);
+    expect(mockedStorage.createBookmark).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-1" }),
+    );
   });
 
   it("POST /api/bookmarks rejects invalid entityType", async () => {
-    const res = await request(app)
+    const agent = await loggedInAgent();
+    const res = await agent
       .post("/api/bookmarks")
       .send({ entityType: "invalid", entityId: 1 });
     expect(res.status).toBe(400);
     expect(res.body.error).toContain("entityType");
   });
 
-  it("DELETE /api/bookmarks/:id deletes bookmark", async () => {
+  it("DELETE /api/bookmarks/:id deletes only the session user's bookmark", async () => {
     mockedStorage.deleteBookmark.mockResolvedValue(true);
+    const agent = await loggedInAgent();
 
-    const res = await request(app).delete("/api/bookmarks/1");
+    const res = await agent.delete("/api/bookmarks/1");
     expect(res.status).toBe(200);
     expect(res.body.success).toBe(true);
+    expect(mockedStorage.deleteBookmark).toHaveBeenCalledWith(1, "user-1");
   });
 
   it("DELETE /api/bookmarks/:id returns 404 when not found", async () => {
     mockedStorage.deleteBookmark.mockResolvedValue(false);
+    const agent = await loggedInAgent();
+
+    const res = await agent.delete("/api/bookmarks/999");
+    expect(res.status).toBe(404);
+  });
+
+  it("DELETE /api/bookmarks/:id requires a session", async () => {
+    const res = await request(app).delete("/api/bookmarks/1");
+    expect(res.status).toBe(401);
+    expect(mockedStorage.deleteBookmark).not.toHaveBeenCalled();
+  });
+});
+
+describe("Search alert routes", () => {
+  const alert: SearchAlert = {
+    id: 1,
+    userId: "user-1",
+    bookmarkId: 3,
+    searchQuery: "flight logs",
+    newPageCount: 4,
+    newDocumentCount: 2,
+    documentIds: [10, 11],
+    createdAt: new Date(),
+    readAt: null,
+  };
+
+  it("GET /api/search-alerts requires a session", async () => {
+    const res = await request(app).get("/api/search-alerts");
+    expect(res.status).toBe(401);
+    expect(mockedStorage.getSearchAlerts).not.toHaveBeenCalled();
+  });
+
+  it("GET /api/search-alerts returns the session user's alerts and unread count", async () => {
+    mockedStorage.getSearchAlerts.mockResolvedValue([alert]);
+    mockedStorage.getUnreadSearchAlertCount.mockResolvedValue(1);
+    const agent = await loggedInAgent();
+
+    const res = await agent.get("/api/search-alerts?unread=true");
+    expect(res.status).toBe(200);
+    expect(res.body.alerts).toHaveLength(1);
+    expect(res.body.unreadCount).toBe(1);
+    expect(mockedStorage.getSearchAlerts).toHaveBeenCalledWith("user-1", { unreadOnly: true });
+  });
+
+  it("POST /api/search-alerts/read marks the given alerts read", async () => {
+    mockedStorage.markSearchAlertsRead.mockResolvedValue(2);
+    const agent = await loggedInAgent();
+
+    const res = await agent.post("/api/search-alerts/read").send({ ids: [1, 2] });
+    expect(res.status).toBe(200);
+    expect(res.body.updated).toBe(2);
+    expect(mockedStorage.markSearchAlertsRead).toHaveBeenCalledWith("user-1", [1, 2]);
+  });
+
+  it("POST /api/search-alerts/read without ids marks everything read", async () => {
+    mockedStorage.markSearchAlertsRead.mockResolvedValue(5);
+    const agent = await loggedInAgent();
+
+    const res = await agent.post("/api/search-alerts/read").send({});
+    expect(res.status).toBe(200);
+    expect(mockedStorage.markSearchAlertsRead).toHaveBeenCalledWith("user-1", undefined);
+  });
+
+  it("POST /api/search-alerts/read rejects non-integer ids", async () => {
+    const agent = await loggedInAgent();
+
+    const res = await agent.post("/api/search-alerts/read").send({ ids: ["1", -2] });
+    expect(res.status).toBe(400);
+    expect(mockedStorage.markSearchAlertsRead).not.toHaveBeenCalled();
+  });
+});
+
+describe("Vote routes", () => {
+  it("POST /api/votes requires a session", async () => {
+    const res = await request(app).post("/api/votes").send({ documentId: 1, userId: "user-1" });
+    expect(res.status).toBe(401);
+  });
+
+  it("POST /api/votes records the vote for the session user", async () => {
+    mockedStorage.createVote.mockResolvedValue({ id: 1, userId: "user-1", documentId: 1, createdAt: new Date() });
+    const agent = await loggedInAgent();
+
+    const res = await agent.post("/api/votes").send({ documentId: 1, userId: "someone-else" });
+    expect(res.status).toBe(201);
+    expect(mockedStorage.createVote).toHaveBeenCalledWith({ documentId: 1, userId: "user-1" });
+  });
+
+  it("DELETE /api/person-votes/:id is scoped to the session user", async () => {
+    mockedStorage.deletePersonVote.mockResolvedValue(false);
+    const agent = await loggedInAgent();
+
+    const res = await agent.delete("/api/person-votes/5");
+    expect(res.status).toBe(404);
+    expect(mockedStorage.deletePersonVote).toHaveBeenCalledWith(5, "user-1");
+  });
+});
+
+describe("GET /api/documents/:id/pages", () => {
+  it("returns page text in page order", async () => {
+    mockedStorage.getDocumentPages.mockResolvedValue([
+      { pageNumber: 1, content: "First page", pageType: null },
+      { pageNumber: 2, content: "Second page", pageType: "letter" },
+    ]);
+
+    const res = await request(app).get("/api/documents/1/pages");
+    expect(res.status).toBe(200);
+    expect(res.body).toHaveLength(2);
+    expect(mockedStorage.getDocumentPages).toHaveBeenCalledWith(1);
+  });
+
+  it("returns 400 for invalid ID", async () => {
+    const res = await request(app).get("/api/documents/abc/pages");
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("GET /api/documents/:id/emails", () => {
+  it("returns the document's email threads", async () => {
+    mockedStorage.getDocumentEmailThreads.mockResolvedValue([
+      { threadId: "root@example.com", subject: "Dinner", messageCount: 2, firstSentAt: null, lastSentAt: null, emails: [] },
+    ]);
+
+    const res = await request(app).get("/api/documents/1/emails");
+    expect(res.status).toBe(200);
+    expect(res.body[0].threadId).toBe("root@example.com");
+    expect(mockedStorage.getDocumentEmailThreads).toHaveBeenCalledWith(1);
+  });
 
-    const res = await request(app).delete("/api/bookmarks/999");
+  it("returns 400 for invalid ID", async () => {
+    const res = await request(app).get("/api/documents/abc/emails");
+    expect(res.status).toBe(400);
+    expect(mockedStorage.getDocumentEmailThreads).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/documents/:id/tables", () => {
+  const table = { id: 7, documentId: 1, position: 0, name: "Manifest", columns: ["Date", "Passenger"], rowCount: 2 };
+
+  it("returns the document's sheets", async () => {
+    mockedStorage.getDocumentTables.mockResolvedValue([table]);
+
+    const res = await request(app).get("/api/documents/1/tables");
+    expect(res.status).toBe(200);
+    expect(res.body[0].columns).toEqual(["Date", "Passenger"]);
+    expect(mockedStorage.getDocumentTables).toHaveBeenCalledWith(1);
+  });
+
+  it("passes sort, search and repeated column filters to storage", async () => {
+    mockedStorage.getDocumentTableRows.mockResolvedValue({ table, data: [], total: 0, page: 1, totalPages: 0 });
+
+    const res = await request(app)
+      .get("/api/documents/1/tables/7/rows?sort=1&order=desc&q=palm&filter=0:1997&filter=1:%20Jeffrey%20");
+    expect(res.status).toBe(200);
+    expect(mockedStorage.getDocumentTableRows).toHaveBeenCalledWith(1, 7, {
+      page: 1,
+      limit: 50,
+      sort: 1,
+      order: "desc",
+      search: "palm",
+      filters: [{ column: 0, value: "1997" }, { column: 1, value: "Jeffrey" }],
+    });
+  });
+
+  it("returns 404 when the table is not in the document", async () => {
+    mockedStorage.getDocumentTableRows.mockResolvedValue(undefined);
+    const res = await request(app).get("/api/documents/2/tables/7/rows");
+    expect(res.status).toBe(404);
+  });
+
+  it("returns 400 for malformed filters", async () => {
+    const res = await request(app).get("/api/documents/1/tables/7/rows?filter=Passenger:Jeffrey");
+    expect(res.status).toBe(400);
+    expect(mockedStorage.getDocumentTableRows).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/documents/:id/tables/:tableId/csv", () => {
+  it("downloads the header and rows as CSV", async () => {
+    mockedStorage.getDocumentTableCells.mockResolvedValue({
+      table: { id: 9, documentId: 1, position: 0, name: "Page 4", columns: ["Date", "Payee", "Amount"], rowCount: 2, pageNumber: 4, bbox: null },
+      rows: [["1999-01-02", "Smith, J.", "1,200"], ["1999-01-09", 'The "Trust"', "50"]],
+    });
+
+    const res = await request(app).get("/api/documents/1/tables/9/csv");
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/csv");
+    expect(res.headers["content-disposition"]).toBe("attachment; filename=document-1-page-4.csv");
+    expect(res.text).toBe('Date,Payee,Amount\n1999-01-02,"Smith, J.","1,200"\n1999-01-09,"The ""Trust""",50');
+  });
+
+  it("returns 404 for a table of another document", async () => {
+    mockedStorage.getDocumentTableCells.mockResolvedValue(undefined);
+    const res = await request(app).get("/api/documents/2/tables/9/csv");
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("GET /api/search/tables", () => {
+  it("searches a named column across tables", async () => {
+    mockedStorage.searchDocumentTables.mockResolvedValue({ data: [], total: 0, page: 1, totalPages: 0 });
+
+    const res = await request(app).get("/api/search/tables?column=passenger&q=clinton&dataSet=1");
+    expect(res.status).toBe(200);
+    expect(mockedStorage.searchDocumentTables).toHaveBeenCalledWith({
+      column: "passenger", q: "clinton", dataSet: "1", page: 1, limit: 50,
+    });
+  });
+
+  it("requires both column and q", async () => {
+    const res = await request(app).get("/api/search/tables?q=clinton");
+    expect(res.status).toBe(400);
+    expect(mockedStorage.searchDocumentTables).not.toHaveBeenCalled();
+  });
+});
+
+describe("Flight routes", () => {
+  it("lists a person's flights with normalised filters", async () => {
+    mockedStorage.getFlights.mockResolvedValue({ data: [], total: 0, page: 1, totalPages: 0 });
+
+    const res = await request(app).get("/api/flights?personId=3&airport=teterboro&dateTo=1997");
+    expect(res.status).toBe(200);
+    expect(mockedStorage.getFlights).toHaveBeenCalledWith({
+      page: 1, limit: 50, personId: 3, aircraftId: null, airport: "TEB", dateFrom: null, dateTo: "1997",
+    });
+  });
+
+  it("rejects an invalid date filter", async () => {
+    const res = await request(app).get("/api/flights?dateFrom=someday");
+    expect(res.status).toBe(400);
+    expect(mockedStorage.getFlights).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for an unknown flight", async () => {
+    mockedStorage.getFlight.mockResolvedValue(undefined);
+    const res = await request(app).get("/api/flights/99");
     expect(res.status).toBe(404);
   });
+
+  it("lists co-passengers with a capped limit", async () => {
+    mockedStorage.getCoPassengers.mockResolvedValue([]);
+    const res = await request(app).get("/api/flights/co-passengers/3?limit=500");
+    expect(res.status).toBe(200);
+    expect(mockedStorage.getCoPassengers).toHaveBeenCalledWith(3, { limit: 100 });
+  });
+});
+
+describe("Location routes", () => {
+  it("passes map filters through", async () => {
+    mockedStorage.getLocations.mockResolvedValue([]);
+    const res = await request(app).get("/api/locations?personId=3&yearFrom=1999&yearTo=2005");
+    expect(res.status).toBe(200);
+    expect(mockedStorage.getLocations).toHaveBeenCalledWith({ personId: 3, yearFrom: 1999, yearTo: 2005, kind: null });
+  });
+
+  it("rejects an unknown place kind", async () => {
+    const res = await request(app).get("/api/locations?kind=planet");
+    expect(res.status).toBe(400);
+    expect(mockedStorage.getLocations).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for an unknown location", async () => {
+    mockedStorage.getLocation.mockResolvedValue(undefined);
+    const res = await request(app).get("/api/locations/99");
+    expect(res.status).toBe(404);
+  });
+
+  it("pages a location's documents with the map filters", async () => {
+    mockedStorage.getLocationDocuments.mockResolvedValue({ data: [], total: 0, page: 2, totalPages: 0 });
+    const res = await request(app).get("/api/locations/4/documents?page=2&limit=20&yearFrom=2001");
+    expect(res.status).toBe(200);
+    expect(mockedStorage.getLocationDocuments).toHaveBeenCalledWith(4, 2, 20, { personId: null, yearFrom: 2001, yearTo: null, kind: null });
+  });
+});
+
+describe("GET /api/timeline/:id/sources", () => {
+  it("returns the event with its source citations", async () => {
+    const sources = [{ documentId: 1, documentTitle: "EFTA00001", dataSet: "1", pageNumber: 2, excerpt: "A test event.", dateOriginal: "2008-06-30" }];
+    mockedStorage.getTimelineEventSources.mockResolvedValue({ event: mockEvent, sources });
+
+    const res = await request(app).get("/api/timeline/1/sources");
+    expect(res.status).toBe(200);
+    expect(res.body.sources).toEqual(sources);
+    expect(res.body.event.corroboration).toBe(1);
+  });
+
+  it("returns 404 for an unknown event", async () => {
+    mockedStorage.getTimelineEventSources.mockResolvedValue(undefined);
+    const res = await request(app).get("/api/timeline/99/sources");
+    expect(res.status).toBe(404);
+  });
+
+  it("returns 400 for a non-numeric id", async () => {
+    const res = await request(app).get("/api/timeline/abc/sources");
+    expect(res.status).toBe(400);
+    expect(mockedStorage.getTimelineEventSources).not.toHaveBeenCalled();
+  });
+});
+
+describe("Annotation routes", () => {
+  const annotation: DocumentAnnotation = {
+    id: 1,
+    userId: "user-1",
+    documentId: 1,
+    pageNumber: 2,
+    charStart: 6,
+    charEnd: 11,
+    bbox: null,
+    quote: "brown",
+    note: "Check this",
+    tags: ["flight"],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  it("GET /api/annotations requires a session", async () => {
+    const res = await request(app).get("/api/annotations");
+    expect(res.status).toBe(401);
+    expect(mockedStorage.getAnnotations).not.toHaveBeenCalled();
+  });
+
+  it("GET /api/annotations passes filters for the session user", async () => {
+    mockedStorage.getAnnotations.mockResolvedValue([{ ...annotation, documentTitle: "Test Document" }]);
+    const agent = await loggedInAgent();
+
+    const res = await agent.get("/api/annotations?documentId=1&tag=flight");
+    expect(res.status).toBe(200);
+    expect(res.body).toHaveLength(1);
+    expect(mockedStorage.getAnnotations).toHaveBeenCalledWith("user-1", { documentId: 1, tag: "flight" });
+  });
+
+  it("POST /api/annotations stores a character range with the highlighted quote", async () => {
+    mockedStorage.getDocument.mockResolvedValue(mockDocument);
+    mockedStorage.getDocumentPage.mockResolvedValue({ pageNumber: 2, content: "quick brown fox" });
+    mockedStorage.createAnnotation.mockResolvedValue(annotation);
+    const agent = await loggedInAgent();
+
+    const res = await agent
+      .post("/api/annotations")
+      .send({ documentId: 1, pageNumber: 2, charStart: 6, charEnd: 11, note: "Check this", tags: ["Flight"], userId: "someone-else" });
+    expect(res.status).toBe(201);
+    expect(mockedStorage.createAnnotation).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-1", quote: "brown", tags: ["flight"] }),
+    );
+  });
+
+  it("POST /api/annotations accepts a bbox without page text", async () => {
+    mockedStorage.getDocument.mockResolvedValue(mockDocument);
+    mockedStorage.createAnnotation.mockResolvedValue({ ...annotation, charStart: null, charEnd: null, quote: null });
+    const agent = await loggedInAgent();
+
+    const res = await agent
+      .post("/api/annotations")
+      .send({ documentId: 1, pageNumber: 3, bbox: { x: 0.1, y: 0.2, width: 0.3, height: 0.1 } });
+    expect(res.status).toBe(201);
+    expect(mockedStorage.getDocumentPage).not.toHaveBeenCalled();
+    expect(mockedStorage.createAnnotation).toHaveBeenCalledWith(
+      expect.objectContaining({ bbox: { x: 0.1, y: 0.2, width: 0.3, height: 0.1 }, quote: null }),
+    );
+  });
+
+  it("POST /api/annotations rejects an annotation without a range", async () => {
+    const agent = await loggedInAgent();
+
+    const res = await agent.post("/api/annotations").send({ documentId: 1, pageNumber: 2, note: "Floating" });
+    expect(res.status).toBe(400);
+    expect(mockedStorage.createAnnotation).not.toHaveBeenCalled();
+  });
+
+  it("POST /api/annotations rejects a range past the end of the page text", async () => {
+    mockedStorage.getDocument.mockResolvedValue(mockDocument);
+    mockedStorage.getDocumentPage.mockResolvedValue({ pageNumber: 2, content: "short" });
+    const agent = await loggedInAgent();
+
+    const res = await agent.post("/api/annotations").send({ documentId: 1, pageNumber: 2, charStart: 0, charEnd: 50 });
+    expect(res.status).toBe(400);
+    expect(mockedStorage.createAnnotation).not.toHaveBeenCalled();
+  });
+
+  it("POST /api/annotations returns 404 for an unknown document", async () => {
+    mockedStorage.getDocument.mockResolvedValue(undefined);
+    const agent = await loggedInAgent();
+
+    const res = await agent.post("/api/annotations").send({ documentId: 999, pageNumber: 1, bbox: { x: 0, y: 0, width: 1, height: 1 } });
+    expect(res.status).toBe(404);
+  });
+
+  it("PATCH /api/annotations/:id updates note and tags for the session user", async () => {
+    mockedStorage.updateAnnotation.mockResolvedValue({ ...annotation, note: "Updated" });
+    const agent = await loggedInAgent();
+
+    const res = await agent.patch("/api/annotations/1").send({ note: "Updated", tags: ["a", "A"] });
+    expect(res.status).toBe(200);
+    expect(mockedStorage.updateAnnotation).toHaveBeenCalledWith(1, "user-1", { note: "Updated", tags: ["a"] });
+  });
+
+  it("DELETE /api/annotations/:id returns 404 for another user's annotation", async () => {
+    mockedStorage.deleteAnnotation.mockResolvedValue(false);
+    const agent = await loggedInAgent();
+
+    const res = await agent.delete("/api/annotations/1");
+    expect(res.status).toBe(404);
+    expect(mockedStorage.deleteAnnotation).toHaveBeenCalledWith(1, "user-1");
+  });
+});
+
+describe("Workspace routes", () => {
+  const workspace: Workspace = {
+    id: 7,
+    userId: "user-1",
+    name: "Flight logs",
+    description: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const baseItem = { workspaceId: 7, searchQuery: null, noteText: null, comment: null, createdAt: new Date() };
+  const detail: WorkspaceDetail = {
+    ...workspace,
+    items: [
+      { ...baseItem, id: 1, itemType: "person", entityId: 1, position: 0, comment: "Pilot, per log", person: { id: 1, name: "Test Person", role: "associate", category: "associate", imageUrl: null } },
+      { ...baseItem, id: 2, itemType: "note", entityId: null, position: 1, noteText: "Cross-check dates" },
+    ],
+  };
+
+  it("GET /api/workspaces requires a session", async () => {
+    const res = await request(app).get("/api/workspaces");
+    expect(res.status).toBe(401);
+    expect(mockedStorage.getWorkspaces).not.toHaveBeenCalled();
+  });
+
+  it("POST /api/workspaces creates a workspace for the session user", async () => {
+    mockedStorage.createWorkspace.mockResolvedValue(workspace);
+    const agent = await loggedInAgent();
+
+    const res = await agent.post("/api/workspaces").send({ name: "  Flight logs ", userId: "someone-else" });
+    expect(res.status).toBe(201);
+    expect(mockedStorage.createWorkspace).toHaveBeenCalledWith({ name: "Flight logs", description: null, userId: "user-1" });
+  });
+
+  it("POST /api/workspaces rejects an empty name", async () => {
+    const agent = await loggedInAgent();
+
+    const res = await agent.post("/api/workspaces").send({ name: "   " });
+    expect(res.status).toBe(400);
+    expect(mockedStorage.createWorkspace).not.toHaveBeenCalled();
+  });
+
+  it("GET /api/workspaces/:id returns 404 for another user's workspace", async () => {
+    mockedStorage.getWorkspaceDetail.mockResolvedValue(undefined);
+    const agent = await loggedInAgent();
+
+    const res = await agent.get("/api/workspaces/7");
+    expect(res.status).toBe(404);
+    expect(mockedStorage.getWorkspaceDetail).toHaveBeenCalledWith(7, "user-1");
+  });
+
+  it("POST /api/workspaces/:id/items adds an existing timeline event", async () => {
+    mockedStorage.getWorkspace.mockResolvedValue(workspace);
+    mockedStorage.getTimelineEvent.mockResolvedValue(mockEvent);
+    mockedStorage.addWorkspaceItem.mockResolvedValue({ ...baseItem, id: 3, itemType: "event", entityId: 1, position: 2 });
+    const agent = await loggedInAgent();
+
+    const res = await agent.post("/api/workspaces/7/items").send({ itemType: "event", entityId: 1, comment: "Key date" });
+    expect(res.status).toBe(201);
+    expect(mockedStorage.addWorkspaceItem).toHaveBeenCalledWith(
+      expect.objectContaining({ workspaceId: 7, itemType: "event", entityId: 1, comment: "Key date" }),
+    );
+  });
+
+  it("POST /api/workspaces/:id/items returns 404 for an unknown person", async () => {
+    mockedStorage.getWorkspace.mockResolvedValue(workspace);
+    mockedStorage.getPerson.mockResolvedValue(undefined);
+    const agent = await loggedInAgent();
+
+    const res = await agent.post("/api/workspaces/7/items").send({ itemType: "person", entityId: 999 });
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe("Person not found");
+    expect(mockedStorage.addWorkspaceItem).not.toHaveBeenCalled();
+  });
+
+  it("POST /api/workspaces/:id/items requires text for notes", async () => {
+    const agent = await loggedInAgent();
+
+    const res = await agent.post("/api/workspaces/7/items").send({ itemType: "note" });
+    expect(res.status).toBe(400);
+    expect(mockedStorage.addWorkspaceItem).not.toHaveBeenCalled();
+  });
+
+  it("PUT /api/workspaces/:id/items/order reorders items in an owned workspace", async () => {
+    mockedStorage.getWorkspace.mockResolvedValue(workspace);
+    const agent = await loggedInAgent();
+
+    const res = await agent.put("/api/workspaces/7/items/order").send({ itemIds: [2, 1] });
+    expect(res.status).toBe(200);
+    expect(mockedStorage.reorderWorkspaceItems).toHaveBeenCalledWith(7, [2, 1]);
+  });
+
+  it("PUT /api/workspaces/:id/items/order rejects non-numeric IDs", async () => {
+    const agent = await loggedInAgent();
+
+    const res = await agent.put("/api/workspaces/7/items/order").send({ itemIds: ["a"] });
+    expect(res.status).toBe(400);
+    expect(mockedStorage.reorderWorkspaceItems).not.toHaveBeenCalled();
+  });
+
+  it("GET /api/export/workspaces/:id returns items in order as CSV", async () => {
+    mockedStorage.getWorkspaceDetail.mockResolvedValue(detail);
+    const agent = await loggedInAgent();
+
+    const res = await agent.get("/api/export/workspaces/7?format=csv");
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/csv");
+    const lines = res.text.split("\n");
+    expect(lines[0]).toBe("position,type,id,name_or_title,detail,comment");
+    expect(lines[1]).toBe('1,person,1,Test Person,associate,"Pilot, per log"');
+    expect(lines[2]).toBe("2,note,,,Cross-check dates,");
+  });
+
+  it("GET /api/export/workspaces/:id builds an Obsidian vault with an index note", async () => {
+    mockedStorage.getWorkspaceDetail.mockResolvedValue(detail);
+    mockedStorage.getPersons.mockResolvedValue([mockPerson]);
+    mockedStorage.getWorkspaceVisualization.mockResolvedValue({ persons: [], connections: [], events: [] });
+    mockedStorage.getAnnotations.mockResolvedValue([]);
+    const agent = await loggedInAgent();
+
+    const res = await agent
+      .get("/api/export/workspaces/7?format=obsidian")
+      .buffer(true)
+      .parse((r, cb) => {
+        const chunks: Buffer[] = [];
+        r.on("data", (c: Buffer) => chunks.push(c));
+        r.on("end", () => cb(null, Buffer.concat(chunks)));
+      });
+    expect(res.status).toBe(200);
+    const archive = gunzipSync(res.body).toString("utf8");
+    expect(archive).toContain("Flight logs/Flight logs.md");
+    expect(archive).toContain("- **Person:** [[Test Person]]");
+    expect(archive).toContain("> Cross-check dates");
+    expect(archive).toContain("Flight logs/Persons/Test Person.md");
+  });
+
+  it("GET /api/export/workspaces/:id rejects unknown formats", async () => {
+    const agent = await loggedInAgent();
+
+    const res = await agent.get("/api/export/workspaces/7?format=xml");
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("Auth routes", () => {
+  it("registers a user with a hashed password and migrates anonymous data", async () => {
+    mockedStorage.getUserByUsername.mockResolvedValue(undefined);
+    mockedStorage.createUser.mockImplementation(async (u) => ({ id: "user-2", ...u }));
+    mockedStorage.claimAnonymousData.mockResolvedValue({ bookmarks: 2, votes: 0, personVotes: 0 });
+
+    const res = await request(app)
+      .post("/api/auth/register")
+      .send({ username: "newbie", password: "long enough", clientId: "client-abc" });
+    expect(res.status).toBe(201);
+    expect(res.body).toEqual({ id: "user-2", username: "newbie", isAdmin: false });
+
+    const stored = mockedStorage.createUser.mock.calls[0][0];
+    expect(stored.password).not.toBe("long enough");
+    expect(mockedStorage.claimAnonymousData).toHaveBeenCalledWith("client-abc", "user-2");
+  });
+
+  it("rejects short passwords", async () => {
+    const res = await request(app)
+      .post("/api/auth/register")
+      .send({ username: "newbie", password: "short" });
+    expect(res.status).toBe(400);
+    expect(mockedStorage.createUser).not.toHaveBeenCalled();
+  });
+
+  it("rejects duplicate usernames", async () => {
+    mockedStorage.getUserByUsername.mockResolvedValue(testUser);
+
+    const res = await request(app)
+      .post("/api/auth/register")
+      .send({ username: "tester", password: "long enough" });
+    expect(res.status).toBe(409);
+  });
+
+  it("answers 409 when a concurrent registration takes the username first", async () => {
+    mockedStorage.getUserByUsername.mockResolvedValue(undefined);
+    mockedStorage.createUser.mockRejectedValue(Object.assign(new Error("duplicate key value"), { code: "23505" }));
+
+    const res = await request(app)
+      .post("/api/auth/register")
+      .send({ username: "newbie", password: "long enough" });
+    expect(res.status).toBe(409);
+    expect(res.body.error).toBe("Username already taken");
+  });
+
+  it("rejects a wrong password", async () => {
+    mockedStorage.getUserByUsername.mockResolvedValue(testUser);
+
+    const res = await request(app)
+      .post("/api/auth/login")
+      .send({ username: "tester", password: "wrong password" });
+    expect(res.status).toBe(401);
+  });
+
+  it("returns the session user without the password hash", async () => {
+    const agent = await loggedInAgent();
+
+    const res = await agent.get("/api/auth/user");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ id: "user-1", username: "tester", isAdmin: false });
+  });
+
+  it("flags accounts marked is_admin", async () => {
+    const agent = await loggedInAgent(adminUser);
+
+    const res = await agent.get("/api/auth/user");
+    expect(res.body).toEqual({ id: "user-9", username: "admin", isAdmin: true });
+  });
+
+  it("logs out", async () => {
+    const agent = await loggedInAgent();
+
+    await agent.post("/api/auth/logout").expect(200);
+    const res = await agent.get("/api/auth/user");
+    expect(res.status).toBe(401);
+  });
 });
 
 describe("GET /api/pipeline/jobs", () => {
   it("returns pipeline jobs", async () => {
     mockedStorage.getPipelineJobs.mockResolvedValue([]);
+    const agent = await loggedInAgent(adminUser);
 
-    const res = await request(app).get("/api/pipeline/jobs");
+    const res = await agent.get("/api/pipeline/jobs");
     expect(res.status).toBe(200);
     expect(res.body).toEqual([]);
+    expect(mockedStorage.getPipelineJobs).toHaveBeenCalledWith({ status: undefined, stage: undefined, runId: undefined, limit: 500 });
+  });
+
+  it("filters by run, stage and status", async () => {
+    mockedStorage.getPipelineJobs.mockResolvedValue([]);
+    const agent = await loggedInAgent(adminUser);
+
+    await agent.get("/api/pipeline/jobs?runId=4&stage=process&status=failed&limit=5000");
+    expect(mockedStorage.getPipelineJobs).toHaveBeenCalledWith({ status: "failed", stage: "process", runId: 4, limit: 1000 });
+  });
+
+  it("returns 400 for an invalid run ID", async () => {
+    const agent = await loggedInAgent(adminUser);
+
+    const res = await agent.get("/api/pipeline/jobs?runId=abc");
+    expect(res.status).toBe(400);
+    expect(res.body).toEqual({ error: "Invalid run ID" });
+  });
+});
+
+describe("GET /api/pipeline/runs", () => {
+  const run = {
+    id: 4,
+    stages: ["download-torrent", "process"],
+    config: {},
+    status: "running",
+    stageProgress: [
+      { stage: "download-torrent", total: 12, pending: 0, running: 0, completed: 12, failed: 0, blocked: 0 },
+      { stage: "process", total: 12, pending: 8, running: 1, completed: 2, failed: 1, blocked: 0 },
+    ],
+  };
+
+  it("returns recent runs with stage progress", async () => {
+    mockedStorage.getPipelineRuns.mockResolvedValue([run]);
+    const agent = await loggedInAgent(adminUser);
+
+    const res = await agent.get("/api/pipeline/runs");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual([run]);
+    expect(mockedStorage.getPipelineRuns).toHaveBeenCalledWith(20);
+  });
+
+  it("returns one run", async () => {
+    mockedStorage.getPipelineRunProgress.mockResolvedValue(run);
+    const agent = await loggedInAgent(adminUser);
+
+    const res = await agent.get("/api/pipeline/runs/4");
+    expect(res.status).toBe(200);
+    expect(res.body.stageProgress[1]).toMatchObject({ stage: "process", failed: 1 });
+  });
+
+  it("returns 404 for an unknown run", async () => {
+    mockedStorage.getPipelineRunProgress.mockResolvedValue(undefined);
+    const agent = await loggedInAgent(adminUser);
+
+    const res = await agent.get("/api/pipeline/runs/999");
+    expect(res.status).toBe(404);
+  });
+
+  it("returns 400 for an invalid ID", async () => {
+    const agent = await loggedInAgent(adminUser);
+
+    const res = await agent.get("/api/pipeline/runs/abc");
+    expect(res.status).toBe(400);
   });
 });
 
@@ -492,21 +1516,121 @@ describe("GET /api/pipeline/stats", () => {
   it("returns pipeline stats", async () => {
     const stats = { pending: 5, running: 1, completed: 100, failed: 2 };
     mockedStorage.getPipelineStats.mockResolvedValue(stats);
+    const agent = await loggedInAgent(adminUser);
 
-    const res = await request(app).get("/api/pipeline/stats");
+    const res = await agent.get("/api/pipeline/stats");
     expect(res.status).toBe(200);
     expect(res.body).toEqual(stats);
   });
 });
 
+describe("Pipeline admin routes", () => {
+  it("requires a signed-in user", async () => {
+    for (const path of ["/api/pipeline/throughput", "/api/pipeline/jobs", "/api/pipeline/runs", "/api/pipeline/runs/4", "/api/pipeline/stats"]) {
+      expect((await request(app).get(path)).status).toBe(401);
+    }
+    expect(mockedStorage.getPipelineJobs).not.toHaveBeenCalled();
+  });
+
+  it("requires an admin", async () => {
+    const agent = await loggedInAgent(testUser);
+
+    const res = await agent.get("/api/pipeline/throughput");
+    expect(res.status).toBe(403);
+    expect(res.body).toEqual({ error: "Admin access required" });
+    expect(mockedStorage.getPipelineThroughput).not.toHaveBeenCalled();
+  });
+
+  it("returns throughput for a clamped window", async () => {
+    const throughput = { hours: 168, stages: [], hourly: [] };
+    mockedStorage.getPipelineThroughput.mockResolvedValue(throughput);
+    const agent = await loggedInAgent(adminUser);
+
+    const res = await agent.get("/api/pipeline/throughput?hours=1000");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(throughput);
+    expect(mockedStorage.getPipelineThroughput).toHaveBeenCalledWith(168);
+  });
+
+  it("retries failed jobs", async () => {
+    mockedStorage.retryPipelineJobs.mockResolvedValue(2);
+    const agent = await loggedInAgent(adminUser);
+
+    const res = await agent.post("/api/pipeline/jobs/retry").send({ ids: [4, 5] });
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ retried: 2 });
+    expect(mockedStorage.retryPipelineJobs).toHaveBeenCalledWith([4, 5]);
+  });
+
+  it("rejects a retry without job IDs", async () => {
+    const agent = await loggedInAgent(adminUser);
+
+    const res = await agent.post("/api/pipeline/jobs/retry").send({ ids: [] });
+    expect(res.status).toBe(400);
+    expect(mockedStorage.retryPipelineJobs).not.toHaveBeenCalled();
+  });
+
+  it("changes a job's priority", async () => {
+    mockedStorage.setPipelineJobPriority.mockResolvedValue({ id: 7, priority: 5 } as any);
+    const agent = await loggedInAgent(adminUser);
+
+    const res = await agent.patch("/api/pipeline/jobs/7").send({ priority: 5 });
+    expect(res.status).toBe(200);
+    expect(mockedStorage.setPipelineJobPriority).toHaveBeenCalledWith(7, 5);
+  });
+
+  it("returns 404 for an unknown job and 400 for a bad priority", async () => {
+    mockedStorage.setPipelineJobPriority.mockResolvedValue(undefined);
+    const agent = await loggedInAgent(adminUser);
+
+    expect((await agent.patch("/api/pipeline/jobs/999").send({ priority: 1 })).status).toBe(404);
+    expect((await agent.patch("/api/pipeline/jobs/7").send({ priority: 1.5 })).status).toBe(400);
+  });
+
+  it("returns monthly AI spend", async () => {
+    const spend = [{ period: "2026-10", model: "deepseek-chat", jobType: "ai_analysis", costCents: 420, inputTokens: 1000, outputTokens: 200 }];
+    mockedStorage.getBudgetSpend.mockResolvedValue(spend);
+    const agent = await loggedInAgent(adminUser);
+
+    const res = await agent.get("/api/budget/spend?period=month");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(spend);
+    expect(mockedStorage.getBudgetSpend).toHaveBeenCalledWith("month", 12);
+  });
+});
+
 describe("GET /api/budget", () => {
   it("returns budget summary", async () => {
     const summary = { totalCostCents: 500, totalInputTokens: 100000, totalOutputTokens: 50000, byModel: { "deepseek-chat": 500 } };
     mockedStorage.getBudgetSummary.mockResolvedValue(summary);
+    mockedStorage.getBudgetPolicyUsage.mockResolvedValue([]);
 
     const res = await request(app).get("/api/budget");
     expect(res.status).toBe(200);
-    expect(res.body).toEqual(summary);
+    expect(res.body).toEqual({ ...summary, policies: [] });
+  });
+
+  it("lists the headroom left under each policy", async () => {
+    mockedStorage.getBudgetSummary.mockResolvedValue({ totalCostCents: 0, totalInputTokens: 0, totalOutputTokens: 0, byModel: {} });
+    mockedStorage.getBudgetPolicyUsage.mockResolvedValue([{
+      policy: {
+        id: 1, name: "Batch AI analysis", jobType: "ai_analysis", model: null, dataSet: null,
+        dailyCapCents: null, monthlyCapCents: 500, softLimitPercent: 80, enabled: true, createdAt: new Date(),
+      },
+      spentTodayCents: 12.5,
+      spentMonthCents: 420.25,
+    }]);
+
+    const res = await request(app).get("/api/budget");
+    expect(res.status).toBe(200);
+    expect(res.body.policies).toHaveLength(1);
+    expect(res.body.policies[0]).toMatchObject({
+      name: "Batch AI analysis",
+      remainingDailyCents: null,
+      remainingMonthlyCents: 79.75,
+      state: "warning",
+    });
+    expect(mockedStorage.getBudgetPolicyUsage).toHaveBeenCalledWith(expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/));
   });
 });
 
@@ -568,6 +1692,39 @@ describe("GET /api/ai-analyses/:fileName", () => {
   });
 });
 
+describe("GET /api/ai-analyses/:fileName/versions", () => {
+  const version = (n: number, persons: string[]) =>
+    ({ version: n, tier: 1, model: "deepseek-chat", persons: persons.map((name) => ({ name })), analyzedAt: null }) as any;
+
+  it("lists versions and diffs the newest against the current one", async () => {
+    mockedStorage.getAIAnalysisVersions.mockResolvedValue({
+      currentVersion: 1,
+      versions: [version(2, ["Jeffrey Epstein", "Ghislaine Maxwell"]), version(1, ["Jeffrey Epstein"])],
+    });
+
+    const res = await request(app).get("/api/ai-analyses/test.json/versions");
+    expect(res.status).toBe(200);
+    expect(res.body.versions.map((v: any) => [v.version, v.current])).toEqual([[2, false], [1, true]]);
+    expect(res.body.diff).toMatchObject({ from: 1, to: 2, persons: { added: [{ name: "Ghislaine Maxwell" }], removed: [] } });
+  });
+
+  it("rejects non-numeric versions", async () => {
+    const res = await request(app).get("/api/ai-analyses/test.json/versions?from=abc");
+    expect(res.status).toBe(400);
+    expect(mockedStorage.getAIAnalysisVersions).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for an unanalyzed file or an unknown version", async () => {
+    mockedStorage.getAIAnalysisVersions.mockResolvedValue({ currentVersion: null, versions: [] });
+    expect((await request(app).get("/api/ai-analyses/missing.json/versions")).status).toBe(404);
+
+    mockedStorage.getAIAnalysisVersions.mockResolvedValue({ currentVersion: 1, versions: [version(1, [])] });
+    const res = await request(app).get("/api/ai-analyses/test.json/versions?from=7");
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe("Unknown analysis version 7");
+  });
+});
+
 describe("Export routes", () => {
   it("GET /api/export/persons returns JSON by default", async () => {
     mockedStorage.getPersons.mockResolvedValue([mockPerson]);
@@ -724,6 +1881,21 @@ describe("Typesense-first search routes", () => {
     expect(mockedStorage.searchPages).toHaveBeenCalled();
   });
 
+  it("GET /api/search/pages uses vector search in semantic mode", async () => {
+    mockIsTypesenseConfigured.mockReturnValue(true);
+    mockTypesenseSemanticSearchPages.mockResolvedValue({ results: [], total: 0, page: 1, totalPages: 0 });
+
+    const res = await request(app).get("/api/search/pages?q=payments to recruiters&mode=semantic&dataSet=set-a");
+    expect(res.status).toBe(200);
+    expect(mockTypesenseSemanticSearchPages).toHaveBeenCalledWith(
+      "payments to recruiters",
+      1,
+      20,
+      expect.objectContaining({ dataSet: "set-a" }),
+    );
+    expect(mockTypesenseSearchPages).not.toHaveBeenCalled();
+  });
+
   it("GET /api/search/pages passes facet filter params to Typesense", async () => {
     mockIsTypesenseConfigured.mockReturnValue(true);
     const tsResults = { results: [], total: 0, page: 1, totalPages: 0 };
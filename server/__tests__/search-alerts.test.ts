@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { SearchAlert } from "@shared/schema";
+
+const mockQuery = vi.fn();
+
+vi.mock("../db", () => ({
+  pool: { query: (...args: any[]) => mockQuery(...args) },
+}));
+
+vi.mock("../storage", () => ({
+  storage: { evaluateSearchAlerts: vi.fn() },
+}));
+
+import { runSearchAlerts, parseSearchAlertPayload, SEARCH_ALERTS_CHANNEL } from "../search-alerts";
+import { storage } from "../storage";
+
+const mockedStorage = vi.mocked(storage);
+
+function makeAlert(id: number, userId: string): SearchAlert {
+  return {
+    id,
+    userId,
+    bookmarkId: id,
+    searchQuery: "island",
+    newPageCount: 1,
+    newDocumentCount: 1,
+    documentIds: [1],
+    createdAt: new Date(),
+    readAt: null,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("runSearchAlerts", () => {
+  it("notifies each affected user once", async () => {
+    mockedStorage.evaluateSearchAlerts.mockResolvedValue([
+      makeAlert(1, "user-1"),
+      makeAlert(2, "user-1"),
+      makeAlert(3, "user-2"),
+    ]);
+
+    const count = await runSearchAlerts();
+    expect(count).toBe(3);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain("pg_notify");
+    expect(params[0]).toBe(SEARCH_ALERTS_CHANNEL);
+    expect(JSON.parse(params[1])).toEqual({ userIds: ["user-1", "user-2"] });
+  });
+
+  it("splits large user lists across notifications", async () => {
+    const alerts = Array.from({ length: 150 }, (_, i) => makeAlert(i + 1, `user-${i}`));
+    mockedStorage.evaluateSearchAlerts.mockResolvedValue(alerts);
+
+    await runSearchAlerts();
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(mockQuery.mock.calls[1][1][1]).userIds).toHaveLength(50);
+  });
+
+  it("does not notify when no alerts were recorded", async () => {
+    mockedStorage.evaluateSearchAlerts.mockResolvedValue([]);
+
+    const count = await runSearchAlerts();
+    expect(count).toBe(0);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe("parseSearchAlertPayload", () => {
+  it("returns the user IDs from a payload", () => {
+    expect(parseSearchAlertPayload('{"userIds":["a","b"]}')).toEqual(["a", "b"]);
+  });
+
+  it("drops non-string IDs", () => {
+    expect(parseSearchAlertPayload('{"userIds":["a",2,null]}')).toEqual(["a"]);
+  });
+
+  it("returns no IDs for missing or malformed payloads", () => {
+    expect(parseSearchAlertPayload(undefined)).toEqual([]);
+    expect(parseSearchAlertPayload("not json")).toEqual([]);
+    expect(parseSearchAlertPayload('{"users":["a"]}')).toEqual([]);
+  });
+});
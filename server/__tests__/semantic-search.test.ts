@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { chunkPageText, fuseHybridResults, parseSearchMode } from "../semantic-search";
+
+const hit = (documentId: number, pageNumber: number, headline = "") => ({ documentId, pageNumber, headline });
+
+describe("parseSearchMode", () => {
+  it("defaults to keyword", () => {
+    expect(parseSearchMode(undefined)).toBe("keyword");
+    expect(parseSearchMode("")).toBe("keyword");
+  });
+
+  it("accepts the known modes", () => {
+    expect(parseSearchMode("semantic")).toBe("semantic");
+    expect(parseSearchMode("hybrid")).toBe("hybrid");
+  });
+
+  it("rejects anything else", () => {
+    expect(parseSearchMode("vector")).toBeNull();
+    expect(parseSearchMode(["semantic"])).toBeNull();
+  });
+});
+
+describe("chunkPageText", () => {
+  it("returns no chunks for a blank page", () => {
+    expect(chunkPageText("  \n\t ")).toEqual([]);
+  });
+
+  it("keeps a short page as one chunk with whitespace collapsed", () => {
+    expect(chunkPageText("Wire  transfer\n\nto recruiter")).toEqual(["Wire transfer to recruiter"]);
+  });
+
+  it("splits long text into overlapping chunks of whole words", () => {
+    const words = Array.from({ length: 60 }, (_, i) => `word${i}`);
+    const chunks = chunkPageText(words.join(" "), 100, 30);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(100);
+      for (const w of chunk.split(" ")) expect(words).toContain(w);
+    }
+    // Each chunk starts inside the previous one
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i - 1]).toContain(chunks[i].split(" ")[0]);
+    }
+    expect(chunks[chunks.length - 1].endsWith("word59")).toBe(true);
+  });
+});
+
+describe("fuseHybridResults", () => {
+  it("scales keyword scores to the best match and weights both sides", () => {
+    const fused = fuseHybridResults(
+      [{ hit: hit(1, 1), score: 200 }, { hit: hit(1, 2), score: 100 }],
+      [{ hit: hit(2, 5), score: 0.9 }],
+    );
+    expect(fused.map((p) => [p.hit.documentId, p.hit.pageNumber, p.score])).toEqual([
+      [1, 1, 0.5],
+      [2, 5, 0.45],
+      [1, 2, 0.25],
+    ]);
+  });
+
+  it("combines a page both sides found and keeps the keyword hit", () => {
+    const fused = fuseHybridResults(
+      [{ hit: hit(1, 1, "<mark>wire</mark>"), score: 50 }],
+      [{ hit: hit(1, 1, "wire"), score: 0.8 }, { hit: hit(3, 2), score: 0.6 }],
+    );
+    expect(fused[0]).toMatchObject({ keywordScore: 1, semanticScore: 0.8, score: 0.9 });
+    expect(fused[0].hit.headline).toBe("<mark>wire</mark>");
+    expect(fused).toHaveLength(2);
+  });
+
+  it("clamps similarities and honours the weight", () => {
+    const fused = fuseHybridResults([], [{ hit: hit(1, 1), score: 1.4 }, { hit: hit(1, 2), score: -0.2 }], 1);
+    expect(fused.map((p) => p.score)).toEqual([1, 0]);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { deflateRawSync } from "zlib";
+import {
+  excelSerialToIso,
+  gridToTable,
+  parseDelimited,
+  parseSpreadsheet,
+  renderTablePages,
+} from "../spreadsheet-parsing";
+
+/** Minimal ZIP writer (deflated entries, no CRC checking on read) for xlsx/ods fixtures. */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuf = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBuf.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBuf.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBuf, data);
+    centrals.push(central, nameBuf);
+    offset += local.length + nameBuf.length + data.length;
+  }
+  const centralDir = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDir.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, centralDir, end]);
+}
+
+describe("parseDelimited", () => {
+  it("handles quoted delimiters, doubled quotes, newlines and CRLF", () => {
+    const csv = 'Date,Passengers,Notes\r\n1997-03-01,"JE, GM","He said ""hi""\nthen left"\r\n';
+    expect(parseDelimited(csv)).toEqual([
+      ["Date", "Passengers", "Notes"],
+      ["1997-03-01", "JE, GM", 'He said "hi"\nthen left'],
+    ]);
+  });
+
+  it("detects tab and semicolon delimiters", () => {
+    expect(parseDelimited("a\tb\n1\t2")).toEqual([["a", "b"], ["1", "2"]]);
+    expect(parseDelimited("a;b\n1;2,5")).toEqual([["a", "b"], ["1", "2,5"]]);
+  });
+});
+
+describe("gridToTable", () => {
+  it("uses the first non-empty row as header, naming blank and repeated columns", () => {
+    const table = gridToTable("Ledger", [[], ["Date", "", "Amount", "amount"], ["1999-01-02", "x", "10"], ["", "", "", ""]]);
+    expect(table).toEqual({
+      name: "Ledger",
+      columns: ["Date", "Column 2", "Amount", "amount (2)"],
+      rows: [["1999-01-02", "x", "10", ""]],
+    });
+  });
+
+  it("returns null for empty sheets", () => {
+    expect(gridToTable("Empty", [["", " "]])).toBeNull();
+  });
+});
+
+describe("parseSpreadsheet", () => {
+  it("reads xlsx sheets with shared strings, sparse cells and date-formatted serials", () => {
+    const buffer = zip({
+      "xl/workbook.xml": '<workbook xmlns:r="r"><sheets><sheet name="Manifest" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      "xl/_rels/workbook.xml.rels": '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      "xl/sharedStrings.xml": "<sst><si><t>Date</t></si><si><t>Passenger</t></si><si><r><t>Jeffrey </t></r><r><t>Epstein</t></r></si></sst>",
+      "xl/styles.xml": '<styleSheet><cellXfs><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs></styleSheet>',
+      "xl/worksheets/sheet1.xml": [
+        "<worksheet><sheetData>",
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>',
+        '<row r="3"><c r="A3" s="1"><v>35490</v></c><c r="B3"><v>12</v></c><c r="C3" t="s"><v>2</v></c></row>',
+        "</sheetData></worksheet>",
+      ].join(""),
+    });
+
+    expect(parseSpreadsheet(buffer, "EFTA00001.xlsx")).toEqual([
+      { name: "Manifest", columns: ["Date", "Column 2", "Passenger"], rows: [["1997-03-01", "12", "Jeffrey Epstein"]] },
+    ]);
+  });
+
+  it("reads ods sheets, expanding repeated cells", () => {
+    const buffer = zip({
+      "content.xml": [
+        "<office:document-content><office:body><office:spreadsheet>",
+        '<table:table table:name="Ledger">',
+        "<table:table-row><table:table-cell><text:p>Date</text:p></table:table-cell><table:table-cell><text:p>Amount</text:p></table:table-cell></table:table-row>",
+        '<table:table-row><table:table-cell office:value-type="date" office:date-value="2002-05-04"/><table:table-cell office:value-type="float" office:value="250.5"/><table:table-cell table:number-columns-repeated="16000"/></table:table-row>',
+        '<table:table-row table:number-rows-repeated="1048000"><table:table-cell table:number-columns-repeated="1024"/></table:table-row>',
+        "</table:table></office:spreadsheet></office:body></office:document-content>",
+      ].join(""),
+    });
+
+    expect(parseSpreadsheet(buffer, "ledger.ods")).toEqual([
+      { name: "Ledger", columns: ["Date", "Amount"], rows: [["2002-05-04", "250.5"]] },
+    ]);
+  });
+
+  it("names CSV tables after the file and rejects binary xls workbooks", () => {
+    expect(parseSpreadsheet(Buffer.from("a\tb\n1\t2"), "log.tsv")[0].name).toBe("log");
+    expect(() => parseSpreadsheet(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0, 0]), "old.xls")).toThrow(/not supported/);
+  });
+});
+
+describe("excelSerialToIso", () => {
+  it("converts serials in both date systems and keeps times", () => {
+    expect(excelSerialToIso(35490)).toBe("1997-03-01");
+    expect(excelSerialToIso(35490.5)).toBe("1997-03-01 12:00");
+    expect(excelSerialToIso(34028, true)).toBe("1997-03-01");
+  });
+});
+
+describe("renderTablePages", () => {
+  it("repeats the header on every page and flattens line breaks", () => {
+    const pages = renderTablePages([{ name: "S", columns: ["A", "B"], rows: [["1", "x\ny"], ["2", ""], ["3", ""]] }], 2);
+    expect(pages).toEqual(["S\nA\tB\n1\tx y\n2\t", "S\nA\tB\n3\t"]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { detectTables, type TextBox } from "../table-detection";
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const LINE = 10;
+
+/** Boxes for one line; each cell is [x, text], split into words ~5pt per character apart. */
+function line(y: number, cells: [number, string][]): TextBox[] {
+  return cells.flatMap(([x, text]) => {
+    let at = x;
+    return text.split(" ").map((word) => {
+      const box = { text: word, x: at, y, width: word.length * 5, height: LINE };
+      at += word.length * 5 + 3;
+      return box;
+    });
+  });
+}
+
+describe("detectTables", () => {
+  it("splits aligned lines into columns and uses the first as header", () => {
+    const boxes = [
+      ...line(50, [[50, "Flight log for March 1997, prepared by the pilot"]]),
+      ...line(80, [[50, "Date"], [160, "From"], [260, "To"], [360, "Passengers"]]),
+      ...line(95, [[50, "03/01/97"], [160, "PBI"], [260, "TEB"], [360, "JE GM"]]),
+      ...line(110, [[50, "03/04/97"], [160, "TEB"], [260, "CMH"]]),
+      ...line(125, [[50, "03/09/97"], [160, "CMH"], [260, "PBI"], [360, "JE"]]),
+      ...line(160, [[50, "Signed and certified as a true copy of the record"]]),
+    ];
+
+    const tables = detectTables(boxes, PAGE_WIDTH, PAGE_HEIGHT);
+    expect(tables).toHaveLength(1);
+    expect(tables[0].columns).toEqual(["Date", "From", "To", "Passengers"]);
+    expect(tables[0].rows).toEqual([
+      ["03/01/97", "PBI", "TEB", "JE GM"],
+      ["03/04/97", "TEB", "CMH", ""],
+      ["03/09/97", "CMH", "PBI", "JE"],
+    ]);
+    expect(tables[0].bbox.y).toBeCloseTo(80 / PAGE_HEIGHT);
+    expect(tables[0].bbox.x).toBeCloseTo(50 / PAGE_WIDTH);
+  });
+
+  it("splits tables separated by a large vertical gap", () => {
+    const table = (top: number) => [0, 1, 2].flatMap((i) =>
+      line(top + i * 15, [[50, `a${i}`], [150, `b${i}`], [250, `c${i}`]]));
+    expect(detectTables([...table(50), ...table(300)], PAGE_WIDTH, PAGE_HEIGHT)).toHaveLength(2);
+  });
+
+  it("ignores prose and two-column layouts", () => {
+    const prose = [0, 1, 2, 3].flatMap((i) => line(50 + i * 15, [[50, "the quick brown fox jumps over the dog"]]));
+    const twoColumn = [0, 1, 2, 3].flatMap((i) => line(200 + i * 15, [[50, "left column text"], [320, "right column text"]]));
+    expect(detectTables([...prose, ...twoColumn], PAGE_WIDTH, PAGE_HEIGHT)).toEqual([]);
+  });
+
+  it("returns nothing for pages without text", () => {
+    expect(detectTables([{ text: " ", x: 0, y: 0, width: 5, height: 10 }], PAGE_WIDTH, PAGE_HEIGHT)).toEqual([]);
+  });
+});
@@ -145,6 +145,82 @@ describe("typesense module", () => {
     });
   });
 
+  describe("CHUNKS_SCHEMA", () => {
+    it("embeds chunk content with a built-in model", async () => {
+      const { CHUNKS_SCHEMA, CHUNKS_COLLECTION } = await import("../typesense");
+      expect(CHUNKS_COLLECTION).toBe("page_chunks");
+      const embedding = CHUNKS_SCHEMA.fields!.find((f: any) => f.name === "embedding") as any;
+      expect(embedding.type).toBe("float[]");
+      expect(embedding.embed.from).toEqual(["content"]);
+      expect(embedding.embed.model_config.model_name).toMatch(/^ts\//);
+      expect((CHUNKS_SCHEMA.fields!.find((f: any) => f.name === "pg_id") as any).facet).toBe(true);
+    });
+  });
+
+  describe("typesenseSemanticSearchPages", () => {
+    const chunkHit = (pgId: number, pageNumber: number, content: string, distance: number) => ({
+      group_key: [pgId],
+      hits: [{
+        document: {
+          pg_id: pgId, document_id: 7, page_number: pageNumber, chunk_index: 0, content,
+          title: "EFTA00007", document_type: "financial record", is_viewable: true,
+        },
+        vector_distance: distance,
+      }],
+    });
+
+    it("groups chunks by page and escapes the chunk text", async () => {
+      process.env.TYPESENSE_HOST = "localhost";
+      process.env.TYPESENSE_API_KEY = "test-key";
+      mockSearch.mockResolvedValue({
+        grouped_hits: [chunkHit(1, 3, "Wire <b>transfer</b> to recruiter", 0.2)],
+        found: 1,
+        facet_counts: [],
+      });
+
+      const { typesenseSemanticSearchPages } = await import("../typesense");
+      const result = await typesenseSemanticSearchPages("payments to recruiters", 1, 20);
+
+      expect(mockSearch).toHaveBeenCalledWith(expect.objectContaining({
+        q: "payments to recruiters",
+        query_by: "embedding",
+        group_by: "pg_id",
+        exclude_fields: "embedding",
+      }));
+      expect(result.total).toBe(1);
+      expect(result.results[0]).toMatchObject({ documentId: 7, pageNumber: 3 });
+      expect(result.results[0].headline).toBe("Wire &lt;b&gt;transfer&lt;/b&gt; to recruiter");
+    });
+
+    it("merges keyword and semantic hits in hybrid mode", async () => {
+      process.env.TYPESENSE_HOST = "localhost";
+      process.env.TYPESENSE_API_KEY = "test-key";
+      mockSearch
+        .mockResolvedValueOnce({
+          hits: [{
+            document: { document_id: 7, page_number: 1, content: "payments", title: "EFTA00007", document_type: "financial record" },
+            highlights: [{ field: "content", snippets: ["<mark>payments</mark>"] }],
+            text_match: 100,
+          }],
+          found: 1,
+          facet_counts: [],
+        })
+        .mockResolvedValueOnce({
+          grouped_hits: [chunkHit(2, 4, "money sent to recruiters", 0.1), chunkHit(1, 1, "payments", 0.5)],
+          found: 2,
+          facet_counts: [],
+        });
+
+      const { typesenseHybridSearchPages } = await import("../typesense");
+      const result = await typesenseHybridSearchPages("payments to recruiters", 1, 20);
+
+      // Page 1: 0.5 * 1 + 0.5 * 0.5; page 4: 0.5 * 0.9
+      expect(result.results.map((r) => r.pageNumber)).toEqual([1, 4]);
+      expect(result.results[0].headline).toBe("<mark>payments</mark>");
+      expect(result.total).toBe(2);
+    });
+  });
+
   describe("typesenseSearchPersons", () => {
     it("searches persons with correct query_by and weights", async () => {
       process.env.TYPESENSE_HOST = "localhost";
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
 import express from "express";
 import request from "supertest";
-import type { Person, Document, Connection, TimelineEvent } from "@shared/schema";
+import { gunzipSync } from "zlib";
+import type { Person, Document, Connection, TimelineEvent, Entity, EntityConnectionDetail } from "@shared/schema";
 
 // Mock storage
 vi.mock("../storage", () => ({
@@ -10,6 +11,27 @@ vi.mock("../storage", () => ({
     getPersons: vi.fn(),
     getPersonsPaginated: vi.fn(),
     getPersonWithDetails: vi.fn(),
+    getPerson: vi.fn(),
+    getPersonMentions: vi.fn(),
+    getEmails: vi.fn(),
+    getEmail: vi.fn(),
+    getEmailThread: vi.fn(),
+    getDocumentEmailThreads: vi.fn(),
+    getCommunicationGraph: vi.fn(),
+    getCommunicationTimeline: vi.fn(),
+    getDocumentTables: vi.fn(),
+    getDocumentTableRows: vi.fn(),
+    getDocumentTableCells: vi.fn(),
+    searchDocumentTables: vi.fn(),
+    getFlights: vi.fn(),
+    getFlight: vi.fn(),
+    getCoPassengers: vi.fn(),
+    getLocations: vi.fn(),
+    getLocation: vi.fn(),
+    getLocationDocuments: vi.fn(),
+    getTimelineEventSources: vi.fn(),
+    getPersonMentionPages: vi.fn(),
+    getPagesContent: vi.fn(),
     getDocuments: vi.fn(),
     getDocumentsPaginated: vi.fn(),
     getDocumentsCursor: vi.fn(),
@@ -23,12 +45,24 @@ vi.mock("../storage", () => ({
     getTimelineFiltered: vi.fn(),
     getTimelineEvents: vi.fn(),
     getNetworkData: vi.fn(),
+    getNetworkPaths: vi.fn(),
+    getNetworkAnalytics: vi.fn(),
+    getEgoNetwork: vi.fn(),
     search: vi.fn(),
     searchWithTypesense: vi.fn(),
     searchPages: vi.fn(),
     getAIAnalysisList: vi.fn(),
     getAIAnalysis: vi.fn(),
+    getAIAnalysisVersions: vi.fn(),
     getAIAnalysisAggregate: vi.fn(),
+    getEntitiesPaginated: vi.fn(),
+    getEntityTypes: vi.fn(),
+    getEntity: vi.fn(),
+    getEntityWithDetails: vi.fn(),
+    getEntityDocuments: vi.fn(),
+    getEntityConnections: vi.fn(),
+    getEntityNetworkData: vi.fn(),
+    getAnnotations: vi.fn(),
   },
 }));
 
@@ -47,6 +81,8 @@ vi.mock("../typesense", () => ({
   typesenseSearchInstant: vi.fn(),
   typesenseDocumentSearch: vi.fn(),
   typesenseSearchPersons: vi.fn(),
+  typesenseSemanticSearchPages: vi.fn(),
+  typesenseHybridSearchPages: vi.fn(),
   getTypesenseClient: vi.fn(() => null),
 }));
 
@@ -112,6 +148,8 @@ const mockDocument: Document = {
   mimeType: "application/pdf",
   extractedTextLength: 500,
   aiCostCents: 10,
+  redactionCount: null,
+  redactionDensity: null,
 };
 
 const mockConnection = {
@@ -129,12 +167,45 @@ const mockConnection = {
 const mockEvent: TimelineEvent = {
   id: 1,
   date: "2008-06-30",
+  dateEarliest: "2008-06-30",
+  dateLatest: "2008-06-30",
+  datePrecision: "day",
+  dateOriginal: "2008-06-30",
   title: "Test Event",
   description: "A test event",
   category: "legal",
   personIds: [1],
   documentIds: [1],
   significance: 5,
+  locationIds: null,
+  corroboration: 1,
+  sourcesDisagree: false,
+  mergedFrom: null,
+};
+
+const mockEntity: Entity = {
+  id: 1,
+  name: "Lolita Express",
+  entityType: "aircraft",
+  aliases: ["N908JE"],
+  description: "Boeing 727",
+  attributes: null,
+  documentCount: 12,
+  connectionCount: 2,
+};
+
+const mockEntityConnection: EntityConnectionDetail = {
+  id: 1,
+  entityId: 1,
+  personId: 1,
+  otherEntityId: null,
+  connectionType: "passenger",
+  description: null,
+  strength: 3,
+  documentIds: [1],
+  entityName: "Lolita Express",
+  personName: "Test Person",
+  otherEntityName: null,
 };
 
 // -- Health & Stats --
@@ -226,6 +297,133 @@ describe("GET /api/v1/persons/:id", () => {
   });
 });
 
+describe("GET /api/v1/persons/:id/mentions", () => {
+  it("returns paginated mentions in envelope", async () => {
+    mockedStorage.getPerson.mockResolvedValue(mockPerson);
+    mockedStorage.getPersonMentions.mockResolvedValue({
+      data: [{
+        id: 1, personId: 1, documentId: 1, pageNumber: 3, charStart: 10, charEnd: 21,
+        surfaceForm: "Test Person", documentTitle: "Test Document",
+        snippet: "Flight with Test Person to", snippetOffset: 12,
+      }],
+      total: 1, page: 1, totalPages: 1,
+    });
+
+    const res = await request(app).get("/api/v1/persons/1/mentions?limit=500");
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].pageNumber).toBe(3);
+    expect(res.body.meta.total).toBe(1);
+    expect(mockedStorage.getPersonMentions).toHaveBeenCalledWith(1, 1, 100);
+  });
+
+  it("returns 404 when person not found", async () => {
+    mockedStorage.getPerson.mockResolvedValue(undefined);
+
+    const res = await request(app).get("/api/v1/persons/999/mentions");
+    expect(res.status).toBe(404);
+    expect(mockedStorage.getPersonMentions).not.toHaveBeenCalled();
+  });
+});
+
+// -- Entities --
+
+describe("GET /api/v1/entities", () => {
+  it("returns paginated entities in envelope", async () => {
+    mockedStorage.getEntitiesPaginated.mockResolvedValue({
+      data: [mockEntity], total: 1, page: 1, totalPages: 1,
+    });
+
+    const res = await request(app).get("/api/v1/entities?page=1&limit=10");
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].name).toBe("Lolita Express");
+    expect(res.body.meta.total).toBe(1);
+  });
+
+  it("passes entityType filter to storage", async () => {
+    mockedStorage.getEntitiesPaginated.mockResolvedValue({
+      data: [], total: 0, page: 1, totalPages: 0,
+    });
+
+    await request(app).get("/api/v1/entities?entityType=aircraft");
+    expect(mockedStorage.getEntitiesPaginated).toHaveBeenCalledWith(
+      expect.objectContaining({ entityType: "aircraft", page: 1, limit: 50 }),
+    );
+  });
+});
+
+describe("GET /api/v1/entities/types", () => {
+  it("returns entity types", async () => {
+    mockedStorage.getEntityTypes.mockResolvedValue([{ type: "aircraft", count: 4 }]);
+
+    const res = await request(app).get("/api/v1/entities/types");
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].type).toBe("aircraft");
+  });
+});
+
+describe("GET /api/v1/entities/:id", () => {
+  it("returns entity detail in envelope", async () => {
+    mockedStorage.getEntityWithDetails.mockResolvedValue({
+      ...mockEntity,
+      connections: [mockEntityConnection],
+    });
+
+    const res = await request(app).get("/api/v1/entities/1");
+    expect(res.status).toBe(200);
+    expect(res.body.data.entityType).toBe("aircraft");
+    expect(res.body.data.connections[0].personName).toBe("Test Person");
+  });
+
+  it("returns 400 for invalid ID", async () => {
+    const res = await request(app).get("/api/v1/entities/abc");
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("BAD_REQUEST");
+  });
+
+  it("returns 404 when not found", async () => {
+    mockedStorage.getEntityWithDetails.mockResolvedValue(undefined);
+
+    const res = await request(app).get("/api/v1/entities/999");
+    expect(res.status).toBe(404);
+    expect(res.body.error.code).toBe("NOT_FOUND");
+  });
+});
+
+describe("GET /api/v1/entities/:id/documents", () => {
+  it("strips internal fields from documents", async () => {
+    mockedStorage.getEntity.mockResolvedValue(mockEntity);
+    mockedStorage.getEntityDocuments.mockResolvedValue({
+      data: [{ ...mockDocument, context: "Flight log entry" }], total: 1, page: 1, totalPages: 1,
+    });
+
+    const res = await request(app).get("/api/v1/entities/1/documents");
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].context).toBe("Flight log entry");
+    expect(res.body.data[0].localPath).toBeUndefined();
+    expect(res.body.data[0].publicUrl).toBe("https://r2.example.com/documents/test.pdf");
+  });
+
+  it("returns 404 when entity not found", async () => {
+    mockedStorage.getEntity.mockResolvedValue(undefined);
+
+    const res = await request(app).get("/api/v1/entities/999/documents");
+    expect(res.status).toBe(404);
+    expect(mockedStorage.getEntityDocuments).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/v1/entities/:id/connections", () => {
+  it("returns resolved connections", async () => {
+    mockedStorage.getEntity.mockResolvedValue(mockEntity);
+    mockedStorage.getEntityConnections.mockResolvedValue([mockEntityConnection]);
+
+    const res = await request(app).get("/api/v1/entities/1/connections");
+    expect(res.status).toBe(200);
+    expect(res.body.data).toHaveLength(1);
+    expect(res.body.data[0].entityName).toBe("Lolita Express");
+  });
+});
+
 // -- Documents --
 
 describe("GET /api/v1/documents", () => {
@@ -254,6 +452,17 @@ describe("GET /api/v1/documents", () => {
       expect.objectContaining({ type: "legal-filing", dataSet: "set-a" }),
     );
   });
+
+  it("clamps minRedaction to a percentage and passes it as a fraction", async () => {
+    mockedStorage.getDocumentsFiltered.mockResolvedValue({
+      data: [], total: 0, page: 1, totalPages: 0,
+    });
+
+    await request(app).get("/api/v1/documents?minRedaction=250&sort=redaction");
+    expect(mockedStorage.getDocumentsFiltered).toHaveBeenCalledWith(
+      expect.objectContaining({ minRedaction: 1, sort: "redaction" }),
+    );
+  });
 });
 
 describe("GET /api/v1/documents/filters", () => {
@@ -287,6 +496,99 @@ describe("GET /api/v1/documents/:id", () => {
   });
 });
 
+describe("GET /api/v1/documents/:id/tables", () => {
+  const table = { id: 7, documentId: 1, position: 0, name: "Ledger", columns: ["Date", "Amount"], rowCount: 1 };
+
+  it("returns sheets in envelope", async () => {
+    mockedStorage.getDocumentTables.mockResolvedValue([table]);
+
+    const res = await request(app).get("/api/v1/documents/1/tables");
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].name).toBe("Ledger");
+  });
+
+  it("returns rows with pagination meta", async () => {
+    mockedStorage.getDocumentTableRows.mockResolvedValue({
+      table,
+      data: [{ id: 1, tableId: 7, rowIndex: 0, cells: ["2002-05-04", "250.5"] }],
+      total: 1,
+      page: 1,
+      totalPages: 1,
+    });
+
+    const res = await request(app).get("/api/v1/documents/1/tables/7/rows?limit=10&sort=1");
+    expect(res.status).toBe(200);
+    expect(res.body.data.rows[0].cells).toEqual(["2002-05-04", "250.5"]);
+    expect(res.body.meta.total).toBe(1);
+    expect(mockedStorage.getDocumentTableRows).toHaveBeenCalledWith(1, 7, expect.objectContaining({ limit: 10, sort: 1, order: "asc" }));
+  });
+
+  it("returns 400 for a non-numeric sort column", async () => {
+    const res = await request(app).get("/api/v1/documents/1/tables/7/rows?sort=Amount");
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("BAD_REQUEST");
+  });
+
+  it("returns 404 when the table is not in the document", async () => {
+    mockedStorage.getDocumentTableRows.mockResolvedValue(undefined);
+
+    const res = await request(app).get("/api/v1/documents/1/tables/99/rows");
+    expect(res.status).toBe(404);
+    expect(res.body.error.code).toBe("NOT_FOUND");
+  });
+});
+
+// -- Emails --
+
+describe("GET /api/v1/emails", () => {
+  it("passes filters to storage and returns envelope", async () => {
+    mockedStorage.getEmails.mockResolvedValue({ data: [], total: 0, page: 1, totalPages: 0 });
+
+    const res = await request(app).get("/api/v1/emails?personId=3&address=Jeevacation@gmail.com&search=island");
+    expect(res.status).toBe(200);
+    expect(res.body.meta.total).toBe(0);
+    expect(mockedStorage.getEmails).toHaveBeenCalledWith(
+      expect.objectContaining({ personId: 3, address: "Jeevacation@gmail.com", search: "island" }),
+    );
+  });
+
+  it("returns 400 for an invalid personId", async () => {
+    const res = await request(app).get("/api/v1/emails?personId=abc");
+    expect(res.status).toBe(400);
+    expect(mockedStorage.getEmails).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/v1/emails/:id", () => {
+  it("returns 404 when email not found", async () => {
+    mockedStorage.getEmail.mockResolvedValue(undefined);
+
+    const res = await request(app).get("/api/v1/emails/999");
+    expect(res.status).toBe(404);
+    expect(res.body.error.code).toBe("NOT_FOUND");
+  });
+});
+
+describe("GET /api/v1/emails/threads/:threadId", () => {
+  it("returns the thread in envelope", async () => {
+    mockedStorage.getEmailThread.mockResolvedValue({
+      threadId: "root@example.com", subject: "Dinner", messageCount: 1, firstSentAt: null, lastSentAt: null, emails: [],
+    });
+
+    const res = await request(app).get(`/api/v1/emails/threads/${encodeURIComponent("root@example.com")}`);
+    expect(res.status).toBe(200);
+    expect(res.body.data.subject).toBe("Dinner");
+    expect(mockedStorage.getEmailThread).toHaveBeenCalledWith("root@example.com");
+  });
+
+  it("returns 404 for an unknown thread", async () => {
+    mockedStorage.getEmailThread.mockResolvedValue(undefined);
+
+    const res = await request(app).get("/api/v1/emails/threads/missing");
+    expect(res.status).toBe(404);
+  });
+});
+
 // -- Connections --
 
 describe("GET /api/v1/connections", () => {
@@ -370,6 +672,31 @@ describe("GET /api/v1/timeline", () => {
       page: 1, limit: 50, category: "legal", yearFrom: "2000", yearTo: "2020", significance: 5,
     });
   });
+
+  it("returns 400 for a date filter that is not ISO", async () => {
+    const res = await request(app).get("/api/v1/timeline?dateTo=2001-13");
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("BAD_REQUEST");
+    expect(mockedStorage.getTimelineFiltered).not.toHaveBeenCalled();
+  });
+
+  it("returns an event's sources in the envelope", async () => {
+    mockedStorage.getTimelineEventSources.mockResolvedValue({
+      event: mockEvent,
+      sources: [{ documentId: 1, documentTitle: "EFTA00001", dataSet: "1", pageNumber: 2, excerpt: "A test event.", dateOriginal: "2008-06-30" }],
+    });
+    const res = await request(app).get("/api/v1/timeline/1/sources");
+    expect(res.status).toBe(200);
+    expect(res.body.data.sources[0].pageNumber).toBe(2);
+    expect(mockedStorage.getTimelineEventSources).toHaveBeenCalledWith(1);
+  });
+
+  it("returns 404 for sources of an unknown event", async () => {
+    mockedStorage.getTimelineEventSources.mockResolvedValue(undefined);
+    const res = await request(app).get("/api/v1/timeline/99/sources");
+    expect(res.status).toBe(404);
+    expect(res.body.error.code).toBe("NOT_FOUND");
+  });
 });
 
 // -- Search --
@@ -393,6 +720,144 @@ describe("GET /api/v1/search", () => {
   });
 });
 
+describe("GET /api/v1/search/pages", () => {
+  it("searches pages by keyword from storage without Typesense", async () => {
+    mockedStorage.searchPages.mockResolvedValue({ results: [], total: 0, page: 1, totalPages: 0 });
+
+    const res = await request(app).get("/api/v1/search/pages?q=recruiters");
+    expect(res.status).toBe(200);
+    expect(mockedStorage.searchPages).toHaveBeenCalledWith("recruiters", 1, 50);
+  });
+
+  it("returns 400 for an unknown mode", async () => {
+    const res = await request(app).get("/api/v1/search/pages?q=recruiters&mode=fuzzy");
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("BAD_REQUEST");
+  });
+
+  it("returns 503 for semantic mode without Typesense", async () => {
+    const res = await request(app).get("/api/v1/search/pages?q=payments to recruiters&mode=semantic");
+    expect(res.status).toBe(503);
+    expect(res.body.error.code).toBe("SERVICE_UNAVAILABLE");
+    expect(mockedStorage.searchPages).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/v1/search/tables", () => {
+  it("returns matching rows in envelope", async () => {
+    mockedStorage.searchDocumentTables.mockResolvedValue({
+      data: [{
+        documentId: 1, documentTitle: "EFTA00001", tableId: 7, tableName: "Manifest",
+        column: "Passengers", columnIndex: 1, columns: ["Date", "Passengers"], rowIndex: 3, cells: ["1997-03-01", "JE, GM"],
+      }],
+      total: 1,
+      page: 1,
+      totalPages: 1,
+    });
+
+    const res = await request(app).get("/api/v1/search/tables?column=passenger&q=GM");
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].column).toBe("Passengers");
+    expect(res.body.meta.total).toBe(1);
+  });
+
+  it("returns 400 without a column", async () => {
+    const res = await request(app).get("/api/v1/search/tables?q=GM");
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("BAD_REQUEST");
+  });
+});
+
+// -- Flights --
+
+describe("GET /api/v1/flights", () => {
+  const flight = {
+    id: 5, date: "1997-03-01", dateRaw: "3/1/97", origin: "PBI", destination: "TEB",
+    aircraftEntityId: 2, aircraftName: "N908JE", documentId: 1, pageNumber: 4, source: "table", passengerCount: 2,
+    documentTitle: "EFTA00001", aircraftEntityName: "Boeing 727 N908JE",
+    passengers: [
+      { personId: 1, rawName: "Jeffrey Epstein", personName: "Jeffrey Epstein" },
+      { personId: null, rawName: "GM", personName: null },
+    ],
+  };
+
+  it("returns a person's flight history in envelope", async () => {
+    mockedStorage.getFlights.mockResolvedValue({ data: [flight], total: 1, page: 1, totalPages: 1 });
+
+    const res = await request(app).get("/api/v1/flights?personId=1");
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].passengers).toHaveLength(2);
+    expect(res.body.meta.total).toBe(1);
+    expect(mockedStorage.getFlights).toHaveBeenCalledWith(expect.objectContaining({ personId: 1 }));
+  });
+
+  it("returns 400 for an invalid personId", async () => {
+    const res = await request(app).get("/api/v1/flights?personId=abc");
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("BAD_REQUEST");
+  });
+
+  it("returns one flight, or 404", async () => {
+    mockedStorage.getFlight.mockResolvedValueOnce(flight).mockResolvedValueOnce(undefined);
+    expect((await request(app).get("/api/v1/flights/5")).body.data.origin).toBe("PBI");
+    expect((await request(app).get("/api/v1/flights/6")).status).toBe(404);
+  });
+
+  it("returns who flew with a person", async () => {
+    mockedStorage.getCoPassengers.mockResolvedValue([
+      { personId: 2, name: "Ghislaine Maxwell", category: "key figure", imageUrl: null, flightCount: 12, firstDate: "1995-01-02", lastDate: "2002-07-30" },
+    ]);
+    const res = await request(app).get("/api/v1/flights/co-passengers/1");
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].flightCount).toBe(12);
+    expect(mockedStorage.getCoPassengers).toHaveBeenCalledWith(1, { limit: 25 });
+  });
+});
+
+// -- Locations --
+
+describe("GET /api/v1/locations", () => {
+  const location = {
+    id: 4, name: "Palm Beach", kind: "city", country: "United States", admin: "Florida",
+    latitude: 26.7056, longitude: -80.0364, documentCount: 120,
+  };
+
+  it("returns place densities in envelope", async () => {
+    mockedStorage.getLocations.mockResolvedValue([location]);
+
+    const res = await request(app).get("/api/v1/locations?kind=city");
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].name).toBe("Palm Beach");
+    expect(mockedStorage.getLocations).toHaveBeenCalledWith({ personId: null, yearFrom: null, yearTo: null, kind: "city" });
+  });
+
+  it("returns 400 for a reversed year range", async () => {
+    const res = await request(app).get("/api/v1/locations?yearFrom=2005&yearTo=1999");
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("BAD_REQUEST");
+  });
+
+  it("returns one location, or 404", async () => {
+    mockedStorage.getLocation
+      .mockResolvedValueOnce({ ...location, normalizedName: "palm beach", persons: [], timelineEvents: [], years: [] })
+      .mockResolvedValueOnce(undefined);
+    expect((await request(app).get("/api/v1/locations/4")).body.data.admin).toBe("Florida");
+    expect((await request(app).get("/api/v1/locations/5")).status).toBe(404);
+  });
+
+  it("strips internal fields from a location's documents", async () => {
+    mockedStorage.getLocationDocuments.mockResolvedValue({
+      data: [{ ...mockDocument, year: 2003 }], total: 1, page: 1, totalPages: 1,
+    });
+
+    const res = await request(app).get("/api/v1/locations/4/documents?personId=1");
+    expect(res.status).toBe(200);
+    expect(res.body.data[0].year).toBe(2003);
+    expect(res.body.data[0].localPath).toBeUndefined();
+    expect(mockedStorage.getLocationDocuments).toHaveBeenCalledWith(4, 1, 50, expect.objectContaining({ personId: 1 }));
+  });
+});
+
 // -- Network --
 
 describe("GET /api/v1/network", () => {
@@ -412,6 +877,172 @@ describe("GET /api/v1/network", () => {
   });
 });
 
+describe("GET /api/v1/network/entities", () => {
+  it("returns entity network data in envelope", async () => {
+    mockedStorage.getEntityNetworkData.mockResolvedValue({
+      entities: [mockEntity],
+      connections: [mockEntityConnection],
+    });
+
+    const res = await request(app).get("/api/v1/network/entities");
+    expect(res.status).toBe(200);
+    expect(res.body.data.entities).toHaveLength(1);
+    expect(res.body.data.connections).toHaveLength(1);
+  });
+});
+
+describe("GET /api/v1/network/path", () => {
+  it("returns paths for two persons with parsed options", async () => {
+    mockedStorage.getNetworkPaths.mockResolvedValue({
+      fromPersonId: 1,
+      toPersonId: 2,
+      paths: [{
+        personIds: [1, 2],
+        edges: [{ fromPersonId: 1, toPersonId: 2, connections: [], documentIds: [1] }],
+        hops: 1,
+        cost: 1,
+      }],
+      persons: [],
+      documents: [{ id: 1, title: "Test Document" }],
+    });
+
+    const res = await request(app).get(
+      "/api/v1/network/path?from=1&to=2&maxHops=9&k=2&weighted=true&connectionType=Employee,legal counsel",
+    );
+    expect(res.status).toBe(200);
+    expect(res.body.data.paths).toHaveLength(1);
+    expect(mockedStorage.getNetworkPaths).toHaveBeenCalledWith(1, 2, {
+      maxHops: 6,
+      k: 2,
+      weighted: true,
+      connectionTypes: ["employee", "legal counsel"],
+    });
+  });
+
+  it("returns 400 without both person IDs", async () => {
+    const res = await request(app).get("/api/v1/network/path?from=1");
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("BAD_REQUEST");
+    expect(mockedStorage.getNetworkPaths).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 when from and to are the same person", async () => {
+    const res = await request(app).get("/api/v1/network/path?from=1&to=1");
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 404 for an unknown person", async () => {
+    mockedStorage.getNetworkPaths.mockResolvedValue(null);
+
+    const res = await request(app).get("/api/v1/network/path?from=1&to=999");
+    expect(res.status).toBe(404);
+    expect(res.body.error.code).toBe("NOT_FOUND");
+  });
+});
+
+describe("GET /api/v1/network/ego/:personId", () => {
+  it("returns the ego network with parsed filters", async () => {
+    mockedStorage.getEgoNetwork.mockResolvedValue({
+      centerPersonId: 1,
+      hops: 2,
+      persons: [{ ...mockPerson, hop: 0, hiddenNeighborCount: 0 }],
+      connections: [],
+      truncated: false,
+    });
+
+    const res = await request(app).get("/api/v1/network/ego/1?hops=2&yearFrom=1995&yearTo=2005&types=employee,legal counsel");
+    expect(res.status).toBe(200);
+    expect(res.body.data.persons).toHaveLength(1);
+    expect(mockedStorage.getEgoNetwork).toHaveBeenCalledWith(1, {
+      hops: 2,
+      minStrength: 1,
+      minDocuments: 0,
+      connectionTypes: ["employee", "legal counsel"],
+      yearFrom: 1995,
+      yearTo: 2005,
+      limit: 150,
+    });
+  });
+
+  it("returns 400 for an inverted year range", async () => {
+    const res = await request(app).get("/api/v1/network/ego/1?yearFrom=2010&yearTo=2000");
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("BAD_REQUEST");
+    expect(mockedStorage.getEgoNetwork).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for an unknown person", async () => {
+    mockedStorage.getEgoNetwork.mockResolvedValue(null);
+
+    const res = await request(app).get("/api/v1/network/ego/999");
+    expect(res.status).toBe(404);
+    expect(res.body.error.code).toBe("NOT_FOUND");
+  });
+});
+
+describe("GET /api/v1/network/analytics", () => {
+  it("returns metrics, communities and bridges in an envelope", async () => {
+    const node = {
+      nodeType: "person", nodeId: 1, name: "Test Person", category: "key figure",
+      degree: 3, degreeCentrality: 0.5, betweenness: 0.4, eigenvector: 1, communityId: 0, bridgeCommunities: 2,
+    };
+    mockedStorage.getNetworkAnalytics.mockResolvedValue({
+      graph: "persons",
+      computedAt: "2024-01-01T00:00:00.000Z",
+      nodeCount: 1,
+      nodes: [node],
+      communities: [{ id: 0, size: 1, label: "Test Person", topMembers: [{ nodeType: "person", nodeId: 1, name: "Test Person" }] }],
+      bridges: [node],
+    });
+
+    const res = await request(app).get("/api/v1/network/analytics");
+    expect(res.status).toBe(200);
+    expect(res.body.data.bridges).toHaveLength(1);
+    expect(mockedStorage.getNetworkAnalytics).toHaveBeenCalledWith("persons");
+  });
+
+  it("returns 500 when analytics fail", async () => {
+    mockedStorage.getNetworkAnalytics.mockRejectedValue(new Error("boom"));
+
+    const res = await request(app).get("/api/v1/network/analytics?includeEntities=true");
+    expect(res.status).toBe(500);
+    expect(res.body.error.code).toBe("INTERNAL_ERROR");
+    expect(mockedStorage.getNetworkAnalytics).toHaveBeenCalledWith("combined");
+  });
+});
+
+describe("GET /api/v1/network/communications", () => {
+  it("returns directed, weighted edges in an envelope", async () => {
+    mockedStorage.getCommunicationGraph.mockResolvedValue({
+      persons: [{ ...mockPerson, sentCount: 4, receivedCount: 1 }],
+      edges: [{ fromPersonId: 1, toPersonId: 2, messageCount: 4, firstSentAt: null, lastSentAt: null }],
+    });
+
+    const res = await request(app).get("/api/v1/network/communications?yearFrom=2001&yearTo=2003&includeCc=false");
+    expect(res.status).toBe(200);
+    expect(res.body.data.edges[0].messageCount).toBe(4);
+    expect(mockedStorage.getCommunicationGraph).toHaveBeenCalledWith({
+      minMessages: 1, includeCc: false, dataSet: null, yearFrom: 2001, yearTo: 2003, limit: 500,
+    });
+  });
+
+  it("returns 400 for an inverted year range", async () => {
+    const res = await request(app).get("/api/v1/network/communications?yearFrom=2010&yearTo=2000");
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("BAD_REQUEST");
+  });
+
+  it("returns a paginated pair timeline", async () => {
+    mockedStorage.getCommunicationTimeline.mockResolvedValue({ data: [], total: 0, page: 2, totalPages: 0 });
+
+    const res = await request(app).get("/api/v1/network/communications/1/2?page=2&limit=10");
+    expect(res.status).toBe(200);
+    expect(res.body.meta.page).toBe(2);
+    expect(res.body.meta.limit).toBe(10);
+    expect(mockedStorage.getCommunicationTimeline).toHaveBeenCalledWith(1, 2, { page: 2, limit: 10, includeCc: true });
+  });
+});
+
 // -- Exports --
 
 describe("Export routes", () => {
@@ -545,6 +1176,37 @@ describe("GET /api/v1/ai-analyses/:fileName", () => {
   });
 });
 
+describe("GET /api/v1/ai-analyses/:fileName/versions", () => {
+  it("returns versions and their diff in envelope", async () => {
+    mockedStorage.getAIAnalysisVersions.mockResolvedValue({
+      currentVersion: 2,
+      versions: [
+        { version: 2, tier: 1, keyFacts: ["Flew to St. Thomas"], analyzedAt: null },
+        { version: 1, tier: 0, keyFacts: [], analyzedAt: null },
+      ] as any,
+    });
+
+    const res = await request(app).get("/api/v1/ai-analyses/test.json/versions");
+    expect(res.status).toBe(200);
+    expect(res.body.data.currentVersion).toBe(2);
+    expect(res.body.data.diff.keyFacts).toEqual({ added: ["Flew to St. Thomas"], removed: [] });
+  });
+
+  it("rejects invalid versions", async () => {
+    const res = await request(app).get("/api/v1/ai-analyses/test.json/versions?to=0");
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe("BAD_REQUEST");
+  });
+
+  it("returns 404 when the file has no versions", async () => {
+    mockedStorage.getAIAnalysisVersions.mockResolvedValue({ currentVersion: null, versions: [] });
+
+    const res = await request(app).get("/api/v1/ai-analyses/missing.json/versions");
+    expect(res.status).toBe(404);
+    expect(res.body.error.code).toBe("NOT_FOUND");
+  });
+});
+
 // -- Error format --
 
 describe("Error response format", () => {
@@ -593,6 +1255,56 @@ describe("GET /api/v1/export/obsidian", () => {
     // Response body should be non-empty binary data
     expect(Buffer.isBuffer(res.body)).toBe(true);
     expect(res.body.byteLength).toBeGreaterThan(0);
+    expect(mockedStorage.getAnnotations).not.toHaveBeenCalled();
+  });
+
+  it("adds the signed-in user's annotations as callouts on document notes", async () => {
+    mockedStorage.getPersons.mockResolvedValue([]);
+    mockedStorage.getDocumentsCursor.mockResolvedValueOnce([mockDocument]);
+    mockedStorage.getDocumentsCursor.mockResolvedValueOnce([]);
+    mockedStorage.getTimelineEvents.mockResolvedValue([]);
+    mockedStorage.getNetworkData.mockResolvedValue({
+      persons: [],
+      connections: [],
+      timelineYearRange: [1990, 2020],
+      personYears: {},
+    });
+    mockedStorage.getAnnotations.mockResolvedValue([{
+      id: 1,
+      userId: "user-1",
+      documentId: mockDocument.id,
+      pageNumber: 4,
+      charStart: 0,
+      charEnd: 12,
+      bbox: null,
+      quote: "flight logs",
+      note: "Compare with manifest",
+      tags: ["flights"],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      documentTitle: mockDocument.title,
+    }]);
+
+    const userApp = express();
+    userApp.use((req, _res, next) => {
+      req.user = { id: "user-1", username: "tester", password: "" };
+      next();
+    });
+    userApp.use("/api/v1", createV1Router());
+
+    const res = await request(userApp)
+      .get("/api/v1/export/obsidian")
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => callback(null, Buffer.concat(chunks)));
+      });
+    expect(res.status).toBe(200);
+    expect(mockedStorage.getAnnotations).toHaveBeenCalledWith("user-1");
+    const archive = gunzipSync(res.body).toString("utf8");
+    expect(archive).toContain("## Annotations");
+    expect(archive).toContain("> [!quote] Page 4\n> flight logs\n>\n> Compare with manifest\n>\n> #flights");
   });
 });
 
@@ -0,0 +1,151 @@
+/**
+ * Versions of a file's AI analysis: summaries for listing them and the diff
+ * of persons, connections, events and key facts between two of them. Pure
+ * functions; versions are written and promoted by
+ * scripts/pipeline/analysis-versions.ts.
+ */
+import type {
+  AIAnalysisConnection,
+  AIAnalysisEvent,
+  AIAnalysisListDiff,
+  AIAnalysisPerson,
+  AIAnalysisVersion,
+  AIAnalysisVersionDiff,
+  AIAnalysisVersions,
+  AIAnalysisVersionSummary,
+} from "@shared/schema";
+import type { QueryParseResult } from "./query-params";
+
+export interface VersionRange {
+  from?: number;
+  to?: number;
+}
+
+/** Case, punctuation and spacing differences between runs don't count as changes */
+function normalizeText(text: string | undefined | null): string {
+  return (text ?? "").toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function personKey(person: AIAnalysisPerson): string {
+  return normalizeText(person.name);
+}
+
+/** Unordered pair plus relationship, so "A ↔ B" and "B ↔ A" are the same connection */
+function connectionKey(connection: AIAnalysisConnection): string {
+  const pair = [normalizeText(connection.person1), normalizeText(connection.person2)].sort();
+  return `${pair[0]}|${pair[1]}|${normalizeText(connection.relationshipType ?? connection.type)}`;
+}
+
+function eventKey(event: AIAnalysisEvent): string {
+  return `${(event.date ?? "").trim()}|${normalizeText(event.title)}`;
+}
+
+function diffByKey<T>(before: T[], after: T[], key: (item: T) => string): AIAnalysisListDiff<T> {
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+  const unique = (items: T[], exclude: Set<string>) => {
+    const seen = new Set<string>();
+    return items.filter((item) => {
+      const k = key(item);
+      if (exclude.has(k) || seen.has(k)) return false;
+      seen.add(k);
+      return true;
+    });
+  };
+  return { added: unique(after, beforeKeys), removed: unique(before, afterKeys) };
+}
+
+function items<T>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+export function diffAnalysisVersions(from: AIAnalysisVersion, to: AIAnalysisVersion): AIAnalysisVersionDiff {
+  return {
+    from: from.version,
+    to: to.version,
+    persons: diffByKey(items<AIAnalysisPerson>(from.persons), items<AIAnalysisPerson>(to.persons), personKey),
+    connections: diffByKey(
+      items<AIAnalysisConnection>(from.connectionsData),
+      items<AIAnalysisConnection>(to.connectionsData),
+      connectionKey,
+    ),
+    events: diffByKey(items<AIAnalysisEvent>(from.events), items<AIAnalysisEvent>(to.events), eventKey),
+    keyFacts: diffByKey(items<string>(from.keyFacts), items<string>(to.keyFacts), normalizeText),
+  };
+}
+
+export function summarizeAnalysisVersion(row: AIAnalysisVersion, currentVersion: number | null): AIAnalysisVersionSummary {
+  return {
+    version: row.version,
+    tier: row.tier,
+    model: row.model,
+    schemaVersion: row.schemaVersion,
+    personCount: items(row.persons).length,
+    connectionCount: items(row.connectionsData).length,
+    eventCount: items(row.events).length,
+    keyFactCount: items(row.keyFacts).length,
+    costCents: row.costCents,
+    analyzedAt: row.analyzedAt?.toISOString() ?? null,
+    current: row.version === currentVersion,
+  };
+}
+
+/** `?from=&to=` of the versions endpoints; either may be omitted. */
+export function parseVersionsQuery(query: Record<string, unknown>): QueryParseResult<VersionRange> {
+  const options: VersionRange = {};
+  for (const name of ["from", "to"] as const) {
+    const raw = query[name];
+    if (raw === undefined || raw === "") continue;
+    if (typeof raw !== "string" || !/^\d+$/.test(raw) || parseInt(raw, 10) < 1) {
+      return { ok: false, error: "from and to must be positive version numbers" };
+    }
+    options[name] = parseInt(raw, 10);
+  }
+  return { ok: true, options };
+}
+
+export class UnknownVersionError extends Error {
+  constructor(readonly version: number) {
+    super(`Unknown analysis version ${version}`);
+    this.name = "UnknownVersionError";
+  }
+}
+
+/**
+ * List a file's versions and diff two of them. Without `from`/`to`, the
+ * newest version is compared with the current one, or with its predecessor
+ * when the newest is current.
+ */
+export function buildAnalysisVersions(
+  fileName: string,
+  currentVersion: number | null,
+  rows: AIAnalysisVersion[],
+  options: VersionRange = {},
+): AIAnalysisVersions {
+  const newestFirst = [...rows].sort((a, b) => b.version - a.version);
+  const find = (version: number) => {
+    const row = newestFirst.find((r) => r.version === version);
+    if (!row) throw new UnknownVersionError(version);
+    return row;
+  };
+
+  let diff: AIAnalysisVersionDiff | null = null;
+  if (options.from !== undefined || options.to !== undefined) {
+    const to = options.to !== undefined ? find(options.to) : newestFirst[0];
+    const from = options.from !== undefined
+      ? find(options.from)
+      : newestFirst.find((r) => r.version < (to?.version ?? 0));
+    if (to && from) diff = diffAnalysisVersions(from, to);
+  } else if (newestFirst.length > 1) {
+    const to = newestFirst[0];
+    const from = newestFirst.find((r) => r.version === currentVersion && r !== to) ?? newestFirst[1];
+    diff = diffAnalysisVersions(from, to);
+  }
+
+  return {
+    fileName,
+    currentVersion,
+    versions: newestFirst.map((row) => summarizeAnalysisVersion(row, currentVersion)),
+    diff,
+  };
+}
@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { v1Cors } from "./middleware/cors";
-import { generalLimiter, searchLimiter, exportLimiter, networkLimiter } from "./middleware/rate-limit";
+import { generalLimiter, searchLimiter, exportLimiter, networkLimiter, egoNetworkLimiter, communicationsLimiter } from "./middleware/rate-limit";
 import { envelopeMiddleware } from "./middleware/envelope";
 import { v1ErrorHandler } from "./middleware/error-handler";
 
@@ -11,8 +11,14 @@ import connectionsRouter from "./routes/connections";
 import timelineRouter from "./routes/timeline";
 import searchRouter from "./routes/search";
 import networkRouter from "./routes/network";
+import networkEgoRouter from "./routes/network-ego";
+import networkCommunicationsRouter from "./routes/network-communications";
 import exportRouter from "./routes/export";
 import aiAnalysesRouter from "./routes/ai-analyses";
+import entitiesRouter from "./routes/entities";
+import emailsRouter from "./routes/emails";
+import flightsRouter from "./routes/flights";
+import locationsRouter from "./routes/locations";
 import { serveApiDocs } from "./openapi/serve";
 
 export function createV1Router(): Router {
@@ -26,10 +32,16 @@ export function createV1Router(): Router {
   // Mount sub-routers
   router.use("/", statsRouter);
   router.use("/persons", personsRouter);
+  router.use("/entities", entitiesRouter);
   router.use("/documents", documentsRouter);
+  router.use("/emails", emailsRouter);
+  router.use("/flights", flightsRouter);
+  router.use("/locations", locationsRouter);
   router.use("/connections", connectionsRouter);
   router.use("/timeline", timelineRouter);
   router.use("/search", searchLimiter, searchRouter);
+  router.use("/network/ego", egoNetworkLimiter, networkEgoRouter);
+  router.use("/network/communications", communicationsLimiter, networkCommunicationsRouter);
   router.use("/network", networkLimiter, networkRouter);
   router.use("/export", exportLimiter, exportRouter);
   router.use("/ai-analyses", aiAnalysesRouter);
@@ -24,3 +24,9 @@ export const exportLimiter = createLimiter(60_000, 10);
 
 /** 10 req/min — /network */
 export const networkLimiter = createLimiter(60_000, 10);
+
+/** 60 req/min — /network/ego/:personId (bounded subgraphs, expanded node by node) */
+export const egoNetworkLimiter = createLimiter(60_000, 60);
+
+/** 60 req/min — /network/communications (email graph and per-pair timelines) */
+export const communicationsLimiter = createLimiter(60_000, 60);
@@ -75,6 +75,78 @@ export function getOpenAPISpec() {
           responses: { "200": { description: "Timeline events" } },
         },
       },
+      "/persons/{id}/mentions": {
+        get: {
+          summary: "Name mentions of a person with page offsets",
+          tags: ["Persons"],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "integer" } },
+            { name: "page", in: "query", schema: { type: "integer", default: 1 } },
+            { name: "limit", in: "query", schema: { type: "integer", default: 50, maximum: 100 } },
+          ],
+          responses: {
+            "200": { description: "Paginated mentions: documentId, pageNumber, charStart/charEnd into the page text, surfaceForm and a snippet" },
+            "404": { description: "Person not found" },
+          },
+        },
+      },
+      "/entities": {
+        get: {
+          summary: "List entities",
+          tags: ["Entities"],
+          parameters: [
+            { name: "page", in: "query", schema: { type: "integer", default: 1 } },
+            { name: "limit", in: "query", schema: { type: "integer", default: 50, maximum: 100 } },
+            { name: "entityType", in: "query", schema: { type: "string" }, description: "e.g. organization, property, aircraft" },
+            { name: "search", in: "query", schema: { type: "string" } },
+          ],
+          responses: { "200": { description: "Paginated entity list" } },
+        },
+      },
+      "/entities/types": {
+        get: {
+          summary: "Entity types",
+          tags: ["Entities"],
+          responses: { "200": { description: "Distinct entity types with counts" } },
+        },
+      },
+      "/entities/{id}": {
+        get: {
+          summary: "Entity detail",
+          tags: ["Entities"],
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+          responses: {
+            "200": { description: "Entity with resolved connections" },
+            "404": { description: "Entity not found" },
+          },
+        },
+      },
+      "/entities/{id}/documents": {
+        get: {
+          summary: "Documents mentioning entity",
+          tags: ["Entities"],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "integer" } },
+            { name: "page", in: "query", schema: { type: "integer", default: 1 } },
+            { name: "limit", in: "query", schema: { type: "integer", default: 50 } },
+          ],
+          responses: {
+            "200": { description: "Paginated documents with mention context" },
+            "404": { description: "Entity not found" },
+          },
+        },
+      },
+      "/entities/{id}/connections": {
+        get: {
+          summary: "Entity connections",
+          tags: ["Entities"],
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+          responses: {
+            "200": { description: "Connections to persons and other entities" },
+            "404": { description: "Entity not found" },
+          },
+        },
+      },
       "/documents": {
         get: {
           summary: "List documents",
@@ -86,8 +158,9 @@ export function getOpenAPISpec() {
             { name: "type", in: "query", schema: { type: "string" } },
             { name: "dataSet", in: "query", schema: { type: "string" } },
             { name: "redacted", in: "query", schema: { type: "string", enum: ["redacted", "unredacted"] } },
+            { name: "minRedaction", in: "query", schema: { type: "number", minimum: 0, maximum: 100 }, description: "Minimum redaction density: percent of page area covered by detected redaction boxes, averaged over pages" },
             { name: "mediaType", in: "query", schema: { type: "string" } },
-            { name: "sort", in: "query", schema: { type: "string", enum: ["popular"] } },
+            { name: "sort", in: "query", schema: { type: "string", enum: ["popular", "redaction"] }, description: "redaction = highest redaction density first" },
           ],
           responses: { "200": { description: "Paginated, filtered document list" } },
         },
@@ -98,7 +171,7 @@ export function getOpenAPISpec() {
           tags: ["Documents"],
           parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
           responses: {
-            "200": { description: "Full document detail" },
+            "200": { description: "Full document detail, including detected redaction boxes per page (page fractions)" },
             "404": { description: "Document not found" },
           },
         },
@@ -118,6 +191,155 @@ export function getOpenAPISpec() {
           responses: { "200": { description: "Persons mentioned in document" } },
         },
       },
+      "/documents/{id}/tables": {
+        get: {
+          summary: "Spreadsheet tables in document",
+          tags: ["Documents"],
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+          responses: { "200": { description: "Sheets of a spreadsheet/CSV document in workbook order, or tables detected on PDF pages with their pageNumber and bbox (page fractions); name, column names, row count" } },
+        },
+      },
+      "/documents/{id}/tables/{tableId}/rows": {
+        get: {
+          summary: "Spreadsheet table rows",
+          tags: ["Documents"],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "integer" } },
+            { name: "tableId", in: "path", required: true, schema: { type: "integer" } },
+            { name: "page", in: "query", schema: { type: "integer", default: 1 } },
+            { name: "limit", in: "query", schema: { type: "integer", default: 50, maximum: 500 } },
+            { name: "sort", in: "query", schema: { type: "integer", minimum: 0 }, description: "Zero-based column index; numeric cells sort by value. Omit for sheet order" },
+            { name: "order", in: "query", schema: { type: "string", enum: ["asc", "desc"], default: "asc" } },
+            { name: "q", in: "query", schema: { type: "string" }, description: "Substring of any cell in the row" },
+            { name: "filter", in: "query", schema: { type: "array", items: { type: "string" } }, style: "form", explode: true, description: "Repeatable <column index>:<text>; the cell must contain the text" },
+          ],
+          responses: {
+            "200": { description: "{ table, rows } where each row's cells line up with table.columns" },
+            "400": { description: "Invalid sort or filter" },
+            "404": { description: "Table not found in this document" },
+          },
+        },
+      },
+      "/emails": {
+        get: {
+          summary: "List parsed email messages",
+          tags: ["Emails"],
+          parameters: [
+            { name: "page", in: "query", schema: { type: "integer", default: 1 } },
+            { name: "limit", in: "query", schema: { type: "integer", default: 50, maximum: 100 } },
+            { name: "personId", in: "query", schema: { type: "integer" }, description: "Messages the person sent, received or was copied on" },
+            { name: "documentId", in: "query", schema: { type: "integer" } },
+            { name: "address", in: "query", schema: { type: "string" }, description: "Sender, recipient or cc address" },
+            { name: "search", in: "query", schema: { type: "string" }, description: "Substring of subject or body" },
+          ],
+          responses: { "200": { description: "Paginated messages, newest first, with a body preview instead of the full body" } },
+        },
+      },
+      "/emails/{id}": {
+        get: {
+          summary: "Email message",
+          tags: ["Emails"],
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+          responses: {
+            "200": { description: "Headers (sender, recipients, cc with linked personId), thread id and body" },
+            "404": { description: "Email not found" },
+          },
+        },
+      },
+      "/emails/threads/{threadId}": {
+        get: {
+          summary: "Email reply thread",
+          tags: ["Emails"],
+          parameters: [{ name: "threadId", in: "path", required: true, schema: { type: "string" }, description: "threadId of any message in the thread" }],
+          responses: {
+            "200": { description: "Thread messages in sending order, possibly across several documents" },
+            "404": { description: "Thread not found" },
+          },
+        },
+      },
+      "/flights": {
+        get: {
+          summary: "List flight legs from flight logs",
+          tags: ["Flights"],
+          parameters: [
+            { name: "page", in: "query", schema: { type: "integer", default: 1 } },
+            { name: "limit", in: "query", schema: { type: "integer", default: 50, maximum: 200 } },
+            { name: "personId", in: "query", schema: { type: "integer" }, description: "Flights the person was a passenger on, i.e. their flight history" },
+            { name: "aircraftId", in: "query", schema: { type: "integer" }, description: "Aircraft entity id" },
+            { name: "airport", in: "query", schema: { type: "string" }, description: "Origin or destination, e.g. TEB or Teterboro" },
+            { name: "dateFrom", in: "query", schema: { type: "string" }, description: "e.g. 1997 or 1997-03-01" },
+            { name: "dateTo", in: "query", schema: { type: "string" }, description: "Inclusive; dateTo=1997 keeps all of 1997" },
+          ],
+          responses: {
+            "200": { description: "Paginated flights, oldest first (undated last), with passengers, aircraft and source document/page" },
+            "400": { description: "Invalid id or date filter" },
+          },
+        },
+      },
+      "/flights/{id}": {
+        get: {
+          summary: "Flight leg",
+          tags: ["Flights"],
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+          responses: {
+            "200": { description: "Flight with passengers (raw name and linked personId), aircraft and source document/page" },
+            "404": { description: "Flight not found" },
+          },
+        },
+      },
+      "/flights/co-passengers/{personId}": {
+        get: {
+          summary: "Who flew with a person",
+          tags: ["Flights"],
+          parameters: [
+            { name: "personId", in: "path", required: true, schema: { type: "integer" } },
+            { name: "limit", in: "query", schema: { type: "integer", default: 25, maximum: 100 } },
+          ],
+          responses: { "200": { description: "Persons sharing at least one flight, with shared flight count and first/last date, most shared first" } },
+        },
+      },
+      "/locations": {
+        get: {
+          summary: "Places on the map with document counts",
+          tags: ["Locations"],
+          parameters: [
+            { name: "personId", in: "query", schema: { type: "integer" }, description: "Only count documents linked to this person" },
+            { name: "yearFrom", in: "query", schema: { type: "integer" } },
+            { name: "yearTo", in: "query", schema: { type: "integer" } },
+            { name: "kind", in: "query", schema: { type: "string", enum: ["site", "city", "region", "country"] } },
+          ],
+          responses: {
+            "200": { description: "Geocoded places (name, kind, country, latitude, longitude) with filtered document counts, most documents first" },
+            "400": { description: "Invalid filter" },
+          },
+        },
+      },
+      "/locations/{id}": {
+        get: {
+          summary: "Place detail",
+          tags: ["Locations"],
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+          responses: {
+            "200": { description: "Place with its most linked persons, documents per year and timeline events that name it" },
+            "404": { description: "Location not found" },
+          },
+        },
+      },
+      "/locations/{id}/documents": {
+        get: {
+          summary: "Documents mentioning a place",
+          tags: ["Locations"],
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "integer" } },
+            { name: "page", in: "query", schema: { type: "integer", default: 1 } },
+            { name: "limit", in: "query", schema: { type: "integer", default: 50, maximum: 100 } },
+            { name: "personId", in: "query", schema: { type: "integer" } },
+            { name: "yearFrom", in: "query", schema: { type: "integer" } },
+            { name: "yearTo", in: "query", schema: { type: "integer" } },
+          ],
+          responses: { "200": { description: "Paginated documents with the year used by the map filter" } },
+        },
+      },
       "/connections": {
         get: {
           summary: "List connections",
@@ -158,11 +380,27 @@ export function getOpenAPISpec() {
             { name: "page", in: "query", schema: { type: "integer", default: 1 } },
             { name: "limit", in: "query", schema: { type: "integer", default: 50 } },
             { name: "category", in: "query", schema: { type: "string" } },
-            { name: "yearFrom", in: "query", schema: { type: "string" } },
-            { name: "yearTo", in: "query", schema: { type: "string" } },
+            { name: "yearFrom", in: "query", schema: { type: "string" }, description: "Events whose possible dates reach into or past this year" },
+            { name: "yearTo", in: "query", schema: { type: "string" }, description: "Events whose possible dates start in or before this year" },
+            { name: "dateFrom", in: "query", schema: { type: "string" }, description: "Like yearFrom, as YYYY, YYYY-MM or YYYY-MM-DD; takes precedence" },
+            { name: "dateTo", in: "query", schema: { type: "string" }, description: "Like yearTo, as YYYY, YYYY-MM or YYYY-MM-DD; takes precedence" },
             { name: "significance", in: "query", schema: { type: "integer" } },
           ],
-          responses: { "200": { description: "Paginated, filtered timeline events" } },
+          responses: {
+            "200": { description: "Paginated timeline events overlapping the date filter; each has date (sort point), dateEarliest, dateLatest, datePrecision, dateOriginal, corroboration (distinct data sets among its sources), sourcesDisagree and mergedFrom" },
+            "400": { description: "Invalid dateFrom or dateTo" },
+          },
+        },
+      },
+      "/timeline/{id}/sources": {
+        get: {
+          summary: "Timeline event sources",
+          tags: ["Timeline"],
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+          responses: {
+            "200": { description: "The event and its source citations: document, data set, supporting page and excerpt, and the date that source gave" },
+            "404": { description: "Event not found" },
+          },
         },
       },
       "/search": {
@@ -183,8 +421,35 @@ export function getOpenAPISpec() {
             { name: "limit", in: "query", schema: { type: "integer", default: 50 } },
             { name: "documentType", in: "query", schema: { type: "string" } },
             { name: "dataSet", in: "query", schema: { type: "string" } },
+            {
+              name: "mode",
+              in: "query",
+              schema: { type: "string", enum: ["keyword", "semantic", "hybrid"], default: "keyword" },
+              description: "keyword: full-text match; semantic: nearest page chunks by embedding; hybrid: keyword and vector scores merged",
+            },
           ],
-          responses: { "200": { description: "Paginated page-level search results" } },
+          responses: {
+            "200": { description: "Paginated page-level search results" },
+            "400": { description: "Unknown mode" },
+            "503": { description: "semantic or hybrid requested but Typesense is not configured" },
+          },
+        },
+      },
+      "/search/tables": {
+        get: {
+          summary: "Search spreadsheet tables by column",
+          tags: ["Search"],
+          parameters: [
+            { name: "column", in: "query", required: true, schema: { type: "string" }, description: "Substring of the column name, e.g. passenger" },
+            { name: "q", in: "query", required: true, schema: { type: "string" }, description: "Substring of the cell value" },
+            { name: "dataSet", in: "query", schema: { type: "string" } },
+            { name: "page", in: "query", schema: { type: "integer", default: 1 } },
+            { name: "limit", in: "query", schema: { type: "integer", default: 50, maximum: 100 } },
+          ],
+          responses: {
+            "200": { description: "Paginated matching rows with their document, table, matched column and full cells" },
+            "400": { description: "column or q missing" },
+          },
         },
       },
       "/network": {
@@ -194,11 +459,110 @@ export function getOpenAPISpec() {
           responses: { "200": { description: "All persons, connections, and year ranges" } },
         },
       },
+      "/network/entities": {
+        get: {
+          summary: "Entity network graph",
+          tags: ["Network"],
+          responses: { "200": { description: "Connected entities and their links to persons and other entities" } },
+        },
+      },
+      "/network/path": {
+        get: {
+          summary: "Shortest paths between two persons",
+          tags: ["Network"],
+          description: "Up to k shortest loopless paths over the connections graph. Each hop lists the connections between the two persons and their source document IDs as evidence.",
+          parameters: [
+            { name: "from", in: "query", required: true, schema: { type: "integer" } },
+            { name: "to", in: "query", required: true, schema: { type: "integer" } },
+            { name: "maxHops", in: "query", schema: { type: "integer", default: 4, minimum: 1, maximum: 6 } },
+            { name: "k", in: "query", schema: { type: "integer", default: 3, minimum: 1, maximum: 10 } },
+            { name: "weighted", in: "query", schema: { type: "boolean", default: false }, description: "Weight hops by 1/strength so strong ties are preferred" },
+            { name: "connectionType", in: "query", schema: { type: "string" }, description: "Comma-separated connection types to traverse" },
+          ],
+          responses: {
+            "200": { description: "Paths with per-hop evidence, plus the persons and documents they reference" },
+            "400": { description: "Missing or identical from/to" },
+            "404": { description: "Person not found" },
+          },
+        },
+      },
+      "/network/ego/{personId}": {
+        get: {
+          summary: "Ego network around a person",
+          tags: ["Network"],
+          description: "The subgraph within `hops` of a person, filtered server-side. Each person carries its hop distance and `hiddenNeighborCount`, the neighbours left out by the hop or size limit; request the ego network of such a frontier person to expand it. Rate limited separately from the full /network graph (60 req/min).",
+          parameters: [
+            { name: "personId", in: "path", required: true, schema: { type: "integer" } },
+            { name: "hops", in: "query", schema: { type: "integer", default: 2, minimum: 1, maximum: 3 } },
+            { name: "minStrength", in: "query", schema: { type: "integer", default: 1, minimum: 1, maximum: 5 } },
+            { name: "minDocuments", in: "query", schema: { type: "integer", default: 0 }, description: "Minimum source documents per connection" },
+            { name: "types", in: "query", schema: { type: "string" }, description: "Comma-separated connection types to follow" },
+            { name: "yearFrom", in: "query", schema: { type: "integer" }, description: "Drop persons whose timeline ends before this year" },
+            { name: "yearTo", in: "query", schema: { type: "integer" }, description: "Drop persons whose timeline starts after this year" },
+            { name: "limit", in: "query", schema: { type: "integer", default: 150, minimum: 1, maximum: 500 }, description: "Maximum persons returned; nearer hops and stronger ties first" },
+          ],
+          responses: {
+            "200": { description: "Persons with hop distance, the connections among them, and whether the limit truncated the expansion" },
+            "400": { description: "Invalid person ID or year range" },
+            "404": { description: "Person not found" },
+          },
+        },
+      },
+      "/network/analytics": {
+        get: {
+          summary: "Network centrality and communities",
+          tags: ["Network"],
+          description: "Degree, betweenness and eigenvector centrality plus Louvain community membership for every connected node, computed by the pipeline after update-counts. Nodes are sorted by betweenness; bridges are nodes linking two or more communities.",
+          parameters: [
+            { name: "includeEntities", in: "query", schema: { type: "boolean", default: false }, description: "Include organizations, places and other entities from entity connections in the graph" },
+          ],
+          responses: {
+            "200": { description: "Per-node metrics, communities with their most central members, and top bridge nodes" },
+          },
+        },
+      },
+      "/network/communications": {
+        get: {
+          summary: "Email communication graph",
+          tags: ["Network"],
+          description: "Directed sender → recipient edges between persons, aggregated from parsed emails. Each edge carries its message count and the first and last sent dates; each person carries sent and received totals over the returned edges. Rate limited separately from the full /network graph (60 req/min).",
+          parameters: [
+            { name: "minMessages", in: "query", schema: { type: "integer", default: 1, minimum: 1 }, description: "Drop pairs with fewer messages" },
+            { name: "includeCc", in: "query", schema: { type: "boolean", default: true }, description: "Count Cc recipients as well as To" },
+            { name: "dataSet", in: "query", schema: { type: "string" }, description: "Only messages from documents in this data set, e.g. 9" },
+            { name: "yearFrom", in: "query", schema: { type: "integer" }, description: "Only messages sent in or after this year" },
+            { name: "yearTo", in: "query", schema: { type: "integer" }, description: "Only messages sent in or before this year" },
+            { name: "limit", in: "query", schema: { type: "integer", default: 500, minimum: 1, maximum: 2000 }, description: "Maximum edges returned, heaviest first" },
+          ],
+          responses: {
+            "200": { description: "Persons with sent/received counts and weighted directed edges" },
+            "400": { description: "Invalid year range" },
+          },
+        },
+      },
+      "/network/communications/{personId}/{otherPersonId}": {
+        get: {
+          summary: "Messages between two persons",
+          tags: ["Network"],
+          description: "Messages either person sent to the other, oldest first, for the timeline of a communication edge.",
+          parameters: [
+            { name: "personId", in: "path", required: true, schema: { type: "integer" } },
+            { name: "otherPersonId", in: "path", required: true, schema: { type: "integer" } },
+            { name: "includeCc", in: "query", schema: { type: "boolean", default: true } },
+            { name: "page", in: "query", schema: { type: "integer", default: 1 } },
+            { name: "limit", in: "query", schema: { type: "integer", default: 50, maximum: 100 } },
+          ],
+          responses: {
+            "200": { description: "Paginated messages with a body preview" },
+            "400": { description: "Invalid person ID" },
+          },
+        },
+      },
       "/export/obsidian": {
         get: {
           summary: "Export Obsidian vault",
           tags: ["Export"],
-          description: "Downloads a tar.gz archive containing a ready-to-use Obsidian vault with markdown files for persons, documents, timeline events, and connections, cross-referenced with [[wikilinks]]. Extract with: tar -xzf epstein-vault.tar.gz",
+          description: "Downloads a tar.gz archive containing a ready-to-use Obsidian vault with markdown files for persons, documents, timeline events, and connections, cross-referenced with [[wikilinks]]. When requested with a signed-in session cookie, the user's own annotations are added to document notes as callouts. Extract with: tar -xzf epstein-vault.tar.gz",
           responses: {
             "200": {
               description: "Obsidian vault tar.gz archive",
@@ -290,6 +654,23 @@ export function getOpenAPISpec() {
           },
         },
       },
+      "/ai-analyses/{fileName}/versions": {
+        get: {
+          summary: "AI analysis versions and diff",
+          description: "Every analysis run of a file, newest first, with the persons, connections, events and key facts added or removed between two versions. Defaults to the newest version against the current one.",
+          tags: ["AI Analyses"],
+          parameters: [
+            { name: "fileName", in: "path", required: true, schema: { type: "string" } },
+            { name: "from", in: "query", schema: { type: "integer", minimum: 1 } },
+            { name: "to", in: "query", schema: { type: "integer", minimum: 1 } },
+          ],
+          responses: {
+            "200": { description: "Version summaries and diff" },
+            "400": { description: "Invalid file name or version" },
+            "404": { description: "Analysis or version not found" },
+          },
+        },
+      },
     },
     components: {
       schemas: {
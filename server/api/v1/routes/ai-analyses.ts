@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { storage } from "../../../storage";
+import { buildAnalysisVersions, parseVersionsQuery, UnknownVersionError } from "../../../ai-analysis-versions";
 import { envelope, sendError, parsePageParams } from "../types";
 
 const router = Router();
@@ -47,4 +48,24 @@ router.get("/:fileName", async (req, res) => {
   }
 });
 
+router.get("/:fileName/versions", async (req, res) => {
+  try {
+    const fileName = req.params.fileName;
+
+    if (fileName.includes("..") || fileName.includes("/") || fileName.includes("\\")) {
+      return sendError(res, 400, "BAD_REQUEST", "Invalid file name");
+    }
+    const parsed = parseVersionsQuery(req.query as Record<string, unknown>);
+    if (!parsed.ok) return sendError(res, 400, "BAD_REQUEST", parsed.error);
+
+    const { currentVersion, versions } = await storage.getAIAnalysisVersions(fileName);
+    if (versions.length === 0) return sendError(res, 404, "NOT_FOUND", "Analysis not found");
+
+    res.json(envelope(buildAnalysisVersions(versions[0].fileName, currentVersion, versions, parsed.options)));
+  } catch (error) {
+    if (error instanceof UnknownVersionError) return sendError(res, 404, "NOT_FOUND", error.message);
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch AI analysis versions");
+  }
+});
+
 export default router;
@@ -2,6 +2,7 @@ import { Router } from "express";
 import { storage } from "../../../storage";
 import { envelope, sendError, parsePageParams, parseId } from "../types";
 import { getPublicUrl } from "../../../r2";
+import { parseTableRowsQuery } from "../../../document-tables";
 
 const router = Router();
 
@@ -17,12 +18,14 @@ router.get("/", async (req, res) => {
     const type = req.query.type as string | undefined;
     const dataSet = req.query.dataSet as string | undefined;
     const redacted = req.query.redacted as string | undefined;
+    const minRedactionPct = parseFloat(req.query.minRedaction as string);
+    const minRedaction = isNaN(minRedactionPct) ? undefined : Math.min(100, Math.max(0, minRedactionPct)) / 100;
     const mediaType = req.query.mediaType as string | undefined;
     const sort = req.query.sort as string | undefined;
     const tag = req.query.tag as string | undefined;
 
     const result = await storage.getDocumentsFiltered({
-      page, limit, search, type, dataSet, redacted, mediaType, sort, tag,
+      page, limit, search, type, dataSet, redacted, minRedaction, mediaType, sort, tag,
     });
 
     const data = result.data.map(stripInternalFields);
@@ -69,4 +72,37 @@ router.get("/:id/persons", async (req, res) => {
   }
 });
 
+router.get("/:id/tables", async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return sendError(res, 400, "BAD_REQUEST", "Invalid ID");
+
+    const tables = await storage.getDocumentTables(id);
+    res.json(envelope(tables));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch document tables");
+  }
+});
+
+router.get("/:id/tables/:tableId/rows", async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    const tableId = parseId(req.params.tableId);
+    if (id === null || tableId === null) return sendError(res, 400, "BAD_REQUEST", "Invalid ID");
+
+    const parsed = parseTableRowsQuery(req.query as Record<string, unknown>);
+    if (!parsed.ok) return sendError(res, 400, "BAD_REQUEST", parsed.error);
+
+    const result = await storage.getDocumentTableRows(id, tableId, parsed.options);
+    if (!result) return sendError(res, 404, "NOT_FOUND", "Table not found");
+
+    res.json(envelope(
+      { table: result.table, rows: result.data },
+      { total: result.total, page: result.page, totalPages: result.totalPages, limit: parsed.options.limit },
+    ));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch table rows");
+  }
+});
+
 export default router;
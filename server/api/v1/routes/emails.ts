@@ -0,0 +1,49 @@
+import { Router } from "express";
+import { storage } from "../../../storage";
+import { envelope, sendError, parsePageParams, parseId } from "../types";
+
+const router = Router();
+
+router.get("/", async (req, res) => {
+  try {
+    const { page, limit } = parsePageParams(req.query as any);
+    const personId = req.query.personId ? parseId(req.query.personId as string) : undefined;
+    if (personId === null) return sendError(res, 400, "BAD_REQUEST", "Invalid personId");
+    const documentId = req.query.documentId ? parseId(req.query.documentId as string) : undefined;
+    if (documentId === null) return sendError(res, 400, "BAD_REQUEST", "Invalid documentId");
+    const address = req.query.address as string | undefined;
+    const search = req.query.search as string | undefined;
+
+    const result = await storage.getEmails({ page, limit, personId, documentId, address, search });
+    res.json(envelope(result.data, { total: result.total, page: result.page, totalPages: result.totalPages, limit }));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch emails");
+  }
+});
+
+router.get("/threads/:threadId", async (req, res) => {
+  try {
+    const thread = await storage.getEmailThread(req.params.threadId);
+    if (!thread) return sendError(res, 404, "NOT_FOUND", "Thread not found");
+
+    res.json(envelope(thread));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch email thread");
+  }
+});
+
+router.get("/:id", async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return sendError(res, 400, "BAD_REQUEST", "Invalid ID");
+
+    const email = await storage.getEmail(id);
+    if (!email) return sendError(res, 404, "NOT_FOUND", "Email not found");
+
+    res.json(envelope(email));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch email");
+  }
+});
+
+export default router;
@@ -0,0 +1,83 @@
+import { Router } from "express";
+import { storage } from "../../../storage";
+import { envelope, sendError, parsePageParams, parseId } from "../types";
+import { getPublicUrl } from "../../../r2";
+
+const router = Router();
+
+function stripInternalFields(doc: any) {
+  const { localPath, r2Key, fileHash, ...rest } = doc;
+  return { ...rest, publicUrl: r2Key ? getPublicUrl(r2Key) : null };
+}
+
+router.get("/", async (req, res) => {
+  try {
+    const { page, limit } = parsePageParams(req.query as any);
+    const entityType = req.query.entityType as string | undefined;
+    const search = req.query.search as string | undefined;
+
+    const result = await storage.getEntitiesPaginated({ page, limit, entityType, search });
+    res.json(envelope(result.data, { total: result.total, page: result.page, totalPages: result.totalPages, limit }));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch entities");
+  }
+});
+
+router.get("/types", async (_req, res) => {
+  try {
+    const result = await storage.getEntityTypes();
+    res.json(envelope(result));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch entity types");
+  }
+});
+
+router.get("/:id", async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return sendError(res, 400, "BAD_REQUEST", "Invalid ID");
+
+    const entity = await storage.getEntityWithDetails(id);
+    if (!entity) return sendError(res, 404, "NOT_FOUND", "Entity not found");
+
+    res.json(envelope(entity));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch entity");
+  }
+});
+
+router.get("/:id/documents", async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return sendError(res, 400, "BAD_REQUEST", "Invalid ID");
+    const { page, limit } = parsePageParams(req.query as any);
+
+    const entity = await storage.getEntity(id);
+    if (!entity) return sendError(res, 404, "NOT_FOUND", "Entity not found");
+
+    const result = await storage.getEntityDocuments(id, page, limit);
+    res.json(envelope(
+      result.data.map((d) => stripInternalFields(d)),
+      { total: result.total, page: result.page, totalPages: result.totalPages, limit },
+    ));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch entity documents");
+  }
+});
+
+router.get("/:id/connections", async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return sendError(res, 400, "BAD_REQUEST", "Invalid ID");
+
+    const entity = await storage.getEntity(id);
+    if (!entity) return sendError(res, 404, "NOT_FOUND", "Entity not found");
+
+    const result = await storage.getEntityConnections(id);
+    res.json(envelope(result));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch entity connections");
+  }
+});
+
+export default router;
@@ -0,0 +1,47 @@
+import { Router } from "express";
+import { storage } from "../../../storage";
+import { envelope, sendError, parseId } from "../types";
+import { parseFlightsQuery } from "../../../flight-logs";
+
+const router = Router();
+
+router.get("/", async (req, res) => {
+  try {
+    const parsed = parseFlightsQuery(req.query as Record<string, unknown>);
+    if (!parsed.ok) return sendError(res, 400, "BAD_REQUEST", parsed.error);
+
+    const result = await storage.getFlights(parsed.options);
+    res.json(envelope(result.data, { total: result.total, page: result.page, totalPages: result.totalPages, limit: parsed.options.limit }));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch flights");
+  }
+});
+
+router.get("/co-passengers/:personId", async (req, res) => {
+  try {
+    const personId = parseId(req.params.personId);
+    if (personId === null) return sendError(res, 400, "BAD_REQUEST", "Invalid personId");
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string || "25") || 25));
+
+    const coPassengers = await storage.getCoPassengers(personId, { limit });
+    res.json(envelope(coPassengers));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch co-passengers");
+  }
+});
+
+router.get("/:id", async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return sendError(res, 400, "BAD_REQUEST", "Invalid ID");
+
+    const flight = await storage.getFlight(id);
+    if (!flight) return sendError(res, 404, "NOT_FOUND", "Flight not found");
+
+    res.json(envelope(flight));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch flight");
+  }
+});
+
+export default router;
@@ -0,0 +1,58 @@
+import { Router } from "express";
+import { storage } from "../../../storage";
+import { envelope, sendError, parsePageParams, parseId } from "../types";
+import { getPublicUrl } from "../../../r2";
+import { parseLocationsQuery } from "../../../locations";
+
+const router = Router();
+
+function stripInternalFields(doc: any) {
+  const { localPath, r2Key, fileHash, ...rest } = doc;
+  return { ...rest, publicUrl: r2Key ? getPublicUrl(r2Key) : null };
+}
+
+router.get("/", async (req, res) => {
+  try {
+    const parsed = parseLocationsQuery(req.query as Record<string, unknown>);
+    if (!parsed.ok) return sendError(res, 400, "BAD_REQUEST", parsed.error);
+
+    const locations = await storage.getLocations(parsed.options);
+    res.json(envelope(locations));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch locations");
+  }
+});
+
+router.get("/:id", async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return sendError(res, 400, "BAD_REQUEST", "Invalid ID");
+
+    const location = await storage.getLocation(id);
+    if (!location) return sendError(res, 404, "NOT_FOUND", "Location not found");
+
+    res.json(envelope(location));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch location");
+  }
+});
+
+router.get("/:id/documents", async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return sendError(res, 400, "BAD_REQUEST", "Invalid ID");
+    const parsed = parseLocationsQuery(req.query as Record<string, unknown>);
+    if (!parsed.ok) return sendError(res, 400, "BAD_REQUEST", parsed.error);
+    const { page, limit } = parsePageParams(req.query as any);
+
+    const result = await storage.getLocationDocuments(id, page, limit, parsed.options);
+    res.json(envelope(
+      result.data.map((d) => stripInternalFields(d)),
+      { total: result.total, page: result.page, totalPages: result.totalPages, limit },
+    ));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch location documents");
+  }
+});
+
+export default router;
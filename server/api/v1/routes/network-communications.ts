@@ -0,0 +1,37 @@
+import { Router } from "express";
+import { storage } from "../../../storage";
+import { envelope, sendError, parsePageParams, parseId } from "../types";
+import { parseCommunicationsQuery } from "../../../network-communications";
+
+// Mounted at /network/communications ahead of the network router: the graph is
+// an aggregate over parsed emails, and the pair timeline is fetched per clicked edge.
+const router = Router();
+
+router.get("/", async (req, res) => {
+  try {
+    const parsed = parseCommunicationsQuery(req.query as Record<string, unknown>);
+    if (!parsed.ok) return sendError(res, 400, "BAD_REQUEST", parsed.error);
+
+    const data = await storage.getCommunicationGraph(parsed.options);
+    res.json(envelope(data));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch communication graph");
+  }
+});
+
+router.get("/:personId/:otherPersonId", async (req, res) => {
+  try {
+    const personId = parseId(req.params.personId);
+    const otherPersonId = parseId(req.params.otherPersonId);
+    if (personId === null || otherPersonId === null) return sendError(res, 400, "BAD_REQUEST", "Invalid ID");
+    const { page, limit } = parsePageParams(req.query as any);
+    const includeCc = req.query.includeCc !== "false" && req.query.includeCc !== "0";
+
+    const result = await storage.getCommunicationTimeline(personId, otherPersonId, { page, limit, includeCc });
+    res.json(envelope(result.data, { total: result.total, page: result.page, totalPages: result.totalPages, limit }));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch communication timeline");
+  }
+});
+
+export default router;
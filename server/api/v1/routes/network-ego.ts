@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { storage } from "../../../storage";
+import { envelope, sendError, parseId } from "../types";
+import { parseEgoQuery } from "../../../network-ego";
+
+// Mounted at /network/ego ahead of the network router so subgraph queries get
+// their own rate limit instead of the full-graph one.
+const router = Router();
+
+router.get("/:personId", async (req, res) => {
+  try {
+    const personId = parseId(req.params.personId);
+    if (personId === null) return sendError(res, 400, "BAD_REQUEST", "Invalid ID");
+
+    const parsed = parseEgoQuery(req.query as Record<string, unknown>);
+    if (!parsed.ok) return sendError(res, 400, "BAD_REQUEST", parsed.error);
+
+    const result = await storage.getEgoNetwork(personId, parsed.options);
+    if (!result) return sendError(res, 404, "NOT_FOUND", "Person not found");
+
+    res.json(envelope(result));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch ego network");
+  }
+});
+
+export default router;
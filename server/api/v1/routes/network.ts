@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { storage } from "../../../storage";
 import { envelope, sendError } from "../types";
+import { parsePathQuery } from "../../../network-paths";
 
 const router = Router();
 
@@ -13,4 +14,37 @@ router.get("/", async (_req, res) => {
   }
 });
 
+router.get("/entities", async (_req, res) => {
+  try {
+    const data = await storage.getEntityNetworkData();
+    res.json(envelope(data));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch entity network data");
+  }
+});
+
+router.get("/path", async (req, res) => {
+  try {
+    const parsed = parsePathQuery(req.query as Record<string, unknown>);
+    if (!parsed.ok) return sendError(res, 400, "BAD_REQUEST", parsed.error);
+
+    const result = await storage.getNetworkPaths(parsed.from, parsed.to, parsed.options);
+    if (!result) return sendError(res, 404, "NOT_FOUND", "Person not found");
+
+    res.json(envelope(result));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to find network paths");
+  }
+});
+
+router.get("/analytics", async (req, res) => {
+  try {
+    const graph = req.query.includeEntities === "true" ? "combined" : "persons";
+    const data = await storage.getNetworkAnalytics(graph);
+    res.json(envelope(data));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch network analytics");
+  }
+});
+
 export default router;
@@ -1,3 +1,4 @@
+import type { DocumentAnnotation, WorkspaceDetail, WorkspaceItemDetail } from "@shared/schema";
 import type { Request, Response } from "express";
 import tar from "tar-stream";
 import { createGzip } from "zlib";
@@ -75,7 +76,24 @@ function personToMarkdown(person: any, connectionsByPerson: Map<number, any[]>,
   return lines.join("\n");
 }
 
-function documentToMarkdown(doc: any, personNames: string[]): string {
+/** Render an annotation as an Obsidian callout: highlighted passages as [!quote], page regions as [!note]. */
+function annotationToCallout(annotation: DocumentAnnotation): string {
+  const kind = annotation.quote ? "quote" : "note";
+  const lines = [`> [!${kind}] Page ${annotation.pageNumber}`];
+  if (annotation.quote) {
+    for (const line of annotation.quote.split("\n")) lines.push(`> ${line}`);
+  }
+  if (annotation.note) {
+    if (annotation.quote) lines.push(">");
+    for (const line of annotation.note.split("\n")) lines.push(`> ${line}`);
+  }
+  if (annotation.tags.length > 0) {
+    lines.push(">", `> ${annotation.tags.map((t) => `#${t.replace(/\s+/g, "-")}`).join(" ")}`);
+  }
+  return lines.join("\n");
+}
+
+function documentToMarkdown(doc: any, personNames: string[], annotations: DocumentAnnotation[] = []): string {
   const fm = frontmatter({
     id: doc.id,
     title: doc.title,
@@ -112,6 +130,13 @@ function documentToMarkdown(doc: any, personNames: string[]): string {
     lines.push("");
   }
 
+  if (annotations.length > 0) {
+    lines.push("## Annotations", "");
+    for (const annotation of annotations) {
+      lines.push(annotationToCallout(annotation), "");
+    }
+  }
+
   return lines.join("\n");
 }
 
@@ -196,13 +221,46 @@ function packEntry(pack: tar.Pack, name: string, content: string): Promise<void>
   });
 }
 
-export async function obsidianExportHandler(_req: Request, res: Response): Promise<void> {
+/** Start a gzipped tar response; entries are streamed with packEntry. */
+function openVaultStream(res: Response, filename: string): tar.Pack {
+  // Use tar-stream for true streaming — no central directory, no entry accumulation
+  const pack = tar.pack();
+  const gzip = createGzip({ level: 1 });
+
+  res.setHeader("Content-Type", "application/gzip");
+  res.setHeader("Content-Disposition", `attachment; filename=${filename}`);
+
+  pack.pipe(gzip).pipe(res);
+  return pack;
+}
+
+/** Finalize the archive and wait for the stream pipeline to finish. */
+async function closeVaultStream(pack: tar.Pack, res: Response): Promise<void> {
+  pack.finalize();
+  await new Promise<void>((resolve, reject) => {
+    res.on("finish", resolve);
+    res.on("error", reject);
+  });
+}
+
+function groupAnnotationsByDocument(annotations: DocumentAnnotation[]): Map<number, DocumentAnnotation[]> {
+  const byDoc = new Map<number, DocumentAnnotation[]>();
+  for (const a of [...annotations].sort((x, y) => x.pageNumber - y.pageNumber || (x.charStart ?? 0) - (y.charStart ?? 0))) {
+    if (!byDoc.has(a.documentId)) byDoc.set(a.documentId, []);
+    byDoc.get(a.documentId)!.push(a);
+  }
+  return byDoc;
+}
+
+export async function obsidianExportHandler(req: Request, res: Response): Promise<void> {
   try {
-    // Fetch cached data first (persons, events, network are all cached & small)
-    const [persons, events, networkData] = await Promise.all([
+    // Fetch cached data first (persons, events, network are all cached & small).
+    // Annotations are private, so they are only included for a signed-in user's own export.
+    const [persons, events, networkData, annotations] = await Promise.all([
       storage.getPersons(),
       storage.getTimelineEvents(),
       storage.getNetworkData(),
+      req.user ? storage.getAnnotations(req.user.id) : Promise.resolve([]),
     ]);
 
     const connections = networkData.connections;
@@ -229,16 +287,11 @@ export async function obsidianExportHandler(_req: Request, res: Response): Promi
       }
     }
 
-    const docsByPerson = new Map<number, string[]>();
+    const annotationsByDoc = groupAnnotationsByDocument(annotations);
 
-    // Use tar-stream for true streaming — no central directory, no entry accumulation
-    const pack = tar.pack();
-    const gzip = createGzip({ level: 1 });
-
-    res.setHeader("Content-Type", "application/gzip");
-    res.setHeader("Content-Disposition", "attachment; filename=epstein-vault.tar.gz");
+    const docsByPerson = new Map<number, string[]>();
 
-    pack.pipe(gzip).pipe(res);
+    const pack = openVaultStream(res, "epstein-vault.tar.gz");
 
     // Add persons (cached, ~8k)
     for (const person of persons) {
@@ -253,7 +306,7 @@ export async function obsidianExportHandler(_req: Request, res: Response): Promi
       if (batch.length === 0) break;
       for (const doc of batch) {
         const mentioned = docPersonNames.get(doc.id) || [];
-        const md = documentToMarkdown(doc, mentioned);
+        const md = documentToMarkdown(doc, mentioned, annotationsByDoc.get(doc.id));
         await packEntry(pack, `epstein-vault/Documents/${sanitizeFilename(doc.title)}.md`, md);
       }
       lastDocId = batch[batch.length - 1].id;
@@ -272,13 +325,7 @@ export async function obsidianExportHandler(_req: Request, res: Response): Promi
       await packEntry(pack, `epstein-vault/Connections/${sanitizeFilename(`${conn.person1Name} - ${conn.person2Name}`)}.md`, md);
     }
 
-    pack.finalize();
-
-    // Wait for the stream pipeline to finish
-    await new Promise<void>((resolve, reject) => {
-      res.on("finish", resolve);
-      res.on("error", reject);
-    });
+    await closeVaultStream(pack, res);
   } catch (error) {
     console.error("Obsidian export error:", error);
     if (!res.headersSent) {
@@ -289,3 +336,110 @@ export async function obsidianExportHandler(_req: Request, res: Response): Promi
     }
   }
 }
+
+function workspaceItemToMarkdown(item: WorkspaceItemDetail): string {
+  let line: string;
+  switch (item.itemType) {
+    case "person":
+      line = item.person ? `- **Person:** [[${item.person.name}]]` : `- **Person:** _#${item.entityId} (removed)_`;
+      break;
+    case "document":
+      line = item.document ? `- **Document:** [[${item.document.title}]]` : `- **Document:** _#${item.entityId} (removed)_`;
+      break;
+    case "event":
+      line = item.event
+        ? `- **Event:** [[${item.event.date} — ${item.event.title}]]`
+        : `- **Event:** _#${item.entityId} (removed)_`;
+      break;
+    case "search":
+      line = `- **Search:** \`${item.searchQuery}\``;
+      break;
+    default: {
+      const body = (item.noteText ?? "").split("\n").map((l) => `> ${l}`).join("\n");
+      line = `> [!note]\n${body}`;
+    }
+  }
+  if (item.comment) {
+    line += item.itemType === "note" ? `\n>\n> _${item.comment}_` : `\n  - ${item.comment}`;
+  }
+  return line;
+}
+
+function workspaceToMarkdown(workspace: WorkspaceDetail): string {
+  const fm = frontmatter({
+    id: workspace.id,
+    name: workspace.name,
+    items: workspace.items.length,
+    updated: workspace.updatedAt instanceof Date ? workspace.updatedAt.toISOString() : workspace.updatedAt,
+  });
+
+  const lines = [fm, "", `# ${workspace.name}`, ""];
+  if (workspace.description) lines.push(workspace.description, "");
+
+  lines.push("## Items", "");
+  for (const item of workspace.items) {
+    lines.push(workspaceItemToMarkdown(item), "");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Stream an Obsidian vault for a single workspace: an index note listing the items
+ * in order, plus notes for its persons, documents (with the owner's annotations),
+ * timeline events and the connections among its persons.
+ */
+export async function writeWorkspaceVault(res: Response, workspace: WorkspaceDetail): Promise<void> {
+  const itemIds = (type: string) =>
+    new Set(workspace.items.filter((i) => i.itemType === type && i.entityId != null).map((i) => i.entityId!));
+  const personIds = itemIds("person");
+  const documentIds = itemIds("document");
+
+  const [allPersons, docs, visualization, annotations] = await Promise.all([
+    storage.getPersons(),
+    Promise.all(Array.from(documentIds).map((id) => storage.getDocument(id))),
+    storage.getWorkspaceVisualization(workspace.id),
+    storage.getAnnotations(workspace.userId),
+  ]);
+
+  const persons = allPersons.filter((p) => personIds.has(p.id));
+  const connectionsByPerson = new Map<number, any[]>();
+  for (const c of visualization.connections) {
+    for (const pid of [c.personId1, c.personId2]) {
+      if (!connectionsByPerson.has(pid)) connectionsByPerson.set(pid, []);
+      connectionsByPerson.get(pid)!.push(c);
+    }
+  }
+  const docPersonNames = new Map<number, string[]>();
+  for (const event of visualization.events) {
+    for (const docId of event.documentIds ?? []) {
+      if (!docPersonNames.has(docId)) docPersonNames.set(docId, []);
+      const names = docPersonNames.get(docId)!;
+      for (const p of event.persons) {
+        if (!names.includes(p.name)) names.push(p.name);
+      }
+    }
+  }
+  const annotationsByDoc = groupAnnotationsByDocument(annotations.filter((a) => documentIds.has(a.documentId)));
+
+  const root = sanitizeFilename(workspace.name) || `workspace-${workspace.id}`;
+  const pack = openVaultStream(res, `${root.replace(/[^\w.-]+/g, "-")}.tar.gz`);
+
+  await packEntry(pack, `${root}/${root}.md`, workspaceToMarkdown(workspace));
+  for (const person of persons) {
+    const md = personToMarkdown(person, connectionsByPerson, new Map());
+    await packEntry(pack, `${root}/Persons/${sanitizeFilename(person.name)}.md`, md);
+  }
+  for (const doc of docs) {
+    if (!doc) continue;
+    const md = documentToMarkdown(doc, docPersonNames.get(doc.id) || [], annotationsByDoc.get(doc.id));
+    await packEntry(pack, `${root}/Documents/${sanitizeFilename(doc.title)}.md`, md);
+  }
+  for (const event of visualization.events) {
+    await packEntry(pack, `${root}/Timeline/${sanitizeFilename(`${event.date || "unknown"} - ${event.title}`)}.md`, eventToMarkdown(event));
+  }
+  for (const conn of visualization.connections) {
+    await packEntry(pack, `${root}/Connections/${sanitizeFilename(`${conn.person1Name} - ${conn.person2Name}`)}.md`, connectionToMarkdown(conn));
+  }
+
+  await closeVaultStream(pack, res);
+}
@@ -76,6 +76,22 @@ router.get("/:id/documents", async (req, res) => {
   }
 });
 
+router.get("/:id/mentions", async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return sendError(res, 400, "BAD_REQUEST", "Invalid ID");
+    const { page, limit } = parsePageParams(req.query as any);
+
+    const person = await storage.getPerson(id);
+    if (!person) return sendError(res, 404, "NOT_FOUND", "Person not found");
+
+    const result = await storage.getPersonMentions(id, page, limit);
+    res.json(envelope(result.data, { total: result.total, page: result.page, totalPages: result.totalPages, limit }));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch person mentions");
+  }
+});
+
 router.get("/:id/timeline", async (req, res) => {
   try {
     const id = parseId(req.params.id);
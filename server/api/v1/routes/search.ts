@@ -1,8 +1,15 @@
 import { Router } from "express";
 import { storage } from "../../../storage";
 import { envelope, sendError, parsePageParams } from "../types";
-import { isTypesenseConfigured, typesenseSearchPages } from "../../../typesense";
+import {
+  isTypesenseConfigured,
+  typesenseHybridSearchPages,
+  typesenseSearchPages,
+  typesenseSemanticSearchPages,
+} from "../../../typesense";
 import { getPublicUrl } from "../../../r2";
+import { parseTableSearchQuery } from "../../../document-tables";
+import { parseSearchMode } from "../../../semantic-search";
 
 const router = Router();
 
@@ -50,9 +57,15 @@ router.get("/pages", async (req, res) => {
     const { page, limit } = parsePageParams(req.query as any);
     const documentType = req.query.documentType as string | undefined;
     const dataSet = req.query.dataSet as string | undefined;
+    const mode = parseSearchMode(req.query.mode);
+    if (!mode) return sendError(res, 400, "BAD_REQUEST", "mode must be keyword, semantic or hybrid");
 
     let result: any;
-    if (isTypesenseConfigured()) {
+    if (mode !== "keyword") {
+      if (!isTypesenseConfigured()) return sendError(res, 503, "SERVICE_UNAVAILABLE", "Semantic search is not available");
+      const search = mode === "semantic" ? typesenseSemanticSearchPages : typesenseHybridSearchPages;
+      result = await search(q, page, limit, { documentType, dataSet });
+    } else if (isTypesenseConfigured()) {
       try {
         result = await typesenseSearchPages(q, page, limit, { documentType, dataSet });
       } catch {
@@ -68,4 +81,18 @@ router.get("/pages", async (req, res) => {
   }
 });
 
+router.get("/tables", async (req, res) => {
+  try {
+    const parsed = parseTableSearchQuery(req.query as Record<string, unknown>);
+    if (!parsed.ok) return sendError(res, 400, "BAD_REQUEST", parsed.error);
+
+    const result = await storage.searchDocumentTables(parsed.options);
+    res.json(envelope(result.data, {
+      total: result.total, page: result.page, totalPages: result.totalPages, limit: parsed.options.limit,
+    }));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Table search failed");
+  }
+});
+
 export default router;
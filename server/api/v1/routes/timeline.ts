@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { storage } from "../../../storage";
-import { envelope, sendError, parsePageParams } from "../types";
+import { envelope, sendError, parsePageParams, parseId } from "../types";
+import { parseDateBound } from "../../../event-dates";
 
 const router = Router();
 
@@ -10,10 +11,15 @@ router.get("/", async (req, res) => {
     const category = req.query.category as string | undefined;
     const yearFrom = req.query.yearFrom as string | undefined;
     const yearTo = req.query.yearTo as string | undefined;
+    const dateFrom = req.query.dateFrom as string | undefined;
+    const dateTo = req.query.dateTo as string | undefined;
+    if ((dateFrom && !parseDateBound(dateFrom)) || (dateTo && !parseDateBound(dateTo))) {
+      return sendError(res, 400, "BAD_REQUEST", "dateFrom and dateTo must be YYYY, YYYY-MM or YYYY-MM-DD");
+    }
     const significance = req.query.significance ? parseInt(req.query.significance as string) : undefined;
 
     const result = await storage.getTimelineFiltered({
-      page, limit, category, yearFrom, yearTo, significance,
+      page, limit, category, yearFrom, yearTo, dateFrom, dateTo, significance,
     });
 
     res.json(envelope(result.data, { total: result.total, page: result.page, totalPages: result.totalPages, limit }));
@@ -22,4 +28,18 @@ router.get("/", async (req, res) => {
   }
 });
 
+router.get("/:id/sources", async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) return sendError(res, 400, "BAD_REQUEST", "Invalid ID");
+
+    const result = await storage.getTimelineEventSources(id);
+    if (!result) return sendError(res, 404, "NOT_FOUND", "Event not found");
+
+    res.json(envelope(result));
+  } catch (error) {
+    sendError(res, 500, "INTERNAL_ERROR", "Failed to fetch event sources");
+  }
+});
+
 export default router;
@@ -0,0 +1,214 @@
+import { insertUserSchema, type User as SelectUser } from "@shared/schema";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import type { Express, Request, RequestHandler, Response, NextFunction } from "express";
+import rateLimit from "express-rate-limit";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { promisify } from "util";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+/** Hash a password as `<hex hash>.<hex salt>` using scrypt with a random 16-byte salt. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+/** Admins are the accounts flagged `is_admin` in the users table. */
+export function isAdmin(user: Pick<SelectUser, "isAdmin">): boolean {
+  return user.isAdmin === true;
+}
+
+/** Strip the password hash before a user object leaves the server. */
+export function toPublicUser(user: SelectUser) {
+  return { id: user.id, username: user.username, isAdmin: isAdmin(user) };
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated?.() || !req.user) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated?.() || !req.user) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  if (!isAdmin(req.user)) {
+    return res.status(403).json({ error: "Admin access required" });
+  }
+  next();
+}
+
+/** Postgres unique_violation, e.g. two registrations racing for one username */
+function isUniqueViolation(err: unknown): boolean {
+  return typeof err === "object" && err !== null && (err as { code?: unknown }).code === "23505";
+}
+
+/** 20 attempts per 15 minutes per IP for login/registration */
+const authLimiter = rateLimit({
+  windowMs: 15 * 60_000,
+  max: 20,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { error: "Too many attempts, please try again later" },
+});
+
+/**
+ * Move bookmarks and votes saved under the browser's anonymous client ID
+ * (client/src/lib/client-id.ts) into the account. Failures are logged, not fatal:
+ * the login itself has already succeeded.
+ */
+async function claimAnonymousData(clientId: unknown, userId: string): Promise<void> {
+  if (typeof clientId !== "string" || !clientId || clientId === userId) return;
+  try {
+    await storage.claimAnonymousData(clientId, userId);
+  } catch (err: any) {
+    console.warn(`Failed to migrate anonymous data for ${userId}: ${err.message}`);
+  }
+}
+
+/**
+ * Install sessions, passport and the /api/auth routes. Returns the session
+ * middleware so the WebSocket upgrade can identify the signed-in user.
+ */
+export function setupAuth(app: Express, store?: session.Store): RequestHandler {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const MemoryStore = createMemoryStore(session);
+
+  app.set("trust proxy", 1);
+  const sessionMiddleware = session({
+    secret: secret || "dev-session-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: store ?? new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  });
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await verifyPassword(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (err) {
+        return done(err);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (err) {
+      done(err);
+    }
+  });
+
+  app.post("/api/auth/register", authLimiter, async (req, res, next) => {
+    try {
+      const parsed = insertUserSchema.safeParse({
+        username: typeof req.body.username === "string" ? req.body.username.trim() : req.body.username,
+        password: req.body.password,
+      });
+      if (!parsed.success || !parsed.data.username) {
+        return res.status(400).json({ error: "username and password are required" });
+      }
+      if (parsed.data.password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+
+      const existing = await storage.getUserByUsername(parsed.data.username);
+      if (existing) {
+        return res.status(409).json({ error: "Username already taken" });
+      }
+
+      const user = await storage.createUser({
+        username: parsed.data.username,
+        password: await hashPassword(parsed.data.password),
+      });
+
+      req.login(user, async (err) => {
+        if (err) return next(err);
+        await claimAnonymousData(req.body.clientId, user.id);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "Username already taken" });
+      }
+      res.status(500).json({ error: "Failed to register" });
+    }
+  });
+
+  app.post("/api/auth/login", authLimiter, (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return res.status(500).json({ error: "Failed to log in" });
+      if (!user) return res.status(401).json({ error: "Invalid username or password" });
+
+      req.login(user, async (loginErr) => {
+        if (loginErr) return next(loginErr);
+        await claimAnonymousData(req.body.clientId, user.id);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/auth/user", (req, res) => {
+    res.set("Cache-Control", "no-store");
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Not logged in" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  return sessionMiddleware;
+}
@@ -2,7 +2,6 @@ import { db } from "./db";
 import { sql, eq, and, asc } from "drizzle-orm";
 import {
   pipelineJobs,
-  budgetTracking,
   documents,
   documentPages,
   persons,
@@ -11,10 +10,12 @@ import {
   timelineEvents,
 } from "@shared/schema";
 import { analyzeDocument } from "./chat/analyze";
+import { getDefaultModelId, getModelConfig, isModelAvailable } from "./chat/models";
+import { assertWithinBudget, BudgetExceededError, recordAIUsage } from "./budget";
+import { eventDateColumns, parseEventDate } from "./event-dates";
 import { log } from "./index";
 
 const WORKER_INTERVAL_MS = 60_000;
-const DAILY_BUDGET_CENTS = parseInt(process.env.BG_ANALYSIS_BUDGET_CENTS || "100", 10);
 const MIN_TEXT_LENGTH = 200;
 
 let workerTimer: ReturnType<typeof setInterval> | null = null;
@@ -35,24 +36,11 @@ function inferStatus(category: string, role: string): string {
   return "named";
 }
 
-async function getTodaySpend(): Promise<number> {
-  const today = new Date().toISOString().slice(0, 10);
-  const [row] = await db
-    .select({ total: sql<number>`COALESCE(SUM(cost_cents), 0)::int` })
-    .from(budgetTracking)
-    .where(eq(budgetTracking.date, today));
-  return row?.total ?? 0;
-}
-
 async function processOneJob(): Promise<void> {
   if (processing) return;
   processing = true;
 
   try {
-    // Check daily budget
-    const spent = await getTodaySpend();
-    if (spent >= DAILY_BUDGET_CENTS) return;
-
     // Pick the oldest pending job
     const [job] = await db
       .select()
@@ -74,13 +62,6 @@ async function processOneJob(): Promise<void> {
       return;
     }
 
-    // Mark as running
-    await db.update(pipelineJobs).set({
-      status: "running",
-      startedAt: new Date(),
-      attempts: job.attempts + 1,
-    }).where(eq(pipelineJobs.id, job.id));
-
     // Get document info
     const [doc] = await db.select().from(documents).where(eq(documents.id, documentId));
     if (!doc) {
@@ -88,6 +69,27 @@ async function processOneJob(): Promise<void> {
       return;
     }
 
+    // Leave the job pending while a budget policy has no headroom
+    const usageContext = {
+      jobType: "chat-triggered-analysis",
+      model: getModelConfig().id,
+      dataSet: doc.dataSet,
+      documentId,
+    };
+    try {
+      await assertWithinBudget(usageContext);
+    } catch (error) {
+      if (error instanceof BudgetExceededError) return;
+      throw error;
+    }
+
+    // Mark as running
+    await db.update(pipelineJobs).set({
+      status: "running",
+      startedAt: new Date(),
+      attempts: job.attempts + 1,
+    }).where(eq(pipelineJobs.id, job.id));
+
     // Read all pages for this document
     const pages = await db
       .select({ content: documentPages.content, pageNumber: documentPages.pageNumber })
@@ -190,6 +192,9 @@ async function processOneJob(): Promise<void> {
     // --- Insert events ---
     for (const event of result.events) {
       try {
+        const eventDate = parseEventDate(event.date);
+        if (!eventDate) continue;
+
         const personIds: number[] = [];
         const involvedArr = Array.isArray(event.personsInvolved) ? event.personsInvolved : typeof event.personsInvolved === "string" ? (event.personsInvolved as string).split(",").map(s => s.trim()) : [];
         for (const name of involvedArr) {
@@ -198,12 +203,12 @@ async function processOneJob(): Promise<void> {
         }
 
         const existingEvent = await db.select({ id: timelineEvents.id }).from(timelineEvents)
-          .where(sql`${timelineEvents.date} = ${event.date} AND LOWER(${timelineEvents.title}) = LOWER(${event.title})`)
+          .where(sql`${timelineEvents.date} = ${eventDate.date} AND LOWER(${timelineEvents.title}) = LOWER(${event.title})`)
           .limit(1);
 
         if (existingEvent.length === 0) {
           await db.insert(timelineEvents).values({
-            date: event.date,
+            ...eventDateColumns(eventDate),
             title: event.title,
             description: event.description,
             category: event.category,
@@ -219,16 +224,7 @@ async function processOneJob(): Promise<void> {
     await db.update(documents).set({ aiAnalysisStatus: "completed" }).where(eq(documents.id, documentId));
 
     // --- Track cost ---
-    const today = new Date().toISOString().slice(0, 10);
-    await db.insert(budgetTracking).values({
-      date: today,
-      model: result.model,
-      inputTokens: result.inputTokens,
-      outputTokens: result.outputTokens,
-      costCents: Math.ceil(result.costCents),
-      documentId,
-      jobType: "chat-triggered-analysis",
-    });
+    await recordAIUsage(usageContext, { inputTokens: result.inputTokens, outputTokens: result.outputTokens });
 
     // --- Mark job complete ---
     await db.update(pipelineJobs).set({ status: "completed", completedAt: new Date() }).where(eq(pipelineJobs.id, job.id));
@@ -242,12 +238,12 @@ async function processOneJob(): Promise<void> {
 }
 
 export function startBackgroundWorker(): void {
-  if (!process.env.DEEPSEEK_API_KEY) {
-    log("DEEPSEEK_API_KEY not set — background analysis worker disabled", "bg-worker");
+  if (!isModelAvailable(getDefaultModelId())) {
+    log(`${getDefaultModelId()} is not available — background analysis worker disabled`, "bg-worker");
     return;
   }
 
-  log(`Background analysis worker started (interval: ${WORKER_INTERVAL_MS / 1000}s, daily budget: ${DAILY_BUDGET_CENTS}¢)`, "bg-worker");
+  log(`Background analysis worker started (interval: ${WORKER_INTERVAL_MS / 1000}s, capped by budget_policies)`, "bg-worker");
   workerTimer = setInterval(processOneJob, WORKER_INTERVAL_MS);
 }
 
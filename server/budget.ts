@@ -0,0 +1,142 @@
+import { budgetTracking, type BudgetPolicy, type BudgetPolicyStatus } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { calculateCostCents } from "./chat/models";
+import type { TokenUsage } from "./chat/llm-client";
+
+/**
+ * AI spend is capped by the rows of budget_policies. Every AI call — chat,
+ * document analysis, classification — checks them with assertWithinBudget
+ * first and records what it cost with recordAIUsage afterwards, so a policy
+ * sees spend from the web server and the pipeline scripts alike.
+ */
+
+/** What an AI call is for; policies match on these and budget_tracking records them. */
+export interface AIUsageContext {
+  /** e.g. "chat", "chat-triggered-analysis", "ai_analysis", "page_classification" */
+  jobType: string;
+  /** Model registry id (chat/models.ts) */
+  model: string;
+  dataSet?: string | null;
+  documentId?: number | null;
+}
+
+export type BudgetWindow = "daily" | "monthly";
+
+export class BudgetExceededError extends Error {
+  constructor(readonly policy: BudgetPolicyStatus, readonly window: BudgetWindow) {
+    const spent = window === "daily" ? policy.spentTodayCents : policy.spentMonthCents;
+    const cap = window === "daily" ? policy.dailyCapCents : policy.monthlyCapCents;
+    super(`AI budget "${policy.name}" reached its ${window} cap (${spent.toFixed(2)}¢ of ${cap}¢)`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function roundCents(cents: number): number {
+  return Math.round(cents * 100) / 100;
+}
+
+export function policyMatches(policy: BudgetPolicy, ctx: AIUsageContext): boolean {
+  return policy.enabled
+    && (policy.jobType === null || policy.jobType === ctx.jobType)
+    && (policy.model === null || policy.model === ctx.model)
+    && (policy.dataSet === null || policy.dataSet === (ctx.dataSet ?? null));
+}
+
+/** Headroom left under a policy's caps, given what its matching calls have spent. */
+export function budgetPolicyStatus(policy: BudgetPolicy, spentToday: number, spentMonth: number): BudgetPolicyStatus {
+  const spentTodayCents = roundCents(spentToday);
+  const spentMonthCents = roundCents(spentMonth);
+  const windows = [
+    { cap: policy.dailyCapCents, spent: spentTodayCents },
+    { cap: policy.monthlyCapCents, spent: spentMonthCents },
+  ].filter((w): w is { cap: number; spent: number } => w.cap !== null);
+
+  let state: BudgetPolicyStatus["state"] = "ok";
+  if (windows.some((w) => w.spent >= w.cap)) {
+    state = "exceeded";
+  } else if (windows.some((w) => w.spent >= (w.cap * policy.softLimitPercent) / 100)) {
+    state = "warning";
+  }
+
+  const remaining = (cap: number | null, spent: number) => (cap === null ? null : roundCents(Math.max(0, cap - spent)));
+  return {
+    ...policy,
+    spentTodayCents,
+    spentMonthCents,
+    remainingDailyCents: remaining(policy.dailyCapCents, spentTodayCents),
+    remainingMonthlyCents: remaining(policy.monthlyCapCents, spentMonthCents),
+    state,
+  };
+}
+
+/** The first window whose cap the policy has reached, daily before monthly. */
+export function exceededWindow(status: BudgetPolicyStatus): BudgetWindow | null {
+  if (status.dailyCapCents !== null && status.spentTodayCents >= status.dailyCapCents) return "daily";
+  if (status.monthlyCapCents !== null && status.spentMonthCents >= status.monthlyCapCents) return "monthly";
+  return null;
+}
+
+/** One line for CLI output, e.g. `Batch AI analysis: 120.5¢ of 500¢ this month [warning]` */
+export function describeBudgetPolicy(status: BudgetPolicyStatus): string {
+  const used = [
+    status.dailyCapCents !== null ? `${status.spentTodayCents}¢ of ${status.dailyCapCents}¢ today` : null,
+    status.monthlyCapCents !== null ? `${status.spentMonthCents}¢ of ${status.monthlyCapCents}¢ this month` : null,
+  ].filter(Boolean).join(", ");
+  const flags = [status.state !== "ok" ? status.state : null, status.enabled ? null : "disabled"].filter(Boolean);
+  return `${status.name}: ${used || "no caps"}${flags.length > 0 ? ` [${flags.join(", ")}]` : ""}`;
+}
+
+export async function getBudgetPolicyStatuses(): Promise<BudgetPolicyStatus[]> {
+  const usage = await storage.getBudgetPolicyUsage(today());
+  return usage.map((u) => budgetPolicyStatus(u.policy, u.spentTodayCents, u.spentMonthCents));
+}
+
+/** Policies already warned about today, so a long run logs each soft limit once */
+const softLimitWarned = new Set<string>();
+
+/**
+ * Throw BudgetExceededError if any enabled policy matching `ctx` has no
+ * headroom left, and warn about those past their soft limit.
+ */
+export async function assertWithinBudget(ctx: AIUsageContext): Promise<void> {
+  const matching = (await getBudgetPolicyStatuses()).filter((status) => policyMatches(status, ctx));
+
+  for (const status of matching) {
+    const window = exceededWindow(status);
+    if (window) throw new BudgetExceededError(status, window);
+  }
+
+  for (const status of matching) {
+    if (status.state !== "warning") continue;
+    const key = `${status.id}:${today()}`;
+    if (softLimitWarned.has(key)) continue;
+    softLimitWarned.add(key);
+    console.warn(`AI budget passed its ${status.softLimitPercent}% soft limit: ${describeBudgetPolicy(status)}`);
+  }
+}
+
+/** Record a finished call's tokens in budget_tracking. Returns its cost in cents. */
+export async function recordAIUsage(
+  ctx: AIUsageContext,
+  usage: TokenUsage,
+): Promise<number> {
+  const costCents = calculateCostCents(usage.inputTokens, usage.outputTokens, ctx.model);
+  if (usage.inputTokens === 0 && usage.outputTokens === 0) return costCents;
+
+  await db.insert(budgetTracking).values({
+    date: today(),
+    model: ctx.model,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    costCents,
+    documentId: ctx.documentId ?? null,
+    jobType: ctx.jobType,
+    dataSet: ctx.dataSet ?? null,
+  });
+  return costCents;
+}
@@ -137,7 +137,7 @@ export async function analyzeDocument(
     const chunk = chunks[i];
     const chunkLabel = chunks.length > 1 ? ` (chunk ${i + 1}/${chunks.length})` : "";
 
-    const response = await client.chat.completions.create({
+    const response = await client.complete({
       model: config.model,
       messages: [
         { role: "system", content: ANALYSIS_PROMPT },
@@ -146,15 +146,14 @@ export async function analyzeDocument(
           content: `Analyze this Epstein case document text${chunkLabel}. Document: ${documentTitle}\n\n---\n${chunk}`,
         },
       ],
-      max_tokens: config.maxTokens,
+      maxTokens: config.maxTokens,
       temperature: 0.1,
     });
 
-    const usage = response.usage;
-    totalInput += usage?.prompt_tokens ?? 0;
-    totalOutput += usage?.completion_tokens ?? 0;
+    totalInput += response.inputTokens;
+    totalOutput += response.outputTokens;
 
-    let content = response.choices[0]?.message?.content;
+    let content = response.content;
     if (!content) continue;
 
     content = content.replace(/^```(?:json)?\s*\n?/i, "").replace(/\n?```\s*$/i, "").trim();
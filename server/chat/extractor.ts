@@ -1,4 +1,5 @@
 import { getClient, getModelConfig } from "./models";
+import { assertWithinBudget, recordAIUsage } from "../budget";
 
 export interface ExtractedQuery {
   searchTerms: string[];
@@ -29,18 +30,21 @@ export async function extractSearchQuery(
 ): Promise<ExtractedQuery> {
   const client = getClient(modelId);
   const config = getModelConfig(modelId);
+  const usageContext = { jobType: "chat", model: config.id };
+  await assertWithinBudget(usageContext);
 
-  const response = await client.chat.completions.create({
+  const response = await client.complete({
     model: config.model,
     messages: [
       { role: "system", content: EXTRACTION_PROMPT },
       { role: "user", content: userMessage },
     ],
-    max_tokens: 150,
+    maxTokens: 150,
     temperature: 0,
   });
+  await recordAIUsage(usageContext, response);
 
-  const raw = response.choices[0]?.message?.content ?? "";
+  const raw = response.content;
   // Strip markdown fences if present (same pattern as analyze.ts)
   const cleaned = raw.replace(/```(?:json)?\s*/g, "").replace(/```/g, "").trim();
   const parsed = JSON.parse(cleaned);
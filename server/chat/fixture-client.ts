@@ -0,0 +1,93 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { CompletionRequest, CompletionResult, LLMClient } from "./llm-client";
+
+/**
+ * Replays recorded completions so analysis and chat run offline and
+ * deterministically. Every *.json file in the fixtures directory holds an
+ * array of fixtures. With `recordFrom`, a request that has no fixture goes
+ * to that client instead and its reply is appended to recorded.json.
+ */
+
+/**
+ * One recorded reply. `key` replays it for exactly one request
+ * (fixtureKey); `match` replays it for any request whose last user
+ * message contains that text.
+ */
+export interface LLMFixture {
+  key?: string;
+  match?: string;
+  content: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export const RECORDED_FIXTURES_FILE = "recorded.json";
+
+/** Identifies a request by its model and messages; sampling options don't change the key. */
+export function fixtureKey(request: CompletionRequest): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ model: request.model, messages: request.messages }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function loadFixtures(fixturesDir: string): LLMFixture[] {
+  if (!fs.existsSync(fixturesDir)) return [];
+  return fs.readdirSync(fixturesDir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .flatMap((file) => JSON.parse(fs.readFileSync(path.join(fixturesDir, file), "utf-8")) as LLMFixture[]);
+}
+
+/** An exact key match wins; otherwise the first fixture whose `match` text the last user message contains. */
+export function findFixture(fixtures: LLMFixture[], request: CompletionRequest): LLMFixture | undefined {
+  const key = fixtureKey(request);
+  const exact = fixtures.find((f) => f.key === key);
+  if (exact) return exact;
+  const lastUserMessage = [...request.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+  return fixtures.find((f) => f.match !== undefined && lastUserMessage.includes(f.match));
+}
+
+/** Word-sized pieces, so a replayed stream arrives in several chunks and always the same ones */
+function streamPieces(content: string): string[] {
+  return content.match(/\s*\S+/g) ?? [];
+}
+
+export function createFixtureClient(options: { fixturesDir: string; recordFrom?: LLMClient }): LLMClient {
+  const { fixturesDir, recordFrom } = options;
+  let fixtures: LLMFixture[] | null = null;
+  const getFixtures = () => (fixtures ??= loadFixtures(fixturesDir));
+
+  function record(fixture: LLMFixture): void {
+    getFixtures().push(fixture);
+    const file = path.join(fixturesDir, RECORDED_FIXTURES_FILE);
+    const recorded: LLMFixture[] = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf-8")) : [];
+    recorded.push(fixture);
+    fs.mkdirSync(fixturesDir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(recorded, null, 2));
+  }
+
+  async function complete(request: CompletionRequest): Promise<CompletionResult> {
+    const fixture = findFixture(getFixtures(), request);
+    if (fixture) {
+      return { content: fixture.content, inputTokens: fixture.inputTokens, outputTokens: fixture.outputTokens };
+    }
+    if (!recordFrom) {
+      throw new Error(`No LLM fixture for request ${fixtureKey(request)} in ${fixturesDir}`);
+    }
+    const result = await recordFrom.complete(request);
+    record({ key: fixtureKey(request), ...result });
+    return result;
+  }
+
+  return {
+    complete,
+    async *stream(request) {
+      const result = await complete(request);
+      for (const piece of streamPieces(result.content)) yield { content: piece };
+      yield { usage: { inputTokens: result.inputTokens, outputTokens: result.outputTokens } };
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import OpenAI from "openai";
+
+/**
+ * The one shape every AI call goes through, whatever serves the model:
+ * a hosted API, a local llama.cpp/Ollama server, or recorded fixtures
+ * (fixture-client.ts). getClient in models.ts picks the implementation.
+ */
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  /** The provider's model name (ModelConfig.model), not the registry id */
+  model: string;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionResult extends TokenUsage {
+  /** Empty when the model returned nothing */
+  content: string;
+}
+
+/** Streamed text; the last chunk carries the token counts */
+export interface CompletionChunk {
+  content?: string;
+  usage?: TokenUsage;
+}
+
+export interface LLMClient {
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest): AsyncIterable<CompletionChunk>;
+}
+
+/** Any server speaking the OpenAI chat completions API. */
+export function createOpenAICompatibleClient(options: { baseURL?: string; apiKey: string }): LLMClient {
+  const openai = new OpenAI(options);
+
+  return {
+    async complete(request) {
+      const response = await openai.chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+      });
+      return {
+        content: response.choices[0]?.message?.content ?? "",
+        inputTokens: response.usage?.prompt_tokens ?? 0,
+        outputTokens: response.usage?.completion_tokens ?? 0,
+      };
+    },
+
+    async *stream(request) {
+      const stream = await openai.chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) yield { content };
+        if (chunk.usage) {
+          yield { usage: { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens } };
+        }
+      }
+    },
+  };
+}
@@ -1,18 +1,71 @@
-import OpenAI from "openai";
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { createOpenAICompatibleClient, type LLMClient } from "./llm-client";
+import { createFixtureClient } from "./fixture-client";
+
+/**
+ * The model registry: which models exist, which provider serves each one
+ * and what they cost. Built-in DeepSeek and OpenAI entries are merged with
+ * the JSON file named by LLM_CONFIG, which can add OpenAI-compatible
+ * servers (a local llama.cpp/Ollama), fixture replay, or re-price models.
+ */
+
+const providerSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("openai-compatible"),
+    /** Omit for api.openai.com */
+    baseURL: z.string().url().optional(),
+    /** Env var holding the API key; omit for local servers that don't check one */
+    apiKeyEnv: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("fixture"),
+    /** Relative paths resolve against the config file */
+    fixturesDir: z.string(),
+    /** Provider to forward unmatched requests to, recording its replies */
+    recordFrom: z.string().optional(),
+  }),
+]);
+
+const modelSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().optional(),
+  provider: z.string().min(1),
+  /** Name sent to the provider; defaults to the id */
+  model: z.string().optional(),
+  inputCostPerM: z.number().nonnegative(),
+  outputCostPerM: z.number().nonnegative(),
+  maxTokens: z.number().int().positive().default(4096),
+});
+
+export const llmConfigSchema = z.object({
+  providers: z.record(providerSchema).default({}),
+  models: z.array(modelSchema).default([]),
+  defaultModel: z.string().optional(),
+});
+
+export type ProviderConfig = z.infer<typeof providerSchema>;
+export type LLMConfig = z.input<typeof llmConfigSchema>;
 
 export interface ModelConfig {
   id: string;
   label: string;
-  provider: "deepseek" | "openai";
+  /** Key into the registry's providers */
+  provider: string;
   model: string;
   inputCostPerM: number;  // cents per million input tokens
   outputCostPerM: number; // cents per million output tokens
   maxTokens: number;
-  envKey: string;
 }
 
-export const AVAILABLE_MODELS: Record<string, ModelConfig> = {
-  "deepseek-chat": {
+const BUILTIN_PROVIDERS: Record<string, ProviderConfig> = {
+  deepseek: { type: "openai-compatible", baseURL: "https://api.deepseek.com", apiKeyEnv: "DEEPSEEK_API_KEY" },
+  openai: { type: "openai-compatible", apiKeyEnv: "OPENAI_API_KEY" },
+};
+
+const BUILTIN_MODELS: ModelConfig[] = [
+  {
     id: "deepseek-chat",
     label: "DeepSeek V3",
     provider: "deepseek",
@@ -20,9 +73,8 @@ export const AVAILABLE_MODELS: Record<string, ModelConfig> = {
     inputCostPerM: 0.27,
     outputCostPerM: 1.10,
     maxTokens: 4096,
-    envKey: "DEEPSEEK_API_KEY",
   },
-  "gpt-4o-mini": {
+  {
     id: "gpt-4o-mini",
     label: "GPT-4o Mini",
     provider: "openai",
@@ -30,46 +82,126 @@ export const AVAILABLE_MODELS: Record<string, ModelConfig> = {
     inputCostPerM: 0.15,
     outputCostPerM: 0.60,
     maxTokens: 4096,
-    envKey: "OPENAI_API_KEY",
   },
-};
+];
+
+const BUILTIN_DEFAULT_MODEL_ID = "deepseek-chat";
 
-export const DEFAULT_MODEL_ID = "deepseek-chat";
+/** Sent to servers that need no key; the OpenAI SDK refuses an empty one */
+const NO_API_KEY = "not-needed";
 
-const clients = new Map<string, OpenAI>();
+interface Registry {
+  providers: Record<string, ProviderConfig>;
+  models: Map<string, ModelConfig>;
+  defaultModelId: string;
+}
+
+/** Merge `config` over the built-ins. Relative fixture dirs resolve against `baseDir`. */
+function buildRegistry(config: LLMConfig = {}, baseDir = process.cwd()): Registry {
+  const parsed = llmConfigSchema.parse(config);
 
-function getBaseURL(provider: string): string | undefined {
-  switch (provider) {
-    case "deepseek":
-      return "https://api.deepseek.com";
-    case "openai":
-      return undefined; // OpenAI SDK default
-    default:
-      return undefined;
+  const providers: Record<string, ProviderConfig> = { ...BUILTIN_PROVIDERS };
+  for (const [id, provider] of Object.entries(parsed.providers)) {
+    providers[id] = provider.type === "fixture"
+      ? { ...provider, fixturesDir: path.resolve(baseDir, provider.fixturesDir) }
+      : provider;
   }
+
+  const models = new Map(BUILTIN_MODELS.map((m) => [m.id, m]));
+  for (const m of parsed.models) {
+    models.set(m.id, { ...m, label: m.label ?? m.id, model: m.model ?? m.id });
+  }
+
+  for (const [id, provider] of Object.entries(providers)) {
+    if (provider.type !== "fixture" || !provider.recordFrom) continue;
+    const upstream = providers[provider.recordFrom];
+    if (!upstream || upstream.type === "fixture") {
+      throw new Error(`LLM provider ${id} records from ${provider.recordFrom}, which is not an OpenAI-compatible provider`);
+    }
+  }
+  for (const m of Array.from(models.values())) {
+    if (!providers[m.provider]) throw new Error(`LLM model ${m.id} uses unknown provider ${m.provider}`);
+  }
+  const defaultModelId = parsed.defaultModel ?? BUILTIN_DEFAULT_MODEL_ID;
+  if (!models.has(defaultModelId)) throw new Error(`LLM default model ${defaultModelId} is not configured`);
+
+  return { providers, models, defaultModelId };
+}
+
+function loadConfiguredRegistry(): Registry {
+  const configPath = process.env.LLM_CONFIG;
+  if (!configPath) return buildRegistry();
+  const resolved = path.resolve(configPath);
+  return buildRegistry(JSON.parse(fs.readFileSync(resolved, "utf-8")), path.dirname(resolved));
+}
+
+let registry: Registry | null = null;
+const clients = new Map<string, LLMClient>();
+
+function getRegistry(): Registry {
+  return (registry ??= loadConfiguredRegistry());
+}
+
+/**
+ * Replace the registry with the built-ins plus `config`, e.g. to point
+ * tests at fixture replay. Without an argument, re-reads LLM_CONFIG.
+ */
+export function configureModels(config?: LLMConfig): void {
+  registry = config ? buildRegistry(config) : loadConfiguredRegistry();
+  clients.clear();
+}
+
+export function listModels(): ModelConfig[] {
+  return Array.from(getRegistry().models.values());
+}
+
+export function findModel(modelId: string): ModelConfig | undefined {
+  return getRegistry().models.get(modelId);
+}
+
+export function getDefaultModelId(): string {
+  return getRegistry().defaultModelId;
 }
 
 export function getModelConfig(modelId?: string): ModelConfig {
-  if (!modelId || !AVAILABLE_MODELS[modelId]) {
-    return AVAILABLE_MODELS[DEFAULT_MODEL_ID];
+  const { models, defaultModelId } = getRegistry();
+  return (modelId && models.get(modelId)) || models.get(defaultModelId)!;
+}
+
+function isProviderReady(provider: ProviderConfig): boolean {
+  if (provider.type === "fixture") return true;
+  return !provider.apiKeyEnv || !!process.env[provider.apiKeyEnv];
+}
+
+function getProviderClient(providerId: string): LLMClient {
+  if (!clients.has(providerId)) {
+    const { providers } = getRegistry();
+    const provider = providers[providerId];
+    // Without the upstream's key, fixture replay still works; only recording is off
+    const canRecord = provider.type === "fixture" && !!provider.recordFrom && isProviderReady(providers[provider.recordFrom]);
+    clients.set(providerId, provider.type === "fixture"
+      ? createFixtureClient({
+          fixturesDir: provider.fixturesDir,
+          recordFrom: canRecord ? getProviderClient(provider.recordFrom!) : undefined,
+        })
+      : createOpenAICompatibleClient({
+          baseURL: provider.baseURL,
+          apiKey: provider.apiKeyEnv ? process.env[provider.apiKeyEnv]! : NO_API_KEY,
+        }));
   }
-  return AVAILABLE_MODELS[modelId];
+  return clients.get(providerId)!;
 }
 
-export function getClient(modelId?: string): OpenAI {
+export function getClient(modelId?: string): LLMClient {
   const config = getModelConfig(modelId);
-  const key = config.id;
+  const provider = getRegistry().providers[config.provider];
 
-  if (!clients.has(key)) {
-    const apiKey = process.env[config.envKey];
-    if (!apiKey) {
-      throw new Error(`${config.envKey} not set — cannot use model ${config.label}`);
-    }
-    const baseURL = getBaseURL(config.provider);
-    clients.set(key, new OpenAI({ baseURL, apiKey }));
+  if (!isProviderReady(provider)) {
+    const envKey = provider.type === "openai-compatible" ? provider.apiKeyEnv : undefined;
+    throw new Error(`${envKey} not set — cannot use model ${config.label}`);
   }
 
-  return clients.get(key)!;
+  return getProviderClient(config.provider);
 }
 
 export function calculateCostCents(
@@ -84,7 +216,7 @@ export function calculateCostCents(
 }
 
 export function isModelAvailable(modelId: string): boolean {
-  const config = AVAILABLE_MODELS[modelId];
+  const config = findModel(modelId);
   if (!config) return false;
-  return !!process.env[config.envKey];
+  return isProviderReady(getRegistry().providers[config.provider]);
 }
@@ -0,0 +1,299 @@
+/**
+ * Retrieval pipeline for Ask the Archive: the question is expanded into
+ * search terms, each retriever (keyword, vector, person mentions) proposes
+ * pages in parallel, their rankings are merged by reciprocal-rank fusion,
+ * the candidates are re-ranked on their full text and whole pages are packed
+ * into a fixed character budget, each labelled with its document and page so
+ * answers can cite them exactly. Pure apart from the injected retrievers and
+ * page loader; server/chat/retriever.ts wires them to Typesense and storage.
+ */
+
+export interface PageKey {
+  documentId: number;
+  pageNumber: number;
+}
+
+/** A page proposed by one retriever, best first within that retriever's list */
+export interface RetrievedPage extends PageKey {
+  title: string;
+  /** Snippet shown to the re-ranker when the full page can't be loaded */
+  snippet: string;
+}
+
+export interface ExpandedQuery {
+  question: string;
+  /** Content words of the question */
+  keywords: string[];
+  /** Phrases to search for: extracted terms, then names and aliases of matched persons */
+  terms: string[];
+  personIds: number[];
+}
+
+export interface PageRetriever {
+  /** Shown in citations, e.g. "keyword" */
+  name: string;
+  retrieve(query: ExpandedQuery, limit: number): Promise<RetrievedPage[]>;
+}
+
+export interface FusedPage extends RetrievedPage {
+  /** Reciprocal-rank fusion score */
+  fusedScore: number;
+  /** Retrievers that found the page */
+  retrievers: string[];
+}
+
+export interface RankedPage extends FusedPage {
+  content: string;
+  score: number;
+}
+
+export interface PackedPage extends PageKey {
+  title: string;
+  text: string;
+  retrievers: string[];
+}
+
+export interface RetrievalOptions {
+  retrievers: PageRetriever[];
+  /** Full text of the candidate pages; pages it doesn't return keep their snippet */
+  loadPages: (keys: PageKey[]) => Promise<(PageKey & { content: string })[]>;
+  rerank?: (query: ExpandedQuery, pages: (FusedPage & { content: string })[]) => RankedPage[];
+  /** Pages asked of each retriever */
+  perRetrieverLimit?: number;
+  /** Fused pages passed to the re-ranker */
+  candidateLimit?: number;
+  budgetChars?: number;
+}
+
+/** Standard RRF constant: damps the advantage of the very top ranks. */
+export const RRF_K = 60;
+export const PER_RETRIEVER_LIMIT = 20;
+export const CANDIDATE_LIMIT = 30;
+export const CONTEXT_BUDGET_CHARS = 20_000;
+/** Longest excerpt of one page, so a single long page can't fill the budget */
+export const PAGE_MAX_CHARS = 4_000;
+/** Smallest useful excerpt when trimming a page to the budget that's left */
+const PAGE_MIN_CHARS = 400;
+export const SECTION_SEPARATOR = "\n\n---\n\n";
+/** Weight of term coverage against fusion rank when re-ranking */
+const RERANK_COVERAGE_WEIGHT = 0.6;
+
+const STOPWORDS = new Set([
+  "the", "is", "a", "an", "and", "or", "but", "in", "on", "at", "to", "for",
+  "of", "with", "by", "from", "as", "into", "through", "during", "before",
+  "after", "above", "below", "between", "out", "off", "over", "under", "again",
+  "further", "then", "once", "here", "there", "all", "each", "every", "both",
+  "few", "more", "most", "other", "some", "such", "no", "nor", "not", "only",
+  "own", "same", "so", "than", "too", "very", "can", "will", "just", "should",
+  "now", "also", "who", "what", "where", "when", "how", "why", "which", "whom",
+  "did", "was", "were", "been", "being", "have", "has", "had", "having", "do",
+  "does", "done", "doing", "would", "could", "might", "shall", "may", "must",
+  "about", "up", "it", "its", "he", "she", "they", "them", "his", "her",
+  "their", "we", "you", "me", "my", "your", "our", "this", "that", "these",
+  "those", "am", "are", "if", "be", "because", "until", "while",
+  "tell", "know", "any", "much", "many", "get", "got",
+]);
+
+export function extractKeywords(query: string): string[] {
+  const tokens = query.toLowerCase().split(/[\s,.;:!?'"()\-/]+/);
+  return tokens.filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+function pageKey(page: PageKey): string {
+  return `${page.documentId}:${page.pageNumber}`;
+}
+
+/** Lower-cased word stems: a trailing plural "s" is dropped so "flights" matches "flight". */
+function stems(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .map((t) => (t.length > 3 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t));
+}
+
+function queryStems(query: ExpandedQuery): Set<string> {
+  const words = [...query.keywords, ...query.terms].join(" ");
+  return new Set(stems(words).filter((s) => s.length > 1 && !STOPWORDS.has(s)));
+}
+
+/**
+ * The question as the retrievers see it. Extracted search terms lead when the
+ * model gave any; names and aliases of matched persons are appended so a page
+ * that says "the Duke of York" is found for a question about Prince Andrew.
+ */
+export function expandQuery(
+  question: string,
+  extracted: { searchTerms: string[] } | null,
+  matchedPersons: { id: number; name: string; aliases?: string[] | null }[],
+): ExpandedQuery {
+  const keywords = extractKeywords(question);
+  const base = extracted && extracted.searchTerms.length > 0 ? extracted.searchTerms : keywords;
+  const seen = new Set<string>();
+  const terms: string[] = [];
+  for (const term of [...base, ...matchedPersons.flatMap((p) => [p.name, ...(p.aliases ?? [])])]) {
+    const clean = term.trim();
+    if (!clean || seen.has(clean.toLowerCase())) continue;
+    seen.add(clean.toLowerCase());
+    terms.push(clean);
+  }
+  return { question, keywords, terms, personIds: matchedPersons.map((p) => p.id) };
+}
+
+/**
+ * Merge ranked lists: each page scores the sum of 1 / (k + rank) over the
+ * lists it appears in, so pages several retrievers agree on rise without
+ * comparing their incompatible raw scores. The first list to propose a page
+ * supplies its title and snippet.
+ */
+export function reciprocalRankFusion(
+  lists: { name: string; pages: RetrievedPage[] }[],
+  k = RRF_K,
+): FusedPage[] {
+  const byPage = new Map<string, FusedPage>();
+  for (const { name, pages } of lists) {
+    const seen = new Set<string>();
+    pages.forEach((page, rank) => {
+      const key = pageKey(page);
+      if (seen.has(key)) return;
+      seen.add(key);
+      const score = 1 / (k + rank + 1);
+      const existing = byPage.get(key);
+      if (existing) {
+        existing.fusedScore += score;
+        existing.retrievers.push(name);
+      } else {
+        byPage.set(key, { ...page, fusedScore: score, retrievers: [name] });
+      }
+    });
+  }
+  return Array.from(byPage.values()).sort((a, b) => b.fusedScore - a.fusedScore);
+}
+
+/**
+ * Default re-ranker: how much of the question each page's text covers, with
+ * terms rare among the candidates weighing more and whole phrases found
+ * verbatim adding a bonus, blended with the page's fusion rank.
+ */
+export function rerankByCoverage(query: ExpandedQuery, pages: (FusedPage & { content: string })[]): RankedPage[] {
+  if (pages.length === 0) return [];
+  const pageStems = pages.map((p) => new Set(stems(p.content)));
+  const weight = new Map(Array.from(queryStems(query)).map((s): [string, number] => {
+    const df = pageStems.filter((set) => set.has(s)).length;
+    return [s, Math.log(1 + pages.length / (1 + df))];
+  }));
+  const totalWeight = Array.from(weight.values()).reduce((sum, w) => sum + w, 0);
+  const phrases = query.terms.filter((t) => /\s/.test(t.trim())).map((t) => t.toLowerCase());
+  const maxFused = pages.reduce((max, p) => Math.max(max, p.fusedScore), 0);
+
+  return pages.map((page, i) => {
+    let covered = 0;
+    weight.forEach((w, s) => {
+      if (pageStems[i].has(s)) covered += w;
+    });
+    const text = page.content.toLowerCase().replace(/\s+/g, " ");
+    const phraseHits = phrases.filter((p) => text.includes(p)).length;
+    const coverage = Math.min(1, (totalWeight > 0 ? covered / totalWeight : 0) + 0.1 * phraseHits);
+    const rank = maxFused > 0 ? page.fusedScore / maxFused : 0;
+    return { ...page, score: RERANK_COVERAGE_WEIGHT * coverage + (1 - RERANK_COVERAGE_WEIGHT) * rank };
+  }).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The `maxChars` window of a page with the most query terms in it, cut at
+ * word boundaries and marked with "…" where text was left out.
+ */
+export function excerptPage(content: string, query: ExpandedQuery, maxChars: number): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  if (text.length <= maxChars) return text;
+
+  const wanted = queryStems(query);
+  const hits: number[] = [];
+  const word = /[A-Za-z0-9]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = word.exec(text)) !== null) {
+    if (wanted.has(stems(match[0])[0])) hits.push(match.index);
+  }
+
+  // Slide over the hit positions for the window holding the most of them
+  let bestStart = 0;
+  let bestCount = 0;
+  for (let i = 0, j = 0; i < hits.length; i++) {
+    while (hits[j] < hits[i] - maxChars / 2) j++;
+    if (i - j + 1 > bestCount) {
+      bestCount = i - j + 1;
+      bestStart = hits[j];
+    }
+  }
+  let start = Math.max(0, Math.min(bestStart - Math.floor(maxChars / 4), text.length - maxChars));
+  if (start > 0) start = text.indexOf(" ", start) + 1;
+  let end = Math.min(text.length, start + maxChars - 2);
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > start) end = space;
+  }
+  return `${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+}
+
+export function pageLabel(page: PackedPage): string {
+  return `[Doc #${page.documentId}, p. ${page.pageNumber}] ${page.title}`;
+}
+
+/**
+ * Fill the budget with pages in rank order. A page is never split across
+ * sections; one that doesn't fit whole is trimmed to its best window if at
+ * least PAGE_MIN_CHARS remain, and otherwise skipped for a later, shorter one.
+ */
+export function packPages(
+  pages: RankedPage[],
+  query: ExpandedQuery,
+  budgetChars: number,
+): { contextText: string; packed: PackedPage[] } {
+  const sections: string[] = [];
+  const packed: PackedPage[] = [];
+  let used = 0;
+  for (const page of pages) {
+    const separator = sections.length > 0 ? SECTION_SEPARATOR.length : 0;
+    const entry: PackedPage = {
+      documentId: page.documentId,
+      pageNumber: page.pageNumber,
+      title: page.title,
+      text: "",
+      retrievers: page.retrievers,
+    };
+    const overhead = separator + pageLabel(entry).length + 1;
+    const room = Math.min(PAGE_MAX_CHARS, budgetChars - used - overhead);
+    const whole = page.content.replace(/\s+/g, " ").trim();
+    if (!whole || (whole.length > room && room < PAGE_MIN_CHARS)) continue;
+    entry.text = whole.length <= room ? whole : excerptPage(whole, query, room);
+    const section = `${pageLabel(entry)}\n${entry.text}`;
+    sections.push(section);
+    packed.push(entry);
+    used += separator + section.length;
+  }
+  return { contextText: sections.join(SECTION_SEPARATOR), packed };
+}
+
+/**
+ * Run every retriever, fuse and re-rank their pages and pack the best into
+ * the budget. A retriever that fails contributes nothing rather than failing
+ * the question.
+ */
+export async function retrievePages(
+  query: ExpandedQuery,
+  options: RetrievalOptions,
+): Promise<{ contextText: string; packed: PackedPage[] }> {
+  const perRetriever = options.perRetrieverLimit ?? PER_RETRIEVER_LIMIT;
+  const settled = await Promise.allSettled(options.retrievers.map((r) => r.retrieve(query, perRetriever)));
+  const lists = settled.map((result, i) => ({
+    name: options.retrievers[i].name,
+    pages: result.status === "fulfilled" ? result.value : [],
+  }));
+
+  const candidates = reciprocalRankFusion(lists).slice(0, options.candidateLimit ?? CANDIDATE_LIMIT);
+  if (candidates.length === 0) return { contextText: "", packed: [] };
+
+  const loaded = await options.loadPages(candidates).catch(() => []);
+  const contentByPage = new Map(loaded.map((p) => [pageKey(p), p.content]));
+  const withContent = candidates.map((c) => ({ ...c, content: contentByPage.get(pageKey(c)) ?? c.snippet }));
+
+  const ranked = (options.rerank ?? rerankByCoverage)(query, withContent);
+  return packPages(ranked, query, options.budgetChars ?? CONTEXT_BUDGET_CHARS);
+}
@@ -1,8 +1,22 @@
-import type { Person, ChatCitation, AIAnalysisListItem, AIAnalysisDocument } from "@shared/schema";
+import type { Person, ChatCitation } from "@shared/schema";
 import { storage } from "../storage";
-import { extractSearchQuery, buildTsQuery, type ExtractedQuery } from "./extractor";
-import { isTypesenseConfigured, typesenseSearchPages } from "../typesense";
+import { extractSearchQuery, buildTsQuery } from "./extractor";
+import {
+  isTypesenseConfigured,
+  typesenseSearchPages,
+  typesenseSemanticSearchPages,
+  type TypesenseSearchResponse,
+} from "../typesense";
 import { isR2Configured } from "../r2";
+import {
+  CONTEXT_BUDGET_CHARS,
+  SECTION_SEPARATOR,
+  expandQuery,
+  extractKeywords,
+  retrievePages,
+  type PageRetriever,
+  type RetrievedPage,
+} from "./retrieval";
 
 export interface RetrievalResult {
   contextText: string;
@@ -10,31 +24,12 @@ export interface RetrievalResult {
   retrievedDocumentIds: number[];
 }
 
-const STOPWORDS = new Set([
-  "the", "is", "a", "an", "and", "or", "but", "in", "on", "at", "to", "for",
-  "of", "with", "by", "from", "as", "into", "through", "during", "before",
-  "after", "above", "below", "between", "out", "off", "over", "under", "again",
-  "further", "then", "once", "here", "there", "all", "each", "every", "both",
-  "few", "more", "most", "other", "some", "such", "no", "nor", "not", "only",
-  "own", "same", "so", "than", "too", "very", "can", "will", "just", "should",
-  "now", "also", "who", "what", "where", "when", "how", "why", "which", "whom",
-  "did", "was", "were", "been", "being", "have", "has", "had", "having", "do",
-  "does", "done", "doing", "would", "could", "might", "shall", "may", "must",
-  "about", "up", "it", "its", "he", "she", "they", "them", "his", "her",
-  "their", "we", "you", "me", "my", "your", "our", "this", "that", "these",
-  "those", "am", "are", "if", "be", "because", "until", "while",
-  "tell", "know", "any", "much", "many", "get", "got",
-]);
-
-const MAX_CONTEXT_CHARS = 20_000;
+/** Share of the context budget person profiles may take; pages get the rest */
+const PERSON_BUDGET_CHARS = 3_000;
+const MAX_PERSONS = 5;
 
 let personsCache: Person[] | null = null;
 
-function extractKeywords(query: string): string[] {
-  const tokens = query.toLowerCase().split(/[\s,.;:!?'"()\-/]+/);
-  return tokens.filter((t) => t.length > 1 && !STOPWORDS.has(t));
-}
-
 function matchesPersonName(keywords: string[], person: Person): boolean {
   const nameParts = person.name.toLowerCase().split(/\s+/);
   for (const keyword of keywords) {
@@ -53,11 +48,6 @@ function matchesPersonName(keywords: string[], person: Person): boolean {
   return false;
 }
 
-function matchesAnalysisItem(keywords: string[], item: AIAnalysisListItem): boolean {
-  const searchable = `${item.summary} ${item.documentType} ${item.dataSet} ${item.fileName}`.toLowerCase();
-  return keywords.some((kw) => searchable.includes(kw));
-}
-
 function truncateToLimit(text: string, limit: number): string {
   if (text.length <= limit) return text;
   return text.slice(0, limit) + "\n...[truncated]";
@@ -69,8 +59,14 @@ async function loadPersons(): Promise<Person[]> {
   return personsCache;
 }
 
+/** Typesense headlines carry <mark> tags and, for semantic hits, escaped text. */
 function stripHtmlTags(html: string): string {
-  return html.replace(/<[^>]+>/g, "");
+  return html
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&amp;/g, "&");
 }
 
 function matchesPersonByName(name: string, person: Person): boolean {
@@ -84,135 +80,90 @@ function matchesPersonByName(name: string, person: Person): boolean {
   return false;
 }
 
+function toRetrievedPages(response: { results: TypesenseSearchResponse["results"] }): RetrievedPage[] {
+  return response.results.map((r) => ({
+    documentId: r.documentId,
+    pageNumber: r.pageNumber,
+    title: r.title,
+    snippet: stripHtmlTags(r.headline),
+  }));
+}
+
+/** Full-text page search over the expanded terms: Typesense first, PostgreSQL OR-mode fallback. */
+const keywordRetriever: PageRetriever = {
+  name: "keyword",
+  async retrieve(query, limit) {
+    if (isTypesenseConfigured()) {
+      try {
+        return toRetrievedPages(await typesenseSearchPages(query.terms.join(" "), 1, limit, { filterR2: isR2Configured() }));
+      } catch {
+        // fall through to PostgreSQL
+      }
+    }
+    const tsQuery = buildTsQuery(query.terms);
+    const results = tsQuery
+      ? await storage.searchPages(tsQuery, 1, limit, true, true)
+      : await storage.searchPages(query.question, 1, limit, false, true);
+    return toRetrievedPages(results);
+  },
+};
+
+/** Embedding similarity of the question as asked, over the page_chunks collection. */
+const semanticRetriever: PageRetriever = {
+  name: "semantic",
+  async retrieve(query, limit) {
+    return toRetrievedPages(await typesenseSemanticSearchPages(query.question, 1, limit, { filterR2: isR2Configured() }));
+  },
+};
+
+/** Pages naming the persons the question is about, most of them together first. */
+const personRetriever: PageRetriever = {
+  name: "person",
+  async retrieve(query, limit) {
+    const pages = await storage.getPersonMentionPages(query.personIds, limit);
+    return pages.map((p) => ({ documentId: p.documentId, pageNumber: p.pageNumber, title: p.documentTitle, snippet: "" }));
+  },
+};
+
+function defaultRetrievers(personIds: number[]): PageRetriever[] {
+  const retrievers = [keywordRetriever];
+  if (isTypesenseConfigured()) retrievers.push(semanticRetriever);
+  if (personIds.length > 0) retrievers.push(personRetriever);
+  return retrievers;
+}
+
+function relevanceLabel(retrievers: string[]): string {
+  return `${retrievers.join(" + ")} match`;
+}
+
+/**
+ * Context for one chat question (server/chat/retrieval.ts): the best pages
+ * from keyword, vector and person retrieval, each cited by page, packed into
+ * the budget left after short profiles of the persons the question names.
+ */
 export async function retrieveContext(query: string): Promise<RetrievalResult> {
   const keywords = extractKeywords(query);
   if (keywords.length === 0) {
     return { contextText: "", citations: [], retrievedDocumentIds: [] };
   }
 
-  // Run LLM extraction in parallel with loading persons and analysis list
-  let extracted: ExtractedQuery | null = null;
-  const [extractionResult, allPersons, analysisResult] = await Promise.all([
+  const [extracted, allPersons] = await Promise.all([
     extractSearchQuery(query).catch(() => null),
     loadPersons(),
-    storage.getAIAnalysisList({ page: 1, limit: 50, search: keywords.join(" ") }),
   ]);
-  extracted = extractionResult;
-  const analysisList = analysisResult.data;
-
-  // Build search terms: prefer LLM-extracted terms, fall back to keyword extraction
-  const searchTerms =
-    extracted && extracted.searchTerms.length > 0
-      ? extracted.searchTerms
-      : keywords;
-
-  // Typesense-first for page search, PostgreSQL fallback
-  let pageResults;
-  const tsQuery = buildTsQuery(searchTerms);
-  if (isTypesenseConfigured()) {
-    try {
-      pageResults = await typesenseSearchPages(tsQuery || query, 1, 20, { filterR2: isR2Configured() });
-    } catch {
-      // fall through to PostgreSQL
-    }
-  }
-  if (!pageResults) {
-    if (tsQuery) {
-      pageResults = await storage.searchPages(tsQuery, 1, 20, true);
-    } else {
-      pageResults = await storage.searchPages(query, 1, 20);
-    }
-  }
 
-  // Step 1: Find matched persons — prefer LLM-extracted names, fall back to keywords
-  const matchedPersonIds = new Set<number>();
+  // Matched persons — prefer LLM-extracted names, fall back to keywords
+  const matchedPersons =
+    extracted && extracted.personNames.length > 0
+      ? allPersons.filter((person) => extracted.personNames.some((name) => matchesPersonByName(name, person)))
+      : allPersons.filter((person) => matchesPersonName(keywords, person));
+  const persons = matchedPersons.slice(0, MAX_PERSONS);
 
-  if (extracted && extracted.personNames.length > 0) {
-    for (const person of allPersons) {
-      for (const name of extracted.personNames) {
-        if (matchesPersonByName(name, person)) {
-          matchedPersonIds.add(person.id);
-          break;
-        }
-      }
-    }
-  } else {
-    for (const person of allPersons) {
-      if (matchesPersonName(keywords, person)) {
-        matchedPersonIds.add(person.id);
-      }
-    }
-  }
-
-  // Step 2: Load full details for matched persons (up to 5)
-  const personIds = Array.from(matchedPersonIds).slice(0, 5);
-  const personDetails = await Promise.all(
-    personIds.map((id) => storage.getPersonWithDetails(id)),
-  );
-
-  // Step 3: Find matching analysis files (DB already filtered by search, refine with keywords)
-  const matchingAnalysisItems = analysisList.filter((item) =>
-    matchesAnalysisItem(keywords, item),
-  );
-  const analysisFilesToLoad = matchingAnalysisItems.slice(0, 10);
-  const analysisDocuments: AIAnalysisDocument[] = [];
-
-  for (const item of analysisFilesToLoad) {
-    const doc = await storage.getAIAnalysis(item.fileName);
-    if (doc) {
-      analysisDocuments.push(doc);
-    }
-  }
-
-  // Step 4: Build context text and citations
-  const sections: string[] = [];
-  const citations: ChatCitation[] = [];
-  const seenDocIds = new Set<number>();
+  const expanded = expandQuery(query, extracted, persons);
+  const personDetails = await Promise.all(persons.map((p) => storage.getPersonWithDetails(p.id)));
 
-  // Priority 1: Document summaries and key facts from AI analysis
-  for (const analysis of analysisDocuments) {
-    const parts: string[] = [];
-
-    if (analysis.summary) {
-      parts.push(`Summary: ${analysis.summary}`);
-    }
-    if (analysis.keyFacts && analysis.keyFacts.length > 0) {
-      parts.push(`Key Facts:\n${analysis.keyFacts.map((f) => `- ${f}`).join("\n")}`);
-    }
-    if (analysis.persons && analysis.persons.length > 0) {
-      const personNames = analysis.persons.map((p) => `${p.name} (${p.role ?? p.category ?? "mentioned"})`);
-      parts.push(`Persons mentioned: ${personNames.join(", ")}`);
-    }
-    if (analysis.events && analysis.events.length > 0) {
-      const eventLines = analysis.events.map((e) => `- ${e.date ? e.date + ": " : ""}${e.title}`);
-      parts.push(`Events:\n${eventLines.join("\n")}`);
-    }
-
-    if (parts.length > 0) {
-      const header = `[Analysis: ${analysis.fileName ?? "unknown"}] (${analysis.documentType ?? "document"})`;
-      sections.push(`${header}\n${parts.join("\n")}`);
-    }
-  }
-
-  // Priority 2: Full-text search page content
-  for (const page of pageResults.results) {
-    const plainText = stripHtmlTags(page.headline);
-    if (!plainText.trim()) continue;
-
-    const docLabel = `[Doc #${page.documentId}] ${page.title}`;
-    sections.push(`${docLabel} (page ${page.pageNumber})\n${plainText}`);
-
-    if (!seenDocIds.has(page.documentId)) {
-      seenDocIds.add(page.documentId);
-      citations.push({
-        documentId: page.documentId,
-        documentTitle: page.title,
-        relevance: "full-text match",
-      });
-    }
-  }
-
-  // Priority 3: Person details and connections
+  const personSections: string[] = [];
+  const personCitations: ChatCitation[] = [];
   for (const detail of personDetails) {
     if (!detail) continue;
 
@@ -232,14 +183,11 @@ export async function retrieveContext(query: string): Promise<RetrievalResult> {
 
     if (detail.documents && detail.documents.length > 0) {
       for (const doc of detail.documents.slice(0, 5)) {
-        if (!seenDocIds.has(doc.id)) {
-          seenDocIds.add(doc.id);
-          citations.push({
-            documentId: doc.id,
-            documentTitle: doc.title,
-            relevance: doc.mentionType ?? "linked",
-          });
-        }
+        personCitations.push({
+          documentId: doc.id,
+          documentTitle: doc.title,
+          relevance: doc.mentionType ?? "linked",
+        });
       }
       const docLines = detail.documents.slice(0, 5).map(
         (d: any) => `- [Doc #${d.id}] ${d.title}${d.context ? `: ${d.context}` : ""}`,
@@ -247,9 +195,33 @@ export async function retrieveContext(query: string): Promise<RetrievalResult> {
       parts.push(`Linked documents:\n${docLines.join("\n")}`);
     }
 
-    sections.push(`[Person: ${detail.name}]\n${parts.join("\n")}`);
+    personSections.push(`[Person: ${detail.name}]\n${parts.join("\n")}`);
+  }
+  const personText = personSections.length > 0
+    ? truncateToLimit(personSections.join(SECTION_SEPARATOR), PERSON_BUDGET_CHARS)
+    : "";
+
+  const pageBudget = CONTEXT_BUDGET_CHARS - (personText ? personText.length + SECTION_SEPARATOR.length : 0);
+  const { contextText: pageText, packed } = await retrievePages(expanded, {
+    retrievers: defaultRetrievers(expanded.personIds),
+    loadPages: (keys) => storage.getPagesContent(keys),
+    budgetChars: pageBudget,
+  });
+
+  // Page citations first, in rank order; person-linked documents only when no page of theirs is cited
+  const citations: ChatCitation[] = packed.map((page) => ({
+    documentId: page.documentId,
+    documentTitle: page.title,
+    pageNumber: page.pageNumber,
+    relevance: relevanceLabel(page.retrievers),
+  }));
+  const citedDocIds = new Set(citations.map((c) => c.documentId));
+  for (const citation of personCitations) {
+    if (citedDocIds.has(citation.documentId)) continue;
+    citedDocIds.add(citation.documentId);
+    citations.push(citation);
   }
 
-  const contextText = truncateToLimit(sections.join("\n\n---\n\n"), MAX_CONTEXT_CHARS);
-  return { contextText, citations, retrievedDocumentIds: Array.from(seenDocIds) };
+  const contextText = [pageText, personText].filter(Boolean).join(SECTION_SEPARATOR);
+  return { contextText, citations, retrievedDocumentIds: Array.from(citedDocIds) };
 }
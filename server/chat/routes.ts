@@ -4,7 +4,8 @@ import { conversations, messages, documents, pipelineJobs } from "@shared/schema
 import { eq, desc, sql, and, inArray } from "drizzle-orm";
 import { retrieveContext } from "./retriever";
 import { streamChatResponse } from "./service";
-import { AVAILABLE_MODELS, DEFAULT_MODEL_ID, isModelAvailable } from "./models";
+import { findModel, getDefaultModelId, isModelAvailable, listModels } from "./models";
+import { BudgetExceededError } from "../budget";
 
 async function queueUnanalyzedDocuments(documentIds: number[]): Promise<void> {
   if (documentIds.length === 0) return;
@@ -48,13 +49,13 @@ async function queueUnanalyzedDocuments(documentIds: number[]): Promise<void> {
 export function registerChatRoutes(app: Express): void {
   // List available AI models
   app.get("/api/chat/models", (_req: Request, res: Response) => {
-    const models = Object.values(AVAILABLE_MODELS).map((m) => ({
+    const models = listModels().map((m) => ({
       id: m.id,
       label: m.label,
       provider: m.provider,
       available: isModelAvailable(m.id),
     }));
-    res.json({ models, default: DEFAULT_MODEL_ID });
+    res.json({ models, default: getDefaultModelId() });
   });
 
   // List all conversations
@@ -120,7 +121,7 @@ export function registerChatRoutes(app: Express): void {
       }
 
       // Validate model if provided
-      const modelId = model && AVAILABLE_MODELS[model] ? model : undefined;
+      const modelId = typeof model === "string" && findModel(model) ? model : undefined;
 
       const context = await retrieveContext(content);
 
@@ -141,6 +142,9 @@ export function registerChatRoutes(app: Express): void {
 
       queueUnanalyzedDocuments(context.retrievedDocumentIds).catch(() => {});
     } catch (error) {
+      if (error instanceof BudgetExceededError && !res.headersSent) {
+        return res.status(429).json({ error: "The AI budget for chat has been used up; try again later" });
+      }
       console.error("Error in chat message:", error);
       if (res.headersSent) {
         res.write(`data: ${JSON.stringify({ error: "An error occurred while generating a response" })}\n\n`);
@@ -1,12 +1,14 @@
 import type { ChatCitation } from "@shared/schema";
 import type { RetrievalResult } from "./retriever";
 import { getClient, getModelConfig } from "./models";
+import type { LLMMessage, TokenUsage } from "./llm-client";
+import { assertWithinBudget, recordAIUsage } from "../budget";
 
 const SYSTEM_PROMPT = `You are a research assistant specializing in the publicly released Epstein case files. Your role is to help users understand the documents, persons, connections, and events in the archive.
 
 Rules:
 1. Only answer based on the provided document context. Do not speculate or add information from outside the archive.
-2. When referencing specific documents, cite them using [Doc #ID] format.
+2. When referencing specific documents, cite them using [Doc #ID, p. N] format with the page number shown in the context, or [Doc #ID] when no page is given.
 3. Clearly distinguish between allegations, established facts, and testimony. Use language like "according to testimony," "documents allege," or "records show."
 4. Be respectful of all individuals mentioned. These are legal documents involving serious matters.
 5. If the provided context does not contain enough information to answer a question, say so clearly rather than guessing.
@@ -28,10 +30,12 @@ export async function* streamChatResponse(
 ): AsyncGenerator<{ content?: string; done?: boolean; citations?: ChatCitation[] }> {
   const client = getClient(modelId);
   const config = getModelConfig(modelId);
+  const usageContext = { jobType: "chat", model: config.id };
+  await assertWithinBudget(usageContext);
 
   const recentHistory = conversationHistory.slice(-MAX_HISTORY_MESSAGES);
 
-  const messages: Parameters<typeof client.chat.completions.create>[0]["messages"] = [
+  const messages: LLMMessage[] = [
     { role: "system", content: SYSTEM_PROMPT },
     ...recentHistory.map((msg) => ({
       role: msg.role as "user" | "assistant",
@@ -40,20 +44,23 @@ export async function* streamChatResponse(
     { role: "user", content: buildUserMessage(userMessage, context) },
   ];
 
-  const stream = await client.chat.completions.create({
+  const stream = client.stream({
     model: config.model,
     messages,
-    stream: true,
-    max_tokens: 2048,
+    maxTokens: 2048,
     temperature: 0.3,
   });
 
+  // The last chunk carries the token counts the reply is billed for
+  let usage: TokenUsage | null = null;
   for await (const chunk of stream) {
-    const content = chunk.choices[0]?.delta?.content;
-    if (content) {
-      yield { content };
+    if (chunk.content) {
+      yield { content: chunk.content };
     }
+    if (chunk.usage) usage = chunk.usage;
   }
 
+  if (usage) await recordAIUsage(usageContext, usage);
+
   yield { done: true, citations: context.citations };
 }
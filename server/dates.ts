@@ -0,0 +1,54 @@
+/**
+ * Reading dates as written in documents: ISO, US slashed and written-out
+ * forms, down to whatever precision the text gives. Shared by the flight-log
+ * reader (server/flight-logs.ts) and timeline event dates
+ * (server/event-dates.ts).
+ */
+
+export const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+/** Number of days in a month (1-12) of a year. */
+export function lastDay(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Normalise a date to ISO form: YYYY-MM-DD, or YYYY-MM/YYYY when only that
+ * much is given. Slashed dates are read month-first, as in US logs; two-digit
+ * years from 50 on are 19xx. Returns null when unparseable or when the day
+ * does not exist in its month ("2004-02-30").
+ */
+export function normalizeDate(raw: string | null | undefined): string | null {
+  const text = raw?.trim();
+  if (!text) return null;
+  const iso = (y: number, m?: number, d?: number): string | null => {
+    if (y < 1900 || y > 2100) return null;
+    if (m === undefined) return String(y);
+    if (m < 1 || m > 12) return null;
+    const month = `${y}-${String(m).padStart(2, "0")}`;
+    if (d === undefined) return month;
+    if (d < 1 || d > lastDay(y, m)) return null;
+    return `${month}-${String(d).padStart(2, "0")}`;
+  };
+  const year = (y: string) => (y.length === 2 ? (parseInt(y, 10) >= 50 ? 1900 : 2000) + parseInt(y, 10) : parseInt(y, 10));
+
+  let m = text.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?(?:[T ].*)?$/);
+  if (m) return iso(parseInt(m[1], 10), parseInt(m[2], 10), m[3] ? parseInt(m[3], 10) : undefined);
+  m = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (m) return iso(year(m[3]), parseInt(m[1], 10), parseInt(m[2], 10));
+  m = text.match(/^([A-Za-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/);
+  if (m && MONTHS[m[1].slice(0, 3).toLowerCase()]) {
+    return iso(parseInt(m[3], 10), MONTHS[m[1].slice(0, 3).toLowerCase()], parseInt(m[2], 10));
+  }
+  m = text.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]{3,})\.?,?\s+(\d{4})$/);
+  if (m && MONTHS[m[2].slice(0, 3).toLowerCase()]) {
+    return iso(parseInt(m[3], 10), MONTHS[m[2].slice(0, 3).toLowerCase()], parseInt(m[1], 10));
+  }
+  m = text.match(/^([A-Za-z]{3,})\.?\s+(\d{4})$/);
+  if (m && MONTHS[m[1].slice(0, 3).toLowerCase()]) return iso(parseInt(m[2], 10), MONTHS[m[1].slice(0, 3).toLowerCase()]);
+  m = text.match(/^(\d{4})$/);
+  if (m) return iso(parseInt(m[1], 10));
+  return null;
+}
@@ -0,0 +1,100 @@
+import { clampInt, type QueryParseResult } from "./query-params";
+
+export const DEFAULT_TABLE_ROW_LIMIT = 50;
+export const MAX_TABLE_ROW_LIMIT = 500;
+const MAX_COLUMN_FILTERS = 20;
+
+export interface TableColumnFilter {
+  /** Zero-based index into the table's `columns` */
+  column: number;
+  /** Case-insensitive substring the cell must contain */
+  value: string;
+}
+
+export interface TableRowsOptions {
+  page: number;
+  limit: number;
+  /** Zero-based column to sort by; null keeps sheet order */
+  sort: number | null;
+  order: "asc" | "desc";
+  /** Substring matched against every cell of the row */
+  search: string | null;
+  filters: TableColumnFilter[];
+}
+
+export interface TableSearchOptions {
+  /** Case-insensitive substring of the column name, e.g. "passenger" */
+  column: string;
+  /** Case-insensitive substring of the cell value */
+  q: string;
+  dataSet: string | null;
+  page: number;
+  limit: number;
+}
+
+function parseColumnIndex(raw: string): number | null {
+  if (!/^\d+$/.test(raw)) return null;
+  const index = parseInt(raw, 10);
+  return index < 10000 ? index : null;
+}
+
+function trimmedString(raw: unknown): string | null {
+  return typeof raw === "string" && raw.trim() ? raw.trim() : null;
+}
+
+/**
+ * Parse `page`, `limit`, `sort` (column index), `order`, `q` and repeated
+ * `filter=<column index>:<text>` parameters for a table's rows.
+ */
+export function parseTableRowsQuery(query: Record<string, unknown>): QueryParseResult<TableRowsOptions> {
+  let sort: number | null = null;
+  if (query.sort !== undefined && query.sort !== "") {
+    sort = parseColumnIndex(String(query.sort));
+    if (sort === null) return { ok: false, error: "sort must be a column index" };
+  }
+
+  const rawFilters = ([] as unknown[]).concat(query.filter ?? []);
+  if (rawFilters.length > MAX_COLUMN_FILTERS) {
+    return { ok: false, error: `At most ${MAX_COLUMN_FILTERS} filters are allowed` };
+  }
+  const filters: TableColumnFilter[] = [];
+  for (const raw of rawFilters) {
+    const match = typeof raw === "string" ? raw.match(/^(\d+):([\s\S]*)$/) : null;
+    const column = match ? parseColumnIndex(match[1]) : null;
+    if (!match || column === null) {
+      return { ok: false, error: "filter must look like <column index>:<text>" };
+    }
+    const value = match[2].trim();
+    if (value) filters.push({ column, value });
+  }
+
+  return {
+    ok: true,
+    options: {
+      page: clampInt(query.page, 1, 1, 100000),
+      limit: clampInt(query.limit, DEFAULT_TABLE_ROW_LIMIT, 1, MAX_TABLE_ROW_LIMIT),
+      sort,
+      order: query.order === "desc" ? "desc" : "asc",
+      search: trimmedString(query.q),
+      filters,
+    },
+  };
+}
+
+/** Parse `column`, `q`, `dataSet`, `page` and `limit` for a search across all tables. */
+export function parseTableSearchQuery(query: Record<string, unknown>): QueryParseResult<TableSearchOptions> {
+  const column = trimmedString(query.column);
+  const q = trimmedString(query.q);
+  if (!column || !q) return { ok: false, error: "column and q are required" };
+
+  return {
+    ok: true,
+    options: {
+      column,
+      q,
+      dataSet: trimmedString(query.dataSet),
+      page: clampInt(query.page, 1, 1, 100000),
+      limit: clampInt(query.limit, DEFAULT_TABLE_ROW_LIMIT, 1, 100),
+    },
+  };
+}
@@ -0,0 +1,373 @@
+import type { EmailContact } from "@shared/schema";
+import { createWholeNameMatcher, type MentionCandidate } from "./person-mentions";
+
+/**
+ * RFC 822 / MIME parsing for email documents, reply threading and linking of
+ * senders and recipients to persons. Pure string work so scripts/pipeline/load-emails.ts
+ * can feed raw .eml/.mbox files or the flat page text of printed emails alike.
+ */
+
+export type EmailAddress = Pick<EmailContact, "name" | "address">;
+
+export interface ParsedEmail {
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  subject: string | null;
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  sentAt: Date | null;
+  /** The Date (or Outlook "Sent") header as written */
+  dateRaw: string | null;
+  body: string;
+}
+
+type Headers = Map<string, string>;
+
+// Outlook printouts use "Sent" for the date header
+const HEADER_ALIASES: Record<string, string> = { sent: "date" };
+const HEADER_LINE = /^([A-Za-z][A-Za-z0-9-]*):[ \t]*(.*)$/;
+const MBOX_SEPARATOR = /^From \S+.*$/m;
+
+/** Split a header block from its body and unfold continuation lines. */
+function splitHeaders(raw: string): { headers: Headers; body: string } {
+  const text = raw.replace(/\r\n?/g, "\n").replace(/^\s+/, "");
+  const headers: Headers = new Map();
+  const lines = text.split("\n");
+  let current: string | null = null;
+  let i = 0;
+
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim() === "") {
+      i++;
+      break;
+    }
+    if (/^[ \t]/.test(line) && current) {
+      headers.set(current, `${headers.get(current)} ${line.trim()}`);
+      continue;
+    }
+    const m = line.match(HEADER_LINE);
+    if (!m) break;
+    const name = m[1].toLowerCase();
+    current = HEADER_ALIASES[name] ?? name;
+    // Keep the first occurrence; later ones come from quoted or forwarded messages
+    if (!headers.has(current)) headers.set(current, m[2].trim());
+    else current = null;
+  }
+
+  return { headers, body: lines.slice(i).join("\n") };
+}
+
+function decodeQuotedPrintable(text: string): string {
+  const bytes: number[] = [];
+  const soft = text.replace(/=\n/g, "");
+  for (let i = 0; i < soft.length; i++) {
+    const hex = soft[i] === "=" ? soft.slice(i + 1, i + 3) : "";
+    if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(soft[i], "utf-8"));
+    }
+  }
+  return Buffer.from(bytes).toString("utf-8");
+}
+
+/** Decode RFC 2047 encoded words (=?charset?B|Q?...?=) in a header value. */
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, "?==?")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, _charset: string, encoding: string, data: string) => {
+      if (encoding.toUpperCase() === "B") return Buffer.from(data, "base64").toString("utf-8");
+      return decodeQuotedPrintable(data.replace(/_/g, " "));
+    });
+}
+
+/**
+ * Split an address list outside quotes and angle brackets. Outlook separates
+ * recipients with semicolons and writes names as "Last, First", so when a list
+ * has semicolons only those separate.
+ */
+function splitAddressList(value: string): string[] {
+  const separators = value.includes(";") ? [";"] : [",", ";"];
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const c = value[i];
+    if (c === '"') quoted = !quoted;
+    else if (!quoted && c === "<") depth++;
+    else if (!quoted && c === ">") depth = Math.max(0, depth - 1);
+    else if (!quoted && depth === 0 && separators.includes(c)) {
+      parts.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(value.slice(start));
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+function cleanName(name: string): string | null {
+  const cleaned = name.replace(/^["'\s]+|["'\s]+$/g, "").replace(/\s+/g, " ");
+  return cleaned || null;
+}
+
+export function parseAddress(value: string): EmailAddress | null {
+  const decoded = decodeHeaderValue(value).trim();
+  if (!decoded) return null;
+
+  // "Name <addr>" and the printed Outlook form "Name [mailto:addr]"
+  const angle = decoded.match(/^(.*?)(?:<([^>]*)>|\[mailto:([^\]]*)\])/i);
+  if (angle) {
+    const address = (angle[2] ?? angle[3]).trim().toLowerCase();
+    return { name: cleanName(angle[1]), address };
+  }
+  const bare = decoded.match(/^([^\s@]+@[^\s@]+)(?:\s*\((.*)\))?$/);
+  if (bare) return { name: bare[2] ? cleanName(bare[2]) : null, address: bare[1].toLowerCase() };
+  return { name: cleanName(decoded), address: "" };
+}
+
+export function parseAddressList(value: string | undefined): EmailAddress[] {
+  if (!value) return [];
+  const addresses: EmailAddress[] = [];
+  for (const part of splitAddressList(value)) {
+    const parsed = parseAddress(part);
+    if (parsed) addresses.push(parsed);
+  }
+  return addresses;
+}
+
+function parseMessageIds(value: string | undefined): string[] {
+  if (!value) return [];
+  return Array.from(value.matchAll(/<([^<>\s]+)>/g), (m) => m[1].toLowerCase());
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  // Drop trailing "(UTC)"-style zone comments, which Date.parse rejects
+  const time = Date.parse(value.replace(/\([^)]*\)\s*$/, "").trim());
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
+function headerParam(value: string | undefined, param: string): string | null {
+  if (!value) return null;
+  const m = value.match(new RegExp(`${param}\\s*=\\s*"?([^";]+)"?`, "i"));
+  return m ? m[1] : null;
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|tr|li)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n");
+}
+
+/** The readable text of a MIME entity: text/plain preferred, HTML stripped as a fallback. */
+function entityText(headers: Headers, body: string): string {
+  const contentType = (headers.get("content-type") ?? "text/plain").toLowerCase();
+  const boundary = headerParam(headers.get("content-type"), "boundary");
+
+  if (contentType.startsWith("multipart/") && boundary) {
+    const parts = body.split(`--${boundary}`).slice(1);
+    let html: string | null = null;
+    for (const part of parts) {
+      if (part.startsWith("--")) break;
+      const entity = splitHeaders(part.replace(/^\n/, ""));
+      const type = (entity.headers.get("content-type") ?? "text/plain").toLowerCase();
+      if (/attachment/i.test(entity.headers.get("content-disposition") ?? "")) continue;
+      if (type.startsWith("text/plain") || type.startsWith("multipart/")) {
+        const text = entityText(entity.headers, entity.body);
+        if (text.trim()) return text;
+      } else if (type.startsWith("text/html") && html === null) {
+        html = entityText(entity.headers, entity.body);
+      }
+    }
+    return html ?? "";
+  }
+
+  const encoding = (headers.get("content-transfer-encoding") ?? "").toLowerCase();
+  let text = body;
+  if (encoding === "base64") text = Buffer.from(body.replace(/\s+/g, ""), "base64").toString("utf-8");
+  else if (encoding === "quoted-printable") text = decodeQuotedPrintable(body);
+  return contentType.startsWith("text/html") ? stripHtml(text) : text;
+}
+
+export function parseEmail(raw: string): ParsedEmail {
+  const { headers, body } = splitHeaders(raw);
+  const references = parseMessageIds(headers.get("references"));
+  const inReplyTo = parseMessageIds(headers.get("in-reply-to"))[0] ?? references[references.length - 1] ?? null;
+  const subject = headers.get("subject");
+  const dateRaw = headers.get("date") ?? null;
+
+  return {
+    messageId: parseMessageIds(headers.get("message-id"))[0] ?? null,
+    inReplyTo,
+    references,
+    subject: subject ? decodeHeaderValue(subject).trim() || null : null,
+    from: parseAddressList(headers.get("from"))[0] ?? null,
+    to: parseAddressList(headers.get("to")),
+    cc: parseAddressList(headers.get("cc")),
+    sentAt: parseDate(dateRaw ?? undefined),
+    dateRaw,
+    body: entityText(headers, body).trim(),
+  };
+}
+
+/** True when the text opens with something that looks like an email header block. */
+export function looksLikeEmail(raw: string): boolean {
+  const { headers } = splitHeaders(raw);
+  return headers.has("from") && (headers.has("to") || headers.has("subject") || headers.has("date"));
+}
+
+/** Split an mbox file on its "From " separator lines, undoing ">From " escaping. */
+export function splitMbox(raw: string): string[] {
+  const text = raw.replace(/\r\n?/g, "\n");
+  if (!/^From /.test(text)) return [text];
+  return text
+    .split(/\n(?=From \S)/)
+    .map((chunk) => chunk.replace(MBOX_SEPARATOR, "").replace(/^>(>*From )/gm, "$1"))
+    .filter((chunk) => chunk.trim().length > 0);
+}
+
+// Printed reply chains quote earlier messages below a separator line with their own headers
+const QUOTED_MESSAGE_SEPARATOR = /^[ \t>]*-{2,}\s*(?:Original Message|Forwarded message)\s*-{2,}[ \t]*$/im;
+
+/**
+ * Parse a raw source file or page text into its messages, newest first as they
+ * appear; empty when no header block is found. Quoted messages in a printed
+ * chain become messages of their own.
+ */
+export function parseEmailSource(raw: string): ParsedEmail[] {
+  const chunks = splitMbox(raw).flatMap((message) => message.split(QUOTED_MESSAGE_SEPARATOR));
+  return chunks.filter(looksLikeEmail).map(parseEmail);
+}
+
+const SUBJECT_PREFIX = /^\s*((re|fw|fwd|aw|wg)(\[\d+\])?\s*:\s*)+/i;
+
+export function normalizeSubject(subject: string | null): string {
+  return (subject ?? "").replace(SUBJECT_PREFIX, "").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+export interface ThreadableEmail {
+  key: number;
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  subject: string | null;
+}
+
+/**
+ * Group messages into reply threads. A message joins the thread of the message it
+ * replies to (In-Reply-To, then the References chain); messages without known
+ * parents fall back to their normalized subject, so "Re:" replies printed without
+ * headers still land with their original. Returns message key → thread id, where
+ * the id is the root's Message-ID or "subject:<normalized subject>".
+ */
+export function threadEmails(messages: ThreadableEmail[]): Map<number, string> {
+  const byMessageId = new Map<string, ThreadableEmail>();
+  for (const m of messages) {
+    if (m.messageId && !byMessageId.has(m.messageId)) byMessageId.set(m.messageId, m);
+  }
+
+  const parentOf = (m: ThreadableEmail): ThreadableEmail | null => {
+    const candidates = [m.inReplyTo, ...[...m.references].reverse()];
+    for (const id of candidates) {
+      const parent = id ? byMessageId.get(id) : undefined;
+      if (parent && parent !== m) return parent;
+    }
+    return null;
+  };
+
+  const rootOf = (m: ThreadableEmail): ThreadableEmail => {
+    const seen = new Set<ThreadableEmail>([m]);
+    let node = m;
+    for (let parent = parentOf(node); parent && !seen.has(parent); parent = parentOf(node)) {
+      seen.add(parent);
+      node = parent;
+    }
+    return node;
+  };
+
+  const threadIds = new Map<number, string>();
+  const subjectThreads = new Map<string, string>();
+  const headerless: ThreadableEmail[] = [];
+
+  for (const m of messages) {
+    const root = rootOf(m);
+    // References[0] names the thread's original message even when we never saw it
+    const threadId = root.references[0] ?? root.inReplyTo ?? root.messageId;
+    if (!threadId) {
+      headerless.push(m);
+      continue;
+    }
+    threadIds.set(m.key, threadId);
+    const subject = normalizeSubject(root.subject);
+    if (subject && !subjectThreads.has(subject)) subjectThreads.set(subject, threadId);
+  }
+
+  for (const m of headerless) {
+    const subject = normalizeSubject(m.subject);
+    if (!subject) {
+      threadIds.set(m.key, `email:${m.key}`);
+      continue;
+    }
+    if (!subjectThreads.has(subject)) subjectThreads.set(subject, `subject:${subject}`);
+    threadIds.set(m.key, subjectThreads.get(subject)!);
+  }
+  return threadIds;
+}
+
+/**
+ * Resolve email participants to persons. Aliases that are email addresses map
+ * directly; otherwise the display name (or a "first.last" local part) must match
+ * a person's name or alias as a whole, using the same ambiguity rules as page
+ * mentions. `learn` records an address → person link so later messages from the
+ * same address resolve without a display name.
+ */
+export function createParticipantResolver(candidates: MentionCandidate[]) {
+  const matchWholeName = createWholeNameMatcher(candidates);
+  const byAddress = new Map<string, number | null>();
+  for (const c of candidates) {
+    for (const alias of c.aliases ?? []) {
+      if (!alias.includes("@")) continue;
+      const address = alias.trim().toLowerCase();
+      byAddress.set(address, byAddress.has(address) && byAddress.get(address) !== c.id ? null : c.id);
+    }
+  }
+
+  function resolve(participant: EmailAddress): number | null {
+    if (participant.address) {
+      const known = byAddress.get(participant.address);
+      if (known !== undefined) return known;
+    }
+    if (participant.name) {
+      const byName = matchWholeName(participant.name);
+      if (byName !== null) return byName;
+    }
+    const local = participant.address.split("@")[0];
+    if (local && /[._-]/.test(local)) {
+      // The mention matcher skips lowercase words, so "sarah.kellen" becomes "Sarah Kellen"
+      const words = local.split(/[._-]+/).map((w) => w.charAt(0).toUpperCase() + w.slice(1));
+      return matchWholeName(words.join(" "));
+    }
+    return null;
+  }
+
+  function learn(participant: EmailAddress, personId: number): void {
+    if (!participant.address || byAddress.has(participant.address)) return;
+    byAddress.set(participant.address, personId);
+  }
+
+  return { resolve, learn };
+}
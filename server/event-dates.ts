@@ -0,0 +1,227 @@
+/**
+ * Uncertain dates for timeline events. AI analyses write dates as free text
+ * ("circa 2002", "spring 1999", "2001-2003", "March 3-5, 2004"); each is read
+ * into a range of ISO days plus the precision it was given at, so the timeline
+ * can filter on overlap and draw vague events as spans. Used by
+ * scripts/pipeline/db-loader.ts, the background worker and
+ * scripts/pipeline/backfill-event-dates.ts.
+ */
+import { lastDay, MONTHS, normalizeDate } from "./dates";
+
+/**
+ * How exactly the source gave the date: a single day, month or year, a season
+ * or part of a year ("spring 1999", "early 2003"), part of a decade, a
+ * qualified guess ("circa 2002") or an explicit range ("2001-2003").
+ */
+export type DatePrecision = "day" | "month" | "season" | "year" | "decade" | "approximate" | "range";
+
+export const DATE_PRECISIONS: DatePrecision[] = ["day", "month", "season", "year", "decade", "approximate", "range"];
+
+export interface EventDateRange {
+  /** Point used for sorting and de-duplication: YYYY, YYYY-MM or YYYY-MM-DD */
+  date: string;
+  /** First possible day, YYYY-MM-DD */
+  earliest: string;
+  /** Last possible day, YYYY-MM-DD */
+  latest: string;
+  precision: DatePrecision;
+  /** The text as written, whitespace collapsed */
+  original: string;
+}
+
+type Span = Omit<EventDateRange, "original">;
+
+const SEASONS: Record<string, [number, number]> = {
+  spring: [3, 5], summer: [6, 8], fall: [9, 11], autumn: [9, 11],
+};
+// "early/mid/late" as month ranges of a year and year offsets within a decade
+const YEAR_PARTS: Record<string, [number, number]> = { early: [1, 4], mid: [5, 8], late: [9, 12] };
+const DECADE_PARTS: Record<string, [number, number]> = { early: [0, 3], mid: [3, 6], late: [6, 9] };
+const MIN_YEAR = 1900;
+const MAX_YEAR = 2030;
+
+const APPROX_PREFIX = /^(?:circa|ca\.?|c\.|approximately|approx\.?|about|around|roughly|~)\s*(.+)$/i;
+const APPROX_SUFFIX = /^(.+?),?\s*(?:\((?:approximate|approx\.?|estimated)\)|approximately|approx\.?)$/i;
+// Separators tried between the two ends of a range: words, spaced dashes, then bare dashes ("1994-1997")
+const RANGE_SEPARATORS = [/\s+(?:to|through|thru|until|till|and)\s+/gi, /\s+[–—-]\s+/g, /[–—-]/g];
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function monthSpan(year: number, from: number, to: number, toYear = year): Pick<Span, "earliest" | "latest"> {
+  return { earliest: `${year}-${pad(from)}-01`, latest: `${toYear}-${pad(to)}-${pad(lastDay(toYear, to))}` };
+}
+
+function yearSpan(from: number, to = from): Pick<Span, "earliest" | "latest"> {
+  return { earliest: `${from}-01-01`, latest: `${to}-12-31` };
+}
+
+/** The days covered by an ISO date at its own precision ("1999" is all of 1999). */
+function isoSpan(iso: string): Span {
+  const [y, m, d] = iso.split("-").map((part) => parseInt(part, 10));
+  if (d !== undefined) return { date: iso, earliest: iso, latest: iso, precision: "day" };
+  if (m !== undefined) return { date: iso, ...monthSpan(y, m, m), precision: "month" };
+  return { date: iso, ...yearSpan(y), precision: "year" };
+}
+
+/**
+ * A single day, month or year in any form normalizeDate accepts. An
+ * ISO date followed by more words ("2019-05-28 to 2019-05-30") is not a point.
+ */
+function parsePoint(text: string): Span | null {
+  if (/^\d{4}-\d{1,2}(?:-\d{1,2})?\s/.test(text)) return null;
+  const iso = normalizeDate(text.replace(/[.,;]+$/, ""));
+  if (!iso) return null;
+  const year = parseInt(iso.slice(0, 4), 10);
+  return year >= MIN_YEAR && year <= MAX_YEAR ? isoSpan(iso) : null;
+}
+
+/** "March 3-5, 2004" — a day range inside one month. */
+function parseDayRange(text: string): Span | null {
+  const m = text.match(/^([A-Za-z]{3,})\.?\s+(\d{1,2})\s*[–—-]\s*(\d{1,2}),?\s+(\d{4})$/);
+  const month = m ? MONTHS[m[1].slice(0, 3).toLowerCase()] : undefined;
+  if (!m || !month) return null;
+  const start = parsePoint(`${m[4]}-${pad(month)}-${pad(parseInt(m[2], 10))}`);
+  const end = parsePoint(`${m[4]}-${pad(month)}-${pad(parseInt(m[3], 10))}`);
+  if (!start || !end || end.latest < start.earliest) return null;
+  return { date: start.date, earliest: start.earliest, latest: end.latest, precision: "range" };
+}
+
+/**
+ * Two dates joined by "to", "until", "and" or a dash, each read on its own.
+ * A month without a year borrows the end's ("March to June 1999"). When the
+ * end is unreadable ("2019-05-28 to present") the start is used alone. Ends
+ * must be whole date expressions: no nested ranges and no year picked out of
+ * surrounding words, so a dash inside "2019-05-28" never splits it.
+ */
+function parseRange(text: string): Span | null {
+  const body = text.replace(/^(?:from|between)\s+/i, "");
+  for (const separator of RANGE_SEPARATORS) {
+    for (const match of Array.from(body.matchAll(separator))) {
+      const left = body.slice(0, match.index).trim();
+      const right = body.slice(match.index! + match[0].length).trim();
+      if (!left || !right) continue;
+      const end = parseRangeEnd(right);
+      const endYear = end?.earliest.slice(0, 4);
+      const bareMonth = /^[A-Za-z]{3,}\.?$/.test(left) && MONTHS[left.slice(0, 3).toLowerCase()] !== undefined;
+      const start = parseRangeEnd(left) ?? (endYear && bareMonth ? parseRangeEnd(`${left} ${endYear}`) : null);
+      if (start && end && end.latest >= start.earliest) {
+        return { date: start.date, earliest: start.earliest, latest: end.latest, precision: "range" };
+      }
+      if (start && !end && /[a-z]/i.test(match[0])) return start;
+    }
+  }
+  return null;
+}
+
+/** "circa 2002", "approximately March 1999", "2004 (approximate)"; a bare year widens by one each side. */
+function parseApproximate(text: string): Span | null {
+  const inner = text.match(APPROX_PREFIX)?.[1] ?? text.match(APPROX_SUFFIX)?.[1];
+  const span = inner ? parseDateText(inner) : null;
+  if (!span) return null;
+  if (span.precision === "year") {
+    const year = parseInt(span.date, 10);
+    return { date: span.date, ...yearSpan(year - 1, year + 1), precision: "approximate" };
+  }
+  return { ...span, precision: "approximate" };
+}
+
+/** "spring 1999", "2016-summer", "winter 2003" (December 2002 to February 2003), "early 2003". */
+function parseSeason(text: string): Span | null {
+  const m = text.match(/(\d{4})[- ]?(spring|summer|fall|autumn|winter)/i)
+    ?? text.match(/(spring|summer|fall|autumn|winter)(?:\s+of)?[- ]?(\d{4})/i);
+  if (m) {
+    const [season, yearText] = /\d/.test(m[1]) ? [m[2], m[1]] : [m[1], m[2]];
+    const year = parseInt(yearText, 10);
+    const key = season.toLowerCase();
+    const span = key === "winter" ? monthSpan(year - 1, 12, 2, year) : monthSpan(year, ...SEASONS[key]);
+    return { date: yearText, ...span, precision: "season" };
+  }
+  const part = text.match(/^(early|mid|late)[- ]?(\d{4})$/i);
+  if (part) {
+    const year = parseInt(part[2], 10);
+    return { date: part[2], ...monthSpan(year, ...YEAR_PARTS[part[1].toLowerCase()]), precision: "season" };
+  }
+  return null;
+}
+
+/** "1990s", "mid-1990s", "late 1990s". */
+function parseDecade(text: string): Span | null {
+  const m = text.match(/(?:\b(early|mid|late)[- ])?(\d{3}0)'?s\b/i);
+  if (!m) return null;
+  const decade = parseInt(m[2], 10);
+  const [from, to] = m[1] ? DECADE_PARTS[m[1].toLowerCase()] : [0, 9];
+  return { date: String(decade + from), ...yearSpan(decade + from, decade + to), precision: "decade" };
+}
+
+/** Month and year at the start of longer text: "March 15, 2020 (board meeting)". */
+function parseLeadingMonth(text: string): Span | null {
+  const m = text.match(/^([A-Za-z]{3,})\.?\s+(?:(\d{1,2})(?:st|nd|rd|th)?,?\s+)?(\d{4})\b/);
+  const month = m ? MONTHS[m[1].slice(0, 3).toLowerCase()] : undefined;
+  if (!m || !month) return null;
+  return parsePoint(m[2] ? `${m[3]}-${pad(month)}-${pad(parseInt(m[2], 10))}` : `${m[3]}-${pad(month)}`);
+}
+
+function parseExact(s: string): Span | null {
+  const point = parsePoint(s);
+  if (point) return point;
+  // Malformed "YYYY-MM-YYYY" from older analyses → the month
+  const malformed = s.match(/^(\d{4}-\d{2})-\d{4}$/);
+  if (malformed) return parsePoint(malformed[1]);
+  return parseDayRange(s) ?? parseApproximate(s);
+}
+
+function parseRangeEnd(text: string): Span | null {
+  const s = text.trim();
+  return parseExact(s) ?? parseLeadingMonth(s) ?? parseSeason(s) ?? parseDecade(s);
+}
+
+/**
+ * Read one date expression: exact forms first, then ranges (whose ends are
+ * read again on their own), then looser readings of longer text. Qualified
+ * dates recurse too, so "circa March 1999 to June 2000" works at each step.
+ */
+function parseDateText(text: string): Span | null {
+  const s = text.trim();
+  if (!s) return null;
+  const found = parseExact(s)
+    ?? parseRange(s)
+    ?? parseLeadingMonth(s)
+    ?? parseSeason(s)
+    ?? parseDecade(s);
+  if (found) return found;
+
+  // Last resort: any plausible year in the text
+  const year = s.match(/\b(19\d{2}|20[0-2]\d|2030)\b/);
+  return year ? isoSpan(year[1]) : null;
+}
+
+/** Read a free-text event date into a range, or null when it names no year. */
+export function parseEventDate(raw: string | null | undefined): EventDateRange | null {
+  const original = raw?.replace(/\s+/g, " ").trim();
+  if (!original) return null;
+  const span = parseDateText(original);
+  return span ? { ...span, original } : null;
+}
+
+/** The timeline_events columns for a parsed date. */
+export function eventDateColumns(range: EventDateRange) {
+  return {
+    date: range.date,
+    dateEarliest: range.earliest,
+    dateLatest: range.latest,
+    datePrecision: range.precision,
+    dateOriginal: range.original,
+  };
+}
+
+/**
+ * The days covered by a filter bound given as YYYY, YYYY-MM or YYYY-MM-DD, or
+ * null when it is not one of those forms.
+ */
+export function parseDateBound(text: string): { earliest: string; latest: string } | null {
+  if (!/^\d{4}(-\d{2}(-\d{2})?)?$/.test(text)) return null;
+  const span = parsePoint(text);
+  return span && span.date === text ? { earliest: span.earliest, latest: span.latest } : null;
+}
@@ -0,0 +1,186 @@
+/**
+ * Provenance for timeline events: which page of each source document supports
+ * an event, how many independent data sets mention it, and which events from
+ * different analyses are likely the same one. Pure functions; the database
+ * side is scripts/pipeline/load-event-sources.ts.
+ */
+import { parseEventDate, type EventDateRange } from "./event-dates";
+
+/** Title similarity (token Jaccard) at or above which two events in the same date window are merged. */
+export const DUPLICATE_TITLE_SIMILARITY = 0.6;
+/** Days of slack around each event's date range when looking for duplicates. */
+export const DUPLICATE_WINDOW_DAYS = 31;
+const EXCERPT_MAX_LENGTH = 320;
+const DAY_MS = 86_400_000;
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "from", "into", "onto", "that", "this", "was", "were", "are", "has", "had",
+  "have", "his", "her", "their", "its", "who", "which", "about", "after", "before", "during", "over",
+  "under", "between", "against", "upon", "than", "then", "also", "other", "some", "any", "all", "not",
+  "but", "out", "off", "per", "via", "mr", "mrs", "ms", "dr",
+]);
+
+export interface DuplicateCandidate {
+  id: number;
+  title: string;
+  /** First and last possible day, YYYY-MM-DD */
+  earliest: string;
+  latest: string;
+  documentCount: number;
+}
+
+export interface SourcePage {
+  pageNumber: number;
+  content: string;
+}
+
+export interface SupportingExcerpt {
+  pageNumber: number;
+  excerpt: string;
+  /** Weighted count of event terms found in the excerpt */
+  score: number;
+}
+
+/** Lower-cased content words with a plural "s" dropped, so "Flights to Paris" ≈ "flight to paris". */
+export function eventTokens(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((t) => t.length >= 3 && !STOP_WORDS.has(t))
+    .map((t) => (t.length > 4 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t));
+}
+
+/** Jaccard similarity of the two titles' token sets, 0–1. */
+export function titleSimilarity(a: string, b: string): number {
+  const setA = new Set(eventTokens(a));
+  const setB = new Set(eventTokens(b));
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let shared = 0;
+  setA.forEach((t) => {
+    if (setB.has(t)) shared++;
+  });
+  return shared / (setA.size + setB.size - shared);
+}
+
+function dayNumber(iso: string): number {
+  return Math.floor(Date.parse(`${iso}T00:00:00Z`) / DAY_MS);
+}
+
+/**
+ * Groups of likely-duplicate events: date ranges within DUPLICATE_WINDOW_DAYS
+ * of overlapping and titles at least DUPLICATE_TITLE_SIMILARITY alike. Matches
+ * chain, so A≈B and B≈C put all three in one group. Each group lists the
+ * event to keep first (see pickSurvivor); events without a match are omitted.
+ */
+export function findDuplicateGroups(events: DuplicateCandidate[]): DuplicateCandidate[][] {
+  const sorted = events
+    .map((event) => ({ event, from: dayNumber(event.earliest), to: dayNumber(event.latest), tokens: new Set(eventTokens(event.title)) }))
+    .filter((e) => !Number.isNaN(e.from) && !Number.isNaN(e.to) && e.tokens.size > 0)
+    .sort((a, b) => a.from - b.from);
+
+  const parent = sorted.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < sorted.length; i++) {
+    const a = sorted[i];
+    for (let j = i + 1; j < sorted.length && sorted[j].from <= a.to + DUPLICATE_WINDOW_DAYS; j++) {
+      const b = sorted[j];
+      let shared = 0;
+      b.tokens.forEach((t) => {
+        if (a.tokens.has(t)) shared++;
+      });
+      if (shared / (a.tokens.size + b.tokens.size - shared) >= DUPLICATE_TITLE_SIMILARITY) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, DuplicateCandidate[]>();
+  sorted.forEach((e, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (group) group.push(e.event);
+    else groups.set(root, [e.event]);
+  });
+  return Array.from(groups.values())
+    .filter((group) => group.length > 1)
+    .map((group) => {
+      const survivor = pickSurvivor(group);
+      return [survivor, ...group.filter((e) => e !== survivor)];
+    });
+}
+
+/** The event a duplicate group merges into: most source documents, then the narrowest date, then the oldest row. */
+export function pickSurvivor(group: DuplicateCandidate[]): DuplicateCandidate {
+  const width = (e: DuplicateCandidate) => dayNumber(e.latest) - dayNumber(e.earliest);
+  return group.reduce((best, e) => {
+    if (e.documentCount !== best.documentCount) return e.documentCount > best.documentCount ? e : best;
+    if (width(e) !== width(best)) return width(e) < width(best) ? e : best;
+    return e.id < best.id ? e : best;
+  });
+}
+
+/**
+ * The passage of a source document that best supports an event: the sentence
+ * (or short paragraph) with the most event terms, title words counting double.
+ * Needs at least one title word and two terms overall; null when no page has that.
+ */
+export function findSupportingExcerpt(
+  pages: SourcePage[],
+  event: { title: string; description?: string | null },
+): SupportingExcerpt | null {
+  const weights = new Map<string, number>();
+  for (const t of eventTokens(event.description ?? "")) weights.set(t, 1);
+  const titleTerms = new Set(eventTokens(event.title));
+  titleTerms.forEach((t) => weights.set(t, 2));
+  if (titleTerms.size === 0) return null;
+
+  let best: SupportingExcerpt | null = null;
+  for (const page of pages) {
+    const passages = page.content.split(/(?<=[.!?])\s+|\n\s*\n/);
+    for (const passage of passages) {
+      const terms = new Set(eventTokens(passage));
+      let score = 0;
+      let titleHits = 0;
+      terms.forEach((t) => {
+        score += weights.get(t) ?? 0;
+        if (titleTerms.has(t)) titleHits++;
+      });
+      const matched = Array.from(terms).filter((t) => weights.has(t)).length;
+      if (titleHits === 0 || matched < 2) continue;
+      if (!best || score > best.score) {
+        best = { pageNumber: page.pageNumber, excerpt: trimExcerpt(passage), score };
+      }
+    }
+  }
+  return best;
+}
+
+function trimExcerpt(passage: string): string {
+  const text = passage.replace(/\s+/g, " ").trim();
+  if (text.length <= EXCERPT_MAX_LENGTH) return text;
+  const cut = text.lastIndexOf(" ", EXCERPT_MAX_LENGTH - 1);
+  return `${text.slice(0, cut > 0 ? cut : EXCERPT_MAX_LENGTH - 1)}…`;
+}
+
+/**
+ * Corroboration score: the number of distinct data sets among an event's
+ * source documents. Several documents from one release count once; documents
+ * without a data set count together as one more.
+ */
+export function corroborationScore(dataSets: (string | null)[]): number {
+  return new Set(dataSets.map((ds) => ds ?? "")).size;
+}
+
+/** Whether the dates the sources give for one event cannot all be true at once. */
+export function sourceDatesDisagree(dates: (string | null)[]): boolean {
+  const ranges = dates.map((d) => parseEventDate(d)).filter((r): r is EventDateRange => r !== null);
+  if (ranges.length < 2) return false;
+  const latestStart = ranges.reduce((max, r) => (r.earliest > max ? r.earliest : max), ranges[0].earliest);
+  const earliestEnd = ranges.reduce((min, r) => (r.latest < min ? r.latest : min), ranges[0].latest);
+  return latestStart > earliestEnd;
+}
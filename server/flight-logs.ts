@@ -0,0 +1,292 @@
+/**
+ * Turns flight-log material into structured flights: rows of extracted tables
+ * (document_tables) whose headers look like a log, and travel events from AI
+ * analyses. Used by scripts/pipeline/load-flights.ts; nothing here touches the
+ * database.
+ */
+import { normalizeDate } from "./dates";
+import { clampInt, type QueryParseResult } from "./query-params";
+
+export interface ParsedFlight {
+  /** "YYYY-MM-DD", or "YYYY-MM"/"YYYY" when only that much is known */
+  date: string | null;
+  /** The date as written in the source */
+  dateRaw: string | null;
+  origin: string | null;
+  destination: string | null;
+  /** Tail number or aircraft name as written, resolved to an entity by the loader */
+  aircraft: string | null;
+  passengerNames: string[];
+  pageNumber: number | null;
+  source: "table" | "analysis";
+}
+
+export interface FlightColumns {
+  date: number;
+  origin: number | null;
+  destination: number | null;
+  /** A single "PBI-TEB" style column, used when there is no origin/destination pair */
+  route: number | null;
+  passengers: number | null;
+  aircraft: number | null;
+}
+
+/** What the loader needs from a document_tables row and its cells. */
+export interface FlightTableSource {
+  columns: string[];
+  rows: string[][];
+  pageNumber: number | null;
+}
+
+/** What the loader needs from one of an analysis' `events`. */
+export interface FlightEventSource {
+  date: string;
+  title: string;
+  description: string;
+  category: string;
+  personsInvolved: string[];
+}
+
+// Airports that appear in the logs by name; codes pass through as written
+const AIRPORT_CODES: Record<string, string> = {
+  "teterboro": "TEB",
+  "palm beach": "PBI",
+  "west palm beach": "PBI",
+  "kennedy": "JFK",
+  "jfk": "JFK",
+  "laguardia": "LGA",
+  "st thomas": "STT",
+  "saint thomas": "STT",
+  "santa fe": "SAF",
+  "albuquerque": "ABQ",
+  "columbus": "CMH",
+  "le bourget": "LBG",
+  "paris le bourget": "LBG",
+  "luton": "LTN",
+  "bedford": "BED",
+  "marrakech": "RAK",
+};
+
+const HEADER_PATTERNS: [keyof Omit<FlightColumns, "date">, RegExp][] = [
+  ["route", /\broute\b/],
+  ["origin", /^(from|origin|dep(art(ure|ed)?)?|leaving)\b(?!.*\btime\b)/],
+  ["destination", /^(to|dest(ination)?|arr(ival|ive|ived)?)\b(?!.*\btime\b)/],
+  ["passengers", /\b(passengers?|pax|names?|manifest|persons?)\b/],
+  ["aircraft", /\b(aircraft|acft|a\/c|plane|tail|registration|n[- ]?number)\b/],
+];
+
+const FLIGHT_WORDS = /\b(flights?|flew|fly|flying|flown|jet|plane|aircraft|airport|landed|took off|departed)\b/i;
+const TAIL_NUMBER = /\bN\d{1,5}[A-Z]{0,2}\b/;
+const CODE_ROUTE = /\b([A-Z]{3,4})\s*(?:-|–|—|→|>|\/|to)\s*([A-Z]{3,4})\b/;
+const NAMED_ROUTE = /\bfrom\s+([A-Z][\w.'’-]*(?:\s+[A-Z][\w.'’-]*)*)\s+to\s+([A-Z][\w.'’-]*(?:\s+[A-Z][\w.'’-]*)*)/;
+
+/**
+ * Airport as an IATA-style code when it is one (or a US "K" ICAO code, or a
+ * known name); otherwise the place name as written, whitespace collapsed.
+ */
+export function normalizeAirport(raw: string | null | undefined): string | null {
+  const text = raw?.replace(/\s+/g, " ").trim().replace(/[.,;:]+$/, "");
+  if (!text) return null;
+  if (/^[A-Za-z]{3}$/.test(text)) return text.toUpperCase();
+  if (/^K[A-Z]{3}$/.test(text)) return text.slice(1);
+  const key = text.toLowerCase().replace(/\./g, "").replace(/\s+(international\s+)?airport$/, "");
+  return AIRPORT_CODES[key] ?? text;
+}
+
+/** Split a passenger cell ("JE, GM; Sarah Kellen and Nadia") into individual names. */
+export function splitPassengerNames(cell: string): string[] {
+  return cell
+    .split(/\s*(?:[,;/&+\n]|\band\b)\s*/i)
+    .map((name) => name.replace(/\s+/g, " ").trim())
+    .filter((name) => name.length > 0 && /\p{L}/u.test(name));
+}
+
+/**
+ * Which columns of a table hold the date, route, passengers and aircraft.
+ * Returns null unless there is a date column and either passengers or a route,
+ * which is what separates a flight log from any other dated table.
+ */
+export function findFlightColumns(columns: string[]): FlightColumns | null {
+  const found: Partial<FlightColumns> = {};
+  columns.forEach((raw, i) => {
+    const header = raw.trim().toLowerCase();
+    if (found.date === undefined && /\bdate\b/.test(header)) {
+      found.date = i;
+      return;
+    }
+    const match = HEADER_PATTERNS.find(([key, pattern]) => found[key] === undefined && pattern.test(header));
+    if (match) found[match[0]] = i;
+  });
+
+  if (found.date === undefined) return null;
+  const hasRoute = found.route !== undefined || (found.origin !== undefined && found.destination !== undefined);
+  if (!hasRoute && found.passengers === undefined) return null;
+  return {
+    date: found.date,
+    origin: found.origin ?? null,
+    destination: found.destination ?? null,
+    route: found.route ?? null,
+    passengers: found.passengers ?? null,
+    aircraft: found.aircraft ?? null,
+  };
+}
+
+function splitRoute(text: string): [string | null, string | null] {
+  const parts = text.split(/\s*(?:-|–|—|→|>|\/|\bto\b)\s*/i).filter(Boolean);
+  if (parts.length < 2) return [normalizeAirport(parts[0]), null];
+  return [normalizeAirport(parts[0]), normalizeAirport(parts[parts.length - 1])];
+}
+
+/**
+ * One flight per data row of a flight-log table. Rows with a blank date take
+ * the previous row's, since logs often write the date once for several legs;
+ * rows with neither a route nor passengers are skipped.
+ */
+export function flightsFromTable(table: FlightTableSource): ParsedFlight[] {
+  const columns = findFlightColumns(table.columns);
+  if (!columns) return [];
+
+  const cell = (row: string[], index: number | null) => (index === null ? "" : (row[index] ?? "").trim());
+  const flights: ParsedFlight[] = [];
+  let lastDate: string | null = null;
+  for (const row of table.rows) {
+    const dateRaw: string | null = cell(row, columns.date) || lastDate;
+    lastDate = dateRaw;
+
+    let [origin, destination] = [normalizeAirport(cell(row, columns.origin)), normalizeAirport(cell(row, columns.destination))];
+    if (!origin && !destination && columns.route !== null) [origin, destination] = splitRoute(cell(row, columns.route));
+    const passengerNames = splitPassengerNames(cell(row, columns.passengers));
+    if (!origin && !destination && passengerNames.length === 0) continue;
+
+    flights.push({
+      date: normalizeDate(dateRaw),
+      dateRaw: dateRaw || null,
+      origin,
+      destination,
+      aircraft: cell(row, columns.aircraft) || null,
+      passengerNames,
+      pageNumber: table.pageNumber,
+      source: "table",
+    });
+  }
+  return flights;
+}
+
+/**
+ * A flight from an AI analysis event, when the event is travel by air. The route
+ * comes from "from X to Y" or a "PBI-TEB" code pair in the text, falling back to
+ * the analysis' `locations` in the order the text mentions them.
+ */
+export function flightFromEvent(event: FlightEventSource, locations: string[] = []): ParsedFlight | null {
+  const text = `${event.title}. ${event.description}`;
+  if (event.category !== "travel" || !FLIGHT_WORDS.test(text)) return null;
+
+  let origin: string | null = null;
+  let destination: string | null = null;
+  const named = text.match(NAMED_ROUTE);
+  const coded = text.match(CODE_ROUTE);
+  if (named) [origin, destination] = [normalizeAirport(named[1]), normalizeAirport(named[2])];
+  else if (coded) [origin, destination] = [normalizeAirport(coded[1]), normalizeAirport(coded[2])];
+  else {
+    const lower = text.toLowerCase();
+    const mentioned = locations
+      .map((location) => ({ location, at: lower.indexOf(location.toLowerCase()) }))
+      .filter((l) => l.location.trim() && l.at >= 0)
+      .sort((a, b) => a.at - b.at);
+    if (mentioned.length >= 2) [origin, destination] = [normalizeAirport(mentioned[0].location), normalizeAirport(mentioned[1].location)];
+    else if (mentioned.length === 1) destination = normalizeAirport(mentioned[0].location);
+  }
+
+  return {
+    date: normalizeDate(event.date),
+    dateRaw: event.date?.trim() || null,
+    origin,
+    destination,
+    aircraft: text.match(TAIL_NUMBER)?.[0] ?? null,
+    passengerNames: (event.personsInvolved ?? []).map((name) => name.trim()).filter(Boolean),
+    pageNumber: null,
+    source: "analysis",
+  };
+}
+
+/**
+ * Flights of one document with duplicates merged: an analysis event describing
+ * a leg already read from a table adds its passengers to that leg rather than
+ * creating a second flight.
+ */
+export function mergeFlights(flights: ParsedFlight[]): ParsedFlight[] {
+  const ordered = [...flights].sort((a, b) => (a.source === b.source ? 0 : a.source === "table" ? -1 : 1));
+  const byKey = new Map<string, ParsedFlight>();
+  const merged: ParsedFlight[] = [];
+  for (const flight of ordered) {
+    const key = flight.date && (flight.origin || flight.destination)
+      ? `${flight.date}|${flight.origin ?? ""}|${flight.destination ?? ""}`
+      : null;
+    const existing = key ? byKey.get(key) : undefined;
+    if (existing && existing.source !== flight.source) {
+      const known = new Set(existing.passengerNames.map((n) => n.toLowerCase()));
+      for (const name of flight.passengerNames) {
+        if (!known.has(name.toLowerCase())) existing.passengerNames.push(name);
+      }
+      existing.aircraft ??= flight.aircraft;
+      continue;
+    }
+    const copy = { ...flight, passengerNames: [...flight.passengerNames] };
+    if (key && !existing) byKey.set(key, copy);
+    merged.push(copy);
+  }
+  return merged;
+}
+
+export interface FlightListOptions {
+  page: number;
+  limit: number;
+  personId: number | null;
+  aircraftId: number | null;
+  /** Matches either end of the route */
+  airport: string | null;
+  dateFrom: string | null;
+  dateTo: string | null;
+}
+
+export const DEFAULT_FLIGHT_LIMIT = 50;
+export const MAX_FLIGHT_LIMIT = 200;
+
+function optionalId(raw: unknown): number | null | undefined {
+  if (raw === undefined || raw === "") return null;
+  const id = typeof raw === "string" && /^\d+$/.test(raw) ? parseInt(raw, 10) : NaN;
+  return id > 0 ? id : undefined;
+}
+
+/** Parse `page`, `limit`, `personId`, `aircraftId`, `airport`, `dateFrom` and `dateTo` for the flight list. */
+export function parseFlightsQuery(query: Record<string, unknown>): QueryParseResult<FlightListOptions> {
+  const personId = optionalId(query.personId);
+  const aircraftId = optionalId(query.aircraftId);
+  if (personId === undefined || aircraftId === undefined) {
+    return { ok: false, error: "personId and aircraftId must be positive integers" };
+  }
+
+  const dates: (string | null)[] = [];
+  for (const raw of [query.dateFrom, query.dateTo]) {
+    if (raw === undefined || raw === "") {
+      dates.push(null);
+      continue;
+    }
+    const date = typeof raw === "string" ? normalizeDate(raw) : null;
+    if (!date) return { ok: false, error: "dateFrom and dateTo must be dates like 1997 or 1997-03-01" };
+    dates.push(date);
+  }
+
+  return {
+    ok: true,
+    options: {
+      page: clampInt(query.page, 1, 1, 100000),
+      limit: clampInt(query.limit, DEFAULT_FLIGHT_LIMIT, 1, MAX_FLIGHT_LIMIT),
+      personId,
+      aircraftId,
+      airport: typeof query.airport === "string" && query.airport.trim() ? normalizeAirport(query.airport) : null,
+      dateFrom: dates[0],
+      dateTo: dates[1],
+    },
+  };
+}
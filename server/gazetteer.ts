@@ -0,0 +1,260 @@
+/**
+ * Offline gazetteer for resolving the place names AI analyses extract
+ * (aiAnalyses.locations) to coordinates; see server/locations.ts. It covers
+ * places that recur in the corpus plus countries, US states and major cities.
+ * Coordinates are WGS84 degrees, rounded to about a kilometre. Order matters:
+ * when two places share a name, the earlier one wins (sites, then cities,
+ * regions, countries).
+ */
+
+export type PlaceKind = "site" | "city" | "region" | "country";
+
+export interface GazetteerPlace {
+  name: string;
+  kind: PlaceKind;
+  /** Country name as it appears in this list, for "City, Country" qualifiers */
+  country: string;
+  /** US state (or other first-level region) for cities and sites */
+  admin?: string;
+  lat: number;
+  lon: number;
+  /** Other spellings; two-letter aliases are only used as "City, XX" qualifiers */
+  aliases?: string[];
+}
+
+export const GAZETTEER: GazetteerPlace[] = [
+  // Properties, airports and other sites named throughout the files
+  { name: "Little St. James", kind: "site", country: "United States", admin: "U.S. Virgin Islands", lat: 18.30, lon: -64.83, aliases: ["Little Saint James", "Little St James Island", "Little St. Jeff's", "Epstein Island"] },
+  { name: "Great St. James", kind: "site", country: "United States", admin: "U.S. Virgin Islands", lat: 18.31, lon: -64.82, aliases: ["Great Saint James"] },
+  { name: "Zorro Ranch", kind: "site", country: "United States", admin: "New Mexico", lat: 35.08, lon: -105.79, aliases: ["Stanley Ranch"] },
+  { name: "Teterboro Airport", kind: "site", country: "United States", admin: "New Jersey", lat: 40.85, lon: -74.06, aliases: ["Teterboro", "TEB"] },
+  { name: "Palm Beach International Airport", kind: "site", country: "United States", admin: "Florida", lat: 26.68, lon: -80.10, aliases: ["PBI"] },
+  { name: "Cyril E. King Airport", kind: "site", country: "United States", admin: "U.S. Virgin Islands", lat: 18.34, lon: -64.97, aliases: ["STT", "St. Thomas Airport"] },
+  { name: "Metropolitan Correctional Center", kind: "site", country: "United States", admin: "New York", lat: 40.71, lon: -74.00, aliases: ["MCC New York", "MCC Manhattan"] },
+  { name: "Palm Beach County Jail", kind: "site", country: "United States", admin: "Florida", lat: 26.70, lon: -80.10, aliases: ["Palm Beach County Stockade"] },
+  { name: "Mar-a-Lago", kind: "site", country: "United States", admin: "Florida", lat: 26.68, lon: -80.04, aliases: ["Mar a Lago"] },
+  { name: "Harvard University", kind: "site", country: "United States", admin: "Massachusetts", lat: 42.37, lon: -71.12, aliases: ["Harvard"] },
+  { name: "MIT Media Lab", kind: "site", country: "United States", admin: "Massachusetts", lat: 42.36, lon: -71.09, aliases: ["Massachusetts Institute of Technology", "MIT"] },
+  { name: "Dalton School", kind: "site", country: "United States", admin: "New York", lat: 40.78, lon: -73.96 },
+  { name: "Interlochen Center for the Arts", kind: "site", country: "United States", admin: "Michigan", lat: 44.64, lon: -85.76, aliases: ["Interlochen"] },
+  { name: "Balmoral Castle", kind: "site", country: "United Kingdom", admin: "Scotland", lat: 57.04, lon: -3.23, aliases: ["Balmoral"] },
+  { name: "Sandringham", kind: "site", country: "United Kingdom", admin: "England", lat: 52.83, lon: 0.51, aliases: ["Sandringham House", "Sandringham Estate"] },
+  { name: "Buckingham Palace", kind: "site", country: "United Kingdom", admin: "England", lat: 51.50, lon: -0.14 },
+  { name: "Le Bourget Airport", kind: "site", country: "France", lat: 48.97, lon: 2.44, aliases: ["Le Bourget", "Paris Le Bourget", "LBG"] },
+
+  // US cities
+  { name: "New York", kind: "city", country: "United States", admin: "New York", lat: 40.71, lon: -74.01, aliases: ["New York City", "NYC", "Manhattan", "New York, NY"] },
+  { name: "Palm Beach", kind: "city", country: "United States", admin: "Florida", lat: 26.71, lon: -80.04, aliases: ["Palm Beach, FL"] },
+  { name: "West Palm Beach", kind: "city", country: "United States", admin: "Florida", lat: 26.72, lon: -80.05 },
+  { name: "Miami", kind: "city", country: "United States", admin: "Florida", lat: 25.76, lon: -80.19 },
+  { name: "Fort Lauderdale", kind: "city", country: "United States", admin: "Florida", lat: 26.12, lon: -80.14, aliases: ["Ft. Lauderdale"] },
+  { name: "Orlando", kind: "city", country: "United States", admin: "Florida", lat: 28.54, lon: -81.38 },
+  { name: "Tampa", kind: "city", country: "United States", admin: "Florida", lat: 27.95, lon: -82.46 },
+  { name: "Santa Fe", kind: "city", country: "United States", admin: "New Mexico", lat: 35.69, lon: -105.94 },
+  { name: "Albuquerque", kind: "city", country: "United States", admin: "New Mexico", lat: 35.08, lon: -106.65 },
+  { name: "Columbus", kind: "city", country: "United States", admin: "Ohio", lat: 39.96, lon: -83.00 },
+  { name: "New Albany", kind: "city", country: "United States", admin: "Ohio", lat: 40.08, lon: -82.81 },
+  { name: "Teterboro", kind: "city", country: "United States", admin: "New Jersey", lat: 40.86, lon: -74.06 },
+  { name: "Newark", kind: "city", country: "United States", admin: "New Jersey", lat: 40.74, lon: -74.17 },
+  { name: "Atlantic City", kind: "city", country: "United States", admin: "New Jersey", lat: 39.36, lon: -74.42 },
+  { name: "Brooklyn", kind: "city", country: "United States", admin: "New York", lat: 40.68, lon: -73.94 },
+  { name: "East Hampton", kind: "city", country: "United States", admin: "New York", lat: 40.96, lon: -72.18, aliases: ["The Hamptons", "Hamptons"] },
+  { name: "Los Angeles", kind: "city", country: "United States", admin: "California", lat: 34.05, lon: -118.24 },
+  { name: "San Francisco", kind: "city", country: "United States", admin: "California", lat: 37.77, lon: -122.42 },
+  { name: "Santa Monica", kind: "city", country: "United States", admin: "California", lat: 34.02, lon: -118.49 },
+  { name: "Washington", kind: "city", country: "United States", admin: "District of Columbia", lat: 38.91, lon: -77.04, aliases: ["Washington, D.C.", "Washington DC", "Washington D.C.", "D.C."] },
+  { name: "Boston", kind: "city", country: "United States", admin: "Massachusetts", lat: 42.36, lon: -71.06 },
+  { name: "Cambridge", kind: "city", country: "United States", admin: "Massachusetts", lat: 42.37, lon: -71.11 },
+  { name: "Chicago", kind: "city", country: "United States", admin: "Illinois", lat: 41.88, lon: -87.63 },
+  { name: "Las Vegas", kind: "city", country: "United States", admin: "Nevada", lat: 36.17, lon: -115.14 },
+  { name: "Aspen", kind: "city", country: "United States", admin: "Colorado", lat: 39.19, lon: -106.82 },
+  { name: "Denver", kind: "city", country: "United States", admin: "Colorado", lat: 39.74, lon: -104.99 },
+  { name: "Dallas", kind: "city", country: "United States", admin: "Texas", lat: 32.78, lon: -96.80 },
+  { name: "Houston", kind: "city", country: "United States", admin: "Texas", lat: 29.76, lon: -95.37 },
+  { name: "Atlanta", kind: "city", country: "United States", admin: "Georgia", lat: 33.75, lon: -84.39 },
+  { name: "Nashville", kind: "city", country: "United States", admin: "Tennessee", lat: 36.16, lon: -86.78 },
+  { name: "Little Rock", kind: "city", country: "United States", admin: "Arkansas", lat: 34.75, lon: -92.29 },
+  { name: "Seattle", kind: "city", country: "United States", admin: "Washington State", lat: 47.61, lon: -122.33 },
+  { name: "Philadelphia", kind: "city", country: "United States", admin: "Pennsylvania", lat: 39.95, lon: -75.17 },
+  { name: "Detroit", kind: "city", country: "United States", admin: "Michigan", lat: 42.33, lon: -83.05 },
+  { name: "Phoenix", kind: "city", country: "United States", admin: "Arizona", lat: 33.45, lon: -112.07 },
+  { name: "Honolulu", kind: "city", country: "United States", admin: "Hawaii", lat: 21.31, lon: -157.86 },
+  { name: "Anchorage", kind: "city", country: "United States", admin: "Alaska", lat: 61.22, lon: -149.90 },
+  { name: "New Orleans", kind: "city", country: "United States", admin: "Louisiana", lat: 29.95, lon: -90.07 },
+  { name: "Charlotte Amalie", kind: "city", country: "United States", admin: "U.S. Virgin Islands", lat: 18.34, lon: -64.93 },
+  { name: "St. Thomas", kind: "city", country: "United States", admin: "U.S. Virgin Islands", lat: 18.34, lon: -64.90, aliases: ["Saint Thomas"] },
+  { name: "St. Croix", kind: "city", country: "United States", admin: "U.S. Virgin Islands", lat: 17.73, lon: -64.73, aliases: ["Saint Croix"] },
+  { name: "San Juan", kind: "city", country: "United States", admin: "Puerto Rico", lat: 18.47, lon: -66.11 },
+
+  // Cities elsewhere
+  { name: "London", kind: "city", country: "United Kingdom", admin: "England", lat: 51.51, lon: -0.13 },
+  { name: "Paris", kind: "city", country: "France", lat: 48.86, lon: 2.35 },
+  { name: "Nice", kind: "city", country: "France", lat: 43.70, lon: 7.27 },
+  { name: "Cannes", kind: "city", country: "France", lat: 43.55, lon: 7.01 },
+  { name: "Saint-Tropez", kind: "city", country: "France", lat: 43.27, lon: 6.64, aliases: ["St. Tropez", "St Tropez"] },
+  { name: "Monaco", kind: "city", country: "Monaco", lat: 43.74, lon: 7.42, aliases: ["Monte Carlo"] },
+  { name: "Geneva", kind: "city", country: "Switzerland", lat: 46.20, lon: 6.14 },
+  { name: "Zurich", kind: "city", country: "Switzerland", lat: 47.38, lon: 8.54 },
+  { name: "Davos", kind: "city", country: "Switzerland", lat: 46.80, lon: 9.84 },
+  { name: "Berlin", kind: "city", country: "Germany", lat: 52.52, lon: 13.40 },
+  { name: "Munich", kind: "city", country: "Germany", lat: 48.14, lon: 11.58 },
+  { name: "Frankfurt", kind: "city", country: "Germany", lat: 50.11, lon: 8.68 },
+  { name: "Vienna", kind: "city", country: "Austria", lat: 48.21, lon: 16.37 },
+  { name: "Amsterdam", kind: "city", country: "Netherlands", lat: 52.37, lon: 4.90 },
+  { name: "Brussels", kind: "city", country: "Belgium", lat: 50.85, lon: 4.35 },
+  { name: "Madrid", kind: "city", country: "Spain", lat: 40.42, lon: -3.70 },
+  { name: "Barcelona", kind: "city", country: "Spain", lat: 41.39, lon: 2.17 },
+  { name: "Marbella", kind: "city", country: "Spain", lat: 36.51, lon: -4.89 },
+  { name: "Lisbon", kind: "city", country: "Portugal", lat: 38.72, lon: -9.14 },
+  { name: "Rome", kind: "city", country: "Italy", lat: 41.90, lon: 12.50 },
+  { name: "Milan", kind: "city", country: "Italy", lat: 45.46, lon: 9.19 },
+  { name: "Venice", kind: "city", country: "Italy", lat: 45.44, lon: 12.32 },
+  { name: "Athens", kind: "city", country: "Greece", lat: 37.98, lon: 23.73 },
+  { name: "Stockholm", kind: "city", country: "Sweden", lat: 59.33, lon: 18.07 },
+  { name: "Oslo", kind: "city", country: "Norway", lat: 59.91, lon: 10.75 },
+  { name: "Copenhagen", kind: "city", country: "Denmark", lat: 55.68, lon: 12.57 },
+  { name: "Helsinki", kind: "city", country: "Finland", lat: 60.17, lon: 24.94 },
+  { name: "Dublin", kind: "city", country: "Ireland", lat: 53.35, lon: -6.26 },
+  { name: "Edinburgh", kind: "city", country: "United Kingdom", admin: "Scotland", lat: 55.95, lon: -3.19 },
+  { name: "Oxford", kind: "city", country: "United Kingdom", admin: "England", lat: 51.75, lon: -1.26 },
+  { name: "Moscow", kind: "city", country: "Russia", lat: 55.76, lon: 37.62 },
+  { name: "St. Petersburg", kind: "city", country: "Russia", lat: 59.93, lon: 30.36, aliases: ["Saint Petersburg"] },
+  { name: "Minsk", kind: "city", country: "Belarus", lat: 53.90, lon: 27.56 },
+  { name: "Kyiv", kind: "city", country: "Ukraine", lat: 50.45, lon: 30.52, aliases: ["Kiev"] },
+  { name: "Riga", kind: "city", country: "Latvia", lat: 56.95, lon: 24.11 },
+  { name: "Vilnius", kind: "city", country: "Lithuania", lat: 54.69, lon: 25.28 },
+  { name: "Prague", kind: "city", country: "Czech Republic", lat: 50.08, lon: 14.44 },
+  { name: "Budapest", kind: "city", country: "Hungary", lat: 47.50, lon: 19.04 },
+  { name: "Bratislava", kind: "city", country: "Slovakia", lat: 48.15, lon: 17.11 },
+  { name: "Warsaw", kind: "city", country: "Poland", lat: 52.23, lon: 21.01 },
+  { name: "Istanbul", kind: "city", country: "Turkey", lat: 41.01, lon: 28.98 },
+  { name: "Tel Aviv", kind: "city", country: "Israel", lat: 32.09, lon: 34.78 },
+  { name: "Jerusalem", kind: "city", country: "Israel", lat: 31.77, lon: 35.21 },
+  { name: "Dubai", kind: "city", country: "United Arab Emirates", lat: 25.20, lon: 55.27 },
+  { name: "Abu Dhabi", kind: "city", country: "United Arab Emirates", lat: 24.45, lon: 54.38 },
+  { name: "Riyadh", kind: "city", country: "Saudi Arabia", lat: 24.71, lon: 46.68 },
+  { name: "Doha", kind: "city", country: "Qatar", lat: 25.29, lon: 51.53 },
+  { name: "Cairo", kind: "city", country: "Egypt", lat: 30.04, lon: 31.24 },
+  { name: "Marrakech", kind: "city", country: "Morocco", lat: 31.63, lon: -7.99, aliases: ["Marrakesh"] },
+  { name: "Casablanca", kind: "city", country: "Morocco", lat: 33.57, lon: -7.59 },
+  { name: "Nairobi", kind: "city", country: "Kenya", lat: -1.29, lon: 36.82 },
+  { name: "Johannesburg", kind: "city", country: "South Africa", lat: -26.20, lon: 28.05 },
+  { name: "Cape Town", kind: "city", country: "South Africa", lat: -33.92, lon: 18.42 },
+  { name: "Lagos", kind: "city", country: "Nigeria", lat: 6.52, lon: 3.38 },
+  { name: "Tokyo", kind: "city", country: "Japan", lat: 35.68, lon: 139.69 },
+  { name: "Beijing", kind: "city", country: "China", lat: 39.90, lon: 116.41 },
+  { name: "Shanghai", kind: "city", country: "China", lat: 31.23, lon: 121.47 },
+  { name: "Hong Kong", kind: "city", country: "China", lat: 22.32, lon: 114.17 },
+  { name: "Singapore", kind: "city", country: "Singapore", lat: 1.35, lon: 103.82 },
+  { name: "Bangkok", kind: "city", country: "Thailand", lat: 13.76, lon: 100.50 },
+  { name: "Mumbai", kind: "city", country: "India", lat: 19.08, lon: 72.88, aliases: ["Bombay"] },
+  { name: "New Delhi", kind: "city", country: "India", lat: 28.61, lon: 77.21, aliases: ["Delhi"] },
+  { name: "Sydney", kind: "city", country: "Australia", lat: -33.87, lon: 151.21 },
+  { name: "Melbourne", kind: "city", country: "Australia", lat: -37.81, lon: 144.96 },
+  { name: "Toronto", kind: "city", country: "Canada", lat: 43.65, lon: -79.38 },
+  { name: "Montreal", kind: "city", country: "Canada", lat: 45.50, lon: -73.57 },
+  { name: "Vancouver", kind: "city", country: "Canada", lat: 49.28, lon: -123.12 },
+  { name: "Mexico City", kind: "city", country: "Mexico", lat: 19.43, lon: -99.13 },
+  { name: "Cancun", kind: "city", country: "Mexico", lat: 21.16, lon: -86.85 },
+  { name: "Havana", kind: "city", country: "Cuba", lat: 23.11, lon: -82.37 },
+  { name: "Nassau", kind: "city", country: "Bahamas", lat: 25.05, lon: -77.35 },
+  { name: "Bogota", kind: "city", country: "Colombia", lat: 4.71, lon: -74.07 },
+  { name: "Caracas", kind: "city", country: "Venezuela", lat: 10.48, lon: -66.90 },
+  { name: "Sao Paulo", kind: "city", country: "Brazil", lat: -23.55, lon: -46.63 },
+  { name: "Rio de Janeiro", kind: "city", country: "Brazil", lat: -22.91, lon: -43.17, aliases: ["Rio"] },
+  { name: "Buenos Aires", kind: "city", country: "Argentina", lat: -34.60, lon: -58.38 },
+  { name: "Santiago", kind: "city", country: "Chile", lat: -33.45, lon: -70.67 },
+  { name: "Lima", kind: "city", country: "Peru", lat: -12.05, lon: -77.04 },
+
+  // US states and territories; two-letter codes qualify "City, XX" names
+  { name: "Florida", kind: "region", country: "United States", lat: 27.99, lon: -81.76, aliases: ["FL", "Fla."] },
+  { name: "New York", kind: "region", country: "United States", lat: 42.95, lon: -75.53, aliases: ["NY", "New York State"] },
+  { name: "New Mexico", kind: "region", country: "United States", lat: 34.31, lon: -106.02, aliases: ["NM"] },
+  { name: "New Jersey", kind: "region", country: "United States", lat: 40.19, lon: -74.67, aliases: ["NJ"] },
+  { name: "Ohio", kind: "region", country: "United States", lat: 40.29, lon: -82.79, aliases: ["OH"] },
+  { name: "California", kind: "region", country: "United States", lat: 36.78, lon: -119.42, aliases: ["CA"] },
+  { name: "Massachusetts", kind: "region", country: "United States", lat: 42.26, lon: -71.80, aliases: ["MA"] },
+  { name: "Connecticut", kind: "region", country: "United States", lat: 41.60, lon: -72.76, aliases: ["CT"] },
+  { name: "Pennsylvania", kind: "region", country: "United States", lat: 40.88, lon: -77.80, aliases: ["PA"] },
+  { name: "Texas", kind: "region", country: "United States", lat: 31.97, lon: -99.90, aliases: ["TX"] },
+  { name: "Colorado", kind: "region", country: "United States", lat: 39.00, lon: -105.55, aliases: ["CO"] },
+  { name: "Nevada", kind: "region", country: "United States", lat: 38.80, lon: -116.42, aliases: ["NV"] },
+  { name: "Arizona", kind: "region", country: "United States", lat: 34.05, lon: -111.09, aliases: ["AZ"] },
+  { name: "Illinois", kind: "region", country: "United States", lat: 40.63, lon: -89.40, aliases: ["IL"] },
+  { name: "Michigan", kind: "region", country: "United States", lat: 44.31, lon: -85.60, aliases: ["MI"] },
+  { name: "Georgia", kind: "region", country: "United States", lat: 32.17, lon: -82.90, aliases: ["GA"] },
+  { name: "Tennessee", kind: "region", country: "United States", lat: 35.52, lon: -86.58, aliases: ["TN"] },
+  { name: "Arkansas", kind: "region", country: "United States", lat: 35.20, lon: -91.83, aliases: ["AR"] },
+  { name: "Louisiana", kind: "region", country: "United States", lat: 30.98, lon: -91.96, aliases: ["LA"] },
+  { name: "Virginia", kind: "region", country: "United States", lat: 37.43, lon: -78.66, aliases: ["VA"] },
+  { name: "Maryland", kind: "region", country: "United States", lat: 39.05, lon: -76.64, aliases: ["MD"] },
+  { name: "Washington State", kind: "region", country: "United States", lat: 47.75, lon: -120.74, aliases: ["WA", "Washington"] },
+  { name: "Hawaii", kind: "region", country: "United States", lat: 19.90, lon: -155.58, aliases: ["HI"] },
+  { name: "Alaska", kind: "region", country: "United States", lat: 64.20, lon: -149.49, aliases: ["AK"] },
+  { name: "District of Columbia", kind: "region", country: "United States", lat: 38.91, lon: -77.04, aliases: ["DC"] },
+  { name: "U.S. Virgin Islands", kind: "region", country: "United States", lat: 18.34, lon: -64.90, aliases: ["US Virgin Islands", "USVI", "Virgin Islands", "United States Virgin Islands", "VI"] },
+  { name: "Puerto Rico", kind: "region", country: "United States", lat: 18.22, lon: -66.59, aliases: ["PR"] },
+  { name: "England", kind: "region", country: "United Kingdom", lat: 52.36, lon: -1.17 },
+  { name: "Scotland", kind: "region", country: "United Kingdom", lat: 56.49, lon: -4.20 },
+  { name: "Wales", kind: "region", country: "United Kingdom", lat: 52.13, lon: -3.78 },
+  { name: "British Virgin Islands", kind: "region", country: "United Kingdom", lat: 18.42, lon: -64.64, aliases: ["BVI"] },
+  { name: "Cayman Islands", kind: "region", country: "United Kingdom", lat: 19.31, lon: -81.25, aliases: ["Grand Cayman", "Caymans"] },
+  { name: "French Riviera", kind: "region", country: "France", lat: 43.55, lon: 7.02, aliases: ["Cote d'Azur", "Riviera"] },
+
+  // Countries, at a central point
+  { name: "United States", kind: "country", country: "United States", lat: 39.83, lon: -98.58, aliases: ["USA", "U.S.", "U.S.A.", "US", "America", "United States of America"] },
+  { name: "United Kingdom", kind: "country", country: "United Kingdom", lat: 54.00, lon: -2.00, aliases: ["UK", "U.K.", "Britain", "Great Britain"] },
+  { name: "France", kind: "country", country: "France", lat: 46.60, lon: 1.89 },
+  { name: "Germany", kind: "country", country: "Germany", lat: 51.17, lon: 10.45 },
+  { name: "Switzerland", kind: "country", country: "Switzerland", lat: 46.82, lon: 8.23 },
+  { name: "Austria", kind: "country", country: "Austria", lat: 47.52, lon: 14.55 },
+  { name: "Netherlands", kind: "country", country: "Netherlands", lat: 52.13, lon: 5.29, aliases: ["Holland"] },
+  { name: "Belgium", kind: "country", country: "Belgium", lat: 50.50, lon: 4.47 },
+  { name: "Spain", kind: "country", country: "Spain", lat: 40.46, lon: -3.75 },
+  { name: "Portugal", kind: "country", country: "Portugal", lat: 39.40, lon: -8.22 },
+  { name: "Italy", kind: "country", country: "Italy", lat: 41.87, lon: 12.57 },
+  { name: "Greece", kind: "country", country: "Greece", lat: 39.07, lon: 21.82 },
+  { name: "Sweden", kind: "country", country: "Sweden", lat: 60.13, lon: 18.64 },
+  { name: "Norway", kind: "country", country: "Norway", lat: 60.47, lon: 8.47 },
+  { name: "Denmark", kind: "country", country: "Denmark", lat: 56.26, lon: 9.50 },
+  { name: "Finland", kind: "country", country: "Finland", lat: 61.92, lon: 25.75 },
+  { name: "Ireland", kind: "country", country: "Ireland", lat: 53.41, lon: -8.24 },
+  { name: "Russia", kind: "country", country: "Russia", lat: 61.52, lon: 105.32, aliases: ["Russian Federation"] },
+  { name: "Belarus", kind: "country", country: "Belarus", lat: 53.71, lon: 27.95 },
+  { name: "Ukraine", kind: "country", country: "Ukraine", lat: 48.38, lon: 31.17 },
+  { name: "Latvia", kind: "country", country: "Latvia", lat: 56.88, lon: 24.60 },
+  { name: "Lithuania", kind: "country", country: "Lithuania", lat: 55.17, lon: 23.88 },
+  { name: "Czech Republic", kind: "country", country: "Czech Republic", lat: 49.82, lon: 15.47, aliases: ["Czechia"] },
+  { name: "Hungary", kind: "country", country: "Hungary", lat: 47.16, lon: 19.50 },
+  { name: "Slovakia", kind: "country", country: "Slovakia", lat: 48.67, lon: 19.70 },
+  { name: "Poland", kind: "country", country: "Poland", lat: 51.92, lon: 19.15 },
+  { name: "Turkey", kind: "country", country: "Turkey", lat: 38.96, lon: 35.24 },
+  { name: "Israel", kind: "country", country: "Israel", lat: 31.05, lon: 34.85 },
+  { name: "United Arab Emirates", kind: "country", country: "United Arab Emirates", lat: 23.42, lon: 53.85, aliases: ["UAE"] },
+  { name: "Saudi Arabia", kind: "country", country: "Saudi Arabia", lat: 23.89, lon: 45.08 },
+  { name: "Qatar", kind: "country", country: "Qatar", lat: 25.35, lon: 51.18 },
+  { name: "Egypt", kind: "country", country: "Egypt", lat: 26.82, lon: 30.80 },
+  { name: "Morocco", kind: "country", country: "Morocco", lat: 31.79, lon: -7.09 },
+  { name: "Kenya", kind: "country", country: "Kenya", lat: -0.02, lon: 37.91 },
+  { name: "South Africa", kind: "country", country: "South Africa", lat: -30.56, lon: 22.94 },
+  { name: "Nigeria", kind: "country", country: "Nigeria", lat: 9.08, lon: 8.68 },
+  { name: "Japan", kind: "country", country: "Japan", lat: 36.20, lon: 138.25 },
+  { name: "China", kind: "country", country: "China", lat: 35.86, lon: 104.20 },
+  { name: "Thailand", kind: "country", country: "Thailand", lat: 15.87, lon: 100.99 },
+  { name: "India", kind: "country", country: "India", lat: 20.59, lon: 78.96 },
+  { name: "Australia", kind: "country", country: "Australia", lat: -25.27, lon: 133.78 },
+  { name: "New Zealand", kind: "country", country: "New Zealand", lat: -40.90, lon: 174.89 },
+  { name: "Canada", kind: "country", country: "Canada", lat: 56.13, lon: -106.35 },
+  { name: "Mexico", kind: "country", country: "Mexico", lat: 23.63, lon: -102.55 },
+  { name: "Cuba", kind: "country", country: "Cuba", lat: 21.52, lon: -77.78 },
+  { name: "Bahamas", kind: "country", country: "Bahamas", lat: 25.03, lon: -77.40, aliases: ["The Bahamas"] },
+  { name: "Dominican Republic", kind: "country", country: "Dominican Republic", lat: 18.74, lon: -70.16 },
+  { name: "Haiti", kind: "country", country: "Haiti", lat: 18.97, lon: -72.29 },
+  { name: "Jamaica", kind: "country", country: "Jamaica", lat: 18.11, lon: -77.30 },
+  { name: "Colombia", kind: "country", country: "Colombia", lat: 4.57, lon: -74.30 },
+  { name: "Venezuela", kind: "country", country: "Venezuela", lat: 6.42, lon: -66.59 },
+  { name: "Brazil", kind: "country", country: "Brazil", lat: -14.24, lon: -51.93 },
+  { name: "Argentina", kind: "country", country: "Argentina", lat: -38.42, lon: -63.62 },
+  { name: "Chile", kind: "country", country: "Chile", lat: -35.68, lon: -71.54 },
+  { name: "Peru", kind: "country", country: "Peru", lat: -9.19, lon: -75.02 },
+];
@@ -8,6 +8,9 @@ import { pool } from "./db";
 import { runMigrations } from "./migrate";
 import { startBackgroundWorker } from "./background-worker";
 import { isTypesenseConfigured, getTypesenseClient } from "./typesense";
+import { setupAuth } from "./auth";
+import connectPgSimple from "connect-pg-simple";
+import session from "express-session";
 
 const app = express();
 const httpServer = createServer(app);
@@ -67,13 +70,16 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  const PgSession = connectPgSimple(session);
+  const sessionMiddleware = setupAuth(app, new PgSession({ pool, createTableIfMissing: true }));
+
   await registerRoutes(httpServer, app);
 
   const { createV1Router } = await import("./api/v1");
   app.use("/api/v1", createV1Router());
 
   const { setupWebSocket } = await import("./ws");
-  setupWebSocket(httpServer);
+  setupWebSocket(httpServer, sessionMiddleware);
 
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
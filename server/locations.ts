@@ -0,0 +1,160 @@
+/**
+ * Resolves free-text place names to gazetteer entries (server/gazetteer.ts) and
+ * finds places mentioned in timeline event text. Used by
+ * scripts/pipeline/load-locations.ts to fill locations / location_documents,
+ * and by the locations routes to parse map filters.
+ */
+import { GAZETTEER, type GazetteerPlace, type PlaceKind } from "./gazetteer";
+import type { QueryParseResult } from "./query-params";
+
+export const PLACE_KINDS: PlaceKind[] = ["site", "city", "region", "country"];
+
+// Trailing/leading words that describe a place rather than name it ("Teterboro airport", "downtown Miami")
+const DESCRIPTOR_SUFFIX = /\s+(international airport|airport|airfield|residence|mansion|estate|home|apartment|townhouse|office|area|county|city|island)$/;
+const DESCRIPTOR_PREFIX = /^(downtown|near|outside|central|greater|northern|southern)\s+/;
+// Forms this short only count as "City, XX" qualifiers, never as places on their own
+const MIN_PLACE_FORM_LENGTH = 3;
+// Forms matched inside event text must be at least this long ("Rio" and "MIT" are too risky)
+const MIN_TEXT_FORM_LENGTH = 4;
+
+/**
+ * Fold a place name for comparison, keeping case: diacritics, dots and
+ * apostrophes dropped, "Saint" shortened to "St", other punctuation spaced.
+ */
+function foldPlaceName(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[.'’]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N},]+/gu, " ")
+    .replace(/\bSaint\b/gi, (m) => (m[0] === "S" ? "St" : "st"))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Lower-cased folded name without a leading "the", as stored in locations.normalizedName. */
+export function normalizePlaceName(text: string): string {
+  return foldPlaceName(text).toLowerCase().replace(/\s*,\s*/g, ", ").replace(/^the /, "");
+}
+
+export function placeKey(place: Pick<GazetteerPlace, "name" | "kind">): string {
+  return `${place.kind}:${normalizePlaceName(place.name)}`;
+}
+
+function formsOf(place: GazetteerPlace): string[] {
+  return [place.name, ...(place.aliases ?? [])];
+}
+
+/**
+ * Build a resolver from place names as the AI writes them ("Palm Beach,
+ * Florida", "Teterboro Airport", "Paris, France") to gazetteer places. For
+ * comma-separated names each part is tried from the most specific; qualifiers
+ * that name a region or country must agree with the candidate, so "Paris,
+ * Texas" does not land in France.
+ */
+export function createPlaceResolver(places: GazetteerPlace[] = GAZETTEER): (raw: string) => GazetteerPlace | null {
+  const byName = new Map<string, GazetteerPlace>();
+  const regions = new Map<string, GazetteerPlace>();
+  for (const place of places) {
+    for (const form of formsOf(place)) {
+      const key = normalizePlaceName(form);
+      if (key.length >= MIN_PLACE_FORM_LENGTH && !byName.has(key)) byName.set(key, place);
+      if ((place.kind === "region" || place.kind === "country") && !regions.has(key)) regions.set(key, place);
+    }
+  }
+
+  const lookup = (part: string): GazetteerPlace | undefined => {
+    if (byName.has(part)) return byName.get(part);
+    const stripped = part.replace(DESCRIPTOR_PREFIX, "").replace(DESCRIPTOR_SUFFIX, "");
+    return stripped !== part ? byName.get(stripped) : undefined;
+  };
+  const agrees = (place: GazetteerPlace, qualifier: GazetteerPlace) =>
+    place === qualifier || place.admin === qualifier.name || place.country === qualifier.name;
+
+  return (raw: string) => {
+    const normalized = normalizePlaceName(raw);
+    if (!normalized) return null;
+    const whole = byName.get(normalized);
+    if (whole) return whole;
+
+    const parts = normalized.split(", ").filter(Boolean);
+    for (let i = 0; i < parts.length; i++) {
+      const candidate = lookup(parts[i]);
+      if (!candidate) continue;
+      const qualifiers = parts.slice(i + 1)
+        .map((part) => regions.get(part))
+        .filter((q): q is GazetteerPlace => q !== undefined);
+      if (qualifiers.every((q) => agrees(candidate, q))) return candidate;
+    }
+    return null;
+  };
+}
+
+/**
+ * Build a matcher listing the gazetteer places named in a piece of prose (a
+ * timeline event's title and description). Matching is case-sensitive on
+ * whole words, so "a nice dinner" does not place anything in Nice.
+ */
+export function createPlaceMatcher(places: GazetteerPlace[] = GAZETTEER): (text: string) => GazetteerPlace[] {
+  const byForm = new Map<string, GazetteerPlace>();
+  for (const place of places) {
+    for (const form of formsOf(place)) {
+      const folded = foldPlaceName(form).replace(/,/g, "");
+      if (folded.length >= MIN_TEXT_FORM_LENGTH && !byForm.has(folded)) byForm.set(folded, place);
+    }
+  }
+  // Longest forms first, so "West Palm Beach" wins over "Palm Beach"
+  const forms = Array.from(byForm.keys()).sort((a, b) => b.length - a.length);
+
+  return (text: string) => {
+    let haystack = ` ${foldPlaceName(text).replace(/,/g, " ").replace(/\s+/g, " ")} `;
+    const found: GazetteerPlace[] = [];
+    for (const form of forms) {
+      const needle = ` ${form} `;
+      if (!haystack.includes(needle)) continue;
+      const place = byForm.get(form)!;
+      if (!found.includes(place)) found.push(place);
+      // Blank out the match so shorter forms inside it are not counted again
+      haystack = haystack.split(needle).join(" \u0000 ");
+    }
+    return found;
+  };
+}
+
+/** First plausible four-digit year in a free-form date ("March 3, 2005", "2005-03"). */
+export function yearFromDate(text: string | null | undefined): number | null {
+  const match = text?.match(/\b(19\d{2}|20\d{2})\b/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export interface LocationMapOptions {
+  /** Only documents linked to this person */
+  personId: number | null;
+  yearFrom: number | null;
+  yearTo: number | null;
+  kind: PlaceKind | null;
+}
+
+function optionalInt(raw: unknown, min: number, max: number): number | null | undefined {
+  if (raw === undefined || raw === "") return null;
+  const value = typeof raw === "string" && /^\d+$/.test(raw) ? parseInt(raw, 10) : NaN;
+  return value >= min && value <= max ? value : undefined;
+}
+
+/** Parse `personId`, `yearFrom`, `yearTo` and `kind` for the location map. */
+export function parseLocationsQuery(query: Record<string, unknown>): QueryParseResult<LocationMapOptions> {
+  const personId = optionalInt(query.personId, 1, Number.MAX_SAFE_INTEGER);
+  if (personId === undefined) return { ok: false, error: "personId must be a positive integer" };
+  const yearFrom = optionalInt(query.yearFrom, 1900, 2100);
+  const yearTo = optionalInt(query.yearTo, 1900, 2100);
+  if (yearFrom === undefined || yearTo === undefined) return { ok: false, error: "yearFrom and yearTo must be years" };
+  if (yearFrom !== null && yearTo !== null && yearFrom > yearTo) return { ok: false, error: "yearFrom must not be after yearTo" };
+
+  let kind: PlaceKind | null = null;
+  if (query.kind !== undefined && query.kind !== "") {
+    if (!PLACE_KINDS.includes(query.kind as PlaceKind)) return { ok: false, error: `kind must be one of ${PLACE_KINDS.join(", ")}` };
+    kind = query.kind as PlaceKind;
+  }
+  return { ok: true, options: { personId, yearFrom, yearTo, kind } };
+}
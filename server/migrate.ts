@@ -42,6 +42,70 @@ const migrations: { name: string; sql: string }[] = [
            ON search_queries (result_count, created_at)
            WHERE result_count = 0`,
   },
+  {
+    name: "idx_budget_tracking_date_policy (budget policy usage before every AI call)",
+    sql: `CREATE INDEX IF NOT EXISTS idx_budget_tracking_date_policy
+           ON budget_tracking (date, job_type, model, data_set)`,
+  },
+  {
+    // Granted with UPDATE users SET is_admin = true, never through registration
+    name: "users.is_admin",
+    sql: "ALTER TABLE users ADD COLUMN IF NOT EXISTS is_admin boolean NOT NULL DEFAULT false",
+  },
+  {
+    // Pipeline jobs are written by CLI workers, batch scripts and the background
+    // worker alike; a trigger catches every state change for the admin dashboard
+    // (server/pipeline-events.ts relays them over /ws)
+    name: "notify_pipeline_job_change function",
+    sql: `CREATE OR REPLACE FUNCTION notify_pipeline_job_change() RETURNS trigger AS $$
+           BEGIN
+             IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status
+                AND NEW.priority IS NOT DISTINCT FROM OLD.priority THEN
+               RETURN NEW;
+             END IF;
+             PERFORM pg_notify('pipeline_jobs', json_build_object(
+               'id', NEW.id, 'runId', NEW.run_id, 'jobType', NEW.job_type,
+               'status', NEW.status, 'priority', NEW.priority, 'attempts', NEW.attempts
+             )::text);
+             RETURN NEW;
+           END
+           $$ LANGUAGE plpgsql`,
+  },
+  {
+    name: "pipeline_jobs_notify trigger",
+    sql: `DROP TRIGGER IF EXISTS pipeline_jobs_notify ON pipeline_jobs;
+          CREATE TRIGGER pipeline_jobs_notify
+           AFTER INSERT OR UPDATE OF status, priority ON pipeline_jobs
+           FOR EACH ROW EXECUTE FUNCTION notify_pipeline_job_change()`,
+  },
+  {
+    // The caps the background worker and batch scripts used to hard-code.
+    // Only seeded into an empty table, so edited policies are left alone.
+    name: "default budget_policies",
+    sql: `INSERT INTO budget_policies (name, job_type, daily_cap_cents, monthly_cap_cents)
+           SELECT * FROM (VALUES
+             ('Chat-triggered analysis', 'chat-triggered-analysis', 100::int, NULL::int),
+             ('Batch AI analysis', 'ai_analysis', NULL, 500),
+             ('High-value analysis', 'high_value_analysis', NULL, 500),
+             ('Page classification', 'page_classification', NULL, 500)
+           ) AS defaults (name, job_type, daily_cap_cents, monthly_cap_cents)
+           WHERE NOT EXISTS (SELECT 1 FROM budget_policies)`,
+  },
+  {
+    // Analyses from before versioning become version 1 of their file. Skipped
+    // until db:push has created the table; saveAnalysisVersion seeds version 1
+    // itself for a file analyzed again before the next server start
+    name: "ai_analysis_versions backfill",
+    sql: `INSERT INTO ai_analysis_versions (file_name, version, data_set, document_type, date_original, summary,
+             tier, schema_version, cost_cents, input_tokens, output_tokens,
+             persons, connections_data, events, locations, key_facts, entities, analyzed_at)
+           SELECT file_name, 1, data_set, document_type, date_original, summary,
+             tier, schema_version, cost_cents, input_tokens, output_tokens,
+             persons, connections_data, events, locations, key_facts, entities, analyzed_at
+           FROM ai_analyses WHERE version IS NULL
+           ON CONFLICT (file_name, version) DO NOTHING;
+          UPDATE ai_analyses SET version = 1 WHERE version IS NULL`,
+  },
 ];
 
 export async function runMigrations(pool: pg.Pool): Promise<void> {
@@ -0,0 +1,316 @@
+/**
+ * Graph analytics over the connection network: degree, betweenness and
+ * eigenvector centrality, Louvain communities and bridge detection. Pure
+ * functions over an edge list; storage.refreshNetworkAnalytics() feeds them
+ * and persists the result to network_metrics.
+ */
+
+export interface AnalyticsEdge {
+  /** Node keys, e.g. "person:12" or "entity:4" */
+  source: string;
+  target: string;
+  /** Connection strength; parallel edges between the same nodes are summed */
+  weight: number;
+}
+
+export interface NodeAnalytics {
+  key: string;
+  degree: number;
+  /** degree / (n - 1) */
+  degreeCentrality: number;
+  /** Normalized shortest-path betweenness (unweighted hops), 0..1 */
+  betweenness: number;
+  /** Strength-weighted eigenvector centrality, scaled so the top node is 1 */
+  eigenvector: number;
+  communityId: number;
+  bridgeCommunities: number;
+}
+
+export interface NetworkAnalyticsResult {
+  nodes: NodeAnalytics[];
+  communityCount: number;
+  modularity: number;
+}
+
+interface IndexedGraph {
+  keys: string[];
+  /** adjacency[i] = neighbour index -> summed weight; no self loops */
+  adjacency: Map<number, number>[];
+}
+
+const EIGENVECTOR_MAX_ITERATIONS = 200;
+const EIGENVECTOR_TOLERANCE = 1e-9;
+const LOUVAIN_MAX_LEVELS = 10;
+const LOUVAIN_MAX_PASSES = 50;
+
+export function indexGraph(edges: AnalyticsEdge[]): IndexedGraph {
+  const indexByKey = new Map<string, number>();
+  const keys: string[] = [];
+  const adjacency: Map<number, number>[] = [];
+
+  const indexOf = (key: string) => {
+    let i = indexByKey.get(key);
+    if (i === undefined) {
+      i = keys.length;
+      indexByKey.set(key, i);
+      keys.push(key);
+      adjacency.push(new Map());
+    }
+    return i;
+  };
+
+  for (const edge of edges) {
+    if (edge.source === edge.target) continue;
+    const a = indexOf(edge.source);
+    const b = indexOf(edge.target);
+    const weight = Math.max(edge.weight, 1);
+    adjacency[a].set(b, (adjacency[a].get(b) ?? 0) + weight);
+    adjacency[b].set(a, (adjacency[b].get(a) ?? 0) + weight);
+  }
+  return { keys, adjacency };
+}
+
+/** Brandes' algorithm on the unweighted graph, normalized for an undirected graph. */
+export function betweennessCentrality(graph: IndexedGraph): Float64Array {
+  const n = graph.keys.length;
+  const neighbours = graph.adjacency.map((m) => Array.from(m.keys()));
+  const centrality = new Float64Array(n);
+  const sigma = new Float64Array(n);
+  const dist = new Int32Array(n);
+  const delta = new Float64Array(n);
+  const order = new Int32Array(n);
+
+  for (let s = 0; s < n; s++) {
+    sigma.fill(0);
+    dist.fill(-1);
+    delta.fill(0);
+    sigma[s] = 1;
+    dist[s] = 0;
+
+    // BFS; `order` doubles as the queue and the non-decreasing-distance visit order
+    let head = 0;
+    let tail = 0;
+    order[tail++] = s;
+    while (head < tail) {
+      const v = order[head++];
+      for (const w of neighbours[v]) {
+        if (dist[w] < 0) {
+          dist[w] = dist[v] + 1;
+          order[tail++] = w;
+        }
+        if (dist[w] === dist[v] + 1) sigma[w] += sigma[v];
+      }
+    }
+
+    // Accumulate dependencies in reverse BFS order; predecessors are neighbours one hop closer
+    for (let i = tail - 1; i > 0; i--) {
+      const w = order[i];
+      for (const v of neighbours[w]) {
+        if (dist[v] === dist[w] - 1) delta[v] += (sigma[v] / sigma[w]) * (1 + delta[w]);
+      }
+      centrality[w] += delta[w];
+    }
+  }
+
+  // Each undirected pair was counted from both ends; then scale to 0..1
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0;
+  for (let i = 0; i < n; i++) centrality[i] *= scale;
+  return centrality;
+}
+
+/**
+ * Power iteration on (A + I): same eigenvectors as the weighted adjacency A, but
+ * it converges on bipartite components too.
+ */
+export function eigenvectorCentrality(graph: IndexedGraph): Float64Array {
+  const n = graph.keys.length;
+  let x = new Float64Array(n).fill(n > 0 ? 1 / Math.sqrt(n) : 0);
+
+  for (let iter = 0; iter < EIGENVECTOR_MAX_ITERATIONS; iter++) {
+    const next = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      let sum = x[i];
+      for (const [j, w] of Array.from(graph.adjacency[i])) sum += w * x[j];
+      next[i] = sum;
+    }
+    let norm = 0;
+    for (let i = 0; i < n; i++) norm += next[i] * next[i];
+    norm = Math.sqrt(norm) || 1;
+    let change = 0;
+    for (let i = 0; i < n; i++) {
+      next[i] /= norm;
+      change += Math.abs(next[i] - x[i]);
+    }
+    x = next;
+    if (change < n * EIGENVECTOR_TOLERANCE) break;
+  }
+
+  let max = 0;
+  for (let i = 0; i < n; i++) max = Math.max(max, x[i]);
+  if (max > 0) for (let i = 0; i < n; i++) x[i] /= max;
+  return x;
+}
+
+/**
+ * Louvain community detection on the weighted graph: greedy local moves that
+ * raise modularity, then aggregate each community into one node and repeat.
+ * Nodes are visited in index order so results are deterministic.
+ * Returns community ids 0..k-1, largest community first.
+ */
+export function louvainCommunities(graph: IndexedGraph): Int32Array {
+  const n = graph.keys.length;
+  const membership = new Int32Array(n);
+  for (let i = 0; i < n; i++) membership[i] = i;
+
+  // Current level: adjacency between level nodes plus self-loop (internal) weights
+  let adjacency = graph.adjacency.map((m) => new Map(m));
+  let selfLoops = new Float64Array(n);
+
+  for (let level = 0; level < LOUVAIN_MAX_LEVELS; level++) {
+    const size = adjacency.length;
+    const degree = new Float64Array(size);
+    let totalDegree = 0;
+    for (let i = 0; i < size; i++) {
+      let k = 2 * selfLoops[i];
+      adjacency[i].forEach((w) => { k += w; });
+      degree[i] = k;
+      totalDegree += k;
+    }
+    if (totalDegree === 0) break;
+
+    const community = new Int32Array(size);
+    const communityDegree = new Float64Array(size);
+    for (let i = 0; i < size; i++) {
+      community[i] = i;
+      communityDegree[i] = degree[i];
+    }
+
+    let improved = false;
+    for (let pass = 0; pass < LOUVAIN_MAX_PASSES; pass++) {
+      let moved = false;
+      for (let i = 0; i < size; i++) {
+        const current = community[i];
+        const linkWeights = new Map<number, number>();
+        adjacency[i].forEach((w, j) => {
+          const c = community[j];
+          linkWeights.set(c, (linkWeights.get(c) ?? 0) + w);
+        });
+
+        communityDegree[current] -= degree[i];
+        // Modularity gain of joining c is proportional to k_i,c - tot_c * k_i / 2m
+        let best = current;
+        let bestGain = (linkWeights.get(current) ?? 0) - (communityDegree[current] * degree[i]) / totalDegree;
+        linkWeights.forEach((w, c) => {
+          const gain = w - (communityDegree[c] * degree[i]) / totalDegree;
+          if (gain > bestGain + 1e-12) {
+            best = c;
+            bestGain = gain;
+          }
+        });
+        communityDegree[best] += degree[i];
+        if (best !== current) {
+          community[i] = best;
+          moved = true;
+          improved = true;
+        }
+      }
+      if (!moved) break;
+    }
+    if (!improved) break;
+
+    // Renumber communities densely and fold them into the next level's nodes
+    const renumber = new Map<number, number>();
+    for (let i = 0; i < size; i++) {
+      if (!renumber.has(community[i])) renumber.set(community[i], renumber.size);
+    }
+    const nextSize = renumber.size;
+    const nextAdjacency: Map<number, number>[] = Array.from({ length: nextSize }, () => new Map());
+    const nextSelfLoops = new Float64Array(nextSize);
+    for (let i = 0; i < size; i++) {
+      const ci = renumber.get(community[i])!;
+      nextSelfLoops[ci] += selfLoops[i];
+      adjacency[i].forEach((w, j) => {
+        const cj = renumber.get(community[j])!;
+        if (ci === cj) {
+          // Each internal edge is seen from both ends
+          nextSelfLoops[ci] += w / 2;
+        } else {
+          nextAdjacency[ci].set(cj, (nextAdjacency[ci].get(cj) ?? 0) + w);
+        }
+      });
+    }
+    for (let v = 0; v < n; v++) membership[v] = renumber.get(community[membership[v]])!;
+
+    adjacency = nextAdjacency;
+    selfLoops = nextSelfLoops;
+    if (nextSize === size) break;
+  }
+
+  // Largest community first, ties by lowest member index
+  const sizes = new Map<number, { size: number; first: number }>();
+  for (let v = 0; v < n; v++) {
+    const entry = sizes.get(membership[v]);
+    if (entry) entry.size++;
+    else sizes.set(membership[v], { size: 1, first: v });
+  }
+  const ranked = Array.from(sizes.entries())
+    .sort((a, b) => b[1].size - a[1].size || a[1].first - b[1].first)
+    .map(([id]) => id);
+  const rank = new Map(ranked.map((id, i) => [id, i]));
+  for (let v = 0; v < n; v++) membership[v] = rank.get(membership[v])!;
+  return membership;
+}
+
+/** Newman modularity of a partition of the weighted graph. */
+export function modularity(graph: IndexedGraph, communities: Int32Array): number {
+  let totalWeight = 0;
+  const internal = new Map<number, number>();
+  const communityDegree = new Map<number, number>();
+  graph.adjacency.forEach((neighbours, i) => {
+    neighbours.forEach((w, j) => {
+      totalWeight += w;
+      communityDegree.set(communities[i], (communityDegree.get(communities[i]) ?? 0) + w);
+      if (communities[i] === communities[j]) {
+        internal.set(communities[i], (internal.get(communities[i]) ?? 0) + w);
+      }
+    });
+  });
+  if (totalWeight === 0) return 0;
+  // totalWeight counted every edge twice, i.e. it is 2m
+  let q = 0;
+  communityDegree.forEach((tot, c) => {
+    q += (internal.get(c) ?? 0) / totalWeight - (tot / totalWeight) ** 2;
+  });
+  return q;
+}
+
+export function computeNetworkAnalytics(edges: AnalyticsEdge[]): NetworkAnalyticsResult {
+  const graph = indexGraph(edges);
+  const n = graph.keys.length;
+  const betweenness = betweennessCentrality(graph);
+  const eigenvector = eigenvectorCentrality(graph);
+  const communities = louvainCommunities(graph);
+
+  const nodes: NodeAnalytics[] = graph.keys.map((key, i) => {
+    const neighbourCommunities = new Set<number>();
+    graph.adjacency[i].forEach((_w, j) => {
+      if (communities[j] !== communities[i]) neighbourCommunities.add(communities[j]);
+    });
+    const degree = graph.adjacency[i].size;
+    return {
+      key,
+      degree,
+      degreeCentrality: n > 1 ? degree / (n - 1) : 0,
+      betweenness: betweenness[i],
+      eigenvector: eigenvector[i],
+      communityId: communities[i],
+      bridgeCommunities: neighbourCommunities.size,
+    };
+  });
+
+  return {
+    nodes,
+    communityCount: communities.reduce((max, c) => Math.max(max, c + 1), 0),
+    modularity: modularity(graph, communities),
+  };
+}
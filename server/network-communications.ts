@@ -0,0 +1,89 @@
+import type { CommunicationEdge, CommunicationGraph, NetworkPerson } from "@shared/schema";
+import { clampInt } from "./query-params";
+
+export const DEFAULT_COMMUNICATION_LIMIT = 500;
+export const MAX_COMMUNICATION_LIMIT = 2000;
+
+export interface CommunicationGraphOptions {
+  /** Drop sender → recipient pairs with fewer messages than this */
+  minMessages: number;
+  /** Count Cc recipients as well as To */
+  includeCc: boolean;
+  /** Only messages from documents in this data set, e.g. "9" */
+  dataSet: string | null;
+  /** Only messages sent in this year range; undated messages are excluded once a bound is set */
+  yearFrom: number | null;
+  yearTo: number | null;
+  /** Maximum edges returned, heaviest first */
+  limit: number;
+}
+
+export type CommunicationsQueryParseResult =
+  | { ok: true; options: CommunicationGraphOptions }
+  | { ok: false; error: string };
+
+function parseYear(raw: unknown): number | null | undefined {
+  if (raw === undefined || raw === "") return null;
+  const year = parseInt(raw as string);
+  return isNaN(year) ? undefined : year;
+}
+
+/**
+ * Parse `minMessages`, `includeCc`, `dataSet`, `yearFrom`, `yearTo` and `limit`
+ * from a request query string. Cc recipients are included unless `includeCc=false`.
+ */
+export function parseCommunicationsQuery(query: Record<string, unknown>): CommunicationsQueryParseResult {
+  const yearFrom = parseYear(query.yearFrom);
+  const yearTo = parseYear(query.yearTo);
+  if (yearFrom === undefined || yearTo === undefined) {
+    return { ok: false, error: "yearFrom and yearTo must be years" };
+  }
+  if (yearFrom !== null && yearTo !== null && yearFrom > yearTo) {
+    return { ok: false, error: "yearFrom must not be after yearTo" };
+  }
+  const dataSet = typeof query.dataSet === "string" && query.dataSet.trim() ? query.dataSet.trim() : null;
+
+  return {
+    ok: true,
+    options: {
+      minMessages: clampInt(query.minMessages, 1, 1, 10000),
+      includeCc: query.includeCc !== "false" && query.includeCc !== "0",
+      dataSet,
+      yearFrom,
+      yearTo,
+      limit: clampInt(query.limit, DEFAULT_COMMUNICATION_LIMIT, 1, MAX_COMMUNICATION_LIMIT),
+    },
+  };
+}
+
+/**
+ * Keep the heaviest `limit` edges that meet `minMessages` and the persons they
+ * touch, with each person's sent and received totals over the kept edges.
+ */
+export function buildCommunicationGraph(
+  persons: NetworkPerson[],
+  edges: CommunicationEdge[],
+  options: Pick<CommunicationGraphOptions, "minMessages" | "limit">,
+): CommunicationGraph {
+  const personById = new Map(persons.map((p) => [p.id, p]));
+  const kept = edges
+    .filter((e) => e.messageCount >= options.minMessages && e.fromPersonId !== e.toPersonId)
+    .filter((e) => personById.has(e.fromPersonId) && personById.has(e.toPersonId))
+    .sort((a, b) => b.messageCount - a.messageCount || a.fromPersonId - b.fromPersonId || a.toPersonId - b.toPersonId)
+    .slice(0, options.limit);
+
+  const sent = new Map<number, number>();
+  const received = new Map<number, number>();
+  for (const e of kept) {
+    sent.set(e.fromPersonId, (sent.get(e.fromPersonId) ?? 0) + e.messageCount);
+    received.set(e.toPersonId, (received.get(e.toPersonId) ?? 0) + e.messageCount);
+  }
+
+  const ids = new Set([...sent.keys(), ...received.keys()]);
+  return {
+    persons: persons
+      .filter((p) => ids.has(p.id))
+      .map((p) => ({ ...p, sentCount: sent.get(p.id) ?? 0, receivedCount: received.get(p.id) ?? 0 })),
+    edges: kept,
+  };
+}
@@ -0,0 +1,153 @@
+import type { Connection, EgoNetwork, EgoNetworkPerson, NetworkPerson } from "@shared/schema";
+import { parseConnectionTypes } from "./network-paths";
+import { clampInt } from "./query-params";
+
+export const DEFAULT_EGO_HOPS = 2;
+export const MAX_EGO_HOPS = 3;
+export const DEFAULT_EGO_LIMIT = 150;
+export const MAX_EGO_LIMIT = 500;
+
+export interface EgoNetworkOptions {
+  hops: number;
+  minStrength: number;
+  /** Minimum number of source documents behind a connection */
+  minDocuments: number;
+  /** Only follow connections of these types; all types when empty */
+  connectionTypes: string[];
+  /** Drop persons whose timeline years fall entirely outside this range; persons without timeline data are kept */
+  yearFrom: number | null;
+  yearTo: number | null;
+  /** Maximum persons returned; nearer hops and stronger ties are kept first */
+  limit: number;
+}
+
+type EgoConnection = Connection & { person1Name: string; person2Name: string };
+
+/** The slice of storage.getNetworkData() the ego expansion needs. */
+export interface EgoNetworkSource {
+  persons: NetworkPerson[];
+  connections: EgoConnection[];
+  personYears: Record<number, [number, number]>;
+}
+
+export type EgoQueryParseResult =
+  | { ok: true; options: EgoNetworkOptions }
+  | { ok: false; error: string };
+
+function parseYear(raw: unknown): number | null | undefined {
+  if (raw === undefined || raw === "") return null;
+  const year = parseInt(raw as string);
+  return isNaN(year) ? undefined : year;
+}
+
+/**
+ * Parse `hops`, `minStrength`, `minDocuments`, `types` (comma-separated or repeated),
+ * `yearFrom`, `yearTo` and `limit` from a request query string.
+ */
+export function parseEgoQuery(query: Record<string, unknown>): EgoQueryParseResult {
+  const yearFrom = parseYear(query.yearFrom);
+  const yearTo = parseYear(query.yearTo);
+  if (yearFrom === undefined || yearTo === undefined) {
+    return { ok: false, error: "yearFrom and yearTo must be years" };
+  }
+  if (yearFrom !== null && yearTo !== null && yearFrom > yearTo) {
+    return { ok: false, error: "yearFrom must not be after yearTo" };
+  }
+
+  return {
+    ok: true,
+    options: {
+      hops: clampInt(query.hops, DEFAULT_EGO_HOPS, 1, MAX_EGO_HOPS),
+      minStrength: clampInt(query.minStrength, 1, 1, 5),
+      minDocuments: clampInt(query.minDocuments, 0, 0, 1000),
+      connectionTypes: parseConnectionTypes(query.types),
+      yearFrom,
+      yearTo,
+      limit: clampInt(query.limit, DEFAULT_EGO_LIMIT, 1, MAX_EGO_LIMIT),
+    },
+  };
+}
+
+/**
+ * Breadth-first expansion from one person over the connections that pass the
+ * filters, up to `hops` away. Returns null when the centre person is unknown.
+ */
+export function buildEgoNetwork(
+  source: EgoNetworkSource,
+  centerPersonId: number,
+  options: EgoNetworkOptions,
+): EgoNetwork | null {
+  const personById = new Map(source.persons.map((p) => [p.id, p]));
+  if (!personById.has(centerPersonId)) return null;
+
+  const types = options.connectionTypes.length > 0 ? new Set(options.connectionTypes) : null;
+  const inYearRange = (personId: number) => {
+    if (personId === centerPersonId) return true;
+    const years = source.personYears[personId];
+    if (!years) return true;
+    return (options.yearFrom === null || years[1] >= options.yearFrom)
+      && (options.yearTo === null || years[0] <= options.yearTo);
+  };
+
+  const eligible = source.connections.filter((c) =>
+    c.strength >= options.minStrength
+    && (c.documentIds?.length ?? 0) >= options.minDocuments
+    && (!types || types.has(c.connectionType.toLowerCase()))
+    && personById.has(c.personId1) && personById.has(c.personId2)
+    && inYearRange(c.personId1) && inYearRange(c.personId2),
+  );
+
+  const adjacency = new Map<number, { neighbourId: number; strength: number }[]>();
+  const link = (a: number, b: number, strength: number) => {
+    const list = adjacency.get(a);
+    if (list) list.push({ neighbourId: b, strength });
+    else adjacency.set(a, [{ neighbourId: b, strength }]);
+  };
+  for (const c of eligible) {
+    link(c.personId1, c.personId2, c.strength);
+    link(c.personId2, c.personId1, c.strength);
+  }
+
+  const hopById = new Map<number, number>([[centerPersonId, 0]]);
+  let frontier = [centerPersonId];
+  let truncated = false;
+
+  for (let hop = 1; hop <= options.hops && frontier.length > 0 && !truncated; hop++) {
+    // Strongest tie into each newly reached person decides who makes the cut
+    const reached = new Map<number, number>();
+    for (const personId of frontier) {
+      for (const { neighbourId, strength } of adjacency.get(personId) ?? []) {
+        if (hopById.has(neighbourId)) continue;
+        reached.set(neighbourId, Math.max(reached.get(neighbourId) ?? 0, strength));
+      }
+    }
+
+    const ordered = Array.from(reached.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0]);
+    const next: number[] = [];
+    for (const [personId] of ordered) {
+      if (hopById.size >= options.limit) {
+        truncated = true;
+        break;
+      }
+      hopById.set(personId, hop);
+      next.push(personId);
+    }
+    frontier = next;
+  }
+
+  const persons: EgoNetworkPerson[] = Array.from(hopById.entries()).map(([personId, hop]) => {
+    const hidden = new Set<number>();
+    for (const { neighbourId } of adjacency.get(personId) ?? []) {
+      if (!hopById.has(neighbourId)) hidden.add(neighbourId);
+    }
+    return { ...personById.get(personId)!, hop, hiddenNeighborCount: hidden.size };
+  });
+
+  return {
+    centerPersonId,
+    hops: options.hops,
+    persons,
+    connections: eligible.filter((c) => hopById.has(c.personId1) && hopById.has(c.personId2)),
+    truncated,
+  };
+}
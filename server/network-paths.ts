@@ -0,0 +1,254 @@
+import type { Connection, NetworkPath, NetworkPathEdge } from "@shared/schema";
+import { clampInt } from "./query-params";
+
+export const DEFAULT_MAX_HOPS = 4;
+export const MAX_MAX_HOPS = 6;
+export const DEFAULT_PATH_COUNT = 3;
+export const MAX_PATH_COUNT = 10;
+
+export interface PathSearchOptions {
+  maxHops: number;
+  /** Number of shortest loopless paths to return */
+  k: number;
+  /** Prefer strong ties: each hop costs 1/strength instead of 1 */
+  weighted: boolean;
+  /** Only traverse connections of these types; all types when empty */
+  connectionTypes: string[];
+}
+
+export type PathConnection = Pick<Connection, 'id' | 'personId1' | 'personId2' | 'connectionType' | 'description' | 'strength' | 'documentIds'>;
+
+interface PathGraph {
+  /** personId -> neighbour personId -> connections between the two */
+  adjacency: Map<number, Map<number, PathConnection[]>>;
+  weighted: boolean;
+}
+
+interface CandidatePath {
+  personIds: number[];
+  cost: number;
+}
+
+export type PathQueryParseResult =
+  | { ok: true; from: number; to: number; options: PathSearchOptions }
+  | { ok: false; error: string };
+
+/** Lowercased connection types from a comma-separated or repeated query parameter. */
+export function parseConnectionTypes(raw: unknown): string[] {
+  return ([] as unknown[]).concat(raw ?? [])
+    .flatMap((t) => String(t).split(","))
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Parse `from`, `to`, `maxHops`, `k`, `weighted` and `connectionType` (comma-separated
+ * or repeated) from a request query string.
+ */
+export function parsePathQuery(query: Record<string, unknown>): PathQueryParseResult {
+  const from = parseInt(query.from as string);
+  const to = parseInt(query.to as string);
+  if (isNaN(from) || isNaN(to)) {
+    return { ok: false, error: "from and to must be person IDs" };
+  }
+  if (from === to) {
+    return { ok: false, error: "from and to must be different persons" };
+  }
+
+  const connectionTypes = parseConnectionTypes(query.connectionType);
+
+  return {
+    ok: true,
+    from,
+    to,
+    options: {
+      maxHops: clampInt(query.maxHops, DEFAULT_MAX_HOPS, 1, MAX_MAX_HOPS),
+      k: clampInt(query.k, DEFAULT_PATH_COUNT, 1, MAX_PATH_COUNT),
+      weighted: query.weighted === "true" || query.weighted === "1",
+      connectionTypes,
+    },
+  };
+}
+
+function buildPathGraph(connections: PathConnection[], options: PathSearchOptions): PathGraph {
+  const types = options.connectionTypes.length > 0 ? new Set(options.connectionTypes) : null;
+  const adjacency = new Map<number, Map<number, PathConnection[]>>();
+
+  const link = (a: number, b: number, conn: PathConnection) => {
+    let neighbours = adjacency.get(a);
+    if (!neighbours) {
+      neighbours = new Map();
+      adjacency.set(a, neighbours);
+    }
+    const existing = neighbours.get(b);
+    if (existing) existing.push(conn);
+    else neighbours.set(b, [conn]);
+  };
+
+  for (const conn of connections) {
+    if (conn.personId1 === conn.personId2) continue;
+    if (types && !types.has(conn.connectionType.toLowerCase())) continue;
+    link(conn.personId1, conn.personId2, conn);
+    link(conn.personId2, conn.personId1, conn);
+  }
+  return { adjacency, weighted: options.weighted };
+}
+
+function edgeCost(graph: PathGraph, conns: PathConnection[]): number {
+  if (!graph.weighted) return 1;
+  // Parallel connections collapse into one hop; the strongest one sets its cost
+  const strength = Math.max(1, ...conns.map((c) => c.strength));
+  return 1 / strength;
+}
+
+function edgeKey(a: number, b: number): string {
+  return a < b ? `${a}-${b}` : `${b}-${a}`;
+}
+
+/**
+ * Cheapest path from source to target using at most maxHops edges, avoiding the
+ * blocked persons and edges. Layered Bellman-Ford: layer h holds the cheapest
+ * walk of exactly h hops, so the hop limit is exact even when weighted. With
+ * positive costs the cheapest walk never repeats a person.
+ */
+function hopBoundedShortestPath(
+  graph: PathGraph,
+  source: number,
+  target: number,
+  maxHops: number,
+  blockedPersons: Set<number>,
+  blockedEdges: Set<string>,
+): CandidatePath | null {
+  if (maxHops < 1) return null;
+
+  const layers: Map<number, { cost: number; parent: number }>[] = [new Map([[source, { cost: 0, parent: -1 }]])];
+  let best: { cost: number; hops: number } | null = null;
+
+  for (let h = 1; h <= maxHops; h++) {
+    const prev = layers[h - 1];
+    const next = new Map<number, { cost: number; parent: number }>();
+    for (const [personId, { cost }] of Array.from(prev)) {
+      // No point extending a walk that already costs more than the best path found
+      if (best && cost >= best.cost) continue;
+      if (personId === target) continue;
+      const neighbours = graph.adjacency.get(personId);
+      if (!neighbours) continue;
+      for (const [neighbourId, conns] of Array.from(neighbours)) {
+        if (neighbourId === source || blockedPersons.has(neighbourId)) continue;
+        if (blockedEdges.has(edgeKey(personId, neighbourId))) continue;
+        const nextCost = cost + edgeCost(graph, conns);
+        const existing = next.get(neighbourId);
+        if (!existing || nextCost < existing.cost) {
+          next.set(neighbourId, { cost: nextCost, parent: personId });
+        }
+      }
+    }
+    layers.push(next);
+    const reached = next.get(target);
+    if (reached && (!best || reached.cost < best.cost)) best = { cost: reached.cost, hops: h };
+    if (next.size === 0) break;
+  }
+
+  if (!best) return null;
+
+  const personIds = [target];
+  let current = target;
+  for (let h = best.hops; h > 0; h--) {
+    current = layers[h].get(current)!.parent;
+    personIds.push(current);
+  }
+  personIds.reverse();
+  return { personIds, cost: best.cost };
+}
+
+function pathCost(graph: PathGraph, personIds: number[]): number {
+  let cost = 0;
+  for (let i = 0; i < personIds.length - 1; i++) {
+    cost += edgeCost(graph, graph.adjacency.get(personIds[i])!.get(personIds[i + 1])!);
+  }
+  return cost;
+}
+
+function compareCandidates(a: CandidatePath, b: CandidatePath): number {
+  return a.cost - b.cost || a.personIds.length - b.personIds.length;
+}
+
+function toNetworkPath(graph: PathGraph, candidate: CandidatePath): NetworkPath {
+  const edges: NetworkPathEdge[] = [];
+  for (let i = 0; i < candidate.personIds.length - 1; i++) {
+    const fromPersonId = candidate.personIds[i];
+    const toPersonId = candidate.personIds[i + 1];
+    const conns = graph.adjacency.get(fromPersonId)!.get(toPersonId)!;
+    const documentIds = new Set<number>();
+    for (const c of conns) for (const id of c.documentIds ?? []) documentIds.add(id);
+    edges.push({
+      fromPersonId,
+      toPersonId,
+      connections: [...conns]
+        .sort((a, b) => b.strength - a.strength)
+        .map(({ id, connectionType, description, strength, documentIds }) => ({
+          id, connectionType, description, strength, documentIds,
+        })),
+      documentIds: Array.from(documentIds).sort((a, b) => a - b),
+    });
+  }
+  return {
+    personIds: candidate.personIds,
+    edges,
+    hops: edges.length,
+    cost: Math.round(candidate.cost * 1000) / 1000,
+  };
+}
+
+/**
+ * Up to k shortest loopless paths between two persons (Yen's algorithm over
+ * hop-bounded spur searches), cheapest first.
+ */
+export function findShortestPaths(
+  connections: PathConnection[],
+  from: number,
+  to: number,
+  options: PathSearchOptions,
+): NetworkPath[] {
+  const graph = buildPathGraph(connections, options);
+  const first = hopBoundedShortestPath(graph, from, to, options.maxHops, new Set(), new Set());
+  if (!first) return [];
+
+  const accepted: CandidatePath[] = [first];
+  const candidates: CandidatePath[] = [];
+  const seen = new Set<string>([first.personIds.join(",")]);
+
+  while (accepted.length < options.k) {
+    const previous = accepted[accepted.length - 1].personIds;
+
+    for (let i = 0; i < previous.length - 1; i++) {
+      const spurPerson = previous[i];
+      const root = previous.slice(0, i + 1);
+      const rootKey = root.join(",");
+
+      // Block the next hop of every accepted path sharing this root so the spur diverges
+      const blockedEdges = new Set<string>();
+      for (const path of accepted) {
+        if (path.personIds.length > i + 1 && path.personIds.slice(0, i + 1).join(",") === rootKey) {
+          blockedEdges.add(edgeKey(path.personIds[i], path.personIds[i + 1]));
+        }
+      }
+      const blockedPersons = new Set(root.slice(0, -1));
+
+      const spur = hopBoundedShortestPath(graph, spurPerson, to, options.maxHops - i, blockedPersons, blockedEdges);
+      if (!spur) continue;
+
+      const personIds = [...root.slice(0, -1), ...spur.personIds];
+      const key = personIds.join(",");
+      if (seen.has(key)) continue;
+      seen.add(key);
+      candidates.push({ personIds, cost: pathCost(graph, root) + spur.cost });
+    }
+
+    if (candidates.length === 0) break;
+    candidates.sort(compareCandidates);
+    accepted.push(candidates.shift()!);
+  }
+
+  return accepted.sort(compareCandidates).map((c) => toNetworkPath(graph, c));
+}
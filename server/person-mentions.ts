@@ -0,0 +1,167 @@
+/**
+ * Finds person names and aliases in page text with exact character offsets.
+ * Used by scripts/pipeline/extract-mentions.ts to fill person_mentions, and by
+ * storage to cut display snippets around a stored mention.
+ */
+
+export interface MentionCandidate {
+  id: number;
+  name: string;
+  aliases: string[] | null;
+}
+
+export interface FoundMention {
+  personId: number;
+  charStart: number;
+  charEnd: number;
+  /** The text exactly as it appears on the page */
+  surfaceForm: string;
+}
+
+interface Token {
+  text: string;
+  lower: string;
+  start: number;
+  end: number;
+}
+
+interface SurfaceForm {
+  personId: number;
+  tokens: string[];
+  /** "Last, First" variant: the first gap must contain the comma */
+  reversed: boolean;
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*/gu;
+// Between the words of a name: whitespace (including OCR line breaks), the comma of
+// "Last, First" or the dot of an abbreviation
+const GAP_PATTERN = /^[\s,.]{1,3}$/;
+// Single words ("Bill", "Prince") match far too much unrelated text
+const MIN_FORM_TOKENS = 2;
+const MIN_FORM_LENGTH = 5;
+
+export const SNIPPET_RADIUS = 80;
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const m of Array.from(text.matchAll(TOKEN_PATTERN))) {
+    tokens.push({ text: m[0], lower: m[0].toLowerCase(), start: m.index!, end: m.index! + m[0].length });
+  }
+  return tokens;
+}
+
+function isCapitalized(word: string): boolean {
+  const first = word[0];
+  return first !== first.toLowerCase();
+}
+
+function surfaceForms(candidate: MentionCandidate): SurfaceForm[] {
+  const forms: SurfaceForm[] = [];
+  const add = (text: string, reversed: boolean) => {
+    const tokens = tokenize(text).map((t) => t.lower);
+    if (tokens.length < MIN_FORM_TOKENS || tokens.join(" ").length < MIN_FORM_LENGTH) return;
+    forms.push({ personId: candidate.id, tokens, reversed });
+  };
+
+  add(candidate.name, false);
+  for (const alias of candidate.aliases ?? []) add(alias, false);
+
+  // Legal filings and flight logs often list people as "Last, First"
+  const nameTokens = tokenize(candidate.name);
+  if (nameTokens.length === 2) add(`${nameTokens[1].text} ${nameTokens[0].text}`, true);
+  return forms;
+}
+
+/**
+ * Build a matcher over every candidate's name and aliases. Forms shared by more
+ * than one person are dropped as ambiguous; when forms overlap in the text the
+ * longest one wins.
+ */
+export function createMentionMatcher(candidates: MentionCandidate[]): (content: string) => FoundMention[] {
+  const byKey = new Map<string, SurfaceForm | null>();
+  for (const candidate of candidates) {
+    for (const form of surfaceForms(candidate)) {
+      const key = `${form.reversed ? "r:" : ""}${form.tokens.join(" ")}`;
+      const existing = byKey.get(key);
+      if (existing === undefined) byKey.set(key, form);
+      else if (existing && existing.personId !== form.personId) byKey.set(key, null);
+    }
+  }
+
+  // First token -> forms starting with it, longest first
+  const index = new Map<string, SurfaceForm[]>();
+  byKey.forEach((form) => {
+    if (!form) return;
+    const list = index.get(form.tokens[0]);
+    if (list) list.push(form);
+    else index.set(form.tokens[0], [form]);
+  });
+  index.forEach((list) => list.sort((a, b) => b.tokens.length - a.tokens.length));
+
+  const matchesAt = (content: string, tokens: Token[], i: number, form: SurfaceForm) => {
+    if (i + form.tokens.length > tokens.length) return false;
+    for (let k = 1; k < form.tokens.length; k++) {
+      const token = tokens[i + k];
+      if (token.lower !== form.tokens[k] || !isCapitalized(token.text)) return false;
+      const gap = content.slice(tokens[i + k - 1].end, token.start);
+      if (!GAP_PATTERN.test(gap)) return false;
+      if (form.reversed && k === 1 && !gap.includes(",")) return false;
+    }
+    return true;
+  };
+
+  return (content: string) => {
+    const tokens = tokenize(content);
+    const found: FoundMention[] = [];
+    let i = 0;
+    while (i < tokens.length) {
+      const forms = isCapitalized(tokens[i].text) ? index.get(tokens[i].lower) : undefined;
+      const match = forms?.find((form) => matchesAt(content, tokens, i, form));
+      if (!match) {
+        i++;
+        continue;
+      }
+      const charStart = tokens[i].start;
+      const charEnd = tokens[i + match.tokens.length - 1].end;
+      found.push({ personId: match.personId, charStart, charEnd, surfaceForm: content.slice(charStart, charEnd) });
+      i += match.tokens.length;
+    }
+    return found;
+  };
+}
+
+/**
+ * Resolve a short piece of text that should be nothing but a name (an email
+ * display name, a passenger-list entry) to a person: exactly one mention must
+ * be found and it must cover the text, not just appear inside it.
+ */
+export function createWholeNameMatcher(candidates: MentionCandidate[]): (text: string) => number | null {
+  const match = createMentionMatcher(candidates);
+  return (text: string) => {
+    const trimmed = text.trim();
+    const found = match(trimmed);
+    if (found.length !== 1) return null;
+    const [m] = found;
+    return m.charEnd - m.charStart >= trimmed.replace(/[\s"',.]+$/, "").length * 0.8 ? m.personId : null;
+  };
+}
+
+/**
+ * Text around a mention, widened to word boundaries. Whitespace is flattened to
+ * single spaces one-for-one so `snippetOffset` still lines up with the mention.
+ */
+export function mentionSnippet(
+  content: string,
+  charStart: number,
+  charEnd: number,
+  radius = SNIPPET_RADIUS,
+): { snippet: string; snippetOffset: number } {
+  let start = Math.max(0, charStart - radius);
+  let end = Math.min(content.length, charEnd + radius);
+  while (start > 0 && !/\s/.test(content[start - 1]) && charStart - start < radius + 20) start--;
+  while (end < content.length && !/\s/.test(content[end]) && end - charEnd < radius + 20) end++;
+  return {
+    snippet: content.slice(start, end).replace(/\s/g, " "),
+    snippetOffset: charStart - start,
+  };
+}
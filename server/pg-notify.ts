@@ -0,0 +1,65 @@
+import type { PoolClient } from "pg";
+import { pool } from "./db";
+
+const LISTEN_RETRY_MS = 5_000;
+
+/**
+ * Hold a dedicated connection LISTENing on a Postgres channel, reconnecting
+ * after errors. `label` names the listener in warnings. Returns a function
+ * that stops listening.
+ */
+export function listenForNotifications(
+  channel: string,
+  label: string,
+  onPayload: (payload: string | undefined) => void,
+): () => void {
+  let client: PoolClient | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const scheduleRetry = () => {
+    if (stopped || retryTimer) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, LISTEN_RETRY_MS);
+  };
+
+  async function connect() {
+    if (stopped) return;
+    let conn: PoolClient | null = null;
+    try {
+      conn = await pool.connect();
+      const listener = conn;
+      listener.on("notification", (msg) => {
+        if (msg.channel === channel) onPayload(msg.payload);
+      });
+      listener.on("error", (err) => {
+        console.warn(`${label} listener error: ${err.message}`);
+        if (client !== listener) return;
+        client = null;
+        listener.release(err);
+        scheduleRetry();
+      });
+      await listener.query(`LISTEN ${channel}`);
+      if (stopped) {
+        listener.release();
+        return;
+      }
+      client = listener;
+    } catch (err: any) {
+      console.warn(`${label} listener could not connect: ${err.message}`);
+      if (conn && client !== conn) conn.release(err);
+      scheduleRetry();
+    }
+  }
+
+  connect();
+
+  return () => {
+    stopped = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    client?.release();
+    client = null;
+  };
+}
@@ -0,0 +1,73 @@
+import type { PipelineJobChange } from "@shared/schema";
+import { listenForNotifications } from "./pg-notify";
+
+/**
+ * Pipeline job changes reach the web server from whichever process made them
+ * through the pipeline_jobs_notify trigger (server/migrate.ts), which NOTIFYs
+ * this channel on every insert and status or priority change.
+ */
+export const PIPELINE_JOBS_CHANNEL = "pipeline_jobs";
+
+/** Changes are batched this long before they go out, so a burst of inserts is one message. */
+export const PIPELINE_CHANGE_FLUSH_MS = 1_000;
+
+/** Read a trigger payload; anything malformed yields null. */
+export function parsePipelineJobChange(payload: string | undefined): PipelineJobChange | null {
+  if (!payload) return null;
+  try {
+    const parsed = JSON.parse(payload);
+    if (typeof parsed?.id !== "number" || typeof parsed.jobType !== "string" || typeof parsed.status !== "string") {
+      return null;
+    }
+    return {
+      id: parsed.id,
+      runId: typeof parsed.runId === "number" ? parsed.runId : null,
+      jobType: parsed.jobType,
+      status: parsed.status,
+      priority: typeof parsed.priority === "number" ? parsed.priority : 0,
+      attempts: typeof parsed.attempts === "number" ? parsed.attempts : 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collect changes and hand them to `onFlush` at most once per `flushMs`,
+ * keeping only the latest state of each job.
+ */
+export function createChangeBatcher(
+  onFlush: (changes: PipelineJobChange[]) => void,
+  flushMs = PIPELINE_CHANGE_FLUSH_MS,
+): { add(change: PipelineJobChange): void; stop(): void } {
+  const pending = new Map<number, PipelineJobChange>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    timer = null;
+    if (pending.size === 0) return;
+    const changes = Array.from(pending.values());
+    pending.clear();
+    onFlush(changes);
+  };
+
+  return {
+    add(change) {
+      pending.set(change.id, change);
+      if (!timer) timer = setTimeout(flush, flushMs);
+    },
+    stop() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      pending.clear();
+    },
+  };
+}
+
+/** Call `onChange` for every job change notification. Returns a function that stops listening. */
+export function listenForPipelineJobChanges(onChange: (change: PipelineJobChange) => void): () => void {
+  return listenForNotifications(PIPELINE_JOBS_CHANNEL, "Pipeline job", (payload) => {
+    const change = parsePipelineJobChange(payload);
+    if (change) onChange(change);
+  });
+}
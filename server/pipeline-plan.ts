@@ -0,0 +1,139 @@
+/**
+ * Planning for durable pipeline runs: which stages a stage waits for, how a
+ * run's stages split into jobs (one per data set for the file-based stages,
+ * one for each corpus-wide stage) and how long a failed job waits before its
+ * next attempt. Pure; the queue operations (claim, lease, retry) are in
+ * server/storage.ts and the worker is scripts/pipeline/pipeline-worker.ts.
+ */
+
+/** The DOJ releases; stages split per data set cover all of them unless --data-sets narrows it. */
+export const DATA_SET_IDS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+
+/**
+ * Stages each stage reads the output of. Only stages that are part of the same
+ * run are waited for; anything else is assumed to have run before.
+ */
+export const STAGE_DEPENDENCIES: Record<string, string[]> = {
+  "upload-r2": ["download-torrent"],
+  "process": ["download-torrent"],
+  "import-downloads": ["download-torrent"],
+  "classify-media": ["load-documents", "import-downloads"],
+  "analyze-ai": ["process", "classify-media"],
+  "generate-tier0": ["analyze-ai"],
+  "load-persons": ["scrape-wikipedia"],
+  "load-redactions": ["process", "import-downloads"],
+  "load-tables": ["process", "import-downloads"],
+  "load-ai-results": ["analyze-ai", "generate-tier0", "load-persons", "load-documents", "import-downloads"],
+  "dedup-persons": ["load-persons", "load-ai-results"],
+  "extract-mentions": ["load-ai-results", "dedup-persons"],
+  "load-emails": ["import-downloads", "dedup-persons"],
+  "load-flights": ["load-tables", "load-ai-results", "dedup-persons"],
+  "load-locations": ["load-ai-results"],
+  "load-event-sources": ["load-ai-results", "load-locations"],
+  "extract-connections": ["load-persons", "load-ai-results", "dedup-persons"],
+  "dedup-connections": ["load-ai-results", "extract-connections"],
+  "update-counts": ["load-ai-results", "dedup-persons", "extract-connections", "dedup-connections", "load-emails", "load-flights"],
+  "network-analytics": ["update-counts"],
+  "generate-profiles": ["update-counts"],
+  "backfill-connection-docs": ["extract-connections"],
+  "backfill-entities": ["load-ai-results"],
+  "backfill-event-dates": ["load-ai-results"],
+};
+
+/** File-based stages that take --data-sets and run as one job per data set. */
+export const DATA_SET_STAGES = new Set(["download-torrent", "upload-r2", "process", "load-redactions", "load-tables"]);
+
+/** Batch key of a corpus-wide job */
+export const WHOLE_CORPUS = "all";
+
+/** How long a claimed job is held before another worker may take it over. */
+export const LEASE_MS = 5 * 60_000;
+/** Workers renew their lease this often while a job runs. */
+export const HEARTBEAT_MS = 60_000;
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 30 * 60_000;
+
+export interface PlannedJob {
+  stage: string;
+  /** "all", or "ds:<id>" for one data set */
+  batchKey: string;
+  /** Options for this job on top of the run's: the data set it covers */
+  metadata: { dataSetIds?: number[] };
+  /** Indexes into the plan of the jobs this one waits for */
+  dependsOn: number[];
+}
+
+export interface PipelineJobListOptions {
+  status?: string;
+  runId?: number;
+  /** Stage name (the job's job_type) */
+  stage?: string;
+  limit?: number;
+}
+
+export function dataSetBatchKey(id: number): string {
+  return `ds:${id}`;
+}
+
+/**
+ * The stages in an order that respects STAGE_DEPENDENCIES, otherwise keeping
+ * the order they were given in. Throws on a dependency cycle.
+ */
+export function orderStages(stages: string[]): string[] {
+  const selected = Array.from(new Set(stages));
+  const included = new Set(selected);
+  const ordered: string[] = [];
+  const state = new Map<string, "visiting" | "done">();
+
+  const visit = (stage: string, path: string[]) => {
+    if (state.get(stage) === "done") return;
+    if (state.get(stage) === "visiting") {
+      throw new Error(`Stage dependency cycle: ${[...path, stage].join(" → ")}`);
+    }
+    state.set(stage, "visiting");
+    for (const dep of STAGE_DEPENDENCIES[stage] ?? []) {
+      if (included.has(dep)) visit(dep, [...path, stage]);
+    }
+    state.set(stage, "done");
+    ordered.push(stage);
+  };
+  for (const stage of selected) visit(stage, []);
+  return ordered;
+}
+
+/**
+ * The jobs of a run. A data-set job waits only for the same data set's job of
+ * a stage that is also split per data set, and for the whole of any other
+ * stage it depends on; corpus-wide jobs wait for every job of their
+ * dependencies.
+ */
+export function planJobs(stages: string[], dataSetIds: number[] = DATA_SET_IDS): PlannedJob[] {
+  const plan: PlannedJob[] = [];
+  const jobsByStage = new Map<string, number[]>();
+
+  for (const stage of orderStages(stages)) {
+    const deps = (STAGE_DEPENDENCIES[stage] ?? []).filter((dep) => jobsByStage.has(dep));
+    const batches = DATA_SET_STAGES.has(stage) && dataSetIds.length > 0
+      ? dataSetIds.map((id) => ({ batchKey: dataSetBatchKey(id), metadata: { dataSetIds: [id] } }))
+      : [{ batchKey: WHOLE_CORPUS, metadata: {} }];
+
+    const indexes: number[] = [];
+    for (const batch of batches) {
+      const dependsOn = deps.flatMap((dep) => {
+        const depJobs = jobsByStage.get(dep)!;
+        if (batch.batchKey === WHOLE_CORPUS) return depJobs;
+        const same = depJobs.filter((i) => plan[i].batchKey === batch.batchKey);
+        return same.length > 0 ? same : depJobs;
+      });
+      indexes.push(plan.length);
+      plan.push({ stage, ...batch, dependsOn });
+    }
+    jobsByStage.set(stage, indexes);
+  }
+  return plan;
+}
+
+/** Delay before retry number `attempts` + 1: 30 s doubling per attempt, at most 30 minutes. */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
@@ -0,0 +1,12 @@
+/**
+ * Helpers shared by the request query parsers (document tables, flights,
+ * locations, network paths and analysis versions).
+ */
+
+export type QueryParseResult<T> = { ok: true; options: T } | { ok: false; error: string };
+
+export function clampInt(raw: unknown, fallback: number, min: number, max: number): number {
+  const n = parseInt(raw as string);
+  if (isNaN(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+}
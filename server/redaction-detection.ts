@@ -0,0 +1,152 @@
+import type { AnnotationBBox } from "@shared/schema";
+
+/**
+ * Black-box redaction detection on a rasterized page. Pure pixel work over an
+ * RGBA buffer (as returned by canvas getImageData) so the pipeline can run it on
+ * node-canvas renders and tests can feed synthetic pages.
+ */
+
+export interface RedactionDetectionOptions {
+  /** A pixel is "dark" when every RGB channel is at or below this */
+  darkThreshold: number;
+  /** Minimum box size as fractions of the page width/height */
+  minWidth: number;
+  minHeight: number;
+  /** Minimum share of the bounding box that must be dark; text and drawings are far sparser */
+  minFill: number;
+}
+
+export interface PageRedactionScan {
+  redactionCount: number;
+  /** Fraction (0–1) of the page covered by the detected boxes */
+  redactedArea: number;
+  /** Boxes as page fractions, top to bottom */
+  boxes: AnnotationBBox[];
+}
+
+export const DEFAULT_REDACTION_OPTIONS: RedactionDetectionOptions = {
+  darkThreshold: 48,
+  // Roughly two characters wide and one line tall on a letter page; glyphs and rules fall below
+  minWidth: 0.015,
+  minHeight: 0.007,
+  minFill: 0.88,
+};
+
+/** Overlay bars a few pixels apart are one redaction; merge boxes closer than this (fraction of page). */
+const MERGE_GAP = 0.002;
+
+function darkMask(pixels: Uint8ClampedArray, width: number, height: number, threshold: number): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < mask.length; i++, p += 4) {
+    // Transparent pixels are unpainted background
+    if (pixels[p + 3] < 128) continue;
+    if (pixels[p] <= threshold && pixels[p + 1] <= threshold && pixels[p + 2] <= threshold) mask[i] = 1;
+  }
+  return mask;
+}
+
+interface PixelBox {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  dark: number;
+}
+
+/** 4-connected components of the dark mask, as pixel bounding boxes with their dark-pixel counts. */
+function darkComponents(mask: Uint8Array, width: number, height: number): PixelBox[] {
+  const seen = new Uint8Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  const components: PixelBox[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    let top = 0;
+    stack[top++] = start;
+    seen[start] = 1;
+    const box: PixelBox = { left: width, top: height, right: -1, bottom: -1, dark: 0 };
+
+    while (top > 0) {
+      const i = stack[--top];
+      const x = i % width;
+      const y = (i - x) / width;
+      box.dark++;
+      if (x < box.left) box.left = x;
+      if (x > box.right) box.right = x;
+      if (y < box.top) box.top = y;
+      if (y > box.bottom) box.bottom = y;
+
+      if (x > 0 && mask[i - 1] && !seen[i - 1]) { seen[i - 1] = 1; stack[top++] = i - 1; }
+      if (x < width - 1 && mask[i + 1] && !seen[i + 1]) { seen[i + 1] = 1; stack[top++] = i + 1; }
+      if (y > 0 && mask[i - width] && !seen[i - width]) { seen[i - width] = 1; stack[top++] = i - width; }
+      if (y < height - 1 && mask[i + width] && !seen[i + width]) { seen[i + width] = 1; stack[top++] = i + width; }
+    }
+    components.push(box);
+  }
+  return components;
+}
+
+function overlapsOrTouches(a: AnnotationBBox, b: AnnotationBBox, gap: number): boolean {
+  return a.x <= b.x + b.width + gap && b.x <= a.x + a.width + gap
+    && a.y <= b.y + b.height + gap && b.y <= a.y + a.height + gap;
+}
+
+function mergeBoxes(boxes: AnnotationBBox[]): AnnotationBBox[] {
+  const merged = boxes.map((b) => ({ ...b }));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = 0; i < merged.length && !changed; i++) {
+      for (let j = i + 1; j < merged.length; j++) {
+        if (!overlapsOrTouches(merged[i], merged[j], MERGE_GAP)) continue;
+        const a = merged[i];
+        const b = merged[j];
+        const x = Math.min(a.x, b.x);
+        const y = Math.min(a.y, b.y);
+        merged[i] = {
+          x,
+          y,
+          width: Math.max(a.x + a.width, b.x + b.width) - x,
+          height: Math.max(a.y + a.height, b.y + b.height) - y,
+        };
+        merged.splice(j, 1);
+        changed = true;
+        break;
+      }
+    }
+  }
+  return merged;
+}
+
+/** Find solid dark rectangles on a rendered page. */
+export function detectRedactions(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: RedactionDetectionOptions = DEFAULT_REDACTION_OPTIONS,
+): PageRedactionScan {
+  if (width <= 0 || height <= 0) return { redactionCount: 0, redactedArea: 0, boxes: [] };
+
+  const mask = darkMask(pixels, width, height, options.darkThreshold);
+  const minWidthPx = Math.max(2, Math.round(options.minWidth * width));
+  const minHeightPx = Math.max(2, Math.round(options.minHeight * height));
+
+  const candidates: AnnotationBBox[] = [];
+  for (const c of darkComponents(mask, width, height)) {
+    const w = c.right - c.left + 1;
+    const h = c.bottom - c.top + 1;
+    if (w < minWidthPx || h < minHeightPx) continue;
+    if (c.dark / (w * h) < options.minFill) continue;
+    candidates.push({ x: c.left / width, y: c.top / height, width: w / width, height: h / height });
+  }
+
+  const boxes = mergeBoxes(candidates).sort((a, b) => a.y - b.y || a.x - b.x);
+  const area = boxes.reduce((sum, b) => sum + b.width * b.height, 0);
+  return { redactionCount: boxes.length, redactedArea: Math.min(1, area), boxes };
+}
+
+/** Document-level density: mean redacted area over all pages, counting pages without boxes as zero. */
+export function redactionDensity(pages: Pick<PageRedactionScan, "redactedArea">[], pageCount: number): number {
+  if (pageCount <= 0) return 0;
+  return pages.reduce((sum, p) => sum + p.redactedArea, 0) / pageCount;
+}
@@ -1,14 +1,33 @@
 import {
   insertBookmarkSchema,
+  insertDocumentAnnotationSchema,
   insertDocumentVoteSchema,
   insertPersonVoteSchema,
+  insertWorkspaceItemSchema,
+  insertWorkspaceSchema,
+  retryPipelineJobsSchema,
+  updateDocumentAnnotationSchema,
+  updatePipelineJobSchema,
+  updateWorkspaceItemSchema,
+  updateWorkspaceSchema,
 } from "@shared/schema";
 import type { Express } from "express";
 import * as fsSync from "fs";
 import { type Server } from "http";
 import * as pathMod from "path";
 import { Readable } from "stream";
+import { writeWorkspaceVault } from "./api/v1/routes/obsidian-export";
+import { requireAdmin, requireAuth } from "./auth";
+import { buildAnalysisVersions, parseVersionsQuery, UnknownVersionError } from "./ai-analysis-versions";
+import { getBudgetPolicyStatuses } from "./budget";
 import { registerChatRoutes } from "./chat";
+import { parsePathQuery } from "./network-paths";
+import { parseEgoQuery } from "./network-ego";
+import { parseCommunicationsQuery } from "./network-communications";
+import { parseTableRowsQuery, parseTableSearchQuery } from "./document-tables";
+import { parseFlightsQuery } from "./flight-logs";
+import { parseLocationsQuery } from "./locations";
+import { parseDateBound } from "./event-dates";
 import { getPresignedUrl, getPublicUrl, getR2Stream, isR2Configured } from "./r2";
 import { storage } from "./storage";
 import {
@@ -16,7 +35,10 @@ import {
   typesenseSearchPages,
   typesenseSearchInstant,
   typesenseDocumentSearch,
+  typesenseSemanticSearchPages,
+  typesenseHybridSearchPages,
 } from "./typesense";
+import { parseSearchMode } from "./semantic-search";
 
 let activeProxyStreams = 0;
 const MAX_PROXY_STREAMS = 10;
@@ -282,6 +304,102 @@ export async function registerRoutes(
     }
   });
 
+  /**
+   * GET /api/persons/:id/mentions
+   * Where the person's name or aliases appear in page text, with offsets and snippets.
+   * Returns { data: PersonMentionDetail[], total, page, totalPages }
+   */
+  app.get("/api/persons/:id/mentions", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(
+        100,
+        Math.max(1, parseInt((req.query.limit as string) || "50") || 50),
+      );
+      const result = await storage.getPersonMentions(id, page, limit);
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch person mentions" });
+    }
+  });
+
+  /**
+   * GET /api/entities
+   * Always paginates. Optional ?entityType= and ?search= filters.
+   * Returns { data: Entity[], total, page, totalPages }
+   */
+  app.get("/api/entities", async (req, res) => {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(
+        100,
+        Math.max(1, parseInt((req.query.limit as string) || "50") || 50),
+      );
+      const entityType = req.query.entityType as string | undefined;
+      const search = req.query.search as string | undefined;
+      const result = await storage.getEntitiesPaginated({ page, limit, entityType, search });
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch entities" });
+    }
+  });
+
+  app.get("/api/entities/types", async (_req, res) => {
+    try {
+      const types = await storage.getEntityTypes();
+      res.set("Cache-Control", "public, max-age=600");
+      res.json(types);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch entity types" });
+    }
+  });
+
+  app.get("/api/entities/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const entity = await storage.getEntityWithDetails(id);
+      if (!entity) {
+        return res.status(404).json({ error: "Entity not found" });
+      }
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(entity);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch entity" });
+    }
+  });
+
+  app.get("/api/entities/:id/documents", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(
+        100,
+        Math.max(1, parseInt((req.query.limit as string) || "50") || 50),
+      );
+      const entity = await storage.getEntity(id);
+      if (!entity) {
+        return res.status(404).json({ error: "Entity not found" });
+      }
+      const result = await storage.getEntityDocuments(id, page, limit);
+      res.set("Cache-Control", "public, max-age=300");
+      res.json({ ...result, data: result.data.map(toPublicDocument) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch entity documents" });
+    }
+  });
+
   /**
    * GET /api/documents
    * Always paginates. Supports server-side filtering via query params.
@@ -298,6 +416,9 @@ export async function registerRoutes(
       const type = (req.query.type as string) || undefined;
       const dataSet = (req.query.dataSet as string) || undefined;
       const redacted = (req.query.redacted as string) || undefined;
+      // Percent of page area blacked out, averaged over the document's pages
+      const minRedactionPct = parseFloat(req.query.minRedaction as string);
+      const minRedaction = isNaN(minRedactionPct) ? undefined : Math.min(100, Math.max(0, minRedactionPct)) / 100;
       const mediaType = (req.query.mediaType as string) || undefined;
       const sort = (req.query.sort as string) || undefined;
 
@@ -308,6 +429,7 @@ export async function registerRoutes(
         type,
         dataSet,
         redacted,
+        minRedaction,
         mediaType,
         sort,
       });
@@ -370,6 +492,95 @@ export async function registerRoutes(
     }
   });
 
+  // Extracted text per page, for the page-text view and character-range annotations
+  app.get("/api/documents/:id/pages", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const pages = await storage.getDocumentPages(id);
+      res.set("Cache-Control", "public, max-age=3600");
+      res.json(pages);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch document pages" });
+    }
+  });
+
+  // Parsed email threads for the email reader; empty when the document holds no emails
+  app.get("/api/documents/:id/emails", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const threads = await storage.getDocumentEmailThreads(id);
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(threads);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch document emails" });
+    }
+  });
+
+  // Sheets of spreadsheet/CSV documents; empty for everything else
+  app.get("/api/documents/:id/tables", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const tables = await storage.getDocumentTables(id);
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(tables);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch document tables" });
+    }
+  });
+
+  app.get("/api/documents/:id/tables/:tableId/rows", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const tableId = parseInt(req.params.tableId);
+      if (isNaN(id) || isNaN(tableId)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const parsed = parseTableRowsQuery(req.query as Record<string, unknown>);
+      if (!parsed.ok) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const result = await storage.getDocumentTableRows(id, tableId, parsed.options);
+      if (!result) {
+        return res.status(404).json({ error: "Table not found" });
+      }
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch table rows" });
+    }
+  });
+
+  // One table as CSV, e.g. a ledger detected on a single PDF page
+  app.get("/api/documents/:id/tables/:tableId/csv", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const tableId = parseInt(req.params.tableId);
+      if (isNaN(id) || isNaN(tableId)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const result = await storage.getDocumentTableCells(id, tableId);
+      if (!result) {
+        return res.status(404).json({ error: "Table not found" });
+      }
+      const lines = [result.table.columns, ...result.rows].map((cells) => cells.map(escapeCsvField).join(","));
+      const filename = `document-${id}-${result.table.name.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase() || "table"}.csv`;
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename=${filename}`);
+      res.send(lines.join("\n"));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to export table" });
+    }
+  });
+
   // Return a presigned R2 URL for direct browser access (iframe, img, video tags)
   app.get("/api/documents/:id/content-url", async (req, res) => {
     try {
@@ -799,9 +1010,14 @@ export async function registerRoutes(
       const yearFrom = !isNaN(rawFrom) ? String(rawFrom) : undefined;
       const rawTo = parseInt(req.query.yearTo as string);
       const yearTo = !isNaN(rawTo) ? String(rawTo) : undefined;
+      const dateFrom = (req.query.dateFrom as string) || undefined;
+      const dateTo = (req.query.dateTo as string) || undefined;
+      if ((dateFrom && !parseDateBound(dateFrom)) || (dateTo && !parseDateBound(dateTo))) {
+        return res.status(400).json({ error: "dateFrom and dateTo must be YYYY, YYYY-MM or YYYY-MM-DD" });
+      }
       const significance = req.query.significance ? parseInt(req.query.significance as string) : undefined;
 
-      const result = await storage.getTimelineFiltered({ page, limit, category, yearFrom, yearTo, significance });
+      const result = await storage.getTimelineFiltered({ page, limit, category, yearFrom, yearTo, dateFrom, dateTo, significance });
       res.set("Cache-Control", "public, max-age=300");
       res.json(result);
     } catch (error) {
@@ -810,6 +1026,23 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/timeline/:id/sources", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const result = await storage.getTimelineEventSources(id);
+      if (!result) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch event sources" });
+    }
+  });
+
   app.get("/api/network", async (_req, res) => {
     try {
       const data = await storage.getNetworkData();
@@ -820,148 +1053,483 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/search", async (req, res) => {
+  app.get("/api/network/path", async (req, res) => {
     try {
-      const query = (req.query.q as string) || "";
-      if (query.length < 2) {
-        return res.json({ persons: [], documents: [], events: [] });
+      const parsed = parsePathQuery(req.query as Record<string, unknown>);
+      if (!parsed.ok) {
+        return res.status(400).json({ error: parsed.error });
       }
-
-      // Typesense-first: use Typesense for document search, PostgreSQL for persons/events
-      if (isTypesenseConfigured()) {
-        try {
-          const results = await storage.searchWithTypesense(query);
-          res.set("Cache-Control", "public, max-age=60");
-          return res.json(results);
-        } catch (err) {
-          console.warn("Typesense search failed, falling back to PostgreSQL:", err);
-        }
+      const result = await storage.getNetworkPaths(parsed.from, parsed.to, parsed.options);
+      if (!result) {
+        return res.status(404).json({ error: "Person not found" });
       }
-
-      const results = await storage.search(query);
-      res.set("Cache-Control", "public, max-age=60");
-      res.json(results);
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(result);
     } catch (error) {
-      res.status(500).json({ error: "Failed to search" });
+      res.status(500).json({ error: "Failed to find network paths" });
     }
   });
 
-  app.get("/api/search/pages", async (req, res) => {
+  app.get("/api/network/ego/:personId", async (req, res) => {
     try {
-      const query = (req.query.q as string) || "";
-      if (query.length < 2) {
-        return res.json({ results: [], total: 0, page: 1, totalPages: 0 });
+      const personId = parseInt(req.params.personId);
+      if (isNaN(personId)) {
+        return res.status(400).json({ error: "Invalid ID" });
       }
-      const page = Math.max(1, parseInt(req.query.page as string) || 1);
-      const limit = Math.min(
-        50,
-        Math.max(1, parseInt(req.query.limit as string) || 20),
-      );
-
-      // Typesense-first with PostgreSQL fallback
-      if (isTypesenseConfigured()) {
-        try {
-          const results = await typesenseSearchPages(query, page, limit, {
-            filterR2: isR2Configured(),
-            documentType: (req.query.documentType as string) || undefined,
-            dataSet: (req.query.dataSet as string) || undefined,
-          });
-          res.set("Cache-Control", "public, max-age=60");
-          return res.json(results);
-        } catch (err) {
-          console.warn("Typesense search/pages failed, falling back to PostgreSQL:", err);
-        }
+      const parsed = parseEgoQuery(req.query as Record<string, unknown>);
+      if (!parsed.ok) {
+        return res.status(400).json({ error: parsed.error });
       }
-
-      const results = await storage.searchPages(query, page, limit);
-      res.set("Cache-Control", "public, max-age=60");
-      res.json(results);
-    } catch (error: any) {
-      console.error("search/pages error:", error);
-      res.status(500).json({ error: "Failed to search pages" });
-    }
-  });
-
-  // Lightweight instant search for type-ahead (Typesense only)
-  app.get("/api/search/instant", async (req, res) => {
-    try {
-      const query = (req.query.q as string) || "";
-      if (query.length < 2 || !isTypesenseConfigured()) {
-        return res.json({ results: [], total: 0, page: 1, totalPages: 0 });
+      const result = await storage.getEgoNetwork(personId, parsed.options);
+      if (!result) {
+        return res.status(404).json({ error: "Person not found" });
       }
-      const results = await typesenseSearchInstant(query, 8);
-      res.set("Cache-Control", "public, max-age=30");
-      res.json(results);
-    } catch (error: any) {
-      console.warn("Instant search error:", error);
-      res.json({ results: [], total: 0, page: 1, totalPages: 0 });
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch ego network" });
     }
   });
 
-  app.get("/api/pipeline/jobs", async (req, res) => {
+  app.get("/api/network/analytics", async (req, res) => {
     try {
-      const status = req.query.status as string | undefined;
-      const jobs = await storage.getPipelineJobs(status);
-      res.json(jobs);
+      const graph = req.query.includeEntities === "true" ? "combined" : "persons";
+      const data = await storage.getNetworkAnalytics(graph);
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(data);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch pipeline jobs" });
+      res.status(500).json({ error: "Failed to fetch network analytics" });
     }
   });
 
-  app.get("/api/pipeline/stats", async (_req, res) => {
+  app.get("/api/network/communications", async (req, res) => {
     try {
-      const stats = await storage.getPipelineStats();
-      res.json(stats);
+      const parsed = parseCommunicationsQuery(req.query as Record<string, unknown>);
+      if (!parsed.ok) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const data = await storage.getCommunicationGraph(parsed.options);
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(data);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch pipeline stats" });
+      res.status(500).json({ error: "Failed to fetch communication graph" });
     }
   });
 
-  app.get("/api/budget", async (_req, res) => {
+  app.get("/api/network/communications/:personId/:otherPersonId", async (req, res) => {
     try {
-      const summary = await storage.getBudgetSummary();
-      res.json(summary);
+      const personId = parseInt(req.params.personId);
+      const otherPersonId = parseInt(req.params.otherPersonId);
+      if (isNaN(personId) || isNaN(otherPersonId)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string || "50") || 50));
+      const includeCc = req.query.includeCc !== "false" && req.query.includeCc !== "0";
+      const result = await storage.getCommunicationTimeline(personId, otherPersonId, { page, limit, includeCc });
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(result);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch budget summary" });
+      res.status(500).json({ error: "Failed to fetch communication timeline" });
     }
   });
 
-  // AI Analysis routes
-  app.get("/api/ai-analyses/aggregate", async (_req, res) => {
+  /**
+   * GET /api/flights
+   * Flight legs in date order. Optional ?personId=, ?aircraftId=, ?airport=, ?dateFrom=, ?dateTo=.
+   * Returns { data: FlightDetail[], total, page, totalPages }
+   */
+  app.get("/api/flights", async (req, res) => {
     try {
-      const aggregate = await storage.getAIAnalysisAggregate();
-      res.json(aggregate);
+      const parsed = parseFlightsQuery(req.query as Record<string, unknown>);
+      if (!parsed.ok) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const result = await storage.getFlights(parsed.options);
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(result);
     } catch (error) {
-      console.error("GET /api/ai-analyses/aggregate failed:", error);
-      res.status(500).json({ error: "Failed to fetch AI analysis aggregate" });
+      res.status(500).json({ error: "Failed to fetch flights" });
     }
   });
 
-  app.get("/api/ai-analyses", async (req, res) => {
+  /**
+   * GET /api/flights/co-passengers/:personId
+   * Persons who shared a flight with the person, most shared flights first.
+   */
+  app.get("/api/flights/co-passengers/:personId", async (req, res) => {
     try {
-      const page = Math.max(1, parseInt(req.query.page as string) || 1);
-      const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string || "50") || 50));
-      const search = (req.query.search as string) || undefined;
-      const documentType = (req.query.documentType as string) || undefined;
-      const dataSet = (req.query.dataSet as string) || undefined;
-
-      const { data, total } = await storage.getAIAnalysisList({ page, limit, search, documentType, dataSet });
-
-      res.json({
-        analyses: data,
-        total,
-        page,
-        totalPages: Math.ceil(total / limit),
-      });
+      const personId = parseInt(req.params.personId);
+      if (isNaN(personId)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string || "25") || 25));
+      const data = await storage.getCoPassengers(personId, { limit });
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(data);
     } catch (error) {
-      console.error("GET /api/ai-analyses failed:", error);
-      res.status(500).json({ error: "Failed to fetch AI analyses" });
+      res.status(500).json({ error: "Failed to fetch co-passengers" });
     }
   });
 
-  app.get("/api/ai-analyses/:fileName", async (req, res) => {
+  app.get("/api/flights/:id", async (req, res) => {
     try {
-      const { fileName } = req.params;
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const flight = await storage.getFlight(id);
+      if (!flight) {
+        return res.status(404).json({ error: "Flight not found" });
+      }
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(flight);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch flight" });
+    }
+  });
+
+  /**
+   * GET /api/locations
+   * Places on the map with their document counts. Optional ?personId=, ?yearFrom=, ?yearTo=, ?kind=.
+   * Returns LocationDensity[], most documents first.
+   */
+  app.get("/api/locations", async (req, res) => {
+    try {
+      const parsed = parseLocationsQuery(req.query as Record<string, unknown>);
+      if (!parsed.ok) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const data = await storage.getLocations(parsed.options);
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(data);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch locations" });
+    }
+  });
+
+  app.get("/api/locations/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const location = await storage.getLocation(id);
+      if (!location) {
+        return res.status(404).json({ error: "Location not found" });
+      }
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(location);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch location" });
+    }
+  });
+
+  /**
+   * GET /api/locations/:id/documents
+   * Documents that mention the place, with the same ?personId=, ?yearFrom=, ?yearTo= filters as the map.
+   */
+  app.get("/api/locations/:id/documents", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const parsed = parseLocationsQuery(req.query as Record<string, unknown>);
+      if (!parsed.ok) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(
+        100,
+        Math.max(1, parseInt((req.query.limit as string) || "50") || 50),
+      );
+      const result = await storage.getLocationDocuments(id, page, limit, parsed.options);
+      res.set("Cache-Control", "public, max-age=300");
+      res.json({ ...result, data: result.data.map(toPublicDocument) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch location documents" });
+    }
+  });
+
+  app.get("/api/network/entities", async (_req, res) => {
+    try {
+      const data = await storage.getEntityNetworkData();
+      res.set("Cache-Control", "public, max-age=300");
+      res.json(data);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch entity network data" });
+    }
+  });
+
+  app.get("/api/search", async (req, res) => {
+    try {
+      const query = (req.query.q as string) || "";
+      if (query.length < 2) {
+        return res.json({ persons: [], documents: [], events: [] });
+      }
+
+      // Typesense-first: use Typesense for document search, PostgreSQL for persons/events
+      if (isTypesenseConfigured()) {
+        try {
+          const results = await storage.searchWithTypesense(query);
+          res.set("Cache-Control", "public, max-age=60");
+          return res.json(results);
+        } catch (err) {
+          console.warn("Typesense search failed, falling back to PostgreSQL:", err);
+        }
+      }
+
+      const results = await storage.search(query);
+      res.set("Cache-Control", "public, max-age=60");
+      res.json(results);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to search" });
+    }
+  });
+
+  app.get("/api/search/pages", async (req, res) => {
+    try {
+      const query = (req.query.q as string) || "";
+      if (query.length < 2) {
+        return res.json({ results: [], total: 0, page: 1, totalPages: 0 });
+      }
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(
+        50,
+        Math.max(1, parseInt(req.query.limit as string) || 20),
+      );
+      const mode = parseSearchMode(req.query.mode);
+      if (!mode) {
+        return res.status(400).json({ error: "mode must be keyword, semantic or hybrid" });
+      }
+
+      // Page embeddings live only in Typesense, so there is no PostgreSQL fallback for these modes
+      if (mode !== "keyword") {
+        if (!isTypesenseConfigured()) {
+          return res.status(503).json({ error: "Semantic search is not available" });
+        }
+        const search = mode === "semantic" ? typesenseSemanticSearchPages : typesenseHybridSearchPages;
+        const results = await search(query, page, limit, {
+          filterR2: isR2Configured(),
+          documentType: (req.query.documentType as string) || undefined,
+          dataSet: (req.query.dataSet as string) || undefined,
+        });
+        res.set("Cache-Control", "public, max-age=60");
+        return res.json(results);
+      }
+
+      // Typesense-first with PostgreSQL fallback
+      if (isTypesenseConfigured()) {
+        try {
+          const results = await typesenseSearchPages(query, page, limit, {
+            filterR2: isR2Configured(),
+            documentType: (req.query.documentType as string) || undefined,
+            dataSet: (req.query.dataSet as string) || undefined,
+          });
+          res.set("Cache-Control", "public, max-age=60");
+          return res.json(results);
+        } catch (err) {
+          console.warn("Typesense search/pages failed, falling back to PostgreSQL:", err);
+        }
+      }
+
+      const results = await storage.searchPages(query, page, limit);
+      res.set("Cache-Control", "public, max-age=60");
+      res.json(results);
+    } catch (error: any) {
+      console.error("search/pages error:", error);
+      res.status(500).json({ error: "Failed to search pages" });
+    }
+  });
+
+  // Rows of any document's tables whose cell under a matching column contains the query
+  app.get("/api/search/tables", async (req, res) => {
+    try {
+      const parsed = parseTableSearchQuery(req.query as Record<string, unknown>);
+      if (!parsed.ok) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const results = await storage.searchDocumentTables(parsed.options);
+      res.set("Cache-Control", "public, max-age=60");
+      res.json(results);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to search tables" });
+    }
+  });
+
+  // Lightweight instant search for type-ahead (Typesense only)
+  app.get("/api/search/instant", async (req, res) => {
+    try {
+      const query = (req.query.q as string) || "";
+      if (query.length < 2 || !isTypesenseConfigured()) {
+        return res.json({ results: [], total: 0, page: 1, totalPages: 0 });
+      }
+      const results = await typesenseSearchInstant(query, 8);
+      res.set("Cache-Control", "public, max-age=30");
+      res.json(results);
+    } catch (error: any) {
+      console.warn("Instant search error:", error);
+      res.json({ results: [], total: 0, page: 1, totalPages: 0 });
+    }
+  });
+
+  app.get("/api/pipeline/jobs", requireAdmin, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const stage = req.query.stage as string | undefined;
+      const runId = req.query.runId !== undefined ? parseInt(req.query.runId as string, 10) : undefined;
+      if (runId !== undefined && isNaN(runId)) {
+        return res.status(400).json({ error: "Invalid run ID" });
+      }
+      const limit = Math.min(1000, Math.max(1, parseInt(req.query.limit as string) || 500));
+      const jobs = await storage.getPipelineJobs({ status, stage, runId, limit });
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch pipeline jobs" });
+    }
+  });
+
+  // Durable runs of scripts/pipeline/run-pipeline.ts with per-stage job progress
+  app.get("/api/pipeline/runs", requireAdmin, async (req, res) => {
+    try {
+      const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+      const runs = await storage.getPipelineRuns(limit);
+      res.json(runs);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch pipeline runs" });
+    }
+  });
+
+  app.get("/api/pipeline/runs/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const run = await storage.getPipelineRunProgress(id);
+      if (!run) {
+        return res.status(404).json({ error: "Pipeline run not found" });
+      }
+      res.json(run);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch pipeline run" });
+    }
+  });
+
+  app.get("/api/pipeline/stats", requireAdmin, async (_req, res) => {
+    try {
+      const stats = await storage.getPipelineStats();
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch pipeline stats" });
+    }
+  });
+
+  // Admin dashboard: throughput per stage, retries and priorities
+  app.get("/api/pipeline/throughput", requireAdmin, async (req, res) => {
+    try {
+      const hours = Math.min(168, Math.max(1, parseInt(req.query.hours as string) || 24));
+      const throughput = await storage.getPipelineThroughput(hours);
+      res.json(throughput);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch pipeline throughput" });
+    }
+  });
+
+  app.post("/api/pipeline/jobs/retry", requireAdmin, async (req, res) => {
+    try {
+      const { ids } = retryPipelineJobsSchema.parse(req.body);
+      const retried = await storage.retryPipelineJobs(ids);
+      res.json({ retried });
+    } catch (error: any) {
+      if (error?.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid retry request", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to retry pipeline jobs" });
+    }
+  });
+
+  app.patch("/api/pipeline/jobs/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const { priority } = updatePipelineJobSchema.parse(req.body);
+      const job = await storage.setPipelineJobPriority(id, priority);
+      if (!job) {
+        return res.status(404).json({ error: "Pipeline job not found" });
+      }
+      res.json(job);
+    } catch (error: any) {
+      if (error?.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid pipeline job update", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update pipeline job" });
+    }
+  });
+
+  // Spend to date, plus the headroom left under each budget policy
+  app.get("/api/budget", async (_req, res) => {
+    try {
+      const [summary, policies] = await Promise.all([
+        storage.getBudgetSummary(),
+        getBudgetPolicyStatuses(),
+      ]);
+      res.json({ ...summary, policies });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch budget summary" });
+    }
+  });
+
+  // AI spend by day (last 30) or month (last 12), per model and job type
+  app.get("/api/budget/spend", requireAdmin, async (req, res) => {
+    try {
+      const period = req.query.period === "month" ? "month" : "day";
+      const spend = await storage.getBudgetSpend(period, period === "month" ? 12 : 30);
+      res.json(spend);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch budget spend" });
+    }
+  });
+
+  // AI Analysis routes
+  app.get("/api/ai-analyses/aggregate", async (_req, res) => {
+    try {
+      const aggregate = await storage.getAIAnalysisAggregate();
+      res.json(aggregate);
+    } catch (error) {
+      console.error("GET /api/ai-analyses/aggregate failed:", error);
+      res.status(500).json({ error: "Failed to fetch AI analysis aggregate" });
+    }
+  });
+
+  app.get("/api/ai-analyses", async (req, res) => {
+    try {
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string || "50") || 50));
+      const search = (req.query.search as string) || undefined;
+      const documentType = (req.query.documentType as string) || undefined;
+      const dataSet = (req.query.dataSet as string) || undefined;
+
+      const { data, total } = await storage.getAIAnalysisList({ page, limit, search, documentType, dataSet });
+
+      res.json({
+        analyses: data,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+      });
+    } catch (error) {
+      console.error("GET /api/ai-analyses failed:", error);
+      res.status(500).json({ error: "Failed to fetch AI analyses" });
+    }
+  });
+
+  app.get("/api/ai-analyses/:fileName", async (req, res) => {
+    try {
+      const { fileName } = req.params;
       if (
         fileName.includes("..") ||
         fileName.includes("/") ||
@@ -983,11 +1551,41 @@ export async function registerRoutes(
     }
   });
 
-  // Bookmark routes
-  app.get("/api/bookmarks", async (req, res) => {
+  app.get("/api/ai-analyses/:fileName/versions", async (req, res) => {
     try {
-      const userId = (req.query.userId as string) || "anonymous";
-      const result = await storage.getBookmarks(userId);
+      const { fileName } = req.params;
+      if (
+        fileName.includes("..") ||
+        fileName.includes("/") ||
+        fileName.includes("\\")
+      ) {
+        return res.status(400).json({ error: "Invalid file name" });
+      }
+      const parsed = parseVersionsQuery(req.query as Record<string, unknown>);
+      if (!parsed.ok) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const { currentVersion, versions } = await storage.getAIAnalysisVersions(fileName);
+      if (versions.length === 0) {
+        return res.status(404).json({ error: "Analysis not found" });
+      }
+      res.json(buildAnalysisVersions(versions[0].fileName, currentVersion, versions, parsed.options));
+    } catch (error) {
+      if (error instanceof UnknownVersionError) {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error(
+        `GET /api/ai-analyses/${req.params.fileName}/versions failed:`,
+        error,
+      );
+      res.status(500).json({ error: "Failed to fetch AI analysis versions" });
+    }
+  });
+
+  // Bookmark routes — scoped to the logged-in user
+  app.get("/api/bookmarks", requireAuth, async (req, res) => {
+    try {
+      const result = await storage.getBookmarks(req.user!.id);
       res.set("Cache-Control", "no-store");
       res.json(result);
     } catch (error) {
@@ -995,9 +1593,9 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/bookmarks", async (req, res) => {
+  app.post("/api/bookmarks", requireAuth, async (req, res) => {
     try {
-      const { entityType, entityId, searchQuery, label, userId } = req.body;
+      const { entityType, entityId, searchQuery, label } = req.body;
       if (
         !entityType ||
         !["person", "document", "search"].includes(entityType)
@@ -1014,7 +1612,7 @@ export async function registerRoutes(
         entityId: entityId ?? null,
         searchQuery: searchQuery ?? null,
         label: label ?? null,
-        userId: userId || "anonymous",
+        userId: req.user!.id,
       });
 
       const bookmark = await storage.createBookmark(parsed);
@@ -1029,13 +1627,13 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/bookmarks/:id", async (req, res) => {
+  app.delete("/api/bookmarks/:id", requireAuth, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
+      const id = parseInt(req.params.id as string);
       if (isNaN(id)) {
         return res.status(400).json({ error: "Invalid ID" });
       }
-      const deleted = await storage.deleteBookmark(id);
+      const deleted = await storage.deleteBookmark(id, req.user!.id);
       if (!deleted) {
         return res.status(404).json({ error: "Bookmark not found" });
       }
@@ -1045,6 +1643,34 @@ export async function registerRoutes(
     }
   });
 
+  // Saved-search alerts (recorded by the pipeline, see server/search-alerts.ts)
+  app.get("/api/search-alerts", requireAuth, async (req, res) => {
+    try {
+      const unreadOnly = req.query.unread === "true";
+      const [alerts, unreadCount] = await Promise.all([
+        storage.getSearchAlerts(req.user!.id, { unreadOnly }),
+        storage.getUnreadSearchAlertCount(req.user!.id),
+      ]);
+      res.set("Cache-Control", "no-store");
+      res.json({ alerts, unreadCount });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch search alerts" });
+    }
+  });
+
+  app.post("/api/search-alerts/read", requireAuth, async (req, res) => {
+    try {
+      const { ids } = req.body ?? {};
+      if (ids !== undefined && (!Array.isArray(ids) || !ids.every((v) => Number.isInteger(v) && v > 0))) {
+        return res.status(400).json({ error: "ids must be an array of alert IDs" });
+      }
+      const updated = await storage.markSearchAlertsRead(req.user!.id, ids);
+      res.json({ updated });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update search alerts" });
+    }
+  });
+
   // Vote routes
   app.get("/api/votes/counts", async (req, res) => {
     try {
@@ -1065,13 +1691,9 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/votes", async (req, res) => {
+  app.get("/api/votes", requireAuth, async (req, res) => {
     try {
-      const userId = req.query.userId as string;
-      if (!userId) {
-        return res.status(400).json({ error: "userId is required" });
-      }
-      const result = await storage.getVotes(userId);
+      const result = await storage.getVotes(req.user!.id);
       res.set("Cache-Control", "no-store");
       res.json(result);
     } catch (error) {
@@ -1079,15 +1701,13 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/votes", async (req, res) => {
+  app.post("/api/votes", requireAuth, async (req, res) => {
     try {
-      const { documentId, userId } = req.body;
-      if (!documentId || !userId) {
-        return res
-          .status(400)
-          .json({ error: "documentId and userId are required" });
+      const { documentId } = req.body;
+      if (!documentId) {
+        return res.status(400).json({ error: "documentId is required" });
       }
-      const parsed = insertDocumentVoteSchema.parse({ documentId, userId });
+      const parsed = insertDocumentVoteSchema.parse({ documentId, userId: req.user!.id });
       const vote = await storage.createVote(parsed);
       res.status(201).json(vote);
     } catch (error: any) {
@@ -1100,13 +1720,13 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/votes/:id", async (req, res) => {
+  app.delete("/api/votes/:id", requireAuth, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
+      const id = parseInt(req.params.id as string);
       if (isNaN(id)) {
         return res.status(400).json({ error: "Invalid ID" });
       }
-      const deleted = await storage.deleteVote(id);
+      const deleted = await storage.deleteVote(id, req.user!.id);
       if (!deleted) {
         return res.status(404).json({ error: "Vote not found" });
       }
@@ -1136,13 +1756,9 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/person-votes", async (req, res) => {
+  app.get("/api/person-votes", requireAuth, async (req, res) => {
     try {
-      const userId = req.query.userId as string;
-      if (!userId) {
-        return res.status(400).json({ error: "userId is required" });
-      }
-      const result = await storage.getPersonVotes(userId);
+      const result = await storage.getPersonVotes(req.user!.id);
       res.set("Cache-Control", "no-store");
       res.json(result);
     } catch (error) {
@@ -1150,15 +1766,13 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/person-votes", async (req, res) => {
+  app.post("/api/person-votes", requireAuth, async (req, res) => {
     try {
-      const { personId, userId } = req.body;
-      if (!personId || !userId) {
-        return res
-          .status(400)
-          .json({ error: "personId and userId are required" });
+      const { personId } = req.body;
+      if (!personId) {
+        return res.status(400).json({ error: "personId is required" });
       }
-      const parsed = insertPersonVoteSchema.parse({ personId, userId });
+      const parsed = insertPersonVoteSchema.parse({ personId, userId: req.user!.id });
       const vote = await storage.createPersonVote(parsed);
       res.status(201).json(vote);
     } catch (error: any) {
@@ -1171,13 +1785,13 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/person-votes/:id", async (req, res) => {
+  app.delete("/api/person-votes/:id", requireAuth, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
+      const id = parseInt(req.params.id as string);
       if (isNaN(id)) {
         return res.status(400).json({ error: "Invalid ID" });
       }
-      const deleted = await storage.deletePersonVote(id);
+      const deleted = await storage.deletePersonVote(id, req.user!.id);
       if (!deleted) {
         return res.status(404).json({ error: "Vote not found" });
       }
@@ -1187,6 +1801,329 @@ export async function registerRoutes(
     }
   });
 
+  // Annotation routes — private to the logged-in user
+  app.get("/api/annotations", requireAuth, async (req, res) => {
+    try {
+      const documentId = req.query.documentId ? parseInt(req.query.documentId as string) : undefined;
+      if (documentId !== undefined && isNaN(documentId)) {
+        return res.status(400).json({ error: "Invalid documentId" });
+      }
+      const tag = (req.query.tag as string) || undefined;
+      const result = await storage.getAnnotations(req.user!.id, { documentId, tag });
+      res.set("Cache-Control", "no-store");
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch annotations" });
+    }
+  });
+
+  app.post("/api/annotations", requireAuth, async (req, res) => {
+    try {
+      const { documentId, pageNumber, charStart, charEnd, bbox, note, tags } = req.body;
+      const parsed = insertDocumentAnnotationSchema.parse({
+        documentId,
+        pageNumber,
+        charStart: charStart ?? null,
+        charEnd: charEnd ?? null,
+        bbox: bbox ?? null,
+        note: note ?? null,
+        tags: tags ?? [],
+        userId: req.user!.id,
+      });
+
+      const doc = await storage.getDocument(parsed.documentId);
+      if (!doc) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (doc.pageCount && parsed.pageNumber > doc.pageCount) {
+        return res.status(400).json({ error: `pageNumber must be between 1 and ${doc.pageCount}` });
+      }
+
+      // Character ranges index into the extracted page text; keep a copy of the
+      // highlighted passage so listings and exports don't need to re-read the page.
+      let quote: string | null = null;
+      if (parsed.charStart != null && parsed.charEnd != null) {
+        const page = await storage.getDocumentPage(parsed.documentId, parsed.pageNumber);
+        if (!page) {
+          return res.status(400).json({ error: "No extracted text for this page" });
+        }
+        if (parsed.charEnd > page.content.length) {
+          return res.status(400).json({ error: "Character range is outside the page text" });
+        }
+        quote = page.content.slice(parsed.charStart, parsed.charEnd);
+      }
+
+      const annotation = await storage.createAnnotation({ ...parsed, quote });
+      res.status(201).json(annotation);
+    } catch (error: any) {
+      if (error?.name === "ZodError") {
+        return res
+          .status(400)
+          .json({ error: "Invalid annotation data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create annotation" });
+    }
+  });
+
+  app.patch("/api/annotations/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const parsed = updateDocumentAnnotationSchema.parse(req.body);
+      const updated = await storage.updateAnnotation(id, req.user!.id, parsed);
+      if (!updated) {
+        return res.status(404).json({ error: "Annotation not found" });
+      }
+      res.json(updated);
+    } catch (error: any) {
+      if (error?.name === "ZodError") {
+        return res
+          .status(400)
+          .json({ error: "Invalid annotation data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update annotation" });
+    }
+  });
+
+  app.delete("/api/annotations/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const deleted = await storage.deleteAnnotation(id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Annotation not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete annotation" });
+    }
+  });
+
+  // Workspace routes — every workspace belongs to the session user
+  app.get("/api/workspaces", requireAuth, async (req, res) => {
+    try {
+      const result = await storage.getWorkspaces(req.user!.id);
+      res.set("Cache-Control", "no-store");
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch workspaces" });
+    }
+  });
+
+  app.post("/api/workspaces", requireAuth, async (req, res) => {
+    try {
+      const { name, description } = req.body;
+      const parsed = insertWorkspaceSchema.parse({
+        name,
+        description: description || null,
+        userId: req.user!.id,
+      });
+      const workspace = await storage.createWorkspace(parsed);
+      res.status(201).json(workspace);
+    } catch (error: any) {
+      if (error?.name === "ZodError") {
+        return res
+          .status(400)
+          .json({ error: "Invalid workspace data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create workspace" });
+    }
+  });
+
+  app.get("/api/workspaces/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const workspace = await storage.getWorkspaceDetail(id, req.user!.id);
+      if (!workspace) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      res.set("Cache-Control", "no-store");
+      res.json(workspace);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch workspace" });
+    }
+  });
+
+  app.patch("/api/workspaces/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const parsed = updateWorkspaceSchema.parse(req.body);
+      const updated = await storage.updateWorkspace(id, req.user!.id, parsed);
+      if (!updated) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      res.json(updated);
+    } catch (error: any) {
+      if (error?.name === "ZodError") {
+        return res
+          .status(400)
+          .json({ error: "Invalid workspace data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update workspace" });
+    }
+  });
+
+  app.delete("/api/workspaces/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const deleted = await storage.deleteWorkspace(id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete workspace" });
+    }
+  });
+
+  app.get("/api/workspaces/:id/visualization", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const workspace = await storage.getWorkspace(id, req.user!.id);
+      if (!workspace) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      const result = await storage.getWorkspaceVisualization(id);
+      res.set("Cache-Control", "no-store");
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch workspace visualization" });
+    }
+  });
+
+  app.post("/api/workspaces/:id/items", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const { itemType, entityId, searchQuery, noteText, comment } = req.body;
+      const parsed = insertWorkspaceItemSchema.parse({
+        workspaceId: id,
+        itemType,
+        entityId: entityId ?? null,
+        searchQuery: searchQuery ?? null,
+        noteText: noteText ?? null,
+        comment: comment || null,
+      });
+
+      const workspace = await storage.getWorkspace(id, req.user!.id);
+      if (!workspace) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+
+      if (parsed.itemType === "search" || parsed.itemType === "note") {
+        // Only entity items carry an entityId; drop a stray one so it can't collide
+        parsed.entityId = null;
+      } else {
+        const entityId = parsed.entityId!;
+        const target =
+          parsed.itemType === "person" ? await storage.getPerson(entityId)
+          : parsed.itemType === "document" ? await storage.getDocument(entityId)
+          : await storage.getTimelineEvent(entityId);
+        if (!target) {
+          const label = parsed.itemType === "event" ? "Event" : parsed.itemType === "person" ? "Person" : "Document";
+          return res.status(404).json({ error: `${label} not found` });
+        }
+      }
+
+      const item = await storage.addWorkspaceItem(parsed);
+      res.status(201).json(item);
+    } catch (error: any) {
+      if (error?.name === "ZodError") {
+        return res
+          .status(400)
+          .json({ error: "Invalid workspace item data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to add workspace item" });
+    }
+  });
+
+  app.put("/api/workspaces/:id/items/order", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const { itemIds } = req.body ?? {};
+      if (!Array.isArray(itemIds) || !itemIds.every((v) => Number.isInteger(v) && v > 0)) {
+        return res.status(400).json({ error: "itemIds must be an array of item IDs" });
+      }
+      const workspace = await storage.getWorkspace(id, req.user!.id);
+      if (!workspace) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      await storage.reorderWorkspaceItems(id, itemIds);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reorder workspace items" });
+    }
+  });
+
+  app.patch("/api/workspaces/:id/items/:itemId", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      const itemId = parseInt(req.params.itemId as string);
+      if (isNaN(id) || isNaN(itemId)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const parsed = updateWorkspaceItemSchema.parse(req.body);
+      const workspace = await storage.getWorkspace(id, req.user!.id);
+      if (!workspace) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      const updated = await storage.updateWorkspaceItem(id, itemId, parsed);
+      if (!updated) {
+        return res.status(404).json({ error: "Workspace item not found" });
+      }
+      res.json(updated);
+    } catch (error: any) {
+      if (error?.name === "ZodError") {
+        return res
+          .status(400)
+          .json({ error: "Invalid workspace item data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update workspace item" });
+    }
+  });
+
+  app.delete("/api/workspaces/:id/items/:itemId", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      const itemId = parseInt(req.params.itemId as string);
+      if (isNaN(id) || isNaN(itemId)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const workspace = await storage.getWorkspace(id, req.user!.id);
+      if (!workspace) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      const deleted = await storage.deleteWorkspaceItem(id, itemId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Workspace item not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete workspace item" });
+    }
+  });
+
   // Data export routes
   app.get("/api/export/persons", async (req, res) => {
     try {
@@ -1335,6 +2272,65 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/export/workspaces/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      const format = (req.query.format as string) || "json";
+      if (!["json", "csv", "obsidian"].includes(format)) {
+        return res.status(400).json({ error: "format must be json, csv or obsidian" });
+      }
+
+      const workspace = await storage.getWorkspaceDetail(id, req.user!.id);
+      if (!workspace) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+
+      if (format === "obsidian") {
+        return await writeWorkspaceVault(res, workspace);
+      }
+
+      if (format === "csv") {
+        const headers = ["position", "type", "id", "name_or_title", "detail", "comment"];
+        const rows = [headers.join(",")];
+        workspace.items.forEach((item, index) => {
+          const nameOrTitle =
+            item.person?.name ?? item.document?.title ?? item.event?.title ?? item.searchQuery ?? "";
+          const detail =
+            item.itemType === "note" ? item.noteText
+            : item.itemType === "event" ? item.event?.date
+            : item.person?.role ?? item.document?.documentType ?? "";
+          rows.push(
+            toCsvRow(headers, {
+              position: index + 1,
+              type: item.itemType,
+              id: item.entityId ?? "",
+              name_or_title: nameOrTitle,
+              detail,
+              comment: item.comment,
+            }),
+          );
+        });
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader("Content-Disposition", `attachment; filename=workspace-${id}.csv`);
+        return res.send(rows.join("\n"));
+      }
+
+      res.setHeader("Content-Type", "application/json");
+      res.setHeader("Content-Disposition", `attachment; filename=workspace-${id}.json`);
+      res.json(workspace);
+    } catch (error) {
+      console.error("Workspace export error:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to export workspace" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
   // Chat routes (Ask the Archive)
   registerChatRoutes(app);
 
@@ -0,0 +1,50 @@
+import { pool } from "./db";
+import { listenForNotifications } from "./pg-notify";
+import { storage } from "./storage";
+
+/**
+ * Saved-search alerts cross a process boundary: the pipeline (a separate CLI
+ * process) records alerts, then the web server pushes them over /ws. Postgres
+ * LISTEN/NOTIFY carries the "these users have new alerts" signal between them.
+ */
+export const SEARCH_ALERTS_CHANNEL = "search_alerts";
+
+// NOTIFY payloads are capped at 8000 bytes; 100 UUIDs stay well under that
+const USER_IDS_PER_NOTIFY = 100;
+
+/**
+ * Re-evaluate every saved search against document pages loaded since it was last
+ * checked, record alerts, and notify the web server. Returns the number of alerts.
+ */
+export async function runSearchAlerts(): Promise<number> {
+  const alerts = await storage.evaluateSearchAlerts();
+  if (alerts.length === 0) return 0;
+
+  const userIds = Array.from(new Set(alerts.map((a) => a.userId)));
+  for (let i = 0; i < userIds.length; i += USER_IDS_PER_NOTIFY) {
+    const payload = JSON.stringify({ userIds: userIds.slice(i, i + USER_IDS_PER_NOTIFY) });
+    await pool.query("SELECT pg_notify($1, $2)", [SEARCH_ALERTS_CHANNEL, payload]);
+  }
+  return alerts.length;
+}
+
+/** Extract the user IDs from a NOTIFY payload; malformed payloads yield none. */
+export function parseSearchAlertPayload(payload: string | undefined): string[] {
+  if (!payload) return [];
+  try {
+    const parsed = JSON.parse(payload);
+    return Array.isArray(parsed?.userIds)
+      ? parsed.userIds.filter((id: unknown): id is string => typeof id === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Call `onAlerts` with the user IDs of every alert notification. Returns a function that stops listening. */
+export function listenForSearchAlerts(onAlerts: (userIds: string[]) => void): () => void {
+  return listenForNotifications(SEARCH_ALERTS_CHANNEL, "Search alert", (payload) => {
+    const userIds = parseSearchAlertPayload(payload);
+    if (userIds.length > 0) onAlerts(userIds);
+  });
+}
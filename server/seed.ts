@@ -1,6 +1,7 @@
 import { db } from "./db";
 import { persons, documents, connections, personDocuments, timelineEvents } from "@shared/schema";
 import { sql } from "drizzle-orm";
+import { eventDateColumns, parseEventDate } from "./event-dates";
 
 export async function seedDatabase() {
   const [existingDocs] = await db.select({ count: sql<number>`count(*)::int` }).from(documents);
@@ -694,7 +695,8 @@ export async function seedDatabase() {
   ];
 
   for (const event of timelineData) {
-    await db.insert(timelineEvents).values(event);
+    const range = parseEventDate(event.date);
+    await db.insert(timelineEvents).values(range ? { ...event, ...eventDateColumns(range) } : event);
   }
 
   console.log("Database seeded successfully!");
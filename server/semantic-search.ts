@@ -0,0 +1,92 @@
+/**
+ * Semantic page search: pages are split into overlapping chunks that Typesense
+ * embeds with a local CPU model (server/typesense.ts, CHUNKS_SCHEMA), so a
+ * query like "payments to recruiters" finds pages that share no words with it.
+ * Hybrid mode merges keyword (BM25-style text match) and vector scores here.
+ */
+
+export const SEARCH_MODES = ["keyword", "semantic", "hybrid"] as const;
+export type SearchMode = typeof SEARCH_MODES[number];
+
+/** Characters per chunk: about 250 tokens, inside the embedding model's window */
+export const CHUNK_SIZE = 1000;
+export const CHUNK_OVERLAP = 200;
+/** Weight of the vector score in hybrid mode; the keyword score gets the rest */
+export const HYBRID_SEMANTIC_WEIGHT = 0.5;
+
+/** `mode` query parameter; missing means keyword, anything unknown is null. */
+export function parseSearchMode(raw: unknown): SearchMode | null {
+  if (raw === undefined || raw === "") return "keyword";
+  return SEARCH_MODES.includes(raw as SearchMode) ? raw as SearchMode : null;
+}
+
+/**
+ * Split page text into chunks of at most `size` characters that overlap by
+ * about `overlap`, breaking at whitespace so words stay whole. Blank pages
+ * give no chunks.
+ */
+export function chunkPageText(content: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): string[] {
+  const text = content.replace(/\s+/g, " ").trim();
+  if (!text) return [];
+  if (text.length <= size) return [text];
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      const space = text.lastIndexOf(" ", end);
+      if (space > start + size / 2) end = space;
+    }
+    chunks.push(text.slice(start, end).trim());
+    if (end >= text.length) break;
+    const next = text.indexOf(" ", Math.max(start + 1, end - overlap));
+    start = next === -1 || next >= end ? end : next + 1;
+  }
+  return chunks;
+}
+
+export interface ScoredPage<T> {
+  hit: T;
+  /** Keyword: raw text-match score. Semantic: cosine similarity, 0–1. */
+  score: number;
+}
+
+export interface HybridPage<T> {
+  hit: T;
+  score: number;
+  keywordScore: number;
+  semanticScore: number;
+}
+
+/**
+ * Merge keyword and vector results for the same query into one ranking.
+ * Keyword scores are scaled by the best keyword score so both sides run 0–1;
+ * a page found by only one side scores 0 on the other. The keyword hit is
+ * kept for display when both found the page, since it carries highlights.
+ */
+export function fuseHybridResults<T extends { documentId: number; pageNumber: number }>(
+  keyword: ScoredPage<T>[],
+  semantic: ScoredPage<T>[],
+  semanticWeight = HYBRID_SEMANTIC_WEIGHT,
+): HybridPage<T>[] {
+  const maxKeyword = Math.max(0, ...keyword.map((k) => k.score));
+  const byPage = new Map<string, HybridPage<T>>();
+  const key = (hit: T) => `${hit.documentId}:${hit.pageNumber}`;
+
+  for (const { hit, score } of keyword) {
+    byPage.set(key(hit), { hit, score: 0, keywordScore: maxKeyword > 0 ? score / maxKeyword : 0, semanticScore: 0 });
+  }
+  for (const { hit, score } of semantic) {
+    const existing = byPage.get(key(hit));
+    const similarity = Math.max(0, Math.min(1, score));
+    if (existing) existing.semanticScore = Math.max(existing.semanticScore, similarity);
+    else byPage.set(key(hit), { hit, score: 0, keywordScore: 0, semanticScore: similarity });
+  }
+
+  const merged = Array.from(byPage.values());
+  for (const page of merged) {
+    page.score = (1 - semanticWeight) * page.keywordScore + semanticWeight * page.semanticScore;
+  }
+  return merged.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,331 @@
+import { inflateRawSync } from "zlib";
+import * as cheerio from "cheerio";
+
+/** One sheet as a header row plus data rows; every cell is text, dates as ISO strings. */
+export interface ParsedTable {
+  /** Sheet name, or the file name for CSV/TSV */
+  name: string;
+  columns: string[];
+  /** Padded to columns.length */
+  rows: string[][];
+}
+
+export const SPREADSHEET_EXTENSIONS = new Set(["csv", "tsv", "xlsx", "ods", "xls"]);
+
+const DELIMITERS = [",", "\t", ";", "|"];
+// Empty repeated ODS cells/rows are expanded at most this far; trailing ones are trimmed anyway
+const MAX_REPEAT = 1024;
+// Built-in Excel number formats that display dates or times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+// --- Delimited text ---
+
+/** The delimiter that splits the first line into the most fields, ignoring quoted text. */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.replace(/"[^"]*"/g, "").split(/\r?\n/, 1)[0] ?? "";
+  let best = ",";
+  let bestCount = 0;
+  for (const d of DELIMITERS) {
+    const count = firstLine.split(d).length - 1;
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** RFC 4180 parsing: quoted fields may hold delimiters, newlines and doubled quotes. */
+export function parseDelimited(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^﻿/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// --- Grid → table ---
+
+/**
+ * Use the first non-empty row as the header and pad the rest to its width.
+ * Blank headers become "Column N" and repeated ones get a " (2)" suffix.
+ * Returns null when the grid has no content.
+ */
+export function gridToTable(name: string, grid: string[][]): ParsedTable | null {
+  const cleaned = grid
+    .map((row) => row.map((cell) => cell.trim()))
+    .filter((row) => row.some((cell) => cell !== ""));
+  if (cleaned.length === 0) return null;
+
+  const width = Math.max(...cleaned.map((row) => {
+    let end = row.length;
+    while (end > 0 && row[end - 1] === "") end--;
+    return end;
+  }));
+
+  const seen = new Map<string, number>();
+  const columns = Array.from({ length: width }, (_, i) => {
+    const base = cleaned[0][i] || `Column ${i + 1}`;
+    const count = (seen.get(base.toLowerCase()) ?? 0) + 1;
+    seen.set(base.toLowerCase(), count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+
+  const rows = cleaned.slice(1).map((row) =>
+    Array.from({ length: width }, (_, i) => row[i] ?? ""),
+  );
+  return { name, columns, rows };
+}
+
+// --- ZIP containers (xlsx, ods) ---
+
+/** Read the entries of a ZIP archive by name; only stored and deflated entries are supported. */
+export function readZip(buffer: Buffer): (name: string) => string | null {
+  // The end-of-central-directory record sits within the last 64 KB (plus its own 22 bytes)
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not a ZIP archive");
+
+  const entries = new Map<string, { method: number; size: number; offset: number }>();
+  let p = buffer.readUInt32LE(eocd + 16);
+  const count = buffer.readUInt16LE(eocd + 10);
+  for (let i = 0; i < count && buffer.readUInt32LE(p) === 0x02014b50; i++) {
+    const nameLength = buffer.readUInt16LE(p + 28);
+    const extraLength = buffer.readUInt16LE(p + 30);
+    const commentLength = buffer.readUInt16LE(p + 32);
+    entries.set(buffer.toString("utf-8", p + 46, p + 46 + nameLength), {
+      method: buffer.readUInt16LE(p + 10),
+      size: buffer.readUInt32LE(p + 20),
+      offset: buffer.readUInt32LE(p + 42),
+    });
+    p += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return (name) => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+    const local = entry.offset;
+    const start = local + 30 + buffer.readUInt16LE(local + 26) + buffer.readUInt16LE(local + 28);
+    const data = buffer.subarray(start, start + entry.size);
+    if (entry.method === 0) return data.toString("utf-8");
+    if (entry.method === 8) return inflateRawSync(data).toString("utf-8");
+    throw new Error(`Unsupported ZIP compression method ${entry.method} for ${name}`);
+  };
+}
+
+// --- XLSX ---
+
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "";
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+function isDateFormatCode(code: string): boolean {
+  // Ignore quoted literals, escaped characters and [colour]/[locale] sections
+  const bare = code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, "");
+  return /[dmyhs]/i.test(bare) && !/^general$/i.test(bare.trim());
+}
+
+/** Excel serial day number → "YYYY-MM-DD", with " HH:MM" when it carries a time. */
+export function excelSerialToIso(serial: number, date1904 = false): string {
+  // The 1900 system counts from 1899-12-30 to absorb Lotus's phantom 1900-02-29
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const iso = new Date(epoch + Math.round(serial * 86400) * 1000).toISOString();
+  return serial % 1 === 0 ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+}
+
+function resolveTarget(target: string): string {
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+function parseXlsx(read: (name: string) => string | null): ParsedTable[] {
+  const workbook = read("xl/workbook.xml");
+  if (!workbook) throw new Error("Missing xl/workbook.xml");
+  const $wb = cheerio.load(workbook, { xml: true });
+  const date1904 = ["1", "true"].includes($wb("workbookPr").attr("date1904") ?? "");
+
+  const rels = new Map<string, string>();
+  const $rels = cheerio.load(read("xl/_rels/workbook.xml.rels") ?? "", { xml: true });
+  $rels("Relationship").each((_, el) => {
+    rels.set($rels(el).attr("Id") ?? "", resolveTarget($rels(el).attr("Target") ?? ""));
+  });
+
+  const shared: string[] = [];
+  const sharedXml = read("xl/sharedStrings.xml");
+  if (sharedXml) {
+    const $ss = cheerio.load(sharedXml, { xml: true });
+    // Phonetic runs (rPh) are reading aids, not part of the text
+    $ss("si").each((_, si) => {
+      shared.push($ss(si).find("t").not("rPh t").map((__, t) => $ss(t).text()).get().join(""));
+    });
+  }
+
+  const dateStyles = new Set<number>();
+  const stylesXml = read("xl/styles.xml");
+  if (stylesXml) {
+    const $st = cheerio.load(stylesXml, { xml: true });
+    const customDateFormats = new Set<number>();
+    $st("numFmts numFmt").each((_, el) => {
+      if (isDateFormatCode($st(el).attr("formatCode") ?? "")) customDateFormats.add(Number($st(el).attr("numFmtId")));
+    });
+    $st("cellXfs xf").each((index, el) => {
+      const formatId = Number($st(el).attr("numFmtId") ?? 0);
+      if (DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index);
+    });
+  }
+
+  const tables: ParsedTable[] = [];
+  $wb("sheets sheet").each((_, sheetEl) => {
+    const name = $wb(sheetEl).attr("name") ?? `Sheet ${tables.length + 1}`;
+    const target = rels.get($wb(sheetEl).attr("r:id") ?? "");
+    const sheetXml = target ? read(target) : null;
+    if (!sheetXml) return;
+
+    const $s = cheerio.load(sheetXml, { xml: true });
+    const grid: string[][] = [];
+    $s("sheetData row").each((rowPosition, rowEl) => {
+      const rowNumber = Number($s(rowEl).attr("r") ?? rowPosition + 1);
+      const row: string[] = [];
+      $s(rowEl).children("c").each((cellPosition, cellEl) => {
+        const $c = $s(cellEl);
+        const ref = $c.attr("r");
+        const col = ref ? columnIndex(ref) : cellPosition;
+        const type = $c.attr("t");
+        const raw = $c.children("v").text();
+        let value: string;
+        if (type === "s") value = shared[Number(raw)] ?? "";
+        else if (type === "inlineStr") value = $c.find("is t").text();
+        else if (type === "b") value = raw === "1" ? "TRUE" : "FALSE";
+        else if (!type || type === "n") {
+          value = raw !== "" && dateStyles.has(Number($c.attr("s") ?? 0)) && !isNaN(Number(raw))
+            ? excelSerialToIso(Number(raw), date1904)
+            : raw;
+        } else value = raw;
+        while (row.length < col) row.push("");
+        row[col] = value;
+      });
+      grid[rowNumber - 1] = row;
+    });
+
+    const table = gridToTable(name, Array.from(grid, (row) => row ?? []));
+    if (table) tables.push(table);
+  });
+  return tables;
+}
+
+// --- ODS ---
+
+function repeatCount(raw: string | undefined, hasContent: boolean): number {
+  const n = Math.max(1, parseInt(raw ?? "1") || 1);
+  return hasContent ? n : Math.min(n, MAX_REPEAT);
+}
+
+function parseOds(read: (name: string) => string | null): ParsedTable[] {
+  const content = read("content.xml");
+  if (!content) throw new Error("Missing content.xml");
+  const $ = cheerio.load(content, { xml: true });
+
+  const tables: ParsedTable[] = [];
+  $("table\\:table").each((tableIndex, tableEl) => {
+    const name = $(tableEl).attr("table:name") ?? `Sheet ${tableIndex + 1}`;
+    const grid: string[][] = [];
+    $(tableEl).find("table\\:table-row").each((_, rowEl) => {
+      const row: string[] = [];
+      $(rowEl).children("table\\:table-cell, table\\:covered-table-cell").each((__, cellEl) => {
+        const $c = $(cellEl);
+        const type = $c.attr("office:value-type");
+        let value: string;
+        if (type === "date") value = ($c.attr("office:date-value") ?? "").replace(/T00:00:00$/, "").replace("T", " ");
+        else if (type === "boolean") value = $c.attr("office:boolean-value") === "true" ? "TRUE" : "FALSE";
+        else if (type === "float" || type === "percentage" || type === "currency") value = $c.attr("office:value") ?? "";
+        else value = $c.children("text\\:p").map((___, p) => $(p).text()).get().join("\n");
+        const count = repeatCount($c.attr("table:number-columns-repeated"), value !== "");
+        for (let i = 0; i < count; i++) row.push(value);
+      });
+      const count = repeatCount($(rowEl).attr("table:number-rows-repeated"), row.some((cell) => cell !== ""));
+      for (let i = 0; i < count; i++) grid.push(row);
+    });
+    const table = gridToTable(name, grid);
+    if (table) tables.push(table);
+  });
+  return tables;
+}
+
+// --- Entry point ---
+
+/**
+ * Parse a spreadsheet file into tables, one per sheet. Legacy binary .xls
+ * workbooks (OLE2 containers) are not supported; .xls files that are really
+ * CSV/TSV exports or renamed .xlsx files are read by their content.
+ */
+export function parseSpreadsheet(buffer: Buffer, fileName: string): ParsedTable[] {
+  const name = fileName.replace(/\.[^.]+$/, "");
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0xd0cf11e0) {
+    throw new Error("Binary .xls workbooks are not supported");
+  }
+  if (buffer.length >= 4 && buffer.readUInt32LE(0) === 0x04034b50) {
+    const read = readZip(buffer);
+    return read("xl/workbook.xml") !== null ? parseXlsx(read) : parseOds(read);
+  }
+
+  const text = buffer.toString("utf-8");
+  const delimiter = fileName.toLowerCase().endsWith(".tsv") ? "\t" : detectDelimiter(text);
+  const table = gridToTable(name, parseDelimited(text, delimiter));
+  return table ? [table] : [];
+}
+
+/**
+ * Render tables as page text for full-text search: each page carries the sheet
+ * name and header row, then up to `rowsPerPage` tab-separated rows. Pages are
+ * joined with blank lines by the caller, so cells never contain line breaks.
+ */
+export function renderTablePages(tables: ParsedTable[], rowsPerPage = 50): string[] {
+  const line = (cells: string[]) => cells.map((c) => c.replace(/\s*[\r\n]+\s*/g, " ")).join("\t");
+  const pages: string[] = [];
+  for (const table of tables) {
+    for (let start = 0; start < Math.max(1, table.rows.length); start += rowsPerPage) {
+      const rows = table.rows.slice(start, start + rowsPerPage);
+      pages.push([table.name, line(table.columns), ...rows.map(line)].join("\n"));
+    }
+  }
+  return pages;
+}
@@ -1,7 +1,10 @@
 import {
   persons, documents, documentPages, connections, personDocuments, timelineEvents,
-  pipelineJobs, budgetTracking, bookmarks, pageViews, documentVotes, personVotes, searchQueries,
-  aiAnalyses, aiAnalysisPersons,
+  pipelineJobs, budgetTracking, budgetPolicies, bookmarks, pageViews, documentVotes, personVotes, searchQueries,
+  aiAnalyses, aiAnalysisPersons, aiAnalysisVersions, entities, entityDocuments, entityConnections, users, documentAnnotations,
+  workspaces, workspaceItems, searchAlerts, networkMetrics, personMentions, pageRedactions,
+  emails, emailParticipants, documentTables, documentTableRows, flights, flightPassengers,
+  locations, locationDocuments, timelineEventSources, pipelineRuns,
   type Person, type InsertPerson,
   type Document, type InsertDocument,
   type Connection, type InsertConnection,
@@ -12,11 +15,40 @@ import {
   type DocumentVote, type InsertDocumentVote,
   type PersonVote, type InsertPersonVote,
   type AIAnalysisListItem, type AIAnalysisAggregate, type AIAnalysisDocument,
-  type AIAnalysisPerson, type AIAnalysisConnection, type AIAnalysisEvent,
+  type AIAnalysisPerson, type AIAnalysisConnection, type AIAnalysisEvent, type AIAnalysisVersion,
+  type Entity, type EntityConnectionDetail, type EntityNetworkData,
+  type User, type InsertUser,
+  type DocumentAnnotation, type InsertDocumentAnnotation, type UpdateDocumentAnnotation,
+  type DocumentAnnotationWithDocument,
+  type Workspace, type InsertWorkspace, type UpdateWorkspace, type WorkspaceSummary, type WorkspaceDetail,
+  type WorkspaceItem, type InsertWorkspaceItem, type UpdateWorkspaceItem, type WorkspaceItemDetail,
+  type WorkspaceVisualization,
+  type SearchAlert,
+  type NetworkPathResult, type EgoNetwork, type CommunicationGraph,
+  type NetworkAnalytics, type NetworkAnalyticsGraph, type NetworkNodeMetrics, type NetworkCommunity,
+  type PersonMentionDetail, type PageRedaction, type DocumentPageContent, type AnnotationBBox,
+  type Email, type EmailSummary, type EmailThread,
+  type DocumentTable, type DocumentTableRow, type DocumentTableSearchHit,
+  type FlightDetail, type CoPassenger,
+  type LocationDensity, type LocationDetail,
+  type TimelineEventSources, type TimelineEventSourceDetail,
+  type PipelineRun, type PipelineRunProgress, type PipelineStageProgress,
+  type PipelineThroughput, type BudgetSpendRow, type BudgetPolicyUsage,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, gt, ilike, or, sql, desc, asc, inArray, isNotNull, ne, type SQL } from "drizzle-orm";
+import { eq, and, gt, gte, lt, lte, ilike, or, sql, desc, asc, inArray, isNotNull, ne, getTableColumns, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { isR2Configured } from "./r2";
+import { findShortestPaths, type PathSearchOptions } from "./network-paths";
+import { computeNetworkAnalytics, type AnalyticsEdge } from "./network-analytics";
+import { buildEgoNetwork, type EgoNetworkOptions } from "./network-ego";
+import { buildCommunicationGraph, type CommunicationGraphOptions } from "./network-communications";
+import { mentionSnippet } from "./person-mentions";
+import type { TableRowsOptions, TableSearchOptions } from "./document-tables";
+import type { FlightListOptions } from "./flight-logs";
+import type { LocationMapOptions } from "./locations";
+import type { PipelineJobListOptions, PlannedJob } from "./pipeline-plan";
+import { parseDateBound } from "./event-dates";
 import { isTypesenseConfigured, typesenseDocumentSearch, typesenseSearchPages, typesenseSearchPersons } from "./typesense";
 
 /** Map raw SQL row (snake_case) to Document (camelCase) */
@@ -45,6 +77,8 @@ function mapRowToDocument(row: any): Document {
     mimeType: row.mime_type,
     extractedTextLength: row.extracted_text_length,
     aiCostCents: row.ai_cost_cents,
+    redactionCount: row.redaction_count,
+    redactionDensity: row.redaction_density,
   };
 }
 
@@ -52,13 +86,36 @@ export interface IStorage {
   getPersons(): Promise<Person[]>;
   getPerson(id: number): Promise<Person | undefined>;
   getPersonWithDetails(id: number): Promise<any>;
+  getPersonMentions(personId: number, page: number, limit: number): Promise<{ data: PersonMentionDetail[]; total: number; page: number; totalPages: number }>;
+  getPersonMentionPages(personIds: number[], limit: number): Promise<{ documentId: number; pageNumber: number; documentTitle: string; personCount: number; mentionCount: number }[]>;
   createPerson(person: InsertPerson): Promise<Person>;
 
   getDocuments(): Promise<Document[]>;
   getDocument(id: number): Promise<Document | undefined>;
   getDocumentWithDetails(id: number): Promise<any>;
+  getDocumentPages(id: number): Promise<DocumentPageContent[]>;
+  getDocumentPage(id: number, pageNumber: number): Promise<{ pageNumber: number; content: string } | undefined>;
+  getPagesContent(keys: { documentId: number; pageNumber: number }[]): Promise<{ documentId: number; pageNumber: number; content: string }[]>;
   createDocument(document: InsertDocument): Promise<Document>;
 
+  getEmails(opts: { page: number; limit: number; personId?: number; documentId?: number; address?: string; search?: string }): Promise<{ data: EmailSummary[]; total: number; page: number; totalPages: number }>;
+  getEmail(id: number): Promise<(Email & { documentTitle: string }) | undefined>;
+  getEmailThread(threadId: string): Promise<EmailThread | undefined>;
+  getDocumentEmailThreads(documentId: number): Promise<EmailThread[]>;
+
+  getDocumentTables(documentId: number): Promise<DocumentTable[]>;
+  getDocumentTableRows(documentId: number, tableId: number, opts: TableRowsOptions): Promise<{ table: DocumentTable; data: DocumentTableRow[]; total: number; page: number; totalPages: number } | undefined>;
+  getDocumentTableCells(documentId: number, tableId: number): Promise<{ table: DocumentTable; rows: string[][] } | undefined>;
+  searchDocumentTables(opts: TableSearchOptions): Promise<{ data: DocumentTableSearchHit[]; total: number; page: number; totalPages: number }>;
+
+  getFlights(opts: FlightListOptions): Promise<{ data: FlightDetail[]; total: number; page: number; totalPages: number }>;
+  getFlight(id: number): Promise<FlightDetail | undefined>;
+  getCoPassengers(personId: number, opts: { limit: number }): Promise<CoPassenger[]>;
+
+  getLocations(opts: LocationMapOptions): Promise<LocationDensity[]>;
+  getLocation(id: number): Promise<LocationDetail | undefined>;
+  getLocationDocuments(id: number, page: number, limit: number, opts: LocationMapOptions): Promise<{ data: (Document & { year: number | null })[]; total: number; page: number; totalPages: number }>;
+
   getConnections(): Promise<Connection[]>;
   getConnectionsPaginated(opts: {
     page: number; limit: number; type?: string; personId?: number; minStrength?: number;
@@ -70,18 +127,23 @@ export interface IStorage {
   createPersonDocument(pd: InsertPersonDocument): Promise<PersonDocument>;
 
   getTimelineEvents(): Promise<TimelineEvent[]>;
+  getTimelineEvent(id: number): Promise<TimelineEvent | undefined>;
+  getTimelineEventSources(id: number): Promise<TimelineEventSources | undefined>;
   getTimelineFiltered(opts: {
     page: number;
     limit: number;
     category?: string;
     yearFrom?: string;
     yearTo?: string;
+    dateFrom?: string;
+    dateTo?: string;
     significance?: number;
   }): Promise<{ data: any[]; total: number; page: number; totalPages: number }>;
   createTimelineEvent(event: InsertTimelineEvent): Promise<TimelineEvent>;
 
   getStats(): Promise<{ personCount: number; documentCount: number; pageCount: number; connectionCount: number; eventCount: number }>;
   getNetworkData(): Promise<{ persons: Pick<Person, 'id' | 'name' | 'category' | 'documentCount' | 'connectionCount' | 'imageUrl' | 'occupation'>[]; connections: any[]; timelineYearRange: [number, number]; personYears: Record<number, [number, number]> }>;
+  getNetworkPaths(fromId: number, toId: number, options: PathSearchOptions): Promise<NetworkPathResult | null>;
   search(query: string): Promise<{ persons: Person[]; documents: Document[]; events: TimelineEvent[] }>;
   searchPages(query: string, page: number, limit: number, useOrMode?: boolean, skipCount?: boolean): Promise<{
     results: { documentId: number; title: string; documentType: string; dataSet: string | null; pageNumber: number; headline: string; pageType: string | null }[];
@@ -91,7 +153,7 @@ export interface IStorage {
   getPersonsPaginated(page: number, limit: number): Promise<{ data: Person[]; total: number; page: number; totalPages: number }>;
   getDocumentsPaginated(page: number, limit: number): Promise<{ data: Document[]; total: number; page: number; totalPages: number }>;
   getDocumentsCursor(afterId: number, limit: number): Promise<Document[]>;
-  getDocumentsFiltered(opts: { page: number; limit: number; search?: string; type?: string; dataSet?: string; redacted?: string; mediaType?: string; sort?: string; tag?: string }): Promise<{ data: Document[]; total: number; page: number; totalPages: number }>;
+  getDocumentsFiltered(opts: { page: number; limit: number; search?: string; type?: string; dataSet?: string; redacted?: string; minRedaction?: number; mediaType?: string; sort?: string; tag?: string }): Promise<{ data: Document[]; total: number; page: number; totalPages: number }>;
   getDocumentFilters(): Promise<{ types: string[]; dataSets: string[]; mediaTypes: string[] }>;
   getAdjacentDocumentIds(id: number): Promise<{ prev: number | null; next: number | null }>;
   getSidebarCounts(): Promise<{
@@ -102,30 +164,86 @@ export interface IStorage {
     connections: number;
   }>;
 
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  claimAnonymousData(clientId: string, userId: string): Promise<{ bookmarks: number; votes: number; personVotes: number }>;
+
   getBookmarks(userId?: string): Promise<Bookmark[]>;
   createBookmark(bookmark: InsertBookmark): Promise<Bookmark>;
-  deleteBookmark(id: number): Promise<boolean>;
+  deleteBookmark(id: number, userId: string): Promise<boolean>;
+
+  getSearchAlerts(userId: string, opts?: { unreadOnly?: boolean; limit?: number }): Promise<SearchAlert[]>;
+  getUnreadSearchAlertCount(userId: string): Promise<number>;
+  markSearchAlertsRead(userId: string, ids?: number[]): Promise<number>;
+  evaluateSearchAlerts(): Promise<SearchAlert[]>;
 
   getVotes(userId: string): Promise<DocumentVote[]>;
   createVote(vote: InsertDocumentVote): Promise<DocumentVote>;
-  deleteVote(id: number): Promise<boolean>;
+  deleteVote(id: number, userId: string): Promise<boolean>;
   getVoteCounts(documentIds: number[]): Promise<Record<number, number>>;
   getMostVotedDocuments(limit: number): Promise<(Document & { voteCount: number })[]>;
 
   getPersonVotes(userId: string): Promise<PersonVote[]>;
   createPersonVote(vote: InsertPersonVote): Promise<PersonVote>;
-  deletePersonVote(id: number): Promise<boolean>;
+  deletePersonVote(id: number, userId: string): Promise<boolean>;
   getPersonVoteCounts(personIds: number[]): Promise<Record<number, number>>;
   getMostVotedPersons(limit: number): Promise<(Person & { voteCount: number })[]>;
 
-  getPipelineJobs(status?: string): Promise<PipelineJob[]>;
+  getAnnotations(userId: string, opts?: { documentId?: number; tag?: string }): Promise<DocumentAnnotationWithDocument[]>;
+  createAnnotation(annotation: InsertDocumentAnnotation): Promise<DocumentAnnotation>;
+  updateAnnotation(id: number, userId: string, update: UpdateDocumentAnnotation): Promise<DocumentAnnotation | undefined>;
+  deleteAnnotation(id: number, userId: string): Promise<boolean>;
+
+  getWorkspaces(userId: string): Promise<WorkspaceSummary[]>;
+  getWorkspace(id: number, userId: string): Promise<Workspace | undefined>;
+  getWorkspaceDetail(id: number, userId: string): Promise<WorkspaceDetail | undefined>;
+  createWorkspace(workspace: InsertWorkspace): Promise<Workspace>;
+  updateWorkspace(id: number, userId: string, update: UpdateWorkspace): Promise<Workspace | undefined>;
+  deleteWorkspace(id: number, userId: string): Promise<boolean>;
+  addWorkspaceItem(item: InsertWorkspaceItem): Promise<WorkspaceItem>;
+  updateWorkspaceItem(workspaceId: number, itemId: number, update: UpdateWorkspaceItem): Promise<WorkspaceItem | undefined>;
+  deleteWorkspaceItem(workspaceId: number, itemId: number): Promise<boolean>;
+  reorderWorkspaceItems(workspaceId: number, itemIds: number[]): Promise<void>;
+  getWorkspaceVisualization(workspaceId: number): Promise<WorkspaceVisualization>;
+
+  getPipelineJobs(opts?: PipelineJobListOptions): Promise<PipelineJob[]>;
   getPipelineStats(): Promise<{ pending: number; running: number; completed: number; failed: number }>;
+  createPipelineRun(stages: string[], config: Record<string, unknown>, plan: PlannedJob[]): Promise<PipelineRun>;
+  resumePipelineRun(runId: number): Promise<PipelineRun | undefined>;
+  finishPipelineRun(runId: number): Promise<PipelineRun | undefined>;
+  getPipelineRuns(limit: number): Promise<PipelineRunProgress[]>;
+  getPipelineRunProgress(runId: number): Promise<PipelineRunProgress | undefined>;
+  claimPipelineJob(workerId: string, leaseMs: number, runId?: number): Promise<PipelineJob | undefined>;
+  renewPipelineJobLease(jobId: number, workerId: string, leaseMs: number): Promise<boolean>;
+  completePipelineJob(jobId: number, workerId: string): Promise<void>;
+  failPipelineJob(jobId: number, workerId: string, message: string, retryAt: Date | null): Promise<void>;
+  expirePipelineLeases(): Promise<number>;
+  getPipelineThroughput(hours: number): Promise<PipelineThroughput>;
+  retryPipelineJobs(ids: number[]): Promise<number>;
+  setPipelineJobPriority(jobId: number, priority: number): Promise<PipelineJob | undefined>;
   getBudgetSummary(): Promise<{ totalCostCents: number; totalInputTokens: number; totalOutputTokens: number; byModel: Record<string, number> }>;
+  getBudgetSpend(period: "day" | "month", periods: number): Promise<BudgetSpendRow[]>;
+  getBudgetPolicyUsage(day: string): Promise<BudgetPolicyUsage[]>;
 
   getAIAnalysisList(opts: { page: number; limit: number; search?: string; documentType?: string; dataSet?: string }): Promise<{ data: AIAnalysisListItem[]; total: number }>;
   getAIAnalysis(fileName: string): Promise<AIAnalysisDocument | null>;
+  getAIAnalysisVersions(fileName: string): Promise<{ currentVersion: number | null; versions: AIAnalysisVersion[] }>;
   getAIAnalysisAggregate(): Promise<AIAnalysisAggregate>;
 
+  getEntitiesPaginated(opts: { page: number; limit: number; entityType?: string; search?: string }): Promise<{ data: Entity[]; total: number; page: number; totalPages: number }>;
+  getEntityTypes(): Promise<{ type: string; count: number }[]>;
+  getEntity(id: number): Promise<Entity | undefined>;
+  getEntityWithDetails(id: number): Promise<(Entity & { connections: EntityConnectionDetail[] }) | undefined>;
+  getEntityDocuments(id: number, page: number, limit: number): Promise<{ data: (Document & { context: string | null })[]; total: number; page: number; totalPages: number }>;
+  getEntityConnections(id: number): Promise<EntityConnectionDetail[]>;
+  getEntityNetworkData(): Promise<EntityNetworkData>;
+  getEgoNetwork(personId: number, options: EgoNetworkOptions): Promise<EgoNetwork | null>;
+  getNetworkAnalytics(graph: NetworkAnalyticsGraph): Promise<NetworkAnalytics>;
+  getCommunicationGraph(options: CommunicationGraphOptions): Promise<CommunicationGraph>;
+  getCommunicationTimeline(personId: number, otherPersonId: number, opts: { page: number; limit: number; includeCc: boolean }): Promise<{ data: EmailSummary[]; total: number; page: number; totalPages: number }>;
+  refreshNetworkAnalytics(): Promise<{ graph: NetworkAnalyticsGraph; nodeCount: number; communityCount: number; modularity: number }[]>;
+
   recordPageView(entityType: string, entityId: number, sessionId: string): Promise<void>;
   getViewCounts(entityType: string, ids: number[]): Promise<Record<number, number>>;
   getTrendingPersons(limit: number): Promise<(Person & { viewCount: number })[]>;
@@ -147,6 +265,48 @@ function r2Filter() {
   return noEmpty;
 }
 
+/** Per-stage job counts of each run, stages in the order their first job was planned. */
+async function pipelineStageProgress(runIds: number[]): Promise<Map<number, PipelineStageProgress[]>> {
+  const byRun = new Map<number, PipelineStageProgress[]>();
+  if (runIds.length === 0) return byRun;
+  const rows = await db.select({
+    runId: pipelineJobs.runId,
+    stage: pipelineJobs.jobType,
+    total: sql<number>`count(*)::int`,
+    pending: sql<number>`count(*) FILTER (WHERE ${pipelineJobs.status} = 'pending')::int`,
+    running: sql<number>`count(*) FILTER (WHERE ${pipelineJobs.status} = 'running')::int`,
+    completed: sql<number>`count(*) FILTER (WHERE ${pipelineJobs.status} = 'completed')::int`,
+    failed: sql<number>`count(*) FILTER (WHERE ${pipelineJobs.status} = 'failed')::int`,
+    blocked: sql<number>`count(*) FILTER (WHERE ${pipelineJobs.status} = 'pending' AND EXISTS (
+      SELECT 1 FROM pipeline_jobs d WHERE d.id = ANY(${pipelineJobs.dependsOn}) AND d.status = 'failed'
+    ))::int`,
+  })
+    .from(pipelineJobs)
+    .where(inArray(pipelineJobs.runId, runIds))
+    .groupBy(pipelineJobs.runId, pipelineJobs.jobType)
+    .orderBy(sql`min(${pipelineJobs.id})`);
+
+  for (const { runId, ...progress } of rows) {
+    const list = byRun.get(runId!);
+    if (list) list.push(progress);
+    else byRun.set(runId!, [progress]);
+  }
+  return byRun;
+}
+
+/** Person and year filters on location_documents shared by the map and a place's document list. */
+function locationDocumentFilters(opts: Pick<LocationMapOptions, "personId" | "yearFrom" | "yearTo">): SQL[] {
+  const conditions: SQL[] = [];
+  const r2Cond = r2Filter();
+  if (r2Cond) conditions.push(r2Cond);
+  if (opts.personId !== null) {
+    conditions.push(sql`EXISTS (SELECT 1 FROM person_documents pd WHERE pd.document_id = ${locationDocuments.documentId} AND pd.person_id = ${opts.personId})`);
+  }
+  if (opts.yearFrom !== null) conditions.push(gte(locationDocuments.year, opts.yearFrom));
+  if (opts.yearTo !== null) conditions.push(lte(locationDocuments.year, opts.yearTo));
+  return conditions;
+}
+
 function createCache<T>(ttlMs: number) {
   let data: T | null = null;
   let cachedAt = 0;
@@ -488,6 +648,15 @@ const networkDataCache = createCache<{
   personYears: Record<number, [number, number]>;
 }>(5 * 60 * 1000);
 
+const entityNetworkCache = createCache<EntityNetworkData>(5 * 60 * 1000);
+const networkAnalyticsCaches: Record<NetworkAnalyticsGraph, ReturnType<typeof createCache<NetworkAnalytics>>> = {
+  persons: createCache<NetworkAnalytics>(5 * 60 * 1000),
+  combined: createCache<NetworkAnalytics>(5 * 60 * 1000),
+};
+const NETWORK_BRIDGE_LIMIT = 25;
+const COMMUNITY_TOP_MEMBERS = 5;
+const entityTypesCache = createCache<{ type: string; count: number }[]>(10 * 60 * 1000);
+
 const personsCache = createCache<Person[]>(5 * 60 * 1000);
 const timelineEventsCache = createCache<TimelineEvent[]>(5 * 60 * 1000);
 const trendingPersonsCache = createCache<(Person & { viewCount: number })[]>(2 * 60 * 1000);
@@ -497,6 +666,9 @@ const trendingSearchesCache = createCache<{ query: string; searchCount: number }
 const countCacheMap = new Map<string, { count: number; cachedAt: number }>();
 const COUNT_TTL = 60_000;
 
+/** How many matching document IDs a search alert keeps for linking */
+const SEARCH_ALERT_DOCUMENT_SAMPLE = 20;
+
 // Cache for first-page unfiltered documents (dashboard + "All Documents" initial load)
 const firstPageDocsCache = createCache<Document[]>(5 * 60 * 1000);
 const aiAggregateCache = createCache<AIAnalysisAggregate>(5 * 60 * 1000);
@@ -506,6 +678,7 @@ const DETAIL_CACHE_TTL = 5 * 60 * 1000;
 const MAX_DETAIL_CACHE = 500;
 const documentDetailCache = new Map<number, { data: any; cachedAt: number }>();
 const personDetailCache = new Map<number, { data: any; cachedAt: number }>();
+const entityDetailCache = new Map<number, { data: Entity & { connections: EntityConnectionDetail[] }; cachedAt: number }>();
 
 // Adjacent document IDs cache
 const ADJACENT_CACHE_TTL = 10 * 60 * 1000;
@@ -593,6 +766,87 @@ async function getPersonAIMentions(personName: string, aliases: string[]): Promi
   };
 }
 
+/**
+ * Resolve entity/person display names for a batch of entity connections.
+ * Both endpoints can be an entity, so names are fetched for every entity ID on either side.
+ */
+async function enrichEntityConnections(
+  rows: (typeof entityConnections.$inferSelect)[],
+): Promise<EntityConnectionDetail[]> {
+  const entityIds = new Set<number>();
+  const personIds = new Set<number>();
+  for (const row of rows) {
+    entityIds.add(row.entityId);
+    if (row.otherEntityId != null) entityIds.add(row.otherEntityId);
+    if (row.personId != null) personIds.add(row.personId);
+  }
+
+  const [entityRows, personRows] = await Promise.all([
+    entityIds.size > 0
+      ? db.select({ id: entities.id, name: entities.name })
+          .from(entities).where(inArray(entities.id, Array.from(entityIds)))
+      : Promise.resolve([]),
+    personIds.size > 0
+      ? db.select({ id: persons.id, name: persons.name })
+          .from(persons).where(inArray(persons.id, Array.from(personIds)))
+      : Promise.resolve([]),
+  ]);
+
+  const entityNames = new Map(entityRows.map(e => [e.id, e.name]));
+  const personNames = new Map(personRows.map(p => [p.id, p.name]));
+
+  return rows.map(row => ({
+    ...row,
+    entityName: entityNames.get(row.entityId) ?? "",
+    personName: row.personId != null ? personNames.get(row.personId) ?? null : null,
+    otherEntityName: row.otherEntityId != null ? entityNames.get(row.otherEntityId) ?? null : null,
+  }));
+}
+
+type EnrichedTimelineEvent = TimelineEvent & {
+  persons: { id: number; name: string }[];
+  documents: { id: number; title: string }[];
+};
+
+/** Resolve person names and document titles for a batch of timeline events. */
+async function enrichTimelineEvents(events: TimelineEvent[]): Promise<EnrichedTimelineEvent[]> {
+  // Collect all unique person IDs and document IDs across events
+  const allPersonIds = new Set<number>();
+  const allDocumentIds = new Set<number>();
+  for (const e of events) {
+    for (const pid of e.personIds ?? []) allPersonIds.add(pid);
+    for (const did of e.documentIds ?? []) allDocumentIds.add(did);
+  }
+
+  // Batch-fetch person names
+  const personMap = new Map<number, { id: number; name: string }>();
+  if (allPersonIds.size > 0) {
+    const personRows = await db.select({ id: persons.id, name: persons.name })
+      .from(persons)
+      .where(inArray(persons.id, Array.from(allPersonIds)));
+    for (const p of personRows) personMap.set(p.id, p);
+  }
+
+  // Batch-fetch document titles
+  const documentMap = new Map<number, { id: number; title: string }>();
+  if (allDocumentIds.size > 0) {
+    const docRows = await db.select({ id: documents.id, title: documents.title })
+      .from(documents)
+      .where(inArray(documents.id, Array.from(allDocumentIds)));
+    for (const d of docRows) documentMap.set(d.id, d);
+  }
+
+  return events.map(e => ({
+    ...e,
+    persons: (e.personIds ?? [])
+      .map(pid => personMap.get(pid))
+      .filter((p): p is { id: number; name: string } => p !== undefined),
+    documents: (e.documentIds ?? [])
+      .map(did => documentMap.get(did))
+      .filter((d): d is { id: number; title: string } => d !== undefined),
+  }));
+}
+
 export class DatabaseStorage implements IStorage {
   async getPersons(): Promise<Person[]> {
     return personsCache.get(() =>
@@ -796,11 +1050,22 @@ export class DatabaseStorage implements IStorage {
       .where(eq(documentPages.documentId, id))
       .orderBy(asc(documentPages.pageNumber));
 
+    // Detected redaction boxes, for outlining in the viewer
+    const redactions: PageRedaction[] = await db.select()
+      .from(pageRedactions)
+      .where(eq(pageRedactions.documentId, id))
+      .orderBy(asc(pageRedactions.pageNumber));
+
+    // Spreadsheet sheets and tables detected on PDF pages (metadata only; rows are paged separately)
+    const tables = await this.getDocumentTables(id);
+
     const result = {
       ...doc,
       persons: pDocs,
       timelineEvents: enrichedDocEvents,
       pageTypes: pageTypes.filter(p => p.pageType != null),
+      redactions,
+      tables,
     };
 
     documentDetailCache.set(id, { data: result, cachedAt: Date.now() });
@@ -808,6 +1073,41 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  async getDocumentPages(id: number): Promise<DocumentPageContent[]> {
+    return db
+      .select({
+        pageNumber: documentPages.pageNumber,
+        content: documentPages.content,
+        pageType: documentPages.pageType,
+        redactionCount: sql<number>`coalesce(${pageRedactions.redactionCount}, 0)::int`,
+        redactedArea: sql<number>`coalesce(${pageRedactions.redactedArea}, 0)::real`,
+        redactionBoxes: sql<AnnotationBBox[]>`coalesce(${pageRedactions.boxes}, '[]'::jsonb)`,
+      })
+      .from(documentPages)
+      .leftJoin(pageRedactions, and(
+        eq(pageRedactions.documentId, documentPages.documentId),
+        eq(pageRedactions.pageNumber, documentPages.pageNumber),
+      ))
+      .where(eq(documentPages.documentId, id))
+      .orderBy(asc(documentPages.pageNumber));
+  }
+
+  async getDocumentPage(id: number, pageNumber: number): Promise<{ pageNumber: number; content: string } | undefined> {
+    const [page] = await db
+      .select({ pageNumber: documentPages.pageNumber, content: documentPages.content })
+      .from(documentPages)
+      .where(and(eq(documentPages.documentId, id), eq(documentPages.pageNumber, pageNumber)));
+    return page;
+  }
+
+  async getPagesContent(keys: { documentId: number; pageNumber: number }[]): Promise<{ documentId: number; pageNumber: number; content: string }[]> {
+    if (keys.length === 0) return [];
+    return db
+      .select({ documentId: documentPages.documentId, pageNumber: documentPages.pageNumber, content: documentPages.content })
+      .from(documentPages)
+      .where(or(...keys.map((k) => and(eq(documentPages.documentId, k.documentId), eq(documentPages.pageNumber, k.pageNumber)))));
+  }
+
   async createDocument(document: InsertDocument): Promise<Document> {
     const [created] = await db.insert(documents).values(document).returning();
     return created;
@@ -907,44 +1207,50 @@ export class DatabaseStorage implements IStorage {
       const events = await db.select().from(timelineEvents)
         .where(sql`${timelineEvents.date} >= '1950' AND ${timelineEvents.significance} >= 3`)
         .orderBy(asc(timelineEvents.date));
+      return enrichTimelineEvents(events);
+    });
+  }
 
-      // Collect all unique person IDs and document IDs across events
-      const allPersonIds = new Set<number>();
-      const allDocumentIds = new Set<number>();
-      for (const e of events) {
-        for (const pid of e.personIds ?? []) allPersonIds.add(pid);
-        for (const did of e.documentIds ?? []) allDocumentIds.add(did);
-      }
+  async getTimelineEvent(id: number): Promise<TimelineEvent | undefined> {
+    const [event] = await db.select().from(timelineEvents).where(eq(timelineEvents.id, id));
+    return event;
+  }
 
-      // Batch-fetch person names
-      const personMap = new Map<number, { id: number; name: string }>();
-      if (allPersonIds.size > 0) {
-        const personRows = await db.select({ id: persons.id, name: persons.name })
-          .from(persons)
-          .where(inArray(persons.id, Array.from(allPersonIds)));
-        for (const p of personRows) personMap.set(p.id, p);
-      }
+  /**
+   * Source citations for one event. Listed documents without a source row yet
+   * (before load-event-sources has run) appear uncited, with the event's own date.
+   */
+  async getTimelineEventSources(id: number): Promise<TimelineEventSources | undefined> {
+    const event = await this.getTimelineEvent(id);
+    if (!event) return undefined;
 
-      // Batch-fetch document titles
-      const documentMap = new Map<number, { id: number; title: string }>();
-      if (allDocumentIds.size > 0) {
-        const docRows = await db.select({ id: documents.id, title: documents.title })
-          .from(documents)
-          .where(inArray(documents.id, Array.from(allDocumentIds)));
-        for (const d of docRows) documentMap.set(d.id, d);
-      }
+    const cited = await db.select().from(timelineEventSources)
+      .where(eq(timelineEventSources.eventId, id));
+    const citationByDocument = new Map(cited.map((s) => [s.documentId, s]));
+    const documentIds = Array.from(new Set([...(event.documentIds ?? []), ...cited.map((s) => s.documentId)]));
+    if (documentIds.length === 0) return { event, sources: [] };
 
-      // Enrich events with resolved person/document info
-      return events.map(e => ({
-        ...e,
-        persons: (e.personIds ?? [])
-          .map(pid => personMap.get(pid))
-          .filter(Boolean),
-        documents: (e.documentIds ?? [])
-          .map(did => documentMap.get(did))
-          .filter(Boolean),
-      }));
+    const docs = await db.select({ id: documents.id, title: documents.title, dataSet: documents.dataSet })
+      .from(documents)
+      .where(inArray(documents.id, documentIds));
+
+    const sources: TimelineEventSourceDetail[] = docs.map((doc) => {
+      const citation = citationByDocument.get(doc.id);
+      return {
+        documentId: doc.id,
+        documentTitle: doc.title,
+        dataSet: doc.dataSet,
+        pageNumber: citation?.pageNumber ?? null,
+        excerpt: citation?.excerpt ?? null,
+        dateOriginal: citation ? citation.dateOriginal : event.dateOriginal ?? event.date,
+      };
     });
+    // Cited passages first, then by data set and title
+    sources.sort((a, b) =>
+      Number(b.excerpt !== null) - Number(a.excerpt !== null)
+      || (a.dataSet ?? "").localeCompare(b.dataSet ?? "", undefined, { numeric: true })
+      || a.documentTitle.localeCompare(b.documentTitle));
+    return { event, sources };
   }
 
   async getTimelineFiltered(opts: {
@@ -953,6 +1259,8 @@ export class DatabaseStorage implements IStorage {
     category?: string;
     yearFrom?: string;
     yearTo?: string;
+    dateFrom?: string;
+    dateTo?: string;
     significance?: number;
   }): Promise<{ data: any[]; total: number; page: number; totalPages: number }> {
     const conditions = [];
@@ -962,15 +1270,16 @@ export class DatabaseStorage implements IStorage {
     if (opts.category) {
       conditions.push(eq(timelineEvents.category, opts.category));
     }
-    if (opts.yearFrom) {
-      conditions.push(sql`${timelineEvents.date} >= ${opts.yearFrom}`);
+    // Events whose possible dates overlap the filter range, so "circa 2002" shows up for 2001.
+    // Rows not yet backfilled fall back to `date`, compared at its own precision.
+    const from = parseDateBound(opts.dateFrom ?? opts.yearFrom ?? "")?.earliest;
+    const to = parseDateBound(opts.dateTo ?? opts.yearTo ?? "")?.latest;
+    if (from) {
+      const latest = sql`COALESCE(${timelineEvents.dateLatest}, ${timelineEvents.date})`;
+      conditions.push(sql`${latest} >= left(${from}, length(${latest}))`);
     }
-    if (opts.yearTo) {
-      // Include the full year by comparing against year+1
-      const endYear = parseInt(opts.yearTo, 10);
-      if (!isNaN(endYear)) {
-        conditions.push(sql`${timelineEvents.date} < ${String(endYear + 1)}`);
-      }
+    if (to) {
+      conditions.push(sql`COALESCE(${timelineEvents.dateEarliest}, ${timelineEvents.date}) <= ${to}`);
     }
 
     const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
@@ -1118,6 +1427,35 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  /** Shortest paths between two persons over the cached network graph; null if either person is unknown. */
+  async getNetworkPaths(fromId: number, toId: number, options: PathSearchOptions): Promise<NetworkPathResult | null> {
+    const network = await this.getNetworkData();
+    const personById = new Map(network.persons.map((p) => [p.id, p]));
+    if (!personById.has(fromId) || !personById.has(toId)) return null;
+
+    const paths = findShortestPaths(network.connections, fromId, toId, options);
+
+    const pathPersonIds = new Set<number>([fromId, toId]);
+    const documentIds = new Set<number>();
+    for (const path of paths) {
+      path.personIds.forEach((id) => pathPersonIds.add(id));
+      path.edges.forEach((edge) => edge.documentIds.forEach((id) => documentIds.add(id)));
+    }
+    const evidence = documentIds.size > 0
+      ? await db.select({ id: documents.id, title: documents.title })
+        .from(documents)
+        .where(inArray(documents.id, Array.from(documentIds)))
+      : [];
+
+    return {
+      fromPersonId: fromId,
+      toPersonId: toId,
+      paths,
+      persons: Array.from(pathPersonIds).map((id) => personById.get(id)!),
+      documents: evidence,
+    };
+  }
+
   async search(query: string) {
     const normalizedQuery = query.toLowerCase().trim();
     const cachedResult = searchCache.get(normalizedQuery);
@@ -1375,6 +1713,7 @@ export class DatabaseStorage implements IStorage {
     type?: string;
     dataSet?: string;
     redacted?: string;
+    minRedaction?: number;
     mediaType?: string;
     sort?: string;
     tag?: string;
@@ -1410,6 +1749,10 @@ export class DatabaseStorage implements IStorage {
       conditions.push(eq(documents.isRedacted, false));
     }
 
+    if (opts.minRedaction !== undefined) {
+      conditions.push(sql`${documents.redactionDensity} >= ${opts.minRedaction}`);
+    }
+
     if (opts.mediaType) {
       conditions.push(eq(documents.mediaType, opts.mediaType));
     }
@@ -1422,7 +1765,7 @@ export class DatabaseStorage implements IStorage {
 
     // Check if user applied any filters beyond the automatic r2 filter
     // sort only changes ordering, not the result set count, so exclude it
-    const hasUserFilters = !!(opts.search || opts.type || opts.dataSet || opts.redacted || opts.mediaType || opts.tag);
+    const hasUserFilters = !!(opts.search || opts.type || opts.dataSet || opts.redacted || opts.minRedaction !== undefined || opts.mediaType || opts.tag);
 
     // For unfiltered queries, use the cached stats total to avoid COUNT(*) on 1.38M rows
     let total: number;
@@ -1440,7 +1783,7 @@ export class DatabaseStorage implements IStorage {
         return { data, total, page: 1, totalPages };
       }
     } else {
-      const cacheKey = JSON.stringify([opts.search, opts.type, opts.dataSet, opts.redacted, opts.mediaType]);
+      const cacheKey = JSON.stringify([opts.search, opts.type, opts.dataSet, opts.redacted, opts.minRedaction, opts.mediaType, opts.tag]);
       const cached = countCacheMap.get(cacheKey);
       if (cached && Date.now() - cached.cachedAt < COUNT_TTL) {
         total = cached.count;
@@ -1471,6 +1814,7 @@ export class DatabaseStorage implements IStorage {
       if (opts.dataSet) conditions.push(sql`d.data_set = ${opts.dataSet}`);
       if (opts.redacted === "redacted") conditions.push(sql`d.is_redacted = true`);
       else if (opts.redacted === "unredacted") conditions.push(sql`d.is_redacted = false`);
+      if (opts.minRedaction !== undefined) conditions.push(sql`d.redaction_density >= ${opts.minRedaction}`);
       if (opts.mediaType) conditions.push(sql`d.media_type = ${opts.mediaType}`);
       if (opts.tag) conditions.push(sql`d.tags @> ARRAY[${opts.tag}]`);
       if (searchDocIds) {
@@ -1547,7 +1891,11 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(documents)
       .where(whereClause)
-      .orderBy(asc(documents.id))
+      .orderBy(
+        ...(opts.sort === "redaction"
+          ? [sql`${documents.redactionDensity} DESC NULLS LAST`, asc(documents.id)]
+          : [asc(documents.id)]),
+      )
       .limit(opts.limit)
       .offset(offset);
 
@@ -1654,6 +2002,72 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [created] = await db.insert(users).values(user).returning();
+    return created;
+  }
+
+  async claimAnonymousData(clientId: string, userId: string): Promise<{ bookmarks: number; votes: number; personVotes: number }> {
+    return db.transaction(async (tx) => {
+      // Client IDs and user IDs are both UUIDs, and user IDs are public: an
+      // account's rows are never anonymous data, whoever sends its ID
+      const [account] = await tx.select({ id: users.id }).from(users).where(eq(users.id, clientId)).limit(1);
+      if (account) return { bookmarks: 0, votes: 0, personVotes: 0 };
+
+      // Rows the account already has would violate the unique indexes, so only move the rest
+      const movedBookmarks = await tx.update(bookmarks).set({ userId })
+        .where(and(
+          eq(bookmarks.userId, clientId),
+          sql`NOT EXISTS (
+            SELECT 1 FROM bookmarks b2
+            WHERE b2.user_id = ${userId}
+              AND b2.entity_type = ${bookmarks.entityType}
+              AND (b2.entity_id = ${bookmarks.entityId} OR b2.search_query = ${bookmarks.searchQuery})
+          )`,
+        ))
+        .returning({ id: bookmarks.id });
+      await tx.delete(bookmarks).where(eq(bookmarks.userId, clientId));
+
+      const movedVotes = await tx.update(documentVotes).set({ userId })
+        .where(and(
+          eq(documentVotes.userId, clientId),
+          sql`NOT EXISTS (
+            SELECT 1 FROM document_votes v2
+            WHERE v2.user_id = ${userId} AND v2.document_id = ${documentVotes.documentId}
+          )`,
+        ))
+        .returning({ id: documentVotes.id });
+      await tx.delete(documentVotes).where(eq(documentVotes.userId, clientId));
+
+      const movedPersonVotes = await tx.update(personVotes).set({ userId })
+        .where(and(
+          eq(personVotes.userId, clientId),
+          sql`NOT EXISTS (
+            SELECT 1 FROM person_votes v2
+            WHERE v2.user_id = ${userId} AND v2.person_id = ${personVotes.personId}
+          )`,
+        ))
+        .returning({ id: personVotes.id });
+      await tx.delete(personVotes).where(eq(personVotes.userId, clientId));
+
+      return {
+        bookmarks: movedBookmarks.length,
+        votes: movedVotes.length,
+        personVotes: movedPersonVotes.length,
+      };
+    });
+  }
+
   async getBookmarks(userId?: string): Promise<Bookmark[]> {
     if (userId) {
       return db.select().from(bookmarks).where(eq(bookmarks.userId, userId)).orderBy(desc(bookmarks.createdAt));
@@ -1664,7 +2078,12 @@ export class DatabaseStorage implements IStorage {
   async createBookmark(bookmark: InsertBookmark): Promise<Bookmark> {
     // Cast needed: drizzle-zod's InsertBookmark resolves to {} due to .omit() type issue
     const bk = bookmark as { userId?: string; entityType: string; entityId?: number | null; searchQuery?: string | null; label?: string | null };
-    const [created] = await db.insert(bookmarks).values(bookmark)
+    // A new saved search alerts only on pages loaded after it was saved
+    const [created] = await db.insert(bookmarks)
+      .values({
+        ...bookmark,
+        alertsCheckedPageId: bk.searchQuery ? sql`(SELECT coalesce(max(id), 0) FROM document_pages)` : null,
+      })
       .onConflictDoNothing()
       .returning();
     if (!created) {
@@ -1687,11 +2106,111 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async deleteBookmark(id: number): Promise<boolean> {
-    const result = await db.delete(bookmarks).where(eq(bookmarks.id, id)).returning();
+  async deleteBookmark(id: number, userId: string): Promise<boolean> {
+    const result = await db.delete(bookmarks)
+      .where(and(eq(bookmarks.id, id), eq(bookmarks.userId, userId)))
+      .returning();
     return result.length > 0;
   }
 
+  async getSearchAlerts(userId: string, opts: { unreadOnly?: boolean; limit?: number } = {}): Promise<SearchAlert[]> {
+    const conditions: SQL[] = [eq(searchAlerts.userId, userId)];
+    if (opts.unreadOnly) conditions.push(sql`${searchAlerts.readAt} IS NULL`);
+    return db.select().from(searchAlerts)
+      .where(and(...conditions))
+      .orderBy(desc(searchAlerts.createdAt), desc(searchAlerts.id))
+      .limit(opts.limit ?? 50);
+  }
+
+  async getUnreadSearchAlertCount(userId: string): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(searchAlerts)
+      .where(and(eq(searchAlerts.userId, userId), sql`${searchAlerts.readAt} IS NULL`));
+    return row?.count ?? 0;
+  }
+
+  async markSearchAlertsRead(userId: string, ids?: number[]): Promise<number> {
+    const conditions: SQL[] = [eq(searchAlerts.userId, userId), sql`${searchAlerts.readAt} IS NULL`];
+    if (ids) {
+      if (ids.length === 0) return 0;
+      conditions.push(inArray(searchAlerts.id, ids));
+    }
+    const result = await db.update(searchAlerts)
+      .set({ readAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: searchAlerts.id });
+    return result.length;
+  }
+
+  async evaluateSearchAlerts(): Promise<SearchAlert[]> {
+    // One transaction from reading the checkpoints to advancing them, with the
+    // saved searches locked: an overlapping run (pipeline stage plus a manual
+    // one) waits, then sees the advanced checkpoints instead of re-alerting
+    return db.transaction(async (tx) => {
+      // Only saved searches owned by an account — anonymous client-ID bookmarks have no one to notify
+      const saved = await tx.select({
+        id: bookmarks.id,
+        userId: users.id,
+        searchQuery: bookmarks.searchQuery,
+        checkedPageId: bookmarks.alertsCheckedPageId,
+      })
+        .from(bookmarks)
+        .innerJoin(users, eq(users.id, bookmarks.userId))
+        .where(and(eq(bookmarks.entityType, "search"), isNotNull(bookmarks.searchQuery)))
+        .for("update", { of: bookmarks });
+
+      const [{ maxPageId }] = await tx.select({ maxPageId: sql<number>`coalesce(max(${documentPages.id}), 0)::int` })
+        .from(documentPages);
+
+      const stale = saved.filter(b => b.checkedPageId === null || b.checkedPageId < maxPageId);
+      if (stale.length === 0) return [];
+
+      // Many users save the same query; evaluate each (query, starting page) pair once
+      const matches = new Map<string, { pages: number; documents: number; documentIds: number[] }>();
+      const pending: (typeof searchAlerts.$inferInsert)[] = [];
+
+      for (const bk of stale) {
+        // Bookmarks saved before alerts existed start from the current pages without alerting
+        if (bk.checkedPageId === null) continue;
+
+        const key = `${bk.searchQuery!.trim().toLowerCase()}\u0000${bk.checkedPageId}`;
+        let match = matches.get(key);
+        if (!match) {
+          const result: any = await tx.execute(sql`
+            SELECT count(*)::int AS pages,
+                   count(DISTINCT document_id)::int AS documents,
+                   (array_agg(DISTINCT document_id))[1:${sql.raw(String(SEARCH_ALERT_DOCUMENT_SAMPLE))}] AS document_ids
+            FROM document_pages
+            WHERE id > ${bk.checkedPageId} AND id <= ${maxPageId}
+              AND search_vector @@ websearch_to_tsquery('english', ${bk.searchQuery})
+          `);
+          const row = (result.rows ?? result)[0];
+          match = { pages: row?.pages ?? 0, documents: row?.documents ?? 0, documentIds: row?.document_ids ?? [] };
+          matches.set(key, match);
+        }
+
+        if (match.pages > 0) {
+          pending.push({
+            userId: bk.userId,
+            bookmarkId: bk.id,
+            searchQuery: bk.searchQuery!,
+            newPageCount: match.pages,
+            newDocumentCount: match.documents,
+            documentIds: match.documentIds,
+          });
+        }
+      }
+
+      // Record alerts and advance the checkpoints together so a crash can't double-alert
+      const created = pending.length > 0
+        ? await tx.insert(searchAlerts).values(pending).returning()
+        : [];
+      await tx.update(bookmarks)
+        .set({ alertsCheckedPageId: maxPageId })
+        .where(inArray(bookmarks.id, stale.map(b => b.id)));
+      return created;
+    });
+  }
+
   async getVotes(userId: string): Promise<DocumentVote[]> {
     return db.select().from(documentVotes)
       .where(eq(documentVotes.userId, userId))
@@ -1715,8 +2234,10 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async deleteVote(id: number): Promise<boolean> {
-    const result = await db.delete(documentVotes).where(eq(documentVotes.id, id)).returning();
+  async deleteVote(id: number, userId: string): Promise<boolean> {
+    const result = await db.delete(documentVotes)
+      .where(and(eq(documentVotes.id, id), eq(documentVotes.userId, userId)))
+      .returning();
     return result.length > 0;
   }
 
@@ -1790,8 +2311,10 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async deletePersonVote(id: number): Promise<boolean> {
-    const result = await db.delete(personVotes).where(eq(personVotes.id, id)).returning();
+  async deletePersonVote(id: number, userId: string): Promise<boolean> {
+    const result = await db.delete(personVotes)
+      .where(and(eq(personVotes.id, id), eq(personVotes.userId, userId)))
+      .returning();
     return result.length > 0;
   }
 
@@ -1837,11 +2360,229 @@ export class DatabaseStorage implements IStorage {
       .filter((p): p is Person & { voteCount: number } => p !== null);
   }
 
-  async getPipelineJobs(status?: string): Promise<PipelineJob[]> {
-    if (status) {
-      return db.select().from(pipelineJobs).where(eq(pipelineJobs.status, status)).orderBy(desc(pipelineJobs.createdAt));
+  async getAnnotations(userId: string, opts: { documentId?: number; tag?: string } = {}): Promise<DocumentAnnotationWithDocument[]> {
+    const conditions: SQL[] = [eq(documentAnnotations.userId, userId)];
+    if (opts.documentId !== undefined) conditions.push(eq(documentAnnotations.documentId, opts.documentId));
+    if (opts.tag) conditions.push(sql`${opts.tag.toLowerCase()} = ANY(${documentAnnotations.tags})`);
+
+    const rows = await db
+      .select({ annotation: documentAnnotations, documentTitle: documents.title })
+      .from(documentAnnotations)
+      .innerJoin(documents, eq(documents.id, documentAnnotations.documentId))
+      .where(and(...conditions))
+      .orderBy(
+        ...(opts.documentId !== undefined
+          ? [asc(documentAnnotations.pageNumber), asc(documentAnnotations.charStart), asc(documentAnnotations.id)]
+          : [desc(documentAnnotations.createdAt)]),
+      );
+    return rows.map((r) => ({ ...r.annotation, documentTitle: r.documentTitle }));
+  }
+
+  async createAnnotation(annotation: InsertDocumentAnnotation): Promise<DocumentAnnotation> {
+    const [created] = await db.insert(documentAnnotations).values(annotation).returning();
+    return created;
+  }
+
+  async updateAnnotation(id: number, userId: string, update: UpdateDocumentAnnotation): Promise<DocumentAnnotation | undefined> {
+    const [updated] = await db.update(documentAnnotations)
+      .set({ ...update, updatedAt: new Date() })
+      .where(and(eq(documentAnnotations.id, id), eq(documentAnnotations.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteAnnotation(id: number, userId: string): Promise<boolean> {
+    const result = await db.delete(documentAnnotations)
+      .where(and(eq(documentAnnotations.id, id), eq(documentAnnotations.userId, userId)))
+      .returning({ id: documentAnnotations.id });
+    return result.length > 0;
+  }
+
+  async getWorkspaces(userId: string): Promise<WorkspaceSummary[]> {
+    return db
+      .select({
+        ...getTableColumns(workspaces),
+        itemCount: sql<number>`(SELECT count(*)::int FROM workspace_items wi WHERE wi.workspace_id = ${workspaces.id})`,
+      })
+      .from(workspaces)
+      .where(eq(workspaces.userId, userId))
+      .orderBy(desc(workspaces.updatedAt));
+  }
+
+  async getWorkspace(id: number, userId: string): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces)
+      .where(and(eq(workspaces.id, id), eq(workspaces.userId, userId)));
+    return workspace;
+  }
+
+  async getWorkspaceDetail(id: number, userId: string): Promise<WorkspaceDetail | undefined> {
+    const workspace = await this.getWorkspace(id, userId);
+    if (!workspace) return undefined;
+
+    const items = await db.select().from(workspaceItems)
+      .where(eq(workspaceItems.workspaceId, id))
+      .orderBy(asc(workspaceItems.position), asc(workspaceItems.id));
+
+    const idsOf = (type: string) =>
+      items.filter(i => i.itemType === type && i.entityId != null).map(i => i.entityId!);
+    const personIds = idsOf("person");
+    const documentIds = idsOf("document");
+    const eventIds = idsOf("event");
+
+    const [personRows, documentRows, eventRows] = await Promise.all([
+      personIds.length > 0
+        ? db.select({ id: persons.id, name: persons.name, role: persons.role, category: persons.category, imageUrl: persons.imageUrl })
+            .from(persons).where(inArray(persons.id, personIds))
+        : Promise.resolve([]),
+      documentIds.length > 0
+        ? db.select({ id: documents.id, title: documents.title, documentType: documents.documentType, dataSet: documents.dataSet, dateOriginal: documents.dateOriginal })
+            .from(documents).where(inArray(documents.id, documentIds))
+        : Promise.resolve([]),
+      eventIds.length > 0
+        ? db.select({ id: timelineEvents.id, date: timelineEvents.date, title: timelineEvents.title, category: timelineEvents.category, significance: timelineEvents.significance })
+            .from(timelineEvents).where(inArray(timelineEvents.id, eventIds))
+        : Promise.resolve([]),
+    ]);
+
+    const personMap = new Map(personRows.map(p => [p.id, p]));
+    const documentMap = new Map(documentRows.map(d => [d.id, d]));
+    const eventMap = new Map(eventRows.map(e => [e.id, e]));
+
+    const detailed: WorkspaceItemDetail[] = items.map(item => {
+      if (item.entityId == null) return item;
+      switch (item.itemType) {
+        case "person": return { ...item, person: personMap.get(item.entityId) };
+        case "document": return { ...item, document: documentMap.get(item.entityId) };
+        case "event": return { ...item, event: eventMap.get(item.entityId) };
+        default: return item;
+      }
+    });
+
+    return { ...workspace, items: detailed };
+  }
+
+  async createWorkspace(workspace: InsertWorkspace): Promise<Workspace> {
+    const [created] = await db.insert(workspaces).values(workspace).returning();
+    return created;
+  }
+
+  async updateWorkspace(id: number, userId: string, update: UpdateWorkspace): Promise<Workspace | undefined> {
+    const [updated] = await db.update(workspaces)
+      .set({ ...update, updatedAt: new Date() })
+      .where(and(eq(workspaces.id, id), eq(workspaces.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteWorkspace(id: number, userId: string): Promise<boolean> {
+    const result = await db.delete(workspaces)
+      .where(and(eq(workspaces.id, id), eq(workspaces.userId, userId)))
+      .returning({ id: workspaces.id });
+    return result.length > 0;
+  }
+
+  async addWorkspaceItem(item: InsertWorkspaceItem): Promise<WorkspaceItem> {
+    return db.transaction(async (tx) => {
+      // New items go to the end of the list
+      const [{ next }] = await tx.select({ next: sql<number>`coalesce(max(${workspaceItems.position}), -1)::int + 1` })
+        .from(workspaceItems)
+        .where(eq(workspaceItems.workspaceId, item.workspaceId));
+
+      const [created] = await tx.insert(workspaceItems)
+        .values({ ...item, position: next })
+        .onConflictDoNothing()
+        .returning();
+      await tx.update(workspaces).set({ updatedAt: new Date() }).where(eq(workspaces.id, item.workspaceId));
+      if (created) return created;
+
+      // Already in this workspace — return the existing item
+      const [existing] = await tx.select().from(workspaceItems).where(and(
+        eq(workspaceItems.workspaceId, item.workspaceId),
+        eq(workspaceItems.itemType, item.itemType),
+        eq(workspaceItems.entityId, item.entityId!),
+      ));
+      return existing;
+    });
+  }
+
+  async updateWorkspaceItem(workspaceId: number, itemId: number, update: UpdateWorkspaceItem): Promise<WorkspaceItem | undefined> {
+    const [updated] = await db.update(workspaceItems)
+      .set(update)
+      .where(and(eq(workspaceItems.id, itemId), eq(workspaceItems.workspaceId, workspaceId)))
+      .returning();
+    if (updated) {
+      await db.update(workspaces).set({ updatedAt: new Date() }).where(eq(workspaces.id, workspaceId));
     }
-    return db.select().from(pipelineJobs).orderBy(desc(pipelineJobs.createdAt));
+    return updated;
+  }
+
+  async deleteWorkspaceItem(workspaceId: number, itemId: number): Promise<boolean> {
+    const result = await db.delete(workspaceItems)
+      .where(and(eq(workspaceItems.id, itemId), eq(workspaceItems.workspaceId, workspaceId)))
+      .returning({ id: workspaceItems.id });
+    if (result.length > 0) {
+      await db.update(workspaces).set({ updatedAt: new Date() }).where(eq(workspaces.id, workspaceId));
+    }
+    return result.length > 0;
+  }
+
+  async reorderWorkspaceItems(workspaceId: number, itemIds: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < itemIds.length; i++) {
+        await tx.update(workspaceItems)
+          .set({ position: i })
+          .where(and(eq(workspaceItems.id, itemIds[i]), eq(workspaceItems.workspaceId, workspaceId)));
+      }
+      await tx.update(workspaces).set({ updatedAt: new Date() }).where(eq(workspaces.id, workspaceId));
+    });
+  }
+
+  async getWorkspaceVisualization(workspaceId: number): Promise<WorkspaceVisualization> {
+    const items = await db.select({ itemType: workspaceItems.itemType, entityId: workspaceItems.entityId })
+      .from(workspaceItems)
+      .where(and(eq(workspaceItems.workspaceId, workspaceId), isNotNull(workspaceItems.entityId)));
+
+    const personIds = new Set(items.filter(i => i.itemType === "person").map(i => i.entityId!));
+    const documentIds = items.filter(i => i.itemType === "document").map(i => i.entityId!);
+    const eventIds = items.filter(i => i.itemType === "event").map(i => i.entityId!);
+
+    // Graph: the workspace's persons and the connections among them, from the cached full network
+    const network = await this.getNetworkData();
+    const graphPersons = network.persons
+      .filter(p => personIds.has(p.id))
+      .map(p => ({ id: p.id, name: p.name, category: p.category }));
+    const graphConnections = network.connections
+      .filter(c => personIds.has(c.personId1) && personIds.has(c.personId2));
+
+    // Timeline: events added directly, plus events sourced from the workspace's documents
+    const eventConditions: SQL[] = [];
+    if (eventIds.length > 0) eventConditions.push(inArray(timelineEvents.id, eventIds));
+    if (documentIds.length > 0) {
+      eventConditions.push(sql`${timelineEvents.documentIds} && ARRAY[${sql.join(documentIds.map(id => sql`${id}`), sql`, `)}]::int[]`);
+    }
+    const events = eventConditions.length > 0
+      ? await db.select().from(timelineEvents)
+          .where(or(...eventConditions))
+          .orderBy(asc(timelineEvents.date))
+          .limit(500)
+      : [];
+
+    return {
+      persons: graphPersons,
+      connections: graphConnections,
+      events: await enrichTimelineEvents(events),
+    };
+  }
+
+  async getPipelineJobs(opts: PipelineJobListOptions = {}): Promise<PipelineJob[]> {
+    const conditions: SQL[] = [];
+    if (opts.status) conditions.push(eq(pipelineJobs.status, opts.status));
+    if (opts.runId) conditions.push(eq(pipelineJobs.runId, opts.runId));
+    if (opts.stage) conditions.push(eq(pipelineJobs.jobType, opts.stage));
+    const query = db.select().from(pipelineJobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(pipelineJobs.createdAt), desc(pipelineJobs.id));
+    return opts.limit ? query.limit(opts.limit) : query;
   }
 
   async getPipelineStats(): Promise<{ pending: number; running: number; completed: number; failed: number }> {
@@ -1857,16 +2598,224 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  /** The run and all its jobs in one transaction, dependency indexes turned into job IDs. */
+  async createPipelineRun(stages: string[], config: Record<string, unknown>, plan: PlannedJob[]): Promise<PipelineRun> {
+    return db.transaction(async (tx) => {
+      const [run] = await tx.insert(pipelineRuns).values({ stages, config }).returning();
+      const ids: number[] = [];
+      for (const job of plan) {
+        const [inserted] = await tx.insert(pipelineJobs).values({
+          runId: run.id,
+          jobType: job.stage,
+          batchKey: job.batchKey,
+          metadata: job.metadata,
+          dependsOn: job.dependsOn.map((i) => ids[i]),
+        }).returning({ id: pipelineJobs.id });
+        ids.push(inserted.id);
+      }
+      return run;
+    });
+  }
+
+  /** Give a run's failed jobs a fresh set of attempts and reopen it. */
+  async resumePipelineRun(runId: number): Promise<PipelineRun | undefined> {
+    return db.transaction(async (tx) => {
+      await tx.update(pipelineJobs)
+        .set({ status: "pending", attempts: 0, errorMessage: null, nextAttemptAt: null, leaseOwner: null, leaseExpiresAt: null })
+        .where(and(eq(pipelineJobs.runId, runId), eq(pipelineJobs.status, "failed")));
+      const [run] = await tx.update(pipelineRuns)
+        .set({ status: "running", finishedAt: null })
+        .where(eq(pipelineRuns.id, runId))
+        .returning();
+      return run;
+    });
+  }
+
+  /**
+   * Close a run with nothing left to do: completed when every job completed,
+   * failed when any failed (their dependents can never start). Returns the
+   * run when it was closed, undefined while work remains.
+   */
+  async finishPipelineRun(runId: number): Promise<PipelineRun | undefined> {
+    const [counts] = await db.select({
+      open: sql<number>`count(*) FILTER (WHERE ${pipelineJobs.status} = 'running' OR (${pipelineJobs.status} = 'pending' AND NOT EXISTS (
+        SELECT 1 FROM pipeline_jobs d WHERE d.id = ANY(${pipelineJobs.dependsOn}) AND d.status = 'failed'
+      )))::int`,
+      failed: sql<number>`count(*) FILTER (WHERE ${pipelineJobs.status} = 'failed')::int`,
+    }).from(pipelineJobs).where(eq(pipelineJobs.runId, runId));
+    if (counts.open > 0) return undefined;
+    const [run] = await db.update(pipelineRuns)
+      .set({ status: counts.failed > 0 ? "failed" : "completed", finishedAt: new Date() })
+      .where(and(eq(pipelineRuns.id, runId), eq(pipelineRuns.status, "running")))
+      .returning();
+    return run;
+  }
+
+  async getPipelineRuns(limit: number): Promise<PipelineRunProgress[]> {
+    const runs = await db.select().from(pipelineRuns).orderBy(desc(pipelineRuns.id)).limit(limit);
+    const progress = await pipelineStageProgress(runs.map((r) => r.id));
+    return runs.map((run) => ({ ...run, stageProgress: progress.get(run.id) ?? [] }));
+  }
+
+  async getPipelineRunProgress(runId: number): Promise<PipelineRunProgress | undefined> {
+    const [run] = await db.select().from(pipelineRuns).where(eq(pipelineRuns.id, runId));
+    if (!run) return undefined;
+    const progress = await pipelineStageProgress([run.id]);
+    return { ...run, stageProgress: progress.get(run.id) ?? [] };
+  }
+
+  /**
+   * Lease the next job of a running run whose dependencies have all
+   * completed: a pending job due for its (next) attempt, or one whose worker
+   * let the lease lapse. SKIP LOCKED lets several workers claim at once
+   * without taking the same job.
+   */
+  async claimPipelineJob(workerId: string, leaseMs: number, runId?: number): Promise<PipelineJob | undefined> {
+    const result: any = await db.execute(sql`
+      UPDATE pipeline_jobs
+      SET status = 'running',
+          lease_owner = ${workerId},
+          lease_expires_at = now() + make_interval(secs => ${leaseMs / 1000}::double precision),
+          attempts = attempts + 1,
+          started_at = now(),
+          next_attempt_at = NULL
+      WHERE id = (
+        SELECT j.id FROM pipeline_jobs j
+        JOIN pipeline_runs r ON r.id = j.run_id AND r.status = 'running'
+        WHERE ((j.status = 'pending' AND (j.next_attempt_at IS NULL OR j.next_attempt_at <= now()))
+            OR (j.status = 'running' AND j.lease_expires_at < now() AND j.attempts < j.max_attempts))
+          ${runId ? sql`AND j.run_id = ${runId}` : sql``}
+          AND NOT EXISTS (
+            SELECT 1 FROM pipeline_jobs d WHERE d.id = ANY(j.depends_on) AND d.status <> 'completed'
+          )
+        ORDER BY j.priority DESC, j.id
+        LIMIT 1
+        FOR UPDATE OF j SKIP LOCKED
+      )
+      RETURNING id
+    `);
+    const id = (result.rows ?? result)[0]?.id;
+    if (!id) return undefined;
+    const [job] = await db.select().from(pipelineJobs).where(eq(pipelineJobs.id, id));
+    return job;
+  }
+
+  /** Extend a running job's lease; false when the worker no longer holds it. */
+  async renewPipelineJobLease(jobId: number, workerId: string, leaseMs: number): Promise<boolean> {
+    const renewed = await db.update(pipelineJobs)
+      .set({ leaseExpiresAt: sql`now() + make_interval(secs => ${leaseMs / 1000}::double precision)` })
+      .where(and(eq(pipelineJobs.id, jobId), eq(pipelineJobs.leaseOwner, workerId), eq(pipelineJobs.status, "running")))
+      .returning({ id: pipelineJobs.id });
+    return renewed.length > 0;
+  }
+
+  async completePipelineJob(jobId: number, workerId: string): Promise<void> {
+    await db.update(pipelineJobs)
+      .set({ status: "completed", completedAt: new Date(), errorMessage: null, leaseOwner: null, leaseExpiresAt: null })
+      .where(and(eq(pipelineJobs.id, jobId), eq(pipelineJobs.leaseOwner, workerId)));
+  }
+
+  /** Back to pending until `retryAt`, or failed for good when that is null. */
+  async failPipelineJob(jobId: number, workerId: string, message: string, retryAt: Date | null): Promise<void> {
+    await db.update(pipelineJobs)
+      .set({
+        status: retryAt ? "pending" : "failed",
+        errorMessage: message.slice(0, 2000),
+        nextAttemptAt: retryAt,
+        completedAt: retryAt ? null : new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      })
+      .where(and(eq(pipelineJobs.id, jobId), eq(pipelineJobs.leaseOwner, workerId)));
+  }
+
+  /** Fail jobs whose worker stopped renewing the lease on their last allowed attempt. */
+  async expirePipelineLeases(): Promise<number> {
+    const expired = await db.update(pipelineJobs)
+      .set({ status: "failed", errorMessage: "Lease expired: the worker stopped on the last attempt", completedAt: new Date(), leaseOwner: null, leaseExpiresAt: null })
+      .where(and(
+        eq(pipelineJobs.status, "running"),
+        isNotNull(pipelineJobs.runId),
+        sql`${pipelineJobs.leaseExpiresAt} < now()`,
+        sql`${pipelineJobs.attempts} >= ${pipelineJobs.maxAttempts}`,
+      ))
+      .returning({ id: pipelineJobs.id });
+    return expired.length;
+  }
+
+  /**
+   * Jobs finished per stage over the last `hours`, with each stage's current
+   * queue. A job that failed for good counts as finished when it last ran.
+   */
+  async getPipelineThroughput(hours: number): Promise<PipelineThroughput> {
+    const since = new Date(Date.now() - hours * 3_600_000);
+    const finishedAt = sql`coalesce(${pipelineJobs.completedAt}, ${pipelineJobs.startedAt}, ${pipelineJobs.createdAt})`;
+    const completedInWindow = sql`${pipelineJobs.status} = 'completed' AND ${finishedAt} >= ${since}`;
+    const failedInWindow = sql`${pipelineJobs.status} = 'failed' AND ${finishedAt} >= ${since}`;
+
+    const stages = await db.select({
+      stage: pipelineJobs.jobType,
+      completed: sql<number>`count(*) FILTER (WHERE ${completedInWindow})::int`,
+      failed: sql<number>`count(*) FILTER (WHERE ${failedInWindow})::int`,
+      pending: sql<number>`count(*) FILTER (WHERE ${pipelineJobs.status} = 'pending')::int`,
+      running: sql<number>`count(*) FILTER (WHERE ${pipelineJobs.status} = 'running')::int`,
+      avgDurationSeconds: sql<number | null>`round(avg(extract(epoch FROM ${pipelineJobs.completedAt} - ${pipelineJobs.startedAt})) FILTER (WHERE ${completedInWindow}))::int`,
+      lastCompletedAt: sql<string | null>`to_char(max(${pipelineJobs.completedAt}) FILTER (WHERE ${pipelineJobs.status} = 'completed'), 'YYYY-MM-DD"T"HH24:MI:SS')`,
+    })
+      .from(pipelineJobs)
+      .where(or(inArray(pipelineJobs.status, ["pending", "running"]), sql`${finishedAt} >= ${since}`))
+      .groupBy(pipelineJobs.jobType)
+      .orderBy(pipelineJobs.jobType);
+
+    const hourly = await db.select({
+      hour: sql<string>`to_char(date_trunc('hour', ${finishedAt}), 'YYYY-MM-DD"T"HH24:00')`,
+      completed: sql<number>`count(*) FILTER (WHERE ${pipelineJobs.status} = 'completed')::int`,
+      failed: sql<number>`count(*) FILTER (WHERE ${pipelineJobs.status} = 'failed')::int`,
+    })
+      .from(pipelineJobs)
+      .where(and(inArray(pipelineJobs.status, ["completed", "failed"]), sql`${finishedAt} >= ${since}`))
+      .groupBy(sql`1`)
+      .orderBy(sql`1`);
+
+    return { hours, stages, hourly };
+  }
+
+  /** Reset failed jobs to pending with fresh attempts, reopening their runs. Returns how many were reset. */
+  async retryPipelineJobs(ids: number[]): Promise<number> {
+    return db.transaction(async (tx) => {
+      const retried = await tx.update(pipelineJobs)
+        .set({ status: "pending", attempts: 0, errorMessage: null, nextAttemptAt: null, completedAt: null, leaseOwner: null, leaseExpiresAt: null })
+        .where(and(inArray(pipelineJobs.id, ids), eq(pipelineJobs.status, "failed")))
+        .returning({ runId: pipelineJobs.runId });
+      const runIds = Array.from(new Set(retried.map((r) => r.runId).filter((id): id is number => id !== null)));
+      if (runIds.length > 0) {
+        await tx.update(pipelineRuns)
+          .set({ status: "running", finishedAt: null })
+          .where(inArray(pipelineRuns.id, runIds));
+      }
+      return retried.length;
+    });
+  }
+
+  async setPipelineJobPriority(jobId: number, priority: number): Promise<PipelineJob | undefined> {
+    const [job] = await db.update(pipelineJobs)
+      .set({ priority })
+      .where(eq(pipelineJobs.id, jobId))
+      .returning();
+    return job;
+  }
+
+  /** All-time AI spend in fractional cents, in total and by model. */
   async getBudgetSummary(): Promise<{ totalCostCents: number; totalInputTokens: number; totalOutputTokens: number; byModel: Record<string, number> }> {
     const [totals] = await db.select({
-      totalCostCents: sql<number>`coalesce(sum(${budgetTracking.costCents}), 0)::int`,
+      totalCostCents: sql<number>`coalesce(sum(${budgetTracking.costCents}), 0)::float8`,
       totalInputTokens: sql<number>`coalesce(sum(${budgetTracking.inputTokens}), 0)::int`,
       totalOutputTokens: sql<number>`coalesce(sum(${budgetTracking.outputTokens}), 0)::int`,
     }).from(budgetTracking);
 
     const modelRows = await db.select({
       model: budgetTracking.model,
-      cost: sql<number>`coalesce(sum(${budgetTracking.costCents}), 0)::int`,
+      cost: sql<number>`coalesce(sum(${budgetTracking.costCents}), 0)::float8`,
     }).from(budgetTracking).groupBy(budgetTracking.model);
 
     const byModel: Record<string, number> = {};
@@ -1882,6 +2831,52 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  /** AI spend per day or month for the last `periods` days/months, by model and job type, newest first. */
+  async getBudgetSpend(period: "day" | "month", periods: number): Promise<BudgetSpendRow[]> {
+    const start = new Date();
+    if (period === "month") {
+      start.setUTCDate(1);
+      start.setUTCMonth(start.getUTCMonth() - (periods - 1));
+    } else {
+      start.setUTCDate(start.getUTCDate() - (periods - 1));
+    }
+    // budget_tracking.date is an ISO day ("2026-01-31"); its first 7 characters are the month
+    const periodExpr = period === "month" ? sql<string>`substr(${budgetTracking.date}, 1, 7)` : sql<string>`${budgetTracking.date}`;
+    return db.select({
+      period: periodExpr,
+      model: budgetTracking.model,
+      jobType: budgetTracking.jobType,
+      costCents: sql<number>`coalesce(sum(${budgetTracking.costCents}), 0)::float8`,
+      inputTokens: sql<number>`coalesce(sum(${budgetTracking.inputTokens}), 0)::int`,
+      outputTokens: sql<number>`coalesce(sum(${budgetTracking.outputTokens}), 0)::int`,
+    })
+      .from(budgetTracking)
+      .where(gte(budgetTracking.date, start.toISOString().slice(0, 10)))
+      .groupBy(sql`1`, budgetTracking.model, budgetTracking.jobType)
+      .orderBy(sql`1 DESC`, sql`4 DESC`);
+  }
+
+  /** Every budget policy with what its matching calls have spent on `day` ("2026-01-31") and in that month. */
+  async getBudgetPolicyUsage(day: string): Promise<BudgetPolicyUsage[]> {
+    const monthStart = `${day.slice(0, 7)}-01`;
+    return db.select({
+      policy: budgetPolicies,
+      spentTodayCents: sql<number>`coalesce(sum(${budgetTracking.costCents}) filter (where ${budgetTracking.date} = ${day}), 0)::float8`,
+      spentMonthCents: sql<number>`coalesce(sum(${budgetTracking.costCents}), 0)::float8`,
+    })
+      .from(budgetPolicies)
+      .leftJoin(budgetTracking, and(
+        gte(budgetTracking.date, monthStart),
+        lte(budgetTracking.date, day),
+        // A null policy column matches any value
+        sql`(${budgetPolicies.jobType} IS NULL OR ${budgetPolicies.jobType} = ${budgetTracking.jobType})`,
+        sql`(${budgetPolicies.model} IS NULL OR ${budgetPolicies.model} = ${budgetTracking.model})`,
+        sql`(${budgetPolicies.dataSet} IS NULL OR ${budgetPolicies.dataSet} = ${budgetTracking.dataSet})`,
+      ))
+      .groupBy(budgetPolicies.id)
+      .orderBy(budgetPolicies.id);
+  }
+
   async getAIAnalysisList(opts: { page: number; limit: number; search?: string; documentType?: string; dataSet?: string }): Promise<{ data: AIAnalysisListItem[]; total: number }> {
     const { page, limit, search, documentType, dataSet } = opts;
     const conditions: SQL[] = [];
@@ -1969,6 +2964,19 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  async getAIAnalysisVersions(fileName: string): Promise<{ currentVersion: number | null; versions: AIAnalysisVersion[] }> {
+    const cleanName = fileName.replace(/\.json$/, "");
+
+    const [current] = await db.select({ version: aiAnalyses.version }).from(aiAnalyses)
+      .where(eq(aiAnalyses.fileName, cleanName))
+      .limit(1);
+    const versions = await db.select().from(aiAnalysisVersions)
+      .where(eq(aiAnalysisVersions.fileName, cleanName))
+      .orderBy(desc(aiAnalysisVersions.version));
+
+    return { currentVersion: current?.version ?? null, versions };
+  }
+
   async getAIAnalysisAggregate(): Promise<AIAnalysisAggregate> {
     return aiAggregateCache.get(async () => {
       const [personCount, connectionCount, eventCount, totalDocs] = await Promise.all([
@@ -2028,6 +3036,762 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  async getEntitiesPaginated(opts: { page: number; limit: number; entityType?: string; search?: string }): Promise<{ data: Entity[]; total: number; page: number; totalPages: number }> {
+    const conditions: SQL[] = [];
+    if (opts.entityType) conditions.push(eq(entities.entityType, opts.entityType));
+    if (opts.search) conditions.push(ilike(entities.name, `%${escapeLikePattern(opts.search)}%`));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [[countResult], data] = await Promise.all([
+      db.select({ count: sql<number>`count(*)::int` }).from(entities).where(where),
+      db.select().from(entities)
+        .where(where)
+        .orderBy(desc(entities.documentCount), asc(entities.id))
+        .limit(opts.limit)
+        .offset((opts.page - 1) * opts.limit),
+    ]);
+
+    const total = countResult.count;
+    return { data, total, page: opts.page, totalPages: Math.ceil(total / opts.limit) };
+  }
+
+  async getEntityTypes(): Promise<{ type: string; count: number }[]> {
+    return entityTypesCache.get(() =>
+      db.select({
+        type: entities.entityType,
+        count: sql<number>`count(*)::int`,
+      })
+        .from(entities)
+        .groupBy(entities.entityType)
+        .orderBy(sql`count(*) desc`)
+    );
+  }
+
+  async getEntity(id: number): Promise<Entity | undefined> {
+    const [entity] = await db.select().from(entities).where(eq(entities.id, id));
+    return entity || undefined;
+  }
+
+  async getEntityWithDetails(id: number): Promise<(Entity & { connections: EntityConnectionDetail[] }) | undefined> {
+    const cached = getFromMapCache(entityDetailCache, id, DETAIL_CACHE_TTL);
+    if (cached) return cached;
+
+    const entity = await this.getEntity(id);
+    if (!entity) return undefined;
+
+    const result = { ...entity, connections: await this.getEntityConnections(id) };
+
+    entityDetailCache.set(id, { data: result, cachedAt: Date.now() });
+    evictExpired(entityDetailCache, DETAIL_CACHE_TTL, MAX_DETAIL_CACHE);
+    return result;
+  }
+
+  async getEntityDocuments(id: number, page: number, limit: number): Promise<{ data: (Document & { context: string | null })[]; total: number; page: number; totalPages: number }> {
+    const r2Cond = r2Filter();
+    const where = r2Cond
+      ? and(eq(entityDocuments.entityId, id), r2Cond)
+      : eq(entityDocuments.entityId, id);
+
+    const [[countResult], rows] = await Promise.all([
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(entityDocuments)
+        .innerJoin(documents, eq(entityDocuments.documentId, documents.id))
+        .where(where),
+      db.select({ document: documents, context: entityDocuments.context })
+        .from(entityDocuments)
+        .innerJoin(documents, eq(entityDocuments.documentId, documents.id))
+        .where(where)
+        .orderBy(asc(documents.id))
+        .limit(limit)
+        .offset((page - 1) * limit),
+    ]);
+
+    const total = countResult.count;
+    return {
+      data: rows.map(r => ({ ...r.document, context: r.context })),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /** Name/alias hits on document pages, in reading order, with a snippet cut from the page text. */
+  async getPersonMentions(personId: number, page: number, limit: number): Promise<{ data: PersonMentionDetail[]; total: number; page: number; totalPages: number }> {
+    const r2Cond = r2Filter();
+    const where = r2Cond
+      ? and(eq(personMentions.personId, personId), r2Cond)
+      : eq(personMentions.personId, personId);
+
+    const [[countResult], rows] = await Promise.all([
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(personMentions)
+        .innerJoin(documents, eq(personMentions.documentId, documents.id))
+        .where(where),
+      db.select({ mention: personMentions, documentTitle: documents.title, content: documentPages.content })
+        .from(personMentions)
+        .innerJoin(documents, eq(personMentions.documentId, documents.id))
+        .innerJoin(documentPages, and(
+          eq(documentPages.documentId, personMentions.documentId),
+          eq(documentPages.pageNumber, personMentions.pageNumber),
+        ))
+        .where(where)
+        .orderBy(asc(personMentions.documentId), asc(personMentions.pageNumber), asc(personMentions.charStart))
+        .limit(limit)
+        .offset((page - 1) * limit),
+    ]);
+
+    const total = countResult.count;
+    return {
+      data: rows.map(r => ({
+        ...r.mention,
+        documentTitle: r.documentTitle,
+        ...mentionSnippet(r.content, r.mention.charStart, r.mention.charEnd),
+      })),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /** Pages mentioning any of the persons, those naming the most of them (then most often) first. */
+  async getPersonMentionPages(personIds: number[], limit: number): Promise<{ documentId: number; pageNumber: number; documentTitle: string; personCount: number; mentionCount: number }[]> {
+    if (personIds.length === 0) return [];
+    const r2Cond = r2Filter();
+    const inPersons = inArray(personMentions.personId, personIds);
+    const personCount = sql<number>`count(DISTINCT ${personMentions.personId})::int`;
+    const mentionCount = sql<number>`count(*)::int`;
+    return db
+      .select({
+        documentId: personMentions.documentId,
+        pageNumber: personMentions.pageNumber,
+        documentTitle: documents.title,
+        personCount,
+        mentionCount,
+      })
+      .from(personMentions)
+      .innerJoin(documents, eq(personMentions.documentId, documents.id))
+      .where(r2Cond ? and(inPersons, r2Cond) : inPersons)
+      .groupBy(personMentions.documentId, personMentions.pageNumber, documents.title)
+      .orderBy(desc(personCount), desc(mentionCount), asc(personMentions.documentId), asc(personMentions.pageNumber))
+      .limit(limit);
+  }
+
+  async getEmails(opts: { page: number; limit: number; personId?: number; documentId?: number; address?: string; search?: string }): Promise<{ data: EmailSummary[]; total: number; page: number; totalPages: number }> {
+    const { page, limit, personId, documentId, address, search } = opts;
+    const conditions: SQL[] = [];
+    const r2Cond = r2Filter();
+    if (r2Cond) conditions.push(r2Cond);
+    if (documentId) conditions.push(eq(emails.documentId, documentId));
+    if (personId) {
+      conditions.push(inArray(
+        emails.id,
+        db.select({ id: emailParticipants.emailId }).from(emailParticipants).where(eq(emailParticipants.personId, personId)),
+      ));
+    }
+    if (address) {
+      const needle = JSON.stringify([{ address: address.toLowerCase() }]);
+      conditions.push(or(
+        sql`${emails.sender}->>'address' = ${address.toLowerCase()}`,
+        sql`${emails.recipients} @> ${needle}::jsonb`,
+        sql`${emails.cc} @> ${needle}::jsonb`,
+      )!);
+    }
+    if (search) {
+      const pattern = `%${escapeLikePattern(search)}%`;
+      conditions.push(or(ilike(emails.subject, pattern), ilike(emails.body, pattern))!);
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    return this.queryEmailSummaries(where, sql`${emails.sentAt} DESC NULLS LAST`, page, limit);
+  }
+
+  private async queryEmailSummaries(where: SQL | undefined, order: SQL, page: number, limit: number): Promise<{ data: EmailSummary[]; total: number; page: number; totalPages: number }> {
+    const { body: _body, ...summaryColumns } = getTableColumns(emails);
+    const [[countResult], rows] = await Promise.all([
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(emails)
+        .innerJoin(documents, eq(emails.documentId, documents.id))
+        .where(where),
+      db.select({
+        ...summaryColumns,
+        documentTitle: documents.title,
+        preview: sql<string>`left(${emails.body}, 200)`,
+      })
+        .from(emails)
+        .innerJoin(documents, eq(emails.documentId, documents.id))
+        .where(where)
+        .orderBy(order, asc(emails.id))
+        .limit(limit)
+        .offset((page - 1) * limit),
+    ]);
+
+    const total = countResult.count;
+    return { data: rows, total, page, totalPages: Math.ceil(total / limit) };
+  }
+
+  async getEmail(id: number): Promise<(Email & { documentTitle: string }) | undefined> {
+    const [row] = await db.select({ email: emails, documentTitle: documents.title })
+      .from(emails)
+      .innerJoin(documents, eq(emails.documentId, documents.id))
+      .where(eq(emails.id, id));
+    return row ? { ...row.email, documentTitle: row.documentTitle } : undefined;
+  }
+
+  async getEmailThread(threadId: string): Promise<EmailThread | undefined> {
+    const [thread] = await this.loadEmailThreads([threadId]);
+    return thread;
+  }
+
+  /** Every thread with a message in the document, including replies that were filed in other documents. */
+  async getDocumentEmailThreads(documentId: number): Promise<EmailThread[]> {
+    const rows = await db.selectDistinct({ threadId: emails.threadId })
+      .from(emails)
+      .where(eq(emails.documentId, documentId));
+    return this.loadEmailThreads(rows.map(r => r.threadId));
+  }
+
+  async getDocumentTables(documentId: number): Promise<DocumentTable[]> {
+    return db.select()
+      .from(documentTables)
+      .where(eq(documentTables.documentId, documentId))
+      .orderBy(asc(documentTables.position));
+  }
+
+  async getDocumentTableRows(documentId: number, tableId: number, opts: TableRowsOptions): Promise<{ table: DocumentTable; data: DocumentTableRow[]; total: number; page: number; totalPages: number } | undefined> {
+    const [table] = await db.select()
+      .from(documentTables)
+      .where(and(eq(documentTables.id, tableId), eq(documentTables.documentId, documentId)));
+    if (!table) return undefined;
+
+    // Postgres arrays are 1-based
+    const cell = (column: number) => sql`${documentTableRows.cells}[${column + 1}]`;
+    const conditions: SQL[] = [eq(documentTableRows.tableId, tableId)];
+    if (opts.search) {
+      conditions.push(ilike(sql`array_to_string(${documentTableRows.cells}, ' ')`, `%${escapeLikePattern(opts.search)}%`));
+    }
+    for (const filter of opts.filters) {
+      conditions.push(ilike(cell(filter.column), `%${escapeLikePattern(filter.value)}%`));
+    }
+    const where = and(...conditions);
+
+    // Numeric cells sort by value (amounts, counts) ahead of text; ISO dates already sort as text
+    const direction = sql.raw(opts.order === "desc" ? "DESC" : "ASC");
+    const order: SQL[] = opts.sort === null ? [] : [
+      sql`CASE WHEN ${cell(opts.sort)} ~ '^-?[0-9]+([.][0-9]+)?$' THEN ${cell(opts.sort)}::numeric END ${direction} NULLS LAST`,
+      sql`${cell(opts.sort)} ${direction}`,
+    ];
+
+    const [[countResult], data] = await Promise.all([
+      db.select({ count: sql<number>`count(*)::int` }).from(documentTableRows).where(where),
+      db.select()
+        .from(documentTableRows)
+        .where(where)
+        .orderBy(...order, asc(documentTableRows.rowIndex))
+        .limit(opts.limit)
+        .offset((opts.page - 1) * opts.limit),
+    ]);
+
+    const total = countResult.count;
+    return { table, data, total, page: opts.page, totalPages: Math.ceil(total / opts.limit) };
+  }
+
+  /** Every row of a table in sheet order, for CSV download. */
+  async getDocumentTableCells(documentId: number, tableId: number): Promise<{ table: DocumentTable; rows: string[][] } | undefined> {
+    const [table] = await db.select()
+      .from(documentTables)
+      .where(and(eq(documentTables.id, tableId), eq(documentTables.documentId, documentId)));
+    if (!table) return undefined;
+
+    const rows = await db.select({ cells: documentTableRows.cells })
+      .from(documentTableRows)
+      .where(eq(documentTableRows.tableId, tableId))
+      .orderBy(asc(documentTableRows.rowIndex));
+    return { table, rows: rows.map(r => r.cells) };
+  }
+
+  /** Rows whose cell under a matching column name contains `q`, across every document's tables. */
+  async searchDocumentTables(opts: TableSearchOptions): Promise<{ data: DocumentTableSearchHit[]; total: number; page: number; totalPages: number }> {
+    const conditions: SQL[] = [
+      sql`c.name ILIKE ${`%${escapeLikePattern(opts.column)}%`}`,
+      sql`r.cells[c.idx] ILIKE ${`%${escapeLikePattern(opts.q)}%`}`,
+      sql`(d.file_size_bytes IS NULL OR d.file_size_bytes != 0)`,
+    ];
+    if (isR2Configured()) conditions.push(sql`d.r2_key IS NOT NULL`);
+    if (opts.dataSet) conditions.push(sql`d.data_set = ${opts.dataSet}`);
+    const from = sql`
+      FROM document_tables t
+      CROSS JOIN LATERAL unnest(t.columns) WITH ORDINALITY AS c(name, idx)
+      JOIN document_table_rows r ON r.table_id = t.id
+      JOIN documents d ON d.id = t.document_id
+      WHERE ${sql.join(conditions, sql` AND `)}
+    `;
+
+    const [countResult, pageResult]: any[] = await Promise.all([
+      db.execute(sql`SELECT COUNT(*)::int AS cnt ${from}`),
+      db.execute(sql`
+        SELECT t.document_id, d.title, t.id AS table_id, t.name AS table_name, c.name AS column_name,
+          c.idx::int AS column_index, t.columns, r.row_index, r.cells
+        ${from}
+        ORDER BY t.document_id, t.position, r.row_index, c.idx
+        LIMIT ${opts.limit} OFFSET ${(opts.page - 1) * opts.limit}
+      `),
+    ]);
+
+    const total = (countResult.rows ?? countResult)[0]?.cnt ?? 0;
+    const data = ((pageResult.rows ?? pageResult) as any[]).map((row): DocumentTableSearchHit => ({
+      documentId: row.document_id,
+      documentTitle: row.title,
+      tableId: row.table_id,
+      tableName: row.table_name,
+      column: row.column_name,
+      columnIndex: row.column_index - 1,
+      columns: row.columns,
+      rowIndex: row.row_index,
+      cells: row.cells,
+    }));
+    return { data, total, page: opts.page, totalPages: Math.ceil(total / opts.limit) };
+  }
+
+  /** Flights in date order (undated last), optionally for one passenger, aircraft, airport or date range. */
+  async getFlights(opts: FlightListOptions): Promise<{ data: FlightDetail[]; total: number; page: number; totalPages: number }> {
+    const conditions: SQL[] = [];
+    const r2Cond = r2Filter();
+    if (r2Cond) conditions.push(r2Cond);
+    if (opts.personId !== null) {
+      conditions.push(sql`EXISTS (SELECT 1 FROM flight_passengers fp WHERE fp.flight_id = ${flights.id} AND fp.person_id = ${opts.personId})`);
+    }
+    if (opts.aircraftId !== null) conditions.push(eq(flights.aircraftEntityId, opts.aircraftId));
+    if (opts.airport) {
+      conditions.push(or(sql`lower(${flights.origin}) = lower(${opts.airport})`, sql`lower(${flights.destination}) = lower(${opts.airport})`)!);
+    }
+    // Dates are stored at the source's precision, so compare on the filter's own precision:
+    // dateTo=1997 keeps 1997-12-31, and a flight dated only "1997" passes dateFrom=1997-06
+    if (opts.dateFrom) conditions.push(sql`left(${flights.date}, ${opts.dateFrom.length}) >= left(${opts.dateFrom}, length(${flights.date}))`);
+    if (opts.dateTo) conditions.push(sql`left(${flights.date}, ${opts.dateTo.length}) <= left(${opts.dateTo}, length(${flights.date}))`);
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [[countResult], rows] = await Promise.all([
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(flights)
+        .innerJoin(documents, eq(flights.documentId, documents.id))
+        .where(where),
+      db.select({ flight: flights, documentTitle: documents.title, aircraftEntityName: entities.name })
+        .from(flights)
+        .innerJoin(documents, eq(flights.documentId, documents.id))
+        .leftJoin(entities, eq(flights.aircraftEntityId, entities.id))
+        .where(where)
+        .orderBy(sql`${flights.date} ASC NULLS LAST`, asc(flights.id))
+        .limit(opts.limit)
+        .offset((opts.page - 1) * opts.limit),
+    ]);
+
+    const total = countResult.count;
+    return { data: await this.withPassengers(rows), total, page: opts.page, totalPages: Math.ceil(total / opts.limit) };
+  }
+
+  async getFlight(id: number): Promise<FlightDetail | undefined> {
+    const rows = await db.select({ flight: flights, documentTitle: documents.title, aircraftEntityName: entities.name })
+      .from(flights)
+      .innerJoin(documents, eq(flights.documentId, documents.id))
+      .leftJoin(entities, eq(flights.aircraftEntityId, entities.id))
+      .where(eq(flights.id, id));
+    const [flight] = await this.withPassengers(rows);
+    return flight;
+  }
+
+  /** Persons who shared a flight with `personId`, most shared flights first. */
+  async getCoPassengers(personId: number, opts: { limit: number }): Promise<CoPassenger[]> {
+    const mine = alias(flightPassengers, "mine");
+    const other = alias(flightPassengers, "other");
+    const conditions: SQL[] = [eq(mine.personId, personId), ne(other.personId, personId)];
+    const r2Cond = r2Filter();
+    if (r2Cond) conditions.push(r2Cond);
+
+    const flightCount = sql<number>`count(DISTINCT ${flights.id})::int`;
+    return db.select({
+      personId: persons.id,
+      name: persons.name,
+      category: persons.category,
+      imageUrl: persons.imageUrl,
+      flightCount,
+      firstDate: sql<string | null>`min(${flights.date})`,
+      lastDate: sql<string | null>`max(${flights.date})`,
+    })
+      .from(mine)
+      .innerJoin(other, eq(other.flightId, mine.flightId))
+      .innerJoin(persons, eq(persons.id, other.personId))
+      .innerJoin(flights, eq(flights.id, mine.flightId))
+      .innerJoin(documents, eq(flights.documentId, documents.id))
+      .where(and(...conditions))
+      .groupBy(persons.id)
+      .orderBy(desc(flightCount), asc(persons.name))
+      .limit(opts.limit);
+  }
+
+  /** Places with the number of their documents that pass the person and year filters; places with none are left out. */
+  async getLocations(opts: LocationMapOptions): Promise<LocationDensity[]> {
+    const conditions = locationDocumentFilters(opts);
+    if (opts.kind) conditions.push(eq(locations.kind, opts.kind));
+
+    const documentCount = sql<number>`count(DISTINCT ${locationDocuments.documentId})::int`;
+    return db.select({
+      id: locations.id,
+      name: locations.name,
+      kind: locations.kind,
+      country: locations.country,
+      admin: locations.admin,
+      latitude: locations.latitude,
+      longitude: locations.longitude,
+      documentCount,
+    })
+      .from(locations)
+      .innerJoin(locationDocuments, eq(locationDocuments.locationId, locations.id))
+      .innerJoin(documents, eq(locationDocuments.documentId, documents.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(locations.id)
+      .orderBy(desc(documentCount), asc(locations.name));
+  }
+
+  /** A place with the persons most linked to its documents, its documents per year and the timeline events that name it. */
+  async getLocation(id: number): Promise<LocationDetail | undefined> {
+    const [location] = await db.select().from(locations).where(eq(locations.id, id));
+    if (!location) return undefined;
+
+    const conditions: SQL[] = [eq(locationDocuments.locationId, id)];
+    const r2Cond = r2Filter();
+    if (r2Cond) conditions.push(r2Cond);
+    const personCount = sql<number>`count(DISTINCT ${locationDocuments.documentId})::int`;
+    const yearCount = sql<number>`count(*)::int`;
+
+    const [personRows, yearRows, eventRows] = await Promise.all([
+      db.select({ id: persons.id, name: persons.name, category: persons.category, documentCount: personCount })
+        .from(locationDocuments)
+        .innerJoin(documents, eq(locationDocuments.documentId, documents.id))
+        .innerJoin(personDocuments, eq(personDocuments.documentId, locationDocuments.documentId))
+        .innerJoin(persons, eq(persons.id, personDocuments.personId))
+        .where(and(...conditions))
+        .groupBy(persons.id)
+        .orderBy(desc(personCount), asc(persons.name))
+        .limit(20),
+      db.select({ year: sql<number>`${locationDocuments.year}`, documentCount: yearCount })
+        .from(locationDocuments)
+        .innerJoin(documents, eq(locationDocuments.documentId, documents.id))
+        .where(and(...conditions, isNotNull(locationDocuments.year)))
+        .groupBy(locationDocuments.year)
+        .orderBy(asc(locationDocuments.year)),
+      db.select().from(timelineEvents)
+        .where(sql`${timelineEvents.locationIds} @> ARRAY[${id}]::int[]`)
+        .orderBy(asc(timelineEvents.date))
+        .limit(50),
+    ]);
+
+    return { ...location, persons: personRows, years: yearRows, timelineEvents: eventRows };
+  }
+
+  async getLocationDocuments(id: number, page: number, limit: number, opts: LocationMapOptions): Promise<{ data: (Document & { year: number | null })[]; total: number; page: number; totalPages: number }> {
+    const where = and(eq(locationDocuments.locationId, id), ...locationDocumentFilters(opts));
+
+    const [[countResult], rows] = await Promise.all([
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(locationDocuments)
+        .innerJoin(documents, eq(locationDocuments.documentId, documents.id))
+        .where(where),
+      db.select({ document: documents, year: locationDocuments.year })
+        .from(locationDocuments)
+        .innerJoin(documents, eq(locationDocuments.documentId, documents.id))
+        .where(where)
+        .orderBy(sql`${locationDocuments.year} ASC NULLS LAST`, asc(documents.id))
+        .limit(limit)
+        .offset((page - 1) * limit),
+    ]);
+
+    const total = countResult.count;
+    return {
+      data: rows.map(({ document, year }) => ({ ...document, year })),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  private async withPassengers(rows: { flight: typeof flights.$inferSelect; documentTitle: string; aircraftEntityName: string | null }[]): Promise<FlightDetail[]> {
+    if (rows.length === 0) return [];
+    const passengers = await db.select({
+      flightId: flightPassengers.flightId,
+      personId: flightPassengers.personId,
+      rawName: flightPassengers.rawName,
+      personName: persons.name,
+    })
+      .from(flightPassengers)
+      .leftJoin(persons, eq(flightPassengers.personId, persons.id))
+      .where(inArray(flightPassengers.flightId, rows.map(r => r.flight.id)))
+      .orderBy(asc(flightPassengers.id));
+
+    const byFlight = new Map<number, FlightDetail["passengers"]>();
+    for (const { flightId, ...passenger } of passengers) {
+      const list = byFlight.get(flightId);
+      if (list) list.push(passenger);
+      else byFlight.set(flightId, [passenger]);
+    }
+    return rows.map(({ flight, documentTitle, aircraftEntityName }) => ({
+      ...flight,
+      documentTitle,
+      aircraftEntityName,
+      passengers: byFlight.get(flight.id) ?? [],
+    }));
+  }
+
+  private async loadEmailThreads(threadIds: string[]): Promise<EmailThread[]> {
+    if (threadIds.length === 0) return [];
+    const rows = await db.select({ email: emails, documentTitle: documents.title })
+      .from(emails)
+      .innerJoin(documents, eq(emails.documentId, documents.id))
+      .where(inArray(emails.threadId, threadIds))
+      .orderBy(sql`${emails.sentAt} ASC NULLS LAST`, asc(emails.documentId), asc(emails.position));
+
+    const threads = new Map<string, EmailThread>();
+    for (const { email, documentTitle } of rows) {
+      let thread = threads.get(email.threadId);
+      if (!thread) {
+        thread = { threadId: email.threadId, subject: email.subject, messageCount: 0, firstSentAt: null, lastSentAt: null, emails: [] };
+        threads.set(email.threadId, thread);
+      }
+      thread.emails.push({ ...email, documentTitle });
+      thread.messageCount++;
+      if (email.sentAt) {
+        thread.firstSentAt ??= email.sentAt;
+        thread.lastSentAt = email.sentAt;
+      }
+    }
+    // Threads read oldest first, like the messages inside them
+    return threadIds
+      .map(id => threads.get(id))
+      .filter((t): t is EmailThread => !!t)
+      .sort((a, b) => (a.firstSentAt?.getTime() ?? Number.MAX_SAFE_INTEGER) - (b.firstSentAt?.getTime() ?? Number.MAX_SAFE_INTEGER));
+  }
+
+  /** Sender → recipient message counts per person pair, from email_participants. */
+  async getCommunicationGraph(options: CommunicationGraphOptions): Promise<CommunicationGraph> {
+    const sender = alias(emailParticipants, "sender");
+    const recipient = alias(emailParticipants, "recipient");
+    const conditions: SQL[] = [
+      eq(sender.role, "from"),
+      options.includeCc ? inArray(recipient.role, ["to", "cc"]) : eq(recipient.role, "to"),
+      ne(sender.personId, recipient.personId),
+    ];
+    const r2Cond = r2Filter();
+    if (r2Cond) conditions.push(r2Cond);
+    if (options.dataSet) conditions.push(eq(documents.dataSet, options.dataSet));
+    if (options.yearFrom !== null) conditions.push(gte(emails.sentAt, new Date(Date.UTC(options.yearFrom, 0, 1))));
+    if (options.yearTo !== null) conditions.push(lt(emails.sentAt, new Date(Date.UTC(options.yearTo + 1, 0, 1))));
+
+    const messageCount = sql<number>`count(DISTINCT ${emails.id})::int`;
+    const edges = await db.select({
+      fromPersonId: sender.personId,
+      toPersonId: recipient.personId,
+      messageCount,
+      firstSentAt: sql<Date | null>`min(${emails.sentAt})`.mapWith(emails.sentAt),
+      lastSentAt: sql<Date | null>`max(${emails.sentAt})`.mapWith(emails.sentAt),
+    })
+      .from(sender)
+      .innerJoin(recipient, eq(recipient.emailId, sender.emailId))
+      .innerJoin(emails, eq(emails.id, sender.emailId))
+      .innerJoin(documents, eq(emails.documentId, documents.id))
+      .where(and(...conditions))
+      .groupBy(sender.personId, recipient.personId)
+      .having(gte(messageCount, options.minMessages));
+
+    const { persons: networkPersons } = await this.getNetworkData();
+    return buildCommunicationGraph(networkPersons, edges, options);
+  }
+
+  /** Messages either person sent to the other, oldest first. */
+  async getCommunicationTimeline(personId: number, otherPersonId: number, opts: { page: number; limit: number; includeCc: boolean }): Promise<{ data: EmailSummary[]; total: number; page: number; totalPages: number }> {
+    const sender = alias(emailParticipants, "sender");
+    const recipient = alias(emailParticipants, "recipient");
+    const pairEmails = db.select({ id: sender.emailId })
+      .from(sender)
+      .innerJoin(recipient, eq(recipient.emailId, sender.emailId))
+      .where(and(
+        eq(sender.role, "from"),
+        opts.includeCc ? inArray(recipient.role, ["to", "cc"]) : eq(recipient.role, "to"),
+        or(
+          and(eq(sender.personId, personId), eq(recipient.personId, otherPersonId)),
+          and(eq(sender.personId, otherPersonId), eq(recipient.personId, personId)),
+        ),
+      ));
+
+    const conditions: SQL[] = [inArray(emails.id, pairEmails)];
+    const r2Cond = r2Filter();
+    if (r2Cond) conditions.push(r2Cond);
+    return this.queryEmailSummaries(and(...conditions), sql`${emails.sentAt} ASC NULLS LAST`, opts.page, opts.limit);
+  }
+
+  async getEntityConnections(id: number): Promise<EntityConnectionDetail[]> {
+    const rows = await db.select().from(entityConnections)
+      .where(or(eq(entityConnections.entityId, id), eq(entityConnections.otherEntityId, id)))
+      .orderBy(desc(entityConnections.strength), asc(entityConnections.id));
+    return enrichEntityConnections(rows);
+  }
+
+  async getEntityNetworkData(): Promise<EntityNetworkData> {
+    return entityNetworkCache.get(async () => {
+      // Only entities that link to something are useful as graph nodes
+      const allEntities = await db.select({
+        id: entities.id,
+        name: entities.name,
+        entityType: entities.entityType,
+        documentCount: entities.documentCount,
+        connectionCount: entities.connectionCount,
+      }).from(entities)
+        .where(sql`EXISTS (SELECT 1 FROM entity_connections ec WHERE ec.entity_id = ${entities.id} OR ec.other_entity_id = ${entities.id})`)
+        .orderBy(desc(entities.documentCount));
+
+      const rows = await db.select().from(entityConnections)
+        .where(or(isNotNull(entityConnections.personId), isNotNull(entityConnections.otherEntityId)));
+
+      return {
+        entities: allEntities,
+        connections: await enrichEntityConnections(rows),
+      };
+    });
+  }
+
+  /** Filtered subgraph around one person, expanded from the cached network graph; null if the person is unknown. */
+  async getEgoNetwork(personId: number, options: EgoNetworkOptions): Promise<EgoNetwork | null> {
+    const network = await this.getNetworkData();
+    return buildEgoNetwork(network, personId, options);
+  }
+
+  /**
+   * The stored snapshot for `graph`. Only the network-analytics pipeline stage
+   * computes it (the algorithms are too slow to run inside a request), so
+   * until then this is an empty result with a null computedAt.
+   */
+  async getNetworkAnalytics(graph: NetworkAnalyticsGraph): Promise<NetworkAnalytics> {
+    return networkAnalyticsCaches[graph].get(async () => {
+      const rows = await db.select().from(networkMetrics)
+        .where(eq(networkMetrics.graph, graph))
+        .orderBy(desc(networkMetrics.betweenness));
+      if (rows.length === 0) {
+        return { graph, computedAt: null, nodeCount: 0, nodes: [], communities: [], bridges: [] };
+      }
+
+      const network = await this.getNetworkData();
+      const names = new Map<string, { name: string; category: string }>();
+      for (const p of network.persons) names.set(`person:${p.id}`, { name: p.name, category: p.category });
+      if (graph === "combined") {
+        const entityNetwork = await this.getEntityNetworkData();
+        for (const e of entityNetwork.entities) names.set(`entity:${e.id}`, { name: e.name, category: e.entityType });
+      }
+
+      const nodes: NetworkNodeMetrics[] = [];
+      for (const row of rows) {
+        const label = names.get(`${row.nodeType}:${row.nodeId}`);
+        if (!label) continue;
+        nodes.push({
+          nodeType: row.nodeType,
+          nodeId: row.nodeId,
+          degree: row.degree,
+          degreeCentrality: row.degreeCentrality,
+          betweenness: row.betweenness,
+          eigenvector: row.eigenvector,
+          communityId: row.communityId,
+          bridgeCommunities: row.bridgeCommunities,
+          ...label,
+        });
+      }
+
+      const members = new Map<number, NetworkNodeMetrics[]>();
+      for (const node of nodes) {
+        const list = members.get(node.communityId);
+        if (list) list.push(node);
+        else members.set(node.communityId, [node]);
+      }
+      const communities: NetworkCommunity[] = Array.from(members.entries())
+        .map(([id, list]) => {
+          const top = [...list].sort((a, b) => b.eigenvector - a.eigenvector).slice(0, COMMUNITY_TOP_MEMBERS);
+          return {
+            id,
+            size: list.length,
+            label: top[0].name,
+            topMembers: top.map(({ nodeType, nodeId, name }) => ({ nodeType, nodeId, name })),
+          };
+        })
+        .sort((a, b) => b.size - a.size || a.id - b.id);
+
+      return {
+        graph,
+        computedAt: rows[0]?.computedAt.toISOString() ?? null,
+        nodeCount: nodes.length,
+        nodes,
+        communities,
+        bridges: nodes.filter((n) => n.bridgeCommunities >= 2 && n.betweenness > 0).slice(0, NETWORK_BRIDGE_LIMIT),
+      };
+    });
+  }
+
+  /** Recompute centrality and communities for both graphs and replace the stored snapshot. */
+  async refreshNetworkAnalytics() {
+    const personEdges: AnalyticsEdge[] = (await db.select({
+      personId1: connections.personId1,
+      personId2: connections.personId2,
+      strength: connections.strength,
+    }).from(connections)).map((c) => ({
+      source: `person:${c.personId1}`,
+      target: `person:${c.personId2}`,
+      weight: c.strength,
+    }));
+
+    const entityEdges: AnalyticsEdge[] = (await db.select({
+      entityId: entityConnections.entityId,
+      personId: entityConnections.personId,
+      otherEntityId: entityConnections.otherEntityId,
+      strength: entityConnections.strength,
+    }).from(entityConnections)
+      .where(or(isNotNull(entityConnections.personId), isNotNull(entityConnections.otherEntityId))))
+      .map((c) => ({
+        source: `entity:${c.entityId}`,
+        target: c.personId != null ? `person:${c.personId}` : `entity:${c.otherEntityId}`,
+        weight: c.strength,
+      }));
+
+    const graphs: [NetworkAnalyticsGraph, AnalyticsEdge[]][] = [
+      ["persons", personEdges],
+      ["combined", [...personEdges, ...entityEdges]],
+    ];
+
+    const summaries: { graph: NetworkAnalyticsGraph; nodeCount: number; communityCount: number; modularity: number }[] = [];
+    for (const [graph, edges] of graphs) {
+      const result = computeNetworkAnalytics(edges);
+      const computedAt = new Date();
+      const rows = result.nodes.map((node) => {
+        const [nodeType, nodeId] = node.key.split(":");
+        return {
+          graph,
+          nodeType,
+          nodeId: parseInt(nodeId),
+          degree: node.degree,
+          degreeCentrality: node.degreeCentrality,
+          betweenness: node.betweenness,
+          eigenvector: node.eigenvector,
+          communityId: node.communityId,
+          bridgeCommunities: node.bridgeCommunities,
+          computedAt,
+        };
+      });
+
+      await db.transaction(async (tx) => {
+        await tx.delete(networkMetrics).where(eq(networkMetrics.graph, graph));
+        for (let i = 0; i < rows.length; i += 1000) {
+          await tx.insert(networkMetrics).values(rows.slice(i, i + 1000));
+        }
+      });
+      networkAnalyticsCaches[graph].invalidate();
+      summaries.push({ graph, nodeCount: rows.length, communityCount: result.communityCount, modularity: result.modularity });
+    }
+    return summaries;
+  }
+
   async recordPageView(entityType: string, entityId: number, sessionId: string): Promise<void> {
     // Dedup: skip if same session viewed same entity in last 30 minutes
     const [existing] = await db.select({ id: pageViews.id })
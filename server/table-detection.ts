@@ -0,0 +1,175 @@
+import type { AnnotationBBox } from "@shared/schema";
+import { gridToTable, type ParsedTable } from "./spreadsheet-parsing";
+
+/** A run of text on the page, top-left origin, in any consistent unit (PDF points, OCR pixels). */
+export interface TextBox {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedTable extends Omit<ParsedTable, "name"> {
+  /** Region covered by the table, as page fractions */
+  bbox: AnnotationBBox;
+}
+
+// Tables need at least this many aligned columns and rows; two-column page
+// layouts and short label/value lists are left as text
+const MIN_COLUMNS = 3;
+const MIN_ROWS = 3;
+// Horizontal gap, in line heights, that separates two cells (word spacing is ~0.3)
+const CELL_GAP = 1.2;
+// Vertical gap, in line heights, that ends a table
+const ROW_GAP = 2.5;
+
+interface Cell {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+interface Line {
+  top: number;
+  bottom: number;
+  cells: Cell[];
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** Group boxes into lines by vertical centre, then split each line into cells at wide gaps. */
+function toLines(boxes: TextBox[], lineHeight: number): Line[] {
+  const sorted = [...boxes].sort((a, b) => (a.y + a.height / 2) - (b.y + b.height / 2) || a.x - b.x);
+  const groups: TextBox[][] = [];
+  let centre = -Infinity;
+  for (const box of sorted) {
+    const boxCentre = box.y + box.height / 2;
+    if (groups.length > 0 && boxCentre - centre <= lineHeight / 2) {
+      groups[groups.length - 1].push(box);
+    } else {
+      groups.push([box]);
+      centre = boxCentre;
+    }
+  }
+
+  return groups.map((group) => {
+    group.sort((a, b) => a.x - b.x);
+    const cells: Cell[] = [];
+    for (const box of group) {
+      const last = cells[cells.length - 1];
+      if (last && box.x - last.x1 < lineHeight * CELL_GAP) {
+        last.text += " " + box.text;
+        last.x1 = Math.max(last.x1, box.x + box.width);
+      } else {
+        cells.push({ text: box.text, x0: box.x, x1: box.x + box.width });
+      }
+    }
+    return {
+      top: Math.min(...group.map((b) => b.y)),
+      bottom: Math.max(...group.map((b) => b.y + b.height)),
+      cells,
+    };
+  });
+}
+
+/**
+ * Column extents from the lines with the most common cell count: overlapping
+ * cells across those lines merge into one column. Lines with spanning or
+ * missing cells are left out so they cannot fuse neighbouring columns.
+ */
+function columnExtents(lines: Line[]): { x0: number; x1: number }[] {
+  const counts = new Map<number, number>();
+  for (const line of lines) counts.set(line.cells.length, (counts.get(line.cells.length) ?? 0) + 1);
+  const modal = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0][0];
+
+  const spans = lines
+    .filter((line) => line.cells.length === modal)
+    .flatMap((line) => line.cells.map((c) => ({ x0: c.x0, x1: c.x1 })))
+    .sort((a, b) => a.x0 - b.x0);
+  const columns: { x0: number; x1: number }[] = [];
+  for (const span of spans) {
+    const last = columns[columns.length - 1];
+    if (last && span.x0 <= last.x1) last.x1 = Math.max(last.x1, span.x1);
+    else columns.push({ ...span });
+  }
+  return columns;
+}
+
+function nearestColumn(columns: { x0: number; x1: number }[], cell: Cell): number {
+  const centre = (cell.x0 + cell.x1) / 2;
+  let best = 0;
+  let bestDistance = Infinity;
+  columns.forEach((col, i) => {
+    const distance = centre < col.x0 ? col.x0 - centre : centre > col.x1 ? centre - col.x1 : 0;
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+function runToTable(run: Line[], pageWidth: number, pageHeight: number): DetectedTable | null {
+  const columns = columnExtents(run);
+  if (columns.length < MIN_COLUMNS) return null;
+
+  const grid = run.map((line) => {
+    const row = new Array<string>(columns.length).fill("");
+    for (const cell of line.cells) {
+      const i = nearestColumn(columns, cell);
+      row[i] = row[i] ? `${row[i]} ${cell.text}` : cell.text;
+    }
+    return row;
+  });
+  const table = gridToTable("", grid);
+  if (!table || table.rows.length < MIN_ROWS - 1) return null;
+
+  const x0 = Math.min(...columns.map((c) => c.x0));
+  const x1 = Math.max(...columns.map((c) => c.x1));
+  const top = run[0].top;
+  const bottom = run[run.length - 1].bottom;
+  return {
+    columns: table.columns,
+    rows: table.rows,
+    bbox: {
+      x: Math.max(0, x0 / pageWidth),
+      y: Math.max(0, top / pageHeight),
+      width: Math.min(1, (x1 - x0) / pageWidth),
+      height: Math.min(1, (bottom - top) / pageHeight),
+    },
+  };
+}
+
+/**
+ * Find tables on a page from positioned text (pdf.js text items or OCR words).
+ * A table is a run of consecutive lines that each split into several cells at
+ * wide horizontal gaps; its first line becomes the header.
+ */
+export function detectTables(boxes: TextBox[], pageWidth: number, pageHeight: number): DetectedTable[] {
+  const words = boxes.filter((b) => b.text.trim() && b.width > 0 && b.height > 0)
+    .map((b) => ({ ...b, text: b.text.trim() }));
+  if (words.length === 0) return [];
+
+  const lineHeight = median(words.map((b) => b.height));
+  const tables: DetectedTable[] = [];
+  let run: Line[] = [];
+  const flush = () => {
+    if (run.length >= MIN_ROWS) {
+      const table = runToTable(run, pageWidth, pageHeight);
+      if (table) tables.push(table);
+    }
+    run = [];
+  };
+
+  for (const line of toLines(words, lineHeight)) {
+    const previous = run[run.length - 1];
+    if (line.cells.length < 2 || (previous && line.top - previous.bottom > lineHeight * ROW_GAP)) flush();
+    if (line.cells.length >= 2) run.push(line);
+  }
+  flush();
+  return tables;
+}
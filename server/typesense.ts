@@ -3,6 +3,7 @@ import Client from "typesense/lib/Typesense/Client";
 import type { CollectionCreateSchema } from "typesense/lib/Typesense/Collections";
 import type { SearchResponseHit } from "typesense/lib/Typesense/Documents";
 import { isR2Configured } from "./r2";
+import { fuseHybridResults, type ScoredPage } from "./semantic-search";
 
 // --- Client ---
 
@@ -62,6 +63,36 @@ export const COLLECTION_SCHEMA: CollectionCreateSchema = {
   token_separators: ["-", "_", "."],
 };
 
+/**
+ * Overlapping chunks of page text (server/semantic-search.ts) with an
+ * embedding Typesense computes on import and at query time from a built-in
+ * model that runs on the Typesense node's CPU; no external embedding API.
+ */
+export const CHUNKS_COLLECTION = "page_chunks";
+
+export const EMBEDDING_MODEL = process.env.TYPESENSE_EMBEDDING_MODEL || "ts/all-MiniLM-L12-v2";
+
+export const CHUNKS_SCHEMA: CollectionCreateSchema = {
+  name: CHUNKS_COLLECTION,
+  fields: [
+    { name: "pg_id", type: "int32", facet: true }, // document_pages.id, for grouping chunks by page
+    { name: "document_id", type: "int32", facet: true },
+    { name: "page_number", type: "int32" },
+    { name: "chunk_index", type: "int32" },
+    { name: "content", type: "string" },
+    { name: "title", type: "string" },
+    { name: "document_type", type: "string", facet: true },
+    { name: "data_set", type: "string", facet: true, optional: true },
+    { name: "page_type", type: "string", facet: true, optional: true },
+    { name: "is_viewable", type: "bool" },
+    {
+      name: "embedding",
+      type: "float[]",
+      embed: { from: ["content"], model_config: { model_name: EMBEDDING_MODEL } },
+    },
+  ],
+};
+
 export const PERSONS_COLLECTION = "persons";
 
 export const PERSONS_SCHEMA: CollectionCreateSchema = {
@@ -213,6 +244,10 @@ interface TSDocument {
   is_viewable: boolean;
 }
 
+interface TSChunk extends TSDocument {
+  chunk_index: number;
+}
+
 // --- Search Functions ---
 
 function buildFilterBy(options?: {
@@ -317,6 +352,144 @@ export async function typesenseSearchPages(
   };
 }
 
+const SNIPPET_LENGTH = 240;
+/** Nearest chunks considered for semantic and hybrid search; pages beyond these are not ranked */
+const SEMANTIC_CANDIDATES = 200;
+/** Keyword hits fused with the semantic candidates in hybrid mode (Typesense's per_page maximum) */
+const HYBRID_KEYWORD_CANDIDATES = 250;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** A chunk hit as a page result; the headline is the chunk's opening text, HTML-escaped. */
+function chunkHitToResult(hit: SearchResponseHit<TSChunk>): ScoredPage<TypesensePageResult> {
+  const doc = hit.document;
+  const text = doc.content.length > SNIPPET_LENGTH ? `${doc.content.slice(0, SNIPPET_LENGTH)}…` : doc.content;
+  const distance = (hit as any).vector_distance as number | undefined;
+  return {
+    hit: {
+      documentId: doc.document_id,
+      title: doc.title,
+      documentType: doc.document_type,
+      dataSet: doc.data_set ?? null,
+      pageNumber: doc.page_number,
+      headline: escapeHtml(text),
+      pageType: doc.page_type ?? null,
+    },
+    // Cosine distance runs 0–2; report similarity, floored at 0
+    score: distance === undefined ? 0 : Math.max(0, 1 - distance),
+  };
+}
+
+/** Pages whose best chunk is nearest the query, one hit per page. */
+async function searchChunks(
+  ts: Client,
+  query: string,
+  page: number,
+  perPage: number,
+  options?: { filterR2?: boolean; documentType?: string; dataSet?: string },
+) {
+  const result = await ts
+    .collections<TSChunk>(CHUNKS_COLLECTION)
+    .documents()
+    .search({
+      q: query,
+      query_by: "embedding",
+      vector_query: `embedding:([], k: ${SEMANTIC_CANDIDATES})`,
+      exclude_fields: "embedding",
+      group_by: "pg_id",
+      group_limit: 1,
+      per_page: perPage,
+      page,
+      filter_by: buildFilterBy(options),
+      facet_by: "document_type,data_set",
+      max_facet_values: 50,
+      prefix: false,
+    });
+  const grouped = (result as any).grouped_hits ?? [];
+  return {
+    hits: grouped
+      .map((g: any) => g.hits?.[0])
+      .filter(Boolean)
+      .map((hit: SearchResponseHit<TSChunk>) => chunkHitToResult(hit)) as ScoredPage<TypesensePageResult>[],
+    found: result.found ?? 0,
+    facets: extractFacets((result.facet_counts as any) ?? []),
+  };
+}
+
+/**
+ * Semantic page search over the page_chunks collection — used by
+ * /api/search/pages?mode=semantic. Pages are ranked by their closest chunk.
+ */
+export async function typesenseSemanticSearchPages(
+  query: string,
+  page: number,
+  limit: number,
+  options?: { filterR2?: boolean; documentType?: string; dataSet?: string },
+): Promise<TypesenseSearchResponse> {
+  const ts = getTypesenseClient();
+  if (!ts) throw new Error("Typesense not configured");
+
+  const { hits, found, facets } = await searchChunks(ts, query, page, limit, options);
+  return {
+    results: hits.map((h) => h.hit),
+    total: found,
+    page,
+    totalPages: Math.ceil(found / limit),
+    facets,
+  };
+}
+
+/**
+ * Hybrid page search — used by /api/search/pages?mode=hybrid. Keyword and
+ * semantic candidates are fetched side by side, fused by fuseHybridResults
+ * and paginated in memory, so the total is capped by the candidate counts.
+ */
+export async function typesenseHybridSearchPages(
+  query: string,
+  page: number,
+  limit: number,
+  options?: { filterR2?: boolean; documentType?: string; dataSet?: string },
+): Promise<TypesenseSearchResponse> {
+  const ts = getTypesenseClient();
+  if (!ts) throw new Error("Typesense not configured");
+
+  const [keyword, semantic] = await Promise.all([
+    ts.collections<TSDocument>(COLLECTION_NAME).documents().search({
+      q: query,
+      query_by: "content,title",
+      query_by_weights: "2,1",
+      highlight_fields: "content",
+      highlight_start_tag: "<mark>",
+      highlight_end_tag: "</mark>",
+      snippet_threshold: 40,
+      per_page: HYBRID_KEYWORD_CANDIDATES,
+      page: 1,
+      filter_by: buildFilterBy(options),
+      facet_by: "document_type,data_set",
+      max_facet_values: 50,
+      num_typos: 2,
+      typo_tokens_threshold: 2,
+      drop_tokens_threshold: 1,
+    }),
+    searchChunks(ts, query, 1, SEMANTIC_CANDIDATES, options),
+  ]);
+
+  const fused = fuseHybridResults(
+    (keyword.hits ?? []).map((hit) => ({ hit: hitToResult(hit), score: hit.text_match })),
+    semantic.hits,
+  );
+  const offset = (page - 1) * limit;
+  return {
+    results: fused.slice(offset, offset + limit).map((f) => f.hit),
+    total: fused.length,
+    page,
+    totalPages: Math.ceil(fused.length / limit),
+    facets: extractFacets((keyword.facet_counts as any) ?? []),
+  };
+}
+
 /**
  * Lightweight instant search — used by type-ahead /api/search/instant.
  * Returns minimal results quickly.
@@ -1,16 +1,42 @@
 import { WebSocketServer, WebSocket } from "ws";
-import type { Server } from "http";
+import type { IncomingMessage, Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import type { PipelineJobChange } from "@shared/schema";
+import { isAdmin } from "./auth";
 import { log } from "./index";
+import { createChangeBatcher, listenForPipelineJobChanges } from "./pipeline-events";
+import { listenForSearchAlerts } from "./search-alerts";
+import { storage } from "./storage";
 
-export function setupWebSocket(server: Server) {
+/** Resolve the signed-in user ID from the session cookie on the upgrade request. */
+function resolveUserId(req: IncomingMessage, sessionMiddleware?: RequestHandler): Promise<string | null> {
+  if (!sessionMiddleware) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    // express-session only needs the request here; nothing is written back on an upgrade
+    sessionMiddleware(req as Request, {} as Response, () => {
+      // passport.session() stores the serialized user ID here (see serializeUser in auth.ts)
+      const userId = ((req as Request).session as { passport?: { user?: unknown } } | undefined)?.passport?.user;
+      resolve(typeof userId === "string" ? userId : null);
+    });
+  });
+}
+
+export function setupWebSocket(server: Server, sessionMiddleware?: RequestHandler) {
   const wss = new WebSocketServer({ noServer: true });
+  const socketsByUser = new Map<string, Set<WebSocket>>();
+  // Sockets of signed-in admins, who receive pipeline job changes
+  const adminSockets = new Set<WebSocket>();
 
   server.on("upgrade", (req, socket, head) => {
     const pathname = req.url?.split("?")[0];
     if (pathname === "/ws") {
-      wss.handleUpgrade(req, socket, head, (ws) => {
-        wss.emit("connection", ws, req);
-      });
+      resolveUserId(req, sessionMiddleware)
+        .catch(() => null)
+        .then((userId) => {
+          wss.handleUpgrade(req, socket, head, (ws) => {
+            wss.emit("connection", ws, req, userId);
+          });
+        });
     }
     // Other paths (e.g. /vite-hmr) are left for Vite's handler
   });
@@ -25,10 +51,50 @@ export function setupWebSocket(server: Server) {
     }
   }
 
-  wss.on("connection", (ws) => {
+  async function pushSearchAlerts(userIds: string[]) {
+    for (const userId of userIds) {
+      const sockets = socketsByUser.get(userId);
+      if (!sockets || sockets.size === 0) continue;
+      try {
+        const unreadCount = await storage.getUnreadSearchAlertCount(userId);
+        const message = JSON.stringify({ type: "search-alerts", unreadCount });
+        for (const ws of sockets) {
+          if (ws.readyState === WebSocket.OPEN) ws.send(message);
+        }
+      } catch (err: any) {
+        console.warn(`Failed to push search alerts to ${userId}: ${err.message}`);
+      }
+    }
+  }
+
+  function pushPipelineChanges(changes: PipelineJobChange[]) {
+    if (adminSockets.size === 0) return;
+    const message = JSON.stringify({ type: "pipeline-jobs", changes });
+    for (const ws of adminSockets) {
+      if (ws.readyState === WebSocket.OPEN) ws.send(message);
+    }
+  }
+
+  wss.on("connection", (ws: WebSocket, _req: IncomingMessage, userId: string | null) => {
     activeConnections++;
     broadcast();
 
+    if (userId) {
+      if (!socketsByUser.has(userId)) socketsByUser.set(userId, new Set());
+      socketsByUser.get(userId)!.add(ws);
+      ws.on("close", () => {
+        const sockets = socketsByUser.get(userId);
+        sockets?.delete(ws);
+        if (sockets?.size === 0) socketsByUser.delete(userId);
+        adminSockets.delete(ws);
+      });
+      storage.getUser(userId)
+        .then((user) => {
+          if (user && isAdmin(user) && ws.readyState === WebSocket.OPEN) adminSockets.add(ws);
+        })
+        .catch((err) => console.warn(`Failed to look up WebSocket user ${userId}: ${err.message}`));
+    }
+
     const alive = { current: true };
 
     ws.on("pong", () => {
@@ -52,5 +118,14 @@ export function setupWebSocket(server: Server) {
     ws.on("close", () => clearInterval(heartbeat));
   });
 
+  listenForSearchAlerts((userIds) => {
+    pushSearchAlerts(userIds);
+  });
+
+  const pipelineChanges = createChangeBatcher(pushPipelineChanges);
+  listenForPipelineJobChanges((change) => {
+    if (adminSockets.size > 0) pipelineChanges.add(change);
+  });
+
   log("WebSocket server ready on /ws", "ws");
 }
@@ -1,5 +1,5 @@
 import { sql, type SQL } from "drizzle-orm";
-import { pgTable, serial, text, varchar, integer, timestamp, boolean, jsonb, index, uniqueIndex, customType } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, varchar, integer, timestamp, boolean, jsonb, index, uniqueIndex, customType, real, doublePrecision } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -26,6 +26,7 @@ export const persons = pgTable("persons", {
   profileSections: jsonb("profile_sections"),
   wikipediaUrl: text("wikipedia_url"),
   emailCount: integer("email_count").notNull().default(0),
+  flightCount: integer("flight_count").notNull().default(0),
   topContacts: jsonb("top_contacts"),
 }, (table) => [
   index("idx_persons_document_count").on(table.documentCount),
@@ -69,6 +70,10 @@ export const documents = pgTable("documents", {
   mimeType: text("mime_type"),
   extractedTextLength: integer("extracted_text_length"),
   aiCostCents: integer("ai_cost_cents").default(0),
+  // Detected black-box redactions; null until the document has been scanned
+  redactionCount: integer("redaction_count"),
+  /** Mean fraction of page area covered by redaction boxes */
+  redactionDensity: real("redaction_density"),
 }, (table) => [
   index("idx_documents_processing_status").on(table.processingStatus),
   index("idx_documents_media_type").on(table.mediaType),
@@ -79,6 +84,7 @@ export const documents = pgTable("documents", {
   index("idx_documents_r2_key").on(table.r2Key),
   index("idx_documents_document_type").on(table.documentType),
   index("idx_documents_is_redacted").on(table.isRedacted),
+  index("idx_documents_redaction_density").on(table.redactionDensity),
   index("idx_documents_r2_id").on(table.id).where(sql`r2_key IS NOT NULL AND (file_size_bytes IS NULL OR file_size_bytes != 0)`),
   index("idx_documents_title_trgm").using("gin", sql`${table.title} gin_trgm_ops`),
   index("idx_documents_description_trgm").using("gin", sql`${table.description} gin_trgm_ops`),
@@ -125,20 +131,197 @@ export const personDocuments = pgTable("person_documents", {
   index("idx_person_documents_document_id").on(table.documentId),
 ]);
 
+// Exact name occurrences in page text, found by matching person names and aliases
+// against document_pages (scripts/pipeline/extract-mentions.ts). Offsets index into
+// document_pages.content for the same document and page.
+export const personMentions = pgTable("person_mentions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  personId: integer("person_id").notNull().references(() => persons.id, { onDelete: "cascade" }),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  pageNumber: integer("page_number").notNull(),
+  charStart: integer("char_start").notNull(),
+  charEnd: integer("char_end").notNull(),
+  surfaceForm: text("surface_form").notNull(),
+}, (table) => [
+  index("idx_person_mentions_person").on(table.personId, table.documentId, table.pageNumber),
+  index("idx_person_mentions_document").on(table.documentId, table.pageNumber),
+]);
+
+// Black-box redaction regions detected on the rendered PDF page (scripts/pipeline/pdf-processor.ts).
+// Page numbers are PDF page numbers; only pages with at least one box are stored.
+export const pageRedactions = pgTable("page_redactions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  pageNumber: integer("page_number").notNull(),
+  redactionCount: integer("redaction_count").notNull(),
+  /** Fraction (0–1) of the page area covered by the boxes */
+  redactedArea: real("redacted_area").notNull(),
+  boxes: jsonb("boxes").$type<AnnotationBBox[]>().notNull(),
+}, (table) => [
+  uniqueIndex("idx_page_redactions_doc_page").on(table.documentId, table.pageNumber),
+]);
+
+export interface EmailContact {
+  name: string | null;
+  /** Lowercased; empty when the header only carried a display name */
+  address: string;
+  personId: number | null;
+}
+
+// Messages parsed from email documents (scripts/pipeline/load-emails.ts). Messages of one
+// reply chain share threadId: the root's Message-ID, or "subject:<normalized subject>"
+// for printed emails without message headers.
+export const emails = pgTable("emails", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  /** Order of the message within its document (mbox files and printed chains hold several) */
+  position: integer("position").notNull(),
+  messageId: text("message_id"),
+  inReplyTo: text("in_reply_to"),
+  references: text("references").array().notNull().default(sql`'{}'::text[]`),
+  threadId: text("thread_id").notNull(),
+  subject: text("subject"),
+  sender: jsonb("sender").$type<EmailContact>(),
+  recipients: jsonb("recipients").$type<EmailContact[]>().notNull(),
+  cc: jsonb("cc").$type<EmailContact[]>().notNull(),
+  sentAt: timestamp("sent_at"),
+  dateRaw: text("date_raw"),
+  body: text("body").notNull(),
+}, (table) => [
+  uniqueIndex("idx_emails_doc_position").on(table.documentId, table.position),
+  index("idx_emails_thread").on(table.threadId, table.sentAt),
+  index("idx_emails_message_id").on(table.messageId),
+  index("idx_emails_sent_at").on(table.sentAt),
+]);
+
+// Person ↔ email links for senders and recipients, so a person's mail can be listed
+// without scanning the jsonb contact columns.
+export const emailParticipants = pgTable("email_participants", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  emailId: integer("email_id").notNull().references(() => emails.id, { onDelete: "cascade" }),
+  personId: integer("person_id").notNull().references(() => persons.id, { onDelete: "cascade" }),
+  role: text("role").notNull(), // "from" | "to" | "cc"
+}, (table) => [
+  index("idx_email_participants_person").on(table.personId, table.emailId),
+  index("idx_email_participants_email").on(table.emailId),
+]);
+
+// Sheets of spreadsheet/CSV documents and tables detected on PDF pages
+// (scripts/pipeline/load-tables.ts). Cells are kept as display strings,
+// positionally aligned with `columns`.
+export const documentTables = pgTable("document_tables", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  /** Sheet order within the workbook, or table order through the PDF, from 0 */
+  position: integer("position").notNull(),
+  name: text("name").notNull(),
+  columns: text("columns").array().notNull(),
+  rowCount: integer("row_count").notNull().default(0),
+  /** PDF page the table was detected on; null for spreadsheet sheets */
+  pageNumber: integer("page_number"),
+  /** Region of the page the table covers, as page fractions */
+  bbox: jsonb("bbox").$type<AnnotationBBox>(),
+}, (table) => [
+  uniqueIndex("idx_document_tables_doc_position").on(table.documentId, table.position),
+]);
+
+export const documentTableRows = pgTable("document_table_rows", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  tableId: integer("table_id").notNull().references(() => documentTables.id, { onDelete: "cascade" }),
+  rowIndex: integer("row_index").notNull(),
+  cells: text("cells").array().notNull(),
+}, (table) => [
+  uniqueIndex("idx_document_table_rows_table_row").on(table.tableId, table.rowIndex),
+]);
+
 export const timelineEvents = pgTable("timeline_events", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** Sort point at the source's precision: YYYY, YYYY-MM or YYYY-MM-DD */
   date: text("date").notNull(),
+  /** First and last possible day (YYYY-MM-DD) of an uncertain date (server/event-dates.ts) */
+  dateEarliest: text("date_earliest"),
+  dateLatest: text("date_latest"),
+  datePrecision: text("date_precision"), // "day" | "month" | "season" | "year" | "decade" | "approximate" | "range"
+  /** The date as the source wrote it ("circa 2002", "spring 1999") */
+  dateOriginal: text("date_original"),
   title: text("title").notNull(),
   description: text("description").notNull(),
   category: text("category").notNull(),
   personIds: integer("person_ids").array(),
   documentIds: integer("document_ids").array(),
   significance: integer("significance").notNull().default(1),
+  /** Places named in the title or description (scripts/pipeline/load-locations.ts) */
+  locationIds: integer("location_ids").array(),
+  /** Distinct data sets among the source documents (scripts/pipeline/load-event-sources.ts) */
+  corroboration: integer("corroboration").notNull().default(0),
+  /** True when the sources give dates that cannot all hold */
+  sourcesDisagree: boolean("sources_disagree").notNull().default(false),
+  /** Likely duplicates from other analyses folded into this event */
+  mergedFrom: jsonb("merged_from").$type<MergedTimelineEvent[]>(),
 }, (table) => [
   index("idx_timeline_events_date_sig").on(table.date, table.significance),
+  index("idx_timeline_events_date_range").on(table.dateEarliest, table.dateLatest),
   index("idx_timeline_events_title_trgm").using("gin", sql`${table.title} gin_trgm_ops`),
   index("idx_timeline_events_person_ids").using("gin", table.personIds),
   index("idx_timeline_events_document_ids").using("gin", table.documentIds),
+  index("idx_timeline_events_location_ids").using("gin", table.locationIds),
+]);
+
+/** A timeline event as it was before being merged into another as a likely duplicate */
+export interface MergedTimelineEvent {
+  id: number;
+  title: string;
+  date: string;
+  dateOriginal: string | null;
+}
+
+// One row per source document of a timeline event: the page and passage that
+// support it and the date that document's analysis gave. Rows follow their
+// event through duplicate merges, so disagreeing dates stay visible.
+export const timelineEventSources = pgTable("timeline_event_sources", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  eventId: integer("event_id").notNull().references(() => timelineEvents.id, { onDelete: "cascade" }),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  /** Best-matching page and passage, when the document has page text that supports the event */
+  pageNumber: integer("page_number"),
+  excerpt: text("excerpt"),
+  /** The event's date as this source gave it */
+  dateOriginal: text("date_original"),
+}, (table) => [
+  uniqueIndex("idx_timeline_event_sources_event_doc").on(table.eventId, table.documentId),
+  index("idx_timeline_event_sources_document").on(table.documentId),
+]);
+
+// Places from AI analysis `locations`, resolved against the bundled gazetteer
+// (server/gazetteer.ts) by scripts/pipeline/load-locations.ts. Persons link to
+// a place through the documents they share with it.
+export const locations = pgTable("locations", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  name: text("name").notNull(),
+  /** Lower-cased, accent- and punctuation-folded name; unique together with kind */
+  normalizedName: text("normalized_name").notNull(),
+  kind: text("kind").notNull(), // "site" | "city" | "region" | "country"
+  country: text("country").notNull(),
+  /** State or other first-level region, for sites and cities */
+  admin: text("admin"),
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  documentCount: integer("document_count").notNull().default(0),
+}, (table) => [
+  uniqueIndex("idx_locations_name_kind").on(table.normalizedName, table.kind),
+  index("idx_locations_document_count").on(table.documentCount),
+]);
+
+export const locationDocuments = pgTable("location_documents", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  locationId: integer("location_id").notNull().references(() => locations.id, { onDelete: "cascade" }),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  /** Year of the document's original date, for the map's year filter */
+  year: integer("year"),
+}, (table) => [
+  uniqueIndex("idx_location_documents_location_doc").on(table.locationId, table.documentId),
+  index("idx_location_documents_document").on(table.documentId),
+  index("idx_location_documents_location_year").on(table.locationId, table.year),
 ]);
 
 export const personsRelations = relations(persons, ({ many }) => ({
@@ -180,16 +363,123 @@ export type InsertDocument = typeof documents.$inferInsert;
 export type PublicDocument = Omit<Document, 'localPath' | 'r2Key' | 'fileHash'> & { publicUrl?: string | null };
 export type DocumentPage = typeof documentPages.$inferSelect;
 export type InsertDocumentPage = typeof documentPages.$inferInsert;
+/** A page as served to the page-text view, with its detected redactions */
+export type DocumentPageContent = Pick<DocumentPage, "pageNumber" | "content" | "pageType"> & {
+  redactionCount: number;
+  redactedArea: number;
+  redactionBoxes: AnnotationBBox[];
+};
 export type Connection = typeof connections.$inferSelect;
 export type InsertConnection = typeof connections.$inferInsert;
 export type PersonDocument = typeof personDocuments.$inferSelect;
 export type InsertPersonDocument = typeof personDocuments.$inferInsert;
 export type TimelineEvent = typeof timelineEvents.$inferSelect;
 export type InsertTimelineEvent = typeof timelineEvents.$inferInsert;
+export type PersonMention = typeof personMentions.$inferSelect;
+export type InsertPersonMention = typeof personMentions.$inferInsert;
+export type PageRedaction = typeof pageRedactions.$inferSelect;
+export type InsertPageRedaction = typeof pageRedactions.$inferInsert;
+export type Email = typeof emails.$inferSelect;
+export type InsertEmail = typeof emails.$inferInsert;
+export type EmailParticipant = typeof emailParticipants.$inferSelect;
+export type InsertEmailParticipant = typeof emailParticipants.$inferInsert;
+export type EmailRole = "from" | "to" | "cc";
+export type DocumentTable = typeof documentTables.$inferSelect;
+export type InsertDocumentTable = typeof documentTables.$inferInsert;
+export type DocumentTableRow = typeof documentTableRows.$inferSelect;
+export type InsertDocumentTableRow = typeof documentTableRows.$inferInsert;
+
+export type TimelineEventSource = typeof timelineEventSources.$inferSelect;
+export type InsertTimelineEventSource = typeof timelineEventSources.$inferInsert;
+
+/** A source citation with the cited document's title and data set */
+export interface TimelineEventSourceDetail {
+  documentId: number;
+  documentTitle: string;
+  dataSet: string | null;
+  pageNumber: number | null;
+  excerpt: string | null;
+  dateOriginal: string | null;
+}
+
+export interface TimelineEventSources {
+  event: TimelineEvent;
+  sources: TimelineEventSourceDetail[];
+}
+
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = typeof locations.$inferInsert;
+export type LocationDocument = typeof locationDocuments.$inferSelect;
+export type InsertLocationDocument = typeof locationDocuments.$inferInsert;
+
+/** A place on the map with the number of documents that pass the map's filters */
+export type LocationDensity = Pick<Location, "id" | "name" | "kind" | "country" | "admin" | "latitude" | "longitude"> & {
+  documentCount: number;
+};
+
+export interface LocationDetail extends Location {
+  /** Persons linked to the most documents that mention the place */
+  persons: { id: number; name: string; category: string; documentCount: number }[];
+  timelineEvents: TimelineEvent[];
+  /** Documents per year, for years that are known */
+  years: { year: number; documentCount: number }[];
+}
+
+/** A table row whose cell in the searched column matched, across documents */
+export interface DocumentTableSearchHit {
+  documentId: number;
+  documentTitle: string;
+  tableId: number;
+  tableName: string;
+  /** The matched column's name as written in that sheet */
+  column: string;
+  columnIndex: number;
+  columns: string[];
+  rowIndex: number;
+  cells: string[];
+}
+
+export type EmailSummary = Omit<Email, "body"> & {
+  documentTitle: string;
+  /** Start of the body for list views */
+  preview: string;
+};
+
+export interface EmailThread {
+  threadId: string;
+  subject: string | null;
+  messageCount: number;
+  firstSentAt: Date | null;
+  lastSentAt: Date | null;
+  /** Messages in sending order; a thread can span several documents */
+  emails: (Email & { documentTitle: string })[];
+}
+
+/** A mention with its document title and the surrounding page text */
+export type PersonMentionDetail = PersonMention & {
+  documentTitle: string;
+  snippet: string;
+  /** Where the mention starts within `snippet` */
+  snippetOffset: number;
+};
+
+// One run of scripts/pipeline/run-pipeline.ts: the stages asked for and their options.
+// Its work is the pipeline_jobs rows with this run_id, so a crashed run resumes from the table.
+export const pipelineRuns = pgTable("pipeline_runs", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  stages: text("stages").array().notNull(),
+  /** Command-line options every job of the run starts from */
+  config: jsonb("config").$type<Record<string, unknown>>().notNull(),
+  /** running | completed | failed */
+  status: text("status").notNull().default("running"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+});
 
 export const pipelineJobs = pgTable("pipeline_jobs", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   documentId: integer("document_id").references(() => documents.id),
+  /** Pipeline stage name for run jobs; "chat-triggered-analysis" for the background worker */
   jobType: text("job_type").notNull(),
   status: text("status").notNull().default("pending"),
   priority: integer("priority").notNull().default(0),
@@ -200,7 +490,20 @@ export const pipelineJobs = pgTable("pipeline_jobs", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
-});
+  runId: integer("run_id").references(() => pipelineRuns.id, { onDelete: "cascade" }),
+  /** "all", or "ds:<id>" for a job covering one data set */
+  batchKey: text("batch_key"),
+  /** Jobs that must complete before this one can be claimed */
+  dependsOn: integer("depends_on").array(),
+  /** Worker holding the job while it runs; the lease lapses if the worker stops renewing it */
+  leaseOwner: text("lease_owner"),
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  /** Earliest time a failed job is retried */
+  nextAttemptAt: timestamp("next_attempt_at"),
+}, (table) => [
+  index("idx_pipeline_jobs_status").on(table.status, table.jobType),
+  uniqueIndex("idx_pipeline_jobs_run_stage_batch").on(table.runId, table.jobType, table.batchKey),
+]);
 
 export const budgetTracking = pgTable("budget_tracking", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -208,19 +511,128 @@ export const budgetTracking = pgTable("budget_tracking", {
   model: text("model").notNull(),
   inputTokens: integer("input_tokens").notNull().default(0),
   outputTokens: integer("output_tokens").notNull().default(0),
-  costCents: integer("cost_cents").notNull().default(0),
+  /** Fractional, so sub-cent calls (classification, chat) still add up */
+  costCents: doublePrecision("cost_cents").notNull().default(0),
   documentId: integer("document_id").references(() => documents.id),
   jobType: text("job_type"),
+  dataSet: text("data_set"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // Budget policy usage is summed for this month before every AI call
+  index("idx_budget_tracking_date_policy").on(table.date, table.jobType, table.model, table.dataSet),
+]);
+
+/**
+ * Daily and monthly caps on AI spend. A null job type, model or data set
+ * matches any; every enabled policy matching a call must have headroom left
+ * before the call is made (server/budget.ts).
+ */
+export const budgetPolicies = pgTable("budget_policies", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  name: text("name").notNull(),
+  jobType: text("job_type"),
+  model: text("model"),
+  dataSet: text("data_set"),
+  dailyCapCents: integer("daily_cap_cents"),
+  monthlyCapCents: integer("monthly_cap_cents"),
+  /** Share of a cap at which a warning is logged */
+  softLimitPercent: integer("soft_limit_percent").notNull().default(80),
+  enabled: boolean("enabled").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertPipelineJobSchema = createInsertSchema(pipelineJobs).omit({ createdAt: true });
 export const insertBudgetTrackingSchema = createInsertSchema(budgetTracking).omit({ createdAt: true });
 
+/** Admin dashboard: give failed jobs a fresh set of attempts */
+export const retryPipelineJobsSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(1000),
+});
+
+/** Admin dashboard: workers claim higher-priority jobs first */
+export const updatePipelineJobSchema = z.object({
+  priority: z.number().int().min(-100).max(100),
+});
+
+export type PipelineRun = typeof pipelineRuns.$inferSelect;
 export type PipelineJob = typeof pipelineJobs.$inferSelect;
 export type InsertPipelineJob = typeof pipelineJobs.$inferInsert;
 export type BudgetTracking = typeof budgetTracking.$inferSelect;
 export type InsertBudgetTracking = typeof budgetTracking.$inferInsert;
+export type BudgetPolicy = typeof budgetPolicies.$inferSelect;
+
+/** Jobs of one stage of a run by state; `blocked` are pending jobs waiting on a failed job. */
+export interface PipelineStageProgress {
+  stage: string;
+  total: number;
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+  blocked: number;
+}
+
+export interface PipelineRunProgress extends PipelineRun {
+  /** In the order the run works through them */
+  stageProgress: PipelineStageProgress[];
+}
+
+/** A job's state after an insert or a status/priority change, as pushed over /ws to admins. */
+export interface PipelineJobChange {
+  id: number;
+  runId: number | null;
+  jobType: string;
+  status: string;
+  priority: number;
+  attempts: number;
+}
+
+/** One stage's work over the throughput window, plus its current queue. */
+export interface PipelineStageThroughput {
+  stage: string;
+  completed: number;
+  failed: number;
+  pending: number;
+  running: number;
+  /** Mean start-to-finish time of the completed jobs */
+  avgDurationSeconds: number | null;
+  lastCompletedAt: string | null;
+}
+
+export interface PipelineThroughput {
+  hours: number;
+  stages: PipelineStageThroughput[];
+  /** Jobs finished per hour across all stages, oldest first */
+  hourly: { hour: string; completed: number; failed: number }[];
+}
+
+/** AI spend in one day ("2026-01-31") or month ("2026-01") for one model and job type. */
+export interface BudgetSpendRow {
+  period: string;
+  model: string;
+  jobType: string | null;
+  /** Fractional cents, like budget_tracking; round only for display */
+  costCents: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** Spend so far today and this month by the calls a policy matches. */
+export interface BudgetPolicyUsage {
+  policy: BudgetPolicy;
+  spentTodayCents: number;
+  spentMonthCents: number;
+}
+
+/** A policy's headroom, as listed by /api/budget; null remaining means no cap for that window. */
+export interface BudgetPolicyStatus extends BudgetPolicy {
+  spentTodayCents: number;
+  spentMonthCents: number;
+  remainingDailyCents: number | null;
+  remainingMonthlyCents: number | null;
+  /** "warning" once spend passes softLimitPercent of a cap, "exceeded" once it reaches it */
+  state: "ok" | "warning" | "exceeded";
+}
 
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -229,6 +641,8 @@ export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  /** Set out of band (see README, "Admin Access"); registration never sets it */
+  isAdmin: boolean("is_admin").notNull().default(false),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -243,6 +657,8 @@ export const bookmarks = pgTable("bookmarks", {
   entityId: integer("entity_id"),
   searchQuery: text("search_query"),
   label: text("label"),
+  // Saved searches: highest document_pages.id already checked for alerts
+  alertsCheckedPageId: integer("alerts_checked_page_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   index("idx_bookmarks_user_entity").on(table.userId, table.entityType),
@@ -257,10 +673,30 @@ export const bookmarks = pgTable("bookmarks", {
     .where(sql`search_query IS NOT NULL`),
 ]);
 
-export const insertBookmarkSchema = createInsertSchema(bookmarks).omit({ createdAt: true });
+export const insertBookmarkSchema = createInsertSchema(bookmarks).omit({ createdAt: true, alertsCheckedPageId: true });
 export type Bookmark = typeof bookmarks.$inferSelect;
 export type InsertBookmark = typeof bookmarks.$inferInsert;
 
+// Saved-search alerts: new document pages matching a user's saved search,
+// recorded when the pipeline loads pages (server/search-alerts.ts).
+export const searchAlerts = pgTable("search_alerts", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  bookmarkId: integer("bookmark_id").notNull().references(() => bookmarks.id, { onDelete: "cascade" }),
+  searchQuery: text("search_query").notNull(),
+  newPageCount: integer("new_page_count").notNull(),
+  newDocumentCount: integer("new_document_count").notNull(),
+  documentIds: integer("document_ids").array().notNull().default(sql`'{}'::int[]`), // first matches, for linking
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  readAt: timestamp("read_at"),
+}, (table) => [
+  index("idx_search_alerts_user").on(table.userId, table.createdAt),
+  index("idx_search_alerts_bookmark").on(table.bookmarkId),
+]);
+
+export type SearchAlert = typeof searchAlerts.$inferSelect;
+export type InsertSearchAlert = typeof searchAlerts.$inferInsert;
+
 // View tracking for trending
 export const pageViews = pgTable("page_views", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -324,6 +760,167 @@ export const insertPersonVoteSchema = createInsertSchema(personVotes).omit({ cre
 export type PersonVote = typeof personVotes.$inferSelect;
 export type InsertPersonVote = typeof personVotes.$inferInsert;
 
+/** Page region as fractions (0–1) of the rendered page, so it survives zoom changes. */
+export const annotationBBoxSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().gt(0).max(1),
+  height: z.number().gt(0).max(1),
+});
+export type AnnotationBBox = z.infer<typeof annotationBBoxSchema>;
+
+// Highlights and notes on document pages. An annotation anchors either to a
+// character range of document_pages.content or to a bbox on the rendered PDF page.
+export const documentAnnotations = pgTable("document_annotations", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  pageNumber: integer("page_number").notNull(),
+  charStart: integer("char_start"),
+  charEnd: integer("char_end"),
+  bbox: jsonb("bbox").$type<AnnotationBBox>(),
+  quote: text("quote"),
+  note: text("note"),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_document_annotations_user").on(table.userId, table.createdAt),
+  index("idx_document_annotations_user_doc").on(table.userId, table.documentId, table.pageNumber),
+]);
+
+const annotationTagsSchema = z.array(z.string().trim().min(1).max(50)).max(20)
+  .transform((tags) => Array.from(new Set(tags.map((t) => t.toLowerCase()))));
+
+// Plain zod rather than createInsertSchema: drizzle-zod's .omit() loses the field types
+export const insertDocumentAnnotationSchema = z.object({
+  userId: z.string().min(1),
+  documentId: z.number().int().positive(),
+  pageNumber: z.number().int().positive(),
+  charStart: z.number().int().nonnegative().nullish(),
+  charEnd: z.number().int().positive().nullish(),
+  bbox: annotationBBoxSchema.nullish(),
+  note: z.string().max(5000).nullish(),
+  tags: annotationTagsSchema.optional(),
+})
+  .refine((a) => (a.charStart == null) === (a.charEnd == null), {
+    message: "charStart and charEnd must be provided together",
+  })
+  .refine((a) => a.charStart == null || a.charEnd! > a.charStart, {
+    message: "charEnd must be greater than charStart",
+  })
+  .refine((a) => a.charStart != null || a.bbox != null, {
+    message: "Either a character range or a bbox is required",
+  });
+
+export const updateDocumentAnnotationSchema = z.object({
+  note: z.string().max(5000).nullable().optional(),
+  tags: annotationTagsSchema.optional(),
+});
+
+export type DocumentAnnotation = typeof documentAnnotations.$inferSelect;
+export type InsertDocumentAnnotation = typeof documentAnnotations.$inferInsert;
+export type UpdateDocumentAnnotation = z.infer<typeof updateDocumentAnnotationSchema>;
+
+/** Annotation with the title of its document, for cross-document listings. */
+export interface DocumentAnnotationWithDocument extends DocumentAnnotation {
+  documentTitle: string;
+}
+
+// Investigation workspaces ("case files"): named, ordered collections of
+// persons, documents, timeline events, saved searches and free-text notes.
+export const workspaces = pgTable("workspaces", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_workspaces_user").on(table.userId, table.updatedAt),
+]);
+
+export const WORKSPACE_ITEM_TYPES = ["person", "document", "event", "search", "note"] as const;
+export type WorkspaceItemType = typeof WORKSPACE_ITEM_TYPES[number];
+
+export const workspaceItems = pgTable("workspace_items", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  itemType: text("item_type").notNull(), // 'person' | 'document' | 'event' | 'search' | 'note'
+  entityId: integer("entity_id"),
+  searchQuery: text("search_query"),
+  noteText: text("note_text"),
+  comment: text("comment"),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_workspace_items_workspace").on(table.workspaceId, table.position),
+  // Same partial-unique approach as bookmarks: NULL entity IDs (searches, notes) never conflict
+  uniqueIndex("idx_workspace_items_entity_unique")
+    .on(table.workspaceId, table.itemType, table.entityId)
+    .where(sql`entity_id IS NOT NULL`),
+]);
+
+export const insertWorkspaceSchema = z.object({
+  userId: z.string().min(1),
+  name: z.string().trim().min(1).max(120),
+  description: z.string().max(2000).nullish(),
+});
+
+export const updateWorkspaceSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  description: z.string().max(2000).nullable().optional(),
+});
+
+export const insertWorkspaceItemSchema = z.object({
+  workspaceId: z.number().int().positive(),
+  itemType: z.enum(WORKSPACE_ITEM_TYPES),
+  entityId: z.number().int().positive().nullish(),
+  searchQuery: z.string().trim().min(1).max(500).nullish(),
+  noteText: z.string().trim().min(1).max(10000).nullish(),
+  comment: z.string().max(2000).nullish(),
+}).refine((item) => {
+  switch (item.itemType) {
+    case "search": return !!item.searchQuery;
+    case "note": return !!item.noteText;
+    default: return item.entityId != null;
+  }
+}, { message: "Persons, documents and events need entityId; searches need searchQuery; notes need noteText" });
+
+export const updateWorkspaceItemSchema = z.object({
+  comment: z.string().max(2000).nullable().optional(),
+  noteText: z.string().trim().min(1).max(10000).optional(),
+});
+
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = typeof workspaces.$inferInsert;
+export type UpdateWorkspace = z.infer<typeof updateWorkspaceSchema>;
+export type WorkspaceItem = typeof workspaceItems.$inferSelect;
+export type InsertWorkspaceItem = typeof workspaceItems.$inferInsert;
+export type UpdateWorkspaceItem = z.infer<typeof updateWorkspaceItemSchema>;
+
+export interface WorkspaceSummary extends Workspace {
+  itemCount: number;
+}
+
+/** Workspace item with the referenced person/document/event resolved for display. */
+export interface WorkspaceItemDetail extends WorkspaceItem {
+  person?: Pick<Person, 'id' | 'name' | 'role' | 'category' | 'imageUrl'>;
+  document?: Pick<Document, 'id' | 'title' | 'documentType' | 'dataSet' | 'dateOriginal'>;
+  event?: Pick<TimelineEvent, 'id' | 'date' | 'title' | 'category' | 'significance'>;
+}
+
+export interface WorkspaceDetail extends Workspace {
+  items: WorkspaceItemDetail[];
+}
+
+/** Network graph and timeline data scoped to one workspace. */
+export interface WorkspaceVisualization {
+  persons: Pick<Person, 'id' | 'name' | 'category'>[];
+  connections: (Connection & { person1Name: string; person2Name: string })[];
+  events: (TimelineEvent & { persons: { id: number; name: string }[]; documents: { id: number; title: string }[] })[];
+}
+
 // Chat tables
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
@@ -373,6 +970,8 @@ export const aiAnalyses = pgTable("ai_analyses", {
   entities: jsonb("entities"),
   entityCount: integer("entity_count").notNull().default(0),
   schemaVersion: integer("schema_version").notNull().default(1),
+  /** The ai_analysis_versions.version this row was promoted from */
+  version: integer("version"),
   analyzedAt: timestamp("analyzed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
@@ -397,8 +996,39 @@ export const aiAnalysisPersons = pgTable("ai_analysis_persons", {
   index("idx_aap_name_trgm").using("gin", sql`${table.name} gin_trgm_ops`),
 ]);
 
+// Every analysis run of a file, numbered per file. ai_analyses holds the promoted one.
+export const aiAnalysisVersions = pgTable("ai_analysis_versions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  fileName: text("file_name").notNull(),
+  version: integer("version").notNull(),
+  dataSet: text("data_set"),
+  documentType: text("document_type"),
+  dateOriginal: text("date_original"),
+  summary: text("summary"),
+  tier: integer("tier").notNull().default(0),
+  /** Model registry id; null for Tier 0 */
+  model: text("model"),
+  schemaVersion: integer("schema_version").notNull().default(1),
+  /** Fractional cents, as recorded in budget_tracking */
+  costCents: doublePrecision("cost_cents").notNull().default(0),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  persons: jsonb("persons"),
+  connectionsData: jsonb("connections_data"),
+  events: jsonb("events"),
+  locations: jsonb("locations"),
+  keyFacts: jsonb("key_facts"),
+  entities: jsonb("entities"),
+  analyzedAt: timestamp("analyzed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_ai_analysis_versions_file_version").on(table.fileName, table.version),
+]);
+
 export type AIAnalysis = typeof aiAnalyses.$inferSelect;
 export type InsertAIAnalysis = typeof aiAnalyses.$inferInsert;
+export type AIAnalysisVersion = typeof aiAnalysisVersions.$inferSelect;
+export type InsertAIAnalysisVersion = typeof aiAnalysisVersions.$inferInsert;
 export type AIAnalysisPersonRow = typeof aiAnalysisPersons.$inferSelect;
 export type InsertAIAnalysisPersonRow = typeof aiAnalysisPersons.$inferInsert;
 
@@ -468,9 +1098,195 @@ export const entityDocumentsRelations = relations(entityDocuments, ({ one }) =>
   document: one(documents, { fields: [entityDocuments.documentId], references: [documents.id] }),
 }));
 
+// Flight legs read from flight-log tables and AI analysis travel events
+// (scripts/pipeline/load-flights.ts). Airports are codes where known, otherwise
+// place names as written.
+export const flights = pgTable("flights", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  /** "YYYY-MM-DD", or "YYYY-MM"/"YYYY" when the source is less precise */
+  date: text("date"),
+  dateRaw: text("date_raw"),
+  origin: text("origin"),
+  destination: text("destination"),
+  aircraftEntityId: integer("aircraft_entity_id").references(() => entities.id, { onDelete: "set null" }),
+  /** Tail number or name as written in the source */
+  aircraftName: text("aircraft_name"),
+  documentId: integer("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  pageNumber: integer("page_number"),
+  source: text("source").notNull(), // "table" | "analysis"
+  passengerCount: integer("passenger_count").notNull().default(0),
+}, (table) => [
+  index("idx_flights_date").on(table.date),
+  index("idx_flights_document").on(table.documentId),
+  index("idx_flights_aircraft").on(table.aircraftEntityId),
+]);
+
+export const flightPassengers = pgTable("flight_passengers", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  flightId: integer("flight_id").notNull().references(() => flights.id, { onDelete: "cascade" }),
+  /** Null when the name as written could not be resolved to one person */
+  personId: integer("person_id").references(() => persons.id, { onDelete: "set null" }),
+  rawName: text("raw_name").notNull(),
+}, (table) => [
+  index("idx_flight_passengers_flight").on(table.flightId),
+  index("idx_flight_passengers_person").on(table.personId, table.flightId),
+]);
+
+export type Flight = typeof flights.$inferSelect;
+export type InsertFlight = typeof flights.$inferInsert;
+export type FlightPassenger = typeof flightPassengers.$inferSelect;
+export type InsertFlightPassenger = typeof flightPassengers.$inferInsert;
+
+/** A flight with its passengers and the names of its aircraft and source document */
+export type FlightDetail = Flight & {
+  documentTitle: string;
+  aircraftEntityName: string | null;
+  passengers: (Pick<FlightPassenger, "personId" | "rawName"> & { personName: string | null })[];
+};
+
+/** Someone who shared at least one flight with a given person */
+export interface CoPassenger {
+  personId: number;
+  name: string;
+  category: string;
+  imageUrl: string | null;
+  flightCount: number;
+  firstDate: string | null;
+  lastDate: string | null;
+}
+
+/** Entity connection with the display names of both endpoints resolved. */
+export interface EntityConnectionDetail extends EntityConnection {
+  entityName: string;
+  personName: string | null;
+  otherEntityName: string | null;
+}
+
+export type NetworkEntity = Pick<Entity, 'id' | 'name' | 'entityType' | 'documentCount' | 'connectionCount'>;
+
+export interface EntityNetworkData {
+  entities: NetworkEntity[];
+  connections: EntityConnectionDetail[];
+}
+
+export type NetworkPerson = Pick<Person, 'id' | 'name' | 'category' | 'documentCount' | 'connectionCount' | 'imageUrl' | 'occupation'>;
+
+/** One hop of a network path, with every connection between the two persons that passed the filters. */
+export interface NetworkPathEdge {
+  fromPersonId: number;
+  toPersonId: number;
+  connections: Pick<Connection, 'id' | 'connectionType' | 'description' | 'strength' | 'documentIds'>[];
+  /** Source documents of those connections, i.e. the evidence for this hop */
+  documentIds: number[];
+}
+
+export interface NetworkPath {
+  personIds: number[];
+  edges: NetworkPathEdge[];
+  hops: number;
+  /** Hop count, or the sum of 1/strength per hop when weighted by strength */
+  cost: number;
+}
+
+export interface NetworkPathResult {
+  fromPersonId: number;
+  toPersonId: number;
+  paths: NetworkPath[];
+  persons: NetworkPerson[];
+  documents: Pick<Document, 'id' | 'title'>[];
+}
+
+/** A person in an ego network, with its distance from the centre and neighbours left out of the response. */
+export interface EgoNetworkPerson extends NetworkPerson {
+  hop: number;
+  /** Neighbours that pass the filters but lie beyond the hop or size limit; > 0 means expandable */
+  hiddenNeighborCount: number;
+}
+
+export interface EgoNetwork {
+  centerPersonId: number;
+  hops: number;
+  persons: EgoNetworkPerson[];
+  connections: (Connection & { person1Name: string; person2Name: string })[];
+  /** True when the person limit cut the expansion short */
+  truncated: boolean;
+}
+
+// Directed sender → recipient graph aggregated from email_participants
+// (server/network-communications.ts), as opposed to the undirected connections above.
+export interface CommunicationEdge {
+  fromPersonId: number;
+  toPersonId: number;
+  /** Distinct messages from the sender with the recipient on To (or Cc, when included) */
+  messageCount: number;
+  firstSentAt: Date | null;
+  lastSentAt: Date | null;
+}
+
+export type CommunicationPerson = NetworkPerson & { sentCount: number; receivedCount: number };
+
+export interface CommunicationGraph {
+  persons: CommunicationPerson[];
+  /** Heaviest first */
+  edges: CommunicationEdge[];
+}
+
+// Graph analytics snapshot, recomputed by the pipeline after update-counts
+// (server/network-analytics.ts). "persons" covers person↔person connections only;
+// "combined" adds entities and entity connections as nodes and edges.
+export const NETWORK_ANALYTICS_GRAPHS = ["persons", "combined"] as const;
+export type NetworkAnalyticsGraph = typeof NETWORK_ANALYTICS_GRAPHS[number];
+
+export const networkMetrics = pgTable("network_metrics", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  graph: text("graph").notNull(), // 'persons' | 'combined'
+  nodeType: text("node_type").notNull(), // 'person' | 'entity'
+  nodeId: integer("node_id").notNull(),
+  degree: integer("degree").notNull(),
+  degreeCentrality: real("degree_centrality").notNull(),
+  betweenness: real("betweenness").notNull(),
+  eigenvector: real("eigenvector").notNull(),
+  communityId: integer("community_id").notNull(),
+  bridgeCommunities: integer("bridge_communities").notNull(), // other communities among the node's neighbours
+  computedAt: timestamp("computed_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_network_metrics_node").on(table.graph, table.nodeType, table.nodeId),
+]);
+
+export type NetworkMetric = typeof networkMetrics.$inferSelect;
+export type InsertNetworkMetric = typeof networkMetrics.$inferInsert;
+
+/** Centrality and community for one graph node, with its display name resolved. */
+export interface NetworkNodeMetrics extends Pick<NetworkMetric, 'nodeType' | 'nodeId' | 'degree' | 'degreeCentrality' | 'betweenness' | 'eigenvector' | 'communityId' | 'bridgeCommunities'> {
+  name: string;
+  /** Person category or entity type */
+  category: string;
+}
+
+export interface NetworkCommunity {
+  id: number;
+  size: number;
+  /** Name of the most central member */
+  label: string;
+  topMembers: Pick<NetworkNodeMetrics, 'nodeType' | 'nodeId' | 'name'>[];
+}
+
+export interface NetworkAnalytics {
+  graph: NetworkAnalyticsGraph;
+  computedAt: string | null;
+  nodeCount: number;
+  /** Sorted by betweenness, highest first */
+  nodes: NetworkNodeMetrics[];
+  communities: NetworkCommunity[];
+  /** Brokers: high-betweenness nodes whose neighbours span two or more other communities */
+  bridges: NetworkNodeMetrics[];
+}
+
 export interface ChatCitation {
   documentId: number;
   documentTitle: string;
+  /** The page quoted in the answer's context; absent for document-level links */
+  pageNumber?: number;
   relevance: string;
 }
 
@@ -529,6 +1345,45 @@ export interface AIAnalysisEvent {
   significance?: number;
 }
 
+export interface AIAnalysisVersionSummary {
+  version: number;
+  tier: number;
+  model: string | null;
+  schemaVersion: number;
+  personCount: number;
+  connectionCount: number;
+  eventCount: number;
+  keyFactCount: number;
+  costCents: number;
+  analyzedAt: string | null;
+  /** Promoted into ai_analyses */
+  current: boolean;
+}
+
+export interface AIAnalysisListDiff<T> {
+  added: T[];
+  removed: T[];
+}
+
+/** What changed going from version `from` to version `to` of one file */
+export interface AIAnalysisVersionDiff {
+  from: number;
+  to: number;
+  persons: AIAnalysisListDiff<AIAnalysisPerson>;
+  connections: AIAnalysisListDiff<AIAnalysisConnection>;
+  events: AIAnalysisListDiff<AIAnalysisEvent>;
+  keyFacts: AIAnalysisListDiff<string>;
+}
+
+export interface AIAnalysisVersions {
+  fileName: string;
+  currentVersion: number | null;
+  /** Newest first */
+  versions: AIAnalysisVersionSummary[];
+  /** Null while the file has a single version */
+  diff: AIAnalysisVersionDiff | null;
+}
+
 export interface AIAnalysisDocument {
   fileName?: string;
   dataSet?: string;